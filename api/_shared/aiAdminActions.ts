@@ -5,6 +5,7 @@ import type {
   AiAdminAllowedActionType,
   AiAdminRunCaps,
 } from "./aiAdminPlan.ts";
+import { auditLogTxs, createAuditOps } from "./auditLog.ts";
 import {
   applyStatDataPayloads,
   buildDataMaps,
@@ -14,6 +15,7 @@ import {
   deriveStatName,
   fetchCountyData,
   fetchGroupMetadata,
+  fetchTractData,
   fetchZipData,
   hydrateCountyZipBucketsFromAreas,
   inferStatType,
@@ -171,7 +173,7 @@ const fetchRootRowsByStatIds = async (
           name: "root",
           statId: { $in: statIds },
         },
-        fields: ["statId", "parentArea", "boundaryType", "date", "data"],
+        fields: ["statId", "parentArea", "boundaryType", "date", "data", "marginOfError"],
       },
     },
   });
@@ -187,6 +189,12 @@ const fetchRootRowsByStatIds = async (
   return out;
 };
 
+const auditMetaFor = (context: ExecuteActionContext) => ({
+  actor: context.callerEmail,
+  source: "ai-admin" as const,
+  sourceDetail: `run:${context.runId}`,
+});
+
 const chunkAndTransact = async (db: InstantAdminLike, operations: unknown[], maxBatch = MAX_WRITE_TX_BATCH) => {
   for (let i = 0; i < operations.length; i += maxBatch) {
     const chunk = operations.slice(i, i + maxBatch);
@@ -249,17 +257,22 @@ const executeImportCensusStat = async (
         visibilityEffective: payload.visibility,
       };
       if (payload.createdBy) statRecord.createdBy = payload.createdBy;
-      await db.transact(tx.stats[statId].update(statRecord));
+      await db.transact([
+        tx.stats[statId].update(statRecord),
+        ...auditLogTxs({ entity: "stats", recordId: statId, action: "create", after: statRecord, ...auditMetaFor(context) }),
+      ]);
     }
 
     const moeVariables = payload.includeMoe ? Array.from(moeMap.values()) : [];
     const zipPayload = await fetchZipData(options, [payload.variable], moeVariables);
     const countyPayload = await fetchCountyData(options, [payload.variable], moeVariables);
+    const tractPayload = await fetchTractData(options, [payload.variable], moeVariables);
     const maps = buildDataMaps(
       payload.variable,
       payload.includeMoe ? moeMap.get(payload.variable) ?? null : null,
       zipPayload,
       countyPayload,
+      tractPayload,
     );
     await hydrateCountyZipBucketsFromAreas(db, maps);
 
@@ -277,7 +290,7 @@ const executeImportCensusStat = async (
     throw new Error("Failed to build import payload.");
   }
 
-  await applyStatDataPayloads(db, allPayloads);
+  await applyStatDataPayloads(db, allPayloads, { auditOps: createAuditOps(auditMetaFor(context)) });
 
   return {
     actionId: action.id,
@@ -332,10 +345,15 @@ const executeCreateDerivedStat = async (
   };
   if (createdBy) statRecord.createdBy = createdBy;
 
-  await db.transact(tx.stats[newStatId].update(statRecord));
+  const auditMeta = auditMetaFor(context);
+  await db.transact([
+    tx.stats[newStatId].update(statRecord),
+    ...auditLogTxs({ entity: "stats", recordId: newStatId, action: "create", after: statRecord, ...auditMeta }),
+  ]);
 
   const dataType = FORMULA_TO_STAT_TYPE[formula];
   const operations: unknown[] = [];
+  let createdRows = 0;
   const sortedRows = [...derivedRows].sort((a, b) => String(a.date ?? "").localeCompare(String(b.date ?? "")));
 
   for (const row of sortedRows) {
@@ -346,21 +364,26 @@ const executeCreateDerivedStat = async (
     const summaryKey = buildStatDataSummaryKey(newStatId, "root", parentArea, boundaryType);
     const summary = computeSummaryFromData(row.data);
 
+    const statDataId = createId();
+    const statDataRecord = {
+      statId: newStatId,
+      name: "root",
+      parentArea,
+      boundaryType,
+      date,
+      type: dataType,
+      data: row.data,
+      ...(row.marginOfError ? { marginOfError: row.marginOfError } : {}),
+      source,
+      statTitle: label,
+      createdOn: now,
+      lastUpdated: now,
+    };
     operations.push(
-      tx.statData[createId()].update({
-        statId: newStatId,
-        name: "root",
-        parentArea,
-        boundaryType,
-        date,
-        type: dataType,
-        data: row.data,
-        source,
-        statTitle: label,
-        createdOn: now,
-        lastUpdated: now,
-      }),
+      tx.statData[statDataId].update(statDataRecord),
+      ...auditLogTxs({ entity: "statData", recordId: statDataId, action: "create", after: statDataRecord, ...auditMeta }),
     );
+    createdRows += 1;
 
     operations.push(
       tx.statDataSummaries[lookup("summaryKey", summaryKey)].update({
@@ -391,7 +414,7 @@ const executeCreateDerivedStat = async (
     status: "completed",
     createdStatId: newStatId,
     createdStatName: name,
-    createdRows: operations.length / 2,
+    createdRows,
     formula,
     runId: context.runId,
   };
@@ -0,0 +1,31 @@
+import { id, tx } from "@instantdb/admin";
+
+import {
+  buildAuditRecord,
+  type AuditEntity,
+  type AuditRecordInput,
+} from "../../src/lib/auditLog.ts";
+
+/**
+ * Audit log chunk to transact alongside a server-side write. Empty when the
+ * write changes nothing, so callers can always spread it in.
+ */
+export const auditLogTxs = (input: AuditRecordInput) => {
+  const record = buildAuditRecord(input);
+  return record ? [tx.auditLog[id()].update(record)] : [];
+};
+
+/**
+ * `auditOps` callback for the census.js writers, which build their own
+ * transactions.
+ */
+export const createAuditOps =
+  (meta: Pick<AuditRecordInput, "actor" | "source" | "sourceDetail">) =>
+  (
+    entity: AuditEntity,
+    recordId: string,
+    action: AuditRecordInput["action"],
+    before: object | null,
+    after: object | null,
+  ) =>
+    auditLogTxs({ entity, recordId, action, before, after, ...meta });
@@ -6,6 +6,7 @@ export const inferStatType: any;
 export const resolveVariables: any;
 export const fetchZipData: any;
 export const fetchCountyData: any;
+export const fetchTractData: any;
 export const buildDataMaps: any;
 export const summarizeDataMaps: any;
 export const hydrateCountyZipBucketsFromAreas: any;
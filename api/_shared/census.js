@@ -292,7 +292,46 @@ export const fetchCountyData = async (options, estimates, moeVariables) => {
   return { records };
 };
 
-export const buildDataMaps = (variable, moeVariable, zipPayload, countyPayload) => {
+// Tract estimates are only published in the ACS 5-year tables; other datasets
+// (acs1, decennial profiles) return an error for tract geographies.
+const supportsTractGeography = (dataset) => typeof dataset === "string" && /acs5/i.test(dataset);
+
+export const fetchTractData = async (options, estimates, moeVariables) => {
+  if (!estimates.length || !supportsTractGeography(options.dataset)) return { records: [] };
+  const getParams = ["NAME", ...estimates, ...moeVariables];
+  const data = await fetchCensusJson(
+    options.year,
+    options.dataset,
+    "",
+    {
+      get: getParams.join(","),
+      for: "tract:*",
+      in: `state:${OK_STATE_FIPS}`,
+    },
+    options.debug,
+  );
+  const [headers, ...rows] = data;
+  if (!headers) return { records: [] };
+  const records = rows.map((row) => {
+    const entry = {};
+    headers.forEach((key, index) => {
+      entry[key] = row[index];
+    });
+    return entry;
+  });
+  return { records };
+};
+
+// Tract GEOIDs are state (2) + county (3) + tract (6); the API returns the parts separately.
+const buildTractGeoid = (record) => {
+  const state = typeof record.state === "string" ? record.state.trim() : "";
+  const county = typeof record.county === "string" ? record.county.trim().padStart(3, "0") : "";
+  const tract = typeof record.tract === "string" ? record.tract.trim().padStart(6, "0") : "";
+  const geoid = `${state}${county}${tract}`;
+  return /^\d{11}$/.test(geoid) ? geoid : null;
+};
+
+export const buildDataMaps = (variable, moeVariable, zipPayload, countyPayload, tractPayload) => {
   const estimateKey = variable;
   const moeKey = moeVariable;
 
@@ -333,6 +372,22 @@ export const buildDataMaps = (variable, moeVariable, zipPayload, countyPayload)
     }
   }
 
+  const tractMap = new Map();
+  const tractMoeMap = new Map();
+  for (const record of (tractPayload && tractPayload.records) || []) {
+    if (record.state !== OK_STATE_FIPS) continue;
+    const geoid = buildTractGeoid(record);
+    if (!geoid) continue;
+    const estimate = toNumberOrNull(record[estimateKey]);
+    if (estimate != null) {
+      tractMap.set(geoid, estimate);
+    }
+    if (moeKey) {
+      const moeVal = toNumberOrNull(record[moeKey]);
+      if (moeVal != null) tractMoeMap.set(geoid, moeVal);
+    }
+  }
+
   return {
     zip: zipMap,
     zipMoe: zipMoeMap,
@@ -340,6 +395,8 @@ export const buildDataMaps = (variable, moeVariable, zipPayload, countyPayload)
     countyMoe: countyMoeMap,
     countyZipBuckets: countyZipMap,
     countyZipMoe: countyZipMoeMap,
+    tract: tractMap,
+    tractMoe: tractMoeMap,
   };
 };
 
@@ -347,6 +404,7 @@ export const summarizeDataMaps = (maps) => ({
   zipCount: maps.zip.size,
   countyCount: maps.county.size,
   countyZipGroups: maps.countyZipBuckets.size,
+  tractCount: maps.tract ? maps.tract.size : 0,
 });
 
 // Local helpers to normalize county names into the same "<Name> County"
@@ -496,6 +554,9 @@ export const ensureStatRecord = async (
   const statLabel = derivedLabel && derivedLabel.trim() ? derivedLabel.trim() : null;
   const visibility = typeof options.visibility === "string" ? options.visibility : null;
   const createdBy = typeof options.createdBy === "string" ? options.createdBy : null;
+  // Optional (entity, recordId, action, before, after) => extra ops, used to
+  // write the audit log in the same transaction.
+  const auditOps = typeof options.auditOps === "function" ? options.auditOps : () => [];
 
   const byExternal = { stats: { $: { where: { neId: externalId }, limit: 1 } } };
   const ex = await db.query(byExternal);
@@ -507,7 +568,12 @@ export const ensureStatRecord = async (
     if (existing.name !== statName) updates.name = statName;
     if ((!existing.label || !String(existing.label).trim()) && statLabel) updates.label = statLabel;
     if (existing.active == null) updates.active = true;
-    if (Object.keys(updates).length > 1) await db.transact(tx.stats[existing.id].update(updates));
+    if (Object.keys(updates).length > 1) {
+      await db.transact([
+        tx.stats[existing.id].update(updates),
+        ...auditOps("stats", existing.id, "update", existing, updates),
+      ]);
+    }
     return { statId: existing.id, statType };
   }
 
@@ -521,7 +587,10 @@ export const ensureStatRecord = async (
     if (sameName.source !== "Census") updates.source = "Census";
     if ((!sameName.label || !String(sameName.label).trim()) && statLabel) updates.label = statLabel;
     if (sameName.active == null) updates.active = true;
-    await db.transact(tx.stats[sameName.id].update(updates));
+    await db.transact([
+      tx.stats[sameName.id].update(updates),
+      ...auditOps("stats", sameName.id, "update", sameName, updates),
+    ]);
     return { statId: sameName.id, statType };
   }
 
@@ -542,7 +611,7 @@ export const ensureStatRecord = async (
   }
   if (createdBy) record.createdBy = createdBy;
   if (statLabel) record.label = statLabel;
-  await db.transact(tx.stats[statId].update(record));
+  await db.transact([tx.stats[statId].update(record), ...auditOps("stats", statId, "create", null, record)]);
   return { statId, statType };
 };
 
@@ -640,8 +709,9 @@ const computeNumericSummary = (dataMap) => {
 // Keep each transact extremely small to avoid 5s admin timeouts.
 const MAX_TX_BATCH = 1;
 
-export const applyStatDataPayloads = async (db, payloads) => {
+export const applyStatDataPayloads = async (db, payloads, options = {}) => {
   if (!payloads.length) return;
+  const auditOps = typeof options.auditOps === "function" ? options.auditOps : () => [];
   const now = Date.now();
   const statId = payloads[0].statId;
   const dates = payloads.map((p) => p.year);
@@ -695,7 +765,10 @@ export const applyStatDataPayloads = async (db, payloads) => {
       record.marginOfError = mapToObject(payload.margin);
     }
 
-    operations.push(tx.statData[targetId].update(record));
+    operations.push(
+      tx.statData[targetId].update(record),
+      ...auditOps("statData", targetId, existingRow ? "update" : "create", null, record),
+    );
     existing.set(key, { ...record, id: targetId });
 
     const summaryKey = buildSummaryKey({
@@ -801,6 +874,23 @@ export const buildStatDataPayloads = (statId, statName, statType, maps, meta, op
     year: meta.year,
     name: payloadName,
   });
+  if (maps.tract && maps.tract.size > 0) {
+    payloads.push({
+      statId,
+      statName,
+      statType,
+      parentArea: NORMALIZED_DEFAULT_PARENT_AREA,
+      boundaryType: "TRACT",
+      data: maps.tract,
+      margin: maps.tractMoe && maps.tractMoe.size ? maps.tractMoe : undefined,
+      censusVariable: meta.censusVariable,
+      censusSurvey: meta.censusSurvey,
+      censusUniverse: meta.censusUniverse,
+      censusTableUrl: meta.censusTableUrl,
+      year: meta.year,
+      name: payloadName,
+    });
+  }
   return payloads;
 };
 
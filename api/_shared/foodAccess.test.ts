@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { getStatAggregationRule } from "../../src/react/lib/statAggregation";
+import {
+  computeFoodAccessMetrics,
+  getFoodAccessMetricType,
+  haversineMiles,
+  type AccessArea,
+} from "./foodAccess";
+
+// Downtown Tulsa and a rural ZIP roughly 40 miles northeast.
+const areas: AccessArea[] = [
+  { code: "74103", kind: "ZIP", centroid: [-95.99, 36.154], parentCode: "Tulsa County" },
+  { code: "74048", kind: "ZIP", centroid: [-95.6, 36.69], parentCode: "Nowata" },
+  { code: "40143", kind: "COUNTY", centroid: [-95.94, 36.12], name: "Tulsa County" },
+  { code: "40105", kind: "COUNTY", centroid: [-95.61, 36.8], name: "Nowata County" },
+];
+
+const orgs = [
+  { id: "pantry", latitude: 36.16, longitude: -95.99, postalCode: "74103" },
+  { id: "kitchen", latitude: 36.15, longitude: -96.0, postalCode: null },
+];
+
+describe("foodAccess", () => {
+  it("measures great-circle miles", () => {
+    // One degree of latitude is about 69 miles.
+    expect(haversineMiles([-96, 36], [-96, 37])).toBeCloseTo(69.1, 0);
+  });
+
+  it("computes nearest distance, nearby counts and orgs per 1,000 residents", () => {
+    const metrics = computeFoodAccessMetrics(
+      areas,
+      orgs,
+      { ZIP: { "74103": 4000, "74048": 2500 }, COUNTY: { "40143": 670_000 } },
+      { radiusMiles: 5 },
+    );
+
+    expect(metrics.nearestMiles.ZIP["74103"]).toBeLessThan(1);
+    expect(metrics.nearestMiles.ZIP["74048"]).toBeGreaterThan(35);
+    expect(metrics.withinRadius.ZIP).toEqual({ "74103": 2, "74048": 0 });
+    expect(metrics.withinRadius.COUNTY["40143"]).toBe(2);
+    // The org without a postal code lands in the nearest ZIP.
+    expect(metrics.per1000.ZIP).toEqual({ "74103": 0.5, "74048": 0 });
+    expect(metrics.per1000.COUNTY["40143"]).toBeCloseTo(0.003);
+    // No population, no rate.
+    expect(metrics.per1000.COUNTY["40105"]).toBeUndefined();
+  });
+
+  it("averages nearby counts across areas instead of summing overlapping radii", () => {
+    expect(getStatAggregationRule(getFoodAccessMetricType("withinRadius"))).toBe("weighted");
+    expect(getStatAggregationRule(getFoodAccessMetricType("nearestMiles"))).toBe("weighted");
+  });
+
+  it("leaves distances out when there are no orgs", () => {
+    const metrics = computeFoodAccessMetrics(areas, [], { ZIP: {}, COUNTY: {} });
+    expect(metrics.nearestMiles.ZIP).toEqual({});
+    expect(metrics.withinRadius.ZIP["74103"]).toBe(0);
+  });
+});
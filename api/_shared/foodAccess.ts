@@ -0,0 +1,506 @@
+import { id, lookup, tx } from "@instantdb/admin";
+
+import { auditLogTxs } from "./auditLog.ts";
+
+type AccessBoundaryType = "ZIP" | "COUNTY";
+type AccessMetricKey = "nearestMiles" | "withinRadius" | "per1000";
+
+type InstantAdminLike = {
+  query: (query: unknown) => Promise<unknown>;
+  transact: (ops: unknown[]) => Promise<unknown>;
+};
+
+export type AccessArea = {
+  code: string;
+  kind: AccessBoundaryType;
+  centroid: [number, number];
+  /** County label for ZIPs (areas.parentCode), e.g. "Tulsa County". */
+  parentCode?: string | null;
+  name?: string | null;
+};
+
+export type AccessOrg = {
+  id: string;
+  latitude: number;
+  longitude: number;
+  postalCode?: string | null;
+};
+
+export type FoodAccessMetrics = Record<AccessMetricKey, Record<AccessBoundaryType, Record<string, number>>>;
+
+export type FoodAccessRecomputeOptions = {
+  radiusMiles?: number;
+  populationStatId?: string;
+  date?: string;
+  /** Who triggered the run, for the audit log. */
+  actor?: string | null;
+};
+
+export type FoodAccessRecomputeResult = {
+  ok: boolean;
+  computedAt: number;
+  date: string;
+  radiusMiles: number;
+  orgCount: number;
+  areaCount: number;
+  statIds: Record<AccessMetricKey, string>;
+  rowsWritten: number;
+};
+
+const MAX_QUERY_LIMIT = 5000;
+const TX_CHUNK_SIZE = 50;
+const EARTH_RADIUS_MILES = 3958.8;
+const PARENT_AREA = "Oklahoma";
+const FOOD_CATEGORY = "food";
+export const DEFAULT_ACCESS_RADIUS_MILES = 5;
+// Same stat as DEFAULT_POPULATION_STAT_ID in src/react/lib/domains.ts; API code stays self-contained.
+const DEFAULT_POPULATION_STAT_ID = "8807bf0b-5a85-4a73-82f2-cd18c8140072";
+
+const METRIC_DEFINITIONS: Record<
+  AccessMetricKey,
+  {
+    neId: (radiusMiles: number) => string;
+    name: (radiusMiles: number) => string;
+    description: (radiusMiles: number) => string;
+    type: string;
+    goodIfUp: boolean;
+  }
+> = {
+  nearestMiles: {
+    neId: () => "food_access_nearest_miles",
+    name: () => "Miles to Nearest Food Resource",
+    description: () =>
+      "Straight-line miles from the area's center to the closest open food organization on the map.",
+    type: "rate",
+    goodIfUp: false,
+  },
+  withinRadius: {
+    neId: (radiusMiles) => `food_access_within_${radiusMiles}mi`,
+    name: (radiusMiles) => `Food Resources Within ${radiusMiles} Miles`,
+    description: (radiusMiles) =>
+      `Open food organizations within ${radiusMiles} straight-line miles of the area's center.`,
+    // Neighboring areas' buffers overlap, so these can't be summed like counts;
+    // combined areas get the population-weighted average instead.
+    type: "rate",
+    goodIfUp: true,
+  },
+  per1000: {
+    neId: () => "food_access_per_1000",
+    name: () => "Food Resources per 1,000 Residents",
+    description: () => "Open food organizations located in the area per 1,000 residents.",
+    type: "rate",
+    goodIfUp: true,
+  },
+};
+
+const METRIC_KEYS = Object.keys(METRIC_DEFINITIONS) as AccessMetricKey[];
+
+/** Stat type written for `key`, which decides how combined areas aggregate it. */
+export const getFoodAccessMetricType = (key: AccessMetricKey): string => METRIC_DEFINITIONS[key].type;
+
+export const haversineMiles = (a: [number, number], b: [number, number]): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const [lng1, lat1] = a;
+  const [lng2, lat2] = b;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const normalizeCountyLabel = (value: string | null | undefined): string | null => {
+  if (typeof value !== "string") return null;
+  const base = value
+    .replace(/,\s*Oklahoma$/i, "")
+    .replace(/\s+County$/i, "")
+    .trim()
+    .toLowerCase();
+  return base || null;
+};
+
+const normalizeZip = (value: string | null | undefined): string | null => {
+  const match = typeof value === "string" ? value.trim().match(/^(\d{5})(?:-\d{4})?$/) : null;
+  return match ? match[1] : null;
+};
+
+/**
+ * Per-area access metrics from org points and area centroids:
+ * - `nearestMiles`: distance from the centroid to the closest org.
+ * - `withinRadius`: orgs within `radiusMiles` of the centroid.
+ * - `per1000`: orgs located in the area per 1,000 residents. An org's ZIP is
+ *   its postal code when that ZIP is known, else the ZIP with the nearest
+ *   centroid; its county is that ZIP's parent county. Areas without a
+ *   population are left out.
+ */
+export const computeFoodAccessMetrics = (
+  areas: AccessArea[],
+  orgs: AccessOrg[],
+  population: Record<AccessBoundaryType, Record<string, number>>,
+  { radiusMiles = DEFAULT_ACCESS_RADIUS_MILES }: { radiusMiles?: number } = {},
+): FoodAccessMetrics => {
+  const metrics: FoodAccessMetrics = {
+    nearestMiles: { ZIP: {}, COUNTY: {} },
+    withinRadius: { ZIP: {}, COUNTY: {} },
+    per1000: { ZIP: {}, COUNTY: {} },
+  };
+  const orgPoints = orgs.map((org) => [org.longitude, org.latitude] as [number, number]);
+
+  for (const area of areas) {
+    let nearest = Number.POSITIVE_INFINITY;
+    let within = 0;
+    for (const point of orgPoints) {
+      const miles = haversineMiles(area.centroid, point);
+      if (miles < nearest) nearest = miles;
+      if (miles <= radiusMiles) within += 1;
+    }
+    if (Number.isFinite(nearest)) metrics.nearestMiles[area.kind][area.code] = Math.round(nearest * 100) / 100;
+    metrics.withinRadius[area.kind][area.code] = within;
+  }
+
+  const zips = areas.filter((area) => area.kind === "ZIP");
+  const zipByCode = new Map(zips.map((area) => [area.code, area]));
+  const countyCodeByLabel = new Map<string, string>();
+  for (const area of areas) {
+    if (area.kind !== "COUNTY") continue;
+    const label = normalizeCountyLabel(area.name);
+    if (label) countyCodeByLabel.set(label, area.code);
+  }
+
+  const orgCounts: Record<AccessBoundaryType, Map<string, number>> = { ZIP: new Map(), COUNTY: new Map() };
+  for (const org of orgs) {
+    let zip = normalizeZip(org.postalCode);
+    if (!zip || !zipByCode.has(zip)) {
+      let nearest = Number.POSITIVE_INFINITY;
+      zip = null;
+      for (const area of zips) {
+        const miles = haversineMiles(area.centroid, [org.longitude, org.latitude]);
+        if (miles < nearest) {
+          nearest = miles;
+          zip = area.code;
+        }
+      }
+    }
+    if (!zip) continue;
+    orgCounts.ZIP.set(zip, (orgCounts.ZIP.get(zip) ?? 0) + 1);
+    const countyLabel = normalizeCountyLabel(zipByCode.get(zip)?.parentCode);
+    const county = countyLabel ? countyCodeByLabel.get(countyLabel) : undefined;
+    if (county) orgCounts.COUNTY.set(county, (orgCounts.COUNTY.get(county) ?? 0) + 1);
+  }
+
+  for (const area of areas) {
+    const residents = population[area.kind][area.code];
+    if (typeof residents !== "number" || !Number.isFinite(residents) || residents <= 0) continue;
+    const count = orgCounts[area.kind].get(area.code) ?? 0;
+    metrics.per1000[area.kind][area.code] = Math.round((count / residents) * 1000 * 1000) / 1000;
+  }
+
+  return metrics;
+};
+
+const unwrapRows = <T>(resp: unknown, key: string): T[] => {
+  const asRecord = (resp && typeof resp === "object" ? resp : null) as Record<string, unknown> | null;
+  if (!asRecord) return [];
+  const direct = asRecord[key];
+  if (Array.isArray(direct)) return direct as T[];
+  const nested = asRecord.data;
+  if (nested && typeof nested === "object" && Array.isArray((nested as Record<string, unknown>)[key])) {
+    return (nested as Record<string, unknown>)[key] as T[];
+  }
+  return [];
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const fetchAreas = async (db: InstantAdminLike): Promise<AccessArea[]> => {
+  const resp = await db.query({
+    areas: {
+      $: {
+        where: { kind: { $in: ["ZIP", "COUNTY"] } },
+        fields: ["code", "kind", "name", "parentCode", "centroid", "isActive"],
+        limit: MAX_QUERY_LIMIT,
+      },
+    },
+  });
+  const out: AccessArea[] = [];
+  for (const row of unwrapRows<any>(resp, "areas")) {
+    if (row?.isActive === false) continue;
+    const kind = row?.kind === "ZIP" || row?.kind === "COUNTY" ? (row.kind as AccessBoundaryType) : null;
+    const centroid = Array.isArray(row?.centroid) ? row.centroid : null;
+    if (!kind || typeof row?.code !== "string" || !centroid || !isFiniteNumber(centroid[0]) || !isFiniteNumber(centroid[1])) {
+      continue;
+    }
+    out.push({
+      code: row.code,
+      kind,
+      centroid: [centroid[0], centroid[1]],
+      parentCode: typeof row?.parentCode === "string" ? row.parentCode : null,
+      name: typeof row?.name === "string" ? row.name : null,
+    });
+  }
+  return out;
+};
+
+// Matches the map: moved/closed orgs and ones still in (or rejected by) moderation don't count.
+const fetchOpenFoodOrgs = async (db: InstantAdminLike): Promise<AccessOrg[]> => {
+  const resp = await db.query({
+    organizations: {
+      $: {
+        where: { category: FOOD_CATEGORY },
+        fields: ["id", "latitude", "longitude", "postalCode", "status", "moderationStatus"],
+        limit: MAX_QUERY_LIMIT,
+      },
+    },
+  });
+  const out: AccessOrg[] = [];
+  for (const row of unwrapRows<any>(resp, "organizations")) {
+    const status = typeof row?.status === "string" ? row.status.toLowerCase() : null;
+    const moderation = typeof row?.moderationStatus === "string" ? row.moderationStatus.toLowerCase() : null;
+    if (status === "closed" || status === "moved") continue;
+    if (moderation === "pending" || moderation === "declined" || moderation === "removed") continue;
+    if (typeof row?.id !== "string" || !isFiniteNumber(row?.latitude) || !isFiniteNumber(row?.longitude)) continue;
+    out.push({
+      id: row.id,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      postalCode: typeof row?.postalCode === "string" ? row.postalCode : null,
+    });
+  }
+  return out;
+};
+
+/** Latest population snapshot per boundary, merged across parent areas. */
+const fetchPopulation = async (
+  db: InstantAdminLike,
+  statId: string,
+): Promise<Record<AccessBoundaryType, Record<string, number>>> => {
+  const resp = await db.query({
+    statData: {
+      $: {
+        where: { statId, name: "root", boundaryType: { $in: ["ZIP", "COUNTY"] } },
+        fields: ["boundaryType", "date", "data"],
+        limit: MAX_QUERY_LIMIT,
+      },
+    },
+  });
+  const rows = unwrapRows<any>(resp, "statData");
+  const out: Record<AccessBoundaryType, Record<string, number>> = { ZIP: {}, COUNTY: {} };
+  for (const boundaryType of ["ZIP", "COUNTY"] as const) {
+    const matching = rows.filter((row) => row?.boundaryType === boundaryType && typeof row?.date === "string");
+    const latest = matching.reduce<string | null>(
+      (max, row) => (max === null || row.date.localeCompare(max) > 0 ? row.date : max),
+      null,
+    );
+    for (const row of matching) {
+      if (row.date !== latest || !row.data || typeof row.data !== "object") continue;
+      for (const [code, value] of Object.entries(row.data as Record<string, unknown>)) {
+        if (isFiniteNumber(value)) out[boundaryType][code] = value;
+      }
+    }
+  }
+  return out;
+};
+
+/** Finds each metric's stat by `neId`, creating it (private, for review) on the first run. */
+const ensureMetricStats = async (
+  db: InstantAdminLike,
+  radiusMiles: number,
+  now: number,
+  actor: string | null,
+): Promise<Record<AccessMetricKey, string>> => {
+  const neIds = METRIC_KEYS.map((key) => METRIC_DEFINITIONS[key].neId(radiusMiles));
+  const resp = await db.query({
+    stats: { $: { where: { neId: { $in: neIds } }, fields: ["id", "neId", "type"], limit: neIds.length } },
+  });
+  const existingByNeId = new Map<string, { id: string; type: string | null }>();
+  for (const row of unwrapRows<any>(resp, "stats")) {
+    if (typeof row?.id === "string" && typeof row?.neId === "string") {
+      existingByNeId.set(row.neId, { id: row.id, type: typeof row.type === "string" ? row.type : null });
+    }
+  }
+
+  const statIds = {} as Record<AccessMetricKey, string>;
+  const ops: unknown[] = [];
+  for (const key of METRIC_KEYS) {
+    const definition = METRIC_DEFINITIONS[key];
+    const neId = definition.neId(radiusMiles);
+    const existing = existingByNeId.get(neId);
+    if (existing) {
+      statIds[key] = existing.id;
+      // Stats created before a metric's type changed are corrected in place.
+      const patch =
+        existing.type === definition.type ? { lastUpdated: now } : { type: definition.type, lastUpdated: now };
+      ops.push(
+        tx.stats[existing.id].update(patch),
+        ...auditLogTxs({
+          entity: "stats",
+          recordId: existing.id,
+          action: "update",
+          before: { type: existing.type },
+          after: patch,
+          actor,
+          source: "api",
+          sourceDetail: "api/food-access-recompute",
+          now,
+        }),
+      );
+      continue;
+    }
+    const statId = id();
+    statIds[key] = statId;
+    const statRecord = {
+      neId,
+      name: definition.name(radiusMiles),
+      description: definition.description(radiusMiles),
+      category: FOOD_CATEGORY,
+      source: "NE",
+      type: definition.type,
+      goodIfUp: definition.goodIfUp,
+      featured: false,
+      homeFeatured: false,
+      visibility: "private",
+      createdOn: now,
+      lastUpdated: now,
+    };
+    ops.push(
+      tx.stats[statId].update(statRecord),
+      ...auditLogTxs({
+        entity: "stats",
+        recordId: statId,
+        action: "create",
+        after: statRecord,
+        actor,
+        source: "api",
+        sourceDetail: "api/food-access-recompute",
+        now,
+      }),
+    );
+  }
+  await db.transact(ops);
+  return statIds;
+};
+
+const fetchExistingStatDataIds = async (
+  db: InstantAdminLike,
+  statId: string,
+  date: string,
+): Promise<Map<AccessBoundaryType, string>> => {
+  const resp = await db.query({
+    statData: {
+      $: {
+        where: { statId, name: "root", parentArea: PARENT_AREA, date },
+        fields: ["id", "boundaryType"],
+        limit: 10,
+      },
+    },
+  });
+  const out = new Map<AccessBoundaryType, string>();
+  for (const row of unwrapRows<any>(resp, "statData")) {
+    if (typeof row?.id !== "string") continue;
+    if (row?.boundaryType === "ZIP" || row?.boundaryType === "COUNTY") out.set(row.boundaryType, row.id);
+  }
+  return out;
+};
+
+const summarize = (data: Record<string, number>) => {
+  const values = Object.values(data).filter(isFiniteNumber);
+  if (values.length === 0) return { count: 0, sum: 0, avg: 0, min: 0, max: 0 };
+  const sum = values.reduce((total, value) => total + value, 0);
+  return { count: values.length, sum, avg: sum / values.length, min: Math.min(...values), max: Math.max(...values) };
+};
+
+const transactChunked = async (db: InstantAdminLike, ops: unknown[]): Promise<void> => {
+  for (let i = 0; i < ops.length; i += TX_CHUNK_SIZE) {
+    await db.transact(ops.slice(i, i + TX_CHUNK_SIZE));
+  }
+};
+
+export const runFoodAccessRecompute = async (
+  db: InstantAdminLike,
+  options: FoodAccessRecomputeOptions = {},
+): Promise<FoodAccessRecomputeResult> => {
+  const radiusMiles = options.radiusMiles ?? DEFAULT_ACCESS_RADIUS_MILES;
+  if (!Number.isFinite(radiusMiles) || radiusMiles <= 0) {
+    throw new Error("radiusMiles must be a positive number.");
+  }
+  const computedAt = Date.now();
+  const date = options.date ?? String(new Date(computedAt).getFullYear());
+
+  const areas = await fetchAreas(db);
+  if (areas.length === 0) {
+    throw new Error("No ZIP or county areas with centroids. Run the area seed first.");
+  }
+  const orgs = await fetchOpenFoodOrgs(db);
+  const population = await fetchPopulation(db, options.populationStatId ?? DEFAULT_POPULATION_STAT_ID);
+  const metrics = computeFoodAccessMetrics(areas, orgs, population, { radiusMiles });
+  const actor = options.actor ?? null;
+  const statIds = await ensureMetricStats(db, radiusMiles, computedAt, actor);
+
+  const ops: unknown[] = [];
+  let rowsWritten = 0;
+  for (const key of METRIC_KEYS) {
+    const statId = statIds[key];
+    const definition = METRIC_DEFINITIONS[key];
+    const statTitle = definition.name(radiusMiles);
+    const existingIds = await fetchExistingStatDataIds(db, statId, date);
+    for (const boundaryType of ["ZIP", "COUNTY"] as const) {
+      const data = metrics[key][boundaryType];
+      if (Object.keys(data).length === 0) continue;
+      const existingId = existingIds.get(boundaryType);
+      const statDataId = existingId ?? id();
+      const statDataRecord = {
+        statId,
+        name: "root",
+        statTitle,
+        parentArea: PARENT_AREA,
+        boundaryType,
+        date,
+        type: definition.type,
+        data,
+        source: "NE",
+        ...(existingId ? {} : { createdOn: computedAt }),
+        lastUpdated: computedAt,
+      };
+      ops.push(
+        tx.statData[statDataId].update(statDataRecord),
+        ...auditLogTxs({
+          entity: "statData",
+          recordId: statDataId,
+          action: existingId ? "update" : "create",
+          after: statDataRecord,
+          actor,
+          source: "api",
+          sourceDetail: "api/food-access-recompute",
+          now: computedAt,
+        }),
+      );
+      const summary = summarize(data);
+      ops.push(
+        tx.statDataSummaries[lookup("summaryKey", `${statId}::root::${PARENT_AREA}::${boundaryType}`)].update({
+          statId,
+          name: "root",
+          parentArea: PARENT_AREA,
+          boundaryType,
+          date,
+          maxDate: date,
+          type: definition.type,
+          ...summary,
+          updatedAt: computedAt,
+        }),
+      );
+      rowsWritten += 2;
+    }
+  }
+  await transactChunked(db, ops);
+
+  return {
+    ok: true,
+    computedAt,
+    date,
+    radiusMiles,
+    orgCount: orgs.length,
+    areaCount: areas.length,
+    statIds,
+    rowsWritten,
+  };
+};
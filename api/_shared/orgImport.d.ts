@@ -9,6 +9,6 @@ export const fetchProPublicaOrgDetail: any;
 export const enrichProPublicaOrgsWithDetails: any;
 export const createImportBatch: any;
 export const finalizeImportBatch: any;
-export const buildOrgTx: any;
+export const buildOrgAttrs: any;
 export const tx: any;
 export const id: any;
@@ -466,9 +466,9 @@ export const finalizeImportBatch = async (db, batchId, payload) => {
   await db.transact(tx.orgImports[batchId].update(payload));
 };
 
-export const buildOrgTx = (org, coords, category, importBatchId, orgId = id()) => {
+export const buildOrgAttrs = (org, coords, category, importBatchId) => {
   const now = Date.now();
-  return tx.organizations[orgId].update({
+  return {
     name: org.name,
     latitude: coords.latitude,
     longitude: coords.longitude,
@@ -493,7 +493,7 @@ export const buildOrgTx = (org, coords, category, importBatchId, orgId = id()) =
         ? org.annualRevenueTaxPeriod
         : null,
     importBatchId: importBatchId ?? null,
-  });
+  };
 };
 
 export { tx, id };
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildAreaStatValues,
+  buildStatSeries,
+  isPublicStat,
+  negotiateFormat,
+  toCsv,
+  type StatDataRow,
+  type StatRow,
+} from "./publicApi";
+
+const request = (query: Record<string, string> = {}, headers: Record<string, string> = {}) =>
+  ({ method: "GET", query, headers }) as any;
+
+describe("isPublicStat", () => {
+  it("follows the anonymous stats view rule", () => {
+    expect(isPublicStat({ id: "a", visibilityEffective: "public" })).toBe(true);
+    expect(isPublicStat({ id: "b", visibilityEffective: "private", visibility: "public" })).toBe(false);
+    expect(isPublicStat({ id: "c", visibility: "inactive" })).toBe(false);
+    expect(isPublicStat({ id: "d" })).toBe(true);
+    expect(isPublicStat({ id: "e", active: false })).toBe(false);
+  });
+});
+
+describe("negotiateFormat", () => {
+  it("prefers ?format over Accept", () => {
+    expect(negotiateFormat(request({ format: "csv" }, { accept: "application/json" }))).toBe("csv");
+    expect(negotiateFormat(request({ format: "xml" }))).toBeNull();
+  });
+
+  it("ranks Accept entries by q value", () => {
+    expect(negotiateFormat(request())).toBe("json");
+    expect(negotiateFormat(request({}, { accept: "text/csv" }))).toBe("csv");
+    expect(negotiateFormat(request({}, { accept: "application/json;q=0.5, text/csv" }))).toBe("csv");
+    expect(negotiateFormat(request({}, { accept: "text/html, */*;q=0.1" }))).toBe("json");
+    expect(negotiateFormat(request({}, { accept: "text/html" }))).toBeNull();
+  });
+});
+
+describe("buildStatSeries", () => {
+  const rows: StatDataRow[] = [
+    { statId: "s", parentArea: "Tulsa", boundaryType: "ZIP", date: "2022", type: "count", data: { "74103": 5 } },
+    { statId: "s", parentArea: "Tulsa", boundaryType: "ZIP", date: "2023", type: "count", data: { "74103": 7 } },
+    {
+      statId: "s",
+      parentArea: "Okmulgee",
+      boundaryType: "ZIP",
+      date: "2023",
+      type: "count",
+      data: { "74447": 3, bad: "x" },
+      marginOfError: { "74447": 1 },
+    },
+  ];
+
+  it("merges parent areas and keeps the latest date by default", () => {
+    expect(buildStatSeries(rows)).toEqual([
+      {
+        boundaryType: "ZIP",
+        date: "2023",
+        type: "count",
+        values: { "74103": 7, "74447": 3 },
+        marginOfError: { "74447": 1 },
+      },
+    ]);
+  });
+
+  it("returns the requested date", () => {
+    expect(buildStatSeries(rows, { date: "2022" }).map((entry) => entry.values)).toEqual([{ "74103": 5 }]);
+  });
+});
+
+describe("buildAreaStatValues", () => {
+  it("uses each stat's latest date with a value for the area", () => {
+    const stats = new Map<string, StatRow>([["pop", { id: "pop", name: "Population", type: "count" }]]);
+    const rows: StatDataRow[] = [
+      { statId: "pop", boundaryType: "ZIP", date: "2021", data: { "74103": 10 } },
+      { statId: "pop", boundaryType: "ZIP", date: "2023", data: { "74104": 99 } },
+      { statId: "hidden", boundaryType: "ZIP", date: "2023", data: { "74103": 1 } },
+    ];
+    expect(buildAreaStatValues("74103", rows, stats)).toEqual([
+      {
+        statId: "pop",
+        name: "Population",
+        label: null,
+        category: null,
+        type: "count",
+        date: "2021",
+        value: 10,
+        marginOfError: null,
+      },
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("escapes delimiters and blanks nulls", () => {
+    expect(toCsv(["a", "b"], [["x, y", null], ['say "hi"', 3]])).toBe('a,b\r\n"x, y",\r\n"say ""hi""",3');
+  });
+});
@@ -0,0 +1,366 @@
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { init as initAdmin } from "@instantdb/admin";
+
+export type PublicApiRequest = IncomingMessage & {
+  method?: string;
+  query?: Record<string, string | string[]>;
+};
+
+export type PublicApiResponse = {
+  status: (code: number) => PublicApiResponse;
+  json: (payload: unknown) => void;
+  send: (body: string) => void;
+  end: () => void;
+  setHeader: (name: string, value: string) => void;
+};
+
+export type PublicApiFormat = "json" | "csv";
+
+export type PublicApiDb = {
+  query: (query: Record<string, unknown>) => Promise<unknown>;
+};
+
+export type PublicApiDeps = {
+  getDb?: () => PublicApiDb;
+};
+
+export type StatRow = {
+  id: string;
+  name?: string | null;
+  label?: string | null;
+  description?: string | null;
+  category?: string | null;
+  source?: string | null;
+  goodIfUp?: boolean | null;
+  type?: string | null;
+  active?: boolean | null;
+  visibility?: string | null;
+  visibilityEffective?: string | null;
+};
+
+export type StatDataRow = {
+  statId: string;
+  name?: string | null;
+  parentArea?: string | null;
+  boundaryType: string;
+  date: string;
+  type?: string | null;
+  data?: Record<string, unknown> | null;
+  marginOfError?: Record<string, unknown> | null;
+};
+
+export type StatDataSummaryRow = {
+  statId: string;
+  date: string;
+};
+
+export type AreaRow = {
+  code: string;
+  kind: string;
+  name?: string | null;
+  parentCode?: string | null;
+  centroid?: [number, number] | null;
+  bounds?: [[number, number], [number, number]] | null;
+  isActive?: boolean | null;
+};
+
+export const PUBLIC_AREA_KINDS = ["ZIP", "COUNTY", "TRACT"] as const;
+export type PublicAreaKind = (typeof PUBLIC_AREA_KINDS)[number];
+
+// Responses are cacheable by CDNs and partner dashboards; ETags let polling
+// clients skip unchanged payloads.
+const CACHE_CONTROL = "public, max-age=300, stale-while-revalidate=600";
+
+const CSV_CONTENT_TYPE = "text/csv; charset=utf-8";
+const JSON_CONTENT_TYPE = "application/json; charset=utf-8";
+
+export const respond = (res: PublicApiResponse, statusCode: number, payload: unknown): void => {
+  res.setHeader("Content-Type", "application/json");
+  res.status(statusCode).json(payload);
+};
+
+export const normalizeQueryString = (value: string | string[] | undefined | null): string | null => {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? normalizeQueryString(value[0]) : null;
+  }
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+};
+
+const resolveEnv = (key: string): string | undefined => {
+  if (typeof process === "undefined" || !process.env) return undefined;
+  const value = process.env[key];
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+};
+
+export const createAdminDb = (): PublicApiDb => {
+  const appId =
+    resolveEnv("VITE_INSTANT_APP_ID") ??
+    resolveEnv("NEXT_PUBLIC_INSTANT_APP_ID") ??
+    resolveEnv("INSTANT_APP_ID");
+  const adminToken =
+    resolveEnv("INSTANT_APP_ADMIN_TOKEN") ??
+    resolveEnv("INSTANT_ADMIN_TOKEN") ??
+    resolveEnv("VITE_INSTANT_ADMIN_TOKEN");
+
+  if (!appId || !adminToken) {
+    throw new Error("Missing Instant admin credentials.");
+  }
+
+  return initAdmin({ appId, adminToken }) as unknown as PublicApiDb;
+};
+
+/** Reads `entity` rows from an admin query result (handles both response shapes). */
+export const queryRows = async <T>(db: PublicApiDb, entity: string, where: Record<string, unknown>): Promise<T[]> => {
+  const resp = (await db.query({ [entity]: { $: { where } } })) as any;
+  const rows = resp?.data?.[entity] ?? resp?.[entity] ?? [];
+  return Array.isArray(rows) ? (rows as T[]) : [];
+};
+
+/**
+ * Mirrors the anonymous branch of the `stats` view rule in instant.perms.ts:
+ * the admin SDK bypasses perms, so public endpoints must apply it themselves.
+ */
+export const isPublicStat = (stat: StatRow): boolean => {
+  if (stat.visibilityEffective) return stat.visibilityEffective === "public";
+  if (stat.visibility) return stat.visibility === "public";
+  return stat.active !== false;
+};
+
+export const normalizeAreaKind = (value: string | null): PublicAreaKind | null => {
+  if (!value) return null;
+  const upper = value.toUpperCase();
+  return (PUBLIC_AREA_KINDS as readonly string[]).includes(upper) ? (upper as PublicAreaKind) : null;
+};
+
+export const toPublicStat = (stat: StatRow) => ({
+  id: stat.id,
+  name: stat.name ?? "",
+  label: stat.label ?? null,
+  description: stat.description ?? null,
+  category: stat.category ?? null,
+  source: stat.source ?? null,
+  type: stat.type ?? null,
+  goodIfUp: typeof stat.goodIfUp === "boolean" ? stat.goodIfUp : null,
+});
+
+export type PublicStat = ReturnType<typeof toPublicStat>;
+
+const toFiniteNumber = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+/** Compares series dates numerically when both are years, otherwise lexically. */
+const compareDates = (a: string, b: string): number => {
+  const na = Number(a);
+  const nb = Number(b);
+  if (Number.isFinite(na) && Number.isFinite(nb)) return na - nb;
+  return a.localeCompare(b);
+};
+
+export type PublicStatSeries = {
+  boundaryType: string;
+  date: string;
+  type: string | null;
+  values: Record<string, number>;
+  marginOfError: Record<string, number> | null;
+};
+
+/**
+ * Merges statData rows (one per parent area) into one series per boundary type
+ * and date. Without an explicit `date`, only the latest date per boundary is kept.
+ */
+export const buildStatSeries = (rows: StatDataRow[], options: { date?: string | null } = {}): PublicStatSeries[] => {
+  const byKey = new Map<string, PublicStatSeries>();
+  for (const row of rows) {
+    if (!row.boundaryType || !row.date) continue;
+    if (options.date && row.date !== options.date) continue;
+    const key = `${row.boundaryType}::${row.date}`;
+    let series = byKey.get(key);
+    if (!series) {
+      series = { boundaryType: row.boundaryType, date: row.date, type: row.type ?? null, values: {}, marginOfError: null };
+      byKey.set(key, series);
+    }
+    for (const [code, raw] of Object.entries(row.data ?? {})) {
+      const value = toFiniteNumber(raw);
+      if (value !== null) series.values[code] = value;
+    }
+    for (const [code, raw] of Object.entries(row.marginOfError ?? {})) {
+      const moe = toFiniteNumber(raw);
+      if (moe === null) continue;
+      series.marginOfError = { ...(series.marginOfError ?? {}), [code]: moe };
+    }
+  }
+
+  let series = Array.from(byKey.values());
+  if (!options.date) {
+    const latest = new Map<string, string>();
+    for (const entry of series) {
+      const current = latest.get(entry.boundaryType);
+      if (!current || compareDates(entry.date, current) > 0) latest.set(entry.boundaryType, entry.date);
+    }
+    series = series.filter((entry) => latest.get(entry.boundaryType) === entry.date);
+  }
+  return series.sort((a, b) => a.boundaryType.localeCompare(b.boundaryType) || compareDates(a.date, b.date));
+};
+
+/** Each stat's latest date across its summary rows (one per parent area). */
+export const latestDateByStat = (rows: StatDataSummaryRow[]): Map<string, string> => {
+  const latest = new Map<string, string>();
+  for (const row of rows) {
+    if (!row.statId || !row.date) continue;
+    const current = latest.get(row.statId);
+    if (!current || compareDates(row.date, current) > 0) latest.set(row.statId, row.date);
+  }
+  return latest;
+};
+
+export type PublicAreaStatValue = {
+  statId: string;
+  name: string;
+  label: string | null;
+  category: string | null;
+  type: string | null;
+  date: string;
+  value: number;
+  marginOfError: number | null;
+};
+
+/** Picks each public stat's value for `code`, using `date` or the latest date that has one. */
+export const buildAreaStatValues = (
+  code: string,
+  rows: StatDataRow[],
+  statsById: Map<string, StatRow>,
+  options: { date?: string | null } = {},
+): PublicAreaStatValue[] => {
+  const byStat = new Map<string, PublicAreaStatValue>();
+  for (const row of rows) {
+    const stat = statsById.get(row.statId);
+    if (!stat) continue;
+    if (options.date && row.date !== options.date) continue;
+    const value = toFiniteNumber(row.data?.[code]);
+    if (value === null) continue;
+    const existing = byStat.get(row.statId);
+    if (existing && compareDates(existing.date, row.date) >= 0) continue;
+    byStat.set(row.statId, {
+      statId: row.statId,
+      name: stat.name ?? "",
+      label: stat.label ?? null,
+      category: stat.category ?? null,
+      type: stat.type ?? row.type ?? null,
+      date: row.date,
+      value,
+      marginOfError: toFiniteNumber(row.marginOfError?.[code]),
+    });
+  }
+  return Array.from(byStat.values()).sort((a, b) => (a.label ?? a.name).localeCompare(b.label ?? b.name));
+};
+
+const escapeCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: Array<Array<unknown>>): string =>
+  [headers, ...rows].map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+
+const readHeader = (req: PublicApiRequest, name: string): string | null => {
+  const value = req.headers?.[name];
+  return normalizeQueryString(value as string | string[] | undefined);
+};
+
+/**
+ * `?format=csv|json` wins; otherwise the Accept header decides, preferring the
+ * first of text/csv or application/json listed with a non-zero q value.
+ */
+export const negotiateFormat = (req: PublicApiRequest): PublicApiFormat | null => {
+  const explicit = normalizeQueryString(req.query?.format)?.toLowerCase();
+  if (explicit) return explicit === "csv" || explicit === "json" ? explicit : null;
+
+  const accept = readHeader(req, "accept");
+  if (!accept) return "json";
+  const ranked = accept
+    .split(",")
+    .map((part, index) => {
+      const [type, ...params] = part.trim().toLowerCase().split(";");
+      const qParam = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+      const q = qParam ? Number(qParam.slice(2)) : 1;
+      return { type: type.trim(), q: Number.isFinite(q) ? q : 0, index };
+    })
+    .filter((entry) => entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+  for (const entry of ranked) {
+    if (entry.type === "text/csv") return "csv";
+    if (entry.type === "application/json" || entry.type === "application/*" || entry.type === "*/*") return "json";
+  }
+  return ranked.length === 0 ? "json" : null;
+};
+
+export const computeEtag = (body: string): string =>
+  `"${createHash("sha1").update(body).digest("base64url")}"`;
+
+const etagMatches = (header: string | null, etag: string): boolean => {
+  if (!header) return false;
+  if (header.trim() === "*") return true;
+  return header
+    .split(",")
+    .map((candidate) => candidate.trim().replace(/^W\//, ""))
+    .includes(etag);
+};
+
+/** Serializes the payload in the negotiated format with ETag / 304 handling. */
+export const sendPublicResponse = (
+  req: PublicApiRequest,
+  res: PublicApiResponse,
+  payload: { json: unknown; csv: () => string },
+): void => {
+  const format = negotiateFormat(req);
+  if (!format) {
+    respond(res, 406, { error: "Not acceptable", supported: ["application/json", "text/csv"] });
+    return;
+  }
+
+  const body = format === "csv" ? payload.csv() : JSON.stringify(payload.json);
+  const etag = computeEtag(body);
+  res.setHeader("ETag", etag);
+  res.setHeader("Cache-Control", CACHE_CONTROL);
+  res.setHeader("Vary", "Accept");
+
+  if (etagMatches(readHeader(req, "if-none-match"), etag)) {
+    res.status(304).end();
+    return;
+  }
+
+  res.setHeader("Content-Type", format === "csv" ? CSV_CONTENT_TYPE : JSON_CONTENT_TYPE);
+  res.status(200).send(body);
+};
+
+/** Shared CORS + method guard; returns false when the request was already answered. */
+export const acceptReadOnlyRequest = (req: PublicApiRequest, res: PublicApiResponse): boolean => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET, HEAD, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Accept, If-None-Match");
+  res.setHeader("Access-Control-Expose-Headers", "ETag");
+  if (req.method === "OPTIONS") {
+    res.status(204).end();
+    return false;
+  }
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    respond(res, 405, { error: "Method not allowed" });
+    return false;
+  }
+  return true;
+};
+
+export const logAndRespondError = (res: PublicApiResponse, scope: string, error: unknown): void => {
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === "string"
+      ? error
+      : "Unknown error";
+  console.error(`[${scope}] failed`, error);
+  respond(res, 500, { error: "Failed to load data", message });
+};
@@ -5,6 +5,7 @@ import {
   resolveVariables,
   fetchZipData,
   fetchCountyData,
+  fetchTractData,
   buildDataMaps,
   buildStatDataPayloads,
   hydrateCountyZipBucketsFromAreas,
@@ -14,6 +15,7 @@ import {
   deriveStatName,
   CENSUS_TABLE_DOC_URL,
 } from "./_shared/census.js";
+import { createAuditOps } from "./_shared/auditLog.ts";
 
 type CensusImportRequest = IncomingMessage & {
   method?: string;
@@ -51,6 +53,8 @@ type CensusImportBody = {
   category?: unknown;
   visibility?: unknown;
   createdBy?: unknown;
+  /** Email of the admin running the import, for the audit log. */
+  requestedBy?: unknown;
 };
 
 const respond = (res: CensusImportResponse, statusCode: number, payload: unknown): void => {
@@ -194,6 +198,11 @@ export default async function handler(req: CensusImportRequest, res: CensusImpor
     const category = coerceCategory(body.category);
     const createdBy = normalizeString(body.createdBy);
     const visibility = coerceVisibility(body.visibility) ?? (createdBy ? "private" : null);
+    const auditOps = createAuditOps({
+      actor: normalizeString(body.requestedBy) ?? createdBy,
+      source: "api",
+      sourceDetail: "api/census-import",
+    });
 
     const survey = dataset.split("/").pop() || "acs5";
 
@@ -239,8 +248,15 @@ export default async function handler(req: CensusImportRequest, res: CensusImpor
       const moeVariables = includeMoe ? Array.from(moeMap.values()) : [];
       const zipPayload = await fetchZipData(options, [variable], moeVariables);
       const countyPayload = await fetchCountyData(options, [variable], moeVariables);
+      const tractPayload = await fetchTractData(options, [variable], moeVariables);
 
-      const maps = buildDataMaps(variable, includeMoe ? moeMap.get(variable) ?? null : null, zipPayload, countyPayload);
+      const maps = buildDataMaps(
+        variable,
+        includeMoe ? moeMap.get(variable) ?? null : null,
+        zipPayload,
+        countyPayload,
+        tractPayload,
+      );
 
       // Enrich maps with per-county ZIP buckets using the existing areas
       // metadata in InstantDB so stats can be scoped more precisely by
@@ -253,6 +269,7 @@ export default async function handler(req: CensusImportRequest, res: CensusImpor
         const ensured = await ensureStatRecord(db, derivedStatName, variableMeta, groupMeta, category, {
           visibility,
           createdBy,
+          auditOps,
         });
         statId = ensured.statId;
         statType = ensured.statType;
@@ -275,7 +292,7 @@ export default async function handler(req: CensusImportRequest, res: CensusImpor
       throw new Error("Failed to create or locate stat record.");
     }
 
-    await applyStatDataPayloads(db, allPayloads);
+    await applyStatDataPayloads(db, allPayloads, { auditOps });
 
     respond(res, 201, {
       ok: true,
@@ -1,4 +1,5 @@
 import type { IncomingMessage } from "node:http";
+import { auditLogTxs } from "./_shared/auditLog.ts";
 import { createInstantClient, tx } from "./_shared/orgImport.js";
 
 type OrgImportDeleteRequest = IncomingMessage & {
@@ -43,9 +44,11 @@ export default async function handler(req: OrgImportDeleteRequest, res: OrgImpor
   }
 
   let batchId: string | null = null;
+  let deletedBy: string | null = null;
   try {
     const body = await parseBody(req);
     batchId = normalizeString(body?.batchId);
+    deletedBy = normalizeString(body?.deletedBy);
   } catch {
     respond(res, 400, { error: "Invalid JSON body" });
     return;
@@ -60,14 +63,26 @@ export default async function handler(req: OrgImportDeleteRequest, res: OrgImpor
     const db = createInstantClient();
     let totalDeleted = 0;
     while (true) {
+      // Full rows so each delete can be restored from the audit log.
       const resp = await db.query({
         organizations: {
-          $: { where: { importBatchId: batchId }, fields: ["id"], limit: 50 },
+          $: { where: { importBatchId: batchId }, limit: 50 },
         },
       });
       const orgs = (resp as any)?.data?.organizations ?? (resp as any)?.organizations ?? [];
       if (!orgs.length) break;
-      const txs = orgs.map((org: any) => tx.organizations[org.id].delete());
+      const txs = orgs.flatMap((org: any) => [
+        tx.organizations[org.id].delete(),
+        ...auditLogTxs({
+          entity: "organizations",
+          recordId: org.id,
+          action: "delete",
+          before: org,
+          actor: deletedBy,
+          source: "api",
+          sourceDetail: "api/org-import-delete",
+        }),
+      ]);
       await db.transact(txs);
       totalDeleted += orgs.length;
       if (orgs.length < 50) break;
@@ -1,7 +1,8 @@
 /// <reference types="node" />
 import type { IncomingMessage } from "node:http";
+import { auditLogTxs } from "./_shared/auditLog.ts";
 import {
-  buildOrgTx,
+  buildOrgAttrs,
   createImportBatch,
   createInstantClient,
   finalizeImportBatch,
@@ -407,7 +408,7 @@ export default async function handler(req: OrgImportRequest, res: OrgImportRespo
         if (normalizedEin && !existingOrgId) {
           existingOrgIdsByEin.set(normalizedEin, orgId);
         }
-        const txItem = buildOrgTx(
+        const attrs = buildOrgAttrs(
           {
             ...org,
             ein: normalizedEin ?? org.ein ?? null,
@@ -415,9 +416,19 @@ export default async function handler(req: OrgImportRequest, res: OrgImportRespo
           coords,
           categorySlug,
           batchId,
-          orgId,
         );
-        txBuffer.push(txItem);
+        txBuffer.push(
+          tx.organizations[orgId].update(attrs),
+          ...auditLogTxs({
+            entity: "organizations",
+            recordId: orgId,
+            action: existingOrgId ? "update" : "create",
+            after: attrs,
+            actor: createdBy,
+            source: "api",
+            sourceDetail: "api/org-import",
+          }),
+        );
         txBufferOrgIds.push(orgId);
         sampleOrgIds.push(org.id);
         if (txBuffer.length >= WRITE_BATCH_SIZE) {
@@ -0,0 +1,178 @@
+import { init as initAdmin } from "@instantdb/admin";
+
+import { auditLogTxs } from "./_shared/auditLog.ts";
+
+type SubmissionAuditRequest = {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  on?: (event: "data" | "end" | "error", listener: (...args: any[]) => void) => void;
+};
+
+type SubmissionAuditResponse = {
+  status: (code: number) => SubmissionAuditResponse;
+  json: (payload: unknown) => void;
+  setHeader: (name: string, value: string) => void;
+};
+
+type SubmissionAuditBody = {
+  organizationId?: unknown;
+  token?: unknown;
+};
+
+type OrganizationRow = Record<string, unknown> & {
+  id: string;
+  submittedAt?: number | null;
+};
+
+// Offline submissions are created when the outbox flushes, which can be days
+// after the visitor filled in the form (submittedAt is stamped at that point).
+const SUBMISSION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const resolveEnv = (key: string): string | undefined => {
+  const raw = process.env[key];
+  return typeof raw === "string" && raw.trim().length > 0 ? raw : undefined;
+};
+
+const APP_ID =
+  resolveEnv("VITE_INSTANT_APP_ID") ??
+  resolveEnv("NEXT_PUBLIC_INSTANT_APP_ID") ??
+  resolveEnv("INSTANT_APP_ID");
+const ADMIN_TOKEN =
+  resolveEnv("INSTANT_APP_ADMIN_TOKEN") ??
+  resolveEnv("INSTANT_ADMIN_TOKEN") ??
+  resolveEnv("VITE_INSTANT_ADMIN_TOKEN");
+
+if (!APP_ID || !ADMIN_TOKEN) {
+  throw new Error("Missing InstantDB admin credentials for submission audit endpoint.");
+}
+
+const adminDb = initAdmin({ appId: APP_ID, adminToken: ADMIN_TOKEN });
+
+const parseBody = async (req: SubmissionAuditRequest): Promise<SubmissionAuditBody> => {
+  if (typeof req.body === "string") {
+    return JSON.parse(req.body) as SubmissionAuditBody;
+  }
+  if (req.body && typeof req.body === "object") {
+    return req.body as SubmissionAuditBody;
+  }
+  if (!req.on) {
+    return {};
+  }
+  const data = await new Promise<string>((resolve, reject) => {
+    let acc = "";
+    const decoder = new TextDecoder();
+    req.on?.("data", (chunk: unknown) => {
+      if (typeof chunk === "string") {
+        acc += chunk;
+        return;
+      }
+      if (chunk instanceof Uint8Array) {
+        acc += decoder.decode(chunk);
+        return;
+      }
+      acc += String(chunk);
+    });
+    req.on?.("end", () => resolve(acc));
+    req.on?.("error", (error: Error) => reject(error));
+  });
+  if (!data) return {};
+  return JSON.parse(data) as SubmissionAuditBody;
+};
+
+const normalizeString = (value: unknown): string | null => {
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : null;
+  }
+  return null;
+};
+
+const fetchOrg = async (orgId: string): Promise<OrganizationRow | null> => {
+  const resp = (await adminDb.query({
+    organizations: { $: { where: { id: orgId }, limit: 1 } },
+  })) as any;
+  const rows: OrganizationRow[] = resp?.data?.organizations ?? resp?.organizations ?? [];
+  return rows[0] ?? null;
+};
+
+const hasCreationEntry = async (orgId: string): Promise<boolean> => {
+  const resp = (await adminDb.query({
+    auditLog: {
+      $: { where: { entity: "organizations", recordId: orgId, action: "create" }, limit: 1 },
+    },
+  })) as any;
+  const rows: unknown[] = resp?.data?.auditLog ?? resp?.auditLog ?? [];
+  return rows.length > 0;
+};
+
+/** The signed-in submitter's email, or null for guests and unverifiable tokens. */
+const resolveActor = async (token: string | null): Promise<string | null> => {
+  if (!token) return null;
+  try {
+    const user = await adminDb.auth.verifyToken(token);
+    return user?.email ? user.email.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+};
+
+const respond = (res: SubmissionAuditResponse, statusCode: number, payload: unknown): void => {
+  res.setHeader("Content-Type", "application/json");
+  res.status(statusCode).json(payload);
+};
+
+/**
+ * Records the creation of an organization submitted through "Add a location".
+ * Visitors can create organizations but not audit rows, so the app calls this
+ * right after the write. The row is built from the stored organization, the
+ * actor from the verified session token, and each organization gets at most
+ * one creation entry.
+ */
+export default async function handler(req: SubmissionAuditRequest, res: SubmissionAuditResponse) {
+  if (req.method !== "POST") {
+    respond(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    const organizationId = normalizeString(body.organizationId);
+    if (!organizationId) {
+      respond(res, 400, { error: "Missing organization id." });
+      return;
+    }
+
+    const org = await fetchOrg(organizationId);
+    if (!org) {
+      respond(res, 404, { error: "Organization not found." });
+      return;
+    }
+    const submittedAt = typeof org.submittedAt === "number" ? org.submittedAt : null;
+    if (submittedAt === null || Date.now() - submittedAt > SUBMISSION_WINDOW_MS) {
+      respond(res, 409, { error: "Organization is not a recent submission." });
+      return;
+    }
+    if (await hasCreationEntry(organizationId)) {
+      respond(res, 200, { logged: false });
+      return;
+    }
+
+    const { id: _id, ...after } = org;
+    const actor = await resolveActor(normalizeString(body.token));
+    const txs = auditLogTxs({
+      entity: "organizations",
+      recordId: organizationId,
+      action: "create",
+      after,
+      actor,
+      source: "ui",
+      sourceDetail: "add-organization",
+    });
+    if (txs.length > 0) await adminDb.transact(txs);
+    respond(res, 200, { logged: txs.length > 0 });
+  } catch (error) {
+    console.error("org-submission-audit failed", error);
+    respond(res, 500, { error: "Failed to record submission." });
+  }
+}
@@ -1,6 +1,8 @@
 import { createHash } from "node:crypto";
 import { init as initAdmin, id as createId } from "@instantdb/admin";
 
+import { auditLogTxs } from "./_shared/auditLog.ts";
+
 type ReportRequest = {
   method?: string;
   headers: Record<string, string | string[] | undefined>;
@@ -359,6 +361,17 @@ export default async function handler(req: ReportRequest, res: ReportResponse) {
     await adminDb.transact([
       adminDb.tx.comments[commentId].update(commentPayload),
       adminDb.tx.organizations[orgId].update(orgUpdates),
+      ...auditLogTxs({
+        entity: "organizations",
+        recordId: orgId,
+        action: "update",
+        before: org,
+        after: orgUpdates,
+        actor: reporterEmail,
+        source: "api",
+        sourceDetail: "api/report-issue",
+        now,
+      }),
     ]);
 
     respond(res, 200, {
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+
+import { createPublicAreaHandler } from "./[code]";
+
+const createMockResponse = () => {
+  const state: { statusCode: number; body: unknown; headers: Record<string, string> } = {
+    statusCode: 200,
+    body: null,
+    headers: {},
+  };
+  const res = {
+    status: (code: number) => {
+      state.statusCode = code;
+      return res;
+    },
+    json: (payload: unknown) => {
+      state.body = payload;
+    },
+    send: (body: string) => {
+      state.body = body;
+    },
+    end: () => {
+      state.body = null;
+    },
+    setHeader: (name: string, value: string) => {
+      state.headers[name] = value;
+    },
+  };
+  return { res, state };
+};
+
+const tables: Record<string, Array<Record<string, unknown>>> = {
+  areas: [{ code: "74103", kind: "ZIP", name: "74103" }],
+  stats: [
+    { id: "pop", name: "Population", visibilityEffective: "public" },
+    { id: "income", name: "Income", visibilityEffective: "public" },
+    { id: "draft", name: "Draft", visibilityEffective: "private" },
+  ],
+  statDataSummaries: [
+    { statId: "pop", boundaryType: "ZIP", name: "root", date: "2023" },
+    { statId: "pop", boundaryType: "ZIP", name: "root", date: "2022" },
+  ],
+  statData: [
+    { statId: "pop", boundaryType: "ZIP", name: "root", date: "2022", data: { "74103": 10 } },
+    { statId: "pop", boundaryType: "ZIP", name: "root", date: "2023", data: { "74103": 12 } },
+    { statId: "income", boundaryType: "ZIP", name: "root", date: "2021", data: { "74103": 40000 } },
+    { statId: "draft", boundaryType: "ZIP", name: "root", date: "2023", data: { "74103": 1 } },
+  ],
+};
+
+// Applies the equality and `$in` filters the handler uses, and records each query.
+const createDb = () => {
+  const queries: Array<{ entity: string; where: Record<string, unknown> }> = [];
+  const matches = (row: Record<string, unknown>, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, condition]) =>
+      condition && typeof condition === "object" && "$in" in condition
+        ? (condition.$in as unknown[]).includes(row[key])
+        : row[key] === condition,
+    );
+  const db = {
+    query: async (query: Record<string, any>) => {
+      const [entity] = Object.keys(query);
+      const where = query[entity].$.where as Record<string, unknown>;
+      queries.push({ entity, where });
+      return { [entity]: (tables[entity] ?? []).filter((row) => matches(row, where)) };
+    },
+  };
+  return { db, queries };
+};
+
+const request = (query: Record<string, string>) => ({ method: "GET", query, headers: {} }) as any;
+
+describe("v1/areas/:kind/:code", () => {
+  it("reads only public stats at each stat's latest date", async () => {
+    const { db, queries } = createDb();
+    const { res, state } = createMockResponse();
+    await createPublicAreaHandler({ getDb: () => db })(request({ kind: "zip", code: "74103" }), res as any);
+
+    expect(state.statusCode).toBe(200);
+    const stats = JSON.parse(state.body as string).stats;
+    expect(stats.map((entry: any) => [entry.statId, entry.date, entry.value])).toEqual([
+      ["income", "2021", 40000],
+      ["pop", "2023", 12],
+    ]);
+    const statDataQueries = queries.filter((entry) => entry.entity === "statData");
+    expect(statDataQueries).toEqual([
+      { entity: "statData", where: { boundaryType: "ZIP", name: "root", statId: { $in: ["pop"] }, date: { $in: ["2023"] } } },
+      { entity: "statData", where: { boundaryType: "ZIP", name: "root", statId: { $in: ["income"] } } },
+    ]);
+  });
+
+  it("filters by date when one is given", async () => {
+    const { db, queries } = createDb();
+    const { res, state } = createMockResponse();
+    await createPublicAreaHandler({ getDb: () => db })(
+      request({ kind: "ZIP", code: "74103", date: "2022" }),
+      res as any,
+    );
+
+    const stats = JSON.parse(state.body as string).stats;
+    expect(stats.map((entry: any) => [entry.statId, entry.value])).toEqual([["pop", 10]]);
+    expect(queries.map((entry) => entry.entity)).not.toContain("statDataSummaries");
+    expect(queries.find((entry) => entry.entity === "statData")?.where).toEqual({
+      boundaryType: "ZIP",
+      name: "root",
+      statId: { $in: ["pop", "income"] },
+      date: "2022",
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  acceptReadOnlyRequest,
+  buildAreaStatValues,
+  createAdminDb,
+  isPublicStat,
+  latestDateByStat,
+  logAndRespondError,
+  normalizeAreaKind,
+  normalizeQueryString,
+  queryRows,
+  respond,
+  sendPublicResponse,
+  toCsv,
+  type AreaRow,
+  type PublicApiDeps,
+  type PublicApiRequest,
+  type PublicApiResponse,
+  type PublicApiDb,
+  type StatDataRow,
+  type StatDataSummaryRow,
+  type StatRow,
+} from "../../../_shared/publicApi.ts";
+
+// GET /api/v1/areas/:kind/:code[?date=2023]
+// Area metadata plus the value of every public stat for that area, using each
+// stat's latest date unless `date` is given.
+
+/**
+ * Root statData rows for the public stats, limited to `date` or, without one,
+ * to each stat's latest date from statDataSummaries. Stats without a summary
+ * row fall back to their full history so they aren't dropped.
+ */
+const loadAreaStatData = async (
+  db: PublicApiDb,
+  kind: string,
+  publicStatIds: string[],
+  date: string | null,
+): Promise<StatDataRow[]> => {
+  if (publicStatIds.length === 0) return [];
+  const base = { boundaryType: kind, name: "root" };
+  if (date) {
+    return queryRows<StatDataRow>(db, "statData", { ...base, statId: { $in: publicStatIds }, date });
+  }
+
+  const summaries = await queryRows<StatDataSummaryRow>(db, "statDataSummaries", {
+    ...base,
+    statId: { $in: publicStatIds },
+  });
+  const latest = latestDateByStat(summaries);
+  const summarizedIds = Array.from(latest.keys());
+  const unsummarizedIds = publicStatIds.filter((statId) => !latest.has(statId));
+  const [latestRows, unsummarizedRows] = await Promise.all([
+    summarizedIds.length > 0
+      ? queryRows<StatDataRow>(db, "statData", {
+          ...base,
+          statId: { $in: summarizedIds },
+          date: { $in: Array.from(new Set(latest.values())) },
+        })
+      : Promise.resolve([]),
+    unsummarizedIds.length > 0
+      ? queryRows<StatDataRow>(db, "statData", { ...base, statId: { $in: unsummarizedIds } })
+      : Promise.resolve([]),
+  ]);
+  return [...latestRows.filter((row) => latest.get(row.statId) === row.date), ...unsummarizedRows];
+};
+
+export const createPublicAreaHandler = (deps: PublicApiDeps = {}) => {
+  const getDb = deps.getDb ?? createAdminDb;
+
+  return async (req: PublicApiRequest, res: PublicApiResponse) => {
+    if (!acceptReadOnlyRequest(req, res)) return;
+
+    const rawKind = normalizeQueryString(req.query?.kind);
+    const kind = normalizeAreaKind(rawKind);
+    if (!kind) {
+      respond(res, 400, { error: "Unsupported area kind", kind: rawKind });
+      return;
+    }
+    const code = normalizeQueryString(req.query?.code);
+    if (!code) {
+      respond(res, 400, { error: "Missing area code" });
+      return;
+    }
+    const date = normalizeQueryString(req.query?.date);
+
+    try {
+      const db = getDb();
+      const [area] = await queryRows<AreaRow>(db, "areas", { kind, code });
+      if (!area || area.isActive === false) {
+        respond(res, 404, { error: "Area not found" });
+        return;
+      }
+
+      const statRows = await queryRows<StatRow>(db, "stats", {});
+      const publicStats = new Map(statRows.filter(isPublicStat).map((stat) => [stat.id, stat]));
+      const dataRows = await loadAreaStatData(db, kind, Array.from(publicStats.keys()), date);
+      const stats = buildAreaStatValues(code, dataRows, publicStats, { date });
+
+      sendPublicResponse(req, res, {
+        json: {
+          area: {
+            code: area.code,
+            kind: area.kind,
+            name: area.name ?? null,
+            parentCode: area.parentCode ?? null,
+            centroid: area.centroid ?? null,
+            bounds: area.bounds ?? null,
+          },
+          stats,
+        },
+        csv: () =>
+          toCsv(
+            ["area_kind", "area_code", "stat_id", "stat_name", "category", "type", "date", "value", "margin_of_error"],
+            stats.map((entry) => [
+              kind,
+              code,
+              entry.statId,
+              entry.label ?? entry.name,
+              entry.category,
+              entry.type,
+              entry.date,
+              entry.value,
+              entry.marginOfError,
+            ]),
+          ),
+      });
+    } catch (error) {
+      logAndRespondError(res, "v1/areas", error);
+    }
+  };
+};
+
+const handler = createPublicAreaHandler();
+
+export default handler;
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import { createPublicStatsHandler } from "./stats";
+
+const createMockResponse = () => {
+  const state: { statusCode: number; body: unknown; headers: Record<string, string> } = {
+    statusCode: 200,
+    body: null,
+    headers: {},
+  };
+  const res = {
+    status: (code: number) => {
+      state.statusCode = code;
+      return res;
+    },
+    json: (payload: unknown) => {
+      state.body = payload;
+    },
+    send: (body: string) => {
+      state.body = body;
+    },
+    end: () => {
+      state.body = null;
+    },
+    setHeader: (name: string, value: string) => {
+      state.headers[name] = value;
+    },
+  };
+  return { res, state };
+};
+
+const db = {
+  query: async () => ({
+    stats: [
+      { id: "pub", name: "Population", category: "demographics", visibilityEffective: "public" },
+      { id: "priv", name: "Draft", category: "demographics", visibilityEffective: "private" },
+    ],
+  }),
+};
+
+describe("v1/stats", () => {
+  const handler = createPublicStatsHandler({ getDb: () => db });
+
+  it("rejects writes", async () => {
+    const { res, state } = createMockResponse();
+    await handler({ method: "POST", headers: {} } as any, res as any);
+    expect(state.statusCode).toBe(405);
+  });
+
+  it("lists only public stats", async () => {
+    const { res, state } = createMockResponse();
+    await handler({ method: "GET", query: {}, headers: {} } as any, res as any);
+    expect(state.statusCode).toBe(200);
+    expect(JSON.parse(state.body as string).stats.map((stat: { id: string }) => stat.id)).toEqual(["pub"]);
+  });
+
+  it("answers CSV requests and honours If-None-Match", async () => {
+    const first = createMockResponse();
+    await handler({ method: "GET", query: {}, headers: { accept: "text/csv" } } as any, first.res as any);
+    expect(first.state.headers["Content-Type"]).toContain("text/csv");
+    expect(String(first.state.body).split("\r\n")).toHaveLength(2);
+
+    const second = createMockResponse();
+    await handler(
+      {
+        method: "GET",
+        query: {},
+        headers: { accept: "text/csv", "if-none-match": first.state.headers.ETag },
+      } as any,
+      second.res as any,
+    );
+    expect(second.state.statusCode).toBe(304);
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  acceptReadOnlyRequest,
+  createAdminDb,
+  isPublicStat,
+  logAndRespondError,
+  normalizeQueryString,
+  queryRows,
+  sendPublicResponse,
+  toCsv,
+  toPublicStat,
+  type PublicApiDeps,
+  type PublicApiRequest,
+  type PublicApiResponse,
+  type StatRow,
+} from "../_shared/publicApi.ts";
+
+// GET /api/v1/stats[?category=food]
+// Lists public stats. Responds with JSON or CSV (Accept header or ?format=).
+export const createPublicStatsHandler = (deps: PublicApiDeps = {}) => {
+  const getDb = deps.getDb ?? createAdminDb;
+
+  return async (req: PublicApiRequest, res: PublicApiResponse) => {
+    if (!acceptReadOnlyRequest(req, res)) return;
+
+    try {
+      const category = normalizeQueryString(req.query?.category);
+      const rows = await queryRows<StatRow>(getDb(), "stats", category ? { category } : {});
+      const stats = rows
+        .filter(isPublicStat)
+        .map(toPublicStat)
+        .sort((a, b) => (a.label ?? a.name).localeCompare(b.label ?? b.name));
+
+      sendPublicResponse(req, res, {
+        json: { stats },
+        csv: () =>
+          toCsv(
+            ["id", "name", "label", "category", "type", "source", "good_if_up", "description"],
+            stats.map((stat) => [
+              stat.id,
+              stat.name,
+              stat.label,
+              stat.category,
+              stat.type,
+              stat.source,
+              stat.goodIfUp,
+              stat.description,
+            ]),
+          ),
+      });
+    } catch (error) {
+      logAndRespondError(res, "v1/stats", error);
+    }
+  };
+};
+
+const handler = createPublicStatsHandler();
+
+export default handler;
@@ -0,0 +1,90 @@
+import {
+  acceptReadOnlyRequest,
+  buildStatSeries,
+  createAdminDb,
+  isPublicStat,
+  logAndRespondError,
+  normalizeAreaKind,
+  normalizeQueryString,
+  queryRows,
+  respond,
+  sendPublicResponse,
+  toCsv,
+  toPublicStat,
+  type PublicApiDeps,
+  type PublicApiRequest,
+  type PublicApiResponse,
+  type StatDataRow,
+  type StatRow,
+} from "../../../_shared/publicApi.ts";
+
+// GET /api/v1/stats/:id/data[?boundary=ZIP][&date=2023][&name=root]
+// Values for one public stat, merged across parent areas. Without `date`,
+// only the latest date per boundary type is returned.
+export const createPublicStatDataHandler = (deps: PublicApiDeps = {}) => {
+  const getDb = deps.getDb ?? createAdminDb;
+
+  return async (req: PublicApiRequest, res: PublicApiResponse) => {
+    if (!acceptReadOnlyRequest(req, res)) return;
+
+    const statId = normalizeQueryString(req.query?.id);
+    if (!statId) {
+      respond(res, 400, { error: "Missing stat id" });
+      return;
+    }
+    const rawBoundary = normalizeQueryString(req.query?.boundary);
+    const boundary = normalizeAreaKind(rawBoundary);
+    if (rawBoundary && !boundary) {
+      respond(res, 400, { error: "Unsupported boundary", boundary: rawBoundary });
+      return;
+    }
+    const date = normalizeQueryString(req.query?.date);
+    const name = normalizeQueryString(req.query?.name) ?? "root";
+
+    try {
+      const db = getDb();
+      const [stat] = await queryRows<StatRow>(db, "stats", { id: statId });
+      // Non-public stats are indistinguishable from missing ones.
+      if (!stat || !isPublicStat(stat)) {
+        respond(res, 404, { error: "Stat not found" });
+        return;
+      }
+
+      const where: Record<string, unknown> = { statId, name };
+      if (boundary) where.boundaryType = boundary;
+      if (date) where.date = date;
+      const rows = await queryRows<StatDataRow>(db, "statData", where);
+      const series = buildStatSeries(rows, { date });
+      if (date && series.length === 0) {
+        respond(res, 404, { error: "No data for date", date });
+        return;
+      }
+
+      sendPublicResponse(req, res, {
+        json: { stat: toPublicStat(stat), name, series },
+        csv: () =>
+          toCsv(
+            ["stat_id", "boundary_type", "date", "code", "value", "margin_of_error"],
+            series.flatMap((entry) =>
+              Object.entries(entry.values)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([code, value]) => [
+                  stat.id,
+                  entry.boundaryType,
+                  entry.date,
+                  code,
+                  value,
+                  entry.marginOfError?.[code] ?? null,
+                ]),
+            ),
+          ),
+      });
+    } catch (error) {
+      logAndRespondError(res, "v1/stats/data", error);
+    }
+  };
+};
+
+const handler = createPublicStatDataHandler();
+
+export default handler;
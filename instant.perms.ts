@@ -76,6 +76,25 @@ const rules = {
     },
     bind: ["isAdmin", adminCondition],
   },
+  orgMerges: {
+    allow: {
+      view: "isAdmin",
+      create: "isAdmin",
+      update: "isAdmin",
+      delete: "isAdmin",
+    },
+    bind: ["isAdmin", adminCondition],
+  },
+  auditLog: {
+    allow: {
+      view: "isAdmin",
+      // Public org submissions are logged by /api/org-submission-audit.
+      create: "isAdmin",
+      update: "false",
+      delete: "false",
+    },
+    bind: ["isAdmin", adminCondition],
+  },
   customDataImports: {
     allow: {
       view: "isAdmin || (auth.id != null && data.owner == auth.id)",
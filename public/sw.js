@@ -0,0 +1,81 @@
+// Offline support. On install, caches the app shell plus every built chunk
+// listed in precache-manifest.json (written by vite.config.ts), which includes
+// the ZCTA county chunks zctaLoader.ts imports on demand. API calls and
+// InstantDB traffic always go to the network.
+
+const CACHE_PREFIX = "neprotomin-";
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime`;
+const SHELL_URLS = [
+  "/",
+  "/index.html",
+  "/manifest-20260218.webmanifest",
+  "/favicon-20260218.ico",
+  "/icons/icon-192-20260218.png",
+  "/icons/icon-512-20260218.png",
+];
+
+const loadPrecacheManifest = async () => {
+  const response = await fetch("/precache-manifest.json", { cache: "no-store" });
+  if (!response.ok) throw new Error(`precache-manifest.json returned ${response.status}`);
+  return response.json();
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const { version, files } = await loadPrecacheManifest();
+      const cache = await caches.open(`${CACHE_PREFIX}${version}`);
+      await cache.addAll([...SHELL_URLS, ...files]);
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const { version } = await loadPrecacheManifest().catch(() => ({ version: null }));
+      if (version) {
+        const keep = `${CACHE_PREFIX}${version}`;
+        const names = await caches.keys();
+        // Old builds' chunks and anything cached at runtime against them.
+        await Promise.all(
+          names
+            .filter((name) => name.startsWith(CACHE_PREFIX) && name !== keep)
+            .map((name) => caches.delete(name)),
+        );
+      }
+      await self.clients.claim();
+    })(),
+  );
+});
+
+const fromNetworkThenCache = async (request) => {
+  const response = await fetch(request);
+  if (response.ok && response.type === "basic") {
+    const cache = await caches.open(RUNTIME_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/api/") || url.pathname === "/precache-manifest.json") return;
+
+  if (request.mode === "navigate") {
+    // Fresh HTML when online so new deploys show up; the cached shell otherwise.
+    event.respondWith(
+      fetch(request).catch(async () => (await caches.match("/index.html")) ?? Response.error()),
+    );
+    return;
+  }
+
+  // Built files are content-hashed, so a cached copy never goes stale.
+  event.respondWith(
+    (async () => (await caches.match(request)) ?? fromNetworkThenCache(request))(),
+  );
+});
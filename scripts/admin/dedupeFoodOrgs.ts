@@ -14,6 +14,7 @@ import {
   initInstantAdmin,
   parseArgs,
 } from "../_shared/etlUtils.js";
+import { auditLogTxs } from "../../api/_shared/auditLog.ts";
 
 type OrganizationRecord = {
   id: string;
@@ -129,6 +130,11 @@ const main = async () => {
   }
 
   const db = initInstantAdmin(init);
+  const auditMeta = {
+    actor: process.env.USER ?? null,
+    source: "script" as const,
+    sourceDetail: "scripts/admin/dedupeFoodOrgs",
+  };
   const allFoodOrgs = await fetchAllFoodOrganizations(db, pageSize);
 
   const bySignature = new Map<string, OrganizationRecord[]>();
@@ -175,15 +181,15 @@ const main = async () => {
     });
   }
 
-  const toRemove = new Map<string, { reason: string; keepId: string }>();
+  const toRemove = new Map<string, { reason: string; keepId: string; record: OrganizationRecord }>();
   for (const group of duplicateGroups) {
     for (const dup of group.duplicates) {
-      toRemove.set(dup.id, { reason: group.signature, keepId: group.keep.id });
+      toRemove.set(dup.id, { reason: group.signature, keepId: group.keep.id, record: dup });
     }
   }
   for (const group of placeIdCollisions) {
     for (const dup of group.duplicates) {
-      toRemove.set(dup.id, { reason: group.signature, keepId: group.keep.id });
+      toRemove.set(dup.id, { reason: group.signature, keepId: group.keep.id, record: dup });
     }
   }
 
@@ -222,7 +228,10 @@ const main = async () => {
   const chunkSize = 50;
   for (let i = 0; i < deletions.length; i += chunkSize) {
     const slice = deletions.slice(i, i + chunkSize);
-    const txs = slice.map(([id]) => tx.organizations[id].delete());
+    const txs = slice.flatMap(([id, { record }]) => [
+      tx.organizations[id].delete(),
+      ...auditLogTxs({ entity: "organizations", recordId: id, action: "delete", before: record, ...auditMeta }),
+    ]);
     await db.transact(txs);
   }
 
@@ -5,6 +5,7 @@ import 'dotenv/config';
 import { init as initAdmin, tx } from '@instantdb/admin';
 
 import { initInstantAdmin, parseArgs } from '../_shared/etlUtils.js';
+import { auditLogTxs } from '../../api/_shared/auditLog.ts';
 
 const args = parseArgs();
 const namesArg = args.names ?? args.name ?? '';
@@ -20,6 +21,11 @@ if (!names.length) {
 }
 
 const db = initInstantAdmin(initAdmin);
+const auditMeta = {
+  actor: process.env.USER ?? null,
+  source: 'script' as const,
+  sourceDetail: 'scripts/admin/deleteStatsByName',
+};
 
 async function deleteByName(name: string) {
   const resp = await db.query({
@@ -49,9 +55,15 @@ async function deleteByName(name: string) {
     const statDataRows = (statDataResp?.statData as any[]) ?? (statDataResp?.data?.statData as any[]) ?? [];
     for (const row of statDataRows) {
       if (!row?.id) continue;
-      await db.transact(tx.statData[row.id].delete());
+      await db.transact([
+        tx.statData[row.id].delete(),
+        ...auditLogTxs({ entity: 'statData', recordId: row.id, action: 'delete', before: row, ...auditMeta }),
+      ]);
     }
-    await db.transact(tx.stats[statId].delete());
+    await db.transact([
+      tx.stats[statId].delete(),
+      ...auditLogTxs({ entity: 'stats', recordId: statId, action: 'delete', before: stat, ...auditMeta }),
+    ]);
     console.log(`Deleted stat "${name}" (${statId}) with ${statDataRows.length} statData rows.`);
   }
 }
@@ -17,6 +17,7 @@ import path from "node:path";
 import { init, tx } from "@instantdb/admin";
 
 import { initInstantAdmin } from "../_shared/etlUtils.js";
+import { auditLogTxs } from "../../api/_shared/auditLog.ts";
 
 const DEFAULT_LIST_PATH = path.resolve(process.cwd(), "to_delete.txt");
 const INPUT_PATH = process.argv[2]
@@ -65,12 +66,25 @@ const markOrganizationsRemoved = async (
     const slice = ids.slice(i, i + CHUNK_SIZE);
     if (slice.length === 0) continue;
     const timestamp = Date.now();
-    const txs = slice.map((id) =>
-      tx.organizations[id].update({
+    const txs = slice.flatMap((id) => {
+      const updates = {
         moderationStatus: REMOVED_STATUS,
         moderationChangedAt: timestamp,
-      }),
-    );
+      };
+      return [
+        tx.organizations[id].update(updates),
+        ...auditLogTxs({
+          entity: "organizations",
+          recordId: id,
+          action: "update",
+          after: updates,
+          actor: process.env.USER ?? null,
+          source: "script",
+          sourceDetail: "scripts/admin/removeOrganizationsBasedOnList",
+          now: timestamp,
+        }),
+      ];
+    });
     await db.transact(txs);
     processed += slice.length;
     console.log(
@@ -21,6 +21,7 @@ import {
   parseArgs,
   isDebug,
 } from "../_shared/etlUtils.js";
+import { auditLogTxs } from "../../api/_shared/auditLog.ts";
 
 type ResetScope = "census" | "ne" | "all";
 
@@ -62,20 +63,28 @@ const describeScope = (scope: ResetScope): string => {
 
 const initDb = () => initInstantAdmin(init);
 
+type Row = Record<string, unknown> & { id: string };
+
 interface EntitiesToDelete {
-  stats: string[];
-  statData: string[];
+  stats: Row[];
+  statData: Row[];
 }
 
-const fetchIdsForScope = async (db: ReturnType<typeof initDb>, scope: ResetScope): Promise<EntitiesToDelete> => {
+const auditMeta = {
+  actor: process.env.USER ?? null,
+  source: "script" as const,
+  sourceDetail: "scripts/admin/resetData",
+};
+
+const fetchRowsForScope = async (db: ReturnType<typeof initDb>, scope: ResetScope): Promise<EntitiesToDelete> => {
   if (scope === "all") {
-    // I think that InstantDB doesn't support 'select' in queries, so we fetch all fields and extract ids
+    // Whole rows are kept so each deletion can be audited with what was removed.
     const resp = await db.query({
       stats: {},
       statData: {},
     });
-    const stats = (resp.stats ?? resp.data?.stats ?? []).map((row: any) => row.id);
-    const statData = (resp.statData ?? resp.data?.statData ?? []).map((row: any) => row.id);
+    const stats: Row[] = resp.stats ?? resp.data?.stats ?? [];
+    const statData: Row[] = resp.statData ?? resp.data?.statData ?? [];
     return { stats, statData };
   }
 
@@ -92,8 +101,8 @@ const fetchIdsForScope = async (db: ReturnType<typeof initDb>, scope: ResetScope
       },
     },
   });
-  const stats = (resp.stats ?? resp.data?.stats ?? []).map((row: any) => row.id);
-  const statData = (resp.statData ?? resp.data?.statData ?? []).map((row: any) => row.id);
+  const stats: Row[] = resp.stats ?? resp.data?.stats ?? [];
+  const statData: Row[] = resp.statData ?? resp.data?.statData ?? [];
   return { stats, statData };
 };
 
@@ -106,10 +115,10 @@ const promptConfirm = async (message: string): Promise<boolean> => {
 
 const deleteEntities = async (
   db: ReturnType<typeof initDb>,
-  ids: EntitiesToDelete,
+  rows: EntitiesToDelete,
   options: Options,
 ) => {
-  const { stats, statData } = ids;
+  const { stats, statData } = rows;
   if (stats.length === 0 && statData.length === 0) {
     console.log("Nothing to delete for the selected scope.");
     return;
@@ -117,16 +126,24 @@ const deleteEntities = async (
 
   const batches: Array<() => Promise<void>> = [];
 
-  for (const id of statData) {
+  for (const row of statData) {
+    const { id } = row;
     batches.push(async () => {
-      await db.transact(tx.statData[id].delete());
+      await db.transact([
+        tx.statData[id].delete(),
+        ...auditLogTxs({ entity: "statData", recordId: id, action: "delete", before: row, ...auditMeta }),
+      ]);
       if (options.debug) console.log(`deleted statData ${id}`);
     });
   }
 
-  for (const id of stats) {
+  for (const row of stats) {
+    const { id } = row;
     batches.push(async () => {
-      await db.transact(tx.stats[id].delete());
+      await db.transact([
+        tx.stats[id].delete(),
+        ...auditLogTxs({ entity: "stats", recordId: id, action: "delete", before: row, ...auditMeta }),
+      ]);
       if (options.debug) console.log(`deleted stat ${id}`);
     });
   }
@@ -144,9 +161,9 @@ const run = async () => {
   console.log(`Force: ${options.force ? "yes" : "no"}`);
 
   const db = initDb();
-  const ids = await fetchIdsForScope(db, options.scope);
+  const rows = await fetchRowsForScope(db, options.scope);
 
-  console.log(`Found ${ids.stats.length} stats and ${ids.statData.length} statData rows to delete.`);
+  console.log(`Found ${rows.stats.length} stats and ${rows.statData.length} statData rows to delete.`);
 
   if (options.dryRun) {
     console.log("Dry run enabled, no changes executed.");
@@ -161,7 +178,7 @@ const run = async () => {
     }
   }
 
-  await deleteEntities(db, ids, options);
+  await deleteEntities(db, rows, options);
   console.log("Deletion complete.");
 };
 
@@ -12,6 +12,7 @@ import "dotenv/config";
 
 import { init as initAdmin, id, tx } from "@instantdb/admin";
 import { getInstantAppId, getInstantAdminToken } from "../_shared/etlUtils.js";
+import { auditLogTxs } from "../../api/_shared/auditLog.ts";
 
 // Canonical category seed data
 const CATEGORY_SEEDS = [
@@ -124,6 +125,13 @@ async function seedCategories(): Promise<void> {
 
   const txs: any[] = [];
   const now = Date.now();
+  let changedCount = 0;
+  const auditMeta = {
+    actor: process.env.USER ?? null,
+    source: "script" as const,
+    sourceDetail: "scripts/admin/seedCategories",
+    now,
+  };
 
   for (const seed of CATEGORY_SEEDS) {
     const existing = existingBySlug.get(seed.slug);
@@ -152,17 +160,29 @@ async function seedCategories(): Promise<void> {
 
       if (needsUpdate) {
         console.log(`[seed:categories] Updating: ${seed.slug}`);
-        txs.push(tx.categories[existing.id as string].update(payload));
+        changedCount += 1;
+        txs.push(
+          tx.categories[existing.id as string].update(payload),
+          ...auditLogTxs({
+            entity: "categories",
+            recordId: existing.id as string,
+            action: "update",
+            before: existing,
+            after: payload,
+            ...auditMeta,
+          }),
+        );
       } else {
         console.log(`[seed:categories] Unchanged: ${seed.slug}`);
       }
     } else {
       console.log(`[seed:categories] Creating: ${seed.slug}`);
+      changedCount += 1;
+      const categoryId = id();
+      const record = { ...payload, createdAt: now };
       txs.push(
-        tx.categories[id()].update({
-          ...payload,
-          createdAt: now,
-        })
+        tx.categories[categoryId].update(record),
+        ...auditLogTxs({ entity: "categories", recordId: categoryId, action: "create", after: record, ...auditMeta })
       );
     }
   }
@@ -172,7 +192,7 @@ async function seedCategories(): Promise<void> {
     return;
   }
 
-  console.log(`[seed:categories] Applying ${txs.length} category updates…`);
+  console.log(`[seed:categories] Applying ${changedCount} category updates…`);
   await db.transact(txs);
   console.log("[seed:categories] Seed completed successfully.");
 }
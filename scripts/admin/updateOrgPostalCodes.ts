@@ -2,6 +2,8 @@ import "dotenv/config";
 import minimist from "minimist";
 import { init as initAdmin } from "@instantdb/admin";
 
+import { auditLogTxs } from "../../api/_shared/auditLog.ts";
+
 type OrganizationRow = {
   id: string;
   name?: string | null;
@@ -52,7 +54,7 @@ async function main(): Promise<void> {
   let updated = 0;
   let missing = 0;
   const failures: OrganizationRow[] = [];
-  const staged: Array<{ id: string; zip: string }> = [];
+  const staged: Array<{ row: OrganizationRow; zip: string }> = [];
 
   log("Fetching organizations…");
 
@@ -94,7 +96,7 @@ async function main(): Promise<void> {
       }
 
       parsed += 1;
-      staged.push({ id: row.id, zip: extracted });
+      staged.push({ row, zip: extracted });
 
       if (!APPLY) continue;
       if (staged.length >= CHUNK_SIZE) {
@@ -135,9 +137,21 @@ async function main(): Promise<void> {
   }
 }
 
-async function flush(staged: Array<{ id: string; zip: string }>): Promise<void> {
+async function flush(staged: Array<{ row: OrganizationRow; zip: string }>): Promise<void> {
   if (staged.length === 0) return;
-  const txs = staged.map(({ id, zip }) => db.tx.organizations[id].update({ postalCode: zip }));
+  const txs = staged.flatMap(({ row, zip }) => [
+    db.tx.organizations[row.id].update({ postalCode: zip }),
+    ...auditLogTxs({
+      entity: "organizations",
+      recordId: row.id,
+      action: "update",
+      before: row,
+      after: { postalCode: zip },
+      actor: process.env.USER ?? null,
+      source: "script",
+      sourceDetail: "scripts/admin/updateOrgPostalCodes",
+    }),
+  ]);
   await db.transact(txs);
 }
 
@@ -10,6 +10,7 @@ import {
 import { ensureAllZipDataLoaded, getAllZipCodes, getZipCountyId, getZipCountyName } from '../../src/lib/zipBoundaries';
 import { getAllCountyIds, getCountyName } from '../../src/lib/countyBoundaries';
 import { normalizeScopeLabel, formatCountyScopeLabel } from '../../src/lib/scopeLabels';
+import { createAuditOps } from '../../api/_shared/auditLog.ts';
 
 const OK_STATE_FIPS = '40';
 const DEFAULT_DATASET = 'acs/acs5';
@@ -105,6 +106,8 @@ export interface DataMaps {
   countyMoe: Map<string, number>;
   countyZipBuckets: Map<string, Map<string, number>>;
   countyZipMoe?: Map<string, Map<string, number>>;
+  tract?: Map<string, number>;
+  tractMoe?: Map<string, number>;
 }
 
 const ratioMap = (numerator: Map<string, number>, denominator: Map<string, number>): Map<string, number> => {
@@ -146,6 +149,7 @@ export const buildPercentageDataMaps = (numerator: DataMaps, denominator: DataMa
     countyMoe: new Map(),
     countyZipBuckets: ratioBucketMap(numerator.countyZipBuckets, denominator.countyZipBuckets),
     countyZipMoe: undefined,
+    tract: ratioMap(numerator.tract ?? new Map(), denominator.tract ?? new Map()),
   };
 };
 
@@ -179,6 +183,7 @@ export const sumDataMaps = (a: DataMaps, b: DataMaps): DataMaps => ({
   countyMoe: new Map(),
   countyZipBuckets: sumBucketMaps(a.countyZipBuckets, b.countyZipBuckets),
   countyZipMoe: undefined,
+  tract: sumNumberMaps(a.tract ?? new Map(), b.tract ?? new Map()),
 });
 
 export const parseCensusArgs = (): CensusCliOptions => {
@@ -452,11 +457,54 @@ export const fetchCountyData = async (
   return { records, countyNames: loadCountyMetadata().idToName };
 };
 
+// Tract estimates are only published in the ACS 5-year tables.
+const supportsTractGeography = (dataset: string): boolean => /acs5/i.test(dataset);
+
+export const fetchTractData = async (
+  options: CensusCliOptions,
+  estimates: string[],
+  moeVariables: string[],
+): Promise<{ records: any[] }> => {
+  if (!estimates.length || !supportsTractGeography(options.dataset)) return { records: [] };
+  const getParams = ['NAME', ...estimates, ...moeVariables];
+  const data = await fetchCensusJson<any[][]>(
+    options.year,
+    options.dataset,
+    '',
+    {
+      get: getParams.join(','),
+      for: 'tract:*',
+      in: `state:${OK_STATE_FIPS}`,
+    },
+    options.debug,
+  );
+  const [headers, ...rows] = data;
+  if (!headers) return { records: [] };
+  const records = rows.map((row) => {
+    const entry: Record<string, string> = {};
+    headers.forEach((key, index) => {
+      entry[key] = row[index];
+    });
+    return entry;
+  });
+  return { records };
+};
+
+// Tract GEOIDs are state (2) + county (3) + tract (6); the API returns the parts separately.
+const buildTractGeoid = (record: Record<string, string>): string | null => {
+  const state = (record.state ?? '').trim();
+  const county = (record.county ?? '').trim().padStart(3, '0');
+  const tract = (record.tract ?? '').trim().padStart(6, '0');
+  const geoid = `${state}${county}${tract}`;
+  return /^\d{11}$/.test(geoid) ? geoid : null;
+};
+
 export const buildDataMaps = (
   variable: string,
   moeVariable: string | null,
   zipPayload: { records: any[]; okMetadata: Awaited<ReturnType<typeof loadZipMetadata>> },
   countyPayload: { records: any[]; countyNames: Map<string, string> },
+  tractPayload?: { records: any[] },
 ): DataMaps => {
   const estimateKey = variable;
   const moeKey = moeVariable;
@@ -517,6 +565,22 @@ export const buildDataMaps = (
     }
   }
 
+  const tractMap = new Map<string, number>();
+  const tractMoeMap = new Map<string, number>();
+  for (const record of tractPayload?.records ?? []) {
+    if (record.state !== OK_STATE_FIPS) continue;
+    const geoid = buildTractGeoid(record);
+    if (!geoid) continue;
+    const estimate = toNumberOrNull(record[estimateKey]);
+    if (estimate != null) {
+      tractMap.set(geoid, estimate);
+    }
+    if (moeKey) {
+      const moeVal = toNumberOrNull(record[moeKey]);
+      if (moeVal != null) tractMoeMap.set(geoid, moeVal);
+    }
+  }
+
   return {
     zip: zipMap,
     zipMoe: zipMoeMap,
@@ -524,6 +588,8 @@ export const buildDataMaps = (
     countyMoe: countyMoeMap,
     countyZipBuckets: countyZipMap,
     countyZipMoe: countyZipMoeMap,
+    tract: tractMap,
+    tractMoe: tractMoeMap,
   };
 };
 
@@ -550,6 +616,12 @@ export interface StatRecord {
 
 export const createInstantClient = () => initInstantAdmin(initAdmin);
 
+const auditOps = createAuditOps({
+  actor: process.env.USER ?? null,
+  source: 'script',
+  sourceDetail: 'scripts/census/load',
+});
+
 export const ensureStatRecord = async (
   db: ReturnType<typeof createInstantClient>,
   statName: string,
@@ -570,7 +642,12 @@ export const ensureStatRecord = async (
     if (existing.category !== targetCategory) updates.category = targetCategory;
     if (existing.source !== 'Census') updates.source = 'Census';
     if (existing.name !== statName) updates.name = statName;
-    if (Object.keys(updates).length > 1) await db.transact(tx.stats[existing.id].update(updates));
+    if (Object.keys(updates).length > 1) {
+      await db.transact([
+        tx.stats[existing.id].update(updates),
+        ...auditOps('stats', existing.id, 'update', existing, updates),
+      ]);
+    }
     return { statId: existing.id, statType };
   }
 
@@ -582,22 +659,24 @@ export const ensureStatRecord = async (
     if (!sameName.neId) updates.neId = externalId;
     if (sameName.category !== targetCategory) updates.category = targetCategory;
     if (sameName.source !== 'Census') updates.source = 'Census';
-    await db.transact(tx.stats[sameName.id].update(updates));
+    await db.transact([
+      tx.stats[sameName.id].update(updates),
+      ...auditOps('stats', sameName.id, 'update', sameName, updates),
+    ]);
     return { statId: sameName.id, statType };
   }
 
   const statId = id();
-  await db.transact(
-    tx.stats[statId].update({
-      name: statName,
-      category: targetCategory,
-      neId: externalId,
-      source: 'Census',
-      goodIfUp: null,
-      createdOn: now,
-      lastUpdated: now,
-    }),
-  );
+  const record = {
+    name: statName,
+    category: targetCategory,
+    neId: externalId,
+    source: 'Census',
+    goodIfUp: null,
+    createdOn: now,
+    lastUpdated: now,
+  };
+  await db.transact([tx.stats[statId].update(record), ...auditOps('stats', statId, 'create', null, record)]);
   return { statId, statType };
 };
 
@@ -606,7 +685,7 @@ interface StatDataPayload {
   statName: string;
   statType: string;
   parentArea: string;
-  boundaryType: 'ZIP' | 'COUNTY';
+  boundaryType: 'ZIP' | 'COUNTY' | 'TRACT';
   data: Map<string, number>;
   margin?: Map<string, number>;
   censusVariable: string;
@@ -700,7 +779,10 @@ export const applyStatDataPayloads = async (
       if (payload.margin) {
         updates.marginOfError = mergeNumberMaps(existingRow.marginOfError, payload.margin);
       }
-      operations.push(tx.statData[existingRow.id].update(updates));
+      operations.push(
+        tx.statData[existingRow.id].update(updates),
+        ...auditOps('statData', existingRow.id, 'update', existingRow, updates),
+      );
       existing.set(key, {
         ...existingRow,
         data: mergedData,
@@ -717,7 +799,7 @@ export const applyStatDataPayloads = async (
       if (payload.margin) {
         record.marginOfError = mapToObject(payload.margin);
       }
-      operations.push(tx.statData[newId].update(record));
+      operations.push(tx.statData[newId].update(record), ...auditOps('statData', newId, 'create', null, record));
       existing.set(key, record);
     }
 
@@ -795,6 +877,23 @@ export const buildStatDataPayloads = (
     year: meta.year,
     name: payloadName,
   });
+  if (maps.tract && maps.tract.size > 0) {
+    payloads.push({
+      statId,
+      statName,
+      statType,
+      parentArea: NORMALIZED_DEFAULT_PARENT_AREA,
+      boundaryType: 'TRACT',
+      data: maps.tract,
+      margin: maps.tractMoe?.size ? maps.tractMoe : undefined,
+      censusVariable: meta.censusVariable,
+      censusSurvey: meta.censusSurvey,
+      censusUniverse: meta.censusUniverse,
+      censusTableUrl: meta.censusTableUrl,
+      year: meta.year,
+      name: payloadName,
+    });
+  }
   return payloads;
 };
 
@@ -802,6 +901,7 @@ export const summarizeDataMaps = (maps: DataMaps) => ({
   zipCount: maps.zip.size,
   countyCount: maps.county.size,
   countyZipGroups: maps.countyZipBuckets.size,
+  tractCount: maps.tract?.size ?? 0,
 });
 const unwrapQuery = <T = any>(result: any, key: string): T[] => {
   if (!result) return [];
@@ -9,6 +9,7 @@ import {
   resolveVariables,
   fetchZipData,
   fetchCountyData,
+  fetchTractData,
   buildDataMaps,
   buildPercentageDataMaps,
   sumDataMaps,
@@ -377,6 +378,7 @@ async function main() {
     const moeVariables = Array.from(moeMap.values());
     const zipPayload = await fetchZipData(options, estimates, moeVariables);
     const countyPayload = await fetchCountyData(options, estimates, moeVariables);
+    const tractPayload = await fetchTractData(options, estimates, moeVariables);
 
     for (const variable of estimates) {
       const variableMeta = groupMeta.variables.get(variable);
@@ -388,11 +390,12 @@ async function main() {
         moeMap.get(variable) ?? null,
         zipPayload,
         countyPayload,
+        tractPayload,
       );
       const summary = summarizeDataMaps(dataMaps);
       const isDerivedOnly = DERIVED_ONLY_VARIABLES.has(variable);
       console.log(
-        `• ${variable} → ${statName} [${summary.zipCount} zips, ${summary.countyCount} counties]${isDerivedOnly ? ' (derived only)' : ''}`,
+        `• ${variable} → ${statName} [${summary.zipCount} zips, ${summary.countyCount} counties, ${summary.tractCount} tracts]${isDerivedOnly ? ' (derived only)' : ''}`,
       );
 
       processedThisYear.set(variable, {
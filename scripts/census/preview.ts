@@ -8,6 +8,7 @@ import {
   resolveVariables,
   fetchZipData,
   fetchCountyData,
+  fetchTractData,
   buildDataMaps,
   deriveStatName,
   summarizeDataMaps,
@@ -34,6 +35,7 @@ async function main() {
   const moeVariables = Array.from(moeMap.values());
   const zipPayload = await fetchZipData(options, estimates, moeVariables);
   const countyPayload = await fetchCountyData(options, estimates, moeVariables);
+  const tractPayload = await fetchTractData(options, estimates, moeVariables);
 
   console.log(`Variables discovered: ${estimates.length}`);
   const display = estimates.slice(0, options.limit);
@@ -47,10 +49,11 @@ async function main() {
       moeMap.get(variable) ?? null,
       zipPayload,
       countyPayload,
+      tractPayload,
     );
     const summary = summarizeDataMaps(maps);
     console.log(`\n${variable} → "${statName}"`);
-    console.log(`  type        : ${variableMeta.predicateType || 'unknown'} (${summary.zipCount} zips, ${summary.countyCount} counties)`);
+    console.log(`  type        : ${variableMeta.predicateType || 'unknown'} (${summary.zipCount} zips, ${summary.countyCount} counties, ${summary.tractCount} tracts)`);
     if (groupMeta.universe) console.log(`  universe    : ${groupMeta.universe}`);
     console.log(`  sample zips : ${formatSample(Array.from(maps.zip.entries()))}`);
     console.log(`  sample counties : ${formatSample(Array.from(maps.county.entries()))}`);
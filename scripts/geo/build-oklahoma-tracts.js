@@ -0,0 +1,312 @@
+#!/usr/bin/env node
+/**
+ * Builds Oklahoma census tract geometry chunks and manifest files.
+ *
+ * Mirrors build-oklahoma-zctas.js: tracts are simplified with mapshaper and
+ * grouped into one chunk per county so the map can lazy-load by viewport.
+ * County names are read from the generated ZCTA manifest so chunk labels stay
+ * consistent across both boundary sets.
+ *
+ * This script expects mapshaper to be installed (npm i -D mapshaper).
+ *
+ * Example usage:
+ *   node scripts/geo/build-oklahoma-tracts.js \
+ *     --input data/raw/tl_2020_40_tract.geojson \
+ *     --outDir src/data/tracts/oklahoma \
+ *     --simplify "12%" \
+ *     --tract-field GEOID \
+ *     --county-field COUNTYFP \
+ *     --tract-name-field NAMELSAD
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+import { spawn } from "child_process";
+
+const DEFAULT_SIMPLIFY = "12%";
+const DEFAULT_OUT_DIR = "src/data/tracts/oklahoma";
+const DEFAULT_STATE_CODE = "ok";
+const DEFAULT_STATE_FIPS = "40";
+const DEFAULT_TRACT_FIELD = "GEOID";
+const DEFAULT_COUNTY_FIELD = "COUNTYFP";
+const DEFAULT_TRACT_NAME_FIELD = "NAMELSAD";
+const DEFAULT_ZCTA_MANIFEST = "src/data/zcta/oklahoma/manifest.ts";
+
+const TYPES_TEMPLATE = `import type { FeatureCollection } from "geojson";`;
+
+const banner = `/**
+ * AUTO-GENERATED FILE.
+ * Generated via scripts/geo/build-oklahoma-tracts.js
+ * Do not edit by hand.
+ */`;
+
+const parseArgs = () => {
+  const args = process.argv.slice(2);
+  const options = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) continue;
+    const key = arg.replace(/^--/, "");
+    const next = args[i + 1];
+    if (!next || next.startsWith("--")) {
+      options[key] = true;
+      continue;
+    }
+    options[key] = next;
+    i += 1;
+  }
+
+  return {
+    input: options.input,
+    outDir: options["outDir"] || DEFAULT_OUT_DIR,
+    simplify: options.simplify || DEFAULT_SIMPLIFY,
+    state: options.state || DEFAULT_STATE_CODE,
+    stateFips: options["state-fips"] || DEFAULT_STATE_FIPS,
+    tractField: options["tract-field"] || DEFAULT_TRACT_FIELD,
+    countyField: options["county-field"] || DEFAULT_COUNTY_FIELD,
+    tractNameField: options["tract-name-field"] || DEFAULT_TRACT_NAME_FIELD,
+    zctaManifest: options["zcta-manifest"] || DEFAULT_ZCTA_MANIFEST,
+  };
+};
+
+const slugify = (value) =>
+  String(value || "")
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// The ZCTA manifest is generated with a stable layout, so a regex is enough to
+// recover the countyId -> name pairs without importing TypeScript from Node.
+const readCountyNames = async (manifestPath) => {
+  const names = new Map();
+  try {
+    const raw = await fs.readFile(manifestPath, "utf8");
+    const pattern = /countyId:\s*"(\d{3})",\s*name:\s*"([^"]+)"/g;
+    let match;
+    while ((match = pattern.exec(raw)) !== null) {
+      names.set(match[1], match[2]);
+    }
+  } catch {
+    console.warn(`Could not read county names from ${manifestPath}; falling back to FIPS codes`);
+  }
+  return names;
+};
+
+const runMapshaper = (inputPath, outputPath, { simplify, tractField, countyField, tractNameField }) => {
+  return new Promise((resolve, reject) => {
+    const args = [
+      inputPath,
+      "-simplify",
+      simplify,
+      "keep-shapes",
+      "-rename-fields",
+      `tract=${tractField},county=${countyField},name=${tractNameField}`,
+      "-filter-fields",
+      "tract,county,name",
+      "-o",
+      `format=geojson`,
+      outputPath,
+    ];
+
+    const child = spawn("mapshaper", args, { stdio: "inherit" });
+    child.on("error", (err) => reject(err));
+    child.on("exit", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`mapshaper exited with code ${code}`));
+      }
+    });
+  });
+};
+
+const computeBounds = (feature) => {
+  if (!feature.geometry) return null;
+  let minLng = Infinity;
+  let maxLng = -Infinity;
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+
+  const extend = (coords) => {
+    if (!Array.isArray(coords)) return;
+    if (typeof coords[0] === "number" && typeof coords[1] === "number") {
+      const [lng, lat] = coords;
+      if (lng < minLng) minLng = lng;
+      if (lng > maxLng) maxLng = lng;
+      if (lat < minLat) minLat = lat;
+      if (lat > maxLat) maxLat = lat;
+      return;
+    }
+    for (const coord of coords) extend(coord);
+  };
+
+  extend(feature.geometry.coordinates);
+  if (!Number.isFinite(minLng) || !Number.isFinite(minLat) || !Number.isFinite(maxLng) || !Number.isFinite(maxLat)) {
+    return null;
+  }
+  return [
+    [minLng, minLat],
+    [maxLng, maxLat],
+  ];
+};
+
+const writeChunkFile = async (outDir, countySlug, features) => {
+  const validIdentifier = countySlug
+    .split("-")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+  const exportName = `oklahoma${validIdentifier}TractBoundaries`;
+  const filePath = path.join(outDir, `${countySlug}.ts`);
+  const content = `${banner}
+${TYPES_TEMPLATE}
+
+export const ${exportName}: FeatureCollection<GeoJSON.MultiPolygon | GeoJSON.Polygon, { tract: string; county?: string; name?: string; [key: string]: unknown }> = ${JSON.stringify(
+    {
+      type: "FeatureCollection",
+      features,
+    },
+    null,
+    2,
+  )} as const;
+
+export default ${exportName};
+`;
+  await fs.writeFile(filePath, content, "utf8");
+  return { filePath, exportName };
+};
+
+const writeManifest = async (outDir, state, entries) => {
+  const manifestPath = path.join(outDir, "manifest.ts");
+  const manifestContent = `${banner}
+import type { FeatureCollection } from "geojson";
+
+export type BoundsArray = [[number, number], [number, number]];
+
+export interface OklahomaTractChunkMeta {
+  id: string;
+  countyId: string;
+  name: string;
+  bbox: BoundsArray;
+  load: () => Promise<FeatureCollection<GeoJSON.MultiPolygon | GeoJSON.Polygon, { tract: string; county?: string; name?: string; [key: string]: unknown }>>;
+}
+
+export const oklahomaTractManifest: OklahomaTractChunkMeta[] = [
+${entries
+  .map(
+    (entry) => `  {
+    id: "${state}-tracts-${entry.countyId}",
+    countyId: "${entry.countyId}",
+    name: ${JSON.stringify(entry.name)},
+    bbox: ${JSON.stringify(entry.bbox)},
+    load: async () => {
+      const module = await import("./${entry.slug}");
+      return module.default;
+    },
+  },`,
+  )
+  .join("\n")}
+];
+`;
+  await fs.writeFile(manifestPath, manifestContent, "utf8");
+};
+
+const main = async () => {
+  const options = parseArgs();
+  if (!options.input) {
+    console.error("Missing required --input <path-to-tract-geojson-or-shapefile>");
+    process.exit(1);
+  }
+
+  const inputPath = path.resolve(process.cwd(), options.input);
+  const outDir = path.resolve(process.cwd(), options.outDir);
+  const countyNames = await readCountyNames(path.resolve(process.cwd(), options.zctaManifest));
+
+  await fs.mkdir(outDir, { recursive: true });
+
+  const tmpGeojsonPath = path.join(os.tmpdir(), `oklahoma-tracts-${Date.now()}.geojson`);
+  try {
+    console.log(`→ Running mapshaper simplification (${options.simplify})`);
+    await runMapshaper(inputPath, tmpGeojsonPath, options);
+
+    const raw = JSON.parse(await fs.readFile(tmpGeojsonPath, "utf8"));
+    if (!raw || !Array.isArray(raw.features)) {
+      throw new Error("Simplified GeoJSON missing features array");
+    }
+
+    // Group features by county; tract ids stay as full 11-digit GEOIDs and the
+    // county property is widened to the 5-digit FIPS used by county areas.
+    const grouped = new Map();
+    for (const feature of raw.features) {
+      const tract = feature.properties?.tract;
+      const countyFp = String(feature.properties?.county ?? "").padStart(3, "0");
+      if (!tract || countyFp === "000") continue;
+      feature.properties = {
+        tract: String(tract),
+        county: `${options.stateFips}${countyFp}`,
+        name: feature.properties?.name ?? String(tract),
+      };
+      if (!grouped.has(countyFp)) {
+        grouped.set(countyFp, []);
+      }
+      grouped.get(countyFp).push(feature);
+    }
+
+    const manifestEntries = [];
+
+    for (const [countyId, features] of grouped.entries()) {
+      const countyName = countyNames.get(countyId) ?? countyId;
+      const slug = `${slugify(countyName || countyId)}-tracts`;
+      console.log(`→ Writing chunk for ${countyName} (${countyId}) with ${features.length} tracts`);
+      await writeChunkFile(outDir, slug, features);
+
+      let minLng = Infinity;
+      let minLat = Infinity;
+      let maxLng = -Infinity;
+      let maxLat = -Infinity;
+      for (const feature of features) {
+        const bounds = computeBounds(feature);
+        if (!bounds) continue;
+        minLng = Math.min(minLng, bounds[0][0]);
+        minLat = Math.min(minLat, bounds[0][1]);
+        maxLng = Math.max(maxLng, bounds[1][0]);
+        maxLat = Math.max(maxLat, bounds[1][1]);
+      }
+      const bbox =
+        Number.isFinite(minLng) && Number.isFinite(minLat) && Number.isFinite(maxLng) && Number.isFinite(maxLat)
+          ? [
+              [minLng, minLat],
+              [maxLng, maxLat],
+            ]
+          : [
+              [-180, -90],
+              [180, 90],
+            ];
+
+      manifestEntries.push({
+        countyId,
+        name: countyName,
+        bbox,
+        slug,
+      });
+    }
+
+    manifestEntries.sort((a, b) => a.name.localeCompare(b.name));
+    await writeManifest(outDir, options.state, manifestEntries);
+
+    console.log(`✓ Generated ${manifestEntries.length} county tract chunks in ${options.outDir}`);
+  } finally {
+    try {
+      await fs.unlink(tmpGeojsonPath);
+    } catch {
+      // ignore
+    }
+  }
+};
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -21,6 +21,7 @@ import {
   initInstantAdmin,
   parseArgs as legacyParseArgs,
 } from "../_shared/etlUtils.js";
+import { auditLogTxs } from "../../api/_shared/auditLog.ts";
 
 const DRY_RUN = args.dry === "1" || args.dry === true;
 const PLACE_ID_QUERY_CHUNK = 100;
@@ -348,6 +349,11 @@ async function main() {
   }
 
   const db = initInstantAdmin(initAdmin);
+  const auditMeta = {
+    actor: process.env.USER ?? null,
+    source: "script" as const,
+    sourceDetail: "scripts/google-places/load-food-orgs",
+  };
 
   const placeIds = payload.places.map((p) => p.placeId).filter(Boolean);
   const { existingByPlaceId, existingByNameCity, existingByLocation } = await fetchExisting(db, placeIds);
@@ -357,7 +363,8 @@ async function main() {
     byLocation: existingByLocation,
   };
 
-  const txs: any[] = [];
+  // One group per place so an organization write and its audit entry share a transaction.
+  const txs: any[][] = [];
   const created: NormalizedPlace[] = [];
   const updated: NormalizedPlace[] = [];
   const skipped: NormalizedPlace[] = [];
@@ -384,11 +391,19 @@ async function main() {
 
     if (existing) {
       updated.push(place);
-      txs.push(
+      txs.push([
         tx.organizations[existing.id].update({
           ...payloadForDb,
         }),
-      );
+        ...auditLogTxs({
+          entity: "organizations",
+          recordId: existing.id,
+          action: "update",
+          before: existing,
+          after: payloadForDb,
+          ...auditMeta,
+        }),
+      ]);
       const updatedRow: OrgRow = {
         ...existing,
         placeId: payloadForDb.placeId ?? existing.placeId ?? null,
@@ -407,7 +422,10 @@ async function main() {
     } else {
       created.push(place);
       const newId = id();
-      txs.push(tx.organizations[newId].update(payloadForDb));
+      txs.push([
+        tx.organizations[newId].update(payloadForDb),
+        ...auditLogTxs({ entity: "organizations", recordId: newId, action: "create", after: payloadForDb, ...auditMeta }),
+      ]);
       const placeholder = createPlaceholderRow(newId, place, now);
       updateMapsWithPlace(existingMaps, placeholder);
     }
@@ -424,7 +442,7 @@ async function main() {
 
   const chunkSize = 50;
   for (let i = 0; i < txs.length; i += chunkSize) {
-    const slice = txs.slice(i, i + chunkSize);
+    const slice = txs.slice(i, i + chunkSize).flat();
     await db.transact(slice);
   }
 
@@ -3,6 +3,7 @@
 
 import 'dotenv/config';
 import { init as initAdmin, tx } from '@instantdb/admin';
+import { createAuditOps } from '../api/_shared/auditLog.ts';
 
 const args = Object.fromEntries(
   process.argv.slice(2).map((arg) => {
@@ -19,6 +20,11 @@ if (!APP_ID) throw new Error('Missing VITE_INSTANT_APP_ID/INSTANT_APP_ID');
 if (!ADMIN_TOKEN) throw new Error('Missing INSTANT_APP_ADMIN_TOKEN');
 
 const db = initAdmin({ appId: APP_ID, adminToken: ADMIN_TOKEN });
+const auditOps = createAuditOps({
+  actor: process.env.USER ?? null,
+  source: 'script',
+  sourceDetail: 'scripts/ne-clean-synthetic',
+});
 
 async function main() {
   console.log(DRY ? 'Mode: DRY (preview only)' : 'Mode: WRITE (will delete synthetic data)');
@@ -68,7 +74,10 @@ async function main() {
   // Delete synthetic statData first
   if (syntheticStatData.length > 0) {
     console.log(`\nDeleting ${syntheticStatData.length} synthetic statData entries...`);
-    const deleteTxs = syntheticStatData.map(sd => tx.statData[sd.id].delete());
+    const deleteTxs = syntheticStatData.flatMap(sd => [
+      tx.statData[sd.id].delete(),
+      ...auditOps('statData', sd.id, 'delete', sd, null),
+    ]);
     await db.transact(deleteTxs);
     console.log('✓ Deleted synthetic statData');
   }
@@ -76,7 +85,10 @@ async function main() {
   // Delete synthetic stats
   if (syntheticStats.length > 0) {
     console.log(`\nDeleting ${syntheticStats.length} synthetic stats...`);
-    const deleteTxs = syntheticStats.map(s => tx.stats[s.id].delete());
+    const deleteTxs = syntheticStats.flatMap(s => [
+      tx.stats[s.id].delete(),
+      ...auditOps('stats', s.id, 'delete', s, null),
+    ]);
     await db.transact(deleteTxs);
     console.log('✓ Deleted synthetic stats');
   }
@@ -3,6 +3,7 @@
 
 import 'dotenv/config';
 import { init as initAdmin, tx } from '@instantdb/admin';
+import { createAuditOps } from '../api/_shared/auditLog.ts';
 
 const args = Object.fromEntries(
   process.argv.slice(2).map((arg) => {
@@ -19,6 +20,11 @@ if (!APP_ID) throw new Error('Missing VITE_INSTANT_APP_ID/INSTANT_APP_ID');
 if (!ADMIN_TOKEN) throw new Error('Missing INSTANT_APP_ADMIN_TOKEN');
 
 const db = initAdmin({ appId: APP_ID, adminToken: ADMIN_TOKEN });
+const auditOps = createAuditOps({
+  actor: process.env.USER ?? null,
+  source: 'script',
+  sourceDetail: 'scripts/ne-clean-unnamed',
+});
 
 async function main() {
   console.log(DRY ? 'Mode: DRY (preview only)' : 'Mode: WRITE (will delete unnamed stats)');
@@ -73,7 +79,10 @@ async function main() {
   // Delete unnamed statData first
   if (unnamedStatData.length > 0) {
     console.log(`\nDeleting ${unnamedStatData.length} unnamed statData entries...`);
-    const deleteTxs = unnamedStatData.map(sd => tx.statData[sd.id].delete());
+    const deleteTxs = unnamedStatData.flatMap(sd => [
+      tx.statData[sd.id].delete(),
+      ...auditOps('statData', sd.id, 'delete', sd, null),
+    ]);
     await db.transact(deleteTxs);
     console.log('✓ Deleted unnamed statData');
   }
@@ -81,7 +90,10 @@ async function main() {
   // Delete unnamed stats
   if (unnamedStats.length > 0) {
     console.log(`\nDeleting ${unnamedStats.length} unnamed stats...`);
-    const deleteTxs = unnamedStats.map(s => tx.stats[s.id].delete());
+    const deleteTxs = unnamedStats.flatMap(s => [
+      tx.stats[s.id].delete(),
+      ...auditOps('stats', s.id, 'delete', s, null),
+    ]);
     await db.transact(deleteTxs);
     console.log('✓ Deleted unnamed stats');
   }
@@ -6,7 +6,7 @@
 // Usage:
 //  npm run ne:etl:load:staging
 //  npm run ne:etl:load:prod
-//  NE_BASE=... node scripts/ne-etl-load.js --limit=10
+//  NE_BASE=... npx tsx scripts/ne-etl-load.js --limit=10
 
 import 'dotenv/config';
 import { init as initAdmin, id, tx } from '@instantdb/admin';
@@ -22,6 +22,7 @@ import {
   fetchCategoriesMap,
   initInstantAdmin,
 } from './_shared/etlUtils.js';
+import { createAuditOps } from '../api/_shared/auditLog.ts';
 
 const args = parseArgs();
 
@@ -33,6 +34,11 @@ const DRY = args.dry === '1' || args.dry === true;
 const DEBUG = isDebug(args);
 
 const db = initInstantAdmin(initAdmin);
+const auditOps = createAuditOps({
+  actor: process.env.USER ?? null,
+  source: 'script',
+  sourceDetail: 'scripts/ne-etl-load',
+});
 
 async function fetchZipFeatures({ startDate, endDate }) {
   const out = [];
@@ -112,7 +118,9 @@ async function ensureStatId({ neId, name: statName }, draft) {
       if (draft.category !== undefined && draft.category !== exNe.category) updates.category = draft.category;
       if (draft.goodIfUp !== undefined && draft.goodIfUp !== exNe.goodIfUp) updates.goodIfUp = draft.goodIfUp;
       if (!exNe.neId) updates.neId = neId;
-      if (Object.keys(updates).length > 1) await db.transact(tx.stats[exNe.id].update(updates));
+      if (Object.keys(updates).length > 1) {
+        await db.transact([tx.stats[exNe.id].update(updates), ...auditOps('stats', exNe.id, 'update', exNe, updates)]);
+      }
       return exNe.id;
     }
   }
@@ -127,19 +135,23 @@ async function ensureStatId({ neId, name: statName }, draft) {
     if (draft.goodIfUp !== undefined && draft.goodIfUp !== existing.goodIfUp) updates.goodIfUp = draft.goodIfUp;
     if (!existing.neId && neId) updates.neId = neId;
     if (Object.keys(updates).length > 1) {
-      await db.transact(tx.stats[existing.id].update(updates));
+      await db.transact([
+        tx.stats[existing.id].update(updates),
+        ...auditOps('stats', existing.id, 'update', existing, updates),
+      ]);
     }
     return existing.id;
   }
   const newId = id();
-  await db.transact(tx.stats[newId].update({
+  const record = {
     name: statName,
     category: draft.category,
     neId: neId || undefined,
     goodIfUp: draft.goodIfUp ?? undefined,
     createdOn: now,
     lastUpdated: now,
-  }));
+  };
+  await db.transact([tx.stats[newId].update(record), ...auditOps('stats', newId, 'create', null, record)]);
   return newId;
 }
 
@@ -154,24 +166,26 @@ async function upsertStatData(statId, sd) {
   if (existing) {
     const merged = { ...(existing.data || {}), ...(sd.data || {}) };
     const updates = { type: sd.type, data: merged, statTitle: sd.statTitle, lastUpdated: now };
-    await db.transact(tx.statData[existing.id].update(updates));
+    await db.transact([
+      tx.statData[existing.id].update(updates),
+      ...auditOps('statData', existing.id, 'update', existing, updates),
+    ]);
     return existing.id;
   }
   const newId = id();
-  await db.transact(
-    tx.statData[newId].update({
-      statId,
-      name: sd.name,
-      statTitle: sd.statTitle,
-      area: sd.area,
-      boundaryType: sd.boundaryType,
-      date: sd.date,
-      type: sd.type,
-      data: sd.data || {},
-      createdOn: now,
-      lastUpdated: now,
-    }),
-  );
+  const record = {
+    statId,
+    name: sd.name,
+    statTitle: sd.statTitle,
+    area: sd.area,
+    boundaryType: sd.boundaryType,
+    date: sd.date,
+    type: sd.type,
+    data: sd.data || {},
+    createdOn: now,
+    lastUpdated: now,
+  };
+  await db.transact([tx.statData[newId].update(record), ...auditOps('statData', newId, 'create', null, record)]);
   return newId;
 }
 
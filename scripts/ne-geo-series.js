@@ -16,6 +16,7 @@ import {
   fetchCategoriesMap,
   initInstantAdmin,
 } from './_shared/etlUtils.js';
+import { createAuditOps } from '../api/_shared/auditLog.ts';
 
 const args = parseArgs();
 
@@ -30,6 +31,11 @@ const DEBUG = isDebug(args);
 const CONCURRENCY = Number(args.concurrency || 10); // Concurrent area resolutions
 
 const db = initInstantAdmin(initAdmin);
+const auditOps = createAuditOps({
+  actor: process.env.USER ?? null,
+  source: 'script',
+  sourceDetail: 'scripts/ne-geo-series',
+});
 
 async function getAdapter(statId) {
   const url = `${base.replace(/\/$/, '')}/api/statistic_map/${statId}/?format=json`;
@@ -98,7 +104,9 @@ async function ensureStat({ neId, name, category, desired }) {
       const giu = desiredToGoodIfUp(desired);
       if (category != null && ex.category !== category) updates.category = category;
       if (giu != null && ex.goodIfUp !== giu) updates.goodIfUp = giu;
-      if (Object.keys(updates).length > 1) await db.transact(tx.stats[ex.id].update(updates));
+      if (Object.keys(updates).length > 1) {
+        await db.transact([tx.stats[ex.id].update(updates), ...auditOps('stats', ex.id, 'update', ex, updates)]);
+      }
       return ex.id;
     }
   }
@@ -114,12 +122,12 @@ async function ensureStat({ neId, name, category, desired }) {
   };
   if (exN) {
     newVals.createdOn = exN.createdOn || now;
-    await db.transact(tx.stats[exN.id].update(newVals));
+    await db.transact([tx.stats[exN.id].update(newVals), ...auditOps('stats', exN.id, 'update', exN, newVals)]);
     return exN.id;
   }
   const newStatId = newId();
   newVals.createdOn = now;
-  await db.transact(tx.stats[newStatId].update(newVals));
+  await db.transact([tx.stats[newStatId].update(newVals), ...auditOps('stats', newStatId, 'create', null, newVals)]);
   return newStatId;
 }
 
@@ -130,11 +138,15 @@ async function upsertStatData(statId, { boundaryType, date, type, data, statTitl
   const existing = (await db.query({ statData: { $: { where } } })).data?.statData?.[0];
   if (existing) {
     const merged = { ...(existing.data || {}), ...(data || {}) };
-    await db.transact(tx.statData[existing.id].update({ type, data: merged, statTitle, lastUpdated: now }));
+    const updates = { type, data: merged, statTitle, lastUpdated: now };
+    await db.transact([
+      tx.statData[existing.id].update(updates),
+      ...auditOps('statData', existing.id, 'update', existing, updates),
+    ]);
     return existing.id;
   }
   const newDataId = newId();
-  await db.transact(tx.statData[newDataId].update({
+  const record = {
     statId,
     name: 'root',
     statTitle,
@@ -145,7 +157,8 @@ async function upsertStatData(statId, { boundaryType, date, type, data, statTitl
     data,
     createdOn: now,
     lastUpdated: now,
-  }));
+  };
+  await db.transact([tx.statData[newDataId].update(record), ...auditOps('statData', newDataId, 'create', null, record)]);
   return newDataId;
 }
 
@@ -159,7 +172,7 @@ function withinWindow(yearStr) {
 async function main() {
   const statId = args.stat;
   if (!statId) {
-    console.error('Usage: node scripts/ne-geo-series.js --stat=<NE_STAT_HASHID> [--name=<STAT_NAME>] [--geometry=zip|tract] [--dry=1] [--skip-unnamed=1] [--concurrency=10]');
+    console.error('Usage: npx tsx scripts/ne-geo-series.js --stat=<NE_STAT_HASHID> [--name=<STAT_NAME>] [--geometry=zip|tract] [--dry=1] [--skip-unnamed=1] [--concurrency=10]');
     process.exit(2);
   }
   console.log(`Base: ${base}`);
@@ -7,6 +7,7 @@
 
 import 'dotenv/config';
 import { init as initAdmin, tx } from '@instantdb/admin';
+import { createAuditOps } from '../api/_shared/auditLog.ts';
 
 const args = Object.fromEntries(
   process.argv.slice(2).map((arg) => {
@@ -24,6 +25,11 @@ if (!APP_ID) throw new Error('Missing VITE_INSTANT_APP_ID/INSTANT_APP_ID');
 if (!ADMIN_TOKEN) throw new Error('Missing INSTANT_APP_ADMIN_TOKEN');
 
 const db = initAdmin({ appId: APP_ID, adminToken: ADMIN_TOKEN });
+const auditOps = createAuditOps({
+  actor: process.env.USER ?? null,
+  source: 'script',
+  sourceDetail: 'scripts/ne-migrate-timestamps',
+});
 
 async function main() {
   console.log(DRY ? 'Mode: DRY (preview only)' : 'Mode: WRITE');
@@ -41,6 +47,7 @@ async function main() {
   }
 
   const statsTxs = [];
+  let statsToUpdate = 0;
   for (const s of stats) {
     const updates = {};
     let needsUpdate = false;
@@ -55,14 +62,15 @@ async function main() {
     }
 
     if (needsUpdate) {
-      statsTxs.push(tx.stats[s.id].update(updates));
+      statsTxs.push(tx.stats[s.id].update(updates), ...auditOps('stats', s.id, 'update', s, updates));
+      statsToUpdate += 1;
       if (DEBUG) {
         console.log(`[stats] ${s.name} (${s.id}): ${JSON.stringify(updates)}`);
       }
     }
   }
 
-  console.log(`Stats: ${statsTxs.length} need timestamp updates`);
+  console.log(`Stats: ${statsToUpdate} need timestamp updates`);
 
   // Fetch all statData
   const statDataResp = await db.query({ statData: {} });
@@ -70,6 +78,7 @@ async function main() {
   console.log(`Found ${statData.length} statData entries to process`);
 
   const statDataTxs = [];
+  let statDataToUpdate = 0;
   for (const sd of statData) {
     const updates = {};
     let needsUpdate = false;
@@ -93,14 +102,15 @@ async function main() {
     }
 
     if (needsUpdate) {
-      statDataTxs.push(tx.statData[sd.id].update(updates));
+      statDataTxs.push(tx.statData[sd.id].update(updates), ...auditOps('statData', sd.id, 'update', sd, updates));
+      statDataToUpdate += 1;
       if (DEBUG) {
         console.log(`[statData] ${sd.name} (${sd.id}): ${JSON.stringify(updates)}`);
       }
     }
   }
 
-  console.log(`StatData: ${statDataTxs.length} need updates (statTitle and/or timestamps)`);
+  console.log(`StatData: ${statDataToUpdate} need updates (statTitle and/or timestamps)`);
 
   if (DRY) {
     console.log('\nDry run complete. No changes written.');
@@ -109,11 +119,11 @@ async function main() {
 
   // Execute updates
   if (statsTxs.length > 0) {
-    console.log(`Writing ${statsTxs.length} stats updates...`);
+    console.log(`Writing ${statsToUpdate} stats updates...`);
     await db.transact(statsTxs);
   }
   if (statDataTxs.length > 0) {
-    console.log(`Writing ${statDataTxs.length} statData updates...`);
+    console.log(`Writing ${statDataToUpdate} statData updates...`);
     await db.transact(statDataTxs);
   }
 
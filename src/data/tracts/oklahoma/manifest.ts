@@ -0,0 +1,19 @@
+/**
+ * AUTO-GENERATED FILE.
+ * Generated via scripts/geo/build-oklahoma-tracts.js
+ * Do not edit by hand.
+ */
+import type { FeatureCollection } from "geojson";
+
+export type BoundsArray = [[number, number], [number, number]];
+
+export interface OklahomaTractChunkMeta {
+  id: string;
+  countyId: string;
+  name: string;
+  bbox: BoundsArray;
+  load: () => Promise<FeatureCollection<GeoJSON.MultiPolygon | GeoJSON.Polygon, { tract: string; county?: string; name?: string; [key: string]: unknown }>>;
+}
+
+export const oklahomaTractManifest: OklahomaTractChunkMeta[] = [
+];
@@ -32,6 +32,23 @@ const _schema = i.schema({
           status?: string | null;
         }>;
         weekdayText?: string[];
+        recurrences?: Array<{
+          day: number;
+          weeks: number[];
+          openTime?: string | null;
+          closeTime?: string | null;
+          closed?: boolean;
+        }>;
+        exceptions?: Array<{
+          startDate: string;
+          endDate?: string | null;
+          days?: number[] | null;
+          closed?: boolean;
+          openTime?: string | null;
+          closeTime?: string | null;
+          label?: string | null;
+        }>;
+        closedOnHolidays?: boolean;
         status?: string;
         isUnverified?: boolean;
       }>().optional(),
@@ -68,6 +85,35 @@ const _schema = i.schema({
       createdBy: i.string().indexed().optional(),
       updatedAt: i.number().indexed().optional(),
     }),
+    // Review decisions from the admin duplicate queue. "merge" rows keep a
+    // snapshot of the deleted org; "dismiss" rows mark a pair as distinct.
+    orgMerges: i.entity({
+      pairKey: i.string().indexed(),
+      action: i.string().indexed(),
+      survivorId: i.string().indexed(),
+      mergedId: i.string().indexed(),
+      survivorName: i.string(),
+      mergedName: i.string(),
+      score: i.number().optional(),
+      choices: i.json<Record<string, string>>().optional(),
+      mergedSnapshot: i.json<Record<string, unknown>>().optional(),
+      movedCommentIds: i.json<string[]>().optional(),
+      createdBy: i.string().indexed().optional(),
+      createdAt: i.number().indexed(),
+    }),
+    // Change history for organizations, stats, statData and categories; see src/lib/auditLog.ts.
+    auditLog: i.entity({
+      entity: i.string().indexed(),
+      recordId: i.string().indexed(),
+      recordLabel: i.string().optional(),
+      action: i.string().indexed(),
+      changes: i.json<Record<string, { before: unknown; after: unknown; partial?: true }>>(),
+      actor: i.string().indexed().optional(),
+      source: i.string().indexed(),
+      sourceDetail: i.string().optional(),
+      revertOf: i.string().indexed().optional(),
+      createdAt: i.number().indexed(),
+    }),
     customDataImports: i.entity({
       name: i.string().indexed(),
       owner: i.string().indexed(),
@@ -91,6 +137,7 @@ const _schema = i.schema({
       type: i.string().indexed(),
       locationKind: i.string().indexed(),
       sourceFile: i.string().optional(),
+      privacy: i.json<Record<string, unknown>>().optional(),
       status: i.string().indexed(),
       createdAt: i.number().indexed(),
       updatedAt: i.number().indexed(),
@@ -105,6 +152,7 @@ const _schema = i.schema({
       date: i.string().indexed(),
       type: i.string().indexed(),
       data: i.json<Record<string, number>>(),
+      counts: i.json<Record<string, number>>().optional(),
       sourceFile: i.string().optional(),
       createdAt: i.number().indexed(),
       updatedAt: i.number().indexed(),
@@ -197,6 +245,8 @@ const _schema = i.schema({
       // Human-friendly label for display (e.g., "Female Married w/o Spouse")
       // When set, shown as main title in UI; original name becomes subtitle
       label: i.string().indexed().optional(),
+      // Per-locale label overrides, e.g. { es: "Ingreso medio" }
+      labelTranslations: i.json<{ es?: string }>().optional(),
       description: i.string().optional(),
       category: i.string().indexed(),
       neId: i.string().unique().indexed().optional(),
@@ -216,6 +266,12 @@ const _schema = i.schema({
       // Owner of the stat (auth.id) for private/inactive visibility
       createdBy: i.string().indexed().optional(),
       type: i.string().indexed().optional(), // count | percent | rate | years | currency
+      // Choropleth classification: equal_interval | quantile | jenks | std_dev | manual
+      classificationMethod: i.string().optional(),
+      // Interior class thresholds used when classificationMethod is "manual"
+      classBreaks: i.json<number[]>().optional(),
+      // Stat used to weight percents/rates when combining areas (population when unset)
+      denominatorStatId: i.string().optional(),
       createdOn: i.number().indexed().optional(),
       lastUpdated: i.number().indexed().optional(),
     }),
@@ -294,6 +350,7 @@ const _schema = i.schema({
     categories: i.entity({
       slug: i.string().unique().indexed(), // canonical id (e.g., "food", "health")
       label: i.string(),                   // display name (e.g., "Food", "Health")
+      labelTranslations: i.json<{ es?: string }>().optional(), // per-locale label overrides
       sortOrder: i.number().indexed(),     // deterministic ordering in dropdowns/chips
       active: i.boolean().indexed().optional(), // soft-hide without deleting
       // Usage flags: enable/disable per surface
@@ -319,6 +376,10 @@ const _schema = i.schema({
         pinned?: string[];
         counties?: { selected?: string[]; pinned?: string[] };
       }>(),
+      // Named map views (see src/react/lib/savedViews.ts); validated on read
+      savedViews: i.json<
+        Array<{ id: string; name: string; state: Record<string, unknown>; createdAt: number; updatedAt: number }>
+      >().optional(),
       updatedAt: i.number().indexed(),
     }),
   },
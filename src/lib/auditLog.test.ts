@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { buildAuditRecord, buildRestorePatch, buildRevertPatch, diffRecord } from "./auditLog";
+
+describe("audit log diffs", () => {
+  it("records only the patched fields that change", () => {
+    const before = { name: "Food Bank", phone: "555-0100", website: null, updatedAt: 1 };
+    expect(diffRecord(before, { name: "Food Bank", phone: "555-0199", website: undefined, updatedAt: 2 })).toEqual({
+      phone: { before: "555-0100", after: "555-0199" },
+    });
+    expect(
+      buildAuditRecord({
+        entity: "organizations",
+        recordId: "org-1",
+        action: "update",
+        before,
+        after: { updatedAt: 3 },
+        source: "ui",
+      }),
+    ).toBeNull();
+  });
+
+  it("keeps statData maps partial and merges reverts back key by key", () => {
+    const change = diffRecord({ data: { "74103": 1, "74104": 2 } }, { data: { "74103": 1, "74104": 5, "74105": 9 } })
+      .data;
+    expect(change).toEqual({ before: { "74104": 2 }, after: { "74104": 5, "74105": 9 }, partial: true });
+    // A later edit to 74103 survives reverting the earlier change.
+    expect(buildRevertPatch(change, "data", { data: { "74103": 3, "74104": 5, "74105": 9 } })).toEqual({
+      data: { "74103": 3, "74104": 2 },
+    });
+  });
+
+  it("restores a deleted record from its snapshot", () => {
+    const record = buildAuditRecord({
+      entity: "stats",
+      recordId: "stat-1",
+      action: "delete",
+      before: { id: "stat-1", name: "Median income", label: null, category: "economy" },
+      source: "script",
+    });
+    expect(record?.recordLabel).toBe("Median income");
+    expect(buildRestorePatch(record!.changes)).toEqual({ name: "Median income", category: "economy" });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Change history for organizations, stats, statData and categories.
+ *
+ * Every write site builds an `auditLog` row with `buildAuditRecord` and adds
+ * it to the same transaction as the write, so the log and the data can't
+ * drift. The one exception is a visitor's "Add a location" submission: visitors
+ * can't write audit rows, so /api/org-submission-audit logs it right after.
+ * This module is plain data so the app, the API functions and the scripts can
+ * all share it.
+ */
+
+export type AuditEntity = "organizations" | "stats" | "statData" | "categories";
+export type AuditAction = "create" | "update" | "delete" | "revert";
+
+/** Where a write came from; `sourceDetail` narrows it (endpoint, script or screen name). */
+export type AuditSource = "ui" | "api" | "script" | "ai-admin";
+
+export type AuditFieldChange = {
+  before: unknown;
+  after: unknown;
+  /**
+   * Set for large keyed maps (statData `data`, `marginOfError`): only the keys
+   * that changed are stored, and a missing key means "not present".
+   */
+  partial?: true;
+};
+
+export type AuditChanges = Record<string, AuditFieldChange>;
+
+export type AuditRecord = {
+  entity: AuditEntity;
+  recordId: string;
+  recordLabel: string | null;
+  action: AuditAction;
+  changes: AuditChanges;
+  actor: string | null;
+  source: AuditSource;
+  sourceDetail: string | null;
+  revertOf: string | null;
+  createdAt: number;
+};
+
+export type AuditRecordInput = {
+  entity: AuditEntity;
+  recordId: string;
+  action: Exclude<AuditAction, "revert">;
+  /** The record as it was before the write (omit for creates). */
+  before?: object | null;
+  /** The attributes written (for updates, just the patch; omit for deletes). */
+  after?: object | null;
+  actor?: string | null;
+  source: AuditSource;
+  sourceDetail?: string | null;
+  recordLabel?: string | null;
+  now?: number;
+};
+
+// Bookkeeping timestamps change on every write and would drown out real edits;
+// `raw` is the provider payload an import can always re-fetch.
+const IGNORED_FIELDS = new Set(["id", "updatedAt", "lastUpdated", "lastSyncedAt", "queueSortKey", "raw"]);
+const PARTIAL_FIELDS = new Set(["data", "marginOfError", "counts"]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const normalize = (value: unknown): unknown => (value === undefined ? null : value);
+
+export const isSameValue = (left: unknown, right: unknown): boolean =>
+  JSON.stringify(normalize(left)) === JSON.stringify(normalize(right));
+
+const diffKeyedMap = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): AuditFieldChange | null => {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (isSameValue(before[key], after[key])) continue;
+    if (key in before) changedBefore[key] = before[key];
+    if (key in after) changedAfter[key] = after[key];
+  }
+  if (Object.keys(changedBefore).length === 0 && Object.keys(changedAfter).length === 0) return null;
+  return { before: changedBefore, after: changedAfter, partial: true };
+};
+
+/** Field-level before/after for every attribute that actually changes. */
+export const diffRecord = (
+  beforeRecord: object | null | undefined,
+  afterRecord: object | null | undefined,
+): AuditChanges => {
+  const before = beforeRecord as Record<string, unknown> | null | undefined;
+  const after = afterRecord as Record<string, unknown> | null | undefined;
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    // Updates only touch the fields in the patch.
+    if (before && after && !(field in after)) continue;
+    const prev = normalize(before?.[field]);
+    const next = normalize(after?.[field]);
+    if (isSameValue(prev, next)) continue;
+    if (PARTIAL_FIELDS.has(field) && isPlainObject(prev) && isPlainObject(next)) {
+      const change = diffKeyedMap(prev, next);
+      if (change) changes[field] = change;
+      continue;
+    }
+    changes[field] = { before: prev, after: next };
+  }
+  return changes;
+};
+
+const labelFrom = (record: object | null | undefined): string | null => {
+  if (!record) return null;
+  for (const key of ["name", "label", "title", "statTitle"]) {
+    const value = (record as Record<string, unknown>)[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return null;
+};
+
+/**
+ * Builds the `auditLog` attributes for one write, or null when the write
+ * changes nothing worth recording.
+ */
+export const buildAuditRecord = ({
+  entity,
+  recordId,
+  action,
+  before = null,
+  after = null,
+  actor = null,
+  source,
+  sourceDetail = null,
+  recordLabel,
+  now = Date.now(),
+}: AuditRecordInput): AuditRecord | null => {
+  const changes = diffRecord(action === "create" ? null : before, action === "delete" ? null : after);
+  if (Object.keys(changes).length === 0) return null;
+  return {
+    entity,
+    recordId,
+    recordLabel: recordLabel ?? labelFrom(after) ?? labelFrom(before),
+    action,
+    changes,
+    actor,
+    source,
+    sourceDetail,
+    revertOf: null,
+    createdAt: now,
+  };
+};
+
+/** `record` as InstantDB attributes: optional fields are left unset rather than null. */
+export const toAuditAttrs = (record: AuditRecord) => ({
+  ...record,
+  recordLabel: record.recordLabel ?? undefined,
+  actor: record.actor ?? undefined,
+  sourceDetail: record.sourceDetail ?? undefined,
+  revertOf: record.revertOf ?? undefined,
+});
+
+/**
+ * Attributes that undo one field of a logged change, given the record as it
+ * is now. Partial map changes are merged back key by key so later edits to
+ * other areas survive.
+ */
+export const buildRevertPatch = (
+  change: AuditFieldChange,
+  field: string,
+  current: object | null | undefined,
+): Record<string, unknown> => {
+  if (!change.partial) return { [field]: change.before ?? null };
+  const currentValue = (current as Record<string, unknown> | null | undefined)?.[field];
+  const merged: Record<string, unknown> = isPlainObject(currentValue) ? { ...currentValue } : {};
+  const before = isPlainObject(change.before) ? change.before : {};
+  const after = isPlainObject(change.after) ? change.after : {};
+  for (const key of Object.keys(after)) {
+    if (!(key in before)) delete merged[key];
+  }
+  Object.assign(merged, before);
+  return { [field]: merged };
+};
+
+/** Attributes that bring a deleted record back from its delete entry. */
+export const buildRestorePatch = (changes: AuditChanges): Record<string, unknown> => {
+  const patch: Record<string, unknown> = {};
+  for (const [field, change] of Object.entries(changes)) {
+    if (change.before !== null && change.before !== undefined) patch[field] = change.before;
+  }
+  return patch;
+};
+
+/** Log row for a one-click revert of `field` from entry `revertOf`. */
+export const buildRevertRecord = (
+  entry: Pick<AuditRecord, "entity" | "recordId" | "recordLabel">,
+  revertOf: string,
+  changes: AuditChanges,
+  { actor = null, now = Date.now() }: { actor?: string | null; now?: number } = {},
+): AuditRecord => ({
+  entity: entry.entity,
+  recordId: entry.recordId,
+  recordLabel: entry.recordLabel,
+  action: "revert",
+  changes,
+  actor,
+  source: "ui",
+  sourceDetail: "history",
+  revertOf,
+  createdAt: now,
+});
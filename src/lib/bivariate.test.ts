@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { BIVARIATE_COLORS, buildBivariateColorsByArea, getBivariateClass, getBivariateColor } from "./bivariate";
+
+describe("bivariate classes", () => {
+  it("clamps classes into the 3×3 grid", () => {
+    expect(getBivariateClass(1, [5, 10])).toBe(0);
+    expect(getBivariateClass(7, [5, 10])).toBe(1);
+    expect(getBivariateClass(50, [5, 10, 20])).toBe(2);
+    expect(getBivariateColor(5, -1)).toBe(BIVARIATE_COLORS[2][0]);
+  });
+
+  it("colors only areas with both values", () => {
+    const colors = buildBivariateColorsByArea(
+      { a: 1, b: 20, c: 7 },
+      { a: 100, b: 1, d: 5 },
+      [5, 10],
+      [10, 50],
+    );
+    expect(colors).toEqual({
+      a: BIVARIATE_COLORS[0][2],
+      b: BIVARIATE_COLORS[2][0],
+    });
+  });
+});
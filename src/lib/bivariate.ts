@@ -0,0 +1,46 @@
+import { getClassIndexFromBreaks } from "./choropleth";
+
+export const BIVARIATE_CLASSES = 3;
+
+// 3×3 bivariate palette indexed [primaryClass][secondaryClass], low -> high.
+// Primary runs along the purple axis, secondary along teal, so the diagonal
+// darkens where both stats are high.
+export const BIVARIATE_COLORS: string[][] = [
+  ["#e8e8e8", "#ace4e4", "#5ac8c8"],
+  ["#dfb0d6", "#a5add3", "#5698b9"],
+  ["#be64ac", "#8c62aa", "#3b4994"],
+];
+
+export const BIVARIATE_CLASS_LABELS = ["Low", "Mid", "High"];
+
+export const getBivariateClass = (value: number, breaks: number[]): number =>
+  Math.min(BIVARIATE_CLASSES - 1, getClassIndexFromBreaks(value, breaks));
+
+export const getBivariateColor = (primaryClass: number, secondaryClass: number): string => {
+  const row = BIVARIATE_COLORS[Math.max(0, Math.min(BIVARIATE_CLASSES - 1, primaryClass))];
+  return row[Math.max(0, Math.min(BIVARIATE_CLASSES - 1, secondaryClass))];
+};
+
+/**
+ * Fill color per area for areas that have finite values for both stats.
+ * Areas missing either value are left out so callers can hide them.
+ */
+export const buildBivariateColorsByArea = (
+  primaryData: Record<string, number>,
+  secondaryData: Record<string, number>,
+  primaryBreaks: number[],
+  secondaryBreaks: number[],
+): Record<string, string> => {
+  const colors: Record<string, string> = {};
+  for (const [id, primaryValue] of Object.entries(primaryData)) {
+    const secondaryValue = secondaryData[id];
+    if (!Number.isFinite(primaryValue) || typeof secondaryValue !== "number" || !Number.isFinite(secondaryValue)) {
+      continue;
+    }
+    colors[id] = getBivariateColor(
+      getBivariateClass(primaryValue, primaryBreaks),
+      getBivariateClass(secondaryValue, secondaryBreaks),
+    );
+  }
+  return colors;
+};
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { getClassIndex } from './choropleth';
+import {
+  computeClassBreaks,
+  getClassColors,
+  getClassIndex,
+  getClassIndexFromBreaks,
+  normalizeClassificationMethod,
+  normalizeManualBreaks,
+} from './choropleth';
 
 describe('getClassIndex', () => {
   it('returns 0 for non-finite values', () => {
@@ -22,4 +29,72 @@ describe('getClassIndex', () => {
   });
 });
 
+describe('computeClassBreaks', () => {
+  const skewed = [1, 2, 3, 4, 5, 6, 7, 8, 9, 1000];
 
+  it('splits the range into equal intervals', () => {
+    expect(computeClassBreaks([0, 10], 5, 'equal_interval')).toEqual([2, 4, 6, 8]);
+  });
+
+  it('respects an explicit legend range', () => {
+    expect(computeClassBreaks([5], 2, 'equal_interval', { min: 0, max: 100 })).toEqual([50]);
+  });
+
+  it('puts roughly equal counts in each quantile class', () => {
+    const breaks = computeClassBreaks(skewed, 5, 'quantile');
+    expect(breaks).toEqual([3, 5, 7, 9]);
+    const counts = new Array(breaks.length + 1).fill(0);
+    for (const v of skewed) counts[getClassIndexFromBreaks(v, breaks)] += 1;
+    expect(counts).toEqual([2, 2, 2, 2, 2]);
+  });
+
+  it('isolates outliers with natural breaks', () => {
+    expect(computeClassBreaks([1, 2, 3, 10, 11, 12, 50, 51], 3, 'jenks')).toEqual([10, 50]);
+    const breaks = computeClassBreaks(skewed, 3, 'jenks');
+    expect(getClassIndexFromBreaks(1000, breaks)).toBe(breaks.length);
+    expect(getClassIndexFromBreaks(9, breaks)).toBeLessThan(breaks.length);
+  });
+
+  it('centres standard deviation classes on the mean', () => {
+    const values = [2, 4, 4, 4, 5, 5, 7, 9]; // mean 5, sd 2
+    expect(computeClassBreaks(values, 3, 'std_dev')).toEqual([4, 6]);
+  });
+
+  it('uses manual breaks as given and falls back to equal intervals without them', () => {
+    expect(computeClassBreaks(skewed, 7, 'manual', { manualBreaks: [50, 5, 5, 10] })).toEqual([5, 10, 50]);
+    expect(computeClassBreaks([0, 10], 2, 'manual')).toEqual([5]);
+  });
+
+  it('drops duplicate breaks for constant data', () => {
+    expect(computeClassBreaks([4, 4, 4], 7, 'quantile')).toEqual([]);
+    expect(computeClassBreaks([], 7, 'jenks')).toEqual([]);
+  });
+});
+
+describe('getClassIndexFromBreaks', () => {
+  it('places values at a break in the upper class', () => {
+    expect(getClassIndexFromBreaks(0, [5, 10])).toBe(0);
+    expect(getClassIndexFromBreaks(5, [5, 10])).toBe(1);
+    expect(getClassIndexFromBreaks(12, [5, 10])).toBe(2);
+    expect(getClassIndexFromBreaks(NaN, [5, 10])).toBe(0);
+  });
+});
+
+describe('getClassColors', () => {
+  const palette = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+
+  it('spreads fewer classes across the full palette', () => {
+    expect(getClassColors([1, 2], palette)).toEqual(['a', 'd', 'g']);
+    expect(getClassColors([1, 2, 3, 4, 5, 6], palette)).toEqual(palette);
+  });
+});
+
+describe('classification settings parsing', () => {
+  it('normalizes methods and manual breaks', () => {
+    expect(normalizeClassificationMethod('jenks')).toBe('jenks');
+    expect(normalizeClassificationMethod('bogus')).toBeNull();
+    expect(normalizeManualBreaks('10, 5 20')).toEqual([5, 10, 20]);
+    expect(normalizeManualBreaks([3, 'x', 1])).toEqual([1, 3]);
+    expect(normalizeManualBreaks('')).toBeNull();
+  });
+});
@@ -80,3 +80,204 @@ export const getDivergingColor = (
     return negColors[Math.min(negColors.length - 1, Math.max(0, idx))];
   }
 };
+
+export type ClassificationMethod = "equal_interval" | "quantile" | "jenks" | "std_dev" | "manual";
+
+export const DEFAULT_CLASSIFICATION_METHOD: ClassificationMethod = "equal_interval";
+
+export const CLASSIFICATION_METHOD_LABELS: Record<ClassificationMethod, string> = {
+  equal_interval: "Equal interval",
+  quantile: "Quantile",
+  jenks: "Natural breaks (Jenks)",
+  std_dev: "Standard deviation",
+  manual: "Manual breaks",
+};
+
+/**
+ * Map-wide classification setting: follow each stat's stored method, or force
+ * one method for every stat. Manual breaks only make sense per stat.
+ */
+export type MapClassificationMode = "per_stat" | Exclude<ClassificationMethod, "manual">;
+
+const CLASSIFICATION_METHOD_VALUES = new Set<ClassificationMethod>(
+  Object.keys(CLASSIFICATION_METHOD_LABELS) as ClassificationMethod[],
+);
+
+export const normalizeClassificationMethod = (value: unknown): ClassificationMethod | null => {
+  if (typeof value !== "string") return null;
+  return CLASSIFICATION_METHOD_VALUES.has(value as ClassificationMethod) ? (value as ClassificationMethod) : null;
+};
+
+/** Accepts a number array or a comma/space separated string; returns sorted unique finite breaks. */
+export const normalizeManualBreaks = (value: unknown): number[] | null => {
+  const raw: unknown[] = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(/[\s,;]+/).filter((part) => part.length > 0).map((part) => Number(part))
+      : [];
+  const finite = raw.filter((v): v is number => typeof v === "number" && Number.isFinite(v));
+  if (finite.length === 0) return null;
+  return Array.from(new Set(finite)).sort((a, b) => a - b);
+};
+
+export interface ClassBreakOptions {
+  /** Legend range; defaults to the min/max of `values`. */
+  min?: number;
+  max?: number;
+  manualBreaks?: number[] | null;
+}
+
+// Fisher-Jenks gets quadratic in the number of values; classify an evenly
+// spaced sample of the sorted values beyond this size.
+const JENKS_MAX_SAMPLE = 1000;
+
+const sampleSorted = (sorted: number[], size: number): number[] => {
+  if (sorted.length <= size) return sorted;
+  const out: number[] = [];
+  const step = (sorted.length - 1) / (size - 1);
+  for (let i = 0; i < size; i += 1) out.push(sorted[Math.round(i * step)]);
+  return out;
+};
+
+const equalIntervalBreaks = (min: number, max: number, numClasses: number): number[] => {
+  const range = max - min;
+  if (range <= 0) return [];
+  const breaks: number[] = [];
+  for (let k = 1; k < numClasses; k += 1) breaks.push(min + (range * k) / numClasses);
+  return breaks;
+};
+
+const quantileBreaks = (sorted: number[], numClasses: number): number[] => {
+  const breaks: number[] = [];
+  for (let k = 1; k < numClasses; k += 1) {
+    const idx = Math.min(sorted.length - 1, Math.ceil((k * sorted.length) / numClasses));
+    breaks.push(sorted[idx]);
+  }
+  return breaks;
+};
+
+// Fisher-Jenks optimal classification: minimises the sum of squared
+// deviations from class means. Returns the lower bound of classes 2..k.
+const jenksBreaks = (sorted: number[], numClasses: number): number[] => {
+  const data = sampleSorted(sorted, JENKS_MAX_SAMPLE);
+  const n = data.length;
+  const k = Math.min(numClasses, n);
+  if (k <= 1) return [];
+
+  // lowerClassLimits[i][j]: 1-based index of the first value of class j when
+  // the first i values are split into j classes.
+  const lowerClassLimits: number[][] = [];
+  const variance: number[][] = [];
+  for (let i = 0; i <= n; i += 1) {
+    lowerClassLimits.push(new Array(k + 1).fill(0));
+    variance.push(new Array(k + 1).fill(i === 0 ? 0 : Number.POSITIVE_INFINITY));
+  }
+  for (let j = 1; j <= k; j += 1) {
+    lowerClassLimits[1][j] = 1;
+    variance[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l += 1) {
+    let sum = 0;
+    let sumSquares = 0;
+    let w = 0;
+    let v = 0;
+    for (let m = 1; m <= l; m += 1) {
+      const lowerIndex = l - m + 1;
+      const value = data[lowerIndex - 1];
+      w += 1;
+      sum += value;
+      sumSquares += value * value;
+      v = sumSquares - (sum * sum) / w;
+      const prev = lowerIndex - 1;
+      if (prev !== 0) {
+        for (let j = 2; j <= k; j += 1) {
+          if (variance[l][j] >= v + variance[prev][j - 1]) {
+            lowerClassLimits[l][j] = lowerIndex;
+            variance[l][j] = v + variance[prev][j - 1];
+          }
+        }
+      }
+    }
+    lowerClassLimits[l][1] = 1;
+    variance[l][1] = v;
+  }
+
+  const breaks: number[] = [];
+  let upper = n;
+  for (let j = k; j >= 2; j -= 1) {
+    const lowerIndex = lowerClassLimits[upper][j];
+    breaks.unshift(data[lowerIndex - 1]);
+    upper = lowerIndex - 1;
+  }
+  return breaks;
+};
+
+const stdDevBreaks = (values: number[], numClasses: number): number[] => {
+  const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+  const variance = values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length;
+  const sd = Math.sqrt(variance);
+  if (sd === 0) return [];
+  // Centre the middle class on the mean, one standard deviation wide.
+  const offset = (numClasses - 2) / 2;
+  const breaks: number[] = [];
+  for (let i = 0; i < numClasses - 1; i += 1) breaks.push(mean + sd * (i - offset));
+  return breaks;
+};
+
+/**
+ * Interior class thresholds for `values` (ascending, unique, strictly inside
+ * the legend range). A value falls in class `i` when it is at or above
+ * `breaks[i - 1]` and below `breaks[i]`; see `getClassIndexFromBreaks`.
+ * Methods can yield fewer than `numClasses - 1` breaks when values repeat.
+ */
+export const computeClassBreaks = (
+  values: number[],
+  numClasses: number,
+  method: ClassificationMethod,
+  options: ClassBreakOptions = {},
+): number[] => {
+  const finite = values.filter((v) => Number.isFinite(v));
+  const sorted = [...finite].sort((a, b) => a - b);
+  const min = Number.isFinite(options.min) ? (options.min as number) : sorted[0];
+  const max = Number.isFinite(options.max) ? (options.max as number) : sorted[sorted.length - 1];
+  if (!Number.isFinite(min) || !Number.isFinite(max) || numClasses <= 1) return [];
+
+  let breaks: number[];
+  if (method === "manual") {
+    const manual = normalizeManualBreaks(options.manualBreaks);
+    if (manual) return manual.slice(0, numClasses - 1);
+    breaks = equalIntervalBreaks(min, max, numClasses);
+  } else if (sorted.length === 0 || method === "equal_interval") {
+    breaks = equalIntervalBreaks(min, max, numClasses);
+  } else if (method === "quantile") {
+    breaks = quantileBreaks(sorted, numClasses);
+  } else if (method === "jenks") {
+    breaks = jenksBreaks(sorted, numClasses);
+  } else {
+    breaks = stdDevBreaks(sorted, numClasses);
+  }
+
+  return Array.from(new Set(breaks))
+    .filter((b) => b > min && b <= max)
+    .sort((a, b) => a - b);
+};
+
+export const getClassIndexFromBreaks = (value: number, breaks: number[]): number => {
+  if (!Number.isFinite(value)) return 0;
+  let index = 0;
+  while (index < breaks.length && value >= breaks[index]) index += 1;
+  return index;
+};
+
+/** Spreads a palette over `breaks.length + 1` classes, keeping both ends of the ramp. */
+export const getClassColors = (breaks: number[], colors: string[]): string[] => {
+  const classCount = breaks.length + 1;
+  if (classCount >= colors.length) return colors.slice(0, classCount);
+  if (classCount === 1) return [colors[Math.floor((colors.length - 1) / 2)]];
+  const out: string[] = [];
+  for (let i = 0; i < classCount; i += 1) {
+    out.push(colors[Math.round((i * (colors.length - 1)) / (classCount - 1))]);
+  }
+  return out;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import { convertStatDataByCrosswalk, countCrosswalkTargets, parseCrosswalkCsv } from "./crosswalk";
+
+const HUD_COUNTY_CSV = [
+  "ZIP,COUNTY,USPS_ZIP_PREF_CITY,USPS_ZIP_PREF_STATE,RES_RATIO,BUS_RATIO,OTH_RATIO,TOT_RATIO",
+  '74103,40143,"TULSA",OK,0.75,0.9,0.5,0.8',
+  "74103,40113,TULSA,OK,0.25,0.1,0.5,0.2",
+  "74104,40143,TULSA,OK,1,1,1,1",
+  "74105,40143,TULSA,OK,0,1,0,0.5",
+].join("\n");
+
+const crosswalk = parseCrosswalkCsv(HUD_COUNTY_CSV);
+
+describe("crosswalk", () => {
+  it("parses HUD residential ratios and infers the target type", () => {
+    expect(crosswalk.targetType).toBe("COUNTY");
+    // ZIPs with no residential addresses are left out.
+    expect(crosswalk.ratios).toEqual({
+      "74103": { "40143": 0.75, "40113": 0.25 },
+      "74104": { "40143": 1 },
+    });
+    expect(countCrosswalkTargets(crosswalk)).toBe(2);
+  });
+
+  it("restores leading zeros dropped by spreadsheets", () => {
+    const tracts = parseCrosswalkCsv("zip,tract,res_ratio\n501,1001020100,1");
+    expect(tracts).toEqual({ targetType: "TRACT", ratios: { "00501": { "01001020100": 1 } } });
+    expect(() => parseCrosswalkCsv("ZIP,COUNTY\n74103,40143")).toThrow("RES_RATIO");
+  });
+
+  it("splits counts by residential share", () => {
+    const result = convertStatDataByCrosswalk({ "74103": 200, "74104": 50, "99999": 5 }, crosswalk, {
+      mode: "sum",
+      marginOfError: { "74103": 40, "74104": 30 },
+    });
+    expect(result.data).toEqual({ "40143": 200, "40113": 50 });
+    expect(result.marginOfError["40143"]).toBeCloseTo(Math.sqrt(30 ** 2 + 30 ** 2));
+    expect(result.marginOfError["40113"]).toBeCloseTo(10);
+  });
+
+  it("population-weights rates across the ZIPs feeding each area", () => {
+    const result = convertStatDataByCrosswalk({ "74103": 0.2, "74104": 0.5 }, crosswalk, {
+      mode: "weighted",
+      weights: { "74103": 1000, "74104": 250 },
+    });
+    // 40143 gets 750 people at 20% and 250 people at 50%.
+    expect(result.data["40143"]).toBeCloseTo((0.2 * 750 + 0.5 * 250) / 1000);
+    expect(result.data["40113"]).toBeCloseTo(0.2);
+    expect(result.marginOfError).toEqual({});
+  });
+});
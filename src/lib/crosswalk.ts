@@ -0,0 +1,176 @@
+import { moeOfSum } from "./marginOfError.ts";
+
+export type CrosswalkTargetType = "COUNTY" | "TRACT";
+
+/**
+ * How ZIP values are apportioned:
+ * - `sum`: counts are split by each target's share of the ZIP's addresses.
+ * - `weighted`: rates, percents and medians average across contributing ZIPs,
+ *   weighted by the share times the ZIP's population (or denominator).
+ */
+export type CrosswalkMode = "sum" | "weighted";
+
+export interface Crosswalk {
+  targetType: CrosswalkTargetType;
+  /** ZIP -> target area -> share of the ZIP's residential addresses in that area. */
+  ratios: Record<string, Record<string, number>>;
+}
+
+export interface CrosswalkConversion {
+  data: Record<string, number>;
+  marginOfError: Record<string, number>;
+}
+
+// HUD USPS crosswalks name the target column after the geography.
+const TARGET_COLUMNS: Record<CrosswalkTargetType, string[]> = {
+  COUNTY: ["COUNTY", "COUNTY_FIPS", "GEOID"],
+  TRACT: ["TRACT", "TRACT_GEOID", "GEOID"],
+};
+const TARGET_ID_LENGTH: Record<CrosswalkTargetType, number> = { COUNTY: 5, TRACT: 11 };
+const ZIP_COLUMNS = ["ZIP", "ZIP_CODE", "ZCTA", "ZCTA5"];
+const RATIO_COLUMNS = ["RES_RATIO", "TOT_RATIO"];
+
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map((value) => value.trim());
+};
+
+// Spreadsheets drop leading zeros from FIPS codes and ZIPs; pad them back.
+const normalizeCode = (value: string | undefined, length: number): string | null => {
+  const digits = (value ?? "").replace(/\.0+$/, "");
+  if (!/^\d+$/.test(digits) || digits.length > length) return null;
+  return digits.padStart(length, "0");
+};
+
+const findColumn = (header: string[], candidates: string[]): number => {
+  for (const candidate of candidates) {
+    const index = header.indexOf(candidate);
+    if (index >= 0) return index;
+  }
+  return -1;
+};
+
+/**
+ * Parses a ZIP-to-county or ZIP-to-tract crosswalk (HUD USPS layout: ZIP,
+ * COUNTY|TRACT, RES_RATIO, …). The target type is inferred from the header
+ * unless given. Ratios for a ZIP that appears more than once are added.
+ */
+export const parseCrosswalkCsv = (text: string, targetType?: CrosswalkTargetType): Crosswalk => {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) throw new Error("Crosswalk file is empty.");
+  const header = splitCsvLine(lines[0]).map((name) => name.toUpperCase());
+
+  const zipIndex = findColumn(header, ZIP_COLUMNS);
+  if (zipIndex < 0) throw new Error("Crosswalk file needs a ZIP column.");
+  const resolvedType =
+    targetType ?? (header.includes("TRACT") ? "TRACT" : header.includes("COUNTY") ? "COUNTY" : null);
+  if (!resolvedType) throw new Error("Crosswalk file needs a COUNTY or TRACT column.");
+  const targetIndex = findColumn(header, TARGET_COLUMNS[resolvedType]);
+  if (targetIndex < 0) throw new Error(`Crosswalk file needs a ${resolvedType} column.`);
+  const ratioIndex = findColumn(header, RATIO_COLUMNS);
+  if (ratioIndex < 0) throw new Error("Crosswalk file needs a RES_RATIO column.");
+
+  const ratios: Record<string, Record<string, number>> = {};
+  let pairCount = 0;
+  for (const line of lines.slice(1)) {
+    const fields = splitCsvLine(line);
+    const zip = normalizeCode(fields[zipIndex], 5);
+    const target = normalizeCode(fields[targetIndex], TARGET_ID_LENGTH[resolvedType]);
+    const ratio = Number(fields[ratioIndex]);
+    if (!zip || !target || !Number.isFinite(ratio) || ratio <= 0) continue;
+    const byTarget = (ratios[zip] ??= {});
+    if (byTarget[target] === undefined) pairCount += 1;
+    byTarget[target] = (byTarget[target] ?? 0) + ratio;
+  }
+  if (pairCount === 0) throw new Error("Crosswalk file has no rows with a positive residential ratio.");
+  return { targetType: resolvedType, ratios };
+};
+
+/** Number of target areas any ZIP in the crosswalk reaches. */
+export const countCrosswalkTargets = (crosswalk: Crosswalk): number => {
+  const targets = new Set<string>();
+  for (const byTarget of Object.values(crosswalk.ratios)) {
+    for (const target of Object.keys(byTarget)) targets.add(target);
+  }
+  return targets.size;
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Converts ZIP-level values (and margins of error, when present) to the
+ * crosswalk's target areas. ZIPs missing from the crosswalk are dropped; in
+ * `weighted` mode a ZIP without a positive weight is skipped when weights are
+ * given, and every ZIP counts equally when they aren't.
+ */
+export const convertStatDataByCrosswalk = (
+  data: Record<string, number>,
+  crosswalk: Crosswalk,
+  {
+    mode,
+    weights,
+    marginOfError,
+  }: {
+    mode: CrosswalkMode;
+    weights?: Record<string, number> | null;
+    marginOfError?: Record<string, number> | null;
+  },
+): CrosswalkConversion => {
+  const totals = new Map<
+    string,
+    { value: number; weight: number; zipCount: number; moes: Array<{ moe: number; share: number }> }
+  >();
+  for (const [zip, value] of Object.entries(data)) {
+    const byTarget = crosswalk.ratios[zip];
+    if (!byTarget || !isFiniteNumber(value)) continue;
+    const zipWeight = weights ? weights[zip] : 1;
+    if (mode === "weighted" && !(isFiniteNumber(zipWeight) && zipWeight > 0)) continue;
+    const moe = marginOfError?.[zip];
+    for (const [target, ratio] of Object.entries(byTarget)) {
+      const share = mode === "sum" ? ratio : ratio * zipWeight;
+      const entry = totals.get(target) ?? { value: 0, weight: 0, zipCount: 0, moes: [] };
+      entry.value += value * share;
+      entry.weight += share;
+      entry.zipCount += 1;
+      if (isFiniteNumber(moe)) entry.moes.push({ moe, share });
+      totals.set(target, entry);
+    }
+  }
+
+  const out: CrosswalkConversion = { data: {}, marginOfError: {} };
+  for (const [target, entry] of totals) {
+    if (entry.weight <= 0) continue;
+    const divisor = mode === "sum" ? 1 : entry.weight;
+    out.data[target] = entry.value / divisor;
+    // Each ZIP's share is a constant multiple of its estimate, so scale its MOE
+    // the same way and combine as a sum. Only when every contributing ZIP has one.
+    if (entry.moes.length > 0 && entry.moes.length === entry.zipCount) {
+      const moe = moeOfSum(entry.moes.map(({ moe: zipMoe, share }) => (zipMoe * share) / divisor));
+      if (moe != null) out.marginOfError[target] = moe;
+    }
+  }
+  return out;
+};
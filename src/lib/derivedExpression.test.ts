@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  evaluateDerivedExpression,
+  formatDerivedExpression,
+  parseDerivedExpression,
+  resolveDerivedExpressionReferences,
+} from "./derivedExpression";
+
+const evaluate = (source: string, values: Record<string, number>) => {
+  const parsed = parseDerivedExpression(source);
+  if (!parsed.ok) throw new Error(parsed.error);
+  return evaluateDerivedExpression(parsed.ast, (reference) => values[reference]);
+};
+
+describe("parseDerivedExpression", () => {
+  it("respects precedence, parentheses, and unary minus", () => {
+    expect(evaluate("(A + B) / (C - D) * 100", { A: 3, B: 1, C: 10, D: 2 })).toBe(50);
+    expect(evaluate("A + B * 2", { A: 1, B: 3 })).toBe(7);
+    expect(evaluate("A - B - C", { A: 10, B: 3, C: 2 })).toBe(5);
+    expect(evaluate("-A + 1.5e1", { A: 5 })).toBe(10);
+    expect(evaluate("A ÷ B × 1000", { A: 1, B: 4 })).toBe(250);
+  });
+
+  it("lists references in first-use order, keeping brackets on ids", () => {
+    const parsed = parseDerivedExpression("B / (A + [stat-123]) + B");
+    expect(parsed.ok && parsed.references).toEqual(["B", "A", "[stat-123]"]);
+  });
+
+  it("reports syntax errors with a position instead of throwing", () => {
+    expect(parseDerivedExpression("(A + B")).toMatchObject({ ok: false, error: "Missing closing parenthesis." });
+    expect(parseDerivedExpression("A B")).toMatchObject({ ok: false, error: "Expected an operator.", position: 2 });
+    expect(parseDerivedExpression("A + ;")).toMatchObject({ ok: false, position: 4 });
+    expect(parseDerivedExpression("2 * 3")).toMatchObject({ ok: false });
+    expect(parseDerivedExpression("   ")).toMatchObject({ ok: false, error: "Enter an expression." });
+  });
+
+  it("never evaluates arbitrary code", () => {
+    expect(parseDerivedExpression("constructor.constructor('x')()").ok).toBe(false);
+    expect(parseDerivedExpression("A; process.exit()").ok).toBe(false);
+  });
+});
+
+describe("evaluateDerivedExpression", () => {
+  it("returns null for missing operands and division by zero", () => {
+    expect(evaluate("A / B", { A: 1, B: 0 })).toBeNull();
+    expect(evaluate("A + B", { A: 1 })).toBeNull();
+  });
+});
+
+describe("resolveDerivedExpressionReferences", () => {
+  it("resolves aliases case-insensitively and bracketed ids directly", () => {
+    const parsed = parseDerivedExpression("a / [stat-2] + Z");
+    if (!parsed.ok) throw new Error(parsed.error);
+    const resolved = resolveDerivedExpressionReferences(parsed.ast, { A: "stat-1" });
+    expect(Array.from(resolved.statIdByReference.entries())).toEqual([
+      ["a", "stat-1"],
+      ["[stat-2]", "stat-2"],
+    ]);
+    expect(resolved.unknown).toEqual(["Z"]);
+  });
+});
+
+describe("formatDerivedExpression", () => {
+  it("keeps only the parentheses needed to preserve meaning", () => {
+    const parsed = parseDerivedExpression("((A + B)) / (C - (D - E)) * 100");
+    if (!parsed.ok) throw new Error(parsed.error);
+    expect(formatDerivedExpression(parsed.ast)).toBe("(A + B) ÷ (C − (D − E)) × 100");
+  });
+});
@@ -0,0 +1,370 @@
+// Small arithmetic language for derived stats, e.g. `(A + B) / (C - D) * 100`.
+// Expressions are tokenized and parsed into a tree; nothing is ever eval'd.
+// Operands are either aliases (A, B, households_total) resolved through an
+// alias map, or stat ids wrapped in brackets (`[stat-id]`).
+
+import { moeOfProduct, moeOfRatio, moeOfSum } from "./marginOfError.ts";
+
+export type DerivedExpressionNode =
+  | { type: "number"; value: number }
+  | { type: "ref"; name: string; bracketed: boolean }
+  | { type: "negate"; operand: DerivedExpressionNode }
+  | { type: "binary"; op: "+" | "-" | "*" | "/"; left: DerivedExpressionNode; right: DerivedExpressionNode };
+
+export type DerivedExpressionParseResult =
+  | { ok: true; ast: DerivedExpressionNode; references: string[] }
+  | { ok: false; error: string; position: number };
+
+type Token =
+  | { kind: "number"; value: number; position: number }
+  | { kind: "ident"; value: string; position: number; bracketed: boolean }
+  | { kind: "op"; value: "+" | "-" | "*" | "/"; position: number }
+  | { kind: "lparen" | "rparen" | "end"; position: number };
+
+class ParseFailure extends Error {
+  position: number;
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+  }
+}
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i += 1;
+      continue;
+    }
+    if (ch === "+" || ch === "-" || ch === "*" || ch === "/") {
+      tokens.push({ kind: "op", value: ch, position: i });
+      i += 1;
+      continue;
+    }
+    if (ch === "×") {
+      tokens.push({ kind: "op", value: "*", position: i });
+      i += 1;
+      continue;
+    }
+    if (ch === "÷") {
+      tokens.push({ kind: "op", value: "/", position: i });
+      i += 1;
+      continue;
+    }
+    if (ch === "−") {
+      tokens.push({ kind: "op", value: "-", position: i });
+      i += 1;
+      continue;
+    }
+    if (ch === "(") {
+      tokens.push({ kind: "lparen", position: i });
+      i += 1;
+      continue;
+    }
+    if (ch === ")") {
+      tokens.push({ kind: "rparen", position: i });
+      i += 1;
+      continue;
+    }
+    if (ch === "[") {
+      const close = source.indexOf("]", i + 1);
+      if (close === -1) throw new ParseFailure("Missing closing ] for stat id.", i);
+      const id = source.slice(i + 1, close).trim();
+      if (!id) throw new ParseFailure("Empty stat id in [ ].", i);
+      tokens.push({ kind: "ident", value: id, position: i, bracketed: true });
+      i = close + 1;
+      continue;
+    }
+    const numberMatch = /^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i));
+    if (numberMatch) {
+      const value = Number(numberMatch[0]);
+      if (!Number.isFinite(value)) throw new ParseFailure(`Invalid number "${numberMatch[0]}".`, i);
+      tokens.push({ kind: "number", value, position: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+    const identMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (identMatch) {
+      tokens.push({ kind: "ident", value: identMatch[0], position: i, bracketed: false });
+      i += identMatch[0].length;
+      continue;
+    }
+    throw new ParseFailure(`Unexpected character "${ch}".`, i);
+  }
+  tokens.push({ kind: "end", position: source.length });
+  return tokens;
+};
+
+const parseTokens = (tokens: Token[]): DerivedExpressionNode => {
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  const parseExpression = (): DerivedExpressionNode => {
+    let left = parseTerm();
+    for (;;) {
+      const token = peek();
+      if (token.kind !== "op" || (token.value !== "+" && token.value !== "-")) return left;
+      next();
+      left = { type: "binary", op: token.value, left, right: parseTerm() };
+    }
+  };
+
+  const parseTerm = (): DerivedExpressionNode => {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      if (token.kind !== "op" || (token.value !== "*" && token.value !== "/")) return left;
+      next();
+      left = { type: "binary", op: token.value, left, right: parseUnary() };
+    }
+  };
+
+  const parseUnary = (): DerivedExpressionNode => {
+    const token = peek();
+    if (token.kind === "op" && (token.value === "-" || token.value === "+")) {
+      next();
+      const operand = parseUnary();
+      return token.value === "-" ? { type: "negate", operand } : operand;
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): DerivedExpressionNode => {
+    const token = next();
+    switch (token.kind) {
+      case "number":
+        return { type: "number", value: token.value };
+      case "ident":
+        return { type: "ref", name: token.value, bracketed: token.bracketed };
+      case "lparen": {
+        const inner = parseExpression();
+        const closing = next();
+        if (closing.kind !== "rparen") throw new ParseFailure("Missing closing parenthesis.", closing.position);
+        return inner;
+      }
+      case "end":
+        throw new ParseFailure("Expression ends unexpectedly.", token.position);
+      default:
+        throw new ParseFailure("Expected a stat, number, or opening parenthesis.", token.position);
+    }
+  };
+
+  const ast = parseExpression();
+  const trailing = peek();
+  if (trailing.kind !== "end") {
+    throw new ParseFailure(
+      trailing.kind === "rparen" ? "Unmatched closing parenthesis." : "Expected an operator.",
+      trailing.position,
+    );
+  }
+  return ast;
+};
+
+// Bracketed ids keep their brackets so `[A]` and the alias `A` never collide.
+const referenceKey = (node: { name: string; bracketed: boolean }): string =>
+  node.bracketed ? `[${node.name}]` : node.name;
+
+const collectReferences = (node: DerivedExpressionNode, out: string[]): void => {
+  switch (node.type) {
+    case "ref":
+      if (!out.includes(referenceKey(node))) out.push(referenceKey(node));
+      return;
+    case "negate":
+      collectReferences(node.operand, out);
+      return;
+    case "binary":
+      collectReferences(node.left, out);
+      collectReferences(node.right, out);
+      return;
+    case "number":
+      return;
+  }
+};
+
+/**
+ * Parses a derived stat expression. References are returned in first-use order;
+ * bracketed ids keep their brackets (`[stat-id]`).
+ */
+export const parseDerivedExpression = (source: string): DerivedExpressionParseResult => {
+  const trimmed = typeof source === "string" ? source.trim() : "";
+  if (!trimmed) return { ok: false, error: "Enter an expression.", position: 0 };
+  if (trimmed.length > MAX_EXPRESSION_LENGTH) {
+    return { ok: false, error: `Expressions are limited to ${MAX_EXPRESSION_LENGTH} characters.`, position: 0 };
+  }
+  try {
+    const ast = parseTokens(tokenize(trimmed));
+    const references: string[] = [];
+    collectReferences(ast, references);
+    if (references.length === 0) {
+      return { ok: false, error: "Expression must reference at least one stat.", position: 0 };
+    }
+    return { ok: true, ast, references };
+  } catch (error) {
+    if (error instanceof ParseFailure) return { ok: false, error: error.message, position: error.position };
+    throw error;
+  }
+};
+
+/**
+ * Maps each expression reference to a stat id. Aliases are looked up in the
+ * alias map (case-insensitively); bracketed references are taken as ids.
+ */
+export const resolveDerivedExpressionReferences = (
+  ast: DerivedExpressionNode,
+  aliases: Record<string, string | null | undefined> | null | undefined,
+): { statIdByReference: Map<string, string>; unknown: string[] } => {
+  const aliasLookup = new Map<string, string>();
+  for (const [alias, statId] of Object.entries(aliases ?? {})) {
+    const trimmedId = typeof statId === "string" ? statId.trim() : "";
+    if (trimmedId) aliasLookup.set(alias.trim().toLowerCase(), trimmedId);
+  }
+  const statIdByReference = new Map<string, string>();
+  const unknown: string[] = [];
+  const visit = (node: DerivedExpressionNode) => {
+    if (node.type === "ref") {
+      const key = referenceKey(node);
+      if (statIdByReference.has(key)) return;
+      const statId = node.bracketed ? node.name : aliasLookup.get(node.name.toLowerCase());
+      if (statId) statIdByReference.set(key, statId);
+      else if (!unknown.includes(key)) unknown.push(key);
+    } else if (node.type === "negate") {
+      visit(node.operand);
+    } else if (node.type === "binary") {
+      visit(node.left);
+      visit(node.right);
+    }
+  };
+  visit(ast);
+  return { statIdByReference, unknown };
+};
+
+/**
+ * Evaluates the expression for one area. Returns null when an operand is
+ * missing or the result is not finite (e.g. division by zero).
+ */
+export const evaluateDerivedExpression = (
+  node: DerivedExpressionNode,
+  getValue: (reference: string) => number | null | undefined,
+): number | null => {
+  switch (node.type) {
+    case "number":
+      return node.value;
+    case "ref": {
+      const value = getValue(referenceKey(node));
+      return typeof value === "number" && Number.isFinite(value) ? value : null;
+    }
+    case "negate": {
+      const value = evaluateDerivedExpression(node.operand, getValue);
+      return value == null ? null : -value;
+    }
+    case "binary": {
+      const left = evaluateDerivedExpression(node.left, getValue);
+      if (left == null) return null;
+      const right = evaluateDerivedExpression(node.right, getValue);
+      if (right == null) return null;
+      let result: number;
+      switch (node.op) {
+        case "+":
+          result = left + right;
+          break;
+        case "-":
+          result = left - right;
+          break;
+        case "*":
+          result = left * right;
+          break;
+        case "/":
+          if (right === 0) return null;
+          result = left / right;
+          break;
+      }
+      return Number.isFinite(result) ? result : null;
+    }
+  }
+};
+
+/**
+ * Evaluates the expression and propagates margins of error through it: sums and
+ * differences via root-sum-of-squares, products and quotients via the ACS
+ * product/ratio approximations. Numeric literals carry no error. `moe` is null
+ * whenever any referenced operand lacks a margin.
+ */
+export const evaluateDerivedExpressionWithMoe = (
+  node: DerivedExpressionNode,
+  getValue: (reference: string) => number | null | undefined,
+  getMoe: (reference: string) => number | null | undefined,
+): { value: number | null; moe: number | null } => {
+  switch (node.type) {
+    case "number":
+      return { value: node.value, moe: 0 };
+    case "ref": {
+      const key = referenceKey(node);
+      const value = getValue(key);
+      const moe = getMoe(key);
+      return {
+        value: typeof value === "number" && Number.isFinite(value) ? value : null,
+        moe: typeof moe === "number" && Number.isFinite(moe) ? Math.abs(moe) : null,
+      };
+    }
+    case "negate": {
+      const inner = evaluateDerivedExpressionWithMoe(node.operand, getValue, getMoe);
+      return { value: inner.value == null ? null : -inner.value, moe: inner.moe };
+    }
+    case "binary": {
+      const value = evaluateDerivedExpression(node, getValue);
+      if (value == null) return { value: null, moe: null };
+      const left = evaluateDerivedExpressionWithMoe(node.left, getValue, getMoe);
+      const right = evaluateDerivedExpressionWithMoe(node.right, getValue, getMoe);
+      if (left.value == null || right.value == null) return { value, moe: null };
+      let moe: number | null;
+      switch (node.op) {
+        case "+":
+        case "-":
+          moe = moeOfSum([left.moe, right.moe]);
+          break;
+        case "*":
+          moe = moeOfProduct(left.value, left.moe, right.value, right.moe);
+          break;
+        case "/":
+          moe = moeOfRatio(left.value, left.moe, right.value, right.moe);
+          break;
+      }
+      return { value, moe: moe != null && Number.isFinite(moe) ? moe : null };
+    }
+  }
+};
+
+/** Renders an expression back to text, replacing references via `label`. */
+export const formatDerivedExpression = (
+  node: DerivedExpressionNode,
+  label: (reference: string) => string = (reference) => reference,
+): string => {
+  const precedence = (n: DerivedExpressionNode) =>
+    n.type === "binary" ? (n.op === "+" || n.op === "-" ? 1 : 2) : 3;
+  switch (node.type) {
+    case "number":
+      return String(node.value);
+    case "ref":
+      return label(referenceKey(node));
+    case "negate": {
+      const inner = formatDerivedExpression(node.operand, label);
+      return precedence(node.operand) < 3 ? `−(${inner})` : `−${inner}`;
+    }
+    case "binary": {
+      const own = precedence(node);
+      const left = formatDerivedExpression(node.left, label);
+      const right = formatDerivedExpression(node.right, label);
+      const wrapLeft = precedence(node.left) < own;
+      // Right operands of - and / need parens at equal precedence to keep meaning.
+      const wrapRight =
+        precedence(node.right) < own || (precedence(node.right) === own && (node.op === "-" || node.op === "/"));
+      const symbol = node.op === "*" ? "×" : node.op === "/" ? "÷" : node.op === "-" ? "−" : "+";
+      return `${wrapLeft ? `(${left})` : left} ${symbol} ${wrapRight ? `(${right})` : right}`;
+    }
+  }
+};
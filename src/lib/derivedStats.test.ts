@@ -75,6 +75,56 @@ describe("derivedStats helpers", () => {
     ]);
   });
 
+  it("propagates margins of error into derived rows", () => {
+    const rowsByStat = buildRowsByStatId([
+      {
+        statId: "poverty",
+        parentArea: "Oklahoma",
+        boundaryType: "ZIP",
+        date: "2023",
+        data: { "74103": 200, "74104": 50 },
+        marginOfError: { "74103": 30 },
+      },
+      {
+        statId: "population",
+        parentArea: "Oklahoma",
+        boundaryType: "ZIP",
+        date: "2023",
+        data: { "74103": 1000, "74104": 500 },
+        marginOfError: { "74103": 40, "74104": 20 },
+      },
+    ]);
+
+    const [percentRow] = createDerivedStatRows(
+      "percent",
+      { numeratorId: "poverty", denominatorId: "population" },
+      rowsByStat,
+    );
+    expect(percentRow.data).toEqual({ "74103": 0.2, "74104": 0.1 });
+    expect(Object.keys(percentRow.marginOfError ?? {})).toEqual(["74103"]);
+    expect(percentRow.marginOfError?.["74103"]).toBeCloseTo(Math.sqrt(30 ** 2 - 0.04 * 40 ** 2) / 1000);
+
+    const [sumRow] = createDerivedStatRows("sum", { sumOperandIds: ["poverty", "population"] }, rowsByStat);
+    expect(sumRow.marginOfError).toEqual({ "74103": 50 });
+
+    const [expressionRow] = createDerivedStatRows(
+      "expression",
+      { expression: "(A - B) * 2", expressionAliases: { A: "population", B: "poverty" } },
+      rowsByStat,
+    );
+    expect(expressionRow.data).toEqual({ "74103": 1600, "74104": 900 });
+    expect(expressionRow.marginOfError).toEqual({ "74103": 100 });
+  });
+
+  it("omits marginOfError when sources have none", () => {
+    const rowsByStat = buildRowsByStatId([
+      { statId: "a", parentArea: "Oklahoma", boundaryType: "ZIP", date: "2023", data: { "74103": 1 } },
+      { statId: "b", parentArea: "Oklahoma", boundaryType: "ZIP", date: "2023", data: { "74103": 2 } },
+    ]);
+    const [row] = createDerivedStatRows("ratio", { numeratorId: "a", denominatorId: "b" }, rowsByStat);
+    expect(row).not.toHaveProperty("marginOfError");
+  });
+
   it("creates multi-stat sum rows across operand coverage", () => {
     const rowsByStat = buildRowsByStatId([
       {
@@ -103,6 +153,51 @@ describe("derivedStats helpers", () => {
     ]);
   });
 
+  it("evaluates expression rows per area and date", () => {
+    const rowsByStat = buildRowsByStatId([
+      { statId: "a", parentArea: "Oklahoma", boundaryType: "ZIP", date: "2023", data: { "74103": 30, "74104": 5 } },
+      { statId: "b", parentArea: "Oklahoma", boundaryType: "ZIP", date: "2023", data: { "74103": 10, "74104": 5 } },
+      { statId: "c", parentArea: "Oklahoma", boundaryType: "ZIP", date: "2023", data: { "74103": 100, "74104": 20 } },
+      { statId: "d", parentArea: "Oklahoma", boundaryType: "ZIP", date: "2023", data: { "74103": 20, "74104": 20 } },
+    ]);
+
+    expect(
+      createDerivedStatRows(
+        "expression",
+        {
+          expression: "(A + B) / (C - D) * 100",
+          expressionAliases: { A: "a", B: "b", C: "c", D: "d" },
+        },
+        rowsByStat,
+      ),
+    ).toEqual([
+      {
+        parentArea: "Oklahoma",
+        boundaryType: "ZIP",
+        date: "2023",
+        data: { "74103": 50 },
+      },
+    ]);
+  });
+
+  it("rejects expressions whose stats cover different years", () => {
+    const rowsByStat = buildRowsByStatId([
+      { statId: "a", parentArea: "Oklahoma", boundaryType: "ZIP", date: "2022", data: { "74103": 1 } },
+      { statId: "b", parentArea: "Oklahoma", boundaryType: "ZIP", date: "2023", data: { "74103": 2 } },
+    ]);
+
+    expect(() =>
+      createDerivedStatRows(
+        "expression",
+        { expression: "A / B", expressionAliases: { A: "a", B: "b" } },
+        rowsByStat,
+      ),
+    ).toThrow("These stats can't be combined: they have different years (A: 2022, B: 2023).");
+    expect(() =>
+      createDerivedStatRows("expression", { expression: "A / Q", expressionAliases: { A: "a" } }, rowsByStat),
+    ).toThrow("Unknown stat reference: Q.");
+  });
+
   it("creates change-over-time rows by context", () => {
     const rowsByStat = buildRowsByStatId([
       {
@@ -136,4 +231,37 @@ describe("derivedStats helpers", () => {
       },
     ]);
   });
+
+  it("apportions ZIP rows to counties through a crosswalk", () => {
+    const rowsByStat = buildRowsByStatId([
+      {
+        statId: "households",
+        parentArea: "Oklahoma",
+        boundaryType: "ZIP",
+        date: "2023",
+        data: { "74103": 100, "74104": 50 },
+      },
+      {
+        statId: "households",
+        parentArea: "Tulsa",
+        boundaryType: "ZIP",
+        date: "2023",
+        data: { "74103": 100 },
+      },
+      { statId: "households", parentArea: "Oklahoma", boundaryType: "COUNTY", date: "2023", data: { "40143": 1 } },
+    ]);
+    const crosswalk = {
+      targetType: "COUNTY" as const,
+      ratios: { "74103": { "40143": 0.75, "40113": 0.25 }, "74104": { "40143": 1 } },
+    };
+
+    expect(
+      createDerivedStatRows("crosswalk", { numeratorId: "households", crosswalk, crosswalkMode: "sum" }, rowsByStat),
+    ).toEqual([
+      { parentArea: "Oklahoma", boundaryType: "COUNTY", date: "2023", data: { "40143": 125, "40113": 25 } },
+    ]);
+    expect(() => createDerivedStatRows("crosswalk", { numeratorId: "households" }, rowsByStat)).toThrow(
+      "Load a crosswalk file first.",
+    );
+  });
 });
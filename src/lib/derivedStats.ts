@@ -1,8 +1,18 @@
+import {
+  evaluateDerivedExpressionWithMoe,
+  parseDerivedExpression,
+  resolveDerivedExpressionReferences,
+} from "./derivedExpression.ts";
+import { convertStatDataByCrosswalk, type Crosswalk, type CrosswalkMode } from "./crosswalk.ts";
+import { moeOfProportion, moeOfRatio, moeOfSum } from "./marginOfError.ts";
+
 export type RootStatDataRow = {
   parentArea: string | null;
   boundaryType: string | null;
   date: string | null;
   data: Record<string, number>;
+  // Per-area margins of error (ACS imports); omitted when the source has none
+  marginOfError?: Record<string, number>;
 };
 
 export type DerivedFormulaKind =
@@ -12,7 +22,9 @@ export type DerivedFormulaKind =
   | "rate_per_1000"
   | "ratio"
   | "index"
-  | "change_over_time";
+  | "change_over_time"
+  | "expression"
+  | "crosswalk";
 
 export type DerivedStatPayloadLike = {
   formula?: DerivedFormulaKind | string | null;
@@ -22,6 +34,12 @@ export type DerivedStatPayloadLike = {
   startYear?: string | null;
   endYear?: string | null;
   sumOperandIds?: Array<string | null | undefined> | null;
+  // For expression formula: the expression text plus alias -> stat id map
+  expression?: string | null;
+  expressionAliases?: Record<string, string | null | undefined> | null;
+  // For crosswalk formula: ZIP stat in numeratorId, optional weight stat in denominatorId
+  crosswalk?: Crosswalk | null;
+  crosswalkMode?: CrosswalkMode | null;
 };
 
 export const FORMULA_TO_STAT_TYPE: Record<DerivedFormulaKind, string> = {
@@ -32,6 +50,9 @@ export const FORMULA_TO_STAT_TYPE: Record<DerivedFormulaKind, string> = {
   ratio: "number",
   index: "number",
   change_over_time: "percent_change",
+  expression: "number",
+  // Callers keep the source stat's type; this is only the fallback.
+  crosswalk: "number",
 };
 
 export const DERIVED_FORMULAS: DerivedFormulaKind[] = [
@@ -42,6 +63,8 @@ export const DERIVED_FORMULAS: DerivedFormulaKind[] = [
   "ratio",
   "index",
   "change_over_time",
+  "expression",
+  "crosswalk",
 ];
 
 export const coerceDerivedFormula = (value: unknown): DerivedFormulaKind => {
@@ -149,6 +172,8 @@ export const computeDerivedValues = (
         if (isFiniteNum(aVal) && isFiniteNum(bVal) && bVal !== 0) out[area] = (aVal / bVal) * 100;
         break;
       case "change_over_time":
+      case "expression":
+      case "crosswalk":
         break;
     }
   }
@@ -156,6 +181,61 @@ export const computeDerivedValues = (
   return out;
 };
 
+/**
+ * Propagates margins of error for two-stat formulas using the ACS
+ * approximations. Areas missing a margin on either side are left out.
+ */
+export const computeDerivedMargins = (
+  aData: Record<string, number>,
+  aMoe: Record<string, number>,
+  bData: Record<string, number>,
+  bMoe: Record<string, number>,
+  formula: DerivedFormulaKind,
+): Record<string, number> => {
+  const out: Record<string, number> = {};
+  const derived = computeDerivedValues(aData, bData, formula);
+  for (const area of Object.keys(derived)) {
+    const aVal = aData[area];
+    const bVal = bData[area];
+    let moe: number | null = null;
+    switch (formula) {
+      case "percent":
+        moe = moeOfProportion(aVal, aMoe[area], bVal, bMoe[area]);
+        break;
+      case "ratio":
+        moe = moeOfRatio(aVal, aMoe[area], bVal, bMoe[area]);
+        break;
+      case "rate_per_1000": {
+        const ratioMoe = moeOfRatio(aVal, aMoe[area], bVal, bMoe[area]);
+        moe = ratioMoe == null ? null : ratioMoe * 1000;
+        break;
+      }
+      case "index": {
+        const ratioMoe = moeOfRatio(aVal, aMoe[area], bVal, bMoe[area]);
+        moe = ratioMoe == null ? null : ratioMoe * 100;
+        break;
+      }
+      case "sum":
+      case "difference": {
+        const moes: Array<number | undefined> = [];
+        if (typeof aVal === "number") moes.push(aMoe[area]);
+        if (typeof bVal === "number") moes.push(bMoe[area]);
+        moe = moeOfSum(moes);
+        break;
+      }
+      case "change_over_time":
+      case "expression":
+      case "crosswalk":
+        break;
+    }
+    if (moe != null && Number.isFinite(moe)) out[area] = moe;
+  }
+  return out;
+};
+
+const withMargins = (row: RootStatDataRow, margins: Record<string, number>): RootStatDataRow =>
+  Object.keys(margins).length > 0 ? { ...row, marginOfError: margins } : row;
+
 export const parseRootStatDataRows = (rows: unknown[]): RootStatDataRow[] => {
   const out: RootStatDataRow[] = [];
   for (const row of rows) {
@@ -167,12 +247,18 @@ export const parseRootStatDataRows = (rows: unknown[]): RootStatDataRow[] => {
         : typeof rawDate === "number" && Number.isFinite(rawDate)
           ? String(rawDate)
           : null;
-    out.push({
-      parentArea: normalizeString(row.parentArea),
-      boundaryType: normalizeString(row.boundaryType),
-      date,
-      data: normalizeDataMap(row.data),
-    });
+    const marginOfError = normalizeDataMap(row.marginOfError);
+    out.push(
+      withMargins(
+        {
+          parentArea: normalizeString(row.parentArea),
+          boundaryType: normalizeString(row.boundaryType),
+          date,
+          data: normalizeDataMap(row.data),
+        },
+        marginOfError,
+      ),
+    );
   }
   return out;
 };
@@ -206,10 +292,22 @@ export const getDerivedSourceStatIds = (
     add(payload.statId);
     return Array.from(ids);
   }
+  if (formula === "crosswalk") {
+    add(payload.numeratorId ?? payload.statId);
+    add(payload.denominatorId);
+    return Array.from(ids);
+  }
   if (formula === "sum") {
     for (const id of payload.sumOperandIds ?? []) add(id);
     return Array.from(ids);
   }
+  if (formula === "expression") {
+    const parsed = parseDerivedExpression(payload.expression ?? "");
+    if (!parsed.ok) return [];
+    const { statIdByReference } = resolveDerivedExpressionReferences(parsed.ast, payload.expressionAliases);
+    for (const statId of statIdByReference.values()) add(statId);
+    return Array.from(ids);
+  }
   add(payload.numeratorId);
   add(payload.denominatorId);
   return Array.from(ids);
@@ -225,6 +323,164 @@ const setEquals = (a?: Set<string>, b?: Set<string>): boolean => {
 
 const describeSet = (values?: Set<string>): string => Array.from(values ?? []).sort().join(", ") || "none";
 
+/**
+ * Throws when the given stats don't share the same years and boundary types.
+ * Each operand is compared against the first; `label` names it in the error.
+ */
+const assertStatsCombinable = (
+  operands: Array<{ label: string; statId: string }>,
+  rowsByStat: Map<string, Map<string, RootStatDataRow>>,
+): void => {
+  const coverage = operands.map(({ label, statId }) => {
+    const years = new Set<string>();
+    const boundaryTypes = new Set<string>();
+    for (const row of rowsByStat.get(statId)?.values() ?? []) {
+      if (row.date) years.add(row.date);
+      if (row.boundaryType) boundaryTypes.add(row.boundaryType);
+    }
+    return { label, years, boundaryTypes };
+  });
+  const [first, ...rest] = coverage;
+  if (!first) return;
+  const yearsMatch = rest.every((entry) => setEquals(first.years, entry.years));
+  const boundsMatch = rest.every((entry) => setEquals(first.boundaryTypes, entry.boundaryTypes));
+  if (yearsMatch && boundsMatch) return;
+  const parts: string[] = [];
+  if (!yearsMatch) {
+    parts.push(`years (${coverage.map((entry) => `${entry.label}: ${describeSet(entry.years)}`).join(", ")})`);
+  }
+  if (!boundsMatch) {
+    parts.push(
+      `boundary types (${coverage.map((entry) => `${entry.label}: ${describeSet(entry.boundaryTypes)}`).join(", ")})`,
+    );
+  }
+  throw new Error(`These stats can't be combined: they have different ${parts.join(" and ")}.`);
+};
+
+const createExpressionRows = (
+  payload: DerivedStatPayloadLike,
+  rowsByStat: Map<string, Map<string, RootStatDataRow>>,
+): RootStatDataRow[] => {
+  const parsed = parseDerivedExpression(payload.expression ?? "");
+  if (!parsed.ok) throw new Error(`Invalid expression: ${parsed.error}`);
+  const { statIdByReference, unknown } = resolveDerivedExpressionReferences(parsed.ast, payload.expressionAliases);
+  if (unknown.length > 0) throw new Error(`Unknown stat reference: ${unknown.join(", ")}.`);
+
+  const references = parsed.references;
+  for (const reference of references) {
+    const statId = statIdByReference.get(reference) as string;
+    if (!rowsByStat.get(statId)?.size) throw new Error(`Missing data for ${reference}.`);
+  }
+  assertStatsCombinable(
+    references.map((reference) => ({ label: reference, statId: statIdByReference.get(reference) as string })),
+    rowsByStat,
+  );
+
+  // Only contexts (parent area / boundary / date) that every operand covers can be evaluated.
+  const operandRowMaps = references.map((reference) => ({
+    reference,
+    rows: rowsByStat.get(statIdByReference.get(reference) as string) as Map<string, RootStatDataRow>,
+  }));
+  const [firstOperand] = operandRowMaps;
+  const derivedRows: RootStatDataRow[] = [];
+  let nonEmptyCount = 0;
+  for (const [rowKey, template] of firstOperand.rows.entries()) {
+    const rowsForKey = new Map<string, RootStatDataRow>();
+    for (const { reference, rows } of operandRowMaps) {
+      const row = rows.get(rowKey);
+      if (row) rowsForKey.set(reference, row);
+    }
+    if (rowsForKey.size !== operandRowMaps.length) continue;
+
+    const data: Record<string, number> = {};
+    const margins: Record<string, number> = {};
+    for (const areaKey of Object.keys(template.data)) {
+      const { value, moe } = evaluateDerivedExpressionWithMoe(
+        parsed.ast,
+        (reference) => rowsForKey.get(reference)?.data[areaKey],
+        (reference) => rowsForKey.get(reference)?.marginOfError?.[areaKey],
+      );
+      if (value == null) continue;
+      data[areaKey] = value;
+      if (moe != null) margins[areaKey] = moe;
+    }
+    if (Object.keys(data).length > 0) nonEmptyCount += 1;
+    derivedRows.push(
+      withMargins(
+        {
+          parentArea: template.parentArea,
+          boundaryType: template.boundaryType,
+          date: template.date,
+          data,
+        },
+        margins,
+      ),
+    );
+  }
+
+  if (nonEmptyCount === 0) {
+    throw new Error("Selected stats have no overlapping area data to evaluate the expression.");
+  }
+  return derivedRows;
+};
+
+// Merges a stat's ZIP rows per date. ZIP data is stored under several parent
+// areas (statewide and per county); the widest row names the merged one.
+const mergeZipRowsByDate = (rows: Iterable<RootStatDataRow>): Map<string, RootStatDataRow> => {
+  const byDate = new Map<string, RootStatDataRow>();
+  for (const row of rows) {
+    if (row.boundaryType !== "ZIP" || !row.date) continue;
+    const existing = byDate.get(row.date);
+    if (!existing) {
+      byDate.set(row.date, { ...row, data: { ...row.data }, marginOfError: { ...row.marginOfError } });
+      continue;
+    }
+    if (Object.keys(row.data).length > Object.keys(existing.data).length) existing.parentArea = row.parentArea;
+    Object.assign(existing.data, row.data);
+    Object.assign(existing.marginOfError ?? {}, row.marginOfError);
+  }
+  return byDate;
+};
+
+const createCrosswalkRows = (
+  payload: DerivedStatPayloadLike,
+  rowsByStat: Map<string, Map<string, RootStatDataRow>>,
+): RootStatDataRow[] => {
+  const statId = normalizeString(payload.numeratorId) ?? normalizeString(payload.statId);
+  const crosswalk = payload.crosswalk;
+  if (!statId) throw new Error("Select a ZIP-level stat to apportion.");
+  if (!crosswalk) throw new Error("Load a crosswalk file first.");
+  const mode: CrosswalkMode = payload.crosswalkMode === "sum" ? "sum" : "weighted";
+
+  const zipRows = mergeZipRowsByDate(rowsByStat.get(statId)?.values() ?? []);
+  if (zipRows.size === 0) throw new Error("The selected stat has no ZIP-level data.");
+  const weightStatId = normalizeString(payload.denominatorId);
+  const weightRows = weightStatId ? mergeZipRowsByDate(rowsByStat.get(weightStatId)?.values() ?? []) : null;
+  const latestWeights = weightRows
+    ? Array.from(weightRows.values()).sort((a, b) => String(b.date).localeCompare(String(a.date)))[0]?.data
+    : undefined;
+
+  const derivedRows: RootStatDataRow[] = [];
+  for (const [date, row] of zipRows) {
+    const weights = mode === "weighted" ? (weightRows?.get(date)?.data ?? latestWeights ?? null) : null;
+    const converted = convertStatDataByCrosswalk(row.data, crosswalk, {
+      mode,
+      weights,
+      marginOfError: row.marginOfError,
+    });
+    if (Object.keys(converted.data).length === 0) continue;
+    derivedRows.push(
+      withMargins(
+        { parentArea: row.parentArea, boundaryType: crosswalk.targetType, date, data: converted.data },
+        converted.marginOfError,
+      ),
+    );
+  }
+
+  if (derivedRows.length === 0) throw new Error("None of the stat's ZIPs appear in the crosswalk file.");
+  return derivedRows;
+};
+
 export const createDerivedStatRows = (
   formula: DerivedFormulaKind,
   payload: DerivedStatPayloadLike,
@@ -242,7 +498,7 @@ export const createDerivedStatRows = (
 
     const byContext = new Map<
       string,
-      { parentArea: string | null; boundaryType: string | null; rowsByDate: Map<string, Record<string, number>> }
+      { parentArea: string | null; boundaryType: string | null; rowsByDate: Map<string, RootStatDataRow> }
     >();
     for (const row of statRows.values()) {
       if (!row.date) continue;
@@ -251,18 +507,21 @@ export const createDerivedStatRows = (
         byContext.get(key) ?? {
           parentArea: row.parentArea,
           boundaryType: row.boundaryType,
-          rowsByDate: new Map<string, Record<string, number>>(),
+          rowsByDate: new Map<string, RootStatDataRow>(),
         };
-      context.rowsByDate.set(row.date, row.data);
+      context.rowsByDate.set(row.date, row);
       byContext.set(key, context);
     }
 
     const derivedRows: RootStatDataRow[] = [];
     for (const context of byContext.values()) {
-      const startData = context.rowsByDate.get(startYear);
-      const endData = context.rowsByDate.get(endYear);
-      if (!startData || !endData) continue;
+      const startRow = context.rowsByDate.get(startYear);
+      const endRow = context.rowsByDate.get(endYear);
+      if (!startRow || !endRow) continue;
+      const startData = startRow.data;
+      const endData = endRow.data;
       const data: Record<string, number> = {};
+      const margins: Record<string, number> = {};
       for (const areaKey of Object.keys(endData)) {
         const startValue = startData[areaKey];
         const endValue = endData[areaKey];
@@ -274,15 +533,28 @@ export const createDerivedStatRows = (
           Number.isFinite(endValue)
         ) {
           data[areaKey] = (endValue - startValue) / Math.abs(startValue);
+          // (End − Start) / Start = End / Start − 1, so the ratio MOE applies.
+          const moe = moeOfRatio(
+            endValue,
+            endRow.marginOfError?.[areaKey],
+            Math.abs(startValue),
+            startRow.marginOfError?.[areaKey],
+          );
+          if (moe != null) margins[areaKey] = moe;
         }
       }
       if (Object.keys(data).length === 0) continue;
-      derivedRows.push({
-        parentArea: context.parentArea,
-        boundaryType: context.boundaryType,
-        date: `${startYear}-${endYear}`,
-        data,
-      });
+      derivedRows.push(
+        withMargins(
+          {
+            parentArea: context.parentArea,
+            boundaryType: context.boundaryType,
+            date: `${startYear}-${endYear}`,
+            data,
+          },
+          margins,
+        ),
+      );
     }
 
     if (derivedRows.length === 0) {
@@ -326,31 +598,52 @@ export const createDerivedStatRows = (
       }
 
       const data: Record<string, number> = {};
+      const margins: Record<string, number> = {};
       for (const areaKey of areaKeys) {
         let sum = 0;
         let hasAnyValue = false;
+        const moes: Array<number | undefined> = [];
         for (const statId of operandIds) {
-          const value = rowsByStat.get(statId)?.get(rowKey)?.data[areaKey];
+          const row = rowsByStat.get(statId)?.get(rowKey);
+          const value = row?.data[areaKey];
           if (typeof value === "number" && Number.isFinite(value)) {
             sum += value;
             hasAnyValue = true;
+            moes.push(row?.marginOfError?.[areaKey]);
           }
         }
-        if (hasAnyValue) data[areaKey] = sum;
+        if (hasAnyValue) {
+          data[areaKey] = sum;
+          const moe = moeOfSum(moes);
+          if (moe != null) margins[areaKey] = moe;
+        }
       }
       if (Object.keys(data).length > 0) nonEmptyCount += 1;
-      derivedRows.push({
-        parentArea: template.parentArea,
-        boundaryType: template.boundaryType,
-        date: template.date,
-        data,
-      });
+      derivedRows.push(
+        withMargins(
+          {
+            parentArea: template.parentArea,
+            boundaryType: template.boundaryType,
+            date: template.date,
+            data,
+          },
+          margins,
+        ),
+      );
     }
 
     if (nonEmptyCount === 0) throw new Error("Selected stats have no overlapping area data to compute a sum.");
     return derivedRows;
   }
 
+  if (formula === "expression") {
+    return createExpressionRows(payload, rowsByStat);
+  }
+
+  if (formula === "crosswalk") {
+    return createCrosswalkRows(payload, rowsByStat);
+  }
+
   const numeratorId = normalizeString(payload.numeratorId);
   const denominatorId = normalizeString(payload.denominatorId);
   if (!numeratorId || !denominatorId) throw new Error("Unable to locate selected stats.");
@@ -361,46 +654,38 @@ export const createDerivedStatRows = (
     throw new Error("Missing data for one of the selected stats.");
   }
 
-  const yearsByStat = new Map<string, Set<string>>();
-  const boundaryTypesByStat = new Map<string, Set<string>>();
-  for (const [statId, rowMap] of rowsByStat.entries()) {
-    const years = new Set<string>();
-    const boundaryTypes = new Set<string>();
-    for (const row of rowMap.values()) {
-      if (row.date) years.add(row.date);
-      if (row.boundaryType) boundaryTypes.add(row.boundaryType);
-    }
-    yearsByStat.set(statId, years);
-    boundaryTypesByStat.set(statId, boundaryTypes);
-  }
-
-  const numYears = yearsByStat.get(numeratorId);
-  const denYears = yearsByStat.get(denominatorId);
-  const numBounds = boundaryTypesByStat.get(numeratorId);
-  const denBounds = boundaryTypesByStat.get(denominatorId);
-  if (!setEquals(numYears, denYears) || !setEquals(numBounds, denBounds)) {
-    const parts: string[] = [];
-    if (!setEquals(numYears, denYears)) {
-      parts.push(`years (numerator: ${describeSet(numYears)}, denominator: ${describeSet(denYears)})`);
-    }
-    if (!setEquals(numBounds, denBounds)) {
-      parts.push(`boundary types (numerator: ${describeSet(numBounds)}, denominator: ${describeSet(denBounds)})`);
-    }
-    throw new Error(`These stats can't be combined: they have different ${parts.join(" and ")}.`);
-  }
+  assertStatsCombinable(
+    [
+      { label: "numerator", statId: numeratorId },
+      { label: "denominator", statId: denominatorId },
+    ],
+    rowsByStat,
+  );
 
   const derivedRows: RootStatDataRow[] = [];
   let nonEmptyCount = 0;
   for (const [rowKey, denominatorRow] of denominatorRows.entries()) {
     const numeratorRow = numeratorRows.get(rowKey);
     const data = computeDerivedValues(numeratorRow?.data ?? {}, denominatorRow.data, formula);
+    const margins = computeDerivedMargins(
+      numeratorRow?.data ?? {},
+      numeratorRow?.marginOfError ?? {},
+      denominatorRow.data,
+      denominatorRow.marginOfError ?? {},
+      formula,
+    );
     if (Object.keys(data).length > 0) nonEmptyCount += 1;
-    derivedRows.push({
-      parentArea: denominatorRow.parentArea,
-      boundaryType: denominatorRow.boundaryType,
-      date: denominatorRow.date,
-      data,
-    });
+    derivedRows.push(
+      withMargins(
+        {
+          parentArea: denominatorRow.parentArea,
+          boundaryType: denominatorRow.boundaryType,
+          date: denominatorRow.date,
+          data,
+        },
+        margins,
+      ),
+    );
   }
 
   if (nonEmptyCount === 0) {
@@ -57,3 +57,6 @@ export const isSyntheticSeedEnabled = (): boolean => {
   if (explicitFlag !== undefined) return explicitFlag;
   return isDevEnv();
 };
+
+/** Census tracts are opt-in until their generated geometry ships with the app. */
+export const isTractBoundariesEnabled = (): boolean => getEnvBoolean("VITE_ENABLE_TRACTS") ?? false;
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { formatStatValue, formatStatValueCompact } from "./format";
+import { formatStatDifference, formatStatMoe, formatStatValue, formatStatValueCompact } from "./format";
 
 describe("format stat values", () => {
   it("keeps small rate differences visible", () => {
@@ -8,4 +8,16 @@ describe("format stat values", () => {
     expect(formatStatValueCompact(0.13561502830674216, "rate")).toBe("0.136");
     expect(formatStatValue(0.07180020811654526, "rate")).toBe("0.0718");
   });
+
+  it("formats margins of error in the estimate's units", () => {
+    expect(formatStatMoe(0.0234, 0.18, "percent")).toBe("±2.3%");
+    expect(formatStatMoe(2.34, 18, "percent")).toBe("±2.3%");
+    expect(formatStatMoe(1234.4, 20000, "count")).toBe("±1,234");
+    expect(formatStatMoe(-50, 1000, "count")).toBe("±50");
+  });
+
+  it("keeps whole-percent differences below one point in points", () => {
+    expect(formatStatDifference(-0.5, 42, "percent")).toBe("0.5%");
+    expect(formatStatDifference(0.05, 0.4, "percent")).toBe("5%");
+  });
 });
@@ -1,6 +1,8 @@
 /**
- * Utility functions for formatting stat values with appropriate symbols
+ * Utility functions for formatting stat values with appropriate symbols.
+ * Numbers, currency and dates follow the current UI locale (see ./i18n).
  */
+import { getIntlLocale } from "./i18n";
 
 export const formatStatValue = (value: number, type: string): string => {
   if (!isFinite(value)) return "";
@@ -20,7 +22,7 @@ export const formatStatValue = (value: number, type: string): string => {
         return `${sign}${Math.round(pct * 10) / 10}%`;
       }
     case "currency":
-      return new Intl.NumberFormat("en-US", { 
+      return new Intl.NumberFormat(getIntlLocale(), { 
         style: "currency", 
         currency: "USD", 
         maximumFractionDigits: 0 
@@ -30,10 +32,37 @@ export const formatStatValue = (value: number, type: string): string => {
       return formatRateValue(value, false);
     case "count":
     default:
-      return Math.round(value).toLocaleString("en-US");
+      return Math.round(value).toLocaleString(getIntlLocale());
   }
 };
 
+/**
+ * Size of a gap between two values of a stat (margins of error, distance from
+ * an average), unsigned and in the units of `reference`. Percent gaps follow
+ * the reference's scale: a fraction estimate (0–1) has a fraction gap, so both
+ * are shown ×100.
+ */
+export const formatStatDifference = (difference: number, reference: number, type: string): string => {
+  if (!isFinite(difference) || !isFinite(reference)) return "";
+  const magnitude = Math.abs(difference);
+  switch (type) {
+    case "percent": {
+      const scaled = reference <= 1 ? magnitude * 100 : magnitude;
+      return `${Math.round(scaled * 10) / 10}%`;
+    }
+    case "percent_change":
+      return `${Math.round(magnitude * 1000) / 10}%`;
+    default:
+      return formatStatValue(magnitude, type);
+  }
+};
+
+/** Format a margin of error as "±x" in the same units as its estimate. */
+export const formatStatMoe = (moe: number, value: number, type: string): string => {
+  const formatted = formatStatDifference(moe, value, type);
+  return formatted ? `±${formatted}` : "";
+};
+
 /**
  * Format stat value for compact display (used in map pills)
  * Handles large numbers with k/M suffixes and adds appropriate symbols
@@ -87,17 +116,27 @@ const formatRateValue = (value: number, compact: boolean): string => {
   const absolute = Math.abs(value);
   if (absolute > 0 && absolute < 1) {
     const maximumFractionDigits = compact ? 3 : 4;
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getIntlLocale(), {
       minimumFractionDigits: absolute < 0.1 ? 2 : 1,
       maximumFractionDigits,
     }).format(value);
   }
   if (absolute < 10) {
-    return new Intl.NumberFormat("en-US", {
+    return new Intl.NumberFormat(getIntlLocale(), {
       maximumFractionDigits: compact ? 2 : 3,
     }).format(value);
   }
-  return new Intl.NumberFormat("en-US", {
+  return new Intl.NumberFormat(getIntlLocale(), {
     maximumFractionDigits: compact ? 1 : 2,
   }).format(value);
 };
+
+/** Format a date (default "Mar 4, 2026") in the current UI locale. */
+export const formatDate = (
+  value: number | Date,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "medium" },
+): string => new Intl.DateTimeFormat(getIntlLocale(), options).format(value);
+
+/** Format a date with time of day (default "Mar 4, 2026, 3:05 PM"). */
+export const formatDateTime = (value: number | Date): string =>
+  formatDate(value, { dateStyle: "medium", timeStyle: "short" });
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  interpolate,
+  localizeLabel,
+  normalizeLabelTranslations,
+  normalizeLocale,
+  t,
+  tCount,
+} from "./i18n";
+import { en } from "./locales/en";
+import { es } from "./locales/es";
+
+describe("i18n", () => {
+  it("normalizes browser and URL language tags to supported locales", () => {
+    expect(normalizeLocale("es-MX")).toBe("es");
+    expect(normalizeLocale("EN_us")).toBe("en");
+    expect(normalizeLocale("fr")).toBeNull();
+    expect(normalizeLocale(null)).toBeNull();
+  });
+
+  it("fills placeholders and leaves unknown ones in place", () => {
+    expect(interpolate("{a} of {b}", { a: 1, b: "two" })).toBe("1 of two");
+    expect(interpolate("{missing}", { a: 1 })).toBe("{missing}");
+  });
+
+  it("translates keys in the requested locale", () => {
+    expect(t("chips.areasLabel", { mode: "ZIPs" }, "en")).toBe("Areas: ZIPs");
+    expect(t("chips.areasLabel", { mode: "Condados" }, "es")).toBe("Áreas: Condados");
+    expect(tCount(1, "offline.queued.one", "offline.queued.other", "en")).toBe(
+      "1 submission will send when you reconnect.",
+    );
+    expect(tCount(1200, "offline.queued.one", "offline.queued.other", "en")).toBe(
+      "1,200 submissions will send when you reconnect.",
+    );
+  });
+
+  it("keeps the Spanish catalog's placeholders in step with English", () => {
+    const placeholders = (value: string) => (value.match(/\{\w+\}/g) ?? []).sort();
+    for (const key of Object.keys(en) as Array<keyof typeof en>) {
+      expect(placeholders(es[key]), key).toEqual(placeholders(en[key]));
+    }
+  });
+
+  it("localizes admin-entered labels with a fallback to the stored label", () => {
+    const translations = normalizeLabelTranslations({ es: "  Ingreso medio ", fr: "Revenu", de: 3 });
+    expect(translations).toEqual({ es: "Ingreso medio" });
+    expect(localizeLabel("Median income", translations, "es")).toBe("Ingreso medio");
+    expect(localizeLabel("Median income", translations, "en")).toBe("Median income");
+    expect(normalizeLabelTranslations({ es: " " })).toBeUndefined();
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * UI localisation shared by React components and the imperative map modules.
+ * Strings live in ./locales; English is the source catalog and the fallback.
+ */
+import { en, type MessageKey } from "./locales/en";
+import { es } from "./locales/es";
+
+export type { MessageKey } from "./locales/en";
+
+export type Locale = "en" | "es";
+
+type LocaleListener = (locale: Locale) => void;
+
+export type MessageParams = Record<string, string | number>;
+
+/** Per-locale overrides for admin-entered labels (stats, categories). */
+export type LabelTranslations = Partial<Record<Locale, string>>;
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const SUPPORTED_LOCALES: Array<{ value: Locale; label: string }> = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Español" },
+];
+
+const STORAGE_KEY = "ne.locale";
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es };
+
+// Region-qualified tags keep US number and currency conventions in Spanish.
+const INTL_LOCALES: Record<Locale, string> = { en: "en-US", es: "es-US" };
+
+export const normalizeLocale = (value: unknown): Locale | null => {
+  if (typeof value !== "string") return null;
+  const base = value.trim().toLowerCase().split(/[-_]/)[0];
+  return base === "en" || base === "es" ? base : null;
+};
+
+const readStoredLocale = (): Locale | null => {
+  try {
+    return normalizeLocale(localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return null;
+  }
+};
+
+const detectBrowserLocale = (): Locale | null => {
+  if (typeof navigator === "undefined") return null;
+  const candidates = Array.isArray(navigator.languages) ? navigator.languages : [navigator.language];
+  for (const candidate of candidates) {
+    const locale = normalizeLocale(candidate);
+    if (locale) return locale;
+  }
+  return null;
+};
+
+const getPreferredLocale = (): Locale =>
+  (typeof window === "undefined" ? null : readStoredLocale() ?? detectBrowserLocale()) ?? DEFAULT_LOCALE;
+
+const applyLocale = (locale: Locale) => {
+  if (typeof document === "undefined") return;
+  document.documentElement.setAttribute("lang", locale);
+};
+
+class LocaleController {
+  private locale: Locale;
+  private listeners = new Set<LocaleListener>();
+
+  constructor() {
+    this.locale = getPreferredLocale();
+    applyLocale(this.locale);
+  }
+
+  getLocale(): Locale {
+    return this.locale;
+  }
+
+  /**
+   * Switch the UI language. `persist: false` is for locales that come from a
+   * shared link, so opening one doesn't change the visitor's saved choice.
+   */
+  setLocale(locale: Locale, { persist = true }: { persist?: boolean } = {}): void {
+    if (persist) {
+      try {
+        localStorage.setItem(STORAGE_KEY, locale);
+      } catch {
+        // Storage can be unavailable (private mode); the choice lasts for this page.
+      }
+    }
+    if (locale === this.locale) {
+      return;
+    }
+
+    this.locale = locale;
+    applyLocale(locale);
+    this.listeners.forEach((listener) => listener(locale));
+  }
+
+  subscribe(listener: LocaleListener): () => void {
+    this.listeners.add(listener);
+    listener(this.locale);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+export const localeController = new LocaleController();
+
+export const getLocale = (): Locale => localeController.getLocale();
+
+/** BCP 47 tag for Intl formatters in the current locale. */
+export const getIntlLocale = (locale: Locale = getLocale()): string => INTL_LOCALES[locale];
+
+export const interpolate = (template: string, params?: MessageParams): string => {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+};
+
+/** Translate a UI string, e.g. t("sidebar.results", { count: 3 }). */
+export const t = (key: MessageKey, params?: MessageParams, locale: Locale = getLocale()): string =>
+  interpolate(CATALOGS[locale][key] ?? en[key] ?? key, params);
+
+/** Pick the `one` or `other` message for a count, e.g. tCount(n, "x.one", "x.other"). */
+export const tCount = (
+  count: number,
+  oneKey: MessageKey,
+  otherKey: MessageKey,
+  locale: Locale = getLocale(),
+): string => {
+  const category = new Intl.PluralRules(getIntlLocale(locale)).select(count);
+  return t(category === "one" ? oneKey : otherKey, { count: formatCount(count, locale) }, locale);
+};
+
+const formatCount = (count: number, locale: Locale): string =>
+  new Intl.NumberFormat(getIntlLocale(locale)).format(count);
+
+export const normalizeLabelTranslations = (value: unknown): LabelTranslations | undefined => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const result: LabelTranslations = {};
+  for (const [key, label] of Object.entries(value as Record<string, unknown>)) {
+    const locale = normalizeLocale(key);
+    if (locale && typeof label === "string" && label.trim()) result[locale] = label.trim();
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+/** An admin-entered label in the current locale, falling back to the stored label. */
+export const localizeLabel = (
+  label: string,
+  translations: LabelTranslations | null | undefined,
+  locale: Locale = getLocale(),
+): string => translations?.[locale] ?? label;
+
+// ---------------------------------------------------------------------------
+// Imperative DOM helpers
+// ---------------------------------------------------------------------------
+
+export interface DomLocalizer {
+  /** Set textContent now and again whenever the locale changes. */
+  text: (el: HTMLElement, key: MessageKey, params?: MessageParams) => void;
+  /** Same as `text` for an attribute such as title, placeholder or aria-label. */
+  attr: (el: HTMLElement, name: string, key: MessageKey, params?: MessageParams) => void;
+  /** Run a re-render callback on locale changes (for text built from state). */
+  onChange: (callback: () => void) => void;
+  destroy: () => void;
+}
+
+/**
+ * For modules that build DOM once (category chips, the onboarding tour): binds
+ * static strings so a language switch updates them in place.
+ */
+export const createDomLocalizer = (): DomLocalizer => {
+  const bindings: Array<() => void> = [];
+  const unsubscribe = localeController.subscribe(() => {
+    for (const apply of bindings) apply();
+  });
+
+  const bind = (apply: () => void) => {
+    bindings.push(apply);
+    apply();
+  };
+
+  return {
+    text: (el, key, params) => bind(() => {
+      el.textContent = t(key, params);
+    }),
+    attr: (el, name, key, params) => bind(() => {
+      el.setAttribute(name, t(key, params));
+    }),
+    onChange: (callback) => {
+      bindings.push(callback);
+    },
+    destroy: () => {
+      bindings.length = 0;
+      unsubscribe();
+    },
+  };
+};
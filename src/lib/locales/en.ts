@@ -0,0 +1,374 @@
+/**
+ * English UI strings, the source catalog. Keys are "area.name"; values may
+ * contain {placeholders} filled in by t().
+ */
+export const en = {
+  "common.close": "Close",
+  "common.cancel": "Cancel",
+  "common.continue": "Continue",
+  "common.saving": "Saving…",
+
+  "welcome.title": "Welcome to Neighborhood Explorer",
+  "welcome.body": "Discover food resources and community organizations in your area. Explore interactive maps and statistics to learn how we can come together to make a difference.",
+  "welcome.needFood": "I need food",
+  "welcome.canHelp": "I can help",
+
+  "nav.map": "Map",
+  "nav.betaMap": "Limited Beta Map",
+  "nav.originalMap": "Full, Original Map",
+  "nav.report": "Report",
+  "nav.admin": "Admin",
+  "nav.allStats": "All Stats",
+  "nav.about": "About",
+  "nav.more": "More",
+  "nav.queue": "Queue",
+  "nav.data": "Data",
+  "nav.roadmap": "Roadmap",
+  "nav.orgs": "Orgs",
+  "nav.research": "Research",
+  "nav.goals": "Goals",
+
+  "auth.login": "Login",
+  "auth.signOut": "Sign out",
+  "auth.signedInAs": "Signed in as {email}",
+
+  "topbar.location": "Location",
+  "topbar.addLocation": "Add a Location",
+  "topbar.addOrganization": "Add organization",
+  "topbar.homeMakeMapDefault": "Make map the default homepage",
+  "topbar.homeOpenOriginal": "Open original homepage in a new tab",
+  "topbar.homeOriginal": "Home: Original",
+  "topbar.homeMap": "Home: Map",
+  "topbar.homeTooltip": "What happens when you visit",
+  "topbar.lightTheme": "Switch to light theme",
+  "topbar.darkTheme": "Switch to dark theme",
+  "topbar.switchLanguage": "Switch language to {language}",
+  "topbar.returnHome": "Return to home",
+  "topbar.openSearch": "Open search",
+  "topbar.focusSearch": "Focus search",
+  "topbar.submitSearch": "Submit search",
+  "topbar.searchPlaceholder": "City, Org, ZIP, Address, ...",
+  "topbar.openMenu": "Open menu",
+  "topbar.closeMenu": "Close menu",
+
+  "issue.queuedOffline": "You're offline. We saved your report and will send it when you're back online.",
+  "issue.thanks": "Thanks for flagging this location. We'll review it shortly.",
+
+  "sidebar.selected": "SELECTED",
+  "sidebar.inSelection": "IN SELECTION",
+  "sidebar.inArea": "IN {area}",
+  "sidebar.recentlyAdded": "RECENTLY ADDED",
+  "sidebar.all": "ALL",
+  "sidebar.orgsTab": "Orgs ({count})",
+  "sidebar.statsTab": "Stats",
+  "sidebar.keepOrgsOnMap": "Keep Orgs On Map",
+  "sidebar.advancedAreas": "Advanced areas data",
+  "sidebar.searchPlaceholder": "Stats, orgs, cities, zips, addresses...",
+  "sidebar.expand": "Expand sidebar",
+  "sidebar.collapse": "Collapse sidebar",
+  "sidebar.allCategories": "All Categories",
+  "sidebar.changeCategory": "Change category filter ({category})",
+  "sidebar.clearCategoryFilter": "Clear category filter",
+  "sidebar.currentStatistic": "the current statistic",
+  "sidebar.categorySwitchWarning": "Switching to {category} will remove {stat} from the map.",
+  "sidebar.exportOrgs": "Export organizations",
+  "sidebar.exportFilteredOrgs": "Export filtered orgs",
+  "sidebar.changeTimeFilter": "Change time filter",
+  "sidebar.filterByHours": "Filter by hours of operation",
+  "sidebar.onlyOpenAt": "Only orgs open at {time}",
+  "sidebar.clearTimeFilter": "Clear time filter",
+  "sidebar.noOrgsInCategory": "No organizations yet for this category.",
+  "sidebar.clearCategory": "Clear category",
+  "sidebar.noOrgs": "No organizations found. Add one to get started.",
+  "sidebar.noneOpen": "No organizations are open at the selected time.",
+
+  "nearby.label": "Near me",
+  "nearby.locating": "Finding your location...",
+  "nearby.needLocation": "Search an address or share your location to measure distance.",
+  "nearby.stopSorting": "Stop sorting by distance",
+  "nearby.withinTitle": "Organizations within {miles} mi",
+  "nearby.miles": "{miles} mi",
+  "nearby.withinHeading": "WITHIN {miles} MI · {count}",
+  "nearby.noneOpen": "No organizations within {miles} mi are open at the selected time.",
+  "nearby.none": "No organizations within {miles} mi. Try a wider radius.",
+
+  "org.hours": "Hours",
+  "org.openNow": "Open now",
+  "org.closedToday": "Closed today · {reason}",
+  "org.closedNow": "Closed now",
+  "org.unverified": "Unverified",
+  "org.straightLineDistance": "Straight-line distance",
+  "org.annualRevenue": "ProPublica reported annual revenue",
+  "org.phone": "Phone:",
+  "org.website": "Website",
+  "org.zoomToLocation": "Zoom to location",
+  "org.zoom": "Zoom",
+  "org.issue": "Issue?",
+
+  "category.health": "Health",
+  "category.education": "Education",
+  "category.justice": "Justice",
+  "category.economy": "Economy",
+  "category.food": "Food",
+
+  "addOrg.categoryHealth": "Clinics, hospitals, wellness organizations",
+  "addOrg.categoryEducation": "Schools, tutoring, training centers",
+  "addOrg.categoryJustice": "Legal aid, advocacy, re-entry support",
+  "addOrg.categoryEconomy": "Financial assistance, workforce services",
+  "addOrg.categoryFood": "Food pantries, meal services, groceries",
+  "addOrg.statusActive": "Active",
+  "addOrg.statusMoved": "Moved",
+  "addOrg.statusClosed": "Closed",
+  "addOrg.errorName": "Organization name is required.",
+  "addOrg.errorEmail": "Owner email is required so you can revise details later.",
+  "addOrg.errorAddress": "Street address is required to determine the location.",
+  "addOrg.errorCity": "City is required to determine the location.",
+  "addOrg.errorState": "State is required to determine the location.",
+  "addOrg.errorPostalCode": "ZIP code is required to determine the location.",
+  "addOrg.errorOfflineSave": "You're offline and we couldn't save this on your device. Please try again when you're connected.",
+  "addOrg.errorSave": "We could not save the organization. Please try again.",
+  "addOrg.backToMap": "← To Map",
+  "addOrg.intro": "Share the details of a community organization or business so neighbors can discover it on the map. If you don't have an organization yet just want to share food, then use the button below...",
+  "addOrg.findNearby": "Find a Nearby Organization to Give Food To",
+  "addOrg.step1": "01 — Essentials",
+  "addOrg.step1Title": "Organization overview",
+  "addOrg.step1Body": "Tell us who you are adding and how we can contact the person who can edit it later.",
+  "addOrg.name": "Organization name",
+  "addOrg.namePlaceholder": "Community Resource Center",
+  "addOrg.email": "Contact email",
+  "addOrg.emailHelp": "Required so you can edit your org details in the future.",
+  "addOrg.category": "Category",
+  "addOrg.status": "Status",
+  "addOrg.step2": "02 — Location & contact",
+  "addOrg.step2Title": "Where can we find it?",
+  "addOrg.step2Body": "Enter the address and we'll automatically determine the map pin location. Contact details help neighbors get in touch.",
+  "addOrg.address": "Street address",
+  "addOrg.addressPlaceholder": "123 Community Ave. (or paste full address)",
+  "addOrg.city": "City",
+  "addOrg.state": "State",
+  "addOrg.postalCode": "ZIP / Postal code",
+  "addOrg.locationFound": "✓ Location found",
+  "addOrg.coordinates": "Coordinates: {latitude}, {longitude}",
+  "addOrg.phone": "Phone",
+  "addOrg.hoursTitle": "Hours of Operation (Optional)",
+  "addOrg.hoursHelp": "Check days & set times, then add any exceptions",
+  "addOrg.step3": "03 — Optional extras",
+  "addOrg.step3Title": "Help us tell the full story",
+  "addOrg.step3Body": "Websites, sources, and service categories help residents know what to expect before they visit.",
+  "addOrg.websitePlaceholder": "example.org (we'll add https:// for you)",
+  "addOrg.subtype": "Organization Sub-type",
+  "addOrg.subtypePlaceholder": "Food Bank",
+  "addOrg.queuedOffline": "Saved on this device. We'll send your submission as soon as you're back online.",
+  "addOrg.submitted": "Thank you for your map submission! We'll review and add your location as soon as we're able.",
+  "addOrg.submit": "Submit for Map Approval",
+
+  "chips.organizations": "Organizations",
+  "chips.hideOrganizations": "Hide organizations",
+  "chips.showOrganizations": "Show organizations",
+  "chips.statExtremes": "Stat Extremes",
+  "chips.hideExtremas": "Hide extrema indicators",
+  "chips.showExtremas": "Show extrema indicators",
+  "chips.drawArea": "Draw area",
+  "chips.drawRadius": "Radius",
+  "chips.drawClear": "Clear",
+  "chips.drawAreaTitle": "Trace an area on the map",
+  "chips.drawRadiusTitle": "Drag from a center point to set a radius",
+  "chips.drawClearTitle": "Clear the drawn area",
+  "chips.openNow": "Open Now",
+  "chips.hoursOpen": "Hours Open",
+  "chips.clearTimeFilter": "Clear time filter",
+  "chips.areasMode": "Areas mode",
+  "chips.areasLabel": "Areas: {mode}",
+  "chips.areasZoom": "Zoom",
+  "chips.areasZips": "ZIPs",
+  "chips.areasCounties": "Counties",
+  "chips.areasTracts": "Tracts",
+  "chips.areasNone": "None",
+  "chips.showingZips": "Zips",
+  "chips.csvAreasUnavailable": "Enable Advanced Stats mode and select one or more ZIPs or Counties to export CSV.",
+  "chips.csvAreasTitle": "Download CSV for selected areas (same as sidebar export csv)",
+  "chips.linkCopy": "URL Link: Copy",
+  "chips.linkCopying": "URL Link: Copying...",
+  "chips.embedCopy": "Embed: Get code",
+  "chips.embedCopying": "Embed: Opening...",
+  "chips.screenshotCopy": "Screenshot: Copy",
+  "chips.screenshotCopying": "Screenshot: Copying...",
+  "chips.screenshotDownload": "Screenshot: Download",
+  "chips.screenshotDownloading": "Screenshot: Downloading...",
+  "chips.csvAreasDownload": "CSV Areas: Download",
+  "chips.csvAreasDownloading": "CSV Areas: Downloading...",
+  "chips.linkCopyTitle": "Copy the current page URL and parameters",
+  "chips.embedCopyTitle": "Get iframe code to embed the current map view on another website",
+  "chips.screenshotCopyTitle": "Copy a map screenshot to the clipboard",
+  "chips.screenshotDownloadTitle": "Download a PNG screenshot of the map",
+  "chips.showOnMap": "Show on Map",
+  "chips.showing": "Showing:",
+  "chips.orgs": "Orgs",
+  "chips.extremes": "Extremes",
+  "chips.showingOptions": "Showing options",
+  "chips.shareOptions": "Share options",
+  "chips.share": "Share",
+  "chips.expandSidebar": "Expand sidebar",
+  "chips.openSearch": "Open search",
+  "chips.searchPlaceholder": "City, Location, ZIP, Address, ...",
+  "chips.searchOrganizations": "Search organizations",
+  "chips.submitSearch": "Submit search",
+  "chips.selectStatOption": "Select stat option",
+  "chips.deselectStat": "Deselect stat",
+  "chips.statOptions": "Stat options",
+  "chips.secondaryTitle": "Secondary: {name}",
+  "chips.bivariate": "Bivariate",
+  "chips.bivariateOnTitle": "Show secondary stat as circles",
+  "chips.bivariateOffTitle": "Color areas by both stats (3×3 bivariate map)",
+
+  "tour.welcomeLabel": "Welcome tour",
+  "tour.welcomeTitle": "Welcome to Neighborhood Explorer",
+  "tour.welcomeBody": "Welcome, Neighbor! This map helps you learn more about what is happening in communities across Oklahoma. It includes information gathered from trusted public sources, purchased data, and contributions from local neighbors. You can explore different places in Oklahoma, see how things change over time, and focus on what matters to you. Whenever you are ready, you can take a quick tour to help you get started.",
+  "tour.startTour": "Start tour",
+  "tour.restartHint": "Click here to start the tour again",
+  "tour.next": "Next",
+  "tour.dismiss": "Dismiss",
+  "tour.back": "Back",
+  "tour.done": "Done",
+  "tour.submitFeedback": "Submit Feedback",
+  "tour.progress": "{completed}/{total} Steps",
+  "tour.changeAction": "Switch the version of your mapped statistic. Change-over-time data loading in now...",
+  "tour.changeNote": "See areas of OK gaining (indigo-blue color) & losing (plum purple color) the most residents.",
+  "tour.extremasBody": "See the highest and lowest location extremes for featured statistics.",
+  "tour.extremasAction": "Hover your mouse over the two red triangles in Oklahoma county to see which issues are most extreme there in all of OK.",
+  "tour.orgsBody": "Organizations appear as orange number clusters or single circles on the map.",
+  "tour.orgsAction": "Click the orange circles to see which non-profits are closest to these blue areas of high SNAP Food registration.",
+  "tour.areasBody": "See map boundaries update based on your zoom level or set to just ZIP, county, etc.",
+  "tour.areasAction": "Zoom into Payne county, or select \"Areas: ZIPs\", to see which ZIPs are hardest hit by Payne's exceeding rent burden.",
+  "tour.shareBody": "Share your current map view with others! Add to a presentation, embed a live map in your website, etc.",
+  "tour.shareAction": "Paste this marriage map (command/control+v) into a doc, slide, social post, etc.",
+  "tour.searchBody": "Search for stats, orgs, zips, or addresses. Browse data.",
+  "tour.searchAction": "Click the three-lined hamburger menu icon now to browse our current options.",
+  "tour.statDetailsBody": "Learn more about & adjust the active stat (e.g. High School Graduation).",
+  "tour.statDetailsAction": "Click \"Other Degrees: Graduate...\" plus \"Options: Change '21-23\" on to see which areas are getting the most new graduate degrees relative to size recently.",
+  "tour.advancedBody": "Advanced stats mode to see charts for your selected map area(s).",
+  "tour.advancedAction": "Hover over the graph to see how quickly population is increasing for 73108.",
+  "tour.addAreasBody": "Add additional areas to compare.",
+  "tour.addAreasAction": "Type a zip or shift+click one on the map! Like 73129 just added.",
+  "tour.addAreasNote": "Why is one area growing and its neighbor dropping?",
+  "tour.demographicsBody": "See demographic breakdown of your selected area(s).",
+  "tour.demographicsAction": "Hover bars with your mouse to see the largest ethnicities, income levels, etc. for this fast growing area of the city.",
+  "tour.otherStatsNoteBefore": "Which areas have ",
+  "tour.otherStatsNoteBoth": "both",
+  "tour.otherStatsNoteAfter": " high food and disability needs?",
+  "tour.otherStatsBody": "More statistics to explore (e.g. Households Receiving SNAP now showing) or layer...",
+  "tour.otherStatsAction": "Shift+clicking the \"Has Disability\" stat to layer (green dots) over our SNAP statistic.",
+  "tour.orgsTabBody": "Switch to the organizations tab to browse organizations involved in your current map view.",
+  "tour.orgsTabAction": "Click an org card listed to see its location among these high SNAP populations.",
+  "tour.categoryBody": "Filter orgs and stats to see org efforts related to certain types of needs.",
+  "tour.categoryAction": "Drag map to see the sidebar show just the Education orgs within your map view.",
+  "tour.categoryNote": "Which Edu organizations are concentrated around the areas of lowest high school graduation?",
+  "tour.finaleBody": "Thank you for exploring with us! If you have any questions or ideas, please reach out to ",
+  "tour.myLocationAction": "Zooming to your current location.",
+  "tour.myLocationNote": "What do you notice about the income level of individuals in or around your location?",
+  "tour.legendBody": "Shows the highest and lowest values possible for your active statistic.",
+  "tour.brandLogoBody": "Reset the map and UI back to defaults.",
+  "tour.brandLogoAction": "Clicked the NE App's logo in the top left corner",
+
+  "offline.title": "You're offline.",
+  "offline.savedAt": "Showing locations saved {date}.",
+  "offline.savedData": "Showing saved map data.",
+  "offline.queued.one": "{count} submission will send when you reconnect.",
+  "offline.queued.other": "{count} submissions will send when you reconnect.",
+  "offline.failed.one": "{count} saved submission couldn't be sent. We'll retry next time you reconnect.",
+  "offline.failed.other": "{count} saved submissions couldn't be sent. We'll retry next time you reconnect.",
+  "offline.sent.one": "Back online. Sent {count} saved submission.",
+  "offline.sent.other": "Back online. Sent {count} saved submissions.",
+  "offline.dismiss": "Dismiss",
+
+  "table.show": "Table view",
+  "table.hide": "Hide table",
+  "table.skip": "Skip to data table",
+  "table.title": "Map data table",
+  "table.close": "Close table",
+  "table.areaType": "Area type",
+  "table.zips": "ZIPs",
+  "table.counties": "Counties",
+  "table.byZip": "{stat} by ZIP code",
+  "table.byCounty": "{stat} by county",
+  "table.forDate": "{caption}, {date}",
+  "table.stateAverage": "State average: {value}",
+  "table.instructions": "Use the up and down arrow keys to move between areas. Press Enter or Space to select or deselect an area on the map.",
+  "table.column.area": "Area",
+  "table.column.value": "Value",
+  "table.column.rank": "Rank",
+  "table.column.vsState": "vs. state average",
+  "table.column.selected": "Selected",
+  "table.rank": "{rank} of {total}",
+  "table.above": "{value} above",
+  "table.below": "{value} below",
+  "table.same": "Same",
+  "table.noData": "No data",
+  "table.yes": "Yes",
+  "table.no": "No",
+  "table.noStat": "Choose a stat to see values for each area.",
+  "table.noRows": "No areas have data for this stat.",
+  "table.announce.stat": "Showing {caption}.",
+  "table.announce.noStat": "No stat selected.",
+  "table.announce.selected": "{area} selected.",
+  "table.announce.deselected": "{area} deselected.",
+  "table.areaCount.one": "{count} area listed.",
+  "table.areaCount.other": "{count} areas listed.",
+  "table.added.one": "{count} area added to the selection.",
+  "table.added.other": "{count} areas added to the selection.",
+  "table.removed.one": "{count} area removed from the selection.",
+  "table.removed.other": "{count} areas removed from the selection.",
+  "table.selectedCount.one": "{count} area selected.",
+  "table.selectedCount.other": "{count} areas selected.",
+
+  "embed.title": "Embed this map",
+  "embed.description": "Paste this code into your website. The embedded map shows the current stat, category and selected areas without the sidebar or top bar.",
+  "embed.height": "Height (pixels)",
+  "embed.hostOrigin": "Your website (optional)",
+  "embed.hostOriginHint": "Only this site can control the map or receive its click events, e.g. https://example.org.",
+  "embed.allowChanges": "Let visitors change the stat, category and areas",
+  "embed.code": "Embed code",
+  "embed.copy": "Copy code",
+  "embed.close": "Close",
+  "embed.copied": "Embed code copied",
+  "embed.copyFailed": "Couldn't access the clipboard. Select the code and copy it.",
+  "embed.iframeTitle": "Neighborhood Explorer map",
+
+  "views.button": "Views",
+  "views.title": "Saved views",
+  "views.empty": "Save the current map (position, stats, category, areas and sidebar) to reopen it in one click.",
+  "views.loading": "Loading views...",
+  "views.open": "Open {name}",
+  "views.rename": "Rename {name}",
+  "views.moveUp": "Move {name} up",
+  "views.moveDown": "Move {name} down",
+  "views.delete": "Delete {name}",
+  "views.deleteConfirm": "Delete the saved view \"{name}\"?",
+  "views.nameLabel": "View name",
+  "views.namePlaceholder": "Name this view",
+  "views.save": "Save current view",
+  "views.limit": "You can save up to {count} views. Delete one to save another.",
+  "views.opened": "Opened {name}",
+  "views.saved": "Saved {name}",
+
+  "scatter.chartType": "Chart type",
+  "scatter.mode.trend": "Selected areas",
+  "scatter.mode.scatter": "Scatterplot",
+  "scatter.allZips": "All ZIPs",
+  "scatter.allCounties": "All counties",
+  "scatter.ariaLabel": "{y} by {x} for {count} areas. {description}, Pearson r {pearson}, Spearman rho {spearman}.",
+  "scatter.coefficients": "Pearson r {pearson} · Spearman ρ {spearman} · n {count}",
+  "scatter.clickToSelect": "Click to select",
+  "scatter.clickToDeselect": "Click to remove from selection",
+  "scatter.clickDotHint": "Click a dot to select that area",
+  "scatter.correlation.notEnoughData": "Not enough data",
+  "scatter.correlation.none": "Little or no correlation",
+  "scatter.correlation.weakPositive": "Weak positive correlation",
+  "scatter.correlation.weakNegative": "Weak negative correlation",
+  "scatter.correlation.moderatePositive": "Moderate positive correlation",
+  "scatter.correlation.moderateNegative": "Moderate negative correlation",
+  "scatter.correlation.strongPositive": "Strong positive correlation",
+  "scatter.correlation.strongNegative": "Strong negative correlation",
+} as const;
+
+export type MessageKey = keyof typeof en;
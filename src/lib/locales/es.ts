@@ -0,0 +1,371 @@
+import type { MessageKey } from "./en";
+
+/** Spanish UI strings. Every English key must have a translation here. */
+export const es: Record<MessageKey, string> = {
+  "common.close": "Cerrar",
+  "common.cancel": "Cancelar",
+  "common.continue": "Continuar",
+  "common.saving": "Guardando…",
+
+  "welcome.title": "Te damos la bienvenida a Neighborhood Explorer",
+  "welcome.body": "Descubre recursos de alimentos y organizaciones comunitarias en tu zona. Explora mapas y estadísticas interactivas para ver cómo podemos unirnos y marcar la diferencia.",
+  "welcome.needFood": "Necesito comida",
+  "welcome.canHelp": "Puedo ayudar",
+
+  "nav.map": "Mapa",
+  "nav.betaMap": "Mapa beta limitado",
+  "nav.originalMap": "Mapa original completo",
+  "nav.report": "Informe",
+  "nav.admin": "Administración",
+  "nav.allStats": "Todas las estadísticas",
+  "nav.about": "Acerca de",
+  "nav.more": "Más",
+  "nav.queue": "Cola",
+  "nav.data": "Datos",
+  "nav.roadmap": "Hoja de ruta",
+  "nav.orgs": "Organizaciones",
+  "nav.research": "Investigación",
+  "nav.goals": "Metas",
+
+  "auth.login": "Iniciar sesión",
+  "auth.signOut": "Cerrar sesión",
+  "auth.signedInAs": "Sesión iniciada como {email}",
+
+  "topbar.location": "Lugar",
+  "topbar.addLocation": "Agregar un lugar",
+  "topbar.addOrganization": "Agregar organización",
+  "topbar.homeMakeMapDefault": "Usar el mapa como página de inicio",
+  "topbar.homeOpenOriginal": "Abrir la página de inicio original en una pestaña nueva",
+  "topbar.homeOriginal": "Inicio: original",
+  "topbar.homeMap": "Inicio: mapa",
+  "topbar.homeTooltip": "Qué pasa cuando visitas",
+  "topbar.lightTheme": "Cambiar al tema claro",
+  "topbar.darkTheme": "Cambiar al tema oscuro",
+  "topbar.switchLanguage": "Cambiar idioma a {language}",
+  "topbar.returnHome": "Volver al inicio",
+  "topbar.openSearch": "Abrir búsqueda",
+  "topbar.focusSearch": "Ir a la búsqueda",
+  "topbar.submitSearch": "Buscar",
+  "topbar.searchPlaceholder": "Ciudad, organización, código postal, dirección...",
+  "topbar.openMenu": "Abrir menú",
+  "topbar.closeMenu": "Cerrar menú",
+
+  "issue.queuedOffline": "No tienes conexión. Guardamos tu reporte y lo enviaremos cuando vuelvas a estar en línea.",
+  "issue.thanks": "Gracias por avisarnos sobre este lugar. Lo revisaremos pronto.",
+
+  "sidebar.selected": "SELECCIONADO",
+  "sidebar.inSelection": "EN LA SELECCIÓN",
+  "sidebar.inArea": "EN {area}",
+  "sidebar.recentlyAdded": "AGREGADOS RECIENTEMENTE",
+  "sidebar.all": "TODOS",
+  "sidebar.orgsTab": "Organizaciones ({count})",
+  "sidebar.statsTab": "Estadísticas",
+  "sidebar.keepOrgsOnMap": "Mantener organizaciones en el mapa",
+  "sidebar.advancedAreas": "Datos avanzados por área",
+  "sidebar.searchPlaceholder": "Estadísticas, organizaciones, ciudades, códigos postales, direcciones...",
+  "sidebar.expand": "Expandir panel lateral",
+  "sidebar.collapse": "Contraer panel lateral",
+  "sidebar.allCategories": "Todas las categorías",
+  "sidebar.changeCategory": "Cambiar filtro de categoría ({category})",
+  "sidebar.clearCategoryFilter": "Quitar filtro de categoría",
+  "sidebar.currentStatistic": "la estadística actual",
+  "sidebar.categorySwitchWarning": "Cambiar a {category} quitará {stat} del mapa.",
+  "sidebar.exportOrgs": "Exportar organizaciones",
+  "sidebar.exportFilteredOrgs": "Exportar organizaciones filtradas",
+  "sidebar.changeTimeFilter": "Cambiar filtro de horario",
+  "sidebar.filterByHours": "Filtrar por horario de atención",
+  "sidebar.onlyOpenAt": "Solo organizaciones abiertas: {time}",
+  "sidebar.clearTimeFilter": "Quitar filtro de horario",
+  "sidebar.noOrgsInCategory": "Todavía no hay organizaciones en esta categoría.",
+  "sidebar.clearCategory": "Quitar categoría",
+  "sidebar.noOrgs": "No se encontraron organizaciones. Agrega una para empezar.",
+  "sidebar.noneOpen": "Ninguna organización está abierta en el horario seleccionado.",
+
+  "nearby.label": "Cerca de mí",
+  "nearby.locating": "Buscando tu ubicación...",
+  "nearby.needLocation": "Busca una dirección o comparte tu ubicación para medir la distancia.",
+  "nearby.stopSorting": "Dejar de ordenar por distancia",
+  "nearby.withinTitle": "Organizaciones a menos de {miles} mi",
+  "nearby.miles": "{miles} mi",
+  "nearby.withinHeading": "A MENOS DE {miles} MI · {count}",
+  "nearby.noneOpen": "Ninguna organización a menos de {miles} mi está abierta en el horario seleccionado.",
+  "nearby.none": "No hay organizaciones a menos de {miles} mi. Prueba con un radio mayor.",
+
+  "org.hours": "Horario",
+  "org.openNow": "Abierto ahora",
+  "org.closedToday": "Cerrado hoy · {reason}",
+  "org.closedNow": "Cerrado ahora",
+  "org.unverified": "Sin verificar",
+  "org.straightLineDistance": "Distancia en línea recta",
+  "org.annualRevenue": "Ingresos anuales reportados por ProPublica",
+  "org.phone": "Teléfono:",
+  "org.website": "Sitio web",
+  "org.zoomToLocation": "Acercar al lugar",
+  "org.zoom": "Acercar",
+  "org.issue": "¿Problema?",
+
+  "category.health": "Salud",
+  "category.education": "Educación",
+  "category.justice": "Justicia",
+  "category.economy": "Economía",
+  "category.food": "Alimentos",
+
+  "addOrg.categoryHealth": "Clínicas, hospitales, organizaciones de bienestar",
+  "addOrg.categoryEducation": "Escuelas, tutorías, centros de capacitación",
+  "addOrg.categoryJustice": "Asistencia legal, defensa, apoyo para la reinserción",
+  "addOrg.categoryEconomy": "Asistencia financiera, servicios de empleo",
+  "addOrg.categoryFood": "Despensas de alimentos, servicios de comidas, víveres",
+  "addOrg.statusActive": "Activa",
+  "addOrg.statusMoved": "Se mudó",
+  "addOrg.statusClosed": "Cerrada",
+  "addOrg.errorName": "El nombre de la organización es obligatorio.",
+  "addOrg.errorEmail": "El correo del responsable es obligatorio para que puedas corregir los datos más adelante.",
+  "addOrg.errorAddress": "La dirección es obligatoria para ubicar el lugar.",
+  "addOrg.errorCity": "La ciudad es obligatoria para ubicar el lugar.",
+  "addOrg.errorState": "El estado es obligatorio para ubicar el lugar.",
+  "addOrg.errorPostalCode": "El código postal es obligatorio para ubicar el lugar.",
+  "addOrg.errorOfflineSave": "No tienes conexión y no pudimos guardar esto en tu dispositivo. Inténtalo de nuevo cuando estés en línea.",
+  "addOrg.errorSave": "No pudimos guardar la organización. Inténtalo de nuevo.",
+  "addOrg.backToMap": "← Al mapa",
+  "addOrg.intro": "Comparte los datos de una organización comunitaria o negocio para que tus vecinos lo encuentren en el mapa. Si no tienes una organización y solo quieres compartir comida, usa el botón de abajo...",
+  "addOrg.findNearby": "Buscar una organización cercana para donar comida",
+  "addOrg.step1": "01 — Lo esencial",
+  "addOrg.step1Title": "Datos de la organización",
+  "addOrg.step1Body": "Cuéntanos qué organización agregas y cómo contactar a la persona que podrá editarla después.",
+  "addOrg.name": "Nombre de la organización",
+  "addOrg.namePlaceholder": "Centro de recursos comunitarios",
+  "addOrg.email": "Correo de contacto",
+  "addOrg.emailHelp": "Es necesario para que puedas editar los datos de tu organización en el futuro.",
+  "addOrg.category": "Categoría",
+  "addOrg.status": "Estado",
+  "addOrg.step2": "02 — Ubicación y contacto",
+  "addOrg.step2Title": "¿Dónde se encuentra?",
+  "addOrg.step2Body": "Ingresa la dirección y ubicaremos el marcador en el mapa automáticamente. Los datos de contacto ayudan a los vecinos a comunicarse.",
+  "addOrg.address": "Dirección",
+  "addOrg.addressPlaceholder": "123 Community Ave. (o pega la dirección completa)",
+  "addOrg.city": "Ciudad",
+  "addOrg.state": "Estado",
+  "addOrg.postalCode": "Código postal",
+  "addOrg.locationFound": "✓ Ubicación encontrada",
+  "addOrg.coordinates": "Coordenadas: {latitude}, {longitude}",
+  "addOrg.phone": "Teléfono",
+  "addOrg.hoursTitle": "Horario de atención (opcional)",
+  "addOrg.hoursHelp": "Marca los días y el horario, y luego agrega las excepciones",
+  "addOrg.step3": "03 — Extras opcionales",
+  "addOrg.step3Title": "Ayúdanos a contar la historia completa",
+  "addOrg.step3Body": "Los sitios web, las fuentes y los tipos de servicio ayudan a los residentes a saber qué esperar antes de ir.",
+  "addOrg.websitePlaceholder": "ejemplo.org (agregaremos https:// por ti)",
+  "addOrg.subtype": "Tipo de organización",
+  "addOrg.subtypePlaceholder": "Banco de alimentos",
+  "addOrg.queuedOffline": "Se guardó en este dispositivo. Enviaremos tu solicitud en cuanto vuelvas a estar en línea.",
+  "addOrg.submitted": "¡Gracias por tu envío! Revisaremos y agregaremos tu lugar al mapa lo antes posible.",
+  "addOrg.submit": "Enviar para aprobación",
+
+  "chips.organizations": "Organizaciones",
+  "chips.hideOrganizations": "Ocultar organizaciones",
+  "chips.showOrganizations": "Mostrar organizaciones",
+  "chips.statExtremes": "Extremos de la estadística",
+  "chips.hideExtremas": "Ocultar indicadores de extremos",
+  "chips.showExtremas": "Mostrar indicadores de extremos",
+  "chips.drawArea": "Dibujar área",
+  "chips.drawRadius": "Radio",
+  "chips.drawClear": "Borrar",
+  "chips.drawAreaTitle": "Traza un área en el mapa",
+  "chips.drawRadiusTitle": "Arrastra desde un punto central para fijar un radio",
+  "chips.drawClearTitle": "Borrar el área dibujada",
+  "chips.openNow": "Abierto ahora",
+  "chips.hoursOpen": "Horario",
+  "chips.clearTimeFilter": "Quitar filtro de horario",
+  "chips.areasMode": "Modo de áreas",
+  "chips.areasLabel": "Áreas: {mode}",
+  "chips.areasZoom": "Zoom",
+  "chips.areasZips": "Códigos postales",
+  "chips.areasCounties": "Condados",
+  "chips.areasTracts": "Sectores censales",
+  "chips.areasNone": "Ninguna",
+  "chips.showingZips": "Códigos postales",
+  "chips.csvAreasUnavailable": "Activa el modo de estadísticas avanzadas y selecciona uno o más códigos postales o condados para exportar el CSV.",
+  "chips.csvAreasTitle": "Descargar CSV de las áreas seleccionadas (igual que la exportación de la barra lateral)",
+  "chips.linkCopy": "Enlace URL: copiar",
+  "chips.linkCopying": "Enlace URL: copiando...",
+  "chips.embedCopy": "Insertar: obtener código",
+  "chips.embedCopying": "Insertar: abriendo...",
+  "chips.screenshotCopy": "Captura: copiar",
+  "chips.screenshotCopying": "Captura: copiando...",
+  "chips.screenshotDownload": "Captura: descargar",
+  "chips.screenshotDownloading": "Captura: descargando...",
+  "chips.csvAreasDownload": "CSV de áreas: descargar",
+  "chips.csvAreasDownloading": "CSV de áreas: descargando...",
+  "chips.linkCopyTitle": "Copiar la URL y los parámetros de la página actual",
+  "chips.embedCopyTitle": "Obtener el código iframe para insertar la vista actual del mapa en otro sitio web",
+  "chips.screenshotCopyTitle": "Copiar una captura del mapa al portapapeles",
+  "chips.screenshotDownloadTitle": "Descargar una captura PNG del mapa",
+  "chips.showOnMap": "Mostrar en el mapa",
+  "chips.showing": "Mostrando:",
+  "chips.orgs": "Organizaciones",
+  "chips.extremes": "Extremos",
+  "chips.showingOptions": "Opciones de visualización",
+  "chips.shareOptions": "Opciones para compartir",
+  "chips.share": "Compartir",
+  "chips.expandSidebar": "Expandir barra lateral",
+  "chips.openSearch": "Abrir búsqueda",
+  "chips.searchPlaceholder": "Ciudad, lugar, código postal, dirección, ...",
+  "chips.searchOrganizations": "Buscar organizaciones",
+  "chips.submitSearch": "Buscar",
+  "chips.selectStatOption": "Elegir opción de estadística",
+  "chips.deselectStat": "Quitar estadística",
+  "chips.statOptions": "Opciones de estadística",
+  "chips.secondaryTitle": "Secundaria: {name}",
+  "chips.bivariate": "Bivariado",
+  "chips.bivariateOnTitle": "Mostrar la estadística secundaria como círculos",
+  "chips.bivariateOffTitle": "Colorear áreas con ambas estadísticas (mapa bivariado 3×3)",
+
+  "tour.welcomeLabel": "Recorrido de bienvenida",
+  "tour.welcomeTitle": "Te damos la bienvenida a Neighborhood Explorer",
+  "tour.welcomeBody": "¡Hola, vecino! Este mapa te ayuda a conocer lo que está pasando en las comunidades de Oklahoma. Incluye información de fuentes públicas confiables, datos adquiridos y aportes de vecinos de la zona. Puedes explorar distintos lugares de Oklahoma, ver cómo cambian las cosas con el tiempo y enfocarte en lo que te importa. Cuando quieras, puedes hacer un recorrido rápido para empezar.",
+  "tour.startTour": "Iniciar recorrido",
+  "tour.restartHint": "Haz clic aquí para volver a iniciar el recorrido",
+  "tour.next": "Siguiente",
+  "tour.dismiss": "Descartar",
+  "tour.back": "Atrás",
+  "tour.done": "Listo",
+  "tour.submitFeedback": "Enviar comentarios",
+  "tour.progress": "{completed}/{total} pasos",
+  "tour.changeAction": "Cambia la versión de la estadística en el mapa. Cargando los datos de cambio en el tiempo...",
+  "tour.changeNote": "Mira las áreas de OK que más residentes ganan (azul índigo) y pierden (morado ciruela).",
+  "tour.extremasBody": "Mira los lugares con los valores más altos y más bajos de las estadísticas destacadas.",
+  "tour.extremasAction": "Pasa el ratón sobre los dos triángulos rojos del condado de Oklahoma para ver qué temas son más extremos allí en todo OK.",
+  "tour.orgsBody": "Las organizaciones aparecen en el mapa como grupos numerados naranjas o como círculos individuales.",
+  "tour.orgsAction": "Haz clic en los círculos naranjas para ver qué organizaciones sin fines de lucro están más cerca de estas áreas azules con alta inscripción en SNAP.",
+  "tour.areasBody": "Mira cómo cambian los límites del mapa según el zoom, o fíjalos en códigos postales, condados, etc.",
+  "tour.areasAction": "Acércate al condado de Payne, o selecciona \"Áreas: Códigos postales\", para ver qué códigos postales sufren más la alta carga de alquiler de Payne.",
+  "tour.shareBody": "¡Comparte la vista actual del mapa! Agrégala a una presentación, inserta un mapa en vivo en tu sitio web, etc.",
+  "tour.shareAction": "Pega este mapa de matrimonio (command/control+v) en un documento, diapositiva, publicación, etc.",
+  "tour.searchBody": "Busca estadísticas, organizaciones, códigos postales o direcciones. Explora los datos.",
+  "tour.searchAction": "Haz clic en el icono de menú de tres líneas para ver las opciones disponibles.",
+  "tour.statDetailsBody": "Conoce y ajusta la estadística activa (p. ej., graduación de secundaria).",
+  "tour.statDetailsAction": "Activa \"Other Degrees: Graduate...\" y \"Options: Change '21-23\" para ver qué áreas han sumado más títulos de posgrado en relación con su tamaño recientemente.",
+  "tour.advancedBody": "Modo de estadísticas avanzadas para ver gráficos de las áreas seleccionadas.",
+  "tour.advancedAction": "Pasa el ratón sobre el gráfico para ver qué tan rápido crece la población de 73108.",
+  "tour.addAreasBody": "Agrega más áreas para comparar.",
+  "tour.addAreasAction": "¡Escribe un código postal o haz shift+clic en uno del mapa! Como 73129, que acabamos de agregar.",
+  "tour.addAreasNote": "¿Por qué un área crece y la vecina disminuye?",
+  "tour.demographicsBody": "Mira el desglose demográfico de las áreas seleccionadas.",
+  "tour.demographicsAction": "Pasa el ratón sobre las barras para ver los grupos étnicos, niveles de ingreso, etc. más grandes de esta zona de rápido crecimiento.",
+  "tour.otherStatsNoteBefore": "¿Qué áreas tienen ",
+  "tour.otherStatsNoteBoth": "a la vez",
+  "tour.otherStatsNoteAfter": " altas necesidades de alimentos y de discapacidad?",
+  "tour.otherStatsBody": "Más estadísticas para explorar (p. ej., hogares que reciben SNAP, que se muestra ahora) o superponer...",
+  "tour.otherStatsAction": "Haciendo shift+clic en la estadística \"Has Disability\" para superponerla (puntos verdes) sobre la de SNAP.",
+  "tour.orgsTabBody": "Cambia a la pestaña de organizaciones para ver las organizaciones de la vista actual del mapa.",
+  "tour.orgsTabAction": "Haz clic en una tarjeta de organización para ver su ubicación entre estas poblaciones con alta inscripción en SNAP.",
+  "tour.categoryBody": "Filtra organizaciones y estadísticas para ver los esfuerzos relacionados con ciertos tipos de necesidades.",
+  "tour.categoryAction": "Arrastra el mapa para ver en la barra lateral solo las organizaciones de educación de tu vista.",
+  "tour.categoryNote": "¿Qué organizaciones educativas se concentran cerca de las áreas con menor graduación de secundaria?",
+  "tour.finaleBody": "¡Gracias por explorar con nosotros! Si tienes preguntas o ideas, escríbenos a ",
+  "tour.myLocationAction": "Acercando el mapa a tu ubicación actual.",
+  "tour.myLocationNote": "¿Qué notas sobre el nivel de ingresos de las personas en tu zona o cerca de ella?",
+  "tour.legendBody": "Muestra los valores más altos y más bajos posibles de la estadística activa.",
+  "tour.brandLogoBody": "Restablece el mapa y la interfaz a los valores predeterminados.",
+  "tour.brandLogoAction": "Se hizo clic en el logo de la app NE en la esquina superior izquierda",
+
+  "offline.title": "Sin conexión.",
+  "offline.savedAt": "Mostrando ubicaciones guardadas el {date}.",
+  "offline.savedData": "Mostrando datos del mapa guardados.",
+  "offline.queued.one": "{count} envío se mandará cuando vuelvas a conectarte.",
+  "offline.queued.other": "{count} envíos se mandarán cuando vuelvas a conectarte.",
+  "offline.failed.one": "No se pudo mandar {count} envío guardado. Lo intentaremos de nuevo cuando vuelvas a conectarte.",
+  "offline.failed.other": "No se pudieron mandar {count} envíos guardados. Lo intentaremos de nuevo cuando vuelvas a conectarte.",
+  "offline.sent.one": "Conexión restablecida. Se mandó {count} envío guardado.",
+  "offline.sent.other": "Conexión restablecida. Se mandaron {count} envíos guardados.",
+  "offline.dismiss": "Descartar",
+
+  "table.show": "Ver tabla",
+  "table.hide": "Ocultar tabla",
+  "table.skip": "Ir a la tabla de datos",
+  "table.title": "Tabla de datos del mapa",
+  "table.close": "Cerrar tabla",
+  "table.areaType": "Tipo de área",
+  "table.zips": "Códigos postales",
+  "table.counties": "Condados",
+  "table.byZip": "{stat} por código postal",
+  "table.byCounty": "{stat} por condado",
+  "table.forDate": "{caption}, {date}",
+  "table.stateAverage": "Promedio estatal: {value}",
+  "table.instructions": "Usa las flechas arriba y abajo para moverte entre las áreas. Presiona Enter o Espacio para seleccionar o quitar un área en el mapa.",
+  "table.column.area": "Área",
+  "table.column.value": "Valor",
+  "table.column.rank": "Posición",
+  "table.column.vsState": "vs. promedio estatal",
+  "table.column.selected": "Seleccionada",
+  "table.rank": "{rank} de {total}",
+  "table.above": "{value} por encima",
+  "table.below": "{value} por debajo",
+  "table.same": "Igual",
+  "table.noData": "Sin datos",
+  "table.yes": "Sí",
+  "table.no": "No",
+  "table.noStat": "Elige una estadística para ver los valores de cada área.",
+  "table.noRows": "Ninguna área tiene datos para esta estadística.",
+  "table.announce.stat": "Mostrando {caption}.",
+  "table.announce.noStat": "No hay ninguna estadística seleccionada.",
+  "table.announce.selected": "{area} seleccionada.",
+  "table.announce.deselected": "{area} quitada de la selección.",
+  "table.areaCount.one": "{count} área en la lista.",
+  "table.areaCount.other": "{count} áreas en la lista.",
+  "table.added.one": "{count} área agregada a la selección.",
+  "table.added.other": "{count} áreas agregadas a la selección.",
+  "table.removed.one": "{count} área quitada de la selección.",
+  "table.removed.other": "{count} áreas quitadas de la selección.",
+  "table.selectedCount.one": "{count} área seleccionada.",
+  "table.selectedCount.other": "{count} áreas seleccionadas.",
+
+  "embed.title": "Insertar este mapa",
+  "embed.description": "Pega este código en tu sitio web. El mapa insertado muestra la estadística, la categoría y las áreas seleccionadas actuales sin la barra lateral ni la barra superior.",
+  "embed.height": "Altura (píxeles)",
+  "embed.hostOrigin": "Tu sitio web (opcional)",
+  "embed.hostOriginHint": "Solo este sitio podrá controlar el mapa o recibir sus eventos de clic, p. ej. https://example.org.",
+  "embed.allowChanges": "Permitir que los visitantes cambien la estadística, la categoría y las áreas",
+  "embed.code": "Código para insertar",
+  "embed.copy": "Copiar código",
+  "embed.close": "Cerrar",
+  "embed.copied": "Código copiado",
+  "embed.copyFailed": "No se pudo acceder al portapapeles. Selecciona el código y cópialo.",
+  "embed.iframeTitle": "Mapa de Neighborhood Explorer",
+
+  "views.button": "Vistas",
+  "views.title": "Vistas guardadas",
+  "views.empty": "Guarda el mapa actual (posición, estadísticas, categoría, áreas y barra lateral) para volver a abrirlo con un clic.",
+  "views.loading": "Cargando vistas...",
+  "views.open": "Abrir {name}",
+  "views.rename": "Cambiar nombre de {name}",
+  "views.moveUp": "Subir {name}",
+  "views.moveDown": "Bajar {name}",
+  "views.delete": "Eliminar {name}",
+  "views.deleteConfirm": "¿Eliminar la vista guardada \"{name}\"?",
+  "views.nameLabel": "Nombre de la vista",
+  "views.namePlaceholder": "Nombra esta vista",
+  "views.save": "Guardar vista actual",
+  "views.limit": "Puedes guardar hasta {count} vistas. Elimina una para guardar otra.",
+  "views.opened": "Se abrió {name}",
+  "views.saved": "Se guardó {name}",
+
+  "scatter.chartType": "Tipo de gráfico",
+  "scatter.mode.trend": "Áreas seleccionadas",
+  "scatter.mode.scatter": "Diagrama de dispersión",
+  "scatter.allZips": "Todos los códigos postales",
+  "scatter.allCounties": "Todos los condados",
+  "scatter.ariaLabel": "{y} según {x} en {count} áreas. {description}, r de Pearson {pearson}, rho de Spearman {spearman}.",
+  "scatter.coefficients": "r de Pearson {pearson} · ρ de Spearman {spearman} · n {count}",
+  "scatter.clickToSelect": "Haz clic para seleccionar",
+  "scatter.clickToDeselect": "Haz clic para quitar de la selección",
+  "scatter.clickDotHint": "Haz clic en un punto para seleccionar esa área",
+  "scatter.correlation.notEnoughData": "Datos insuficientes",
+  "scatter.correlation.none": "Correlación escasa o nula",
+  "scatter.correlation.weakPositive": "Correlación positiva débil",
+  "scatter.correlation.weakNegative": "Correlación negativa débil",
+  "scatter.correlation.moderatePositive": "Correlación positiva moderada",
+  "scatter.correlation.moderateNegative": "Correlación negativa moderada",
+  "scatter.correlation.strongPositive": "Correlación positiva fuerte",
+  "scatter.correlation.strongNegative": "Correlación negativa fuerte",
+};
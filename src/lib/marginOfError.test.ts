@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+
+import { moeOfProduct, moeOfProportion, moeOfRatio, moeOfSum } from "./marginOfError";
+
+describe("ACS margin-of-error approximations", () => {
+  it("combines sums and differences by root-sum-of-squares", () => {
+    expect(moeOfSum([3, 4])).toBe(5);
+    expect(moeOfSum([3, undefined])).toBeNull();
+    expect(moeOfSum([])).toBeNull();
+  });
+
+  it("uses the proportion formula and falls back to the ratio formula", () => {
+    // Census handbook example: 2,000 ± 200 of 10,000 ± 500
+    expect(moeOfProportion(2000, 200, 10000, 500)).toBeCloseTo(Math.sqrt(200 ** 2 - 0.2 ** 2 * 500 ** 2) / 10000);
+    // Radicand goes negative here, so the ratio formula applies.
+    expect(moeOfProportion(90, 10, 100, 50)).toBeCloseTo(moeOfRatio(90, 10, 100, 50) as number);
+    expect(moeOfProportion(1, 1, 0, 1)).toBeNull();
+  });
+
+  it("computes ratio and product margins", () => {
+    expect(moeOfRatio(50, 5, 100, 10)).toBeCloseTo(Math.sqrt(25 + 0.25 * 100) / 100);
+    expect(moeOfProduct(10, 1, 20, 2)).toBeCloseTo(Math.sqrt(100 * 4 + 400 * 1));
+  });
+});
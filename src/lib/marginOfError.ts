@@ -0,0 +1,58 @@
+// Margin-of-error approximations for combining ACS estimates, following the
+// Census Bureau's "Understanding and Using ACS Data" guidance. All inputs and
+// outputs are MOEs at the same confidence level (90% for ACS tables). These
+// assume independent estimates, so results are approximations.
+
+const isFiniteNum = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/** MOE of a sum or difference: sqrt(MOE₁² + MOE₂² + …). */
+export const moeOfSum = (moes: Array<number | null | undefined>): number | null => {
+  if (moes.length === 0) return null;
+  let total = 0;
+  for (const moe of moes) {
+    if (!isFiniteNum(moe)) return null;
+    total += moe * moe;
+  }
+  return Math.sqrt(total);
+};
+
+/** MOE of a ratio R = X / Y where X is not a subset of Y. */
+export const moeOfRatio = (
+  numerator: number,
+  numeratorMoe: number | null | undefined,
+  denominator: number,
+  denominatorMoe: number | null | undefined,
+): number | null => {
+  if (!isFiniteNum(numeratorMoe) || !isFiniteNum(denominatorMoe) || denominator === 0) return null;
+  const ratio = numerator / denominator;
+  return Math.sqrt(numeratorMoe ** 2 + ratio ** 2 * denominatorMoe ** 2) / Math.abs(denominator);
+};
+
+/**
+ * MOE of a proportion P = X / Y where X is a subset of Y. When the term under
+ * the square root goes negative the Census guidance is to fall back to the
+ * ratio formula.
+ */
+export const moeOfProportion = (
+  numerator: number,
+  numeratorMoe: number | null | undefined,
+  denominator: number,
+  denominatorMoe: number | null | undefined,
+): number | null => {
+  if (!isFiniteNum(numeratorMoe) || !isFiniteNum(denominatorMoe) || denominator === 0) return null;
+  const proportion = numerator / denominator;
+  const radicand = numeratorMoe ** 2 - proportion ** 2 * denominatorMoe ** 2;
+  if (radicand < 0) return moeOfRatio(numerator, numeratorMoe, denominator, denominatorMoe);
+  return Math.sqrt(radicand) / Math.abs(denominator);
+};
+
+/** MOE of a product X × Y. */
+export const moeOfProduct = (
+  a: number,
+  aMoe: number | null | undefined,
+  b: number,
+  bMoe: number | null | undefined,
+): number | null => {
+  if (!isFiniteNum(aMoe) || !isFiniteNum(bMoe)) return null;
+  return Math.sqrt(a ** 2 * bMoe ** 2 + b ** 2 * aMoe ** 2);
+};
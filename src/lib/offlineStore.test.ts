@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { flushOutboxItems, type OutboxItem } from "./offlineStore";
+
+const item = (id: string): OutboxItem => ({
+  id,
+  kind: "issue-report",
+  queuedAt: 0,
+  attempts: 0,
+  lastError: null,
+  payload: {},
+});
+
+describe("flushOutboxItems", () => {
+  it("sends items in order and stops at the first network failure", async () => {
+    const sent: string[] = [];
+    const failed: string[] = [];
+    const count = await flushOutboxItems(
+      [item("a"), item("b"), item("c")],
+      async (next) => {
+        if (next.id === "b") throw new TypeError("Failed to fetch");
+      },
+      {
+        onSent: async (next) => {
+          sent.push(next.id);
+        },
+        onFailed: async (next) => {
+          failed.push(next.id);
+        },
+      },
+    );
+    expect(count).toBe(1);
+    expect(sent).toEqual(["a"]);
+    expect(failed).toEqual([]);
+  });
+
+  it("records server rejections and keeps going", async () => {
+    const sent: string[] = [];
+    const failed: Array<[string, string]> = [];
+    const count = await flushOutboxItems(
+      [item("a"), item("b"), item("c")],
+      async (next) => {
+        if (next.id === "a") throw new Error("Address not found");
+      },
+      {
+        onSent: async (next) => {
+          sent.push(next.id);
+        },
+        onFailed: async (next, message) => {
+          failed.push([next.id, message]);
+        },
+      },
+    );
+    expect(count).toBe(2);
+    expect(sent).toEqual(["b", "c"]);
+    expect(failed).toEqual([["a", "Address not found"]]);
+  });
+});
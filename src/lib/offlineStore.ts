@@ -0,0 +1,185 @@
+// Offline storage: the last organizations snapshot and an outbox of writes
+// made without a connection. Kept apart from persistentStatsCache so clearing
+// the stat cache never drops a queued submission.
+
+export type OfflineSnapshot<T> = {
+  key: string;
+  savedAt: number;
+  rows: T[];
+};
+
+export type OutboxItem<T = unknown> = {
+  id: string;
+  kind: string;
+  queuedAt: number;
+  attempts: number;
+  lastError: string | null;
+  payload: T;
+};
+
+const OFFLINE_DB_NAME = "neprotomin-offline";
+const OFFLINE_DB_VERSION = 1;
+
+const STORE_SNAPSHOTS = "snapshots";
+const STORE_OUTBOX = "outbox";
+
+export const ORGANIZATIONS_SNAPSHOT_KEY = "organizations";
+
+const listeners = new Set<() => void>();
+
+const channel: BroadcastChannel | null =
+  typeof window !== "undefined" && typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel("neprotomin-offline")
+    : null;
+
+channel?.addEventListener("message", () => {
+  for (const listener of listeners) listener();
+});
+
+/** Called whenever the outbox changes in this tab or another one. */
+export const subscribeToOutbox = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyOutboxChanged = () => {
+  for (const listener of listeners) listener();
+  try {
+    channel?.postMessage({ type: "outbox" });
+  } catch {
+    // Best-effort cross-tab update only.
+  }
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const txDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+    tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed"));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB unavailable"));
+      return;
+    }
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_SNAPSHOTS)) {
+        db.createObjectStore(STORE_SNAPSHOTS, { keyPath: "key" });
+      }
+      if (!db.objectStoreNames.contains(STORE_OUTBOX)) {
+        const store = db.createObjectStore(STORE_OUTBOX, { keyPath: "id" });
+        store.createIndex("queuedAt", "queuedAt", { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Let a later call retry if opening failed (e.g. private mode).
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T>,
+): Promise<T> => {
+  const db = await getDb();
+  const tx = db.transaction(storeName, mode);
+  const result = await fn(tx.objectStore(storeName));
+  await txDone(tx).catch(() => {});
+  return result;
+};
+
+export const readSnapshot = async <T>(key: string): Promise<OfflineSnapshot<T> | null> => {
+  try {
+    const record = await withStore(STORE_SNAPSHOTS, "readonly", (store) =>
+      requestToPromise<OfflineSnapshot<T> | undefined>(store.get(key)),
+    );
+    return record && Array.isArray(record.rows) ? record : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeSnapshot = async <T>(key: string, rows: T[], savedAt = Date.now()): Promise<void> => {
+  try {
+    await withStore(STORE_SNAPSHOTS, "readwrite", async (store) => {
+      await requestToPromise(store.put({ key, savedAt, rows } satisfies OfflineSnapshot<T>));
+    });
+  } catch (error) {
+    console.warn("[offline] Failed to save snapshot", error);
+  }
+};
+
+/** Queued items, oldest first. */
+export const listOutbox = async (): Promise<OutboxItem[]> => {
+  try {
+    return await withStore(STORE_OUTBOX, "readonly", (store) =>
+      requestToPromise<OutboxItem[]>(store.index("queuedAt").getAll()),
+    );
+  } catch {
+    return [];
+  }
+};
+
+export const putOutboxItem = async (item: OutboxItem): Promise<void> => {
+  await withStore(STORE_OUTBOX, "readwrite", async (store) => {
+    await requestToPromise(store.put(item));
+  });
+  notifyOutboxChanged();
+};
+
+export const removeOutboxItem = async (id: string): Promise<void> => {
+  await withStore(STORE_OUTBOX, "readwrite", async (store) => {
+    await requestToPromise(store.delete(id));
+  });
+  notifyOutboxChanged();
+};
+
+export const isOffline = (): boolean => typeof navigator !== "undefined" && navigator.onLine === false;
+
+// fetch rejects with a TypeError when the request never reaches the server.
+const isNetworkError = (error: unknown): boolean => error instanceof TypeError || isOffline();
+
+/**
+ * Sends items oldest first. A network failure stops the run so the rest wait
+ * for the next reconnect; any other failure is recorded on the item and the
+ * run moves on.
+ */
+export const flushOutboxItems = async <T extends OutboxItem>(
+  items: T[],
+  send: (item: T) => Promise<void>,
+  { onSent, onFailed }: { onSent: (item: T) => Promise<void>; onFailed: (item: T, message: string) => Promise<void> },
+): Promise<number> => {
+  let sent = 0;
+  for (const item of items) {
+    try {
+      await send(item);
+    } catch (error) {
+      if (isNetworkError(error)) break;
+      await onFailed(item, error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    await onSent(item);
+    sent += 1;
+  }
+  return sent;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import type { OrganizationSeed } from "../data/organizations";
+import { planOrganizationSeed } from "./organizationSeed";
+
+const seeds: OrganizationSeed[] = [
+  { name: "Greenwood Community Works", latitude: 36.16, longitude: -95.98, category: "economy" },
+  { name: "Riverside Pantry", latitude: 36.1, longitude: -95.9, category: "food", city: "Tulsa" },
+  { name: "Unchanged Clinic", latitude: 36.2, longitude: -95.8, category: "health" },
+];
+
+const stored = (seed: OrganizationSeed, id: string) => ({
+  id,
+  name: seed.name,
+  website: null,
+  latitude: seed.latitude,
+  longitude: seed.longitude,
+  category: seed.category,
+  status: "active",
+  source: "seed",
+  address: null,
+  city: seed.city ?? null,
+  state: null,
+  postalCode: null,
+});
+
+describe("planOrganizationSeed", () => {
+  it("pairs each seed write with a script audit record", () => {
+    const existing = [
+      { ...stored(seeds[1], "org-riverside"), city: "Broken Arrow" },
+      stored(seeds[2], "org-clinic"),
+    ];
+    const writes = planOrganizationSeed(existing, seeds, () => "org-new");
+
+    expect(writes.map((write) => write.recordId)).toEqual(["org-new", "org-riverside"]);
+
+    const [created, updated] = writes;
+    expect(created.payload).toMatchObject({ name: "Greenwood Community Works", issueCount: 0 });
+    expect(created.audit).toMatchObject({
+      entity: "organizations",
+      recordId: "org-new",
+      recordLabel: "Greenwood Community Works",
+      action: "create",
+      source: "script",
+      sourceDetail: "seed",
+    });
+
+    expect(updated.payload).not.toHaveProperty("issueCount");
+    expect(updated.audit).toMatchObject({ action: "update", source: "script" });
+    expect(updated.audit?.changes).toEqual({ city: { before: "Broken Arrow", after: "Tulsa" } });
+  });
+});
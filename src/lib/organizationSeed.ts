@@ -0,0 +1,88 @@
+import type { OrganizationSeed } from "../data/organizations";
+import { buildAuditRecord, type AuditRecord } from "./auditLog";
+
+export type OrganizationSeedWrite = {
+  recordId: string;
+  payload: Record<string, unknown>;
+  audit: AuditRecord | null;
+};
+
+const toPayload = (seed: OrganizationSeed, isNew: boolean) => ({
+  name: seed.name,
+  website: seed.website ?? null,
+  latitude: seed.latitude,
+  longitude: seed.longitude,
+  category: seed.category,
+  status: seed.status ?? "active",
+  source: "seed",
+  address: seed.address ?? null,
+  city: seed.city ?? null,
+  state: seed.state ?? null,
+  postalCode: seed.postalCode ?? null,
+  ...(isNew ? { issueCount: 0 } : {}),
+});
+
+const needsUpdate = (existing: any, payload: ReturnType<typeof toPayload>) =>
+  existing.website !== payload.website ||
+  existing.latitude !== payload.latitude ||
+  existing.longitude !== payload.longitude ||
+  existing.category !== payload.category ||
+  (existing.status ?? "active") !== payload.status ||
+  (existing.source ?? null) !== payload.source ||
+  (existing.address ?? null) !== payload.address ||
+  (existing.city ?? null) !== payload.city ||
+  (existing.state ?? null) !== payload.state ||
+  (existing.postalCode ?? null) !== payload.postalCode;
+
+/**
+ * Organization writes that bring the stored seed rows in line with `seeds`,
+ * each paired with its audit log record. Existing rows are matched by name.
+ */
+export const planOrganizationSeed = (
+  existingOrgs: any[],
+  seeds: OrganizationSeed[],
+  createId: () => string,
+): OrganizationSeedWrite[] => {
+  const existingByName = new Map<string, any>();
+  for (const org of existingOrgs) {
+    if (org?.name) existingByName.set(org.name, org);
+  }
+
+  const writes: OrganizationSeedWrite[] = [];
+  for (const seed of seeds) {
+    const existing = existingByName.get(seed.name);
+    if (existing && existing.id) {
+      const payload = toPayload(seed, false);
+      if (!needsUpdate(existing, payload)) continue;
+      writes.push({
+        recordId: existing.id,
+        payload,
+        audit: buildAuditRecord({
+          entity: "organizations",
+          recordId: existing.id,
+          action: "update",
+          before: existing,
+          after: payload,
+          source: "script",
+          sourceDetail: "seed",
+        }),
+      });
+    } else {
+      const recordId = createId();
+      const payload = toPayload(seed, true);
+      writes.push({
+        recordId,
+        payload,
+        audit: buildAuditRecord({
+          entity: "organizations",
+          recordId,
+          action: "create",
+          after: payload,
+          source: "script",
+          sourceDetail: "seed",
+        }),
+      });
+    }
+  }
+  return writes;
+};
@@ -1,7 +1,7 @@
 // Persistent (cross-refresh/tab) cache for stat summaries + heavy stat maps.
 // Uses IndexedDB so we can store large payloads without blocking the UI thread.
 
-export type StatBoundaryType = "ZIP" | "COUNTY";
+export type StatBoundaryType = "ZIP" | "COUNTY" | "TRACT";
 
 export type StatSummaryRow = {
   statId: string;
@@ -67,6 +67,7 @@ const STORE_SUMMARIES = "summaries";
 const STORE_STAT_MAPS = "statMaps";
 
 const META_SCHEMA_KEY = "schemaVersion";
+const META_PINNED_KEY = "pinnedStatIds";
 
 const SUMMARY_KEY = (parentArea: string, boundaryType: StatBoundaryType) =>
   `v${CACHE_SCHEMA_VERSION}:summaries:${parentArea}:${boundaryType}`;
@@ -265,8 +266,34 @@ export const readStatMapCache = async ({
   }
 };
 
+/**
+ * Stats whose maps stay cached past the LRU limit so they're still there
+ * offline (the ones currently on the map).
+ */
+export const setPinnedStatIds = async (statIds: string[]): Promise<void> => {
+  try {
+    await withStore(STORE_META, "readwrite", async (store) => {
+      await requestToPromise(store.put({ key: META_PINNED_KEY, value: Array.from(new Set(statIds)) }));
+    });
+  } catch (error) {
+    console.warn("[cache] Failed to persist pinned stats", error);
+  }
+};
+
+const readPinnedStatIds = async (): Promise<Set<string>> => {
+  try {
+    const record = await withStore(STORE_META, "readonly", async (store) =>
+      requestToPromise<{ key: string; value: unknown } | undefined>(store.get(META_PINNED_KEY)),
+    );
+    return new Set(Array.isArray(record?.value) ? (record.value as string[]) : []);
+  } catch {
+    return new Set();
+  }
+};
+
 const enforceStatMapLimit = async (maxEntries: number) => {
   if (maxEntries <= 0) return;
+  const pinned = await readPinnedStatIds();
   await withStore(STORE_STAT_MAPS, "readwrite", async (store) => {
     const index = store.index("lastAccessedAt");
     const keysToDelete: string[] = [];
@@ -281,10 +308,11 @@ const enforceStatMapLimit = async (maxEntries: number) => {
           resolve();
           return;
         }
-        count += 1;
-        if (count > maxEntries) {
-          const value = cursor.value as PersistedStatMapCache;
-          if (value?.key) keysToDelete.push(String(value.key));
+        const value = cursor.value as PersistedStatMapCache;
+        // Pinned maps don't count toward the limit and are never evicted.
+        if (!pinned.has(value?.statId)) {
+          count += 1;
+          if (count > maxEntries && value?.key) keysToDelete.push(String(value.key));
         }
         cursor.continue();
       };
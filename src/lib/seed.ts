@@ -4,6 +4,8 @@ import { organizationSeedData } from "../data/organizations";
 import { ensureAllZipDataLoaded, getAllZipCodes, getZipBounds, getZipCountyName } from "./zipBoundaries";
 import { getAllCountyIds, getCountyBounds } from "./countyBoundaries";
 import { db } from "./db";
+import { toAuditAttrs } from "./auditLog";
+import { planOrganizationSeed } from "./organizationSeed";
 import { ensureZipCentroidsLoaded, getZipCentroidsMap } from "./zipCentroids";
 import { getCountyCentroidsMap, getCountyName } from "./countyCentroids";
 import type { AreaKind } from "../types/areas";
@@ -27,46 +29,12 @@ export const ensureOrganizationsSeeded = async (): Promise<void> => {
         },
       });
 
-      const existingByName = new Map<string, any>();
-      for (const org of data.organizations ?? []) {
-        if (org?.name) existingByName.set(org.name, org);
-      }
-
+      // Audit rows need an admin session; for anyone else the transaction is
+      // rejected and the seed is skipped below.
       const txs: any[] = [];
-      for (const seed of organizationSeedData) {
-      const existing = existingByName.get(seed.name);
-      const payload = {
-        name: seed.name,
-        website: seed.website ?? null,
-        latitude: seed.latitude,
-        longitude: seed.longitude,
-        category: seed.category,
-        status: seed.status ?? "active",
-        source: "seed",
-        address: seed.address ?? null,
-        city: seed.city ?? null,
-        state: seed.state ?? null,
-        postalCode: seed.postalCode ?? null,
-        ...(existing ? {} : { issueCount: 0 }),
-      };
-        if (existing && existing.id) {
-          const needsUpdate =
-            existing.website !== payload.website ||
-            existing.latitude !== payload.latitude ||
-            existing.longitude !== payload.longitude ||
-            existing.category !== payload.category ||
-            (existing.status ?? "active") !== payload.status ||
-            (existing.source ?? null) !== payload.source ||
-            (existing.address ?? null) !== payload.address ||
-            (existing.city ?? null) !== payload.city ||
-            (existing.state ?? null) !== payload.state ||
-            (existing.postalCode ?? null) !== payload.postalCode;
-          if (needsUpdate) {
-            txs.push(db.tx.organizations[existing.id].update(payload));
-          }
-        } else {
-          txs.push(db.tx.organizations[id()].update(payload));
-        }
+      for (const write of planOrganizationSeed(data.organizations ?? [], organizationSeedData, id)) {
+        txs.push(db.tx.organizations[write.recordId].update(write.payload));
+        if (write.audit) txs.push(db.tx.auditLog[id()].update(toAuditAttrs(write.audit)));
       }
 
       if (txs.length > 0) {
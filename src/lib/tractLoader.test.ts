@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  formatTractCode,
+  getCountyFipsForTract,
+  hasTractGeometry,
+  isTractModeAvailable,
+  normalizeTractId,
+} from "./tractLoader";
+
+describe("normalizeTractId", () => {
+  it("accepts bare 11-digit GEOIDs", () => {
+    expect(normalizeTractId("40143000100")).toBe("40143000100");
+    expect(normalizeTractId("  40109107200 ")).toBe("40109107200");
+  });
+
+  it("strips the Census API geo prefix and separators", () => {
+    expect(normalizeTractId("1400000US40143002501")).toBe("40143002501");
+    expect(normalizeTractId("40-143-002501")).toBe("40143002501");
+  });
+
+  it("rejects values that are not tract GEOIDs", () => {
+    expect(normalizeTractId("74103")).toBeNull();
+    expect(normalizeTractId("")).toBeNull();
+    expect(normalizeTractId(null)).toBeNull();
+  });
+});
+
+describe("tract GEOID helpers", () => {
+  it("extracts the county FIPS", () => {
+    expect(getCountyFipsForTract("40143002501")).toBe("40143");
+    expect(getCountyFipsForTract("bad")).toBeNull();
+  });
+
+  it("formats tract codes the way Census labels them", () => {
+    expect(formatTractCode("40143000100")).toBe("1");
+    expect(formatTractCode("40143002501")).toBe("25.01");
+    expect(formatTractCode("40109107200")).toBe("1072");
+  });
+});
+
+describe("isTractModeAvailable", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("needs both the flag and generated geometry", () => {
+    expect(isTractModeAvailable("ok")).toBe(false);
+    vi.stubEnv("VITE_ENABLE_TRACTS", "1");
+    expect(isTractModeAvailable("ok")).toBe(hasTractGeometry("ok"));
+  });
+});
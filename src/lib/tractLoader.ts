@@ -0,0 +1,309 @@
+import type { Feature, FeatureCollection, Position } from "geojson";
+
+import { oklahomaTractManifest } from "../data/tracts/oklahoma/manifest";
+import { isTractBoundariesEnabled } from "./env";
+import type { OklahomaTractChunkMeta } from "../data/tracts/oklahoma/manifest";
+
+export type BoundsArray = [[number, number], [number, number]];
+
+export type TractStateCode = "ok";
+
+type TractFeature = Feature<
+  GeoJSON.MultiPolygon | GeoJSON.Polygon,
+  { tract: string; county?: string; name?: string; [key: string]: unknown }
+>;
+
+interface StateCache {
+  chunksLoaded: Set<string>;
+  featureCollection: FeatureCollection<GeoJSON.MultiPolygon | GeoJSON.Polygon, { tract: string }>;
+  featuresByTract: Map<string, TractFeature>;
+  boundsByTract: Map<string, BoundsArray>;
+  centroidsByTract: Map<string, [number, number]>;
+  nameByTract: Map<string, string>;
+  chunkTracts: Map<string, Set<string>>;
+  manifestById: Map<string, OklahomaTractChunkMeta>;
+}
+
+const EMPTY_FC: FeatureCollection<GeoJSON.MultiPolygon | GeoJSON.Polygon, { tract: string }> = {
+  type: "FeatureCollection",
+  features: [],
+};
+
+const stateCaches = new Map<TractStateCode, StateCache>();
+
+const manifests: Record<TractStateCode, typeof oklahomaTractManifest> = {
+  ok: oklahomaTractManifest,
+};
+
+// Census tract GEOIDs are state (2) + county (3) + tract (6) digits.
+const TRACT_GEOID_PATTERN = /^\d{11}$/;
+
+export const isTractGeoid = (value: string): boolean => TRACT_GEOID_PATTERN.test(value);
+
+/**
+ * Normalizes user/census input into an 11-digit tract GEOID. Accepts bare GEOIDs,
+ * the Census API's "1400000US40143000100" form, and state/county/tract triples.
+ */
+export const normalizeTractId = (value: string | null | undefined): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const withoutPrefix = trimmed.replace(/^1400000US/i, "");
+  const digits = withoutPrefix.replace(/[^0-9]/g, "");
+  return isTractGeoid(digits) ? digits : null;
+};
+
+/** Returns the 5-digit county FIPS embedded in a tract GEOID. */
+export const getCountyFipsForTract = (geoid: string): string | null =>
+  isTractGeoid(geoid) ? geoid.slice(0, 5) : null;
+
+/** Formats the 6-digit tract code the way the Census labels it (e.g. "000100" -> "1", "002501" -> "25.01"). */
+export const formatTractCode = (geoid: string): string => {
+  if (!isTractGeoid(geoid)) return geoid;
+  const code = geoid.slice(5);
+  const base = String(Number(code.slice(0, 4)));
+  const suffix = code.slice(4);
+  return suffix === "00" ? base : `${base}.${suffix}`;
+};
+
+const intersectsBounds = (a: BoundsArray, b: BoundsArray): boolean =>
+  a[0][0] <= b[1][0] &&
+  a[1][0] >= b[0][0] &&
+  a[0][1] <= b[1][1] &&
+  a[1][1] >= b[0][1];
+
+const getOrCreateStateCache = (state: TractStateCode): StateCache => {
+  let cache = stateCaches.get(state);
+  if (cache) return cache;
+  const manifest = manifests[state];
+  cache = {
+    chunksLoaded: new Set(),
+    featureCollection: { type: "FeatureCollection", features: [] },
+    featuresByTract: new Map(),
+    boundsByTract: new Map(),
+    centroidsByTract: new Map(),
+    nameByTract: new Map(),
+    chunkTracts: new Map(),
+    manifestById: new Map(manifest.map((entry) => [entry.id, entry])),
+  };
+  stateCaches.set(state, cache);
+  return cache;
+};
+
+const extendBounds = (
+  coords: any,
+  bounds: { minLng: number; minLat: number; maxLng: number; maxLat: number },
+): void => {
+  if (!Array.isArray(coords)) return;
+  if (typeof coords[0] === "number" && typeof coords[1] === "number") {
+    const [lng, lat] = coords as Position;
+    if (lng < bounds.minLng) bounds.minLng = lng;
+    if (lat < bounds.minLat) bounds.minLat = lat;
+    if (lng > bounds.maxLng) bounds.maxLng = lng;
+    if (lat > bounds.maxLat) bounds.maxLat = lat;
+    return;
+  }
+  for (const coord of coords) {
+    extendBounds(coord, bounds);
+  }
+};
+
+const computeBounds = (feature: TractFeature): BoundsArray | null => {
+  if (!feature.geometry) return null;
+  const bounds = {
+    minLng: Infinity,
+    minLat: Infinity,
+    maxLng: -Infinity,
+    maxLat: -Infinity,
+  };
+  extendBounds(feature.geometry.coordinates, bounds);
+  if (
+    !Number.isFinite(bounds.minLng) ||
+    !Number.isFinite(bounds.minLat) ||
+    !Number.isFinite(bounds.maxLng) ||
+    !Number.isFinite(bounds.maxLat)
+  ) {
+    return null;
+  }
+  return [
+    [bounds.minLng, bounds.minLat],
+    [bounds.maxLng, bounds.maxLat],
+  ];
+};
+
+const ringCentroid = (ring: Position[]): [number, number, number] => {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [x0, y0] = ring[j] as [number, number];
+    const [x1, y1] = ring[i] as [number, number];
+    const cross = x0 * y1 - x1 * y0;
+    area += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  }
+  area *= 0.5;
+  if (area === 0) {
+    let sx = 0;
+    let sy = 0;
+    for (const point of ring) {
+      sx += (point as [number, number])[0];
+      sy += (point as [number, number])[1];
+    }
+    return [sx / ring.length, sy / ring.length, 0];
+  }
+  return [cx / (6 * area), cy / (6 * area), Math.abs(area)];
+};
+
+const computeCentroid = (feature: TractFeature): [number, number] | null => {
+  if (!feature.geometry) return null;
+  let totalArea = 0;
+  let accX = 0;
+  let accY = 0;
+  const polygons =
+    feature.geometry.type === "Polygon"
+      ? [feature.geometry.coordinates as Position[][]]
+      : (feature.geometry.coordinates as Position[][][]);
+  for (const polygon of polygons) {
+    const [cx, cy, area] = ringCentroid((polygon[0] || []) as Position[]);
+    totalArea += area;
+    accX += cx * area;
+    accY += cy * area;
+  }
+  if (totalArea === 0) return null;
+  return [accX / totalArea, accY / totalArea];
+};
+
+const ensureChunkLoaded = async (state: TractStateCode, chunkId: string): Promise<void> => {
+  const cache = getOrCreateStateCache(state);
+  if (cache.chunksLoaded.has(chunkId)) return;
+
+  const chunkMeta = cache.manifestById.get(chunkId);
+  if (!chunkMeta) {
+    throw new Error(`Unknown tract chunk "${chunkId}" for state "${state}"`);
+  }
+
+  const collection = await chunkMeta.load();
+  cache.chunksLoaded.add(chunkId);
+
+  const chunkTractSet = cache.chunkTracts.get(chunkId) ?? new Set<string>();
+  for (const feature of collection.features as TractFeature[]) {
+    const tract = normalizeTractId(feature.properties?.tract);
+    if (!tract) continue;
+    cache.featuresByTract.set(tract, feature);
+    chunkTractSet.add(tract);
+
+    const name = typeof feature.properties?.name === "string" ? feature.properties.name.trim() : "";
+    if (name) cache.nameByTract.set(tract, name);
+
+    if (!cache.boundsByTract.has(tract)) {
+      const bounds = computeBounds(feature);
+      if (bounds) cache.boundsByTract.set(tract, bounds);
+    }
+    if (!cache.centroidsByTract.has(tract)) {
+      const centroid = computeCentroid(feature);
+      if (centroid) cache.centroidsByTract.set(tract, centroid);
+    }
+  }
+  cache.chunkTracts.set(chunkId, chunkTractSet);
+  cache.featureCollection.features = Array.from(cache.featuresByTract.values()) as any;
+};
+
+export interface EnsureTractViewportOptions {
+  state: TractStateCode;
+  bounds: BoundsArray;
+  paddingDegrees?: number;
+}
+
+export interface TractChunkSummary {
+  id: string;
+  countyId: string;
+  name: string;
+  bbox: BoundsArray;
+}
+
+const expandBounds = (bounds: BoundsArray, paddingDegrees: number): BoundsArray => [
+  [bounds[0][0] - paddingDegrees, bounds[0][1] - paddingDegrees],
+  [bounds[1][0] + paddingDegrees, bounds[1][1] + paddingDegrees],
+];
+
+export const ensureTractsForViewport = async ({
+  state,
+  bounds,
+  paddingDegrees = 0.25,
+}: EnsureTractViewportOptions): Promise<TractChunkSummary[]> => {
+  const padded = expandBounds(bounds, paddingDegrees);
+  const manifest = manifests[state];
+  const relevantChunks = manifest.filter((entry) => intersectsBounds(entry.bbox, padded));
+  await Promise.all(relevantChunks.map((chunk) => ensureChunkLoaded(state, chunk.id)));
+  return relevantChunks.map((chunk) => ({
+    id: chunk.id,
+    countyId: chunk.countyId,
+    name: chunk.name,
+    bbox: chunk.bbox,
+  }));
+};
+
+/** Loads every tract chunk for the given county FIPS (3- or 5-digit). */
+export const ensureTractsForCounty = async (state: TractStateCode, countyFips: string): Promise<void> => {
+  const countyId = countyFips.length === 5 ? countyFips.slice(2) : countyFips;
+  const manifest = manifests[state];
+  const chunks = manifest.filter((entry) => entry.countyId === countyId);
+  await Promise.all(chunks.map((chunk) => ensureChunkLoaded(state, chunk.id)));
+};
+
+export const getTractFeatureCollection = (state: TractStateCode): FeatureCollection<
+  GeoJSON.MultiPolygon | GeoJSON.Polygon,
+  { tract: string }
+> => {
+  const cache = stateCaches.get(state);
+  return cache ? cache.featureCollection : EMPTY_FC;
+};
+
+export const getTractBounds = (state: TractStateCode, tract: string): BoundsArray | null =>
+  stateCaches.get(state)?.boundsByTract.get(tract) ?? null;
+
+export const getTractCentroid = (state: TractStateCode, tract: string): [number, number] | null =>
+  stateCaches.get(state)?.centroidsByTract.get(tract) ?? null;
+
+export const getTractCentroidsMap = (state: TractStateCode): Map<string, [number, number]> =>
+  stateCaches.get(state)?.centroidsByTract ?? new Map();
+
+export const getTractName = (state: TractStateCode, tract: string): string | null =>
+  stateCaches.get(state)?.nameByTract.get(tract) ?? null;
+
+export const getLoadedTractCount = (state: TractStateCode): number =>
+  stateCaches.get(state)?.featuresByTract.size ?? 0;
+
+export const hasTractGeometry = (state: TractStateCode): boolean => manifests[state].length > 0;
+
+/** Whether the Tracts area mode is offered: it needs the flag and built geometry. */
+export const isTractModeAvailable = (state: TractStateCode): boolean =>
+  isTractBoundariesEnabled() && hasTractGeometry(state);
+
+const removeChunkFromCache = (state: TractStateCode, chunkId: string): void => {
+  const cache = stateCaches.get(state);
+  if (!cache) return;
+  const tracts = cache.chunkTracts.get(chunkId);
+  if (!tracts) return;
+  for (const tract of tracts) {
+    cache.featuresByTract.delete(tract);
+    cache.boundsByTract.delete(tract);
+    cache.centroidsByTract.delete(tract);
+    cache.nameByTract.delete(tract);
+  }
+  cache.chunkTracts.delete(chunkId);
+  cache.chunksLoaded.delete(chunkId);
+  cache.featureCollection.features = Array.from(cache.featuresByTract.values()) as any;
+};
+
+export const pruneTractChunks = (state: TractStateCode, keepChunkIds: Set<string>): void => {
+  const cache = stateCaches.get(state);
+  if (!cache) return;
+  for (const chunkId of Array.from(cache.chunksLoaded)) {
+    if (!keepChunkIds.has(chunkId)) {
+      removeChunkFromCache(state, chunkId);
+    }
+  }
+};
@@ -12,11 +12,21 @@ import { useDemographics, type CombinedDemographicsSnapshot } from "./hooks/useD
 import { useStats } from "./hooks/useStats";
 import type { StatBoundaryEntry, SeriesByKind, SeriesEntry } from "./hooks/useStats";
 import { useOrganizations } from "./hooks/useOrganizations";
+import { useOfflineStatus } from "./hooks/useOfflineStatus";
+import { OfflineBanner } from "./components/OfflineBanner";
+import { MapDataTable } from "./components/MapDataTable";
 import { useRecentOrganizations } from "./hooks/useRecentOrganizations";
 import { useAreas } from "./hooks/useAreas";
 import { type Organization, OKLAHOMA_CENTER, OKLAHOMA_DEFAULT_ZOOM } from "../types/organization";
-import { findZipForLocation, getZipBounds } from "../lib/zipBoundaries";
+import {
+  ensureAllZipDataLoaded,
+  findZipForLocation,
+  getAllZipCodes,
+  getZipBounds,
+  getZipFeature,
+} from "../lib/zipBoundaries";
 import { findCountyForLocation, getCountyBounds, getCountyCodeByName } from "../lib/countyBoundaries";
+import { isTractModeAvailable } from "../lib/tractLoader";
 import type { BoundaryMode } from "../types/boundaries";
 import { AuthModal } from "./components/AuthModal";
 import { db } from "../lib/reactDb";
@@ -24,14 +34,29 @@ import type { AreaId, AreaKind, PersistedAreaSelection } from "../types/areas";
 import { DEFAULT_PARENT_AREA_BY_KIND } from "../types/areas";
 import { normalizeScopeLabel, buildScopeLabelAliases } from "../lib/scopeLabels";
 import { useMediaQuery } from "./hooks/useMediaQuery";
-import type { MapViewController } from "./imperative/mapView";
+import type { MapStatTimeline, MapViewController } from "./imperative/mapView";
 import { isAdminEmail } from "../lib/admin";
 import { type TimeSelection, isOrganizationOpenAtTime, toTimeSelection } from "./lib/timeFilters";
 import { findCitySearchTarget, DEFAULT_CITY_ZOOM } from "./lib/citySearchTargets";
 import { parseFullAddress, geocodeAddress, looksLikeAddress } from "./lib/geocoding";
 import { normalizeForSearch, computeSimilarityFromNormalized } from "./lib/fuzzyMatch";
 import { getMapStateFromUrl, updateUrlWithMapState, type AreasMode } from "./lib/mapUrl";
+import { getEmbedOptionsFromUrl, getIsEmbedModeFromUrl, type EmbedCommand } from "./lib/embedMode";
+import type { SavedView } from "./lib/savedViews";
 import { DEFAULT_POPULATION_STAT_ID, getDomainDefaults, isFoodMapDomain } from "./lib/domains";
+import {
+  DRAWN_AREA_CODE,
+  DRAWN_AREA_LABEL,
+  computeAreaOverlapWeights,
+  isDrawnAreaCode,
+  isPointInDrawnShape,
+  withDrawnAreaSeries,
+  withDrawnAreaStatData,
+  type AreaOverlapWeights,
+  type DrawnAreaSelection,
+  type DrawnShape,
+  type OverlapCandidate,
+} from "./lib/drawnArea";
 import {
   hashForScreen,
   isHashRoutedScreen,
@@ -55,7 +80,6 @@ import {
 import {
   areaSelectionsEqual,
   arraysEqual,
-  createEmptySelection,
   dedupeIds,
   normalizeAreaSelection,
   type AreaSelectionMap,
@@ -64,10 +88,18 @@ import {
 } from "./lib/areaSelection";
 import { useAuthSession } from "./hooks/useAuthSession";
 import { setStatDataSubscriptionEnabled } from "../state/statData";
+import { buildStatEntryForDate, getSeriesDates } from "./lib/statTimeline";
+import { downloadOrganizationsExport, filterOrganizationsForExport, type OrgExportFormat } from "./lib/orgExport";
+import { findOrganizationsNearby, getSearchRadiusBounds } from "./lib/nearbySearch";
 import { MapSettingsModal } from "./components/MapSettingsModal";
 import { useCensusImportQueue } from "./hooks/useCensusImportQueue";
+import { useLocale } from "./hooks/useLocale";
+import { useEmbedBridge } from "./hooks/useEmbedBridge";
+import { useSavedViews } from "./hooks/useSavedViews";
 import { getPerformanceTier } from "../lib/device";
 import { REDUCED_DATA_LOADING_KEY, readBoolSetting, writeBoolSetting } from "../lib/settings";
+import { setPinnedStatIds } from "../lib/persistentStatsCache";
+import type { MapClassificationMode } from "../lib/choropleth";
 import { getStatDisplayName, UNDEFINED_STAT_ATTRIBUTE } from "../types/stat";
 import {
   MAP_TOUR_ADVANCED_STATS_PRESET,
@@ -100,6 +132,10 @@ const COUNTY_MODE_DISABLE_ZOOM = 9.6;
 // Feature flag: if true, always show welcome modal on app load (for testing)
 const ALWAYS_SHOW_WELCOME_MODAL = false;
 
+// Tracts need VITE_ENABLE_TRACTS and generated chunks; otherwise "tracts" falls back to zoom-based areas.
+const resolveAreasMode = (mode: AreasMode): AreasMode =>
+  mode === "tracts" && !isTractModeAvailable("ok") ? "auto" : mode;
+
 const FALLBACK_ZIP_SCOPE = normalizeScopeLabel(DEFAULT_PARENT_AREA_BY_KIND.ZIP ?? "Oklahoma") ?? "Oklahoma";
 
 const expandScopeAliases = (scopes: string[]): string[] => {
@@ -150,30 +186,34 @@ const expandBounds = (
 
 export const ReactMapApp = () => {
   const { isRunning: isCensusImportRunning } = useCensusImportQueue();
+  const { locale, t } = useLocale();
   // Parse initial map state from URL once (must be first to be available for other initializers)
   const [initialMapState] = useState(() => getMapStateFromUrl());
-  const [isEmbedMode] = useState(() => {
-    if (typeof window === "undefined") return false;
-    const raw = (new URLSearchParams(window.location.search).get("embed") || "").trim().toLowerCase();
-    return raw === "1" || raw === "true";
-  });
+  const [isEmbedMode] = useState(() => getIsEmbedModeFromUrl());
+  const [embedOptions] = useState(() => getEmbedOptionsFromUrl());
+  const embedLocked = isEmbedMode && embedOptions.locked;
   const pendingUrlTourIntroRef = useRef<boolean>(initialMapState.startTour);
   const initialMapPosition = initialMapState.position;
   // Initialize boundary state from URL areasMode
   const [boundaryMode, setBoundaryMode] = useState<BoundaryMode>(() => {
-    const areasMode = initialMapState.areasMode;
-    if (areasMode === "zips" || areasMode === "counties" || areasMode === "none") return areasMode;
+    const areasMode = resolveAreasMode(initialMapState.areasMode);
+    if (areasMode === "zips" || areasMode === "counties" || areasMode === "tracts" || areasMode === "none") {
+      return areasMode;
+    }
     return "zips"; // default for "auto"
   });
   const [boundaryControlMode, setBoundaryControlMode] = useState<"auto" | "manual">(() => {
-    return initialMapState.areasMode === "auto" ? "auto" : "manual";
+    return resolveAreasMode(initialMapState.areasMode) === "auto" ? "auto" : "manual";
   });
   const [areaSelections, setAreaSelections] = useState<AreaSelectionMap>(() => ({
     ZIP: { selected: initialMapState.selectedZips, pinned: [], transient: [] },
     COUNTY: { selected: initialMapState.selectedCounties, pinned: [], transient: [] },
-    TRACT: createEmptySelection(),
+    TRACT: { selected: initialMapState.selectedTracts, pinned: [], transient: [] },
   }));
   const [hoveredArea, setHoveredArea] = useState<AreaId | null>(null);
+  // A drawn shape replaces the ZIP/county selection while it is active.
+  const [drawnShape, setDrawnShape] = useState<DrawnShape | null>(() => initialMapState.drawnShape);
+  const [drawnAreaWeights, setDrawnAreaWeights] = useState<AreaOverlapWeights | null>(null);
   const [activeOrganizationId, setActiveOrganizationId] = useState<string | null>(null);
   const [highlightedOrganizationIds, setHighlightedOrganizationIds] = useState<string[] | null>(null);
   // Direct org selection (from clicking org centroids or small clusters) - takes priority over area-based selection
@@ -202,6 +242,9 @@ export const ReactMapApp = () => {
   const [sidebarFollowsMap, setSidebarFollowsMap] = useState(true);
   const [orgPinsVisible, setOrgPinsVisible] = useState<boolean>(() => initialMapState.orgPinsVisible);
   const [extremasVisible, setExtremasVisible] = useState<boolean>(() => initialMapState.extremasVisible);
+  const [bivariateEnabled, setBivariateEnabled] = useState<boolean>(() => initialMapState.bivariate);
+  // Year shown by the map time slider; null paints the latest data.
+  const [timelineDate, setTimelineDate] = useState<string | null>(() => initialMapState.year);
   const orgPinsVisibleRef = useRef<boolean>(initialMapState.orgPinsVisible);
   const foodAutoEnabledOrgsRef = useRef(false);
   const [orgsVisibleIds, setOrgsVisibleIds] = useState<string[]>([]);
@@ -273,7 +316,10 @@ export const ReactMapApp = () => {
     statVizCollapsed: initialMapState.sidebarInsights.statVizCollapsed,
   }));
   const [legendRangeMode, setLegendRangeMode] = useState<"dynamic" | "scoped" | "global">("scoped");
+  const [classificationMode, setClassificationMode] = useState<MapClassificationMode>("per_stat");
   const [mapSettingsOpen, setMapSettingsOpen] = useState(false);
+  const [mapTableOpen, setMapTableOpen] = useState(false);
+  const mapTableReturnFocusRef = useRef<HTMLElement | null>(null);
   const [helpMenuOpen, setHelpMenuOpen] = useState(false);
   const [helpMenuMode, setHelpMenuMode] = useState<"menu" | "feedback">("menu");
   const [feedbackDraft, setFeedbackDraft] = useState("");
@@ -325,6 +371,8 @@ export const ReactMapApp = () => {
   const [isRequestingLocation, setIsRequestingLocation] = useState(false);
   const [userLocationError, setUserLocationError] = useState<string | null>(null);
   const lastDeviceLocationRef = useRef<{ lng: number; lat: number } | null>(null);
+  // "Near me" radius in miles around userLocation; null lists orgs by map area instead.
+  const [nearbyRadiusMiles, setNearbyRadiusMiles] = useState<number | null>(null);
   const geocodeCacheRef = useRef<Map<string, { lng: number; lat: number }>>(new Map());
   const [showWelcomeModal, setShowWelcomeModal] = useState(false);
   const [showZipSearchModal, setShowZipSearchModal] = useState(false);
@@ -389,6 +437,7 @@ export const ReactMapApp = () => {
   }, [isMobile, viewportHeight]);
 
   const { user, authReady } = useAuthSession();
+  const savedViews = useSavedViews();
   const shouldAutoPromptOnboardingTour = useMemo(() => {
     if (isMobile) return false;
     // On food domains, tour only starts manually (button/URL), never auto-prompts.
@@ -513,15 +562,15 @@ export const ReactMapApp = () => {
   const pinnedZips = zipSelection.pinned;
   const selectedCounties = countySelection.selected;
   const pinnedCounties = countySelection.pinned;
+  const selectedTracts = tractSelection.selected;
+  const pinnedTracts = tractSelection.pinned;
   const hoveredZip = hoveredArea?.kind === "ZIP" ? hoveredArea.id : null;
   const hoveredCounty = hoveredArea?.kind === "COUNTY" ? hoveredArea.id : null;
+  const hoveredTract = hoveredArea?.kind === "TRACT" ? hoveredArea.id : null;
   const toolbarSelections: Record<AreaKind, AreaSelectionSnapshot | undefined> = {
     ZIP: { kind: "ZIP", selected: selectedZips, pinned: pinnedZips },
     COUNTY: { kind: "COUNTY", selected: selectedCounties, pinned: pinnedCounties },
-    TRACT:
-      tractSelection.selected.length > 0 || tractSelection.pinned.length > 0
-        ? { kind: "TRACT", selected: tractSelection.selected, pinned: tractSelection.pinned }
-        : undefined,
+    TRACT: { kind: "TRACT", selected: selectedTracts, pinned: pinnedTracts },
   };
 
   const applyAreaSelection = (kind: AreaKind, selection: AreaSelectionState) => {
@@ -596,6 +645,7 @@ export const ReactMapApp = () => {
 
       applyAreaSelection("ZIP", { selected: [], pinned: [], transient: [] });
       applyAreaSelection("COUNTY", { selected: [], pinned: [], transient: [] });
+      applyAreaSelection("TRACT", { selected: [], pinned: [], transient: [] });
 
       const zipCode = findZipForLocation(location.lng, location.lat);
       if (zipCode) {
@@ -804,8 +854,21 @@ export const ReactMapApp = () => {
       transient: [],
     });
 
+    const currentTract = getAreaSelection("TRACT");
+    const tractConfig = pickAreaConfig("TRACT");
+    applyAreaSelection("TRACT", {
+      selected: sanitizeList(tractConfig?.selected, currentTract.selected),
+      pinned: sanitizeList(tractConfig?.pinned, currentTract.pinned),
+      transient: [],
+    });
+
     if (sel.boundaryMode === "neighborhoods") setBoundaryMode("zips");
-    else if (sel.boundaryMode === "zips" || sel.boundaryMode === "counties" || sel.boundaryMode === "none") {
+    else if (
+      sel.boundaryMode === "zips" ||
+      sel.boundaryMode === "counties" ||
+      sel.boundaryMode === "tracts" ||
+      sel.boundaryMode === "none"
+    ) {
       setBoundaryMode(sel.boundaryMode as BoundaryMode);
     }
     setBoundaryControlMode("auto");
@@ -1085,6 +1148,7 @@ export const ReactMapApp = () => {
       areaSelections: {
         ZIP: { selected: [...selectedZips], pinned: [...pinnedZips] },
         COUNTY: { selected: [...selectedCounties], pinned: [...pinnedCounties] },
+        TRACT: { selected: [...selectedTracts], pinned: [...pinnedTracts] },
       },
       zips: [...selectedZips],
       pinned: [...pinnedZips],
@@ -1105,7 +1169,17 @@ export const ReactMapApp = () => {
       }
     }, 500);
     return () => clearTimeout(timeout);
-  }, [authReady, user?.id, selectedZips, pinnedZips, selectedCounties, pinnedCounties, boundaryMode]);
+  }, [
+    authReady,
+    user?.id,
+    selectedZips,
+    pinnedZips,
+    selectedCounties,
+    pinnedCounties,
+    selectedTracts,
+    pinnedTracts,
+    boundaryMode,
+  ]);
 
   const { areasByKindAndCode, getAreaLabel, getAreaRecord } = useAreas();
 
@@ -1231,7 +1305,9 @@ export const ReactMapApp = () => {
   // continuous recompute/re-render avalanches from background data streaming.
   const isViewingStatChart = showAdvanced && sidebarTab === "stats" && !!selectedStatId;
   const shouldPrefetchFullStatData =
-    allowBackgroundStatLoading && (selectedZips.length > 0 || selectedCounties.length > 0) && !isViewingStatChart;
+    allowBackgroundStatLoading &&
+    (selectedZips.length > 0 || selectedCounties.length > 0 || selectedTracts.length > 0) &&
+    !isViewingStatChart;
   // NOTE: Do NOT reduce maxCachedStatIds dynamically — shrinking the cache mid-session
   // creates an evict→reload→evict infinite loop ("Maximum update depth exceeded").
   const statDataCacheLimit = allowBackgroundStatLoading ? statDataProfile.cache : 10;
@@ -1240,6 +1316,7 @@ export const ReactMapApp = () => {
 
   const summaryKinds = useMemo(() => {
     if (boundaryMode === "counties") return ["COUNTY"] as const;
+    if (boundaryMode === "tracts") return ["TRACT"] as const;
     return ["ZIP"] as const;
   }, [boundaryMode]);
 
@@ -1247,14 +1324,15 @@ export const ReactMapApp = () => {
   const limitStatDataToScopes = lowMemoryMode || reducedDataLoading || !enableTimeSeries;
   const limitedStatBoundaryTypes = useMemo(() => {
     if (!limitStatDataToScopes) return undefined;
-    const set = new Set<SupportedAreaKind>();
+    const set = new Set<AreaKind>();
     if (selectedZips.length > 0) set.add("ZIP");
     if (selectedCounties.length > 0) set.add("COUNTY");
+    if (selectedTracts.length > 0) set.add("TRACT");
     if (set.size === 0) {
-      for (const kind of summaryKinds) set.add(kind as SupportedAreaKind);
+      for (const kind of summaryKinds) set.add(kind);
     }
     return Array.from(set);
-  }, [limitStatDataToScopes, selectedZips.length, selectedCounties.length, summaryKinds]);
+  }, [limitStatDataToScopes, selectedZips.length, selectedCounties.length, selectedTracts.length, summaryKinds]);
 
   const {
     statsById,
@@ -1454,7 +1532,13 @@ export const ReactMapApp = () => {
     });
   }, [activeScreen, statsById]);
 
-  const { organizations } = useOrganizations();
+  const { organizations, snapshotSavedAt } = useOrganizations();
+  const offlineStatus = useOfflineStatus();
+
+  // Keep the maps for the stats on screen cached so they're there offline.
+  useEffect(() => {
+    void setPinnedStatIds([selectedStatId, secondaryStatId].filter((statId): statId is string => Boolean(statId)));
+  }, [selectedStatId, secondaryStatId]);
   const { recentOrganizations } = useRecentOrganizations();
   const organizationSearchIndex = useMemo(
     () =>
@@ -1532,7 +1616,8 @@ export const ReactMapApp = () => {
     searchSelectionMeta && searchSelectionMeta.ids.length > 1 ? "searchResults" : "default";
 
   const areaNameLookup = useMemo(
-    () => (kind: SupportedAreaKind, code: string) => getAreaLabel(kind, code) ?? code,
+    () => (kind: SupportedAreaKind, code: string) =>
+      isDrawnAreaCode(code) ? DRAWN_AREA_LABEL : getAreaLabel(kind, code) ?? code,
     [getAreaLabel],
   );
 
@@ -1547,19 +1632,53 @@ export const ReactMapApp = () => {
     [getAreaRecord],
   );
 
+  const drawnArea = useMemo<DrawnAreaSelection | null>(
+    () => (drawnShape && drawnAreaWeights ? { shape: drawnShape, weights: drawnAreaWeights } : null),
+    [drawnAreaWeights, drawnShape],
+  );
+
+  useEffect(() => {
+    if (!drawnShape) {
+      setDrawnAreaWeights(null);
+      return;
+    }
+    let cancelled = false;
+    void ensureAllZipDataLoaded().then(() => {
+      if (cancelled) return;
+      const candidates: OverlapCandidate[] = [];
+      for (const code of getAllZipCodes()) {
+        const feature = getZipFeature(code);
+        if (feature) candidates.push({ code, geometry: feature.geometry });
+      }
+      setDrawnAreaWeights(computeAreaOverlapWeights(drawnShape, candidates));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [drawnShape]);
+
+  // Picking ZIPs or counties again ends the drawn selection.
+  useEffect(() => {
+    if (selectedZips.length > 0 || selectedCounties.length > 0) {
+      setDrawnShape(null);
+    }
+  }, [selectedCounties, selectedZips]);
+
   const { combinedSnapshot, demographicsByKind } = useDemographics({
     selectedByKind: {
-      ZIP: selectedZips,
-      COUNTY: selectedCounties,
+      ZIP: drawnArea ? Object.keys(drawnArea.weights) : selectedZips,
+      COUNTY: drawnArea ? [] : selectedCounties,
     },
     defaultContext: defaultAreaContext,
     zipScope,
     getZipParentCounty,
+    zipAreaWeights: drawnArea?.weights ?? null,
+    selectionLabel: drawnArea ? DRAWN_AREA_LABEL : null,
   });
 
   const selectedAreasMap = useMemo(
-    () => ({ ZIP: selectedZips, COUNTY: selectedCounties }),
-    [selectedZips, selectedCounties],
+    () => (drawnArea ? { ZIP: [DRAWN_AREA_CODE], COUNTY: [] } : { ZIP: selectedZips, COUNTY: selectedCounties }),
+    [drawnArea, selectedZips, selectedCounties],
   );
 
   const allSelectedAreas = useMemo(
@@ -1571,15 +1690,17 @@ export const ReactMapApp = () => {
   );
 
   const activeAreaKind: SupportedAreaKind | null = useMemo(() => {
+    if (drawnArea) return "ZIP";
     if (boundaryMode === "zips") return "ZIP";
     if (boundaryMode === "counties") return "COUNTY";
     return null;
-  }, [boundaryMode]);
+  }, [boundaryMode, drawnArea]);
 
   const activeSelectedCodes = useMemo(() => {
     if (!activeAreaKind) return [] as string[];
+    if (drawnArea) return [DRAWN_AREA_CODE];
     return activeAreaKind === "ZIP" ? selectedZips : selectedCounties;
-  }, [activeAreaKind, selectedCounties, selectedZips]);
+  }, [activeAreaKind, drawnArea, selectedCounties, selectedZips]);
 
   const selectedAreasForReport = useMemo(
     () =>
@@ -1634,6 +1755,11 @@ export const ReactMapApp = () => {
         persistSidebarInsights,
         sidebarCollapsed,
         extremasVisible,
+        selectedTracts,
+        bivariateEnabled,
+        timelineDate,
+        drawnShape,
+        locale,
       );
     }, MAP_URL_SYNC_DELAY_MS);
     return () => {
@@ -1658,6 +1784,11 @@ export const ReactMapApp = () => {
     persistSidebarInsights,
     sidebarCollapsed,
     extremasVisible,
+    selectedTracts,
+    bivariateEnabled,
+    timelineDate,
+    drawnShape,
+    locale,
   ]);
 
   const mergeStatEntry = (
@@ -1901,6 +2032,17 @@ export const ReactMapApp = () => {
     return map;
   }, [organizations]);
 
+  const selectionOrgZipById = useMemo(() => {
+    if (!drawnArea) return orgZipById;
+    const map = new Map(orgZipById);
+    for (const org of organizations) {
+      if (isPointInDrawnShape(drawnArea.shape, org.longitude, org.latitude)) {
+        map.set(org.id, DRAWN_AREA_CODE);
+      }
+    }
+    return map;
+  }, [drawnArea, orgZipById, organizations]);
+
   const activeOrganizations = useMemo(
     () => organizations.filter((org) => !org.status || org.status === "active"),
     [organizations],
@@ -1918,6 +2060,25 @@ export const ReactMapApp = () => {
     return availableOrganizations.filter((org) => org.category === categoryFilter);
   }, [availableOrganizations, categoryFilter]);
 
+  const nearbyOrganizations = useMemo(() => {
+    if (!userLocation || nearbyRadiusMiles === null) return null;
+    return findOrganizationsNearby(categoryScopedOrganizations, userLocation, nearbyRadiusMiles);
+  }, [categoryScopedOrganizations, nearbyRadiusMiles, userLocation]);
+  const sidebarNearby = useMemo(
+    () => ({
+      radiusMiles: nearbyRadiusMiles,
+      hasLocation: Boolean(userLocation),
+      isLocating: isRequestingLocation,
+      locationError: userLocationError,
+      results: nearbyOrganizations,
+    }),
+    [isRequestingLocation, nearbyOrganizations, nearbyRadiusMiles, userLocation, userLocationError],
+  );
+  const searchRadius = useMemo(
+    () => (userLocation && nearbyRadiusMiles !== null ? { center: userLocation, miles: nearbyRadiusMiles } : null),
+    [nearbyRadiusMiles, userLocation],
+  );
+
   const orgCountsByCounty = useMemo(() => {
     const counts = new Map<string, number>();
     for (const org of categoryScopedOrganizations) {
@@ -2044,6 +2205,57 @@ export const ReactMapApp = () => {
     return map;
   }, [seriesByStatIdByParent, expandedZipScopes, expandedCountyScopes]);
 
+  // Sidebar/report views see the drawn area as one more ZIP; the map keeps the raw data.
+  const selectionStatDataById = useMemo(
+    () =>
+      drawnArea
+        ? withDrawnAreaStatData(statDataByStatId, drawnArea.weights, DEFAULT_POPULATION_STAT_ID)
+        : statDataByStatId,
+    [drawnArea, statDataByStatId],
+  );
+  const selectionSeriesScoped = useMemo(
+    () =>
+      drawnArea
+        ? withDrawnAreaSeries(seriesByStatIdScoped, drawnArea.weights, DEFAULT_POPULATION_STAT_ID)
+        : seriesByStatIdScoped,
+    [drawnArea, seriesByStatIdScoped],
+  );
+  const selectionSeriesByStatIdByKind = useMemo(
+    () =>
+      drawnArea
+        ? withDrawnAreaSeries(seriesByStatIdByKind, drawnArea.weights, DEFAULT_POPULATION_STAT_ID)
+        : seriesByStatIdByKind,
+    [drawnArea, seriesByStatIdByKind],
+  );
+
+  const statTimeline = useMemo<MapStatTimeline | null>(() => {
+    if (!selectedStatId) return null;
+    const series = seriesByStatIdScoped.get(selectedStatId);
+    const dates = getSeriesDates(series);
+    if (dates.length < 2) return null;
+    const date = timelineDate && dates.includes(timelineDate) ? timelineDate : null;
+    return {
+      statId: selectedStatId,
+      dates,
+      date,
+      entry: date ? buildStatEntryForDate(series, date) : null,
+    };
+  }, [selectedStatId, seriesByStatIdScoped, timelineDate]);
+
+  // Drop a year the selected stat has no data for (e.g. after switching stats),
+  // but wait for its series to load so a shared ?year= link survives startup.
+  useEffect(() => {
+    if (!timelineDate) return;
+    if (!selectedStatId) {
+      setTimelineDate(null);
+      return;
+    }
+    const dates = getSeriesDates(seriesByStatIdScoped.get(selectedStatId));
+    if (dates.length > 0 && !dates.includes(timelineDate)) {
+      setTimelineDate(null);
+    }
+  }, [selectedStatId, seriesByStatIdScoped, timelineDate]);
+
   useEffect(() => {
     if (hasAppliedDefaultStat) return;
     // If stat was already set from URL, skip applying defaults
@@ -2177,10 +2389,13 @@ export const ReactMapApp = () => {
       setForceHideOrgsNonce((n) => n + 1); // keep org pins off after brand reset
     }
     setExtremasVisible(domainDefaults.defaultExtremasVisible);
+    setBivariateEnabled(false);
+    setTimelineDate(null);
     setBoundaryMode("zips");
     setBoundaryControlMode("auto");
     applyAreaSelection("ZIP", { selected: [], pinned: [], transient: [] });
     applyAreaSelection("COUNTY", { selected: [], pinned: [], transient: [] });
+    applyAreaSelection("TRACT", { selected: [], pinned: [], transient: [] });
     setSidebarTab("orgs");
     setSidebarCollapsed(true);
     setSidebarInsightsState({
@@ -2717,9 +2932,21 @@ export const ReactMapApp = () => {
     });
   };
 
+  const handleDrawnAreaChange = (shape: DrawnShape | null) => {
+    if (shape) {
+      handleUpdateAreaSelection("ZIP", { selected: [], pinned: [] });
+      handleUpdateAreaSelection("COUNTY", { selected: [], pinned: [] });
+      setSelectedOrgIds([]);
+      setSelectedOrgIdsFromMap(false);
+    }
+    setDrawnShape(shape);
+  };
+
   const handleClearAreas = useCallback(() => {
     handleUpdateAreaSelection("ZIP", { selected: [], pinned: [] });
     handleUpdateAreaSelection("COUNTY", { selected: [], pinned: [] });
+    handleUpdateAreaSelection("TRACT", { selected: [], pinned: [] });
+    setDrawnShape(null);
   }, [handleUpdateAreaSelection]);
 
   const handleRemoveArea = useCallback(
@@ -2750,7 +2977,100 @@ export const ReactMapApp = () => {
     [areaSelections, handleUpdateAreaSelection],
   );
 
-  const handleAreaSelectionChange = (change: { kind: AreaKind; selected: string[]; pinned: string[]; transient: string[] }) => {
+  const openMapTable = useCallback(() => {
+    mapTableReturnFocusRef.current = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    setMapTableOpen(true);
+    track("map_table_open", { variant: isMobile ? "mobile" : "desktop" });
+  }, [isMobile]);
+
+  const closeMapTable = useCallback(() => {
+    setMapTableOpen(false);
+    const returnTo = mapTableReturnFocusRef.current;
+    mapTableReturnFocusRef.current = null;
+    if (returnTo?.isConnected) requestAnimationFrame(() => returnTo.focus());
+  }, []);
+
+  const handleMapTableToggleArea = useCallback(
+    (kind: SupportedAreaKind, id: string, selected: boolean) => {
+      if (selected) {
+        handleAddAreas(kind, [id]);
+      } else {
+        handleRemoveArea({ kind, id });
+      }
+    },
+    [handleAddAreas, handleRemoveArea],
+  );
+
+  const handleSaveView = (name: string) => {
+    savedViews.saveView(name, {
+      position: cameraState
+        ? { lat: cameraState.center[1], lng: cameraState.center[0], zoom: cameraState.zoom }
+        : initialMapPosition,
+      statId: selectedStatId,
+      secondaryStatId,
+      bivariate: bivariateEnabled,
+      year: timelineDate,
+      category: categoryFilter,
+      orgIds: selectedOrgIds,
+      showAdvanced,
+      orgPinsVisible,
+      extremasVisible,
+      areasMode,
+      selectedZips,
+      selectedCounties,
+      selectedTracts,
+      drawnShape,
+      sidebarTab,
+      sidebarCollapsed,
+      sidebarInsights: sidebarInsightsState,
+    });
+    track("saved_view_save", { count: savedViews.views.length + 1 });
+  };
+
+  const handleOpenSavedView = (view: SavedView) => {
+    const { state } = view;
+    setIsDefaultStatAutoSelected(false);
+    setSelectedStatId(state.statId);
+    setSecondaryStatId(state.secondaryStatId);
+    setBivariateEnabled(state.bivariate);
+    setTimelineDate(state.year);
+    setCategoryFilterWithSync(state.category);
+    // After the category so Food's automatic pin toggle can't override the view.
+    setOrgPinsVisible(state.orgPinsVisible);
+    setExtremasVisible(state.extremasVisible);
+    // Skip the "Advanced turned on" reset so the view's sidebar sections stick.
+    prevShowAdvancedRef.current = state.showAdvanced;
+    suppressDesktopAreaAutoAdvancedRef.current = !state.showAdvanced;
+    setShowAdvanced(state.showAdvanced);
+    setSidebarInsightsState(state.sidebarInsights);
+    setSidebarTab(state.sidebarTab);
+    setSidebarCollapsed(state.sidebarCollapsed);
+    const areasMode = resolveAreasMode(state.areasMode);
+    setBoundaryControlMode(areasMode === "auto" ? "auto" : "manual");
+    if (areasMode !== "auto") setBoundaryMode(areasMode);
+    if (state.orgIds.length > 0) {
+      // The map echoes the new area selection back; don't let that clear the view's orgs.
+      suppressAreaSelectionClearRef.current.ZIP += 1;
+      suppressAreaSelectionClearRef.current.COUNTY += 1;
+    }
+    applyAreaSelection("ZIP", { selected: state.selectedZips, pinned: [], transient: [] });
+    applyAreaSelection("COUNTY", { selected: state.selectedCounties, pinned: [], transient: [] });
+    applyAreaSelection("TRACT", { selected: state.selectedTracts, pinned: [], transient: [] });
+    setDrawnShape(state.drawnShape);
+    setSelectedOrgIds(state.orgIds);
+    setSelectedOrgIdsFromMap(false);
+    setActiveOrganizationId(null);
+    setHighlightedOrganizationIds(null);
+    if (state.position) {
+      mapControllerRef.current?.setCamera(state.position.lng, state.position.lat, state.position.zoom, {
+        animate: true,
+      });
+    }
+    setHasInteractedWithMap(true);
+    track("saved_view_open", { index: savedViews.views.findIndex((entry) => entry.id === view.id) });
+  };
+
+  const handleAreaSelectionChange =(change: { kind: AreaKind; selected: string[]; pinned: string[]; transient: string[] }) => {
     setSidebarFollowMode("map");
     const current = areaSelections[change.kind];
     const hasChanged =
@@ -3185,6 +3505,7 @@ export const ReactMapApp = () => {
       // Clear existing selections before selecting the searched area
       applyAreaSelection("ZIP", { selected: [], pinned: [], transient: [] });
       applyAreaSelection("COUNTY", { selected: [], pinned: [], transient: [] });
+      applyAreaSelection("TRACT", { selected: [], pinned: [], transient: [] });
 
       // Select the searched area by adding it to selected and pinned arrays
       const targetCode = targetRecord.code;
@@ -3253,6 +3574,33 @@ export const ReactMapApp = () => {
     ],
   );
 
+  // Exports every public org matching the sidebar filters, not just those in the viewport.
+  const handleExportOrganizations = useCallback(
+    (format: OrgExportFormat) => {
+      const filtered = filterOrganizationsForExport(organizations, {
+        category: categoryFilter,
+        timeSelection,
+        selectedZips,
+        selectedCounties,
+        orgZipById,
+        orgCountyById,
+        moderationStatuses: ["approved"],
+      });
+      downloadOrganizationsExport(
+        filtered.slice().sort((a, b) => a.name.localeCompare(b.name)),
+        format,
+        categoryFilter ? `organizations_${categoryFilter}` : "organizations",
+      );
+    },
+    [categoryFilter, orgCountyById, orgZipById, organizations, selectedCounties, selectedZips, timeSelection],
+  );
+
+  const handleCaptureMapSnapshot = useCallback(async () => {
+    const controller = mapControllerRef.current;
+    if (!controller) throw new Error("Map is not ready yet");
+    return controller.captureMapImage();
+  }, []);
+
   const handleExport = () => {
     const primaryKind = activeAreaKind;
     if (!primaryKind) return;
@@ -3596,6 +3944,48 @@ export const ReactMapApp = () => {
     }
   };
 
+  const handleEmbedCommand = (command: EmbedCommand) => {
+    switch (command.type) {
+      case "setStat":
+        if (command.statId) {
+          handleStatSelect(command.statId);
+        } else {
+          handleStatSelect(null, { clear: true });
+        }
+        return;
+      case "setCategory":
+        setCategoryFilterWithSync(command.category);
+        return;
+      case "selectAreas":
+        handleUpdateAreaSelection(command.kind, { selected: command.ids, pinned: [] });
+        return;
+    }
+  };
+
+  const postEmbedEvent = useEmbedBridge({
+    enabled: isEmbedMode,
+    hostOrigin: embedOptions.hostOrigin,
+    state: { statId: selectedStatId, category: categoryFilter, zips: selectedZips, counties: selectedCounties },
+    onCommand: handleEmbedCommand,
+  });
+
+  const handleEmbedAreaClick = useCallback(
+    (area: AreaId) => {
+      if (area.kind !== "ZIP" && area.kind !== "COUNTY") return;
+      postEmbedEvent({ type: "areaClick", kind: area.kind, id: area.id, name: areaNameLookup(area.kind, area.id) });
+    },
+    [areaNameLookup, postEmbedEvent],
+  );
+
+  const handleEmbedOrganizationClick = useCallback(
+    (id: string, meta?: { source: "point" | "centroid" }) => {
+      handleOrganizationClick(id, meta);
+      const organization = availableOrganizations.find((org) => org.id === id);
+      postEmbedEvent({ type: "organizationClick", id, name: organization?.name ?? "" });
+    },
+    [availableOrganizations, handleOrganizationClick, postEmbedEvent],
+  );
+
   const sidebarOrganizations = (() => {
     const sourceIds = new Set(orgsAllSourceIds);
     const visibleIds = new Set(orgsVisibleIds);
@@ -3617,6 +4007,7 @@ export const ReactMapApp = () => {
     const shouldShowRecent = !hasInteractedWithMap &&
       selectedZips.length === 0 &&
       selectedCounties.length === 0 &&
+      !drawnArea &&
       (!selectedOrgIdsFromMap || selectedOrgIds.length === 0);
 
     // Direct org selection (from clicking org centroids or small clusters)
@@ -3626,7 +4017,9 @@ export const ReactMapApp = () => {
       inSelection = visible.filter((o) => selectedOrgSet.has(o.id));
     } else if (selectedOrgIds.length === 0) {
       // No direct org selection - use area-based selection
-      if (activeAreaKind === "ZIP" && zipSel.size > 0) {
+      if (drawnArea) {
+        inSelection = visible.filter((o) => isPointInDrawnShape(drawnArea.shape, o.longitude, o.latitude));
+      } else if (activeAreaKind === "ZIP" && zipSel.size > 0) {
         inSelection = visible.filter((o) => {
           const zip = orgZipById.get(o.id);
           return !!zip && zipSel.has(zip);
@@ -3823,6 +4216,29 @@ export const ReactMapApp = () => {
     }
   }, [setTimeSelection]);
 
+  const handleNearbyRadiusChange = useCallback(
+    (miles: number | null) => {
+      setNearbyRadiusMiles(miles);
+      track("sidebar_nearby_radius_change", {
+        radiusMiles: miles ?? "off",
+        device: isMobile ? "mobile" : "desktop",
+      });
+      if (miles === null) return;
+      const fitToRadius = (center: { lng: number; lat: number }) => {
+        mapControllerRef.current?.fitBounds(getSearchRadiusBounds(center, miles), { padding: isMobile ? 36 : 64 });
+      };
+      if (userLocation) {
+        fitToRadius(userLocation);
+        return;
+      }
+      // Nothing to measure from yet: ask for the device location first.
+      requestUserLocation()
+        .then(fitToRadius)
+        .catch(() => {});
+    },
+    [isMobile, requestUserLocation, userLocation],
+  );
+
   const handleChangeTimeFilter = useCallback(() => {
     setShowTimeSelectorModal(true);
   }, []);
@@ -3890,6 +4306,19 @@ export const ReactMapApp = () => {
         <TopBar
           onBrandClick={handleBrandClick}
           onNavigate={handleTopBarNavigate}
+          savedViews={
+            savedViews.enabled
+              ? {
+                  views: savedViews.views,
+                  isLoading: savedViews.isLoading,
+                  onSave: handleSaveView,
+                  onOpen: handleOpenSavedView,
+                  onRename: savedViews.renameView,
+                  onMove: savedViews.moveView,
+                  onDelete: savedViews.deleteView,
+                }
+              : undefined
+          }
           active={
             activeScreen === "report"
               ? "report"
@@ -3910,6 +4339,14 @@ export const ReactMapApp = () => {
           expandMobileSearch={expandMobileSearch}
         />
       )}
+      <OfflineBanner
+        isOnline={offlineStatus.isOnline}
+        queuedCount={offlineStatus.queuedCount}
+        failedCount={offlineStatus.failedCount}
+        sentCount={offlineStatus.sentCount}
+        snapshotSavedAt={snapshotSavedAt}
+        onDismissSent={offlineStatus.dismissSent}
+      />
       <div className="relative flex flex-1 flex-col overflow-hidden">
         <main className="relative flex flex-1 flex-col overflow-hidden md:flex-row">
           {/* Desktop sidebar — left of map */}
@@ -3931,8 +4368,8 @@ export const ReactMapApp = () => {
                 highlightedOrganizationIds={highlightedOrganizationIds ?? undefined}
                 statsById={statsById}
                 statSummariesById={statSummariesByStatId}
-                seriesByStatIdByKind={seriesByStatIdScoped}
-                statDataById={statDataByStatId}
+                seriesByStatIdByKind={selectionSeriesScoped}
+                statDataById={selectionStatDataById}
                 statRelationsByParent={statRelationsByParent}
                 statRelationsByChild={statRelationsByChild}
                 demographicsSnapshot={activeDemographicsSnapshot ?? combinedSnapshot}
@@ -3976,8 +4413,11 @@ export const ReactMapApp = () => {
                 forceShowOrgsNonce={forceShowOrgsNonce}
                 forceShowOrgsKeepTabNonce={forceShowOrgsKeepTabNonce}
                 timeSelection={timeSelection}
+                nearby={sidebarNearby}
+                onNearbyRadiusChange={handleNearbyRadiusChange}
                 onClearTimeFilter={handleClearTimeFilter}
                 onChangeTimeFilter={handleChangeTimeFilter}
+                onExportOrganizations={handleExportOrganizations}
                 cameraState={cameraState}
                 onZoomToOrg={handleZoomToOrg}
                 variant="desktop"
@@ -4004,11 +4444,21 @@ export const ReactMapApp = () => {
             </div>
           )}
           <div className="relative flex flex-1 flex-col overflow-hidden">
+            {!mapTableOpen && (
+              <button
+                type="button"
+                onClick={openMapTable}
+                className="sr-only focus:not-sr-only focus:absolute focus:left-4 focus:top-4 focus:z-40 focus:rounded-md focus:bg-white focus:px-3 focus:py-2 focus:text-sm focus:font-medium focus:text-brand-700 focus:shadow-lg focus:ring-2 focus:ring-brand-400 dark:focus:bg-slate-900 dark:focus:text-brand-300"
+              >
+                {t("table.skip")}
+              </button>
+            )}
             <MapLibreMap
               key={isMobile ? "mobile" : "desktop"}
               organizations={availableOrganizations}
               orgPinsVisible={orgPinsVisible}
               extremasVisible={extremasVisible}
+              bivariateEnabled={bivariateEnabled}
               initialMapPosition={initialMapPosition}
               zoomOutRequestNonce={zoomOutNonce}
               clearMapCategoryNonce={clearMapCategoryNonce}
@@ -4027,6 +4477,9 @@ export const ReactMapApp = () => {
                 });
               }}
               onExtremasVisibleChange={setExtremasVisible}
+              onBivariateChange={setBivariateEnabled}
+              drawnShape={drawnShape}
+              onDrawnAreaChange={handleDrawnAreaChange}
               boundaryMode={boundaryMode}
               areasMode={areasMode}
               autoBoundarySwitch={autoBoundarySwitch}
@@ -4036,18 +4489,25 @@ export const ReactMapApp = () => {
               selectedCounties={selectedCounties}
               pinnedCounties={pinnedCounties}
               hoveredCounty={hoveredCounty}
+              selectedTracts={selectedTracts}
+              pinnedTracts={pinnedTracts}
+              hoveredTract={hoveredTract}
               activeOrganizationId={activeOrganizationId}
               selectedOrgIds={selectedOrgIds}
               onHover={handleHover}
-              onOrganizationClick={handleOrganizationClick}
+              onOrganizationClick={isEmbedMode ? handleEmbedOrganizationClick : handleOrganizationClick}
               onClusterClick={handleClusterClick}
               selectedStatId={selectedStatId}
               statDataById={statDataByStatId}
+              statTimeline={statTimeline}
+              onTimelineDateChange={setTimelineDate}
               selectedStatOptions={selectedStatMapChipOptions}
               secondaryStatId={secondaryStatId}
               categoryFilter={categoryFilter}
               onAreaSelectionChange={handleAreaSelectionChange}
               onAreaHoverChange={handleAreaHoverChange}
+              onAreaClick={isEmbedMode ? handleEmbedAreaClick : undefined}
+              selectionLocked={embedLocked}
               onStatSelectionChange={(nextStatId) => {
                 if (nextStatId === null) {
                   handleStatSelect(null, { clear: true });
@@ -4078,6 +4538,7 @@ export const ReactMapApp = () => {
               legendInset={legendInset}
               onControllerReady={handleMapControllerReady}
               userLocation={userLocation}
+              searchRadius={searchRadius}
               onLocationSearch={handleMobileLocationSearch}
               onTimeChipClick={() => {
                 track("map_time_chip_click", {
@@ -4100,9 +4561,25 @@ export const ReactMapApp = () => {
               onLegendSettingsClick={isEmbedMode ? undefined : () => setMapSettingsOpen(true)}
               onSidebarExpand={() => setSidebarCollapsed(false)}
               legendRangeMode={legendRangeMode}
+              classificationMode={classificationMode}
               onboardingTourAutoPromptEnabled={isEmbedMode ? false : shouldAutoPromptOnboardingTour}
               visibleStatIds={visibleStatIds}
             />
+            {mapTableOpen && (
+              <MapDataTable
+                stat={selectedStat}
+                entry={statTimeline?.entry ?? (selectedStatId ? statDataByStatId.get(selectedStatId) ?? null : null)}
+                date={statTimeline?.date ?? null}
+                statDataById={statDataByStatId}
+                initialKind={activeAreaKind}
+                selectedZips={selectedZips}
+                selectedCounties={selectedCounties}
+                areaNameLookup={areaNameLookup}
+                onToggleArea={handleMapTableToggleArea}
+                onHoverArea={handleAreaHoverChange}
+                onClose={closeMapTable}
+              />
+            )}
             {/* Desktop-only overlay still shows the location button inline */}
             {!isMobile && (
               <div
@@ -4249,6 +4726,17 @@ export const ReactMapApp = () => {
                     </div>
                   </div>
                 )}
+                <button
+                  type="button"
+                  onClick={mapTableOpen ? closeMapTable : openMapTable}
+                  aria-expanded={mapTableOpen}
+                  className="pointer-events-auto inline-flex items-center gap-2 rounded-full border-[0.5px] border-white/60 bg-white/18 px-3 py-1.5 text-sm font-medium text-slate-700 shadow-sm ring-1 ring-white/45 backdrop-blur-md transition hover:border-brand-200/70 hover:bg-white/30 hover:text-brand-700 dark:border-slate-500/35 dark:bg-slate-900/22 dark:text-slate-200 dark:ring-white/8 dark:hover:border-brand-400/50 dark:hover:bg-slate-900/38 dark:hover:text-white"
+                >
+                  <svg viewBox="0 0 20 20" aria-hidden="true" className="h-4 w-4">
+                    <path fill="currentColor" fillRule="evenodd" d="M3 4.75A1.75 1.75 0 014.75 3h10.5A1.75 1.75 0 0117 4.75v10.5A1.75 1.75 0 0115.25 17H4.75A1.75 1.75 0 013 15.25V4.75zM4.5 8v2.75h4.75V8H4.5zm6.25 0v2.75h4.75V8h-4.75zm4.75 4.25h-4.75v3.25h4.5a.25.25 0 00.25-.25v-3zm-6.25 3.25v-3.25H4.5v3a.25.25 0 00.25.25h4.5zM4.5 6.5h11V4.75a.25.25 0 00-.25-.25H4.75a.25.25 0 00-.25.25V6.5z" clipRule="evenodd" />
+                  </svg>
+                  <span>{mapTableOpen ? t("table.hide") : t("table.show")}</span>
+                </button>
                 <button
                   type="button"
                   onClick={() => {
@@ -4362,8 +4850,8 @@ export const ReactMapApp = () => {
                     highlightedOrganizationIds={highlightedOrganizationIds ?? undefined}
                     statsById={statsById}
                     statSummariesById={statSummariesByStatId}
-                    seriesByStatIdByKind={seriesByStatIdScoped}
-                    statDataById={statDataByStatId}
+                    seriesByStatIdByKind={selectionSeriesScoped}
+                    statDataById={selectionStatDataById}
                     statRelationsByParent={statRelationsByParent}
                     statRelationsByChild={statRelationsByChild}
                     demographicsSnapshot={activeDemographicsSnapshot ?? combinedSnapshot}
@@ -4406,8 +4894,11 @@ export const ReactMapApp = () => {
                     forceShowOrgsNonce={forceShowOrgsNonce}
                     forceShowOrgsKeepTabNonce={forceShowOrgsKeepTabNonce}
                     timeSelection={timeSelection}
+                    nearby={sidebarNearby}
+                    onNearbyRadiusChange={handleNearbyRadiusChange}
                     onClearTimeFilter={handleClearTimeFilter}
                     onChangeTimeFilter={handleChangeTimeFilter}
+                    onExportOrganizations={handleExportOrganizations}
                     cameraState={cameraState}
                   onZoomToOrg={handleZoomToOrg}
                   selectionLabelOverride={searchSelectionLabel}
@@ -4467,6 +4958,8 @@ export const ReactMapApp = () => {
               onUpdateSelection={handleUpdateAreaSelection}
               hideAreaSelect={isMobile}
               isMobile={isMobile}
+              drawnAreaLabel={drawnShape ? DRAWN_AREA_LABEL : null}
+              onClearDrawnArea={() => setDrawnShape(null)}
             />
           </div>
           {activeScreen === "report" && (
@@ -4476,12 +4969,14 @@ export const ReactMapApp = () => {
                 activeAreas={selectedAreasForReport}
                 supplementalAreas={allSelectedAreas}
                 organizations={organizations}
-                orgZipById={orgZipById}
+                orgZipById={selectionOrgZipById}
                 orgCountyById={orgCountyById}
                 statsById={statsById}
-                statDataById={statDataByStatId}
-                seriesByStatIdByKind={seriesByStatIdByKind}
+                statDataById={selectionStatDataById}
+                seriesByStatIdByKind={selectionSeriesByStatIdByKind}
                 areaNameLookup={areaNameLookup}
+                demographicsSnapshot={activeDemographicsSnapshot ?? combinedSnapshot}
+                onCaptureMapSnapshot={handleCaptureMapSnapshot}
               />
             </Suspense>
           )}
@@ -4579,6 +5074,8 @@ export const ReactMapApp = () => {
         open={mapSettingsOpen}
         onClose={() => setMapSettingsOpen(false)}
         rangeMode={legendRangeMode}
+        classificationMode={classificationMode}
+        onChangeClassificationMode={setClassificationMode}
         reducedDataLoading={reducedDataLoading}
         onChangeReducedDataLoading={setReducedDataLoading}
         tourAvailable={!isMobile}
@@ -6,6 +6,12 @@ import { db } from "../../lib/reactDb";
 import { isAdminEmail } from "../../lib/admin";
 import type { Category, OrganizationStatus, OrganizationModerationStatus } from "../../types/organization";
 import { parseFullAddress, geocodeAddress } from "../lib/geocoding";
+import { createEmptyHoursDraft, draftToHours, type HoursDraft } from "../lib/organizationHours";
+import { OrganizationHoursEditor } from "./OrganizationHoursEditor";
+import { isOffline } from "../../lib/offlineStore";
+import { logOrganizationSubmission, notifyQueueModerators, queueOutboxItem } from "../lib/offlineOutbox";
+import { useLocale } from "../hooks/useLocale";
+import type { MessageKey } from "../../lib/i18n";
 
 const SearchIcon = () => (
   <svg viewBox="0 0 20 20" fill="currentColor" aria-hidden="true" className="h-3.5 w-3.5 translate-x-[0.2px] -translate-y-[0.2px] text-slate-400 dark:text-slate-500">
@@ -23,12 +29,6 @@ interface AddOrganizationScreenProps {
   onFindNearbyOrg?: () => void;
 }
 
-type DayHours = {
-  enabled: boolean;
-  openTime: string;
-  closeTime: string;
-};
-
 type FormState = {
   name: string;
   ownerEmail: string;
@@ -44,22 +44,21 @@ type FormState = {
   postalCode: string;
   source: string;
   googleCategory: string;
-  // Hours: Sunday=0, Monday=1, ... Saturday=6
-  hours: Record<number, DayHours>;
+  hours: HoursDraft;
 };
 
-const categoryOptions: Array<{ value: Category; label: string; description: string }> = [
-  { value: "health", label: "Health", description: "Clinics, hospitals, wellness organizations" },
-  { value: "education", label: "Education", description: "Schools, tutoring, training centers" },
-  { value: "justice", label: "Justice", description: "Legal aid, advocacy, re-entry support" },
-  { value: "economy", label: "Economy", description: "Financial assistance, workforce services" },
-  { value: "food", label: "Food", description: "Food pantries, meal services, groceries" },
+const categoryOptions: Array<{ value: Category; label: MessageKey; description: MessageKey }> = [
+  { value: "health", label: "category.health", description: "addOrg.categoryHealth" },
+  { value: "education", label: "category.education", description: "addOrg.categoryEducation" },
+  { value: "justice", label: "category.justice", description: "addOrg.categoryJustice" },
+  { value: "economy", label: "category.economy", description: "addOrg.categoryEconomy" },
+  { value: "food", label: "category.food", description: "addOrg.categoryFood" },
 ];
 
-const statusOptions: Array<{ value: OrganizationStatus; label: string }> = [
-  { value: "active", label: "Active" },
-  { value: "moved", label: "Moved" },
-  { value: "closed", label: "Closed" },
+const statusOptions: Array<{ value: OrganizationStatus; label: MessageKey }> = [
+  { value: "active", label: "addOrg.statusActive" },
+  { value: "moved", label: "addOrg.statusMoved" },
+  { value: "closed", label: "addOrg.statusClosed" },
 ];
 
 const emptyFormState = (ownerEmail: string): FormState => ({
@@ -77,15 +76,7 @@ const emptyFormState = (ownerEmail: string): FormState => ({
   postalCode: "",
   source: "Community",
   googleCategory: "",
-  hours: {
-    0: { enabled: false, openTime: "09:00", closeTime: "17:00" }, // Sunday
-    1: { enabled: false, openTime: "09:00", closeTime: "17:00" }, // Monday
-    2: { enabled: false, openTime: "09:00", closeTime: "17:00" }, // Tuesday
-    3: { enabled: false, openTime: "09:00", closeTime: "17:00" }, // Wednesday
-    4: { enabled: false, openTime: "09:00", closeTime: "17:00" }, // Thursday
-    5: { enabled: false, openTime: "09:00", closeTime: "17:00" }, // Friday
-    6: { enabled: false, openTime: "09:00", closeTime: "17:00" }, // Saturday
-  },
+  hours: createEmptyHoursDraft(),
 });
 
 const toNullableString = (value: string): string | null => {
@@ -107,53 +98,15 @@ function normalizeWebsiteUrl(url: string): string {
   return `https://${trimmed}`;
 }
 
-// Convert 24-hour time (HH:MM) to 12-hour format (H:MM AM/PM)
-function formatTime12Hour(time24: string): string {
-  const [hoursStr, minutesStr] = time24.split(":");
-  const hours = parseInt(hoursStr, 10);
-  const minutes = minutesStr;
-
-  if (hours === 0) {
-    return `12:${minutes} AM`;
-  } else if (hours < 12) {
-    return `${hours}:${minutes} AM`;
-  } else if (hours === 12) {
-    return `12:${minutes} PM`;
-  } else {
-    return `${hours - 12}:${minutes} PM`;
-  }
-}
-
-// Notify moderators via serverless endpoint when a pending submission arrives.
-const notifyQueueModerators = async (payload: {
-  organizationId: string;
-  organizationName: string;
-  ownerEmail: string | null;
-  submitterEmail: string | null;
-  submittedAt: number;
-}) => {
-  try {
-    const response = await fetch("/api/queue-notify", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-    });
-    if (!response.ok) {
-      const message = await response.text();
-      console.error("Queue notification failed", response.status, message);
-    }
-  } catch (error) {
-    console.error("Queue notification error", error);
-  }
-};
-
 export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }: AddOrganizationScreenProps) => {
   const { user } = db.useAuth();
+  const { t } = useLocale();
   const ownerEmailFromAuth = user && !user.isGuest ? (user.email ?? "") : "";
   const [formValues, setFormValues] = useState<FormState>(() => emptyFormState(ownerEmailFromAuth));
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
   const [submissionSuccess, setSubmissionSuccess] = useState(false);
+  const [queuedOffline, setQueuedOffline] = useState(false);
   const [geocodedCoordinates, setGeocodedCoordinates] = useState<{
     latitude: number;
     longitude: number;
@@ -204,27 +157,17 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
     }
   };
 
-  // Handler for updating hours for a specific day
-  const handleHoursChange = (day: number, field: keyof DayHours, value: string | boolean) => {
-    setFormValues((prev) => ({
-      ...prev,
-      hours: {
-        ...prev.hours,
-        [day]: {
-          ...prev.hours[day],
-          [field]: value,
-        },
-      },
-    }));
+  const handleHoursChange = (hours: HoursDraft) => {
+    setFormValues((prev) => ({ ...prev, hours }));
   };
 
   const categoryDescriptions = useMemo(() => {
     const map = new Map<Category, string>();
     for (const option of categoryOptions) {
-      map.set(option.value, option.description);
+      map.set(option.value, t(option.description));
     }
     return map;
-  }, []);
+  }, [t]);
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -266,47 +209,31 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
     const postalCodeInput = rawPostalCode.trim();
 
     if (!nextName) {
-      setFormError("Organization name is required.");
+      setFormError(t("addOrg.errorName"));
       return;
     }
     if (!ownerEmailInput) {
-      setFormError("Owner email is required so you can revise details later.");
+      setFormError(t("addOrg.errorEmail"));
       return;
     }
     if (!addressInput) {
-      setFormError("Street address is required to determine the location.");
+      setFormError(t("addOrg.errorAddress"));
       return;
     }
     if (!cityInput) {
-      setFormError("City is required to determine the location.");
+      setFormError(t("addOrg.errorCity"));
       return;
     }
     if (!stateInput) {
-      setFormError("State is required to determine the location.");
+      setFormError(t("addOrg.errorState"));
       return;
     }
     if (!postalCodeInput) {
-      setFormError("ZIP code is required to determine the location.");
+      setFormError(t("addOrg.errorPostalCode"));
       return;
     }
 
-    // Geocode the address
     setIsSubmitting(true);
-    const geocodeResult = await geocodeAddress({
-      address: addressInput,
-      city: cityInput,
-      state: stateInput,
-      zip: postalCodeInput,
-    });
-
-    if ("error" in geocodeResult) {
-      setFormError(geocodeResult.error);
-      setIsSubmitting(false);
-      return;
-    }
-
-    const { latitude: latitudeValue, longitude: longitudeValue } = geocodeResult;
-    setGeocodedCoordinates(geocodeResult);
 
     const organizationId = id();
     const submittedAt = Date.now();
@@ -325,8 +252,6 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
       ownerEmail: canonicalOwnerEmail,
       category: formValues.category,
       status: formValues.status,
-      latitude: latitudeValue,
-      longitude: longitudeValue,
       moderationStatus,
       submittedAt,
       queueSortKey: submittedAt,
@@ -376,33 +301,57 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
     if (googleCategoryValue) payload.googleCategory = googleCategoryValue;
 
     // Convert hours to schema format
-    const enabledDays = Object.entries(formValues.hours).filter(([_, hours]) => hours.enabled);
-    if (enabledDays.length > 0) {
-      const periods = enabledDays.map(([dayStr, hours]) => ({
-        day: parseInt(dayStr, 10),
-        openTime: hours.openTime,
-        closeTime: hours.closeTime,
-      }));
+    const hours = draftToHours(formValues.hours, null, {
+      isUnverified: moderationStatus !== "approved", // Admins auto-verify their submissions
+    });
+    if (hours) payload.hours = hours;
+
+    const addressComponents = {
+      address: addressInput,
+      city: cityInput,
+      state: stateInput,
+      zip: postalCodeInput,
+    };
+
+    // Without a connection we can't geocode, so keep the submission on the
+    // device and send it when the connection comes back.
+    if (isOffline()) {
+      try {
+        await queueOutboxItem("organization", {
+          organizationId,
+          payload,
+          address: addressComponents,
+          submitterEmail,
+          notifyModerators: shouldNotifyModerators,
+        });
+        setQueuedOffline(true);
+        setSubmissionSuccess(true);
+        setTimeout(onCancel, 2000);
+      } catch (error) {
+        console.error("Failed to queue organization offline", error);
+        setFormError(t("addOrg.errorOfflineSave"));
+      }
+      setIsSubmitting(false);
+      return;
+    }
+
+    // Geocode the address
+    const geocodeResult = await geocodeAddress(addressComponents);
 
-      // Generate human-readable weekday text with 12-hour format
-      const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
-      const weekdayText = enabledDays.map(([dayStr, hours]) => {
-        const dayNum = parseInt(dayStr, 10);
-        const dayName = dayNames[dayNum];
-        const openTime12 = formatTime12Hour(hours.openTime);
-        const closeTime12 = formatTime12Hour(hours.closeTime);
-        return `${dayName}: ${openTime12} – ${closeTime12}`;
-      });
-
-      payload.hours = {
-        periods,
-        weekdayText,
-        isUnverified: moderationStatus !== "approved", // Admins auto-verify their submissions
-      };
+    if ("error" in geocodeResult) {
+      setFormError(geocodeResult.error);
+      setIsSubmitting(false);
+      return;
     }
 
+    const { latitude: latitudeValue, longitude: longitudeValue } = geocodeResult;
+    setGeocodedCoordinates(geocodeResult);
+    payload.latitude = latitudeValue;
+    payload.longitude = longitudeValue;
+
     try {
       await db.transact(db.tx.organizations[organizationId].update(payload));
+      void logOrganizationSubmission(organizationId);
       if (shouldNotifyModerators) {
         void notifyQueueModerators({
           organizationId,
@@ -429,7 +378,7 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
       setFormError(
         error instanceof Error
           ? error.message
-          : "We could not save the organization. Please try again.",
+          : t("addOrg.errorSave"),
       );
       setIsSubmitting(false);
       setSubmissionSuccess(false);
@@ -448,13 +397,12 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
             onClick={onCancel}
             className="inline-flex w-max items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300 dark:hover:border-slate-600 dark:hover:text-white"
           >
-            ← To Map
+            {t("addOrg.backToMap")}
           </button>
           <div>
-            <h1 className="text-3xl font-semibold font-display text-slate-900 dark:text-white">Add a Location</h1>
+            <h1 className="text-3xl font-semibold font-display text-slate-900 dark:text-white">{t("topbar.addLocation")}</h1>
             <p className="mt-2 max-w-2xl text-sm text-slate-600 dark:text-slate-400">
-              Share the details of a community organization or business so neighbors can discover it on the map.
-              If you don't have an organization yet just want to share food, then use the button below...
+              {t("addOrg.intro")}
             </p>
             <button
               type="button"
@@ -465,7 +413,7 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
               className="mt-3 inline-flex w-max items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300 dark:hover:border-slate-600 dark:hover:text-white"
             >
               <SearchIcon />
-              Find a Nearby Organization to Give Food To
+              {t("addOrg.findNearby")}
             </button>
           </div>
         </div>
@@ -474,17 +422,17 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
           <section className="space-y-6 rounded-3xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
             <header className="space-y-2">
               <p className="text-xs font-semibold uppercase tracking-[0.2em] text-brand-500">
-                01 — Essentials
+                {t("addOrg.step1")}
               </p>
-              <h2 className="text-xl font-semibold font-display text-slate-900 dark:text-white">Organization overview</h2>
+              <h2 className="text-xl font-semibold font-display text-slate-900 dark:text-white">{t("addOrg.step1Title")}</h2>
               <p className="text-sm text-slate-500 dark:text-slate-400">
-                Tell us who you are adding and how we can contact the person who can edit it later.
+                {t("addOrg.step1Body")}
               </p>
             </header>
             <div className="grid grid-cols-1 gap-5 md:grid-cols-2">
               <label className="flex flex-col gap-2">
                 <span className="text-sm font-medium text-slate-800 dark:text-slate-100">
-                  Organization name <span className="text-brand-500">*</span>
+                  {t("addOrg.name")} <span className="text-brand-500">*</span>
                 </span>
                 <input
                   name="name"
@@ -494,14 +442,14 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
                   onChange={handleInputChange("name")}
                   onInput={handleInputChange("name")}
                   autoComplete="organization"
-                  placeholder="Community Resource Center"
+                  placeholder={t("addOrg.namePlaceholder")}
                   className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-base text-slate-900 shadow-sm outline-none transition focus:border-brand-400 focus:ring-2 focus:ring-brand-200 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100 dark:focus:border-brand-500 dark:focus:ring-brand-500/40"
                 />
               </label>
 
               <label className="flex flex-col gap-2">
                 <span className="text-sm font-medium text-slate-800 dark:text-slate-100">
-                  Contact email <span className="text-brand-500">*</span>
+                  {t("addOrg.email")} <span className="text-brand-500">*</span>
                 </span>
                 <div className="space-y-2">
                   <input
@@ -516,13 +464,13 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
                     className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-base text-slate-900 shadow-sm outline-none transition focus:border-brand-400 focus:ring-2 focus:ring-brand-200 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100 dark:focus:border-brand-500 dark:focus:ring-brand-500/40"
                   />
                   <p className="text-xs text-slate-500 dark:text-slate-400">
-                    Required so you can edit your org details in the future.
+                    {t("addOrg.emailHelp")}
                   </p>
                 </div>
               </label>
 
               <label className="flex flex-col gap-2">
-                <span className="text-sm font-medium text-slate-800 dark:text-slate-100">Category</span>
+                <span className="text-sm font-medium text-slate-800 dark:text-slate-100">{t("addOrg.category")}</span>
                 <div className="relative">
                   <select
                     name="category"
@@ -534,7 +482,7 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
                   >
                     {categoryOptions.map((option) => (
                       <option key={option.value} value={option.value}>
-                        {option.label}
+                        {t(option.label)}
                       </option>
                     ))}
                   </select>
@@ -548,7 +496,7 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
               </label>
 
               <label className="flex flex-col gap-2">
-                <span className="text-sm font-medium text-slate-800 dark:text-slate-100">Status</span>
+                <span className="text-sm font-medium text-slate-800 dark:text-slate-100">{t("addOrg.status")}</span>
                 <div className="relative">
                   <select
                     name="status"
@@ -560,7 +508,7 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
                   >
                     {statusOptions.map((option) => (
                       <option key={option.value} value={option.value}>
-                        {option.label}
+                        {t(option.label)}
                       </option>
                     ))}
                   </select>
@@ -573,17 +521,17 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
           <section className="space-y-6 rounded-3xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
             <header className="space-y-2">
               <p className="text-xs font-semibold uppercase tracking-[0.2em] text-brand-500">
-                02 — Location & contact
+                {t("addOrg.step2")}
               </p>
-              <h2 className="text-xl font-semibold font-display text-slate-900 dark:text-white">Where can we find it?</h2>
+              <h2 className="text-xl font-semibold font-display text-slate-900 dark:text-white">{t("addOrg.step2Title")}</h2>
               <p className="text-sm text-slate-500 dark:text-slate-400">
-                Enter the address and we'll automatically determine the map pin location. Contact details help neighbors get in touch.
+                {t("addOrg.step2Body")}
               </p>
             </header>
             <div className="grid grid-cols-1 gap-5 md:grid-cols-2">
               <label className="flex flex-col gap-2 md:col-span-2">
                 <span className="text-sm font-medium text-slate-800 dark:text-slate-100">
-                  Street address <span className="text-brand-500">*</span>
+                  {t("addOrg.address")} <span className="text-brand-500">*</span>
                 </span>
                 <input
                   name="address"
@@ -593,13 +541,13 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
                   onChange={handleAddressChange}
                   onInput={handleAddressChange}
                   autoComplete="street-address"
-                  placeholder="123 Community Ave. (or paste full address)"
+                  placeholder={t("addOrg.addressPlaceholder")}
                   className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-base text-slate-900 shadow-sm outline-none transition focus:border-brand-400 focus:ring-2 focus:ring-brand-200 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100 dark:focus:border-brand-500 dark:focus:ring-brand-500/40"
                 />
               </label>
               <label className="flex flex-col gap-2">
                 <span className="text-sm font-medium text-slate-800 dark:text-slate-100">
-                  City <span className="text-brand-500">*</span>
+                  {t("addOrg.city")} <span className="text-brand-500">*</span>
                 </span>
                 <input
                   name="city"
@@ -615,7 +563,7 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
               </label>
               <label className="flex flex-col gap-2">
                 <span className="text-sm font-medium text-slate-800 dark:text-slate-100">
-                  State <span className="text-brand-500">*</span>
+                  {t("addOrg.state")} <span className="text-brand-500">*</span>
                 </span>
                 <input
                   name="state"
@@ -631,7 +579,7 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
               </label>
               <label className="flex flex-col gap-2">
                 <span className="text-sm font-medium text-slate-800 dark:text-slate-100">
-                  ZIP / Postal code <span className="text-brand-500">*</span>
+                  {t("addOrg.postalCode")} <span className="text-brand-500">*</span>
                 </span>
                 <input
                   name="postalCode"
@@ -648,15 +596,18 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
               {geocodedCoordinates && (
                 <div className="md:col-span-2 rounded-lg bg-green-50 p-4 dark:bg-green-900/20">
                   <p className="text-sm font-medium text-green-800 dark:text-green-200">
-                    ✓ Location found
+                    {t("addOrg.locationFound")}
                   </p>
                   <p className="mt-1 text-xs text-green-700 dark:text-green-300">
-                    Coordinates: {geocodedCoordinates.latitude.toFixed(6)}, {geocodedCoordinates.longitude.toFixed(6)}
+                    {t("addOrg.coordinates", {
+                      latitude: geocodedCoordinates.latitude.toFixed(6),
+                      longitude: geocodedCoordinates.longitude.toFixed(6),
+                    })}
                   </p>
                 </div>
               )}
               <label className="flex flex-col gap-2">
-                <span className="text-sm font-medium text-slate-800 dark:text-slate-100">Phone</span>
+                <span className="text-sm font-medium text-slate-800 dark:text-slate-100">{t("addOrg.phone")}</span>
                 <input
                   name="phone"
                   type="tel"
@@ -672,49 +623,10 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
               {/* Hours subsection */}
               <div className="md:col-span-2 space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-4 dark:border-slate-700 dark:bg-slate-800/50">
                 <div className="flex items-center justify-between">
-                  <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Hours of Operation (Optional)</h3>
-                  <span className="text-xs text-slate-500 dark:text-slate-400">Check days & set times</span>
-                </div>
-                <div className="space-y-2">
-                  {[
-                    { day: 1, label: "Monday" },
-                    { day: 2, label: "Tuesday" },
-                    { day: 3, label: "Wednesday" },
-                    { day: 4, label: "Thursday" },
-                    { day: 5, label: "Friday" },
-                    { day: 6, label: "Saturday" },
-                    { day: 0, label: "Sunday" },
-                  ].map(({ day, label }) => (
-                    <div key={day} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3">
-                      <label className="flex items-center gap-2 min-w-[100px]">
-                        <input
-                          type="checkbox"
-                          checked={formValues.hours[day].enabled}
-                          onChange={(e) => handleHoursChange(day, "enabled", e.target.checked)}
-                          className="h-4 w-4 rounded border-slate-300 text-brand-500 focus:ring-brand-400 dark:border-slate-600 dark:bg-slate-700"
-                        />
-                        <span className="text-sm font-medium text-slate-700 dark:text-slate-300">{label}</span>
-                      </label>
-                      {formValues.hours[day].enabled && (
-                        <div className="flex flex-wrap items-center gap-2 flex-1 pl-6 sm:pl-0">
-                          <input
-                            type="time"
-                            value={formValues.hours[day].openTime}
-                            onChange={(e) => handleHoursChange(day, "openTime", e.target.value)}
-                            className="min-w-[120px] flex-1 sm:flex-none rounded border border-slate-300 px-2 py-1 text-base text-slate-900 focus:border-brand-400 focus:ring-1 focus:ring-brand-400 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100"
-                          />
-                          <span className="text-xs text-slate-500 dark:text-slate-400 flex-shrink-0">to</span>
-                          <input
-                            type="time"
-                            value={formValues.hours[day].closeTime}
-                            onChange={(e) => handleHoursChange(day, "closeTime", e.target.value)}
-                            className="min-w-[120px] flex-1 sm:flex-none rounded border border-slate-300 px-2 py-1 text-base text-slate-900 focus:border-brand-400 focus:ring-1 focus:ring-brand-400 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100"
-                          />
-                        </div>
-                      )}
-                    </div>
-                  ))}
+                  <h3 className="text-sm font-semibold text-slate-900 dark:text-white">{t("addOrg.hoursTitle")}</h3>
+                  <span className="text-xs text-slate-500 dark:text-slate-400">{t("addOrg.hoursHelp")}</span>
                 </div>
+                <OrganizationHoursEditor value={formValues.hours} onChange={handleHoursChange} />
               </div>
             </div>
           </section>
@@ -722,16 +634,16 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
           <section className="space-y-6 rounded-3xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
             <header className="space-y-2">
               <p className="text-xs font-semibold uppercase tracking-[0.2em] text-brand-500">
-                03 — Optional extras
+                {t("addOrg.step3")}
               </p>
-              <h2 className="text-xl font-semibold font-display text-slate-900 dark:text-white">Help us tell the full story</h2>
+              <h2 className="text-xl font-semibold font-display text-slate-900 dark:text-white">{t("addOrg.step3Title")}</h2>
               <p className="text-sm text-slate-500 dark:text-slate-400">
-                Websites, sources, and service categories help residents know what to expect before they visit.
+                {t("addOrg.step3Body")}
               </p>
             </header>
             <div className="grid grid-cols-1 gap-5 md:grid-cols-2">
               <label className="flex flex-col gap-2">
-                <span className="text-sm font-medium text-slate-800 dark:text-slate-100">Website</span>
+                <span className="text-sm font-medium text-slate-800 dark:text-slate-100">{t("org.website")}</span>
                 <input
                   name="website"
                   type="text"
@@ -743,19 +655,19 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
                     handleFieldChange("website")(normalized);
                   }}
                   autoComplete="url"
-                  placeholder="example.org (we'll add https:// for you)"
+                  placeholder={t("addOrg.websitePlaceholder")}
                   className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-base text-slate-900 shadow-sm outline-none transition focus:border-brand-400 focus:ring-2 focus:ring-brand-200 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100 dark:focus:border-brand-500 dark:focus:ring-brand-500/40"
                 />
               </label>
               <label className="flex flex-col gap-2 md:col-span-2">
-                <span className="text-sm font-medium text-slate-800 dark:text-slate-100">Organization Sub-type</span>
+                <span className="text-sm font-medium text-slate-800 dark:text-slate-100">{t("addOrg.subtype")}</span>
                 <input
                   name="googleCategory"
                   type="text"
                   value={formValues.googleCategory}
                   onChange={handleInputChange("googleCategory")}
                   onInput={handleInputChange("googleCategory")}
-                  placeholder="Food Bank"
+                  placeholder={t("addOrg.subtypePlaceholder")}
                   className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-base text-slate-900 shadow-sm outline-none transition focus:border-brand-400 focus:ring-2 focus:ring-brand-200 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100 dark:focus:border-brand-500 dark:focus:ring-brand-500/40"
                 />
               </label>
@@ -767,7 +679,9 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
               <p className="text-sm font-medium text-rose-600 dark:text-rose-300">{formError}</p>
             ) : submissionSuccess ? (
               <p className="text-sm font-medium text-green-600 dark:text-green-300">
-                Thank you for your map submission! We'll review and add your location as soon as we're able.
+                {queuedOffline
+                  ? t("addOrg.queuedOffline")
+                  : t("addOrg.submitted")}
               </p>
             ) : (
               <div className="flex-1" />
@@ -778,17 +692,17 @@ export const AddOrganizationScreen = ({ onCancel, onCreated, onFindNearbyOrg }:
                 onClick={onCancel}
                 className="inline-flex items-center justify-center gap-1.5 rounded-full border border-slate-300 px-3 py-1.5 text-sm font-medium text-slate-600 transition hover:border-slate-400 hover:text-slate-800 dark:border-slate-700 dark:text-slate-300 dark:hover:border-slate-500 dark:hover:text-white sm:px-4"
                 disabled={isSubmitting}
-                aria-label="Cancel"
+                aria-label={t("common.cancel")}
               >
                 <XMarkIcon className="h-4 w-4 sm:hidden" />
-                <span className="hidden sm:inline">Cancel</span>
+                <span className="hidden sm:inline">{t("common.cancel")}</span>
               </button>
               <button
                 type="submit"
                 className="inline-flex items-center justify-center gap-2 rounded-full bg-brand-600 px-4 py-1.5 text-sm font-semibold text-white shadow-sm transition hover:bg-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-400 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-70 dark:bg-brand-500 dark:hover:bg-brand-400 dark:focus:ring-brand-300 dark:focus:ring-offset-slate-900"
                 disabled={isSubmitting || submissionSuccess}
               >
-                {isSubmitting ? "Saving…" : "Submit for Map Approval"}
+                {isSubmitting ? t("common.saving") : t("addOrg.submit")}
               </button>
             </div>
           </div>
@@ -0,0 +1,209 @@
+import { useCallback, useMemo, useState } from "react";
+import { db } from "../../lib/reactDb";
+import {
+  buildRestorePatch,
+  buildRevertPatch,
+  buildRevertRecord,
+  diffRecord,
+  type AuditChanges,
+  type AuditEntity,
+  type AuditFieldChange,
+  type AuditRecord,
+} from "../../lib/auditLog";
+import { auditRecordTx } from "../lib/auditTx";
+
+type AdminAuditHistoryPanelProps = {
+  entity: AuditEntity;
+  recordId: string;
+};
+
+type AuditEntry = AuditRecord & { id: string };
+
+const MAX_ENTRIES = 50;
+const MAX_VALUE_LENGTH = 80;
+
+const UPDATED_AT_FIELDS: Record<AuditEntity, string> = {
+  organizations: "updatedAt",
+  stats: "lastUpdated",
+  statData: "lastUpdated",
+  categories: "updatedAt",
+};
+
+const ACTION_LABELS: Record<AuditRecord["action"], string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  revert: "Reverted",
+};
+
+const formatDateTime = (value: number): string =>
+  new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+const describeChange = (change: AuditFieldChange): { before: string; after: string } => {
+  if (!change.partial) return { before: formatValue(change.before), after: formatValue(change.after) };
+  const count = new Set([
+    ...Object.keys((change.before as Record<string, unknown>) ?? {}),
+    ...Object.keys((change.after as Record<string, unknown>) ?? {}),
+  ]).size;
+  const label = `${count} ${count === 1 ? "key" : "keys"}`;
+  return { before: label, after: `${label} changed` };
+};
+
+/**
+ * Change history for one record, newest first, with one-click revert of a
+ * single field and restore for deleted records.
+ */
+export const AdminAuditHistoryPanel = ({ entity, recordId }: AdminAuditHistoryPanelProps) => {
+  const { user } = db.useAuth();
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading } = db.useQuery({
+    auditLog: {
+      $: {
+        where: { entity, recordId },
+        order: { createdAt: "desc" as const },
+        limit: MAX_ENTRIES,
+      },
+    },
+  });
+
+  const entries = useMemo(() => (data?.auditLog ?? []) as unknown as AuditEntry[], [data?.auditLog]);
+  const revertedIds = useMemo(
+    () => new Set(entries.map((entry) => entry.revertOf).filter((value): value is string => Boolean(value))),
+    [entries],
+  );
+
+  const loadCurrent = useCallback(async (): Promise<Record<string, unknown> | null> => {
+    // The entity is only known at runtime, so skip the typed query builder.
+    const queryOnce = db.queryOnce as unknown as (query: unknown) => Promise<{ data: unknown }>;
+    const { data: currentData } = await queryOnce({
+      [entity]: { $: { where: { id: recordId }, limit: 1 } },
+    });
+    return ((currentData as any)?.[entity]?.[0] as Record<string, unknown> | undefined) ?? null;
+  }, [entity, recordId]);
+
+  const applyPatch = useCallback(
+    async (entry: AuditEntry, busy: string, buildPatch: (current: Record<string, unknown> | null) => Record<string, unknown>) => {
+      setBusyKey(busy);
+      setError(null);
+      try {
+        const current = await loadCurrent();
+        if (entry.action === "delete" ? current : !current) {
+          throw new Error(entry.action === "delete" ? "This record already exists again." : "This record no longer exists.");
+        }
+        const patch = buildPatch(current);
+        const changes: AuditChanges = diffRecord(current, patch);
+        if (Object.keys(changes).length === 0) {
+          throw new Error("Nothing to revert; the record already has this value.");
+        }
+        const now = Date.now();
+        await db.transact([
+          (db.tx as any)[entity][recordId].update({ ...patch, [UPDATED_AT_FIELDS[entity]]: now }),
+          auditRecordTx(buildRevertRecord(entry, entry.id, changes, { actor: user?.email ?? null, now })),
+        ]);
+      } catch (err: any) {
+        setError(err?.message ?? "Revert failed.");
+      } finally {
+        setBusyKey(null);
+      }
+    },
+    [entity, loadCurrent, recordId, user?.email],
+  );
+
+  const handleRevertField = useCallback(
+    (entry: AuditEntry, field: string, change: AuditFieldChange) =>
+      applyPatch(entry, `${entry.id}:${field}`, (current) => buildRevertPatch(change, field, current)),
+    [applyPatch],
+  );
+
+  const handleRestore = useCallback(
+    (entry: AuditEntry) => applyPatch(entry, entry.id, () => buildRestorePatch(entry.changes)),
+    [applyPatch],
+  );
+
+  if (isLoading) {
+    return <p className="text-xs text-slate-500 dark:text-slate-400">Loading history…</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="text-xs text-slate-500 dark:text-slate-400">No recorded changes yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && <p className="text-xs text-rose-600 dark:text-rose-300">{error}</p>}
+      <ol className="space-y-2">
+        {entries.map((entry) => {
+          const canRevertFields = entry.action === "update" || entry.action === "revert";
+          return (
+            <li
+              key={entry.id}
+              className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs dark:border-slate-700 dark:bg-slate-800"
+            >
+              <div className="flex flex-wrap items-center gap-2 text-slate-500 dark:text-slate-400">
+                <span className="font-semibold text-slate-700 dark:text-slate-200">{ACTION_LABELS[entry.action]}</span>
+                <span>{formatDateTime(entry.createdAt)}</span>
+                <span>· {entry.actor ?? "unknown"}</span>
+                <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-medium text-slate-600 dark:bg-slate-700 dark:text-slate-200">
+                  {entry.sourceDetail ? `${entry.source} · ${entry.sourceDetail}` : entry.source}
+                </span>
+                {revertedIds.has(entry.id) && (
+                  <span className="rounded-full bg-amber-50 px-2 py-0.5 text-[11px] font-medium text-amber-700 ring-1 ring-amber-200 dark:bg-amber-900/20 dark:text-amber-200 dark:ring-amber-800/60">
+                    Partly reverted
+                  </span>
+                )}
+                {entry.action === "delete" && (
+                  <button
+                    type="button"
+                    disabled={busyKey !== null}
+                    onClick={() => void handleRestore(entry)}
+                    className="ml-auto rounded-lg border border-slate-200 px-2 py-1 text-[11px] font-medium text-slate-600 transition hover:border-brand-200 hover:text-brand-700 disabled:opacity-60 dark:border-slate-600 dark:text-slate-300 dark:hover:border-brand-700 dark:hover:text-brand-200"
+                  >
+                    {busyKey === entry.id ? "Restoring…" : "Restore"}
+                  </button>
+                )}
+              </div>
+              {entry.action !== "delete" && (
+                <table className="mt-2 w-full table-fixed">
+                  <tbody>
+                    {Object.entries(entry.changes ?? {}).map(([field, change]) => {
+                      const { before, after } = describeChange(change);
+                      const key = `${entry.id}:${field}`;
+                      return (
+                        <tr key={field} className="align-top">
+                          <td className="w-28 py-0.5 pr-2 font-medium text-slate-600 dark:text-slate-300">{field}</td>
+                          <td className="break-words py-0.5 pr-2 text-slate-500 line-through decoration-slate-300 dark:text-slate-400 dark:decoration-slate-600">
+                            {entry.action === "create" ? "" : before}
+                          </td>
+                          <td className="break-words py-0.5 pr-2 text-slate-800 dark:text-slate-100">{after}</td>
+                          <td className="w-16 py-0.5 text-right">
+                            {canRevertFields && (
+                              <button
+                                type="button"
+                                disabled={busyKey !== null}
+                                onClick={() => void handleRevertField(entry, field, change)}
+                                className="text-[11px] font-medium text-brand-600 hover:text-brand-700 disabled:opacity-60 dark:text-brand-300 dark:hover:text-brand-200"
+                              >
+                                {busyKey === key ? "…" : "Revert"}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -15,6 +15,7 @@ import { UNDEFINED_STAT_ATTRIBUTE } from "../../types/stat";
 import type { ImportQueueItem, ImportRelationship } from "../types/censusImport";
 import { CustomSelect } from "./CustomSelect";
 import { useCensusImportQueue } from "../hooks/useCensusImportQueue";
+import { auditTx } from "../lib/auditTx";
 import { GroupSearchInput, HighlightMatch } from "./AdminCensusGroupSearchInput";
 import {
   DEFAULT_CENSUS_DATASET,
@@ -40,7 +41,7 @@ export interface NewStatModalProps {
   onClose: () => void;
   onImported: (statIds: string[]) => void;
   categoryOptions: Array<{ value: string; label: string }>;
-  user?: { id?: string | null } | null;
+  user?: { id?: string | null; email?: string | null } | null;
   existingCensusStats: Map<
     string,
     { id: string; name: string; label: string | null | undefined }
@@ -852,19 +853,22 @@ export const NewStatModal = ({
         const now = Date.now();
         const newStatId = createId();
         const relationKey = `${parentStatId}::${newStatId}::Change`;
+        const statRecord = {
+          name: derivedName,
+          label: derivedLabel,
+          category: derivedCategory,
+          source: derivedSource,
+          goodIfUp: null,
+          featured: false,
+          homeFeatured: false,
+          visibility: null,
+          createdOn: now,
+          lastUpdated: now,
+        };
+        const auditMeta = { actor: user?.email ?? null, sourceDetail: "census-import", now };
         const txs: any[] = [
-          db.tx.stats[newStatId].update({
-            name: derivedName,
-            label: derivedLabel,
-            category: derivedCategory,
-            source: derivedSource,
-            goodIfUp: null,
-            featured: false,
-            homeFeatured: false,
-            visibility: null,
-            createdOn: now,
-            lastUpdated: now,
-          }),
+          db.tx.stats[newStatId].update(statRecord),
+          ...auditTx({ entity: "stats", recordId: newStatId, action: "create", after: statRecord, ...auditMeta }),
           db.tx.statRelations[createId()].update({
             relationKey,
             parentStatId,
@@ -883,20 +887,23 @@ export const NewStatModal = ({
           const summaryKey =
             parentArea && boundaryType ? buildStatDataSummaryKey(newStatId, "root", parentArea, boundaryType) : null;
           const summary = computeSummaryFromData(row.data);
+          const statDataId = createId();
+          const statDataRecord = {
+            statId: newStatId,
+            name: "root",
+            parentArea,
+            boundaryType,
+            date,
+            type: "percent_change",
+            data: row.data,
+            source: derivedSource,
+            statTitle: derivedLabel,
+            createdOn: now,
+            lastUpdated: now,
+          };
           txs.push(
-            db.tx.statData[createId()].update({
-              statId: newStatId,
-              name: "root",
-              parentArea,
-              boundaryType,
-              date,
-              type: "percent_change",
-              data: row.data,
-              source: derivedSource,
-              statTitle: derivedLabel,
-              createdOn: now,
-              lastUpdated: now,
-            }),
+            db.tx.statData[statDataId].update(statDataRecord),
+            ...auditTx({ entity: "statData", recordId: statDataId, action: "create", after: statDataRecord, ...auditMeta }),
           );
           if (summaryKey && date) {
             txs.push(
@@ -930,7 +937,7 @@ export const NewStatModal = ({
         return null;
       }
     },
-    [],
+    [user?.email],
   );
 
   const createPercentDerivedChild = useCallback(
@@ -1026,19 +1033,22 @@ export const NewStatModal = ({
         const now = Date.now();
         const newStatId = createId();
         const relationKey = `${parentStatId}::${newStatId}::Percent`;
+        const statRecord = {
+          name: derivedName,
+          label: derivedLabel,
+          category: derivedCategory,
+          source: derivedSource,
+          goodIfUp: null,
+          featured: false,
+          homeFeatured: false,
+          visibility: null,
+          createdOn: now,
+          lastUpdated: now,
+        };
+        const auditMeta = { actor: user?.email ?? null, sourceDetail: "census-import", now };
         const txs: any[] = [
-          db.tx.stats[newStatId].update({
-            name: derivedName,
-            label: derivedLabel,
-            category: derivedCategory,
-            source: derivedSource,
-            goodIfUp: null,
-            featured: false,
-            homeFeatured: false,
-            visibility: null,
-            createdOn: now,
-            lastUpdated: now,
-          }),
+          db.tx.stats[newStatId].update(statRecord),
+          ...auditTx({ entity: "stats", recordId: newStatId, action: "create", after: statRecord, ...auditMeta }),
           db.tx.statRelations[createId()].update({
             relationKey,
             parentStatId,
@@ -1057,20 +1067,23 @@ export const NewStatModal = ({
           const summaryKey =
             parentArea && boundaryType ? buildStatDataSummaryKey(newStatId, "root", parentArea, boundaryType) : null;
           const summary = computeSummaryFromData(row.data);
+          const statDataId = createId();
+          const statDataRecord = {
+            statId: newStatId,
+            name: "root",
+            parentArea,
+            boundaryType,
+            date,
+            type: "percent",
+            data: row.data,
+            source: derivedSource,
+            statTitle: derivedLabel,
+            createdOn: now,
+            lastUpdated: now,
+          };
           txs.push(
-            db.tx.statData[createId()].update({
-              statId: newStatId,
-              name: "root",
-              parentArea,
-              boundaryType,
-              date,
-              type: "percent",
-              data: row.data,
-              source: derivedSource,
-              statTitle: derivedLabel,
-              createdOn: now,
-              lastUpdated: now,
-            }),
+            db.tx.statData[statDataId].update(statDataRecord),
+            ...auditTx({ entity: "statData", recordId: statDataId, action: "create", after: statDataRecord, ...auditMeta }),
           );
           if (summaryKey && date) {
             txs.push(
@@ -1104,7 +1117,7 @@ export const NewStatModal = ({
         return null;
       }
     },
-    [],
+    [user?.email],
   );
 
   const handleRunQueue = useCallback(async () => {
@@ -1167,6 +1180,7 @@ export const NewStatModal = ({
                 category: category,
                 visibility: "private",
                 createdBy: user?.id ?? null,
+                requestedBy: user?.email ?? null,
               }),
             });
             const payload = (await response.json().catch(() => null)) as any;
@@ -1362,6 +1376,7 @@ export const NewStatModal = ({
     setDerivedStatusLabel,
     selection,
     user?.id,
+    user?.email,
   ]);
 
   if (!isOpen) return null;
@@ -0,0 +1,345 @@
+import { useCallback, useMemo, useState } from "react";
+import { id } from "@instantdb/react";
+import { db } from "../../lib/reactDb";
+import type { Organization } from "../../types/organization";
+import {
+  MERGE_FIELDS,
+  buildMergeUpdate,
+  chooseSurvivor,
+  describeMergeField,
+  findDuplicateCandidates,
+  getDefaultMergeChoices,
+  type DuplicateCandidate,
+  type MergeChoices,
+} from "../lib/orgDuplicates";
+import { auditTx } from "../lib/auditTx";
+
+type AdminOrgDuplicatesPanelProps = {
+  organizations: Organization[];
+  isLoading?: boolean;
+};
+
+type MergeDraft = {
+  key: string;
+  survivorId: string;
+  choices: MergeChoices;
+};
+
+const MAX_VISIBLE_CANDIDATES = 50;
+
+const formatMeters = (meters: number): string => {
+  if (!Number.isFinite(meters)) return "no pin";
+  return meters < 1000 ? `${Math.round(meters)} m apart` : `${(meters / 1000).toFixed(1)} km apart`;
+};
+
+const snapshotOrganization = (org: Organization): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(org).filter(([, value]) => value !== undefined));
+
+export const AdminOrgDuplicatesPanel = ({ organizations, isLoading = false }: AdminOrgDuplicatesPanelProps) => {
+  const { user } = db.useAuth();
+  const [draft, setDraft] = useState<MergeDraft | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const { data: reviewData } = db.useQuery({
+    orgMerges: {
+      $: {
+        where: { action: "dismiss" },
+        fields: ["pairKey"],
+      },
+    },
+  });
+
+  const dismissedKeys = useMemo(
+    () => new Set((reviewData?.orgMerges ?? []).map((row) => row.pairKey)),
+    [reviewData?.orgMerges],
+  );
+
+  const candidates = useMemo(
+    () => findDuplicateCandidates(organizations, { dismissedKeys }),
+    [dismissedKeys, organizations],
+  );
+  const visibleCandidates = candidates.slice(0, MAX_VISIBLE_CANDIDATES);
+
+  const openMerge = useCallback((candidate: DuplicateCandidate) => {
+    const [survivor, duplicate] = chooseSurvivor(candidate.a, candidate.b);
+    setError(null);
+    setDraft({ key: candidate.key, survivorId: survivor.id, choices: getDefaultMergeChoices(survivor, duplicate) });
+  }, []);
+
+  const swapSurvivor = useCallback((candidate: DuplicateCandidate) => {
+    setDraft((prev) => {
+      if (!prev || prev.key !== candidate.key) return prev;
+      const [survivor, duplicate] =
+        prev.survivorId === candidate.a.id ? [candidate.b, candidate.a] : [candidate.a, candidate.b];
+      return { key: prev.key, survivorId: survivor.id, choices: getDefaultMergeChoices(survivor, duplicate) };
+    });
+  }, []);
+
+  const handleDismiss = useCallback(
+    async (candidate: DuplicateCandidate) => {
+      setBusyKey(candidate.key);
+      setError(null);
+      try {
+        await db.transact(
+          db.tx.orgMerges[id()].update({
+            pairKey: candidate.key,
+            action: "dismiss",
+            survivorId: candidate.a.id,
+            mergedId: candidate.b.id,
+            survivorName: candidate.a.name,
+            mergedName: candidate.b.name,
+            score: candidate.score,
+            createdBy: user?.email ?? undefined,
+            createdAt: Date.now(),
+          }),
+        );
+        if (draft?.key === candidate.key) setDraft(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to dismiss pair");
+      } finally {
+        setBusyKey(null);
+      }
+    },
+    [draft?.key, user?.email],
+  );
+
+  const handleMerge = useCallback(
+    async (candidate: DuplicateCandidate) => {
+      if (!draft || draft.key !== candidate.key) return;
+      const [survivor, duplicate] =
+        draft.survivorId === candidate.a.id ? [candidate.a, candidate.b] : [candidate.b, candidate.a];
+      setBusyKey(candidate.key);
+      setError(null);
+      try {
+        const { data } = await db.queryOnce({
+          comments: {
+            $: {
+              where: { orgId: duplicate.id },
+              fields: ["id"],
+            },
+          },
+        });
+        const commentIds = (data?.comments ?? []).map((row) => row.id);
+        const update = buildMergeUpdate(survivor, duplicate, draft.choices);
+        const survivorName = typeof update.name === "string" ? update.name : survivor.name;
+        const now = Date.now();
+        const auditMeta = { actor: user?.email ?? null, sourceDetail: "duplicate-merge", now };
+        // Delete first so a moved placeId doesn't collide with its unique index.
+        await db.transact([
+          db.tx.organizations[duplicate.id].delete(),
+          db.tx.organizations[survivor.id].update({ ...update, updatedAt: now }),
+          ...auditTx({ entity: "organizations", recordId: duplicate.id, action: "delete", before: duplicate, ...auditMeta }),
+          ...auditTx({
+            entity: "organizations",
+            recordId: survivor.id,
+            action: "update",
+            before: survivor,
+            after: update,
+            ...auditMeta,
+          }),
+          ...commentIds.map((commentId) =>
+            db.tx.comments[commentId].update({ orgId: survivor.id, orgName: survivorName }),
+          ),
+          db.tx.orgMerges[id()].update({
+            pairKey: candidate.key,
+            action: "merge",
+            survivorId: survivor.id,
+            mergedId: duplicate.id,
+            survivorName,
+            mergedName: duplicate.name,
+            score: candidate.score,
+            choices: { ...draft.choices },
+            mergedSnapshot: snapshotOrganization(duplicate),
+            movedCommentIds: commentIds,
+            createdBy: user?.email ?? undefined,
+            createdAt: now,
+          }),
+        ]);
+        setDraft(null);
+        setNotice(
+          `Merged "${duplicate.name}" into "${survivorName}"` +
+            (commentIds.length > 0 ? ` and moved ${commentIds.length} comment${commentIds.length === 1 ? "" : "s"}.` : "."),
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to merge organizations");
+      } finally {
+        setBusyKey(null);
+      }
+    },
+    [draft, user?.email],
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center text-sm text-slate-500 dark:text-slate-400">
+        Looking for duplicates…
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto flex max-w-4xl flex-col gap-3">
+      {notice && (
+        <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs text-emerald-800 dark:border-emerald-900/40 dark:bg-emerald-900/25 dark:text-emerald-100">
+          {notice}
+        </div>
+      )}
+      {error && (
+        <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700 dark:border-rose-900/50 dark:bg-rose-900/20 dark:text-rose-200">
+          {error}
+        </div>
+      )}
+      {candidates.length === 0 ? (
+        <div className="flex h-40 items-center justify-center text-sm text-slate-500 dark:text-slate-400">
+          No likely duplicates.
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          {candidates.length > visibleCandidates.length
+            ? `Showing the ${visibleCandidates.length} strongest of ${candidates.length} pairs.`
+            : `${candidates.length} likely duplicate pair${candidates.length === 1 ? "" : "s"}.`}
+        </p>
+      )}
+      {visibleCandidates.map((candidate) => {
+        const isOpen = draft?.key === candidate.key;
+        const isBusy = busyKey === candidate.key;
+        const [survivor, duplicate] =
+          isOpen && draft.survivorId === candidate.b.id ? [candidate.b, candidate.a] : [candidate.a, candidate.b];
+        return (
+          <div
+            key={candidate.key}
+            className="rounded-xl border border-slate-200 bg-white px-4 py-3 shadow-sm dark:border-slate-700 dark:bg-slate-800"
+          >
+            <div className="flex flex-wrap items-start gap-3">
+              <div className="grid flex-1 grid-cols-1 gap-2 sm:grid-cols-2">
+                {[candidate.a, candidate.b].map((org) => (
+                  <div key={org.id} className="min-w-0">
+                    <h3 className="truncate text-sm font-semibold text-slate-900 dark:text-slate-100">{org.name}</h3>
+                    <p className="truncate text-xs text-slate-500 dark:text-slate-400">
+                      {[org.address, org.city, org.postalCode].filter(Boolean).join(", ") || "Address missing"}
+                    </p>
+                    <p className="text-xs text-slate-400 dark:text-slate-500">
+                      {[org.phone, org.source, org.placeId ? "Google" : null].filter(Boolean).join(" · ") || "—"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-col items-end gap-1">
+                <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700 dark:bg-amber-900/40 dark:text-amber-200">
+                  {Math.round(candidate.score * 100)}% match
+                </span>
+                <span className="text-[11px] text-slate-400 dark:text-slate-500">
+                  {[
+                    `name ${Math.round(candidate.nameSimilarity * 100)}%`,
+                    formatMeters(candidate.meters),
+                    candidate.samePhone ? "same phone" : null,
+                    candidate.placeIdMatch === "same"
+                      ? "same place"
+                      : candidate.placeIdMatch === "different"
+                      ? "different places"
+                      : null,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              </div>
+            </div>
+            <div className="mt-2 flex justify-end gap-2">
+              <button
+                type="button"
+                disabled={isBusy}
+                onClick={() => void handleDismiss(candidate)}
+                className="rounded-lg border border-slate-200 px-2 py-1 text-[11px] font-medium text-slate-600 transition hover:border-slate-300 hover:text-slate-800 disabled:opacity-60 dark:border-slate-600 dark:text-slate-300 dark:hover:text-slate-100"
+              >
+                Not duplicates
+              </button>
+              <button
+                type="button"
+                disabled={isBusy}
+                onClick={() => (isOpen ? setDraft(null) : openMerge(candidate))}
+                aria-expanded={isOpen}
+                className="rounded-lg border border-slate-200 px-2 py-1 text-[11px] font-medium text-slate-600 transition hover:border-brand-200 hover:text-brand-700 disabled:opacity-60 dark:border-slate-600 dark:text-slate-300 dark:hover:border-brand-700 dark:hover:text-brand-200"
+              >
+                {isOpen ? "Close merge" : "Review merge"}
+              </button>
+            </div>
+            {isOpen && (
+              <div className="mt-3 space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-3 dark:border-slate-700 dark:bg-slate-900/40">
+                <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+                  <span>
+                    Keeping <span className="font-semibold text-slate-700 dark:text-slate-200">{survivor.name}</span>;
+                    the other record is deleted and its comments move over.
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => swapSurvivor(candidate)}
+                    className="shrink-0 text-brand-600 hover:underline dark:text-brand-300"
+                  >
+                    Keep the other
+                  </button>
+                </div>
+                <table className="w-full table-fixed text-left text-xs">
+                  <thead className="text-[11px] uppercase tracking-wide text-slate-400 dark:text-slate-500">
+                    <tr>
+                      <th className="w-28 py-1 font-semibold">Field</th>
+                      <th className="py-1 font-semibold">Kept record</th>
+                      <th className="py-1 font-semibold">Merged record</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {MERGE_FIELDS.map(({ field, label }) => {
+                      const keptValue = describeMergeField(survivor, field);
+                      const mergedValue = describeMergeField(duplicate, field);
+                      return (
+                        <tr key={field} className="border-t border-slate-200 dark:border-slate-700">
+                          <td className="py-1.5 font-medium text-slate-600 dark:text-slate-300">{label}</td>
+                          {(["survivor", "duplicate"] as const).map((side) => (
+                            <td key={side} className="py-1.5 pr-2">
+                              <label className="flex min-w-0 items-center gap-1.5 text-slate-600 dark:text-slate-300">
+                                <input
+                                  type="radio"
+                                  name={`${candidate.key}-${field}`}
+                                  checked={draft.choices[field] === side}
+                                  disabled={keptValue === mergedValue && side === "duplicate"}
+                                  onChange={() =>
+                                    setDraft((prev) =>
+                                      prev ? { ...prev, choices: { ...prev.choices, [field]: side } } : prev,
+                                    )
+                                  }
+                                />
+                                <span className="truncate">{side === "survivor" ? keptValue : mergedValue}</span>
+                              </label>
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setDraft(null)}
+                    className="rounded-lg border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-600 hover:bg-slate-100 dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-800"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    disabled={isBusy}
+                    onClick={() => void handleMerge(candidate)}
+                    className="rounded-lg bg-brand-500 px-3 py-1.5 text-xs font-medium text-white hover:bg-brand-600 disabled:opacity-60 dark:bg-brand-400 dark:hover:bg-brand-500"
+                  >
+                    {isBusy ? "Merging…" : "Merge"}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -5,6 +5,12 @@ import { useAuthSession } from "../hooks/useAuthSession";
 import { useCategories } from "../hooks/useCategories";
 import type { Category, Organization, OrgImportBatch } from "../../types/organization";
 import { CustomSelect } from "./CustomSelect";
+import { ORG_EXPORT_FORMATS, downloadOrganizationsExport, type OrgExportFormat } from "../lib/orgExport";
+import { draftToHours, hoursToDraft, type HoursDraft } from "../lib/organizationHours";
+import { OrganizationHoursEditor } from "./OrganizationHoursEditor";
+import { AdminAuditHistoryPanel } from "./AdminAuditHistoryPanel";
+import { AdminOrgDuplicatesPanel } from "./AdminOrgDuplicatesPanel";
+import { auditTx } from "../lib/auditTx";
 import { ChevronDownIcon, FunnelIcon } from "@heroicons/react/24/outline";
 
 type AdminOrgsPanelProps = {
@@ -16,7 +22,7 @@ type OrgRow = Organization & {
   source?: string | null;
 };
 
-type ViewMode = "orgs" | "batches";
+type ViewMode = "orgs" | "batches" | "duplicates";
 const DEFAULT_IMPORT_LIMIT = 300;
 
 const formatCategoryLabelForImport = (category: string): string => {
@@ -592,7 +598,7 @@ const OrgImportModal = ({
 };
 
 export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminOrgsPanelProps) => {
-  const { authReady } = useAuthSession();
+  const { authReady, user } = useAuthSession();
   const { orgCategories } = useCategories();
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -613,6 +619,10 @@ export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminO
   const tabDropdownRef = useRef<HTMLDivElement>(null);
   const [isFiltersDropdownOpen, setIsFiltersDropdownOpen] = useState(false);
   const filtersDropdownRef = useRef<HTMLDivElement>(null);
+  const [hoursEdit, setHoursEdit] = useState<{ orgId: string; draft: HoursDraft } | null>(null);
+  const [historyOrgId, setHistoryOrgId] = useState<string | null>(null);
+  const [isSavingHours, setIsSavingHours] = useState(false);
+  const [hoursError, setHoursError] = useState<string | null>(null);
 
   const queryEnabled = authReady;
   const allowedCategories = useMemo(() => new Set(orgCategories.map((c) => c.slug)), [orgCategories]);
@@ -641,6 +651,13 @@ export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminO
                 "address",
                 "googleCategory",
                 "ein",
+                "latitude",
+                "longitude",
+                "phone",
+                "website",
+                "hours",
+                "placeId",
+                "issueCount",
               ],
             },
           },
@@ -893,7 +910,7 @@ export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminO
         const response = await fetch("/api/org-import-delete", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ batchId }),
+          body: JSON.stringify({ batchId, deletedBy: user?.email ?? null }),
         });
         const payload = await response.json().catch(() => null);
         if (!response.ok || !payload?.ok) {
@@ -917,7 +934,43 @@ export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminO
         setDeletingBatchId(null);
       }
     },
-    [],
+    [user?.email],
+  );
+
+  const handleEditHours = useCallback((org: OrgRow) => {
+    setHoursError(null);
+    setHoursEdit((prev) => (prev?.orgId === org.id ? null : { orgId: org.id, draft: hoursToDraft(org.hours) }));
+  }, []);
+
+  const handleSaveHours = useCallback(
+    async (org: OrgRow) => {
+      if (!hoursEdit || hoursEdit.orgId !== org.id) return;
+      setIsSavingHours(true);
+      setHoursError(null);
+      try {
+        const hours = draftToHours(hoursEdit.draft, org.hours);
+        const patch = { hours: hours ?? null, updatedAt: Date.now() };
+        await db.transact([
+          db.tx.organizations[org.id].update(patch),
+          ...auditTx({
+            entity: "organizations",
+            recordId: org.id,
+            action: "update",
+            before: org,
+            after: patch,
+            actor: user?.email ?? null,
+            sourceDetail: "admin-orgs",
+          }),
+        ]);
+        setHoursEdit(null);
+      } catch (err: any) {
+        console.error("Failed to save organization hours", err);
+        setHoursError(err?.message ?? "Failed to save hours");
+      } finally {
+        setIsSavingHours(false);
+      }
+    },
+    [hoursEdit, user?.email],
   );
 
   const categoryOptions = useMemo(
@@ -946,7 +999,7 @@ export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminO
           <div ref={tabDropdownRef} className="relative shrink-0">
             <div className="flex items-center gap-1.5">
               <h1 className="text-lg font-bold text-slate-800 dark:text-slate-100 sm:text-xl">
-                {viewMode === "orgs" ? "Orgs" : "Batches"}
+                {viewMode === "orgs" ? "Orgs" : viewMode === "duplicates" ? "Duplicates" : "Batches"}
               </h1>
               <button
                 type="button"
@@ -968,9 +1021,9 @@ export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminO
                     { value: "stats" as const, label: "Stats" },
                     { value: "orgs" as const, label: "Orgs" },
                     { value: "batches" as const, label: "Batches" },
+                    { value: "duplicates" as const, label: "Duplicates" },
                   ].map((tab) => {
-                    const currentTab = viewMode === "orgs" ? "orgs" : viewMode === "batches" ? "batches" : "stats";
-                    const isActive = currentTab === tab.value;
+                    const isActive = viewMode === tab.value;
                     return (
                       <li key={tab.value}>
                         <button
@@ -1006,6 +1059,10 @@ export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminO
                 {filteredOrgs.length} org{filteredOrgs.length === 1 ? "" : "s"} shown
                 {search || categoryFilter !== "all" ? ` of ${organizations.length}` : ""}
               </p>
+            ) : viewMode === "duplicates" ? (
+              <p className="text-[11px] text-slate-500 dark:text-slate-400 sm:text-xs">
+                Review queue across {organizations.length} orgs
+              </p>
             ) : (
               <p className="text-[11px] text-slate-500 dark:text-slate-400 sm:text-xs">
                 {filteredBatches.length} batch{filteredBatches.length === 1 ? "" : "es"} shown
@@ -1160,6 +1217,14 @@ export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminO
                     { value: "city", label: "City" },
                   ]}
                 />
+                <CustomSelect
+                  value=""
+                  placeholder="Export"
+                  ariaLabel="Export filtered orgs"
+                  onChange={(format) => downloadOrganizationsExport(filteredOrgs, format as OrgExportFormat, "admin_organizations")}
+                  options={ORG_EXPORT_FORMATS}
+                  disabled={filteredOrgs.length === 0}
+                />
                 <button
                   type="button"
                   onClick={() => setIsImportModalOpen(true)}
@@ -1169,7 +1234,7 @@ export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminO
                 </button>
               </div>
             </>
-          ) : (
+          ) : viewMode === "batches" ? (
             <div className="flex min-w-0 flex-1 items-center justify-end gap-2">
               <CustomSelect
                 value={batchStatusFilter}
@@ -1206,7 +1271,7 @@ export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminO
                 <span className="text-sm leading-none">+</span> Import Orgs
               </button>
             </div>
-          )}
+          ) : null}
         </div>
       </div>
 
@@ -1290,7 +1355,15 @@ export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminO
       )}
 
       <div className="flex-1 overflow-y-auto px-4 py-3 sm:px-6 sm:py-4">
-        {viewMode === "orgs" ? (
+        {viewMode === "duplicates" ? (
+          error ? (
+            <div className="rounded-lg border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700 dark:border-rose-900/50 dark:bg-rose-900/20 dark:text-rose-200">
+              Failed to load organizations.
+            </div>
+          ) : (
+            <AdminOrgDuplicatesPanel organizations={organizations} isLoading={isLoading} />
+          )
+        ) : viewMode === "orgs" ? (
           isLoading ? (
             <div className="flex h-full items-center justify-center text-sm text-slate-500 dark:text-slate-400">
               Loading orgs…
@@ -1341,12 +1414,63 @@ export const AdminOrgsPanel = ({ onSwitchTab, initialViewMode = "orgs" }: AdminO
                         </span>
                       </div>
                     </div>
-                    {org.importBatchId && (
-                      <span className="rounded-lg bg-brand-50 px-2 py-1 text-[11px] font-medium text-brand-700 ring-1 ring-brand-100 dark:bg-brand-900/30 dark:text-brand-200 dark:ring-brand-800/50">
-                        Batch {org.importBatchId.slice(0, 6)}
-                      </span>
-                    )}
+                    <div className="flex items-center gap-2">
+                      {org.importBatchId && (
+                        <span className="rounded-lg bg-brand-50 px-2 py-1 text-[11px] font-medium text-brand-700 ring-1 ring-brand-100 dark:bg-brand-900/30 dark:text-brand-200 dark:ring-brand-800/50">
+                          Batch {org.importBatchId.slice(0, 6)}
+                        </span>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleEditHours(org)}
+                        aria-expanded={hoursEdit?.orgId === org.id}
+                        className="rounded-lg border border-slate-200 px-2 py-1 text-[11px] font-medium text-slate-600 transition hover:border-brand-200 hover:text-brand-700 dark:border-slate-600 dark:text-slate-300 dark:hover:border-brand-700 dark:hover:text-brand-200"
+                      >
+                        {hoursEdit?.orgId === org.id ? "Close hours" : "Edit hours"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setHistoryOrgId((prev) => (prev === org.id ? null : org.id))}
+                        aria-expanded={historyOrgId === org.id}
+                        className="rounded-lg border border-slate-200 px-2 py-1 text-[11px] font-medium text-slate-600 transition hover:border-brand-200 hover:text-brand-700 dark:border-slate-600 dark:text-slate-300 dark:hover:border-brand-700 dark:hover:text-brand-200"
+                      >
+                        {historyOrgId === org.id ? "Close history" : "History"}
+                      </button>
+                    </div>
                   </div>
+                  {historyOrgId === org.id && (
+                    <div className="mt-3 rounded-lg border border-slate-200 bg-slate-50 p-3 dark:border-slate-700 dark:bg-slate-900/40">
+                      <AdminAuditHistoryPanel entity="organizations" recordId={org.id} />
+                    </div>
+                  )}
+                  {hoursEdit?.orgId === org.id && (
+                    <div className="mt-3 space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-3 dark:border-slate-700 dark:bg-slate-900/40">
+                      <OrganizationHoursEditor
+                        value={hoursEdit.draft}
+                        onChange={(draft) => setHoursEdit({ orgId: org.id, draft })}
+                      />
+                      {hoursError && (
+                        <p className="text-xs text-rose-600 dark:text-rose-300">{hoursError}</p>
+                      )}
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setHoursEdit(null)}
+                          className="rounded-lg border border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-600 hover:bg-slate-100 dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-800"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="button"
+                          disabled={isSavingHours}
+                          onClick={() => void handleSaveHours(org)}
+                          className="rounded-lg bg-brand-500 px-3 py-1.5 text-xs font-medium text-white hover:bg-brand-600 disabled:opacity-60 dark:bg-brand-400 dark:hover:bg-brand-500"
+                        >
+                          {isSavingHours ? "Saving…" : "Save hours"}
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
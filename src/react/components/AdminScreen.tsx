@@ -10,19 +10,32 @@ import {
   computeSummaryFromData,
   createDerivedStatRows,
   getDerivedSourceStatIds,
+  type RootStatDataRow,
 } from "../../lib/derivedStats";
+import { parseCrosswalkCsv, type CrosswalkMode } from "../../lib/crosswalk";
 import { useAuthSession } from "../hooks/useAuthSession";
 import { useCategories } from "../hooks/useCategories";
+import { DEFAULT_POPULATION_STAT_ID } from "../lib/domains";
+import { getAggregationWeightStatId, getStatAggregationRule } from "../lib/statAggregation";
 import type { Stat, StatRelation, StatVisibility } from "../../types/stat";
 import { UNDEFINED_STAT_ATTRIBUTE, buildEffectiveStatMetaById, normalizeStatVisibility } from "../../types/stat";
 import { CustomSelect } from "./CustomSelect";
+import {
+  CLASSIFICATION_METHOD_LABELS,
+  normalizeClassificationMethod,
+  normalizeManualBreaks,
+  type ClassificationMethod,
+} from "../../lib/choropleth";
 import {
   DerivedStatModal,
   type DerivedStatModalSubmit,
   type DerivedStatOption,
 } from "./DerivedStatModal";
 import { NewStatModal } from "./AdminNewStatModal";
+import { AdminAuditHistoryPanel } from "./AdminAuditHistoryPanel";
 import { AdminOrgsPanel } from "./AdminOrgsPanel";
+import { auditTx } from "../lib/auditTx";
+import { normalizeLabelTranslations, type LabelTranslations } from "../../lib/i18n";
 import { ChevronDownIcon } from "@heroicons/react/24/outline";
 
 // Stat item from InstantDB stats table
@@ -30,6 +43,7 @@ interface StatItem {
   id: string;
   name: string;
   label?: string | null; // Human-friendly display label
+  labelTranslations?: LabelTranslations | null;
   description?: string | null;
   category: string;
   neId?: string | null;
@@ -42,6 +56,9 @@ interface StatItem {
   visibilityEffective?: StatVisibility | null;
   createdBy?: string | null;
   active?: boolean | null;
+  classificationMethod?: ClassificationMethod | null;
+  classBreaks?: number[] | null;
+  denominatorStatId?: string | null;
   createdOn?: number | null;
   lastUpdated?: number | null;
 }
@@ -73,6 +90,67 @@ interface StatDataSummary {
 
 const MAX_DERIVED_TX_BATCH = 10;
 
+// Root statData rows plus their summary rows, oldest date first so each summary ends on the latest.
+const buildRootStatDataTxs = (
+  statId: string,
+  rows: RootStatDataRow[],
+  meta: { type: string; source: string; statTitle: string; now: number; actor: string | null; sourceDetail: string },
+): any[] => {
+  const { type, source, statTitle, now, actor, sourceDetail } = meta;
+  const txs: any[] = [];
+  const sortedRows = [...rows].sort((a, b) => String(a.date ?? "").localeCompare(String(b.date ?? "")));
+  for (const row of sortedRows) {
+    const parentArea = row.parentArea ?? undefined;
+    const boundaryType = row.boundaryType ?? undefined;
+    const date = row.date ?? undefined;
+    const summaryKey =
+      parentArea && boundaryType ? buildStatDataSummaryKey(statId, "root", parentArea, boundaryType) : null;
+    const summary = computeSummaryFromData(row.data);
+    const statDataId = createId();
+    const record = {
+      statId,
+      name: "root",
+      parentArea,
+      boundaryType,
+      date,
+      type,
+      data: row.data,
+      ...(row.marginOfError ? { marginOfError: row.marginOfError } : {}),
+      source,
+      statTitle,
+      createdOn: now,
+      lastUpdated: now,
+    };
+
+    txs.push(
+      db.tx.statData[statDataId].update(record),
+      ...auditTx({ entity: "statData", recordId: statDataId, action: "create", after: record, actor, sourceDetail, now }),
+    );
+
+    if (summaryKey && date) {
+      txs.push(
+        db.tx.statDataSummaries[lookup("summaryKey", summaryKey)].update({
+          statId,
+          name: "root",
+          parentArea,
+          boundaryType,
+          date,
+          minDate: date,
+          maxDate: date,
+          type,
+          count: summary.count,
+          sum: summary.sum,
+          avg: summary.avg,
+          min: summary.min,
+          max: summary.max,
+          updatedAt: now,
+        }),
+      );
+    }
+  }
+  return txs;
+};
+
 const formatMetricValue = (value: number): string =>
   value.toLocaleString(undefined, { maximumFractionDigits: 2 });
 
@@ -145,6 +223,7 @@ const parseStat = (row: unknown): StatItem | null => {
     id: r.id,
     name: r.name,
     label: typeof r.label === "string" && r.label.trim() ? r.label : null,
+    labelTranslations: normalizeLabelTranslations(r.labelTranslations) ?? null,
     description: typeof r.description === "string" && r.description.trim() ? r.description : null,
     category: r.category,
     neId: typeof r.neId === "string" ? r.neId : null,
@@ -158,6 +237,9 @@ const parseStat = (row: unknown): StatItem | null => {
     visibilityEffective: normalizeStatVisibility(r.visibilityEffective) ?? null,
     createdBy: typeof r.createdBy === "string" ? r.createdBy : null,
     active: typeof r.active === "boolean" ? r.active : null,
+    classificationMethod: normalizeClassificationMethod(r.classificationMethod),
+    classBreaks: normalizeManualBreaks(r.classBreaks),
+    denominatorStatId: typeof r.denominatorStatId === "string" && r.denominatorStatId ? r.denominatorStatId : null,
     createdOn: typeof r.createdOn === "number" ? r.createdOn : null,
     lastUpdated: typeof r.lastUpdated === "number" ? r.lastUpdated : null,
   };
@@ -179,6 +261,7 @@ type VisibilityInput = StatVisibility | "inherit";
 
 interface EditFormState {
   label: string;
+  labelEs: string; // Spanish label override; "" falls back to label
   name: string;
   description: string;
   category: string;
@@ -188,8 +271,18 @@ interface EditFormState {
   visibility: VisibilityInput;
   featured: boolean | null;
   homeFeatured: boolean | null;
+  classificationMethod: ClassificationMethod | "default";
+  classBreaks: string; // comma-separated thresholds for manual classification
+  denominatorStatId: string; // "" = weight by population
 }
 
+const classificationOptions = [
+  { value: "default", label: "Default" },
+  ...(Object.entries(CLASSIFICATION_METHOD_LABELS) as Array<[ClassificationMethod, string]>).map(
+    ([value, label]) => ({ value, label }),
+  ),
+];
+
 type PoiActionState = "idle" | "running" | "success" | "error";
 
 interface PoiStatus {
@@ -198,6 +291,11 @@ interface PoiStatus {
   updatedAt?: number | null;
 }
 
+interface CrosswalkStatus {
+  state: PoiActionState;
+  message?: string | null;
+}
+
 interface PendingDerivedJob {
   id: string; // statId
   label: string;
@@ -210,6 +308,7 @@ const createEditForm = (stat: StatItem, hasParent: boolean): EditFormState => {
   const visibility = declaredVisibility ?? legacyInactive ?? (hasParent ? "inherit" : "public");
   return {
     label: stat.label ?? "",
+    labelEs: stat.labelTranslations?.es ?? "",
     name: stat.name,
     description: stat.description ?? "",
     category: stat.category,
@@ -219,6 +318,9 @@ const createEditForm = (stat: StatItem, hasParent: boolean): EditFormState => {
     visibility,
     featured: stat.featured ?? null,
     homeFeatured: stat.homeFeatured ?? null,
+    classificationMethod: stat.classificationMethod ?? "default",
+    classBreaks: stat.classBreaks?.join(", ") ?? "",
+    denominatorStatId: stat.denominatorStatId ?? "",
   };
 };
 
@@ -239,6 +341,7 @@ interface StatListItemProps {
   onToggleSelect?: (event: MouseEvent<HTMLDivElement>) => void;
   selectionMode?: boolean;
   categoryOptions: Array<{ value: string; label: string }>;
+  denominatorOptions: Array<{ value: string; label: string }>;
   hasParent?: boolean;
   effectiveVisibility?: StatVisibility;
   hasChildren?: boolean;
@@ -250,6 +353,8 @@ interface StatListItemProps {
   poiStatus?: PoiStatus | null;
   onRecalculatePoi?: () => void;
   poiBusy?: boolean;
+  onApportionZipData?: (file: File) => void;
+  crosswalkStatus?: CrosswalkStatus | null;
 }
 
 // Stat list item component with bar shape and curved corners
@@ -269,6 +374,7 @@ const StatListItem = ({
   onToggleSelect,
   selectionMode,
   categoryOptions,
+  denominatorOptions,
   hasParent = false,
   effectiveVisibility,
   hasChildren = false,
@@ -280,6 +386,8 @@ const StatListItem = ({
   poiStatus,
   onRecalculatePoi,
   poiBusy = false,
+  onApportionZipData,
+  crosswalkStatus,
 }: StatListItemProps) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [form, setForm] = useState<EditFormState>(() => createEditForm(stat, hasParent));
@@ -325,6 +433,8 @@ const StatListItem = ({
         { value: "inactive", label: "Inactive" },
       ];
 
+  const [showHistory, setShowHistory] = useState(false);
+
   // Reset form when entering edit mode or when stat changes
   useEffect(() => {
     if (isEditing) {
@@ -589,6 +699,20 @@ const StatListItem = ({
         </div>
       </div>
 
+      <div className="flex flex-col gap-1">
+        <label className="text-xs font-medium text-slate-500 dark:text-slate-400">
+          Spanish label <span className="text-slate-400 dark:text-slate-500">(shown when the UI is in Español)</span>
+        </label>
+        <input
+          type="text"
+          value={form.labelEs}
+          onChange={(e: ChangeEvent<HTMLInputElement>) => handleChange("labelEs", e.target.value)}
+          placeholder="Leave blank to use the label above"
+          lang="es"
+          className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-800 placeholder:text-slate-400 focus:border-brand-400 focus:outline-none focus:ring-2 focus:ring-brand-100 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100 dark:placeholder:text-slate-500 dark:focus:border-brand-500 dark:focus:ring-brand-900/50"
+        />
+      </div>
+
       {!hasParent ? (
         <div className="flex flex-col gap-1">
           <label className="text-xs font-medium text-slate-500 dark:text-slate-400">
@@ -687,6 +811,37 @@ const StatListItem = ({
           </label>
         </fieldset>
 
+        {/* Choropleth classification */}
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 dark:border-slate-700 dark:bg-slate-800/50">
+          <label className="text-sm font-medium text-slate-600 dark:text-slate-300">Map classes</label>
+          <CustomSelect
+            value={form.classificationMethod}
+            onChange={(val) => handleChange("classificationMethod", val)}
+            options={classificationOptions}
+            className="min-w-[160px]"
+          />
+          {form.classificationMethod === "manual" && (
+            <input
+              type="text"
+              value={form.classBreaks}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => handleChange("classBreaks", e.target.value)}
+              placeholder="Breaks, e.g. 10, 25, 50"
+              className="w-44 rounded-md border border-slate-300 bg-white px-2 py-1 text-sm text-slate-800 placeholder:text-slate-400 focus:border-brand-400 focus:outline-none focus:ring-2 focus:ring-brand-100 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100 dark:placeholder:text-slate-500"
+            />
+          )}
+        </div>
+
+        {/* Weight used when combining areas (percents, rates) */}
+        <div className="flex items-center gap-2 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 dark:border-slate-700 dark:bg-slate-800/50">
+          <label className="text-sm font-medium text-slate-600 dark:text-slate-300">Weight by</label>
+          <CustomSelect
+            value={form.denominatorStatId}
+            onChange={(val) => handleChange("denominatorStatId", val)}
+            options={denominatorOptions.filter((option) => option.value !== stat.id)}
+            className="min-w-[160px]"
+          />
+        </div>
+
         <div className="flex flex-col gap-1 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 dark:border-slate-700 dark:bg-slate-800/50">
           <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
             <input
@@ -717,6 +872,38 @@ const StatListItem = ({
             <p className="text-[11px] text-rose-600 dark:text-rose-400">{poiStatus.message}</p>
           )}
         </div>
+
+        {onApportionZipData && (
+          <div className="flex flex-col gap-1 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 dark:border-slate-700 dark:bg-slate-800/50">
+            <span className="text-sm text-slate-600 dark:text-slate-300">ZIP crosswalk</span>
+            <p className="text-[11px] text-slate-500 dark:text-slate-400">
+              Adds county or tract data apportioned from this stat's ZIPs using a HUD USPS crosswalk CSV.
+            </p>
+            <label
+              className={`mt-1 self-start rounded-md border border-indigo-200 px-2 py-1 text-[11px] font-medium text-indigo-700 transition hover:bg-indigo-50 dark:border-indigo-800 dark:text-indigo-300 dark:hover:bg-indigo-950/40 ${
+                crosswalkStatus?.state === "running" ? "pointer-events-none opacity-50" : "cursor-pointer"
+              }`}
+            >
+              {crosswalkStatus?.state === "running" ? "Apportioning…" : "Load crosswalk…"}
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) onApportionZipData(file);
+                }}
+              />
+            </label>
+            {crosswalkStatus?.state === "success" && crosswalkStatus.message && (
+              <p className="text-[11px] text-emerald-600 dark:text-emerald-400">{crosswalkStatus.message}</p>
+            )}
+            {crosswalkStatus?.state === "error" && crosswalkStatus.message && (
+              <p className="text-[11px] text-rose-600 dark:text-rose-400">{crosswalkStatus.message}</p>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Info section: Years, Areas, IDs - compact inline */}
@@ -766,6 +953,12 @@ const StatListItem = ({
         </div>
       </div>
 
+      {showHistory && (
+        <div className="mt-2 rounded-lg border border-slate-200 bg-slate-50 p-3 dark:border-slate-700 dark:bg-slate-900/40">
+          <AdminAuditHistoryPanel entity="stats" recordId={stat.id} />
+        </div>
+      )}
+
       {/* Action buttons */}
       <div className="mt-2 flex items-center justify-between border-t border-slate-200 pt-3 text-xs dark:border-slate-700">
         {onDelete && (
@@ -778,6 +971,14 @@ const StatListItem = ({
             {isDeleting ? "Deleting…" : "Delete stat + data"}
           </button>
         )}
+        <button
+          type="button"
+          onClick={() => setShowHistory((prev) => !prev)}
+          aria-expanded={showHistory}
+          className="ml-2 rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-600 transition hover:border-brand-200 hover:text-brand-700 dark:border-slate-600 dark:text-slate-300 dark:hover:border-brand-700 dark:hover:text-brand-200"
+        >
+          {showHistory ? "Hide history" : "History"}
+        </button>
         <div className="ml-auto flex items-center gap-2">
           <button
             type="button"
@@ -932,6 +1133,7 @@ export const AdminScreen = () => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [poiStatusByStatId, setPoiStatusByStatId] = useState<Record<string, PoiStatus>>({});
+  const [crosswalkStatusByStatId, setCrosswalkStatusByStatId] = useState<Record<string, CrosswalkStatus>>({});
   const [isNewStatOpen, setIsNewStatOpen] = useState(false);
   const [recentStatIds, setRecentStatIds] = useState<string[]>([]);
   const [deletingId, setDeletingId] = useState<string | null>(null);
@@ -977,6 +1179,17 @@ export const AdminScreen = () => {
     return map;
   }, [stats]);
 
+  const statDenominatorOptions = useMemo(
+    () => [
+      { value: "", label: "Population" },
+      ...stats
+        .filter((stat) => stat.id !== DEFAULT_POPULATION_STAT_ID)
+        .map((stat) => ({ value: stat.id, label: stat.label || stat.name }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    ],
+    [stats],
+  );
+
   const poiInfoByStatId = useMemo(() => {
     const map = new Map<string, { activeCount: number; lastComputedAt: number | null }>();
     const rows = (poiRowsData?.pointsOfInterest ?? []) as Array<{
@@ -1171,9 +1384,19 @@ export const AdminScreen = () => {
     if (pending.size === 0) return;
     visibilitySyncInFlightRef.current = true;
     try {
-      const txs = Array.from(pending.entries()).map(([statId, updates]) =>
+      const statsByIdForSync = new Map(stats.map((stat) => [stat.id, stat]));
+      const txs = Array.from(pending.entries()).flatMap(([statId, updates]) => [
         db.tx.stats[statId].update(updates),
-      );
+        ...auditTx({
+          entity: "stats",
+          recordId: statId,
+          action: "update",
+          before: statsByIdForSync.get(statId),
+          after: updates,
+          actor: user?.email ?? null,
+          sourceDetail: "visibility-sync",
+        }),
+      ]);
       const batchSize = 25;
       for (let i = 0; i < txs.length; i += batchSize) {
         await db.transact(txs.slice(i, i + batchSize));
@@ -1183,7 +1406,7 @@ export const AdminScreen = () => {
     } finally {
       visibilitySyncInFlightRef.current = false;
     }
-  }, [effectiveMetaById, stats]);
+  }, [effectiveMetaById, stats, user?.email]);
 
   useEffect(() => {
     void syncVisibilityEffective();
@@ -1721,13 +1944,73 @@ export const AdminScreen = () => {
     setDerivedError(null);
   }, []);
 
+  // Loads root statData rows for the given stats, keyed by stat id then row context.
+  const loadDerivedRowsByStat = useCallback(async (statIds: string[]) => {
+    const { data: statDataResponse } = await db.queryOnce({
+      statData: {
+        $: {
+          where: {
+            name: "root",
+            statId: { $in: statIds },
+          },
+          fields: ["statId", "parentArea", "boundaryType", "date", "data", "marginOfError"],
+        },
+      },
+    });
+
+    const rawRows = Array.isArray((statDataResponse as any)?.statData)
+      ? ((statDataResponse as any).statData as any[])
+      : Array.isArray((statDataResponse as any)?.data?.statData)
+        ? ((statDataResponse as any).data.statData as any[])
+        : [];
+    return buildRowsByStatId(rawRows);
+  }, []);
+
+  // Stored value type of a stat's root rows (e.g. "count", "percent").
+  const loadStatDataType = useCallback(async (statId: string): Promise<string | null> => {
+    const { data } = await db.queryOnce({
+      statData: {
+        $: {
+          where: { statId, name: "root" },
+          fields: ["type"],
+          limit: 1,
+        },
+      },
+    });
+    const row = ((data as any)?.statData ?? [])[0];
+    return typeof row?.type === "string" && row.type.trim() ? row.type.trim() : null;
+  }, []);
+
+  // Counts are split across areas; everything else is averaged, weighted by the
+  // stat's "Weight by" setting (population by default) when that stat exists.
+  const resolveCrosswalkOptions = useCallback(
+    async (statId: string) => {
+      const stat = statsById.get(statId) ?? null;
+      const type = await loadStatDataType(statId);
+      const crosswalkMode: CrosswalkMode = getStatAggregationRule(type, stat?.name) === "sum" ? "sum" : "weighted";
+      const weightStatId = getAggregationWeightStatId(stat);
+      const denominatorId = crosswalkMode === "weighted" && statsById.has(weightStatId) ? weightStatId : "";
+      return { type: type ?? "count", crosswalkMode, denominatorId };
+    },
+    [statsById, loadStatDataType],
+  );
+
   const handleDerivedSubmit = useCallback(
-    async (payload: DerivedStatModalSubmit) => {
+    async (submitted: DerivedStatModalSubmit) => {
       setDerivedError(null);
       setIsDerivedSubmitting(true);
       let attemptedWrite = false;
       let newStatMeta: { id: string; label: string } | null = null;
       try {
+        const crosswalkOptions =
+          submitted.formula === "crosswalk" ? await resolveCrosswalkOptions(submitted.numeratorId) : null;
+        const payload = crosswalkOptions
+          ? {
+              ...submitted,
+              denominatorId: crosswalkOptions.denominatorId,
+              crosswalkMode: crosswalkOptions.crosswalkMode,
+            }
+          : submitted;
         const sourceStatIds = getDerivedSourceStatIds(payload.formula, payload);
         if (sourceStatIds.length === 0) {
           throw new Error("Unable to locate selected stats.");
@@ -1738,24 +2021,7 @@ export const AdminScreen = () => {
           }
         }
 
-        const { data: statDataResponse } = await db.queryOnce({
-          statData: {
-            $: {
-              where: {
-                name: "root",
-                statId: { $in: sourceStatIds },
-              },
-              fields: ["statId", "parentArea", "boundaryType", "date", "data"],
-            },
-          },
-        });
-
-        const rawRows = Array.isArray((statDataResponse as any)?.statData)
-          ? ((statDataResponse as any).statData as any[])
-          : Array.isArray((statDataResponse as any)?.data?.statData)
-            ? ((statDataResponse as any).data.statData as any[])
-            : [];
-        const rowsByStat = buildRowsByStatId(rawRows);
+        const rowsByStat = await loadDerivedRowsByStat(sourceStatIds);
         const derivedRows = createDerivedStatRows(payload.formula, payload, rowsByStat);
 
         const now = Date.now();
@@ -1764,76 +2030,47 @@ export const AdminScreen = () => {
         const displayName = payload.label.trim();
         const trimmedCategory = payload.category.trim();
         const derivedSource = payload.description?.trim() || "Census Derived";
-        const dataType = FORMULA_TO_STAT_TYPE[payload.formula];
+        const dataType = crosswalkOptions?.type ?? FORMULA_TO_STAT_TYPE[payload.formula];
 
         newStatMeta = { id: newStatId, label: displayName || autoName };
 
+        const statRecord = {
+          name: autoName,
+          label: displayName,
+          category: trimmedCategory,
+          source: derivedSource,
+          goodIfUp: null,
+          featured: false,
+          homeFeatured: false,
+          visibility: "private",
+          createdBy: user?.id ?? null,
+          createdOn: now,
+          lastUpdated: now,
+        };
+        const actor = user?.email ?? null;
         const txs: any[] = [
-          db.tx.stats[newStatId].update({
-            name: autoName,
-            label: displayName,
-            category: trimmedCategory,
-            source: derivedSource,
-            goodIfUp: null,
-            featured: false,
-            homeFeatured: false,
-            visibility: "private",
-            createdBy: user?.id ?? null,
-            createdOn: now,
-            lastUpdated: now,
+          db.tx.stats[newStatId].update(statRecord),
+          ...auditTx({
+            entity: "stats",
+            recordId: newStatId,
+            action: "create",
+            after: statRecord,
+            actor,
+            sourceDetail: "derived-stat",
+            now,
           }),
         ];
 
-        const sortedDerivedRows = [...derivedRows].sort((a, b) =>
-          String(a.date ?? "").localeCompare(String(b.date ?? "")),
+        txs.push(
+          ...buildRootStatDataTxs(newStatId, derivedRows, {
+            type: dataType,
+            source: derivedSource,
+            statTitle: displayName,
+            now,
+            actor,
+            sourceDetail: "derived-stat",
+          }),
         );
-        for (const row of sortedDerivedRows) {
-          const parentArea = row.parentArea ?? undefined;
-          const boundaryType = row.boundaryType ?? undefined;
-          const date = row.date ?? undefined;
-          const summaryKey =
-            parentArea && boundaryType
-              ? buildStatDataSummaryKey(newStatId, "root", parentArea, boundaryType)
-              : null;
-          const summary = computeSummaryFromData(row.data);
-
-          txs.push(
-            db.tx.statData[createId()].update({
-              statId: newStatId,
-              name: "root",
-              parentArea,
-              boundaryType,
-              date,
-              type: dataType,
-              data: row.data,
-              source: derivedSource,
-              statTitle: displayName,
-              createdOn: now,
-              lastUpdated: now,
-            }),
-          );
-
-          if (summaryKey && date) {
-            txs.push(
-              db.tx.statDataSummaries[lookup("summaryKey", summaryKey)].update({
-                statId: newStatId,
-                name: "root",
-                parentArea,
-                boundaryType,
-                date,
-                minDate: date,
-                maxDate: date,
-                type: dataType,
-                count: summary.count,
-                sum: summary.sum,
-                avg: summary.avg,
-                min: summary.min,
-                max: summary.max,
-                updatedAt: now,
-              }),
-            );
-          }
-        }
 
         for (let i = 0; i < txs.length; i += MAX_DERIVED_TX_BATCH) {
           attemptedWrite = true;
@@ -1891,7 +2128,55 @@ export const AdminScreen = () => {
         setIsDerivedSubmitting(false);
       }
     },
-    [statsById, user?.id],
+    [statsById, user?.id, user?.email, loadDerivedRowsByStat, resolveCrosswalkOptions],
+  );
+
+  // Writes county/tract rows apportioned from a stat's own ZIP rows.
+  const handleApportionZipData = useCallback(
+    async (statId: string, file: File) => {
+      const setStatus = (next: CrosswalkStatus) =>
+        setCrosswalkStatusByStatId((prev) => ({ ...prev, [statId]: next }));
+      setStatus({ state: "running" });
+      try {
+        const stat = statsById.get(statId);
+        if (!stat) throw new Error("Unable to locate this stat.");
+        const crosswalk = parseCrosswalkCsv(await file.text());
+        const { type, crosswalkMode, denominatorId } = await resolveCrosswalkOptions(statId);
+        const rowsByStat = await loadDerivedRowsByStat(denominatorId ? [statId, denominatorId] : [statId]);
+        const existing = Array.from(rowsByStat.get(statId)?.values() ?? []);
+        if (existing.some((row) => row.boundaryType === crosswalk.targetType)) {
+          throw new Error(`This stat already has ${crosswalk.targetType} data.`);
+        }
+        const rows = createDerivedStatRows(
+          "crosswalk",
+          { numeratorId: statId, denominatorId, crosswalk, crosswalkMode },
+          rowsByStat,
+        );
+        const txs = buildRootStatDataTxs(statId, rows, {
+          type,
+          source: stat.source?.trim() || "ZIP crosswalk",
+          statTitle: stat.label || stat.name,
+          now: Date.now(),
+          actor: user?.email ?? null,
+          sourceDetail: "zip-crosswalk",
+        });
+        for (let i = 0; i < txs.length; i += MAX_DERIVED_TX_BATCH) {
+          await db.transact(txs.slice(i, i + MAX_DERIVED_TX_BATCH));
+        }
+        setStatus({
+          state: "success",
+          message: `Added ${crosswalk.targetType} data for ${rows.length} year${rows.length === 1 ? "" : "s"} (${
+            crosswalkMode === "sum" ? "split counts" : "weighted averages"
+          }).`,
+        });
+      } catch (error) {
+        setStatus({
+          state: "error",
+          message: `Crosswalk error: ${error instanceof Error ? error.message : "Unable to apportion ZIP data."}`,
+        });
+      }
+    },
+    [statsById, resolveCrosswalkOptions, loadDerivedRowsByStat, user?.email],
   );
 
   // (definition moved above)
@@ -2232,6 +2517,47 @@ export const AdminScreen = () => {
     [poiApiKey, setPoiStatus, user?.email],
   );
 
+  const [isFoodAccessRunning, setIsFoodAccessRunning] = useState(false);
+
+  // Recomputes the food-access stats (distance to / count of / orgs per 1k) from
+  // current org locations. New stats start private so they can be reviewed first.
+  const handleRecomputeFoodAccess = useCallback(async () => {
+    const input = window.prompt("Count food resources within how many miles of each area?", "5");
+    if (input === null) return;
+    const radiusMiles = Number(input);
+    if (!Number.isFinite(radiusMiles) || radiusMiles <= 0) {
+      window.alert("Enter a positive number of miles.");
+      return;
+    }
+    setIsFoodAccessRunning(true);
+    try {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      if (poiApiKey) {
+        headers["x-poi-api-key"] = poiApiKey;
+      }
+      const response = await fetch("/api/food-access-recompute", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ radiusMiles, callerEmail: user?.email ?? null }),
+      });
+      const payload = (await response.json().catch(() => null)) as
+        | { orgCount?: number; areaCount?: number; date?: string; message?: string; reason?: string }
+        | null;
+      if (!response.ok) {
+        throw new Error(payload?.message ?? payload?.reason ?? "Request failed");
+      }
+      setGroupNotice(
+        `Food access stats recomputed for ${payload?.date ?? "this year"} from ${payload?.orgCount ?? 0} food orgs across ${payload?.areaCount ?? 0} areas.`,
+      );
+    } catch (error) {
+      window.alert(`Food access recompute failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsFoodAccessRunning(false);
+    }
+  }, [poiApiKey, user?.email]);
+
   const handleRecalculatePoi = useCallback(
     async (statId: string) => {
       await runPoiAction(statId, "recompute", true);
@@ -2252,6 +2578,7 @@ export const AdminScreen = () => {
         const updates: Record<string, unknown> = {
           name: form.name,
           label: nextLabel, // Store null if empty
+          labelTranslations: normalizeLabelTranslations({ ...current?.labelTranslations, es: form.labelEs }) ?? null,
           description: form.description.trim() || null,
           category: form.category,
           source: form.source.trim() || null,
@@ -2260,6 +2587,9 @@ export const AdminScreen = () => {
           visibility: resolvedVisibility,
           featured: form.featured,
           homeFeatured: form.homeFeatured,
+          classificationMethod: form.classificationMethod === "default" ? null : form.classificationMethod,
+          classBreaks: form.classificationMethod === "manual" ? normalizeManualBreaks(form.classBreaks) : null,
+          denominatorStatId: form.denominatorStatId || null,
           lastUpdated: Date.now(),
         };
         if (
@@ -2269,11 +2599,20 @@ export const AdminScreen = () => {
         ) {
           updates.createdBy = user.id;
         }
-        await db.transact(
+        await db.transact([
           db.tx.stats[statId].update({
             ...updates,
           }),
-        );
+          ...auditTx({
+            entity: "stats",
+            recordId: statId,
+            action: "update",
+            before: current,
+            after: updates,
+            actor: user?.email ?? null,
+            sourceDetail: "admin-stats",
+          }),
+        ]);
         setEditingId(null);
 
         const poiRelevantChange =
@@ -2295,7 +2634,7 @@ export const AdminScreen = () => {
         setIsSaving(false);
       }
     },
-    [runPoiAction, statsById, user?.id],
+    [runPoiAction, statsById, user?.id, user?.email],
   );
 
   // Recursively collect orphaned descendants (children with no other parents outside the deletion set)
@@ -2399,20 +2738,24 @@ export const AdminScreen = () => {
         // Query for ALL statData rows for the stats being deleted (not just "root").
         // Admin only subscribes to statDataSummaries (no statData row ids), so we need a fresh query here.
         const statIdsToDelete = Array.from(toDelete);
+        // Full rows, so the audit log can restore them.
         const { data: allStatDataResponse } = await db.queryOnce({
           statData: {
             $: {
               where: { statId: { $in: statIdsToDelete } },
-              fields: ["id", "statId"],
             },
           },
         });
+        const auditMeta = { actor: user?.email ?? null, sourceDetail: "admin-stats" };
 
         // Delete ALL statData rows for stats being deleted
         const allStatDataRows = (allStatDataResponse as any)?.statData ?? [];
         for (const row of allStatDataRows) {
           if (row && typeof row.id === "string") {
-            txs.push(db.tx.statData[row.id].delete());
+            txs.push(
+              db.tx.statData[row.id].delete(),
+              ...auditTx({ entity: "statData", recordId: row.id, action: "delete", before: row, ...auditMeta }),
+            );
           }
         }
 
@@ -2433,7 +2776,10 @@ export const AdminScreen = () => {
 
         // Delete all stats in the toDelete set
         for (const id of toDelete) {
-          txs.push(db.tx.stats[id].delete());
+          txs.push(
+            db.tx.stats[id].delete(),
+            ...auditTx({ entity: "stats", recordId: id, action: "delete", before: statsById.get(id), ...auditMeta }),
+          );
         }
 
         if (txs.length > 0) {
@@ -2449,7 +2795,7 @@ export const AdminScreen = () => {
         setDeletingId((current) => (current === statId ? null : current));
       }
     },
-    [statsData?.statRelations, deletingId, collectOrphanedDescendants, countOtherParents],
+    [statsData?.statRelations, statsById, deletingId, collectOrphanedDescendants, countOtherParents, user?.email],
   );
 
   const handleImportedFromModal = useCallback((statIds: string[]) => {
@@ -2707,6 +3053,15 @@ export const AdminScreen = () => {
             >
               Group
             </button>
+            <button
+              type="button"
+              onClick={handleRecomputeFoodAccess}
+              disabled={isFoodAccessRunning}
+              title="Recompute distance and density of food resources for every ZIP and county"
+              className="hidden rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800 sm:block"
+            >
+              {isFoodAccessRunning ? "Computing…" : "Food access"}
+            </button>
             <button
               type="button"
               onClick={() => setIsNewStatOpen(true)}
@@ -2848,6 +3203,7 @@ export const AdminScreen = () => {
                     onToggleSelect={(event) => handleToggleSelect(stat.id, event)}
                     selectionMode={isSelectionMode}
                     categoryOptions={statCategoryOptions}
+                    denominatorOptions={statDenominatorOptions}
                     hasParent={hasParent}
                     effectiveVisibility={effectiveVisibility}
                     hasChildren={hasChildren}
@@ -2859,6 +3215,8 @@ export const AdminScreen = () => {
                     poiInfo={poiInfoByStatId.get(stat.id)}
                     poiStatus={poiStatusByStatId[stat.id] ?? null}
                     onRecalculatePoi={() => handleRecalculatePoi(stat.id)}
+                    onApportionZipData={(file) => void handleApportionZipData(stat.id, file)}
+                    crosswalkStatus={crosswalkStatusByStatId[stat.id] ?? null}
                     poiBusy={poiStatusByStatId[stat.id]?.state === "running"}
                   />
                   {isExpanded && hasChildren && (
@@ -2935,6 +3293,7 @@ export const AdminScreen = () => {
                                     onToggleSelect={(event) => handleToggleSelect(child.id, event)}
                                     selectionMode={isSelectionMode}
                                     categoryOptions={statCategoryOptions}
+                                    denominatorOptions={statDenominatorOptions}
                                     hasParent={childHasParent}
                                     effectiveVisibility={childEffectiveVisibility}
                                     hasChildren={childHasChildren}
@@ -2953,6 +3312,8 @@ export const AdminScreen = () => {
                                     poiInfo={poiInfoByStatId.get(child.id)}
                                     poiStatus={poiStatusByStatId[child.id] ?? null}
                                     onRecalculatePoi={() => handleRecalculatePoi(child.id)}
+                                    onApportionZipData={(file) => void handleApportionZipData(child.id, file)}
+                                    crosswalkStatus={crosswalkStatusByStatId[child.id] ?? null}
                                     poiBusy={poiStatusByStatId[child.id]?.state === "running"}
                                   />
                                   {childHasChildren && isChildExpanded && (
@@ -3016,6 +3377,7 @@ export const AdminScreen = () => {
                                                   onToggleSelect={(event) => handleToggleSelect(grandChild.id, event)}
                                                   selectionMode={isSelectionMode}
                                                   categoryOptions={statCategoryOptions}
+                                                  denominatorOptions={statDenominatorOptions}
                                                   hasParent={grandChildHasParent}
                                                   effectiveVisibility={grandChildEffectiveVisibility}
                                                   hasChildren={false}
@@ -3023,6 +3385,8 @@ export const AdminScreen = () => {
                                                   poiInfo={poiInfoByStatId.get(grandChild.id)}
                                                   poiStatus={poiStatusByStatId[grandChild.id] ?? null}
                                                   onRecalculatePoi={() => handleRecalculatePoi(grandChild.id)}
+                                                  onApportionZipData={(file) => void handleApportionZipData(grandChild.id, file)}
+                                                  crosswalkStatus={crosswalkStatusByStatId[grandChild.id] ?? null}
                                                   poiBusy={poiStatusByStatId[grandChild.id]?.state === "running"}
                                                 />
                                               );
@@ -3149,6 +3513,7 @@ export const AdminScreen = () => {
         availableYearsByStat={derivedAvailableYearsByStat}
         yearsLoadingByStatId={derivedYearsLoadingByStatId}
         onRequestYears={requestDerivedYearsForStat}
+        onLoadPreviewRows={loadDerivedRowsByStat}
         onClose={handleDerivedModalClose}
         onSubmit={handleDerivedSubmit}
         isSubmitting={isDerivedSubmitting}
@@ -6,6 +6,7 @@ import { themeController } from "../imperative/theme";
 import { getAreaRegistryEntry } from "../imperative/areas/registry";
 import { CustomSelect } from "./CustomSelect";
 import { getCountyIdByName } from "../../lib/countyCentroids";
+import { isTractModeAvailable, normalizeTractId } from "../../lib/tractLoader";
 
 interface AreaSelectionSnapshot {
   kind: AreaKind;
@@ -29,12 +30,16 @@ interface BoundaryToolbarProps {
   onUpdateSelection: (kind: AreaKind, selection: { selected: string[]; pinned: string[] }) => void;
   hideAreaSelect?: boolean;
   isMobile?: boolean;
+  // Label for an active drawn-shape selection, shown as its own chip.
+  drawnAreaLabel?: string | null;
+  onClearDrawnArea?: () => void;
 }
 
 const LINE_COLORS = ["#3a519d", "#784578", "#1e98ac"];
 const areaEntryByKind = {
   ZIP: getAreaRegistryEntry("ZIP"),
   COUNTY: getAreaRegistryEntry("COUNTY"),
+  TRACT: getAreaRegistryEntry("TRACT"),
 } as const;
 const areaDisplayByKind: Record<AreaKind, { singular: string; plural: string }> = {
   ZIP: { singular: "ZIP", plural: "ZIPs" },
@@ -44,6 +49,7 @@ const areaDisplayByKind: Record<AreaKind, { singular: string; plural: string }>
 const boundaryModeToAreaKind: Record<BoundaryMode, AreaKind | null> = {
   zips: "ZIP",
   counties: "COUNTY",
+  tracts: "TRACT",
   none: null,
 };
 
@@ -76,6 +82,8 @@ export const BoundaryToolbar = ({
   onUpdateSelection,
   hideAreaSelect = false,
   isMobile = false,
+  drawnAreaLabel = null,
+  onClearDrawnArea,
 }: BoundaryToolbarProps) => {
   const [inputOpen, setInputOpen] = useState(false);
   const [inputValue, setInputValue] = useState("");
@@ -86,15 +94,19 @@ export const BoundaryToolbar = ({
 
   const zipSelection = selections.ZIP ?? { kind: "ZIP" as AreaKind, selected: [], pinned: [] };
   const countySelection = selections.COUNTY ?? { kind: "COUNTY" as AreaKind, selected: [], pinned: [] };
+  const tractSelection = selections.TRACT ?? { kind: "TRACT" as AreaKind, selected: [], pinned: [] };
 
   const selectedZips = zipSelection.selected;
   const pinnedZips = zipSelection.pinned;
   const selectedCounties = countySelection.selected;
   const pinnedCounties = countySelection.pinned;
+  const selectedTracts = tractSelection.selected;
+  const pinnedTracts = tractSelection.pinned;
   const hoveredZip = null;
   const hoveredCounty = null;
   const pinnedZipSet = new Set(pinnedZips);
   const pinnedCountySet = new Set(pinnedCounties);
+  const pinnedTractSet = new Set(pinnedTracts);
   const activeAreaKind = boundaryModeToAreaKind[boundaryMode] ?? null;
   const areaDisplay = activeAreaKind ? areaDisplayByKind[activeAreaKind] : null;
   const areaLabel = areaDisplay?.singular ?? "area";
@@ -102,8 +114,21 @@ export const BoundaryToolbar = ({
 
   const isActiveZip = activeAreaKind === "ZIP";
   const isActiveCounty = activeAreaKind === "COUNTY";
-  const activeSelections = isActiveZip ? selectedZips : isActiveCounty ? selectedCounties : [];
-  const activePinnedSet = isActiveZip ? pinnedZipSet : isActiveCounty ? pinnedCountySet : new Set<string>();
+  const isActiveTract = activeAreaKind === "TRACT";
+  const activeSelections = isActiveZip
+    ? selectedZips
+    : isActiveCounty
+      ? selectedCounties
+      : isActiveTract
+        ? selectedTracts
+        : [];
+  const activePinnedSet = isActiveZip
+    ? pinnedZipSet
+    : isActiveCounty
+      ? pinnedCountySet
+      : isActiveTract
+        ? pinnedTractSet
+        : new Set<string>();
   const activeSelectedCount = activeSelections.length;
   const activePinnedCount = activeSelections.filter((id) => activePinnedSet.has(id)).length;
   const activeHasSelections = activeSelectedCount > 0;
@@ -186,6 +211,20 @@ export const BoundaryToolbar = ({
     return out;
   };
 
+  // Parse tracts by 11-digit GEOID (or the Census API's 1400000US-prefixed form)
+  const parseTracts = (raw: string): string[] => {
+    const seen = new Set<string>();
+    const out: string[] = [];
+    for (const part of raw.split(/[\s,;]+/)) {
+      const tract = normalizeTractId(part);
+      if (tract && !seen.has(tract)) {
+        seen.add(tract);
+        out.push(tract);
+      }
+    }
+    return out;
+  };
+
   const submitZips = () => {
     const zips = parseZips(inputValue);
     if (zips.length > 0) {
@@ -222,6 +261,24 @@ export const BoundaryToolbar = ({
     setInputValue("");
   };
 
+  const submitTracts = () => {
+    const tracts = parseTracts(inputValue);
+    if (tracts.length > 0) {
+      const merged = [...selectedTracts];
+      const seen = new Set(merged);
+      for (const tract of tracts) {
+        if (!seen.has(tract)) {
+          merged.push(tract);
+          seen.add(tract);
+        }
+      }
+      const nextPinned = pinnedTracts.filter((tract) => seen.has(tract));
+      onUpdateSelection("TRACT", { selected: merged, pinned: nextPinned });
+    }
+    setInputOpen(false);
+    setInputValue("");
+  };
+
   const handleInputKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
       e.preventDefault();
@@ -229,6 +286,8 @@ export const BoundaryToolbar = ({
         submitZips();
       } else if (isActiveCounty) {
         submitCounties();
+      } else if (isActiveTract) {
+        submitTracts();
       }
     } else if (e.key === "Escape") {
       e.preventDefault();
@@ -279,6 +338,10 @@ export const BoundaryToolbar = ({
   const countyUnpinned = selectedCounties.filter((id) => !pinnedCountySet.has(id)).sort();
   const sortedCounties = [...countyPinned, ...countyUnpinned];
 
+  const tractPinned = selectedTracts.filter((id) => pinnedTractSet.has(id)).sort();
+  const tractUnpinned = selectedTracts.filter((id) => !pinnedTractSet.has(id)).sort();
+  const sortedTracts = [...tractPinned, ...tractUnpinned];
+
   return (
     <div
       className={`sticky ${stickyTopClass} z-10 flex h-10 w-full items-center gap-3 border-b border-slate-200 bg-slate-100/70 px-4 text-sm text-slate-600 backdrop-blur-sm dark:border-slate-800 dark:bg-slate-900/60 dark:text-slate-300`}
@@ -290,6 +353,16 @@ export const BoundaryToolbar = ({
       >
         {/* Chips Container */}
         <div className="flex items-center gap-2">
+          {drawnAreaLabel && (
+            <button
+              type="button"
+              className="inline-flex items-center gap-1 rounded-full border border-dashed border-brand-300 bg-brand-50 px-2 py-0.5 text-xs font-medium text-brand-700 transition-colors group dark:border-brand-400/60 dark:bg-brand-400/10 dark:text-brand-200"
+              onClick={() => onClearDrawnArea?.()}
+            >
+              <span>{drawnAreaLabel}</span>
+              <span className="ml-0.5 hidden text-brand-600 group-hover:inline">×</span>
+            </button>
+          )}
           {isActiveZip &&
             sortedZips.map((zip) => {
             const isPinned = pinnedZipSet.has(zip);
@@ -380,6 +453,51 @@ export const BoundaryToolbar = ({
               </button>
             );
           })}
+          {isActiveTract &&
+            sortedTracts.map((tract) => {
+            const isPinned = pinnedTractSet.has(tract);
+            const isHovered = hoveredArea?.kind === "TRACT" && hoveredArea.id === tract;
+            let chipStyle: React.CSSProperties = {};
+            let chipClasses =
+              "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium transition-colors group";
+
+            if (inLineMode) {
+              const col = colorByArea.get(tract);
+              if (col) {
+                const bg = isDark ? shade(col, -0.82) : shade(col, 0.85);
+                const border = isDark ? shade(col, -0.35) : shade(col, 0.55);
+                chipStyle = {
+                  backgroundColor: bg,
+                  borderColor: border,
+                  color: col,
+                };
+              }
+            } else {
+              chipClasses += isPinned
+                ? " border-brand-300 bg-brand-50 text-brand-700 dark:border-brand-400/60 dark:bg-brand-400/10 dark:text-brand-200"
+                : " border-slate-300 bg-white/70 text-slate-600 hover:border-brand-300 hover:text-brand-700 dark:border-slate-700 dark:bg-slate-900/70 dark:text-slate-300";
+            }
+
+            if (isHovered) {
+              chipClasses += " ring-1 ring-brand-300";
+            }
+
+            return (
+              <button
+                key={`tract-${tract}`}
+                type="button"
+                className={chipClasses}
+                style={chipStyle}
+                title={tract}
+                onMouseEnter={() => handleAreaChipHover("TRACT", tract)}
+                onMouseLeave={() => handleAreaChipHover("TRACT", null)}
+                onClick={() => updateSelectionWithout("TRACT", tract, selectedTracts, pinnedTracts)}
+              >
+                <span>{areaEntryByKind.TRACT.getLabel(tract)}</span>
+                <span className="ml-0.5 hidden text-brand-600 group-hover:inline">×</span>
+              </button>
+            );
+          })}
         </div>
 
           {/* Add Button and Input */}
@@ -429,7 +547,9 @@ export const BoundaryToolbar = ({
               placeholder={
                 isActiveZip
                   ? `Add ${areaPluralLabel} (comma or space separated)`
-                  : `Add ${areaPluralLabel} (by name or FIPS code)`
+                  : isActiveTract
+                    ? `Add ${areaPluralLabel} (by 11-digit GEOID)`
+                    : `Add ${areaPluralLabel} (by name or FIPS code)`
               }
               className="ml-1 mt-1.5 h-7 min-h-[1.75rem] w-56 resize-none rounded border border-slate-300 bg-white px-2 py-1 text-xs text-slate-700 shadow-sm focus:border-brand-400 focus:outline-none focus:ring-1 focus:ring-brand-200 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-200 dark:focus:border-brand-300 dark:focus:ring-brand-800/50 md:w-64"
             />
@@ -450,6 +570,8 @@ export const BoundaryToolbar = ({
                   togglePinAll("ZIP", selectedZips, shouldPinAll);
                 } else if (isActiveCounty) {
                   togglePinAll("COUNTY", selectedCounties, shouldPinAll);
+                } else if (isActiveTract) {
+                  togglePinAll("TRACT", selectedTracts, shouldPinAll);
                 }
               }}
               className="ml-2 cursor-pointer whitespace-nowrap text-xs font-medium text-brand-400 hover:text-brand-600/90"
@@ -466,6 +588,8 @@ export const BoundaryToolbar = ({
                   onUpdateSelection("ZIP", { selected: [], pinned: [] });
                 } else if (isActiveCounty) {
                   onUpdateSelection("COUNTY", { selected: [], pinned: [] });
+                } else if (isActiveTract) {
+                  onUpdateSelection("TRACT", { selected: [], pinned: [] });
                 }
               }}
               className="ml-3 inline-flex cursor-pointer items-center gap-1 whitespace-nowrap text-xs font-medium text-slate-400 hover:text-slate-600 dark:text-slate-500 dark:hover:text-slate-300"
@@ -507,6 +631,7 @@ export const BoundaryToolbar = ({
             options={[
               { value: "zips", label: "ZIPs" },
               { value: "counties", label: "Counties" },
+              ...(isTractModeAvailable("ok") ? [{ value: "tracts", label: "Tracts" }] : []),
               { value: "auto", label: "Zoom" },
               { value: "none", label: "None" }
             ]}
@@ -11,7 +11,18 @@ import {
   TableCellsIcon,
 } from "@heroicons/react/24/outline";
 import { db } from "../../lib/reactDb";
+import { findCountyForLocation } from "../../lib/countyBoundaries";
+import { ensureAllZipDataLoaded, findZipForLocation } from "../../lib/zipBoundaries";
 import {
+  batchGeocodeAddresses,
+  buildAddressZipLookup,
+  createLocalGeocodeCache,
+  type AddressLocator,
+  type AddressResolution,
+  type BatchGeocodeProgress,
+} from "../lib/batchGeocoding";
+import {
+  collectCsvAddressesFile,
   collectCsvColumnValuesFile,
   previewCsvTransformFile,
   profileCsvFile,
@@ -26,6 +37,7 @@ import {
   type CustomDataKind,
   type TransformAggregation,
 } from "../lib/customDataCsv";
+import { getDefaultPrivacyRules, type PrivacyRules } from "../lib/smallCellSuppression";
 
 interface Command {
   title: string;
@@ -53,7 +65,9 @@ type ImportRecipe = {
   valueTypes: Record<string, CustomStatValueType>;
   locationLookups?: {
     siteIdToZip?: Record<string, string>;
+    addressToZip?: Record<string, string>;
   };
+  privacy?: PrivacyRules;
 };
 
 type CustomDataImportRow = {
@@ -75,6 +89,21 @@ type SiteLookupSample = {
   sampledRows: number;
 };
 
+const locateAddressPoint: AddressLocator = async (longitude, latitude) => {
+  await ensureAllZipDataLoaded();
+  return {
+    zip: findZipForLocation(longitude, latitude),
+    county: findCountyForLocation(longitude, latitude),
+  };
+};
+
+const GEOCODE_STATUS_LABELS: Record<AddressResolution["status"], string> = {
+  matched: "Matched",
+  review: "Low confidence",
+  unresolved: "Not found",
+  manual: "Manual",
+};
+
 const commands: Command[] = [
   {
     title: "Clean Synthetic Data",
@@ -292,6 +321,7 @@ export const DataScreen = () => {
   const [roles, setRoles] = useState<RoleMap>({});
   const [datasetName, setDatasetName] = useState("");
   const [datasetKind, setDatasetKind] = useState<CustomDataKind>("generic");
+  const [privacyRules, setPrivacyRules] = useState<PrivacyRules>(() => getDefaultPrivacyRules("generic"));
   const [isProfiling, setIsProfiling] = useState(false);
   const [profileError, setProfileError] = useState<string | null>(null);
   const [showAllColumns, setShowAllColumns] = useState(false);
@@ -312,6 +342,12 @@ export const DataScreen = () => {
   const [siteZipLookupText, setSiteZipLookupText] = useState("");
   const [siteLookupSample, setSiteLookupSample] = useState<SiteLookupSample | null>(null);
   const [isLoadingSiteLookupSample, setIsLoadingSiteLookupSample] = useState(false);
+  const [geocodeResults, setGeocodeResults] = useState<AddressResolution[] | null>(null);
+  const [geocodeStatus, setGeocodeStatus] = useState<"idle" | "running" | "ready" | "error">("idle");
+  const [geocodeProgress, setGeocodeProgress] = useState<BatchGeocodeProgress | null>(null);
+  const [geocodeError, setGeocodeError] = useState<string | null>(null);
+  const [geocodeTruncated, setGeocodeTruncated] = useState(false);
+  const [manualZipInputs, setManualZipInputs] = useState<Record<string, string>>({});
 
   const {
     data: customImportResponse,
@@ -342,6 +378,15 @@ export const DataScreen = () => {
     });
   };
 
+  const resetGeocoding = () => {
+    setGeocodeResults(null);
+    setGeocodeStatus("idle");
+    setGeocodeProgress(null);
+    setGeocodeError(null);
+    setGeocodeTruncated(false);
+    setManualZipInputs({});
+  };
+
   const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -364,6 +409,7 @@ export const DataScreen = () => {
     setActiveImportId(null);
     setSiteZipLookupText("");
     setSiteLookupSample(null);
+    resetGeocoding();
 
     try {
       const nextProfile = await profileCsvFile(file);
@@ -385,6 +431,7 @@ export const DataScreen = () => {
       );
       setDatasetName(file.name.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " "));
       setDatasetKind(nextProfile.detectedKind);
+      setPrivacyRules(getDefaultPrivacyRules(nextProfile.detectedKind));
       setStep("columns");
     } catch (error) {
       setProfileError(error instanceof Error ? error.message : "Unable to profile this file.");
@@ -430,6 +477,14 @@ export const DataScreen = () => {
     return siteLookupSample.values.filter((value) => !mapped.has(value.trim().toLowerCase()));
   }, [siteLookupSample, siteZipLookup]);
 
+  const needsAddressGeocoding = addressColumns.length > 0 && zipColumns.length === 0 && siteColumns.length === 0;
+  const addressToZip = useMemo(() => buildAddressZipLookup(geocodeResults ?? []), [geocodeResults]);
+  const addressToZipCount = Object.keys(addressToZip).length;
+  const geocodeReviewRows = useMemo(
+    () => (geocodeResults ?? []).filter((result) => result.status === "review" || result.status === "unresolved"),
+    [geocodeResults],
+  );
+
   const mappingIssues = useMemo(() => {
     const issues: string[] = [];
     if (!profile) return issues;
@@ -449,8 +504,11 @@ export const DataScreen = () => {
     if (needsSiteZipLookup && siteZipLookupCount === 0) {
       issues.push("This file uses school IDs instead of ZIPs. Add school ID to ZIP pairs so published stats can appear on the map.");
     }
+    if (needsAddressGeocoding && addressToZipCount === 0) {
+      issues.push("This file uses street addresses instead of ZIPs. Geocode the addresses so published stats can appear on the map.");
+    }
     return issues;
-  }, [addressColumns.length, cityColumns.length, dateColumns.length, measureColumns.length, needsSiteZipLookup, profile, siteColumns.length, siteZipLookupCount, stateColumns.length, zipColumns.length]);
+  }, [addressColumns.length, addressToZipCount, cityColumns.length, dateColumns.length, measureColumns.length, needsAddressGeocoding, needsSiteZipLookup, profile, siteColumns.length, siteZipLookupCount, stateColumns.length, zipColumns.length]);
 
   const hasBlockingIssue = mappingIssues.some((issue) => !issue.startsWith("Map a date"));
 
@@ -477,10 +535,18 @@ export const DataScreen = () => {
       ),
       aggregations: effectiveMeasureAggregations,
       valueTypes: effectiveMeasureValueTypes,
-      locationLookups: siteZipLookupCount > 0 ? { siteIdToZip: siteZipLookup } : undefined,
+      privacy: privacyRules,
+      locationLookups:
+        siteZipLookupCount > 0
+          ? { siteIdToZip: siteZipLookup }
+          : needsAddressGeocoding && addressToZipCount > 0
+            ? { addressToZip }
+            : undefined,
     };
   }, [
     addressColumns,
+    addressToZip,
+    addressToZipCount,
     categoryColumns,
     cityColumns,
     datasetKind,
@@ -491,6 +557,8 @@ export const DataScreen = () => {
     effectiveMeasureValueTypes,
     measureColumns,
     nameColumns,
+    needsAddressGeocoding,
+    privacyRules,
     profile,
     roles,
     siteColumns,
@@ -557,6 +625,7 @@ export const DataScreen = () => {
         aggregations: importRecipe.aggregations,
         valueTypes: importRecipe.valueTypes,
         locationLookups: importRecipe.locationLookups,
+        privacy: importRecipe.privacy,
       });
       setTransformPreview(nextPreview);
       setTransformStatus("ready");
@@ -581,6 +650,7 @@ export const DataScreen = () => {
           aggregations: importRecipe.aggregations,
           valueTypes: importRecipe.valueTypes,
           locationLookups: importRecipe.locationLookups,
+          privacy: importRecipe.privacy,
         },
         {
           onProgress: setTransformProgress,
@@ -623,6 +693,7 @@ export const DataScreen = () => {
             type: row.type,
             locationKind: row.boundaryType,
             sourceFile: importRecipe.sourceFile,
+            privacy: { ...importRecipe.privacy },
             status: "preview",
             createdAt: now,
             updatedAt: now,
@@ -646,6 +717,7 @@ export const DataScreen = () => {
           date: row.date,
           type: row.type,
           data: row.data,
+          counts: row.counts,
           sourceFile: importRecipe.sourceFile,
           createdAt: now,
           updatedAt: now,
@@ -741,6 +813,21 @@ export const DataScreen = () => {
       setSiteLookupSample(null);
       setSiteZipLookupText("");
     }
+    const addressRoles: ColumnRole[] = ["locationAddress", "locationCity", "locationState"];
+    if (addressRoles.includes(role) || addressRoles.includes(roles[column.index])) {
+      resetGeocoding();
+    }
+  };
+
+  const updateDatasetKind = (kind: CustomDataKind) => {
+    setDatasetKind(kind);
+    setPrivacyRules(getDefaultPrivacyRules(kind));
+    invalidateTransform();
+  };
+
+  const updatePrivacyRules = (patch: Partial<PrivacyRules>) => {
+    setPrivacyRules((current) => ({ ...current, ...patch }));
+    invalidateTransform();
   };
 
   const updateAggregation = (column: ColumnProfile, aggregation: TransformAggregation) => {
@@ -785,6 +872,54 @@ export const DataScreen = () => {
     setPublishStatus("idle");
   };
 
+  const invalidateTransform = () => {
+    setTransformPreview(null);
+    setTransformStatus("idle");
+    setTransformProgress(null);
+    setSaveStatus("idle");
+    setPublishStatus("idle");
+  };
+
+  const runAddressGeocoding = async () => {
+    if (!selectedFile || !importRecipe) return;
+    setGeocodeStatus("running");
+    setGeocodeError(null);
+    setGeocodeProgress(null);
+    invalidateTransform();
+    try {
+      const sample = await collectCsvAddressesFile(selectedFile, importRecipe.roles);
+      const results = await batchGeocodeAddresses(sample.values, {
+        cache: createLocalGeocodeCache(),
+        locate: locateAddressPoint,
+        onProgress: setGeocodeProgress,
+      });
+      // Keep manual fixes from an earlier run.
+      const previous = new Map((geocodeResults ?? []).map((result) => [result.address, result]));
+      setGeocodeResults(
+        results.map((result) => (previous.get(result.address)?.status === "manual" ? previous.get(result.address)! : result)),
+      );
+      setGeocodeTruncated(sample.truncated);
+      setGeocodeStatus("ready");
+    } catch (error) {
+      setGeocodeError(error instanceof Error ? error.message : "Unable to geocode addresses.");
+      setGeocodeStatus("error");
+    }
+  };
+
+  const resolveAddressManually = (address: string, zip: string) => {
+    setGeocodeResults((current) =>
+      (current ?? []).map((result) =>
+        result.address === address ? { ...result, zip, status: "manual" as const } : result,
+      ),
+    );
+    setManualZipInputs((current) => {
+      const next = { ...current };
+      delete next[address];
+      return next;
+    });
+    invalidateTransform();
+  };
+
   const transformProgressPercent =
     transformProgress && transformProgress.totalBytes > 0
       ? Math.min(100, Math.round((transformProgress.bytesRead / transformProgress.totalBytes) * 100))
@@ -958,7 +1093,7 @@ export const DataScreen = () => {
                     <span className="text-sm font-medium text-slate-700 dark:text-slate-200">Dataset type</span>
                     <select
                       value={datasetKind}
-                      onChange={(event) => setDatasetKind(event.target.value as CustomDataKind)}
+                      onChange={(event) => updateDatasetKind(event.target.value as CustomDataKind)}
                       className="mt-1 w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-white"
                     >
                       {Object.entries(kindLabels).map(([value, label]) => (
@@ -1059,6 +1194,147 @@ export const DataScreen = () => {
                   </div>
                 )}
 
+                {needsAddressGeocoding && (
+                  <div className="mt-5 border-t border-slate-200 pt-4 dark:border-slate-700">
+                    <div className="flex items-center justify-between gap-3">
+                      <div>
+                        <h4 className="text-sm font-semibold text-slate-900 dark:text-white">Address geocoding</h4>
+                        <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                          {geocodeResults
+                            ? `${addressToZipCount.toLocaleString()} of ${geocodeResults.length.toLocaleString()} addresses placed in a ZIP.`
+                            : "Look up each distinct address and place it in a ZIP and county."}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={runAddressGeocoding}
+                        disabled={geocodeStatus === "running" || !selectedFile}
+                        className="rounded-md border border-slate-300 px-2 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800"
+                      >
+                        {geocodeStatus === "running" ? "Geocoding..." : geocodeResults ? "Re-run" : "Geocode"}
+                      </button>
+                    </div>
+                    {geocodeStatus === "running" && geocodeProgress && (
+                      <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                        {geocodeProgress.completed.toLocaleString()} / {geocodeProgress.total.toLocaleString()} addresses
+                        {geocodeProgress.cached > 0 ? ` (${geocodeProgress.cached.toLocaleString()} from cache)` : ""}
+                      </p>
+                    )}
+                    {geocodeError && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{geocodeError}</p>}
+                    <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                      Results are cached in this browser. Rows whose address has no ZIP are skipped from ZIP-based stats.
+                    </p>
+                    {geocodeTruncated && (
+                      <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                        Only addresses from the first part of the file were geocoded; full-file processing may skip more rows.
+                      </p>
+                    )}
+                    {geocodeReviewRows.length > 0 && (
+                      <div className="mt-3 space-y-2 rounded-md bg-slate-50 p-3 text-xs text-slate-600 dark:bg-slate-950 dark:text-slate-400">
+                        <div className="font-medium text-slate-800 dark:text-slate-200">
+                          {geocodeReviewRows.length.toLocaleString()} addresses need review
+                        </div>
+                        {geocodeReviewRows.slice(0, 25).map((result) => {
+                          const manualZip = (manualZipInputs[result.address] ?? "").trim();
+                          return (
+                            <div key={result.address} className="space-y-1 border-t border-slate-200 pt-2 dark:border-slate-800">
+                              <div className="truncate text-slate-800 dark:text-slate-200" title={result.address}>
+                                {result.address}
+                              </div>
+                              <div>
+                                {GEOCODE_STATUS_LABELS[result.status]}
+                                {result.zip ? ` · ZIP ${result.zip}` : ""}
+                                {result.provider ? ` · ${Math.round(result.confidence * 100)}% confidence` : ""}
+                              </div>
+                              <div className="flex gap-2">
+                                <input
+                                  value={manualZipInputs[result.address] ?? ""}
+                                  onChange={(event) =>
+                                    setManualZipInputs((current) => ({ ...current, [result.address]: event.target.value }))
+                                  }
+                                  placeholder="ZIP"
+                                  inputMode="numeric"
+                                  maxLength={5}
+                                  className="w-20 rounded-md border border-slate-300 bg-white px-2 py-1 font-mono text-xs text-slate-900 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-white"
+                                />
+                                <button
+                                  type="button"
+                                  onClick={() => resolveAddressManually(result.address, manualZip || result.zip || "")}
+                                  disabled={manualZip ? !/^\d{5}$/.test(manualZip) : !result.zip}
+                                  className="rounded-md border border-slate-300 px-2 py-1 font-medium text-slate-700 hover:bg-white disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-700 dark:text-slate-200 dark:hover:bg-slate-800"
+                                >
+                                  {manualZip ? "Set ZIP" : "Accept"}
+                                </button>
+                              </div>
+                            </div>
+                          );
+                        })}
+                        {geocodeReviewRows.length > 25 && (
+                          <div className="border-t border-slate-200 pt-2 dark:border-slate-800">
+                            +{(geocodeReviewRows.length - 25).toLocaleString()} more
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="mt-5 border-t border-slate-200 pt-4 dark:border-slate-700">
+                  <h4 className="text-sm font-semibold text-slate-900 dark:text-white">Privacy rules</h4>
+                  <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                    Applied when the file is processed and again when published stats are shown.
+                  </p>
+                  <div className="mt-3 grid gap-2 sm:grid-cols-3">
+                    <label className="block">
+                      <span className="block text-[11px] uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                        Min records
+                      </span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={privacyRules.minCellCount}
+                        onChange={(event) => updatePrivacyRules({ minCellCount: Math.max(0, Math.floor(Number(event.target.value) || 0)) })}
+                        className="mt-1 w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-sm text-slate-900 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-white"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="block text-[11px] uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                        Round counts
+                      </span>
+                      <select
+                        value={privacyRules.roundTo}
+                        onChange={(event) => updatePrivacyRules({ roundTo: Number(event.target.value) })}
+                        className="mt-1 w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-sm text-slate-900 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-white"
+                      >
+                        <option value={0}>Off</option>
+                        <option value={5}>To 5</option>
+                        <option value={10}>To 10</option>
+                      </select>
+                    </label>
+                    <label className="block">
+                      <span className="block text-[11px] uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                        Noise (±)
+                      </span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={privacyRules.noise}
+                        onChange={(event) => updatePrivacyRules({ noise: Math.max(0, Math.floor(Number(event.target.value) || 0)) })}
+                        className="mt-1 w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-sm text-slate-900 focus:border-blue-500 focus:outline-none dark:border-slate-700 dark:bg-slate-950 dark:text-white"
+                      />
+                    </label>
+                  </div>
+                  <label className="mt-3 flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={privacyRules.complementarySuppression}
+                      onChange={(event) => updatePrivacyRules({ complementarySuppression: event.target.checked })}
+                      className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    Also hide the next-smallest areas so suppressed values can't be backed out of totals
+                  </label>
+                </div>
+
                 {measureColumns.length > 0 && (
                   <div className="mt-5 border-t border-slate-200 pt-4 dark:border-slate-700">
                     <h4 className="text-sm font-semibold text-slate-900 dark:text-white">Measure setup</h4>
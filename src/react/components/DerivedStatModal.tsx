@@ -1,6 +1,14 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createPortal } from "react-dom";
 import type { Category } from "../../types/organization";
+import { countCrosswalkTargets, parseCrosswalkCsv, type Crosswalk } from "../../lib/crosswalk";
+import {
+  formatDerivedExpression,
+  parseDerivedExpression,
+  resolveDerivedExpressionReferences,
+} from "../../lib/derivedExpression";
+import { createDerivedStatRows } from "../../lib/derivedStats";
+import type { RootStatDataRow } from "../../lib/derivedStats";
 import { CustomSelect } from "./CustomSelect";
 
 export interface DerivedStatOption {
@@ -10,7 +18,16 @@ export interface DerivedStatOption {
   category: string;
 }
 
-export type DerivedFormulaKind = "percent" | "sum" | "difference" | "rate_per_1000" | "ratio" | "index" | "change_over_time";
+export type DerivedFormulaKind =
+  | "percent"
+  | "sum"
+  | "difference"
+  | "rate_per_1000"
+  | "ratio"
+  | "index"
+  | "change_over_time"
+  | "expression"
+  | "crosswalk";
 
 export interface DerivedStatModalSubmit {
   name: string;
@@ -25,6 +42,11 @@ export interface DerivedStatModalSubmit {
   endYear?: string;
   // For sum formula with multiple operands
   sumOperandIds?: string[];
+  // For expression formula: expression text and operand letter -> stat id
+  expression?: string;
+  expressionAliases?: Record<string, string>;
+  // For crosswalk formula: parsed ZIP-to-county/tract crosswalk file
+  crosswalk?: Crosswalk;
 }
 
 interface DerivedStatModalProps {
@@ -35,6 +57,8 @@ interface DerivedStatModalProps {
   availableYearsByStat?: Record<string, string[]>; // Years per stat id for change_over_time
   yearsLoadingByStatId?: Record<string, boolean>;
   onRequestYears?: (statId: string) => void;
+  // Loads root statData rows (by stat id) so expressions can be previewed before saving
+  onLoadPreviewRows?: (statIds: string[]) => Promise<Map<string, Map<string, RootStatDataRow>>>;
   onClose: () => void;
   onSubmit: (payload: DerivedStatModalSubmit) => void;
   isSubmitting?: boolean;
@@ -51,6 +75,8 @@ const formulaSymbol: Record<DerivedFormulaKind, string> = {
   ratio: ":",
   index: "÷",
   change_over_time: "Δ",
+  expression: "ƒ",
+  crosswalk: "⇄",
 };
 
 const formulaDescription: Record<DerivedFormulaKind, string> = {
@@ -61,6 +87,8 @@ const formulaDescription: Record<DerivedFormulaKind, string> = {
   ratio: "A : B (simple division)",
   index: "(A ÷ B) × 100",
   change_over_time: "(End − Start) ÷ Start as %",
+  expression: "Any arithmetic on lettered stats, e.g. (A + B) ÷ (C − D) × 100",
+  crosswalk: "Apportion ZIP values to counties or tracts by residential share",
 };
 
 const formulaOptions: Array<{ value: DerivedFormulaKind; label: string; requiresTwoStats?: boolean }> = [
@@ -71,8 +99,30 @@ const formulaOptions: Array<{ value: DerivedFormulaKind; label: string; requires
   { value: "ratio", label: "Ratio", requiresTwoStats: true },
   { value: "index", label: "Index", requiresTwoStats: true },
   { value: "change_over_time", label: "Change Over Time", requiresTwoStats: false },
+  { value: "expression", label: "Custom Expression", requiresTwoStats: false },
+  { value: "crosswalk", label: "ZIP Crosswalk", requiresTwoStats: false },
 ];
 
+const CROSSWALK_TARGET_LABELS: Record<Crosswalk["targetType"], string> = {
+  COUNTY: "Counties",
+  TRACT: "Tracts",
+};
+
+// Operand letters for expressions: A, B, C, …
+const operandAlias = (index: number): string => String.fromCharCode(65 + index);
+
+const EXPRESSION_PREVIEW_AREA_COUNT = 5;
+const EXPRESSION_PREVIEW_DEBOUNCE_MS = 400;
+
+type ExpressionPreview =
+  | { status: "idle" }
+  | { status: "loading" }
+  | { status: "error"; message: string }
+  | { status: "ready"; date: string | null; boundaryType: string | null; areas: Array<{ key: string; value: number }> };
+
+const formatPreviewValue = (value: number): string =>
+  value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) < 10 ? 3 : 1 });
+
 // Threshold for showing fuzzy-search vs simple dropdown
 const FUZZY_SEARCH_THRESHOLD = 5;
 
@@ -225,6 +275,7 @@ export const DerivedStatModal = ({
   availableYearsByStat,
   yearsLoadingByStatId,
   onRequestYears,
+  onLoadPreviewRows,
   onClose,
   onSubmit,
   isSubmitting = false,
@@ -239,6 +290,13 @@ export const DerivedStatModal = ({
   const [endYear, setEndYear] = useState<string>("");
   // For sum formula: list of operand stat IDs (minimum 2)
   const [sumOperandIds, setSumOperandIds] = useState<string[]>([]);
+  // For expression formula: lettered operands (A = index 0) and the expression text
+  const [expressionOperandIds, setExpressionOperandIds] = useState<string[]>([]);
+  const [expression, setExpression] = useState("");
+  const [expressionPreview, setExpressionPreview] = useState<ExpressionPreview>({ status: "idle" });
+  const [crosswalk, setCrosswalk] = useState<Crosswalk | null>(null);
+  const [crosswalkFileName, setCrosswalkFileName] = useState("");
+  const [crosswalkError, setCrosswalkError] = useState<string | null>(null);
   const [hasAttemptedSubmit, setHasAttemptedSubmit] = useState(false);
   const isSingleStatMode = stats.length === 1;
   const requestedYearsRef = useRef<Set<string>>(new Set());
@@ -299,8 +357,26 @@ export const DerivedStatModal = ({
     }
     // For sum formula: always initialize with ALL selected stats (regardless of fuzzy mode)
     setSumOperandIds(stats.map((s) => s.id));
+    setExpressionOperandIds(stats.map((s) => s.id));
+    setExpression(stats.length >= 2 ? "A / B" : "A");
+    setExpressionPreview({ status: "idle" });
+    setCrosswalk(null);
+    setCrosswalkFileName("");
+    setCrosswalkError(null);
   }, [isOpen, stats, isSingleStatMode, useFuzzySearch]);
 
+  const handleCrosswalkFile = useCallback(async (file: File | undefined) => {
+    if (!file) return;
+    setCrosswalkFileName(file.name);
+    try {
+      setCrosswalk(parseCrosswalkCsv(await file.text()));
+      setCrosswalkError(null);
+    } catch (error) {
+      setCrosswalk(null);
+      setCrosswalkError(error instanceof Error ? error.message : "Unable to read the crosswalk file.");
+    }
+  }, []);
+
   // Initialize / reset year range whenever the base stat or formula changes
   useEffect(() => {
     if (!isOpen || formula !== "change_over_time") return;
@@ -322,13 +398,109 @@ export const DerivedStatModal = ({
     [sumOperandIds, stats],
   );
 
+  const expressionAliases = useMemo(() => {
+    const aliases: Record<string, string> = {};
+    expressionOperandIds.forEach((id, index) => {
+      if (id) aliases[operandAlias(index)] = id;
+    });
+    return aliases;
+  }, [expressionOperandIds]);
+
+  // Live parse of the expression; drives validation, naming, and the preview
+  const parsedExpression = useMemo(() => {
+    if (formula !== "expression") return null;
+    const parsed = parseDerivedExpression(expression);
+    if (!parsed.ok) {
+      return { error: `Position ${parsed.position + 1}: ${parsed.error}`, ast: null, statIds: [] as string[] };
+    }
+    const { statIdByReference, unknown } = resolveDerivedExpressionReferences(parsed.ast, expressionAliases);
+    if (unknown.length > 0) {
+      return {
+        error: `Unknown stat ${unknown.join(", ")}. Use an operand letter or a [stat id].`,
+        ast: parsed.ast,
+        statIds: [] as string[],
+      };
+    }
+    return {
+      error: null,
+      ast: parsed.ast,
+      statIdByReference,
+      statIds: Array.from(new Set(statIdByReference.values())),
+    };
+  }, [formula, expression, expressionAliases]);
+
+  const statLabelById = useCallback(
+    (id: string) => {
+      const stat = stats.find((s) => s.id === id);
+      return stat ? stat.label || stat.name : id;
+    },
+    [stats],
+  );
+
+  const expressionDisplay = useMemo(() => {
+    if (!parsedExpression?.ast || parsedExpression.error || !parsedExpression.statIdByReference) return "";
+    const statIdByReference = parsedExpression.statIdByReference;
+    return formatDerivedExpression(parsedExpression.ast, (reference) =>
+      statLabelById(statIdByReference.get(reference) ?? reference),
+    );
+  }, [parsedExpression, statLabelById]);
+
+  const previewStatIdsKey = parsedExpression && !parsedExpression.error ? parsedExpression.statIds.join("|") : "";
+
+  // Debounced preview: load source rows for the referenced stats, then evaluate a few areas
+  useEffect(() => {
+    if (!isOpen || formula !== "expression" || !onLoadPreviewRows || !previewStatIdsKey) {
+      setExpressionPreview({ status: "idle" });
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      setExpressionPreview({ status: "loading" });
+      onLoadPreviewRows(previewStatIdsKey.split("|"))
+        .then((rowsByStat) => {
+          if (cancelled) return;
+          const rows = createDerivedStatRows("expression", { expression, expressionAliases }, rowsByStat);
+          const latest = [...rows]
+            .filter((row) => Object.keys(row.data).length > 0)
+            .sort((a, b) => String(b.date ?? "").localeCompare(String(a.date ?? "")))[0];
+          if (!latest) {
+            setExpressionPreview({ status: "error", message: "No areas have values for every operand." });
+            return;
+          }
+          const areas = Object.entries(latest.data)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .slice(0, EXPRESSION_PREVIEW_AREA_COUNT)
+            .map(([key, value]) => ({ key, value }));
+          setExpressionPreview({ status: "ready", date: latest.date, boundaryType: latest.boundaryType, areas });
+        })
+        .catch((error) => {
+          if (cancelled) return;
+          setExpressionPreview({
+            status: "error",
+            message: error instanceof Error ? error.message : "Unable to preview this expression.",
+          });
+        });
+    }, EXPRESSION_PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [isOpen, formula, onLoadPreviewRows, previewStatIdsKey, expression, expressionAliases]);
+
   // Auto-generated name based on formula
   const generatedName = useMemo(() => {
+    if (formula === "expression") {
+      return expressionDisplay ? `Derived: ${expressionDisplay}` : "";
+    }
     if (formula === "change_over_time") {
       if (!numerator || !startYear || !endYear) return "";
       const statLabel = numerator.label || numerator.name;
       return `Derived: ${statLabel} Change (${startYear}–${endYear})`;
     }
+    if (formula === "crosswalk") {
+      if (!numerator || !crosswalk) return "";
+      return `Derived: ${numerator.label || numerator.name} (ZIP → ${CROSSWALK_TARGET_LABELS[crosswalk.targetType]})`;
+    }
     // Sum formula with multiple operands
     if (formula === "sum") {
       if (sumOperands.length < 2) return "";
@@ -341,7 +513,7 @@ export const DerivedStatModal = ({
     const sym = formulaSymbol[formula];
     const suffix = formula === "rate_per_1000" ? " ×1000" : formula === "index" ? " ×100" : "";
     return `Derived: (${numLabel} ${sym} ${denLabel}${suffix})`;
-  }, [numerator, denominator, formula, startYear, endYear, sumOperands]);
+  }, [numerator, denominator, formula, startYear, endYear, sumOperands, crosswalk]);
 
   // Labels for A/B based on formula type
   const operandLabels = useMemo((): { a: string; b: string } => {
@@ -359,6 +531,10 @@ export const DerivedStatModal = ({
         return { a: "Value", b: "Reference" };
       case "change_over_time":
         return { a: "Start year", b: "End year" };
+      case "expression":
+        return { a: "Operands", b: "" };
+      case "crosswalk":
+        return { a: "ZIP-level stat", b: "Crosswalk file" };
     }
   }, [formula]);
 
@@ -367,12 +543,21 @@ export const DerivedStatModal = ({
 
   const nameRequired = !label.trim();
   const validationMessage = useMemo(() => {
+    if (formula === "expression") {
+      if (!parsedExpression) return "Enter an expression.";
+      return parsedExpression.error;
+    }
     if (formula === "change_over_time") {
       if (!numeratorId || !numerator) return "Select a stat for change over time calculation.";
       if (!startYear || !endYear) return "Select both start and end years.";
       if (startYear >= endYear) return "End year must be after start year.";
       return null;
     }
+    if (formula === "crosswalk") {
+      if (!numeratorId || !numerator) return "Select a ZIP-level stat to apportion.";
+      if (!crosswalk) return crosswalkError ?? "Load a crosswalk file.";
+      return null;
+    }
     // Sum formula validation
     if (formula === "sum") {
       if (sumOperandIds.length < 2) return "Select at least two stats to sum.";
@@ -383,13 +568,53 @@ export const DerivedStatModal = ({
     if (!numeratorId || !denominatorId) return "Select both numerator and denominator.";
     if (numeratorId === denominatorId) return "Numerator and denominator must be different stats.";
     return null;
-  }, [formula, numeratorId, numerator, startYear, endYear, denominatorId, sumOperandIds]);
+  }, [
+    formula,
+    parsedExpression,
+    numeratorId,
+    numerator,
+    startYear,
+    endYear,
+    denominatorId,
+    sumOperandIds,
+    crosswalk,
+    crosswalkError,
+  ]);
 
   const isValid = !nameRequired && validationMessage === null;
 
   const handleSubmit = () => {
     setHasAttemptedSubmit(true);
     if (!isValid || isSubmitting) return;
+    if (formula === "expression") {
+      const statIds = parsedExpression?.statIds ?? [];
+      onSubmit({
+        name: generatedName,
+        label: label.trim(),
+        category: category || "",
+        numeratorId: statIds[0] ?? "",
+        denominatorId: statIds[1] ?? statIds[0] ?? "",
+        formula,
+        description: generatedSource,
+        expression: expression.trim(),
+        expressionAliases,
+      });
+      return;
+    }
+    if (formula === "crosswalk" && crosswalk) {
+      // The weight stat is resolved from the source stat's settings on save.
+      onSubmit({
+        name: generatedName,
+        label: label.trim(),
+        category: category || "",
+        numeratorId,
+        denominatorId: "",
+        formula,
+        description: generatedSource,
+        crosswalk,
+      });
+      return;
+    }
     onSubmit({
       name: generatedName,
       label: label.trim(),
@@ -456,7 +681,7 @@ export const DerivedStatModal = ({
           <div>
             <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Create derived stat</h2>
             <p className="text-xs text-slate-500 dark:text-slate-400">
-              Build a percent stat by dividing one stat by another and applying a friendly label.
+              Combine existing stats with a formula and apply a friendly label.
             </p>
           </div>
           <button
@@ -640,6 +865,150 @@ export const DerivedStatModal = ({
                   </div>
                 </div>
               </div>
+            ) : formula === "crosswalk" ? (
+              /* Crosswalk formula: one ZIP stat plus a local crosswalk file */
+              <div className="mt-4 space-y-3">
+                <div>
+                  <label className="text-[11px] font-medium uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                    {operandLabels.a}
+                  </label>
+                  <div className="mt-1">
+                    <StatSearchSelect
+                      stats={stats}
+                      value={numeratorId}
+                      onChange={setNumeratorId}
+                      disabled={isSubmitting}
+                      placeholder="Search ZIP stat..."
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="text-[11px] font-medium uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                    {operandLabels.b}
+                  </label>
+                  <label className="mt-1 flex h-7 w-full cursor-pointer items-center rounded-lg border border-dashed border-slate-300 bg-white px-3 text-xs text-slate-600 transition hover:border-brand-400 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-300">
+                    <span className="truncate">{crosswalkFileName || "Choose CSV (ZIP, COUNTY or TRACT, RES_RATIO)…"}</span>
+                    <input
+                      type="file"
+                      accept=".csv,text/csv"
+                      className="hidden"
+                      disabled={isSubmitting}
+                      onChange={(e) => {
+                        void handleCrosswalkFile(e.target.files?.[0]);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                  {crosswalkError ? (
+                    <p className="mt-1 text-[10px] text-rose-500 dark:text-rose-400">{crosswalkError}</p>
+                  ) : (
+                    <p className="mt-1 text-[10px] text-slate-400 dark:text-slate-500">
+                      HUD USPS ZIP crosswalk exported as CSV. Counts are split; rates are population-weighted.
+                    </p>
+                  )}
+                </div>
+              </div>
+            ) : formula === "expression" ? (
+              /* Expression formula: lettered operands plus free-form arithmetic */
+              <div className="mt-4 space-y-2">
+                <label className="text-[11px] font-medium uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                  {operandLabels.a}
+                </label>
+                {expressionOperandIds.map((opId, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="w-5 text-center text-xs font-semibold text-slate-500 dark:text-slate-400">
+                      {operandAlias(index)}
+                    </span>
+                    <div className="flex-1">
+                      {stats.length > FUZZY_SEARCH_THRESHOLD ? (
+                        <StatSearchSelect
+                          stats={stats}
+                          value={opId}
+                          onChange={(newId) => {
+                            setExpressionOperandIds((prev) => prev.map((id, i) => (i === index ? newId : id)));
+                          }}
+                          disabled={isSubmitting}
+                          placeholder={`Search stat ${operandAlias(index)}...`}
+                        />
+                      ) : (
+                        <div className="relative">
+                          <select
+                            value={opId}
+                            onChange={(e) => {
+                              const newId = e.target.value;
+                              setExpressionOperandIds((prev) => prev.map((id, i) => (i === index ? newId : id)));
+                            }}
+                            disabled={isSubmitting}
+                            className="h-7 w-full appearance-none rounded-lg border border-slate-300 bg-white pl-3 pr-8 text-xs text-slate-700 shadow-sm transition focus:border-brand-400 focus:outline-none focus:ring-1 focus:ring-brand-200 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-200 dark:focus:border-brand-300 dark:focus:ring-brand-800/50"
+                          >
+                            <option value="">Select stat...</option>
+                            {stats.map((stat) => (
+                              <option key={stat.id} value={stat.id}>
+                                {stat.label || stat.name}
+                              </option>
+                            ))}
+                          </select>
+                          <div className="pointer-events-none absolute right-2 top-1/2 h-3 w-3 -translate-y-1/2 text-slate-400 dark:text-slate-500">
+                            <svg viewBox="0 0 20 20" fill="currentColor">
+                              <path fillRule="evenodd" d="M5.23 7.21a.75.75 0 011.06.02L10 11.168l3.71-3.938a.75.75 0 111.08 1.04l-4.25 4.5a.75.75 0 01-1.08 0l-4.25-4.5a.75.75 0 01.02-1.06z" clipRule="evenodd" />
+                            </svg>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                    {/* Only trailing operands can be removed so letters already used in the expression stay stable */}
+                    {index === expressionOperandIds.length - 1 && expressionOperandIds.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setExpressionOperandIds((prev) => prev.slice(0, -1))}
+                        disabled={isSubmitting}
+                        className="flex h-6 w-6 items-center justify-center rounded text-slate-400 transition hover:bg-slate-100 hover:text-slate-600 dark:hover:bg-slate-700 dark:hover:text-slate-300"
+                        title="Remove"
+                      >
+                        <svg className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
+                          <path fillRule="evenodd" d="M4 10a.75.75 0 01.75-.75h10.5a.75.75 0 010 1.5H4.75A.75.75 0 014 10z" clipRule="evenodd" />
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setExpressionOperandIds((prev) => [...prev, ""])}
+                  disabled={isSubmitting || expressionOperandIds.length >= 26}
+                  className="mt-1 inline-flex items-center gap-1 rounded-lg border border-dashed border-slate-300 px-3 py-1.5 text-xs font-medium text-slate-500 transition hover:border-slate-400 hover:text-slate-700 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-600 dark:text-slate-400 dark:hover:border-slate-500 dark:hover:text-slate-300"
+                >
+                  <svg className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
+                    <path d="M10.75 4.75a.75.75 0 00-1.5 0v4.5h-4.5a.75.75 0 000 1.5h4.5v4.5a.75.75 0 001.5 0v-4.5h4.5a.75.75 0 000-1.5h-4.5v-4.5z" />
+                  </svg>
+                  Add operand
+                </button>
+                <div className="pt-2">
+                  <label className="text-[11px] font-medium uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                    Expression
+                  </label>
+                  <input
+                    value={expression}
+                    onChange={(e) => setExpression(e.target.value)}
+                    disabled={isSubmitting}
+                    spellCheck={false}
+                    aria-invalid={Boolean(parsedExpression?.error)}
+                    className={`mt-1 h-8 w-full rounded-lg border bg-white px-3 font-mono text-xs text-slate-700 shadow-sm focus:outline-none focus:ring-1 dark:bg-slate-950 dark:text-slate-200 ${
+                      parsedExpression?.error
+                        ? "border-rose-300 focus:border-rose-400 focus:ring-rose-200 dark:border-rose-700"
+                        : "border-slate-300 focus:border-brand-400 focus:ring-brand-200 dark:border-slate-700"
+                    }`}
+                    placeholder="(A + B) / (C - D) * 100"
+                  />
+                  <p
+                    className={`mt-1 text-[10px] ${
+                      parsedExpression?.error ? "text-rose-500 dark:text-rose-400" : "text-slate-400 dark:text-slate-500"
+                    }`}
+                  >
+                    {parsedExpression?.error ?? "Use + − × ÷, parentheses, numbers, operand letters, or [stat id]."}
+                  </p>
+                </div>
+              </div>
             ) : formula === "sum" ? (
               /* Sum formula: dynamic list of operands */
               <div className="mt-4 space-y-2">
@@ -818,7 +1187,47 @@ export const DerivedStatModal = ({
 
             {/* Preview of formula */}
             <div className="mt-4 rounded-lg bg-white px-3 py-2 text-xs text-slate-600 shadow-sm dark:bg-slate-900 dark:text-slate-300">
-              {formula === "change_over_time" ? (
+              {formula === "expression" ? (
+                expressionDisplay ? (
+                  <div className="space-y-2">
+                    <p>{expressionDisplay}</p>
+                    {expressionPreview.status === "loading" && (
+                      <p className="text-[10px] text-slate-400 dark:text-slate-500">Loading preview…</p>
+                    )}
+                    {expressionPreview.status === "error" && (
+                      <p className="text-[10px] text-rose-500 dark:text-rose-400">{expressionPreview.message}</p>
+                    )}
+                    {expressionPreview.status === "ready" && (
+                      <div>
+                        <p className="text-[10px] uppercase tracking-wide text-slate-400 dark:text-slate-500">
+                          Preview{expressionPreview.boundaryType ? ` · ${expressionPreview.boundaryType}` : ""}
+                          {expressionPreview.date ? ` · ${expressionPreview.date}` : ""}
+                        </p>
+                        <dl className="mt-1 space-y-0.5">
+                          {expressionPreview.areas.map((area) => (
+                            <div key={area.key} className="flex justify-between gap-3">
+                              <dt className="truncate text-slate-500 dark:text-slate-400">{area.key}</dt>
+                              <dd className="font-medium tabular-nums">{formatPreviewValue(area.value)}</dd>
+                            </div>
+                          ))}
+                        </dl>
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <p>Enter a valid expression to see a preview.</p>
+                )
+              ) : formula === "crosswalk" ? (
+                numerator && crosswalk ? (
+                  <p>
+                    <strong>{numerator.label || numerator.name}</strong> from {Object.keys(crosswalk.ratios).length.toLocaleString()}{" "}
+                    ZIPs to {countCrosswalkTargets(crosswalk).toLocaleString()}{" "}
+                    {CROSSWALK_TARGET_LABELS[crosswalk.targetType].toLowerCase()}
+                  </p>
+                ) : (
+                  <p>Select a ZIP stat and load a crosswalk file.</p>
+                )
+              ) : formula === "change_over_time" ? (
                 numerator && startYear && endYear ? (
                   <p>
                     Percent change in <strong>{numerator.label || numerator.name}</strong> from {startYear} to {endYear}
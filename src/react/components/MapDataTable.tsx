@@ -0,0 +1,353 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react";
+
+import type { AreaId } from "../../types/areas";
+import { getStatDisplayName, type Stat } from "../../types/stat";
+import type { StatBoundaryEntry } from "../hooks/useStats";
+import { tCount } from "../../lib/i18n";
+import { formatStatDifference, formatStatValue } from "../../lib/format";
+import { useLocale } from "../hooks/useLocale";
+import { computeStatBaseline, getAggregationWeights } from "../lib/statAggregation";
+import {
+  buildMapDataTableRows,
+  diffAreaSelection,
+  sortMapDataTableRows,
+  type MapDataTableSortDirection,
+  type MapDataTableSortKey,
+} from "../lib/mapDataTable";
+
+type SupportedAreaKind = "ZIP" | "COUNTY";
+
+interface MapDataTableProps {
+  stat: Stat | null;
+  /** What the map is drawing: the scrubbed timeline entry or the stat's latest data. */
+  entry: Partial<Record<SupportedAreaKind, StatBoundaryEntry>> | null;
+  /** Timeline date the entry is for, when scrubbed away from the latest data. */
+  date: string | null;
+  statDataById: Map<string, Partial<Record<SupportedAreaKind, StatBoundaryEntry>>>;
+  initialKind: SupportedAreaKind | null;
+  selectedZips: string[];
+  selectedCounties: string[];
+  areaNameLookup: (kind: SupportedAreaKind, code: string) => string;
+  onToggleArea: (kind: SupportedAreaKind, code: string, selected: boolean) => void;
+  onHoverArea: (area: AreaId | null) => void;
+  onClose: () => void;
+}
+
+// Rows moved by Page Up / Page Down.
+const PAGE_STEP = 10;
+
+/**
+ * Table view of the choropleth: every ZIP or county with its value, rank and
+ * distance from the state average. Rows use a roving tab stop so the table is
+ * one Tab stop, arrows move between areas, and Enter/Space toggles the area's
+ * selection on the map. Stat and selection changes are read out through a
+ * polite live region.
+ */
+export const MapDataTable = ({
+  stat,
+  entry,
+  date,
+  statDataById,
+  initialKind,
+  selectedZips,
+  selectedCounties,
+  areaNameLookup,
+  onToggleArea,
+  onHoverArea,
+  onClose,
+}: MapDataTableProps) => {
+  const { locale, t } = useLocale();
+  const [kind, setKind] = useState<SupportedAreaKind>(initialKind ?? "ZIP");
+  const [sortKey, setSortKey] = useState<MapDataTableSortKey>("value");
+  const [sortDirection, setSortDirection] = useState<MapDataTableSortDirection>("descending");
+  const [activeCode, setActiveCode] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const headingRef = useRef<HTMLHeadingElement | null>(null);
+  const rowButtonRefs = useRef(new Map<string, HTMLButtonElement>());
+
+  const kindEntry = entry?.[kind] ?? null;
+  const type = kindEntry?.type ?? stat?.type ?? "count";
+  const selectedCodes = kind === "ZIP" ? selectedZips : selectedCounties;
+
+  const baseline = useMemo(() => {
+    if (!stat || !kindEntry) return null;
+    return (
+      computeStatBaseline(kindEntry.data, {
+        type: kindEntry.type,
+        name: stat.name,
+        weights: getAggregationWeights(stat, kind, statDataById),
+      })?.value ?? null
+    );
+  }, [kind, kindEntry, stat, statDataById]);
+
+  const rows = useMemo(
+    () =>
+      sortMapDataTableRows(
+        buildMapDataTableRows({
+          data: stat ? kindEntry?.data : null,
+          selectedCodes,
+          baseline,
+          getName: (code) => areaNameLookup(kind, code),
+        }),
+        sortKey,
+        sortDirection,
+      ),
+    [areaNameLookup, baseline, kind, kindEntry, selectedCodes, sortDirection, sortKey, stat],
+  );
+  const rankedCount = rows.filter((row) => row.rank !== null).length;
+
+  const caption = useMemo(() => {
+    if (!stat) return "";
+    const base = t(kind === "ZIP" ? "table.byZip" : "table.byCounty", { stat: getStatDisplayName(stat) });
+    return date ? t("table.forDate", { caption: base, date }) : base;
+  }, [date, kind, stat, t]);
+
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, []);
+
+  useEffect(() => () => onHoverArea(null), [onHoverArea]);
+
+  // Say what the table now shows when the stat, date or area type changes,
+  // otherwise which areas were just selected or deselected.
+  const announcementKey = `${stat?.id ?? ""}|${kind}|${date ?? ""}|${rankedCount > 0}`;
+  const lastAnnouncedRef = useRef<{ key: string; selected: string[] } | null>(null);
+  useEffect(() => {
+    const previous = lastAnnouncedRef.current;
+    lastAnnouncedRef.current = { key: announcementKey, selected: selectedCodes };
+    const selectedCount =
+      selectedCodes.length > 0
+        ? tCount(selectedCodes.length, "table.selectedCount.one", "table.selectedCount.other", locale)
+        : "";
+    if (!previous || previous.key !== announcementKey) {
+      setAnnouncement(
+        stat
+          ? [
+              t("table.announce.stat", { caption }),
+              tCount(rows.length, "table.areaCount.one", "table.areaCount.other", locale),
+              selectedCount,
+            ].join(" ").trim()
+          : t("table.announce.noStat"),
+      );
+      return;
+    }
+    const { added, removed } = diffAreaSelection(previous.selected, selectedCodes);
+    if (added.length === 0 && removed.length === 0) return;
+    const change =
+      added.length + removed.length === 1
+        ? added.length === 1
+          ? t("table.announce.selected", { area: areaNameLookup(kind, added[0]) })
+          : t("table.announce.deselected", { area: areaNameLookup(kind, removed[0]) })
+        : [
+            added.length > 0 ? tCount(added.length, "table.added.one", "table.added.other", locale) : "",
+            removed.length > 0 ? tCount(removed.length, "table.removed.one", "table.removed.other", locale) : "",
+          ].join(" ");
+    setAnnouncement(`${change} ${selectedCount}`.trim());
+  }, [announcementKey, areaNameLookup, caption, kind, locale, rows.length, selectedCodes, stat, t]);
+
+  const focusRow = (index: number) => {
+    const row = rows[Math.max(0, Math.min(rows.length - 1, index))];
+    if (!row) return;
+    setActiveCode(row.code);
+    rowButtonRefs.current.get(row.code)?.focus();
+  };
+
+  const handleRowKeyDown = (event: KeyboardEvent<HTMLButtonElement>, index: number) => {
+    switch (event.key) {
+      case "ArrowDown":
+        focusRow(index + 1);
+        break;
+      case "ArrowUp":
+        focusRow(index - 1);
+        break;
+      case "PageDown":
+        focusRow(index + PAGE_STEP);
+        break;
+      case "PageUp":
+        focusRow(index - PAGE_STEP);
+        break;
+      case "Home":
+        focusRow(0);
+        break;
+      case "End":
+        focusRow(rows.length - 1);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const handleSort = (key: MapDataTableSortKey) => {
+    if (key === sortKey) {
+      setSortDirection((prev) => (prev === "ascending" ? "descending" : "ascending"));
+      return;
+    }
+    setSortKey(key);
+    setSortDirection(key === "name" ? "ascending" : "descending");
+  };
+
+  const tabStopCode = rows.some((row) => row.code === activeCode) ? activeCode : rows[0]?.code ?? null;
+
+  const sortHeader = (key: MapDataTableSortKey, label: string, align: "left" | "right") => (
+    <th
+      scope="col"
+      aria-sort={sortKey === key ? sortDirection : "none"}
+      className={["px-3 py-2 font-medium", align === "right" ? "text-right" : "text-left"].join(" ")}
+    >
+      <button
+        type="button"
+        onClick={() => handleSort(key)}
+        className="inline-flex items-center gap-1 rounded hover:text-brand-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-brand-400 dark:hover:text-brand-300"
+      >
+        {label}
+        {sortKey === key && <span aria-hidden="true">{sortDirection === "ascending" ? "▲" : "▼"}</span>}
+      </button>
+    </th>
+  );
+
+  return (
+    <section
+      aria-labelledby="map-data-table-title"
+      onKeyDown={(event) => {
+        if (event.key !== "Escape") return;
+        event.stopPropagation();
+        onClose();
+      }}
+      className="pointer-events-auto absolute inset-2 z-40 flex flex-col overflow-hidden rounded-xl bg-white shadow-2xl ring-1 ring-slate-200 md:inset-y-4 md:left-4 md:right-auto md:w-[30rem] dark:bg-slate-900 dark:ring-slate-700"
+    >
+      <div className="flex items-start justify-between gap-3 border-b border-slate-200 px-4 py-3 dark:border-slate-700">
+        <div className="min-w-0">
+          <h2
+            id="map-data-table-title"
+            ref={headingRef}
+            tabIndex={-1}
+            className="text-base font-semibold text-slate-800 focus:outline-none dark:text-slate-100"
+          >
+            {t("table.title")}
+          </h2>
+          {baseline !== null && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {t("table.stateAverage", { value: formatStatValue(baseline, type) })}
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full p-2 text-slate-500 hover:bg-slate-100 hover:text-slate-800 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-white"
+          aria-label={t("table.close")}
+        >
+          <svg className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 6l12 12M18 6L6 18" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-3 px-4 py-2">
+        <div role="group" aria-label={t("table.areaType")} className="inline-flex rounded-lg border border-slate-200 p-0.5 text-xs dark:border-slate-700">
+          {(["ZIP", "COUNTY"] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              aria-pressed={kind === option}
+              onClick={() => setKind(option)}
+              className={[
+                "rounded-md px-2.5 py-1 font-medium transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-brand-400",
+                kind === option
+                  ? "bg-brand-600 text-white dark:bg-brand-500"
+                  : "text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800",
+              ].join(" ")}
+            >
+              {t(option === "ZIP" ? "table.zips" : "table.counties")}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p id="map-data-table-instructions" className="px-4 pb-2 text-xs text-slate-500 dark:text-slate-400">
+        {t("table.instructions")}
+      </p>
+
+      <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+        {announcement}
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto border-t border-slate-200 dark:border-slate-700">
+        {!stat ? (
+          <p className="px-4 py-6 text-sm text-slate-500 dark:text-slate-400">{t("table.noStat")}</p>
+        ) : rows.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-slate-500 dark:text-slate-400">{t("table.noRows")}</p>
+        ) : (
+          <table className="w-full border-collapse text-sm" aria-describedby="map-data-table-instructions">
+            <caption className="sr-only">{caption}</caption>
+            <thead className="sticky top-0 bg-slate-50 text-xs text-slate-600 dark:bg-slate-800 dark:text-slate-300">
+              <tr>
+                {sortHeader("name", t("table.column.area"), "left")}
+                {sortHeader("value", t("table.column.value"), "right")}
+                <th scope="col" className="px-3 py-2 text-right font-medium">
+                  {t("table.column.rank")}
+                </th>
+                {sortHeader("difference", t("table.column.vsState"), "right")}
+                <th scope="col" className="px-3 py-2 text-center font-medium">
+                  {t("table.column.selected")}
+                </th>
+              </tr>
+            </thead>
+            <tbody onMouseLeave={() => onHoverArea(null)}>
+              {rows.map((row, index) => (
+                <tr
+                  key={row.code}
+                  onMouseEnter={() => onHoverArea({ kind, id: row.code })}
+                  className={[
+                    "border-t border-slate-100 dark:border-slate-800",
+                    row.selected ? "bg-brand-50 dark:bg-brand-900/30" : "hover:bg-slate-50 dark:hover:bg-slate-800/60",
+                  ].join(" ")}
+                >
+                  <th scope="row" className="px-3 py-1.5 text-left font-normal">
+                    <button
+                      type="button"
+                      ref={(node) => {
+                        if (node) rowButtonRefs.current.set(row.code, node);
+                        else rowButtonRefs.current.delete(row.code);
+                      }}
+                      tabIndex={row.code === tabStopCode ? 0 : -1}
+                      aria-pressed={row.selected}
+                      onClick={() => onToggleArea(kind, row.code, !row.selected)}
+                      onKeyDown={(event) => handleRowKeyDown(event, index)}
+                      onFocus={() => {
+                        setActiveCode(row.code);
+                        onHoverArea({ kind, id: row.code });
+                      }}
+                      onBlur={() => onHoverArea(null)}
+                      className="w-full rounded text-left text-slate-800 hover:text-brand-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-brand-400 dark:text-slate-100 dark:hover:text-brand-300"
+                    >
+                      {row.name}
+                    </button>
+                  </th>
+                  <td className="px-3 py-1.5 text-right tabular-nums text-slate-700 dark:text-slate-200">
+                    {row.value === null ? t("table.noData") : formatStatValue(row.value, type)}
+                  </td>
+                  <td className="px-3 py-1.5 text-right tabular-nums text-slate-600 dark:text-slate-300">
+                    {row.rank === null ? "—" : t("table.rank", { rank: row.rank, total: rankedCount })}
+                  </td>
+                  <td className="px-3 py-1.5 text-right tabular-nums text-slate-600 dark:text-slate-300">
+                    {row.difference === null || baseline === null
+                      ? "—"
+                      : row.difference === 0
+                        ? t("table.same")
+                        : t(row.difference > 0 ? "table.above" : "table.below", {
+                            value: formatStatDifference(row.difference, baseline, type),
+                          })}
+                  </td>
+                  <td className="px-3 py-1.5 text-center text-slate-600 dark:text-slate-300">
+                    {row.selected ? t("table.yes") : t("table.no")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -2,8 +2,16 @@ import { useEffect, useRef, useState } from "react";
 import type { BoundaryMode } from "../../types/boundaries";
 import type { Organization } from "../../types/organization";
 import type { AreaId, AreaKind } from "../../types/areas";
+import type { MapClassificationMode } from "../../lib/choropleth";
 import type { AreasMode } from "../lib/mapUrl";
-import { createMapView, type MapStatDataById, type MapViewController, type SelectedStatChipOption } from "../imperative/mapView";
+import type { DrawnShape } from "../lib/drawnArea";
+import {
+  createMapView,
+  type MapStatDataById,
+  type MapStatTimeline,
+  type MapViewController,
+  type SelectedStatChipOption,
+} from "../imperative/mapView";
 
 interface AreaSelectionChange {
   kind: AreaKind;
@@ -16,6 +24,7 @@ interface MapLibreMapProps {
   organizations?: Organization[];
   orgPinsVisible?: boolean;
   extremasVisible?: boolean;
+  bivariateEnabled?: boolean;
   initialMapPosition?: { lng: number; lat: number; zoom: number } | null;
   zoomOutRequestNonce?: number;
   // When incremented, explicitly clear the map's category chips
@@ -23,6 +32,10 @@ interface MapLibreMapProps {
   // Request from map chip to toggle organization pin visibility.
   onRequestHideOrgs?: (nextVisible?: boolean) => void;
   onExtremasVisibleChange?: (visible: boolean) => void;
+  onBivariateChange?: (enabled: boolean) => void;
+  // Freehand/radius selection drawn on the map; null when none is active.
+  drawnShape?: DrawnShape | null;
+  onDrawnAreaChange?: (shape: DrawnShape | null) => void;
   onTimeChipClick?: () => void;
   boundaryMode?: BoundaryMode;
   selectedZips?: string[];
@@ -31,12 +44,18 @@ interface MapLibreMapProps {
   selectedCounties?: string[];
   pinnedCounties?: string[];
   hoveredCounty?: string | null;
+  selectedTracts?: string[];
+  pinnedTracts?: string[];
+  hoveredTract?: string | null;
   activeOrganizationId?: string | null;
   selectedOrgIds?: string[];
   categoryFilter?: string | null;
   areasMode?: AreasMode;
   selectedStatId?: string | null;
   statDataById?: MapStatDataById;
+  // Series dates for the selected stat; drives the year slider in the legend row.
+  statTimeline?: MapStatTimeline | null;
+  onTimelineDateChange?: (date: string) => void;
   selectedStatOptions?: SelectedStatChipOption[];
   secondaryStatId?: string | null;
   onHover?: (idOrIds: string | string[] | null) => void;
@@ -52,6 +71,9 @@ interface MapLibreMapProps {
   onCountyHoverChange?: (county: string | null) => void;
   onAreaSelectionChange?: (change: AreaSelectionChange) => void;
   onAreaHoverChange?: (area: AreaId | null) => void;
+  onAreaClick?: (area: AreaId) => void;
+  /** Embed mode: keep the configured stat, category and areas (read once on mount). */
+  selectionLocked?: boolean;
   onStatSelectionChange?: (statId: string | null) => void;
   onSecondaryStatChange?: (statId: string | null) => void;
   onCategorySelectionChange?: (categoryId: string | null) => void;
@@ -65,6 +87,8 @@ interface MapLibreMapProps {
   legendInset?: number;
   onControllerReady?: (controller: MapViewController | null) => void;
   userLocation?: { lng: number; lat: number } | null;
+  /** "Near me" search area drawn around `center`; null hides it. */
+  searchRadius?: { center: { lng: number; lat: number }; miles: number } | null;
   onTimeChipClear?: () => void;
   onExportCsvAreasDownload?: () => void;
   exportCsvAreasAvailable?: boolean;
@@ -73,6 +97,7 @@ interface MapLibreMapProps {
   onLegendSettingsClick?: () => void;
   onSidebarExpand?: () => void;
   legendRangeMode?: "dynamic" | "scoped" | "global";
+  classificationMode?: MapClassificationMode;
   onboardingTourAutoPromptEnabled?: boolean;
   visibleStatIds?: string[] | null;
 }
@@ -122,11 +147,15 @@ export const MapLibreMap = ({
   organizations = [],
   orgPinsVisible = false,
   extremasVisible = true,
+  bivariateEnabled = false,
   initialMapPosition = null,
   zoomOutRequestNonce,
   clearMapCategoryNonce,
   onRequestHideOrgs,
   onExtremasVisibleChange,
+  onBivariateChange,
+  drawnShape = null,
+  onDrawnAreaChange,
   onTimeChipClick,
   onTimeChipClear,
   onExportCsvAreasDownload,
@@ -138,12 +167,17 @@ export const MapLibreMap = ({
   selectedCounties = [],
   pinnedCounties = [],
   hoveredCounty = null,
+  selectedTracts = [],
+  pinnedTracts = [],
+  hoveredTract = null,
   activeOrganizationId = null,
   selectedOrgIds = [],
   categoryFilter = null,
   areasMode = "auto",
   selectedStatId = null,
   statDataById,
+  statTimeline = null,
+  onTimelineDateChange,
   selectedStatOptions = [],
   secondaryStatId = null,
   onHover,
@@ -154,6 +188,8 @@ export const MapLibreMap = ({
   onCountyHoverChange,
   onAreaSelectionChange,
   onAreaHoverChange,
+  onAreaClick,
+  selectionLocked = false,
   onStatSelectionChange,
   onSecondaryStatChange,
   onCategorySelectionChange,
@@ -169,11 +205,13 @@ export const MapLibreMap = ({
   legendInset,
   onControllerReady,
   userLocation = null,
+  searchRadius = null,
   onLocationSearch,
   timeFilterAvailable = true,
   onLegendSettingsClick,
   onSidebarExpand,
   legendRangeMode = "scoped",
+  classificationMode = "per_stat",
   onboardingTourAutoPromptEnabled = true,
   visibleStatIds = null,
 }: MapLibreMapProps) => {
@@ -194,6 +232,7 @@ export const MapLibreMap = ({
   const onCountyHoverChangeRef = useRef(onCountyHoverChange);
   const onAreaSelectionChangeRef = useRef(onAreaSelectionChange);
   const onAreaHoverChangeRef = useRef(onAreaHoverChange);
+  const onAreaClickRef = useRef(onAreaClick);
   const onStatSelectionChangeRef = useRef(onStatSelectionChange);
   const onSecondaryStatChangeRef = useRef(onSecondaryStatChange);
   const onCategorySelectionChangeRef = useRef(onCategorySelectionChange);
@@ -208,9 +247,13 @@ export const MapLibreMap = ({
   const onExportCsvAreasDownloadRef = useRef(onExportCsvAreasDownload);
   const onLocationSearchRef = useRef(onLocationSearch);
   const onExtremasVisibleChangeRef = useRef(onExtremasVisibleChange);
+  const onBivariateChangeRef = useRef(onBivariateChange);
+  const onDrawnAreaChangeRef = useRef(onDrawnAreaChange);
+  const onTimelineDateChangeRef = useRef(onTimelineDateChange);
   const setLegendInsetRef = useRef<(pixels: number) => void>(() => {});
   const onLegendSettingsClickRef = useRef(onLegendSettingsClick);
   const legendRangeModeRef = useRef<"dynamic" | "scoped" | "global">(legendRangeMode);
+  const classificationModeRef = useRef<MapClassificationMode>(classificationMode);
   const visibleStatIdsRef = useRef<string[] | null>(visibleStatIds);
 
   useEffect(() => { onZipSelectionChangeRef.current = onZipSelectionChange; }, [onZipSelectionChange]);
@@ -223,6 +266,7 @@ export const MapLibreMap = ({
   useEffect(() => { onCountyHoverChangeRef.current = onCountyHoverChange; }, [onCountyHoverChange]);
   useEffect(() => { onAreaSelectionChangeRef.current = onAreaSelectionChange; }, [onAreaSelectionChange]);
   useEffect(() => { onAreaHoverChangeRef.current = onAreaHoverChange; }, [onAreaHoverChange]);
+  useEffect(() => { onAreaClickRef.current = onAreaClick; }, [onAreaClick]);
   useEffect(() => { onStatSelectionChangeRef.current = onStatSelectionChange; }, [onStatSelectionChange]);
   useEffect(() => { onSecondaryStatChangeRef.current = onSecondaryStatChange; }, [onSecondaryStatChange]);
   useEffect(() => { onCategorySelectionChangeRef.current = onCategorySelectionChange; }, [onCategorySelectionChange]);
@@ -239,8 +283,12 @@ export const MapLibreMap = ({
   useEffect(() => { onSidebarExpandRef.current = onSidebarExpand; }, [onSidebarExpand]);
   useEffect(() => { onLocationSearchRef.current = onLocationSearch; }, [onLocationSearch]);
   useEffect(() => { onExtremasVisibleChangeRef.current = onExtremasVisibleChange; }, [onExtremasVisibleChange]);
+  useEffect(() => { onBivariateChangeRef.current = onBivariateChange; }, [onBivariateChange]);
+  useEffect(() => { onDrawnAreaChangeRef.current = onDrawnAreaChange; }, [onDrawnAreaChange]);
+  useEffect(() => { onTimelineDateChangeRef.current = onTimelineDateChange; }, [onTimelineDateChange]);
   useEffect(() => { onLegendSettingsClickRef.current = onLegendSettingsClick; }, [onLegendSettingsClick]);
   useEffect(() => { legendRangeModeRef.current = legendRangeMode; }, [legendRangeMode]);
+  useEffect(() => { classificationModeRef.current = classificationMode; }, [classificationMode]);
   useEffect(() => { visibleStatIdsRef.current = visibleStatIds; }, [visibleStatIds]);
   useEffect(() => {
     const controller = mapControllerRef.current;
@@ -276,6 +324,7 @@ export const MapLibreMap = ({
     try {
       mapController = createMapView({
       initialExtremasVisible: Boolean(extremasVisible),
+      initialBivariateEnabled: bivariateEnabled,
       initialAreasMode: areasMode,
       initialUserLocation: userLocation,
       initialMapPosition,
@@ -307,6 +356,8 @@ export const MapLibreMap = ({
         }, 0);
       },
       onAreaHoverChange: (area) => onAreaHoverChangeRef.current?.(area),
+      onAreaClick: (area) => onAreaClickRef.current?.(area),
+      selectionLocked,
       onStatSelectionChange: (id) => onStatSelectionChangeRef.current?.(id),
       onSecondaryStatChange: (id) => onSecondaryStatChangeRef.current?.(id),
       onCategorySelectionChange: (id) => onCategorySelectionChangeRef.current?.(id),
@@ -327,6 +378,15 @@ export const MapLibreMap = ({
       onExtremasVisibilityChange: (visible) => {
         try { onExtremasVisibleChangeRef.current?.(visible); } catch {}
       },
+      onBivariateChange: (enabled) => {
+        try { onBivariateChangeRef.current?.(enabled); } catch {}
+      },
+      onDrawnAreaChange: (shape) => {
+        try { onDrawnAreaChangeRef.current?.(shape); } catch {}
+      },
+      onTimelineDateChange: (date) => {
+        try { onTimelineDateChangeRef.current?.(date); } catch {}
+      },
       onTimeChipClick: () => {
         try { onTimeChipClickRef.current?.(); } catch {}
       },
@@ -347,6 +407,7 @@ export const MapLibreMap = ({
         try { onLegendSettingsClickRef.current?.(); } catch {}
       },
       legendRangeMode,
+      classificationMode,
       onboardingAutoPromptEnabled: onboardingTourAutoPromptEnabled,
       });
     } catch (error) {
@@ -361,7 +422,9 @@ export const MapLibreMap = ({
     mapControllerRef.current = mapController;
     mapController.setVisibleStatIds(visibleStatIdsRef.current);
     mapController.setStatDataById(statDataById ?? null);
+    mapController.setTimeline(statTimeline);
     mapController.setSelectedStatOptions(selectedStatOptions);
+    mapController.setDrawnArea(drawnShape);
     mapController.setExportCsvAreasVisible(Boolean(exportCsvAreasAvailable));
     setLegendInsetRef.current = mapController.setLegendInset;
     if (typeof legendInset === "number") {
@@ -411,12 +474,30 @@ export const MapLibreMap = ({
     }
   }, [extremasVisible]);
 
+  useEffect(() => {
+    if (mapControllerRef.current) {
+      mapControllerRef.current.setBivariateEnabled(bivariateEnabled);
+    }
+  }, [bivariateEnabled]);
+
+  useEffect(() => {
+    if (mapControllerRef.current) {
+      mapControllerRef.current.setDrawnArea(drawnShape);
+    }
+  }, [drawnShape]);
+
   useEffect(() => {
     if (mapControllerRef.current) {
       mapControllerRef.current.setLegendRangeMode(legendRangeModeRef.current);
     }
   }, [legendRangeMode]);
 
+  useEffect(() => {
+    if (mapControllerRef.current) {
+      mapControllerRef.current.setClassificationMode(classificationModeRef.current);
+    }
+  }, [classificationMode]);
+
   useEffect(() => {
     if (mapControllerRef.current) {
       mapControllerRef.current.setOnboardingTourAutoPromptEnabled(Boolean(onboardingTourAutoPromptEnabled));
@@ -429,6 +510,12 @@ export const MapLibreMap = ({
     }
   }, [userLocation]);
 
+  useEffect(() => {
+    if (mapControllerRef.current) {
+      mapControllerRef.current.setSearchRadius(searchRadius ?? null);
+    }
+  }, [searchRadius]);
+
   // Update time filter availability (controls visibility of the Hours Open chip)
   useEffect(() => {
     if (mapControllerRef.current) {
@@ -500,6 +587,20 @@ export const MapLibreMap = ({
     }
   }, [hoveredCounty]);
 
+  // Update pinned tracts
+  useEffect(() => {
+    if (mapControllerRef.current) {
+      mapControllerRef.current.setPinnedTracts(pinnedTracts);
+    }
+  }, [pinnedTracts]);
+
+  // Update hovered tract
+  useEffect(() => {
+    if (mapControllerRef.current) {
+      mapControllerRef.current.setHoveredTract(hoveredTract);
+    }
+  }, [hoveredTract]);
+
   // Update active organization
   useEffect(() => {
     if (mapControllerRef.current) {
@@ -534,6 +635,12 @@ export const MapLibreMap = ({
     }
   }, [statDataById]);
 
+  useEffect(() => {
+    if (mapControllerRef.current) {
+      mapControllerRef.current.setTimeline(statTimeline);
+    }
+  }, [statTimeline]);
+
   useEffect(() => {
     if (mapControllerRef.current) {
       mapControllerRef.current.setSelectedStatOptions(selectedStatOptions);
@@ -551,6 +658,7 @@ export const MapLibreMap = ({
   // Track what we last sent to prevent circular updates from map callbacks
   const lastSentZipsRef = useRef<string>("");
   const lastSentCountiesRef = useRef<string>("");
+  const lastSentTractsRef = useRef<string>("");
 
   useEffect(() => {
     // Create a stable string representation to check if zips actually changed
@@ -600,6 +708,25 @@ export const MapLibreMap = ({
     }
   }, [selectedCounties, pinnedCounties]);
 
+  useEffect(() => {
+    const pinnedKey = [...pinnedTracts].sort().join(",");
+    const selectedKey = [...selectedTracts].sort().join(",");
+    const currentKey = `${selectedKey}|${pinnedKey}`;
+
+    const keyChanged = currentKey !== lastSentTractsRef.current;
+    lastSentTractsRef.current = currentKey;
+
+    if (!mapControllerRef.current || isInternalUpdateRef.current) return;
+
+    if (keyChanged) {
+      const transient = selectedTracts.filter((id) => !pinnedTracts.includes(id));
+      mapControllerRef.current.clearTractTransientSelection();
+      if (transient.length > 0) {
+        mapControllerRef.current.addTransientTracts(transient);
+      }
+    }
+  }, [selectedTracts, pinnedTracts]);
+
   if (startupError) {
     return (
       <div className="relative flex min-h-0 min-w-0 flex-1 items-center justify-center bg-slate-50 px-6 text-center text-slate-700 dark:bg-slate-950 dark:text-slate-200">
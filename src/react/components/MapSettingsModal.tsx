@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState } from "react";
 import { clearPersistentStatsCache } from "../../lib/persistentStatsCache";
+import { CLASSIFICATION_METHOD_LABELS, type MapClassificationMode } from "../../lib/choropleth";
 import {
   PREFETCH_RECENT_STATS_KEY,
   readBoolSetting,
@@ -11,6 +12,8 @@ interface MapSettingsModalProps {
   onClose: () => void;
   rangeMode: "dynamic" | "scoped" | "global";
   onChangeRangeMode: (mode: "dynamic" | "scoped" | "global") => void;
+  classificationMode: MapClassificationMode;
+  onChangeClassificationMode: (mode: MapClassificationMode) => void;
   reducedDataLoading: boolean;
   onChangeReducedDataLoading: (value: boolean) => void;
   onStartTour?: () => void;
@@ -22,6 +25,8 @@ export const MapSettingsModal: React.FC<MapSettingsModalProps> = ({
   onClose,
   rangeMode,
   onChangeRangeMode,
+  classificationMode,
+  onChangeClassificationMode,
   reducedDataLoading,
   onChangeReducedDataLoading,
   onStartTour,
@@ -48,6 +53,34 @@ export const MapSettingsModal: React.FC<MapSettingsModalProps> = ({
 
   if (!open) return null;
 
+  const classificationOptions: Array<{ value: MapClassificationMode; label: string; description: string }> = [
+    {
+      value: "per_stat",
+      label: "Stat default",
+      description: "Use the classification chosen for each stat (equal interval when unset).",
+    },
+    {
+      value: "equal_interval",
+      label: CLASSIFICATION_METHOD_LABELS.equal_interval,
+      description: "Split the range into equally sized steps. Outliers can wash out the map.",
+    },
+    {
+      value: "quantile",
+      label: CLASSIFICATION_METHOD_LABELS.quantile,
+      description: "Put roughly the same number of areas in each color.",
+    },
+    {
+      value: "jenks",
+      label: CLASSIFICATION_METHOD_LABELS.jenks,
+      description: "Group similar values together, breaking at the largest gaps.",
+    },
+    {
+      value: "std_dev",
+      label: CLASSIFICATION_METHOD_LABELS.std_dev,
+      description: "Color by distance from the average, one standard deviation per step.",
+    },
+  ];
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-slate-900/40 px-4 py-4 sm:items-center"
@@ -129,6 +162,33 @@ export const MapSettingsModal: React.FC<MapSettingsModalProps> = ({
             </div>
           </div>
 
+          <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 dark:border-slate-700 dark:bg-slate-800/60">
+            <div className="font-medium text-slate-800 dark:text-slate-100">Choropleth classes</div>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Control how values are grouped into legend colors.
+            </p>
+            <div className="mt-3 space-y-2">
+              {classificationOptions.map((option) => (
+                <label
+                  key={option.value}
+                  className="flex cursor-pointer items-start gap-3 rounded-md border border-transparent p-2 hover:border-slate-200 dark:hover:border-slate-700"
+                >
+                  <input
+                    type="radio"
+                    name="classification-mode"
+                    className="mt-1 h-4 w-4"
+                    checked={classificationMode === option.value}
+                    onChange={() => onChangeClassificationMode(option.value)}
+                  />
+                  <div>
+                    <div className="font-medium text-slate-800 dark:text-slate-100">{option.label}</div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{option.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
           <div className="rounded-lg border border-slate-200 bg-slate-50 p-3 dark:border-slate-700 dark:bg-slate-800/60">
             <div className="font-medium text-slate-800 dark:text-slate-100">Onboarding</div>
             <p className="text-xs text-slate-500 dark:text-slate-400">
@@ -0,0 +1,73 @@
+import { tCount } from "../../lib/i18n";
+import { formatDateTime } from "../../lib/format";
+import { useLocale } from "../hooks/useLocale";
+
+interface OfflineBannerProps {
+  isOnline: boolean;
+  queuedCount: number;
+  failedCount: number;
+  sentCount: number;
+  /** When the organizations on screen come from the saved snapshot. */
+  snapshotSavedAt: number | null;
+  onDismissSent: () => void;
+}
+
+export const OfflineBanner = ({
+  isOnline,
+  queuedCount,
+  failedCount,
+  sentCount,
+  snapshotSavedAt,
+  onDismissSent,
+}: OfflineBannerProps) => {
+  const { locale, t } = useLocale();
+
+  if (!isOnline) {
+    const details = [
+      snapshotSavedAt
+        ? t("offline.savedAt", { date: formatDateTime(snapshotSavedAt) })
+        : t("offline.savedData"),
+      queuedCount > 0 ? tCount(queuedCount, "offline.queued.one", "offline.queued.other", locale) : null,
+    ].filter(Boolean);
+    return (
+      <div
+        role="status"
+        className="flex flex-wrap items-center justify-center gap-x-2 gap-y-0.5 bg-amber-100 px-4 py-1.5 text-center text-xs text-amber-900 dark:bg-amber-900/40 dark:text-amber-100"
+      >
+        <span className="font-semibold">{t("offline.title")}</span>
+        <span>{details.join(" ")}</span>
+      </div>
+    );
+  }
+
+  if (failedCount > 0) {
+    return (
+      <div
+        role="status"
+        className="bg-rose-50 px-4 py-1.5 text-center text-xs text-rose-700 dark:bg-rose-900/30 dark:text-rose-200"
+      >
+        {tCount(failedCount, "offline.failed.one", "offline.failed.other", locale)}
+      </div>
+    );
+  }
+
+  if (sentCount > 0) {
+    return (
+      <div
+        role="status"
+        className="flex items-center justify-center gap-2 bg-emerald-50 px-4 py-1.5 text-xs text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-100"
+      >
+        <span>{tCount(sentCount, "offline.sent.one", "offline.sent.other", locale)}</span>
+        <button
+          type="button"
+          onClick={onDismissSent}
+          className="font-medium underline decoration-emerald-400 underline-offset-2 hover:text-emerald-900 dark:hover:text-white"
+        >
+          {t("offline.dismiss")}
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+};
@@ -0,0 +1,325 @@
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import type { OrganizationHoursException, OrganizationHoursRecurrence } from "../../types/organization";
+import {
+  DEFAULT_HOURS_RANGE,
+  WEEK_OF_MONTH_OPTIONS,
+  type DayHoursDraft,
+  type HoursDraft,
+  type HoursRangeDraft,
+} from "../lib/organizationHours";
+import { DAY_LABELS, toCalendarDateString } from "../lib/timeFilters";
+
+interface OrganizationHoursEditorProps {
+  value: HoursDraft;
+  onChange: (next: HoursDraft) => void;
+}
+
+// Monday-first to match how pantries usually post their schedules.
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const TIME_INPUT_CLASS =
+  "min-w-[120px] flex-1 sm:flex-none rounded border border-slate-300 px-2 py-1 text-base text-slate-900 focus:border-brand-400 focus:ring-1 focus:ring-brand-400 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100";
+
+const SELECT_CLASS =
+  "rounded border border-slate-300 bg-white px-2 py-1 text-sm text-slate-900 focus:border-brand-400 focus:ring-1 focus:ring-brand-400 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100";
+
+const ADD_BUTTON_CLASS =
+  "text-xs font-medium text-brand-600 hover:text-brand-700 dark:text-brand-300 dark:hover:text-brand-200";
+
+const REMOVE_BUTTON_CLASS =
+  "rounded p-1 text-slate-400 hover:bg-slate-200 hover:text-slate-600 dark:hover:bg-slate-700 dark:hover:text-slate-200";
+
+const RangeInputs = ({
+  range,
+  onChange,
+}: {
+  range: { openTime?: string | null; closeTime?: string | null };
+  onChange: (next: HoursRangeDraft) => void;
+}) => (
+  <>
+    <input
+      type="time"
+      aria-label="Opens"
+      value={range.openTime ?? ""}
+      onChange={(e) => onChange({ openTime: e.target.value, closeTime: range.closeTime ?? "" })}
+      className={TIME_INPUT_CLASS}
+    />
+    <span className="text-xs text-slate-500 dark:text-slate-400 flex-shrink-0">to</span>
+    <input
+      type="time"
+      aria-label="Closes"
+      value={range.closeTime ?? ""}
+      onChange={(e) => onChange({ openTime: range.openTime ?? "", closeTime: e.target.value })}
+      className={TIME_INPUT_CLASS}
+    />
+  </>
+);
+
+// Weekly schedule plus monthly rules ("2nd & 4th Tuesday"), dated closures /
+// special hours, and a federal-holiday closure toggle.
+export const OrganizationHoursEditor = ({ value, onChange }: OrganizationHoursEditorProps) => {
+  const updateDay = (day: number, next: DayHoursDraft) =>
+    onChange({ ...value, weekly: { ...value.weekly, [day]: next } });
+
+  const updateRecurrence = (index: number, patch: Partial<OrganizationHoursRecurrence>) =>
+    onChange({
+      ...value,
+      recurrences: value.recurrences.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)),
+    });
+
+  const updateException = (index: number, patch: Partial<OrganizationHoursException>) =>
+    onChange({
+      ...value,
+      exceptions: value.exceptions.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)),
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {WEEK_ORDER.map((day) => {
+          const entry = value.weekly[day];
+          return (
+            <div key={day} className="flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-3">
+              <label className="flex items-center gap-2 min-w-[100px] sm:pt-1">
+                <input
+                  type="checkbox"
+                  checked={entry.enabled}
+                  onChange={(e) => updateDay(day, { ...entry, enabled: e.target.checked })}
+                  className="h-4 w-4 rounded border-slate-300 text-brand-500 focus:ring-brand-400 dark:border-slate-600 dark:bg-slate-700"
+                />
+                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">{DAY_LABELS[day]}</span>
+              </label>
+              {entry.enabled && (
+                <div className="flex flex-1 flex-col gap-1 pl-6 sm:pl-0">
+                  {entry.ranges.map((range, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                      <RangeInputs
+                        range={range}
+                        onChange={(next) =>
+                          updateDay(day, { ...entry, ranges: entry.ranges.map((r, i) => (i === index ? next : r)) })
+                        }
+                      />
+                      {entry.ranges.length > 1 && (
+                        <button
+                          type="button"
+                          aria-label="Remove hours"
+                          onClick={() => updateDay(day, { ...entry, ranges: entry.ranges.filter((_, i) => i !== index) })}
+                          className={REMOVE_BUTTON_CLASS}
+                        >
+                          <XMarkIcon className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => updateDay(day, { ...entry, ranges: [...entry.ranges, { ...DEFAULT_HOURS_RANGE }] })}
+                    className={`self-start ${ADD_BUTTON_CLASS}`}
+                  >
+                    + Split hours
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2 border-t border-slate-200 pt-3 dark:border-slate-700">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Monthly schedule</h4>
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...value,
+                recurrences: [...value.recurrences, { day: 2, weeks: [2, 4], ...DEFAULT_HOURS_RANGE }],
+              })
+            }
+            className={ADD_BUTTON_CLASS}
+          >
+            + Add rule
+          </button>
+        </div>
+        {value.recurrences.length === 0 && (
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            For schedules like "every 2nd and 4th Tuesday" or "closed the 3rd Saturday".
+          </p>
+        )}
+        {value.recurrences.map((recurrence, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2 rounded-lg bg-white p-2 dark:bg-slate-900/60">
+            <select
+              aria-label="Rule type"
+              value={recurrence.closed ? "closed" : "open"}
+              onChange={(e) => updateRecurrence(index, { closed: e.target.value === "closed" })}
+              className={SELECT_CLASS}
+            >
+              <option value="open">Open</option>
+              <option value="closed">Closed</option>
+            </select>
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Weeks of the month">
+              {WEEK_OF_MONTH_OPTIONS.map((option) => {
+                const active = recurrence.weeks.includes(option.value);
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    aria-pressed={active}
+                    onClick={() =>
+                      updateRecurrence(index, {
+                        weeks: active
+                          ? recurrence.weeks.filter((week) => week !== option.value)
+                          : [...recurrence.weeks, option.value],
+                      })
+                    }
+                    className={`rounded-full border px-2 py-0.5 text-xs ${
+                      active
+                        ? "border-brand-400 bg-brand-50 text-brand-700 dark:border-brand-500 dark:bg-brand-900/30 dark:text-brand-200"
+                        : "border-slate-300 text-slate-500 dark:border-slate-600 dark:text-slate-400"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+            <select
+              aria-label="Day of week"
+              value={recurrence.day}
+              onChange={(e) => updateRecurrence(index, { day: Number(e.target.value) })}
+              className={SELECT_CLASS}
+            >
+              {WEEK_ORDER.map((day) => (
+                <option key={day} value={day}>
+                  {DAY_LABELS[day]}
+                </option>
+              ))}
+            </select>
+            {!recurrence.closed && (
+              <RangeInputs range={recurrence} onChange={(next) => updateRecurrence(index, next)} />
+            )}
+            <button
+              type="button"
+              aria-label="Remove rule"
+              onClick={() => onChange({ ...value, recurrences: value.recurrences.filter((_, i) => i !== index) })}
+              className={`ml-auto ${REMOVE_BUTTON_CLASS}`}
+            >
+              <XMarkIcon className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2 border-t border-slate-200 pt-3 dark:border-slate-700">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+            Closures &amp; special hours
+          </h4>
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...value,
+                exceptions: [...value.exceptions, { startDate: toCalendarDateString(new Date()), closed: true }],
+              })
+            }
+            className={ADD_BUTTON_CLASS}
+          >
+            + Add dates
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+          <input
+            type="checkbox"
+            checked={value.closedOnHolidays}
+            onChange={(e) => onChange({ ...value, closedOnHolidays: e.target.checked })}
+            className="h-4 w-4 rounded border-slate-300 text-brand-500 focus:ring-brand-400 dark:border-slate-600 dark:bg-slate-700"
+          />
+          Closed on federal holidays
+        </label>
+        {value.exceptions.map((exception, index) => (
+          <div key={index} className="space-y-2 rounded-lg bg-white p-2 dark:bg-slate-900/60">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="date"
+                aria-label="From"
+                value={exception.startDate}
+                onChange={(e) => updateException(index, { startDate: e.target.value })}
+                className={TIME_INPUT_CLASS}
+              />
+              <span className="text-xs text-slate-500 dark:text-slate-400 flex-shrink-0">through</span>
+              <input
+                type="date"
+                aria-label="Through (optional)"
+                value={exception.endDate ?? ""}
+                min={exception.startDate}
+                onChange={(e) => updateException(index, { endDate: e.target.value || null })}
+                className={TIME_INPUT_CLASS}
+              />
+              <button
+                type="button"
+                aria-label="Remove dates"
+                onClick={() => onChange({ ...value, exceptions: value.exceptions.filter((_, i) => i !== index) })}
+                className={`ml-auto ${REMOVE_BUTTON_CLASS}`}
+              >
+                <XMarkIcon className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                aria-label="Closed or special hours"
+                value={exception.closed ? "closed" : "open"}
+                onChange={(e) =>
+                  updateException(
+                    index,
+                    e.target.value === "closed"
+                      ? { closed: true }
+                      : { closed: false, openTime: exception.openTime ?? DEFAULT_HOURS_RANGE.openTime, closeTime: exception.closeTime ?? DEFAULT_HOURS_RANGE.closeTime },
+                  )
+                }
+                className={SELECT_CLASS}
+              >
+                <option value="closed">Closed</option>
+                <option value="open">Special hours</option>
+              </select>
+              {!exception.closed && <RangeInputs range={exception} onChange={(next) => updateException(index, next)} />}
+              <input
+                type="text"
+                placeholder="Note (e.g. Summer hours)"
+                value={exception.label ?? ""}
+                onChange={(e) => updateException(index, { label: e.target.value })}
+                className="min-w-[160px] flex-1 rounded border border-slate-300 px-2 py-1 text-sm text-slate-900 focus:border-brand-400 focus:ring-1 focus:ring-brand-400 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-100"
+              />
+            </div>
+            {exception.endDate && exception.endDate > exception.startDate && (
+              <div className="flex flex-wrap items-center gap-1" role="group" aria-label="Only on these days">
+                <span className="mr-1 text-xs text-slate-500 dark:text-slate-400">Only on</span>
+                {WEEK_ORDER.map((day) => {
+                  const days = exception.days ?? [];
+                  const active = days.includes(day);
+                  return (
+                    <button
+                      key={day}
+                      type="button"
+                      aria-pressed={active}
+                      onClick={() =>
+                        updateException(index, { days: active ? days.filter((d) => d !== day) : [...days, day] })
+                      }
+                      className={`rounded-full border px-2 py-0.5 text-xs ${
+                        active
+                          ? "border-brand-400 bg-brand-50 text-brand-700 dark:border-brand-500 dark:bg-brand-900/30 dark:text-brand-200"
+                          : "border-slate-300 text-slate-500 dark:border-slate-600 dark:text-slate-400"
+                      }`}
+                    >
+                      {DAY_LABELS[day].slice(0, 3)}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
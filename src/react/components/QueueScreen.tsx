@@ -2,6 +2,7 @@ import { useMemo, useState, useCallback } from "react";
 import { db } from "../../lib/reactDb";
 import { isAdminEmail } from "../../lib/admin";
 import { useCategories } from "../hooks/useCategories";
+import { auditTx } from "../lib/auditTx";
 import type {
   Organization,
   OrganizationModerationStatus,
@@ -258,9 +259,18 @@ export const QueueScreen = () => {
         if (org.hours && typeof org.hours === "object") {
           payload.hours = { ...org.hours, isUnverified: false };
         }
-        await db.transact(
+        await db.transact([
           db.tx.organizations[org.id].update(payload),
-        );
+          ...auditTx({
+            entity: "organizations",
+            recordId: org.id,
+            action: "update",
+            before: org,
+            after: payload,
+            actor: user?.email ?? null,
+            sourceDetail: "queue",
+          }),
+        ]);
       } catch (error) {
         console.error("Failed to approve organization", error);
         setActionError(
@@ -272,7 +282,7 @@ export const QueueScreen = () => {
         setProcessingId(null);
       }
     },
-    [],
+    [user?.email],
   );
 
   const handleDecline = useCallback(
@@ -280,7 +290,17 @@ export const QueueScreen = () => {
       setProcessingId(org.id);
       setActionError(null);
       try {
-        await db.transact(db.tx.organizations[org.id].delete());
+        await db.transact([
+          db.tx.organizations[org.id].delete(),
+          ...auditTx({
+            entity: "organizations",
+            recordId: org.id,
+            action: "delete",
+            before: org,
+            actor: user?.email ?? null,
+            sourceDetail: "queue",
+          }),
+        ]);
       } catch (error) {
         console.error("Failed to decline organization", error);
         setActionError(
@@ -292,7 +312,7 @@ export const QueueScreen = () => {
         setProcessingId(null);
       }
     },
-    [],
+    [user?.email],
   );
 
   const handlePostpone = useCallback(
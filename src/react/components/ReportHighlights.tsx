@@ -1,7 +1,15 @@
 import { useEffect, useMemo, useRef } from "react";
 
 import type { AreaId } from "../../types/areas";
+import type { Stat } from "../../types/stat";
 import type { SeriesByKind, StatBoundaryEntry } from "../hooks/useStats";
+import { formatStatMoe } from "../../lib/format";
+import {
+  aggregateStatSeries,
+  computeStatBaseline,
+  getAggregationWeightStatId,
+  getAggregationWeights,
+} from "../lib/statAggregation";
 
 type SupportedAreaKind = "ZIP" | "COUNTY";
 
@@ -22,6 +30,13 @@ interface ReportHighlightsProps {
   areaNameLookup: (kind: SupportedAreaKind, code: string) => string;
   statDataById: Map<string, Partial<Record<SupportedAreaKind, StatBoundaryEntry>>>;
   seriesByStatIdByKind: Map<string, SeriesByKind>;
+  statsById?: Map<string, Stat>;
+}
+
+interface BaselineWeighting {
+  name: string | null;
+  weights: Record<string, number> | null;
+  weightSeries?: SeriesEntry[];
 }
 
 const HIGHLIGHT_COLORS = ["#375bff", "#8f20f8", "#cf873f", "#ff7f00"];
@@ -33,7 +48,7 @@ type AreaEntry = {
   isPrimary: boolean;
 };
 
-type AreaMetric = AreaEntry & { value: number };
+type AreaMetric = AreaEntry & { value: number; moe?: number };
 
 const formatValueByType = (value: number, type: string): string => {
   if (!Number.isFinite(value)) return "—";
@@ -91,6 +106,7 @@ export const ReportHighlights = ({
   areaNameLookup,
   statDataById,
   seriesByStatIdByKind,
+  statsById,
 }: ReportHighlightsProps) => {
   const { primary, extras } = useMemo(
     () => buildAreaEntries(selectedKind, selectedCodes, supplementalAreas, areaNameLookup),
@@ -152,11 +168,18 @@ export const ReportHighlights = ({
 
         if (chosenAreas.length === 0) return null;
 
-        const dataEntries = Object.entries(primaryEntry.data || {}).filter(
-          (pair): pair is [string, number] => typeof pair[1] === "number" && Number.isFinite(pair[1]),
-        );
-        const pairs = dataEntries.map(([code, value]) => ({ code, value }));
-        const averagePrimary = pairs.length ? pairs.reduce((sum, pair) => sum + pair.value, 0) / pairs.length : 0;
+        const stat = statsById?.get(item.statId) ?? null;
+        const baselineWeighting: BaselineWeighting = {
+          name: stat?.name ?? null,
+          weights: getAggregationWeights(stat, selectedKind, statDataById),
+          weightSeries: seriesByStatIdByKind.get(getAggregationWeightStatId(stat))?.get(selectedKind),
+        };
+        const baseline = computeStatBaseline(primaryEntry.data, {
+          type: primaryEntry.type,
+          name: baselineWeighting.name,
+          weights: baselineWeighting.weights,
+        });
+        const averagePrimary = baseline?.value ?? 0;
 
         const areaMetrics: AreaMetric[] = [];
         for (const area of chosenAreas) {
@@ -164,7 +187,12 @@ export const ReportHighlights = ({
           if (!entryForKind) continue;
           const raw = entryForKind.data?.[area.code];
           if (typeof raw !== "number" || !Number.isFinite(raw)) continue;
-          areaMetrics.push({ ...area, value: raw });
+          const moe = entryForKind.marginOfError?.[area.code];
+          areaMetrics.push({
+            ...area,
+            value: raw,
+            ...(typeof moe === "number" && Number.isFinite(moe) ? { moe } : {}),
+          });
         }
         if (areaMetrics.length === 0) return null;
 
@@ -175,6 +203,7 @@ export const ReportHighlights = ({
             kind: area.kind,
             label: area.label,
             value: area.value,
+            moe: area.moe,
             selected: area.isPrimary,
           })),
         ].sort((a, b) => b.value - a.value || String(a.label).localeCompare(String(b.label)));
@@ -184,6 +213,8 @@ export const ReportHighlights = ({
           seriesByKind,
           areaMetrics,
           baseline: averagePrimary,
+          baselineIsEstimate: baseline?.aggregatable === false,
+          baselineWeighting,
           isLine: item.statId === expandedFirstId,
           bars,
           isLoading: false,
@@ -200,12 +231,21 @@ export const ReportHighlights = ({
           seriesByKind: Map<SupportedAreaKind, SeriesEntry[]>;
           areaMetrics: AreaMetric[];
           baseline: number;
+          baselineIsEstimate: boolean;
+          baselineWeighting: BaselineWeighting;
           isLine: boolean;
-          bars: { label: string; value: number; selected?: boolean; kind?: SupportedAreaKind; code?: string }[];
+          bars: {
+            label: string;
+            value: number;
+            moe?: number;
+            selected?: boolean;
+            kind?: SupportedAreaKind;
+            code?: string;
+          }[];
           isLoading: false;
         }
     >;
-  }, [baselineLabel, expandedFirstId, extras, items, primary, selectedKind, seriesByStatIdByKind, statDataById]);
+  }, [baselineLabel, expandedFirstId, extras, items, primary, selectedKind, seriesByStatIdByKind, statDataById, statsById]);
 
   return (
     <div className="mt-6">
@@ -237,12 +277,18 @@ export const ReportHighlights = ({
                     areaMetrics={card.areaMetrics}
                     seriesByKind={card.seriesByKind}
                     baselineLabel={baselineLabel}
+                    baselineWeighting={card.baselineWeighting}
                     valueType={card.item.type}
                   />
                 ) : (
                   <BarsMiniChart bars={card.bars} type={card.item.type} baselineLabel={baselineLabel} />
                 )}
               </div>
+              {!card.isLoading && card.baselineIsEstimate && (
+                <p className="mt-1 text-[10px] text-slate-400 dark:text-slate-500">
+                  Medians can't be combined across areas; {baselineLabel} is a population-weighted estimate.
+                </p>
+              )}
             </div>
           ))
         )}
@@ -264,11 +310,11 @@ const BarsMiniChart = ({
   type,
   baselineLabel,
 }: {
-  bars: { label: string; value: number; selected?: boolean }[];
+  bars: { label: string; value: number; moe?: number; selected?: boolean }[];
   type: string;
   baselineLabel: string;
 }) => {
-  const maxValue = Math.max(...bars.map((bar) => bar.value), 1);
+  const maxValue = Math.max(...bars.map((bar) => bar.value + (bar.moe ?? 0)), 1);
   return (
     <div>
       {bars.map((bar, idx) => {
@@ -279,14 +325,31 @@ const BarsMiniChart = ({
           ? `${HIGHLIGHT_COLORS[idx % HIGHLIGHT_COLORS.length]}CC`
           : "#94a3b880";
         const width = Math.max(0, Math.round((bar.value / maxValue) * 100));
+        const hasMoe = typeof bar.moe === "number" && bar.moe > 0;
+        const moeLow = hasMoe ? Math.max(0, ((bar.value - (bar.moe as number)) / maxValue) * 100) : 0;
+        const moeHigh = hasMoe ? Math.min(100, ((bar.value + (bar.moe as number)) / maxValue) * 100) : 0;
         return (
           <div key={`${bar.label}-${idx}`} className="mb-1.5 flex items-center gap-2">
             <span className="w-24 shrink-0 truncate text-[11px] text-slate-500 dark:text-slate-400">{bar.label}</span>
             <div className="relative h-3 flex-1 rounded bg-slate-100 dark:bg-slate-800">
               <div className="h-3 rounded" style={{ width: `${width}%`, background: color }} />
+              {hasMoe && (
+                <div
+                  className="absolute top-1/2 h-2 -translate-y-1/2 border-x border-slate-600/70 dark:border-slate-300/70"
+                  style={{ left: `${moeLow}%`, width: `${Math.max(0, moeHigh - moeLow)}%` }}
+                  aria-hidden="true"
+                >
+                  <div className="absolute inset-x-0 top-1/2 border-t border-slate-600/70 dark:border-slate-300/70" />
+                </div>
+              )}
             </div>
             <span className="ml-2 w-16 shrink-0 text-right text-[11px] tabular-nums text-slate-500 dark:text-slate-400">
               {formatValueByType(bar.value, type)}
+              {hasMoe && (
+                <span className="block text-[10px] text-slate-400 dark:text-slate-500">
+                  {formatStatMoe(bar.moe as number, bar.value, type)}
+                </span>
+              )}
             </span>
           </div>
         );
@@ -300,12 +363,14 @@ const LineMiniChart = ({
   areaMetrics,
   seriesByKind,
   baselineLabel,
+  baselineWeighting,
   valueType,
 }: {
   primaryKind: SupportedAreaKind | null;
   areaMetrics: AreaMetric[];
   seriesByKind: Map<SupportedAreaKind, SeriesEntry[]>;
   baselineLabel: string;
+  baselineWeighting: BaselineWeighting;
   valueType: string;
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -329,11 +394,14 @@ const LineMiniChart = ({
     const x = (i: number) => (dates.length <= 1 ? innerW / 2 : (i / (dates.length - 1)) * innerW);
 
     const allValues: number[] = [];
-    const baselinePoints = baselineSeries.map((entry) => {
-      const nums = Object.values(entry.data || {}).filter((value): value is number => typeof value === "number" && Number.isFinite(value));
-      const avg = nums.length ? nums.reduce((sum, value) => sum + value, 0) / nums.length : 0;
-      allValues.push(avg);
-      return avg;
+    const baselinePoints = aggregateStatSeries(baselineSeries, null, {
+      type: baselineSeries[0]?.type,
+      name: baselineWeighting.name,
+      weightSeries: baselineWeighting.weightSeries,
+      fallbackWeights: baselineWeighting.weights,
+    }).map((point) => {
+      allValues.push(point.value);
+      return point.value;
     });
 
     areaMetrics.forEach((area) => {
@@ -531,7 +599,7 @@ const LineMiniChart = ({
       overlay.removeEventListener("mousemove", handleMove);
       overlay.removeEventListener("mouseleave", handleLeave);
     };
-  }, [areaMetrics, baselineLabel, primaryKind, seriesByKind, valueType]);
+  }, [areaMetrics, baselineLabel, baselineWeighting, primaryKind, seriesByKind, valueType]);
 
   return <div ref={containerRef} className="relative w-full" />;
 };
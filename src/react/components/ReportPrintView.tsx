@@ -0,0 +1,158 @@
+import { useEffect } from "react";
+import { createPortal } from "react-dom";
+
+import type { Organization } from "../../types/organization";
+import type { CombinedDemographicsSnapshot } from "../hooks/useDemographics";
+import { formatStatValue } from "../../lib/format";
+import { Sparkline } from "./StatViz";
+import type { ReportComparisonRow } from "./reportPrint";
+
+interface ReportPrintViewProps {
+  title: string;
+  areaList: string | null;
+  generatedAt: Date;
+  mapImageUrl: string | null;
+  callouts: { label: string; value: string }[];
+  comparisonLabel: string;
+  rows: ReportComparisonRow[];
+  demographics: CombinedDemographicsSnapshot | null;
+  organizations: Organization[];
+  /** Called once the layout (and map snapshot, if any) is ready to print. */
+  onReady: () => void;
+}
+
+const formatDiff = (row: ReportComparisonRow): string => {
+  const sign = row.diff > 0 ? "+" : row.diff < 0 ? "-" : "";
+  const type = row.type === "percent_change" ? "percent" : row.type;
+  return `${sign}${formatStatValue(Math.abs(row.diff), type)}`;
+};
+
+// Print-only one-pager for the report screen. Rendered into a body-level portal
+// so the print stylesheet can hide the rest of the app; light colors only.
+export const ReportPrintView = ({
+  title,
+  areaList,
+  generatedAt,
+  mapImageUrl,
+  callouts,
+  comparisonLabel,
+  rows,
+  demographics,
+  organizations,
+  onReady,
+}: ReportPrintViewProps) => {
+  useEffect(() => {
+    if (!mapImageUrl) onReady();
+  }, [mapImageUrl, onReady]);
+
+  const breakdowns = demographics && !demographics.isMissing ? Array.from(demographics.breakdowns.entries()) : [];
+
+  return createPortal(
+    <div className="report-print-root bg-white text-[11px] leading-snug">
+      <header className="mb-3 flex items-end justify-between border-b border-slate-300 pb-2">
+        <div>
+          <h1 className="text-lg font-semibold">{title}</h1>
+          {areaList && <p className="text-[10px] text-slate-500">{areaList}</p>}
+        </div>
+        <p className="text-[10px] text-slate-500">Generated {generatedAt.toLocaleDateString()}</p>
+      </header>
+
+      {mapImageUrl && (
+        <img
+          src={mapImageUrl}
+          alt="Map of the selected area"
+          className="mb-3 max-h-[80mm] w-full rounded border border-slate-200 object-cover"
+          onLoad={onReady}
+          onError={onReady}
+        />
+      )}
+
+      <section className="mb-3 grid grid-cols-3 gap-2">
+        {callouts.map((callout) => (
+          <div key={callout.label} className="rounded border border-slate-200 px-3 py-2">
+            <p className="text-[9px] font-medium uppercase tracking-wide text-slate-500">{callout.label}</p>
+            <p className="text-sm font-semibold">{callout.value}</p>
+          </div>
+        ))}
+      </section>
+
+      <section className="mb-3 break-inside-avoid">
+        <h2 className="mb-1 text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+          Highlighted stats vs {comparisonLabel}
+        </h2>
+        {rows.length === 0 ? (
+          <p className="text-slate-500">No stat data for this selection.</p>
+        ) : (
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b border-slate-300 text-left text-[9px] uppercase tracking-wide text-slate-500">
+                <th className="py-1 font-medium">Stat</th>
+                <th className="py-1 text-right font-medium">Selection</th>
+                <th className="py-1 text-right font-medium">{comparisonLabel}</th>
+                <th className="py-1 text-right font-medium">Difference</th>
+                <th className="py-1 pl-3 font-medium">Trend</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.statId} className="border-b border-slate-100">
+                  <td className="py-1 pr-2">{row.name}</td>
+                  <td className="py-1 text-right font-semibold tabular-nums">{formatStatValue(row.selectedValue, row.type)}</td>
+                  <td className="py-1 text-right tabular-nums text-slate-600">{formatStatValue(row.comparisonValue, row.type)}</td>
+                  <td className="py-1 text-right tabular-nums text-slate-600">{formatDiff(row)}</td>
+                  <td className="py-1 pl-3">
+                    {row.trend.length > 1 ? (
+                      <div className="flex items-center gap-1 text-[9px] text-slate-500">
+                        <span>{row.trend[0].date}</span>
+                        <Sparkline points={row.trend} width={90} height={20} />
+                        <span>{row.trend[row.trend.length - 1].date}</span>
+                      </div>
+                    ) : (
+                      <span className="text-slate-400">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {breakdowns.length > 0 && (
+        <section className="mb-3 break-inside-avoid">
+          <h2 className="mb-1 text-[10px] font-semibold uppercase tracking-wide text-slate-500">Demographics</h2>
+          <div className="space-y-1.5">
+            {breakdowns.map(([key, group]) => (
+              <div key={key}>
+                <p className="font-medium">{key.charAt(0).toUpperCase() + key.slice(1)}</p>
+                <p className="text-slate-600">
+                  {group.segments.map((segment) => `${segment.label} ${Math.round(segment.valuePercent)}%`).join(" · ")}
+                </p>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section>
+        <h2 className="mb-1 text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+          Organizations in area ({organizations.length})
+        </h2>
+        {organizations.length === 0 ? (
+          <p className="text-slate-500">No organizations found in selection.</p>
+        ) : (
+          <ul className="columns-2 gap-4">
+            {organizations.map((org) => (
+              <li key={org.id} className="break-inside-avoid py-0.5">
+                <span className="font-medium">{org.name}</span>
+                <span className="text-slate-500"> · {org.category}</span>
+                {org.address && <span className="block text-[9px] text-slate-500">{org.address}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>,
+    document.body,
+  );
+};
@@ -1,10 +1,15 @@
-import { useMemo } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import type { AreaId } from "../../types/areas";
 import type { Organization } from "../../types/organization";
 import type { Stat } from "../../types/stat";
 import { ReportHighlights } from "./ReportHighlights";
+import { ReportPrintView } from "./ReportPrintView";
+import { buildReportComparisonRows, buildReportDocumentTitle } from "./reportPrint";
 import type { SeriesByKind, StatBoundaryEntry } from "../hooks/useStats";
+import type { CombinedDemographicsSnapshot } from "../hooks/useDemographics";
+import { getBaselineValues } from "../lib/drawnArea";
+import { aggregateStatValues, computeStatBaseline, getAggregationWeights } from "../lib/statAggregation";
 
 type SupportedAreaKind = "ZIP" | "COUNTY";
 
@@ -19,6 +24,14 @@ interface ReportScreenProps {
   statDataById: Map<string, Partial<Record<SupportedAreaKind, StatBoundaryEntry>>>;
   seriesByStatIdByKind: Map<string, SeriesByKind>;
   areaNameLookup: (kind: SupportedAreaKind, code: string) => string;
+  demographicsSnapshot?: CombinedDemographicsSnapshot | null;
+  /** PNG of the current map view for the printable report; omitted from the print when it fails. */
+  onCaptureMapSnapshot?: () => Promise<Blob>;
+}
+
+interface PrintJob {
+  mapImageUrl: string | null;
+  generatedAt: Date;
 }
 
 const comparisonLabelByKind: Record<SupportedAreaKind, string> = {
@@ -74,6 +87,8 @@ export const ReportScreen = ({
   statDataById,
   seriesByStatIdByKind,
   areaNameLookup,
+  demographicsSnapshot = null,
+  onCaptureMapSnapshot,
 }: ReportScreenProps) => {
   const primaryKind = activeKind;
 
@@ -94,7 +109,7 @@ export const ReportScreen = ({
 
   const header = useMemo(() => {
     if (!primaryKind || primaryCodes.length === 0) {
-      return { title: "Report", sub: "", list: null as string | null };
+      return { title: "Report", label: "", sub: "", list: null as string | null };
     }
     const labels = primaryCodes.map((code) => areaNameLookup(primaryKind, code) || code);
     const labelSuffix = primaryKind === "ZIP" ? "ZIPs" : "counties";
@@ -105,6 +120,7 @@ export const ReportScreen = ({
         : "";
     return {
       title: `Report · ${titleLabel}`,
+      label: titleLabel,
       sub,
       list: labels.length > 1 ? labels.join(", ") : null,
     };
@@ -215,14 +231,23 @@ export const ReportScreen = ({
     for (const [statId, byKind] of statDataById.entries()) {
       const entry = byKind?.[primaryKind];
       if (!entry) continue;
-      const values = Object.values(entry.data || {}).filter(
-        (value): value is number => typeof value === "number" && Number.isFinite(value),
-      );
+      const values = getBaselineValues(entry.data);
       if (values.length === 0) continue;
+      const stat = statsById.get(statId);
+      if (!stat) continue;
+      const aggregation = {
+        type: entry.type,
+        name: stat.name,
+        weights: getAggregationWeights(stat, primaryKind, statDataById),
+      };
+      const baseline = computeStatBaseline(entry.data, aggregation);
+      if (!baseline) continue;
       const min = Math.min(...values);
       const max = Math.max(...values);
-      const range = Math.max(0, max - min);
-      const comparisonAverage = values.reduce((sum, value) => sum + value, 0) / values.length;
+      // Summed counts are compared against that many average areas.
+      const scale = baseline.rule === "sum" ? primaryCodes.length : 1;
+      const range = Math.max(0, max - min) * scale;
+      const comparisonAverage = baseline.value * scale;
 
       let selectedValue = 0;
       if (primaryCodes.length === 1) {
@@ -230,15 +255,11 @@ export const ReportScreen = ({
         const value = entry.data?.[code];
         selectedValue = typeof value === "number" ? value : 0;
       } else {
-        const selectedValues = primaryCodes
-          .map((code) => entry.data?.[code])
-          .filter((value): value is number => typeof value === "number" && Number.isFinite(value));
-        if (selectedValues.length === 0) continue;
-        selectedValue = selectedValues.reduce((sum, value) => sum + value, 0) / selectedValues.length;
+        const selected = aggregateStatValues(entry.data, primaryCodes, aggregation);
+        if (!selected) continue;
+        selectedValue = selected.value;
       }
 
-      const stat = statsById.get(statId);
-      if (!stat) continue;
       const score =
         primaryCodes.length === 1
           ? range > 0
@@ -295,13 +316,76 @@ export const ReportScreen = ({
     });
   }, [orgCountyById, orgZipById, organizations, primaryCodes, primaryKind]);
 
+  const printRows = useMemo(() => {
+    if (!primaryKind || primaryCodes.length === 0) return [];
+    const statIds = [
+      ...highlightItems.map((item) => item.statId),
+      ...ranking.left.map((row) => row.statId),
+      ...ranking.right.map((row) => row.statId),
+    ];
+    return buildReportComparisonRows(statIds, primaryKind, primaryCodes, statsById, statDataById, seriesByStatIdByKind);
+  }, [highlightItems, primaryCodes, primaryKind, ranking, seriesByStatIdByKind, statDataById, statsById]);
+
+  const [printJob, setPrintJob] = useState<PrintJob | null>(null);
+  const printStartedRef = useRef(false);
+
+  const handleExportReport = useCallback(async () => {
+    if (printJob) return;
+    printStartedRef.current = false;
+    let mapImageUrl: string | null = null;
+    if (onCaptureMapSnapshot) {
+      try {
+        mapImageUrl = URL.createObjectURL(await onCaptureMapSnapshot());
+      } catch (error) {
+        console.warn("Map snapshot for report failed", error);
+      }
+    }
+    setPrintJob({ mapImageUrl, generatedAt: new Date() });
+  }, [onCaptureMapSnapshot, printJob]);
+
+  const handlePrintReady = useCallback(() => {
+    if (!printJob || printStartedRef.current) return;
+    printStartedRef.current = true;
+    const previousTitle = document.title;
+    document.title = buildReportDocumentTitle(header.label || "Report", printJob.generatedAt);
+    window.addEventListener(
+      "afterprint",
+      () => {
+        document.title = previousTitle;
+        setPrintJob(null);
+      },
+      { once: true },
+    );
+    window.print();
+  }, [header.label, printJob]);
+
+  // Release the map snapshot once the print job ends or the report unmounts.
+  useEffect(
+    () => () => {
+      if (printJob?.mapImageUrl) URL.revokeObjectURL(printJob.mapImageUrl);
+    },
+    [printJob],
+  );
+
   return (
     <section className="relative flex-1 overflow-y-auto bg-white dark:bg-slate-900">
       <div className="mx-auto w-full max-w-6xl px-6 py-6">
         <div className="mb-4">
           <div className="flex items-end justify-between">
             <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-100">{header.title}</h2>
-            <p className="text-sm text-slate-500 dark:text-slate-400">{header.sub}</p>
+            <div className="flex items-center gap-3">
+              <p className="text-sm text-slate-500 dark:text-slate-400">{header.sub}</p>
+              {primaryCodes.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => void handleExportReport()}
+                  disabled={printJob !== null}
+                  className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium text-slate-600 transition hover:border-brand-200 hover:text-brand-700 disabled:opacity-60 dark:border-slate-700 dark:text-slate-300"
+                >
+                  {printJob ? "Preparing…" : "Export report"}
+                </button>
+              )}
+            </div>
           </div>
           {header.list && <p className="mt-1 text-xs text-slate-400 dark:text-slate-500">{header.list}</p>}
         </div>
@@ -367,6 +451,7 @@ export const ReportScreen = ({
               areaNameLookup={areaNameLookup}
               statDataById={statDataById}
               seriesByStatIdByKind={seriesByStatIdByKind}
+              statsById={statsById}
             />
 
             <div className="mt-6">
@@ -458,6 +543,24 @@ export const ReportScreen = ({
           </>
         )}
       </div>
+      {printJob && (
+        <ReportPrintView
+          title={header.title}
+          areaList={header.list}
+          generatedAt={printJob.generatedAt}
+          mapImageUrl={printJob.mapImageUrl}
+          callouts={[
+            { label: "Population", value: calloutValues.population },
+            { label: "Average age", value: calloutValues.avgAge },
+            { label: "Married %", value: calloutValues.married },
+          ]}
+          comparisonLabel={comparisonLabel}
+          rows={printRows}
+          demographics={demographicsSnapshot}
+          organizations={orgsInSelection}
+          onReady={handlePrintReady}
+        />
+      )}
     </section>
   );
 };
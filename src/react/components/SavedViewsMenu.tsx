@@ -0,0 +1,254 @@
+import { useEffect, useRef, useState, type FormEvent, type KeyboardEvent } from "react";
+import {
+  BookmarkIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  PencilSquareIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { useLocale } from "../hooks/useLocale";
+import { MAX_SAVED_VIEWS, MAX_SAVED_VIEW_NAME_LENGTH, type SavedView } from "../lib/savedViews";
+
+export interface SavedViewsMenuProps {
+  views: SavedView[];
+  isLoading?: boolean;
+  onSave: (name: string) => void;
+  onOpen: (view: SavedView) => void;
+  onRename: (id: string, name: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onDelete: (id: string) => void;
+}
+
+const ICON_BUTTON_CLASS =
+  "inline-flex h-7 w-7 shrink-0 items-center justify-center rounded-md text-slate-400 transition hover:bg-slate-100 hover:text-slate-700 disabled:pointer-events-none disabled:opacity-30 dark:text-slate-500 dark:hover:bg-slate-800 dark:hover:text-slate-200";
+
+const INPUT_CLASS =
+  "min-w-0 flex-1 rounded-lg border border-slate-300 bg-white px-2.5 py-1.5 text-sm text-slate-800 outline-none focus:border-brand-400 focus:ring-2 focus:ring-brand-200 dark:border-slate-600 dark:bg-slate-950 dark:text-slate-100";
+
+// TopBar dropdown for the signed-in user's named map views: one click on a
+// name reopens it; the row buttons rename, reorder and delete.
+export const SavedViewsMenu = ({
+  views,
+  isLoading = false,
+  onSave,
+  onOpen,
+  onRename,
+  onMove,
+  onDelete,
+}: SavedViewsMenuProps) => {
+  const { t } = useLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draftName, setDraftName] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState("");
+  const [announcement, setAnnouncement] = useState("");
+  const menuRef = useRef<HTMLDivElement | null>(null);
+  const toggleRef = useRef<HTMLButtonElement | null>(null);
+  const renameInputRef = useRef<HTMLInputElement | null>(null);
+  const isFull = views.length >= MAX_SAVED_VIEWS;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      const menu = menuRef.current;
+      if (menu && event.target instanceof Node && !menu.contains(event.target)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) setRenamingId(null);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (renamingId) renameInputRef.current?.select();
+  }, [renamingId]);
+
+  const close = () => {
+    setIsOpen(false);
+    toggleRef.current?.focus();
+  };
+
+  const handleMenuKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== "Escape" || !isOpen || renamingId) return;
+    event.preventDefault();
+    close();
+  };
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    const name = draftName.trim();
+    if (!name || isFull) return;
+    onSave(name);
+    setDraftName("");
+    setAnnouncement(t("views.saved", { name }));
+  };
+
+  const handleOpen = (view: SavedView) => {
+    onOpen(view);
+    setAnnouncement(t("views.opened", { name: view.name }));
+    setIsOpen(false);
+  };
+
+  const startRename = (view: SavedView) => {
+    setRenamingId(view.id);
+    setRenameDraft(view.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameDraft.trim()) onRename(renamingId, renameDraft);
+    setRenamingId(null);
+  };
+
+  const handleRenameKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      commitRename();
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      setRenamingId(null);
+    }
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (!window.confirm(t("views.deleteConfirm", { name: view.name }))) return;
+    onDelete(view.id);
+  };
+
+  return (
+    <div className="relative shrink-0" ref={menuRef} onKeyDown={handleMenuKeyDown}>
+      <button
+        ref={toggleRef}
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1.5 text-sm font-medium transition ${
+          isOpen
+            ? "border-brand-200 bg-brand-50 text-brand-700 dark:border-slate-500 dark:bg-slate-800 dark:text-white"
+            : "border-slate-200 bg-white text-slate-700 hover:border-brand-200 hover:text-brand-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300 dark:hover:border-slate-500 dark:hover:text-white"
+        }`}
+        aria-expanded={isOpen}
+        aria-controls="saved-views-panel"
+      >
+        <BookmarkIcon className="h-4 w-4" aria-hidden="true" />
+        <span>{t("views.button")}</span>
+      </button>
+      <span className="sr-only" role="status" aria-live="polite">
+        {announcement}
+      </span>
+      {isOpen && (
+        <div
+          id="saved-views-panel"
+          className="absolute right-0 top-full z-50 mt-2 w-80 rounded-xl border border-slate-200 bg-white py-2 shadow-lg dark:border-slate-700 dark:bg-slate-900"
+        >
+          <h2 className="px-4 pb-1 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+            {t("views.title")}
+          </h2>
+          {isLoading ? (
+            <p className="px-4 py-2 text-sm text-slate-500 dark:text-slate-400">{t("views.loading")}</p>
+          ) : views.length === 0 ? (
+            <p className="px-4 py-2 text-xs text-slate-500 dark:text-slate-400">{t("views.empty")}</p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto">
+              {views.map((view, index) => (
+                <li key={view.id} className="flex items-center gap-1 px-2">
+                  {renamingId === view.id ? (
+                    <input
+                      ref={renameInputRef}
+                      type="text"
+                      value={renameDraft}
+                      maxLength={MAX_SAVED_VIEW_NAME_LENGTH}
+                      onChange={(event) => setRenameDraft(event.target.value)}
+                      onKeyDown={handleRenameKeyDown}
+                      onBlur={commitRename}
+                      aria-label={t("views.nameLabel")}
+                      className={`${INPUT_CLASS} my-0.5`}
+                    />
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleOpen(view)}
+                      aria-label={t("views.open", { name: view.name })}
+                      className="min-w-0 flex-1 truncate rounded-md px-2 py-2 text-left text-sm font-medium text-slate-700 transition-colors hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800"
+                    >
+                      {view.name}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => startRename(view)}
+                    disabled={renamingId === view.id}
+                    aria-label={t("views.rename", { name: view.name })}
+                    title={t("views.rename", { name: view.name })}
+                    className={ICON_BUTTON_CLASS}
+                  >
+                    <PencilSquareIcon className="h-4 w-4" aria-hidden="true" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onMove(view.id, -1)}
+                    disabled={index === 0}
+                    aria-label={t("views.moveUp", { name: view.name })}
+                    title={t("views.moveUp", { name: view.name })}
+                    className={ICON_BUTTON_CLASS}
+                  >
+                    <ChevronUpIcon className="h-4 w-4" aria-hidden="true" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onMove(view.id, 1)}
+                    disabled={index === views.length - 1}
+                    aria-label={t("views.moveDown", { name: view.name })}
+                    title={t("views.moveDown", { name: view.name })}
+                    className={ICON_BUTTON_CLASS}
+                  >
+                    <ChevronDownIcon className="h-4 w-4" aria-hidden="true" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(view)}
+                    aria-label={t("views.delete", { name: view.name })}
+                    title={t("views.delete", { name: view.name })}
+                    className={`${ICON_BUTTON_CLASS} hover:text-rose-600 dark:hover:text-rose-400`}
+                  >
+                    <TrashIcon className="h-4 w-4" aria-hidden="true" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleSave} className="mt-2 border-t border-slate-200 px-4 pt-3 dark:border-slate-700">
+            {isFull ? (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {t("views.limit", { count: MAX_SAVED_VIEWS })}
+              </p>
+            ) : (
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={draftName}
+                  maxLength={MAX_SAVED_VIEW_NAME_LENGTH}
+                  onChange={(event) => setDraftName(event.target.value)}
+                  placeholder={t("views.namePlaceholder")}
+                  aria-label={t("views.nameLabel")}
+                  className={INPUT_CLASS}
+                />
+                <button
+                  type="submit"
+                  disabled={!draftName.trim()}
+                  className="shrink-0 rounded-md border border-brand-500 bg-brand-500 px-3 py-1.5 text-xs font-medium text-white hover:bg-brand-600 disabled:opacity-50"
+                >
+                  {t("views.save")}
+                </button>
+              </div>
+            )}
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type React from "react";
 import { track } from "@vercel/analytics";
 import {
+  ArrowDownTrayIcon,
   Bars3Icon,
   BuildingOfficeIcon,
   ChartBarIcon,
@@ -14,14 +15,24 @@ import { DemographicsBar } from "./DemographicsBar";
 import { StatList } from "./StatList";
 import { IssueReportModal } from "./IssueReportModal";
 import type { Organization, OrganizationHours } from "../../types/organization";
-import type { Stat, StatRelationsByParent, StatRelationsByChild } from "../../types/stat";
+import {
+  getStatDisplayName,
+  type Stat,
+  type StatRelationsByParent,
+  type StatRelationsByChild,
+} from "../../types/stat";
 import { useCategories } from "../hooks/useCategories";
 import { useSidebarSearch, type SidebarSearchResult } from "../hooks/useSidebarSearch";
 import type { CombinedDemographicsSnapshot } from "../hooks/useDemographics";
 import type { SeriesByKind, StatBoundaryEntry } from "../hooks/useStats";
 import type { AreaId } from "../../types/areas";
 import type { TimeSelection } from "../lib/timeFilters";
-import { formatTimeSelection } from "../lib/timeFilters";
+import { formatTimeSelection, getOrganizationOpenStatus } from "../lib/timeFilters";
+import { ORG_EXPORT_FORMATS, type OrgExportFormat } from "../lib/orgExport";
+import { formatDistanceMiles, NEARBY_RADIUS_OPTIONS, type NearbyOrganization } from "../lib/nearbySearch";
+import { isOffline } from "../../lib/offlineStore";
+import { useLocale, type TranslateFn } from "../hooks/useLocale";
+import { queueOutboxItem, submitIssueReport } from "../lib/offlineOutbox";
 import { db } from "../../lib/reactDb";
 import { MAP_TOUR_TARGETS } from "../imperative/constants/mapTourTargets";
 import {
@@ -46,6 +57,14 @@ const MAX_LINE_AREA_SERIES = 6;
 
 type SelectedAreasMap = Partial<Record<SupportedAreaKind, string[]>>;
 type PinnedAreasMap = Partial<Record<SupportedAreaKind, string[]>>;
+type NearbyState = {
+  radiusMiles: number | null;
+  hasLocation: boolean;
+  isLocating: boolean;
+  locationError: string | null;
+  // Orgs inside the radius, closest first; null until there's a location and radius
+  results: NearbyOrganization[] | null;
+};
 type StatSummaryEntry = {
   type: string;
   date: string;
@@ -148,10 +167,15 @@ interface SidebarProps {
   forceShowOrgsKeepTabNonce?: number;
   // Time selection for filtering organizations by availability
   timeSelection?: TimeSelection | null;
+  // "Near me" radius search around the user's location or searched address
+  nearby?: NearbyState;
+  onNearbyRadiusChange?: (miles: number | null) => void;
   // Callback to clear the time filter
   onClearTimeFilter?: () => void;
   // Callback to change the time filter (open time selector)
   onChangeTimeFilter?: () => void;
+  // Download the currently filtered organizations in the chosen format
+  onExportOrganizations?: (format: OrgExportFormat) => void;
   // Current camera state for zoom level detection
   cameraState?: { center: [number, number]; zoom: number } | null;
   // Callback to zoom to a specific organization
@@ -229,8 +253,11 @@ export const Sidebar = ({
   forceShowOrgsNonce,
   forceShowOrgsKeepTabNonce,
   timeSelection,
+  nearby,
+  onNearbyRadiusChange,
   onClearTimeFilter,
   onChangeTimeFilter,
+  onExportOrganizations,
   cameraState,
   onZoomToOrg,
   selectionLabelOverride = null,
@@ -240,6 +267,7 @@ export const Sidebar = ({
   onTabChange,
   onCollapse,
 }: SidebarProps) => {
+  const { t } = useLocale();
   // Fetch categories from InstantDB
   const { sidebarCategories, getCategoryLabel } = useCategories();
 
@@ -373,29 +401,16 @@ export const Sidebar = ({
         locale: typeof navigator !== "undefined" ? navigator.language : null,
       };
 
-      const response = await fetch("/api/report-issue", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      });
-
-      let data: any = null;
-      try {
-        data = await response.json();
-      } catch {
-        // ignored
-      }
-
-      if (!response.ok) {
-        const message = typeof data?.error === "string" ? data.error : "Failed to submit issue report.";
-        throw new Error(message);
+      if (isOffline()) {
+        await queueOutboxItem("issue-report", payload);
+        setIssueFeedback(t("issue.queuedOffline"));
+        return;
       }
 
-      setIssueFeedback("Thanks for flagging this location. We'll review it shortly.");
+      await submitIssueReport(payload);
+      setIssueFeedback(t("issue.thanks"));
     },
-    [issueModalOrg, user],
+    [issueModalOrg, t, user],
   );
 
   const highlightedIds = new Set(highlightedOrganizationIds ?? []);
@@ -794,7 +809,7 @@ export const Sidebar = ({
     if (statChanged && nextSelectedStatId && !suppressAutoDefaultStatSearchLabel) {
       const selectedStat = statsById.get(nextSelectedStatId);
       if (selectedStat) {
-        nextSearchLabel = selectedStat.label || selectedStat.name;
+        nextSearchLabel = getStatDisplayName(selectedStat);
       }
     }
 
@@ -813,7 +828,7 @@ export const Sidebar = ({
     if (!nextSearchLabel && nextSelectedStatId && !suppressAutoDefaultStatSearchLabel) {
       const selectedStat = statsById.get(nextSelectedStatId);
       if (selectedStat) {
-        nextSearchLabel = selectedStat.label || selectedStat.name;
+        nextSearchLabel = getStatDisplayName(selectedStat);
       }
     }
 
@@ -879,9 +894,9 @@ export const Sidebar = ({
     // Direct org selection mode (clicked org centroids or small clusters)
     if (directOrgSelectionActive) {
       if (inSelection.length === 1) {
-        return "SELECTED";
+        return t("sidebar.selected");
       }
-      return "IN SELECTION";
+      return t("sidebar.inSelection");
     }
 
     // Area-based selection mode
@@ -890,22 +905,22 @@ export const Sidebar = ({
       const selectedCounty = selectedCounties[0];
       if (selectedZip && areaNameLookup) {
         const areaName = areaNameLookup("ZIP", selectedZip);
-        return areaName ? `IN ${areaName}` : `IN ${selectedZip}`;
+        return t("sidebar.inArea", { area: areaName || selectedZip });
       }
       if (selectedCounty && areaNameLookup) {
         const areaName = areaNameLookup("COUNTY", selectedCounty);
-        return areaName ? `IN ${areaName}` : `IN ${selectedCounty}`;
+        return t("sidebar.inArea", { area: areaName || selectedCounty });
       }
       // Fallback to code if no lookup function available
       if (selectedZip) {
-        return `IN ${selectedZip}`;
+        return t("sidebar.inArea", { area: selectedZip });
       }
       if (selectedCounty) {
-        return `IN ${selectedCounty}`;
+        return t("sidebar.inArea", { area: selectedCounty });
       }
     }
-    return "IN SELECTION";
-  }, [directOrgSelectionActive, inSelection.length, totalSelectedCount, selectedZips, selectedCounties, areaNameLookup]);
+    return t("sidebar.inSelection");
+  }, [directOrgSelectionActive, inSelection.length, totalSelectedCount, selectedZips, selectedCounties, areaNameLookup, t]);
 
   const visibleCount =
     typeof visibleInViewport === "number" ? visibleInViewport : inSelection.length + all.length;
@@ -914,6 +929,57 @@ export const Sidebar = ({
     ? inSelection.length + all.length + recent.length
     : visibleCount;
   const hasActiveTimeFilter = Boolean(timeSelection);
+  const [orgExportMenuOpen, setOrgExportMenuOpen] = useState(false);
+  const orgExportMenuRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    if (!orgExportMenuOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (orgExportMenuRef.current && !orgExportMenuRef.current.contains(e.target as Node)) {
+        setOrgExportMenuOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [orgExportMenuOpen]);
+  const renderOrgExportMenu = () =>
+    onExportOrganizations ? (
+      <div ref={orgExportMenuRef} className="relative ml-1">
+        <button
+          type="button"
+          onClick={() => setOrgExportMenuOpen((open) => !open)}
+          className="flex h-6 w-6 items-center justify-center rounded-md text-slate-400 hover:bg-slate-200 hover:text-slate-600 dark:text-slate-500 dark:hover:bg-slate-700 dark:hover:text-slate-300"
+          title={t("sidebar.exportOrgs")}
+          aria-haspopup="menu"
+          aria-expanded={orgExportMenuOpen}
+        >
+          <ArrowDownTrayIcon className="h-4 w-4" />
+        </button>
+        {orgExportMenuOpen && (
+          <div
+            role="menu"
+            className="absolute right-0 top-full z-20 mt-1 w-48 rounded-lg border border-slate-200 bg-white py-1 shadow-lg dark:border-slate-700 dark:bg-slate-900"
+          >
+            <p className="px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-400 dark:text-slate-500">
+              {t("sidebar.exportFilteredOrgs")}
+            </p>
+            {ORG_EXPORT_FORMATS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                role="menuitem"
+                onClick={() => {
+                  setOrgExportMenuOpen(false);
+                  onExportOrganizations(option.value);
+                }}
+                className="block w-full px-3 py-1.5 text-left text-xs font-medium text-slate-600 transition hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800"
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    ) : null;
   const renderTimeFilterBanner = () => (
     <div
       className={`mx-4 mt-3 rounded-lg px-3 py-2 ${
@@ -933,7 +999,7 @@ export const Sidebar = ({
               ? "hover:bg-brand-100 dark:hover:bg-brand-800/50 disabled:hover:bg-transparent"
               : "hover:bg-slate-200 dark:hover:bg-slate-700/70 disabled:hover:bg-transparent"
           }`}
-          title={hasActiveTimeFilter ? "Change time filter" : "Filter by hours of operation"}
+          title={hasActiveTimeFilter ? t("sidebar.changeTimeFilter") : t("sidebar.filterByHours")}
         >
           <svg
             className={`h-4 w-4 ${
@@ -956,8 +1022,8 @@ export const Sidebar = ({
             }`}
           >
             {hasActiveTimeFilter
-              ? `Only orgs open at ${formatTimeSelection(timeSelection ?? null)}`
-              : "Filter by hours of operation"}
+              ? t("sidebar.onlyOpenAt", { time: formatTimeSelection(timeSelection ?? null) })
+              : t("sidebar.filterByHours")}
           </span>
         </button>
         {hasActiveTimeFilter && onClearTimeFilter ? (
@@ -968,7 +1034,7 @@ export const Sidebar = ({
               onClearTimeFilter();
             }}
             className="flex h-6 w-6 items-center justify-center rounded-md text-brand-600 hover:bg-brand-200 hover:text-brand-800 dark:text-brand-400 dark:hover:bg-brand-800 dark:hover:text-brand-200"
-            title="Clear time filter"
+            title={t("sidebar.clearTimeFilter")}
           >
             <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none">
               <path
@@ -981,9 +1047,48 @@ export const Sidebar = ({
             </svg>
           </button>
         ) : null}
+        {renderOrgExportMenu()}
       </div>
     </div>
   );
+  const nearbyRadiusMiles = nearby?.radiusMiles ?? null;
+  const nearbyResults = nearbyRadiusMiles !== null ? nearby?.results ?? null : null;
+  const nearbyStatusText = nearby?.isLocating
+    ? t("nearby.locating")
+    : nearbyRadiusMiles !== null && !nearby?.hasLocation
+    ? nearby?.locationError ?? t("nearby.needLocation")
+    : null;
+  const renderNearbyBar = () =>
+    onNearbyRadiusChange ? (
+      <div className="mx-4 mt-3 flex flex-wrap items-center gap-1.5">
+        <span className="mr-1 inline-flex items-center gap-1 text-xs font-medium text-slate-500 dark:text-slate-400">
+          <MapPinIcon className="h-4 w-4" aria-hidden="true" />
+          {t("nearby.label")}
+        </span>
+        {NEARBY_RADIUS_OPTIONS.map((miles) => {
+          const isActive = nearbyRadiusMiles === miles;
+          return (
+            <button
+              key={miles}
+              type="button"
+              aria-pressed={isActive}
+              onClick={() => onNearbyRadiusChange(isActive ? null : miles)}
+              className={`rounded-full px-2.5 py-0.5 text-xs font-medium transition-colors ${
+                isActive
+                  ? "bg-brand-100 text-brand-800 dark:bg-brand-800/60 dark:text-brand-100"
+                  : "bg-slate-100/60 text-slate-500 hover:bg-slate-200 dark:bg-slate-800/40 dark:text-slate-400 dark:hover:bg-slate-700/70"
+              }`}
+              title={isActive ? t("nearby.stopSorting") : t("nearby.withinTitle", { miles })}
+            >
+              {t("nearby.miles", { miles })}
+            </button>
+          );
+        })}
+        {nearbyStatusText ? (
+          <p className="w-full pt-1 text-xs text-slate-400 dark:text-slate-500">{nearbyStatusText}</p>
+        ) : null}
+      </div>
+    ) : null;
   useEffect(() => {
     if (activeTab !== "orgs") return;
     const node = orgsScrollRef.current;
@@ -1268,7 +1373,7 @@ export const Sidebar = ({
         ? "border-brand-500 bg-slate-100 text-brand-700 dark:bg-slate-800 dark:text-brand-300"
         : "border-transparent text-slate-500 hover:text-brand-700 hover:bg-slate-100/70 dark:text-slate-500 dark:hover:bg-slate-800/70"
     }`;
-  const selectedCategoryLabel = categoryFilter ? getCategoryLabel(categoryFilter as any) : "All Categories";
+  const selectedCategoryLabel = categoryFilter ? getCategoryLabel(categoryFilter as any) : t("sidebar.allCategories");
   const categoryToolbarLabel = categoryFilter
     ? abbreviateCategoryFilterLabel(selectedCategoryLabel)
     : selectedCategoryLabel;
@@ -1278,8 +1383,8 @@ export const Sidebar = ({
   );
   const selectedStatLabel =
     selectedStatRow && (selectedStatRow.label || selectedStatRow.name)
-      ? selectedStatRow.label || selectedStatRow.name
-      : "the current statistic";
+      ? getStatDisplayName(selectedStatRow)
+      : t("sidebar.currentStatistic");
   const selectedStatCategory = selectedStatRow?.category ?? null;
 
   const handleCategorySelectionRequest = useCallback(
@@ -1453,7 +1558,7 @@ export const Sidebar = ({
                   handleSearchResultSelect(highlightedSearchResult ?? searchResults[0]);
                 }
               }}
-              placeholder="Stats, orgs, cities, zips, addresses..."
+              placeholder={t("sidebar.searchPlaceholder")}
               className="search-input-brand-cancel h-8 w-full rounded-lg border border-slate-200 bg-white pl-9 pr-3 text-sm text-slate-700 placeholder:font-light placeholder:text-slate-300 shadow-sm outline-none transition focus:border-brand-300 focus:ring-2 focus:ring-brand-100 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:placeholder:text-slate-400 dark:focus:border-brand-600 dark:focus:ring-brand-900/40"
             />
           </label>
@@ -1462,7 +1567,7 @@ export const Sidebar = ({
             type="button"
             onClick={() => onCollapse?.(!collapsed)}
             className="flex h-8 w-8 shrink-0 items-center justify-center rounded-lg border border-slate-200 bg-white text-slate-300 shadow-sm transition hover:border-slate-300 hover:text-slate-400 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-400 dark:hover:border-slate-500 dark:hover:text-slate-300"
-            title={collapsed ? "Expand sidebar" : "Collapse sidebar"}
+            title={collapsed ? t("sidebar.expand") : t("sidebar.collapse")}
           >
             {collapsed ? <Bars3Icon className="h-4 w-4" /> : <XMarkIcon className="h-4 w-4" />}
           </button>
@@ -1523,13 +1628,13 @@ export const Sidebar = ({
             className={tabClasses(activeTab === "orgs")}
             onClick={() => handleTabChange("orgs")}
           >
-            <span className="whitespace-nowrap">Orgs ({countForTab})</span>
+            <span className="whitespace-nowrap">{t("sidebar.orgsTab", { count: countForTab })}</span>
             {/* Keep Orgs On Map Toggle */}
             <span
               role="switch"
               aria-checked={keepOrgsOnMap}
-              aria-label="Keep Orgs On Map"
-              title="Keep Orgs On Map"
+              aria-label={t("sidebar.keepOrgsOnMap")}
+              title={t("sidebar.keepOrgsOnMap")}
               tabIndex={0}
               className={`relative inline-flex h-3 w-6 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-brand-500 ${
                 keepOrgsOnMap ? "bg-brand-500" : "bg-slate-300 dark:bg-slate-500"
@@ -1559,14 +1664,14 @@ export const Sidebar = ({
               handleTabChange("stats");
             }}
           >
-            <span>Stats</span>
+            <span>{t("sidebar.statsTab")}</span>
             {variant === "desktop" && (
               <span
                 role="switch"
                 aria-checked={showAdvanced}
-                aria-label="Advanced areas data"
+                aria-label={t("sidebar.advancedAreas")}
                 data-ne-tour-target={MAP_TOUR_TARGETS.sidebarAdvancedToggle}
-                title="Advanced areas data"
+                title={t("sidebar.advancedAreas")}
                 tabIndex={0}
                 className={`relative inline-flex h-3 w-6 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-brand-500 ${
                   showAdvanced ? "bg-brand-500" : "bg-slate-300 dark:bg-slate-500"
@@ -1607,7 +1712,7 @@ export const Sidebar = ({
                       ? "bg-brand-50 text-brand-600 hover:bg-brand-100 dark:bg-brand-400/10 dark:text-brand-300 dark:hover:bg-brand-400/20"
                       : "bg-slate-50/80 text-slate-400 hover:bg-slate-100 dark:bg-slate-800/60 dark:text-slate-500 dark:hover:bg-slate-700"
                   }`}
-                  title={`Change category filter (${selectedCategoryLabel})`}
+                  title={t("sidebar.changeCategory", { category: selectedCategoryLabel })}
                 >
                   <span className="whitespace-nowrap">{categoryToolbarLabel}</span>
                   <svg
@@ -1630,7 +1735,7 @@ export const Sidebar = ({
                       }}
                       className={`block w-full px-3 py-1.5 text-left text-xs transition hover:bg-slate-100 dark:hover:bg-slate-800 ${!categoryFilter ? "bg-slate-100 font-semibold text-slate-800 dark:bg-slate-800 dark:text-slate-100" : "font-medium text-slate-600 dark:text-slate-300"}`}
                     >
-                      All Categories
+                      {t("sidebar.allCategories")}
                     </button>
                     {sidebarCategories.map((cat) => (
                       <button
@@ -1645,7 +1750,7 @@ export const Sidebar = ({
                             : "font-medium text-slate-600 dark:text-slate-300"
                         }`}
                       >
-                        {cat.label}
+                        {getCategoryLabel(cat.slug)}
                       </button>
                     ))}
                   </div>
@@ -1658,7 +1763,7 @@ export const Sidebar = ({
                     handleCategorySelectionRequest(null);
                   }}
                   className="flex h-6 w-6 items-center justify-center rounded-md bg-brand-50 text-brand-600 hover:bg-brand-100 dark:bg-brand-400/10 dark:text-brand-300 dark:hover:bg-brand-400/20"
-                  title="Clear category filter"
+                  title={t("sidebar.clearCategoryFilter")}
                 >
                   <svg className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor">
                     <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
@@ -1668,8 +1773,10 @@ export const Sidebar = ({
               {pendingCategorySwitch && (
                 <div className="absolute right-0 top-full z-50 mt-1 w-64 rounded-md border border-amber-200 bg-white p-3 text-slate-700 shadow-lg dark:border-amber-400/30 dark:bg-slate-900 dark:text-slate-200">
                   <p className="text-xs leading-relaxed">
-                    Switching to <span className="font-semibold">{pendingCategorySwitch.label}</span> will remove{" "}
-                    <span className="font-semibold">{selectedStatLabel}</span> from the map.
+                    {t("sidebar.categorySwitchWarning", {
+                      category: pendingCategorySwitch.label,
+                      stat: selectedStatLabel,
+                    })}
                   </p>
                   <div className="mt-2 flex justify-end gap-2">
                     <button
@@ -1677,14 +1784,14 @@ export const Sidebar = ({
                       onClick={handleCancelCategorySwitch}
                       className="rounded-md border border-slate-200 px-2 py-1 text-[11px] font-medium text-slate-600 transition hover:bg-slate-100 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800"
                     >
-                      Cancel
+                      {t("common.cancel")}
                     </button>
                     <button
                       type="button"
                       onClick={handleConfirmCategorySwitch}
                       className="rounded-md bg-brand-500 px-2 py-1 text-[11px] font-semibold text-white transition hover:bg-brand-600"
                     >
-                      Continue
+                      {t("common.continue")}
                     </button>
                   </div>
                 </div>
@@ -1750,6 +1857,8 @@ export const Sidebar = ({
               hoveredArea={hoveredArea}
               onHoverArea={onHoverArea}
               getZipParentCounty={getZipParentCounty}
+              onAddAreas={onAddAreas}
+              onRemoveArea={onRemoveArea}
             />
           </div>
         )}
@@ -1761,18 +1870,58 @@ export const Sidebar = ({
             onScroll={handleOrgsScroll}
             className="flex min-h-0 flex-1 flex-col overflow-y-auto"
           >
-            {categoryFilteredCount === 0 && !searchPinnedOrg ? (
+            {renderNearbyBar()}
+            {nearbyResults ? (
+              <div className="flex-1">
+                {renderTimeFilterBanner()}
+                <h3 className="px-8 pt-4 pb-2 text-[10px] font-semibold uppercase tracking-wide text-slate-400 dark:text-slate-500">
+                  {t("nearby.withinHeading", { miles: nearbyRadiusMiles ?? 0, count: nearbyResults.length })}
+                </h3>
+                {nearbyResults.length === 0 ? (
+                  <p className="px-4 pb-6 text-sm text-slate-500 dark:text-slate-400">
+                    {timeSelection
+                      ? t("nearby.noneOpen", { miles: nearbyRadiusMiles ?? 0 })
+                      : t("nearby.none", { miles: nearbyRadiusMiles ?? 0 })}
+                  </p>
+                ) : (
+                  <ul className="space-y-2 px-4 pb-6">
+                    {nearbyResults.map(({ org, miles }) => (
+                      <OrganizationListItem
+                        key={org.id}
+                        org={org}
+                        distanceMiles={miles}
+                        isSelected={selectedOrgIdsSet.has(org.id)}
+                        isHighlighted={highlightedIds.has(org.id)}
+                        isExpanded={expandedOrgId === org.id}
+                        onHover={onHover}
+                        onCategoryClick={onCategoryClick}
+                        onOrganizationClick={handleSidebarOrgRowClick}
+                        onToggleExpand={(id) =>
+                          setExpandedOrgId((prev) => (prev === id ? null : id))
+                        }
+                        onIssueClick={handleOpenIssueModal}
+                        showZoomButton={shouldShowZoomButton(org.id)}
+                        onZoomClick={onZoomToOrg}
+                        hideCategoryTag={hideCategoryTags}
+                        selectionStyleVariant={selectionStyleVariant}
+                        getCategoryLabel={getCategoryLabel}
+                      />
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ) : categoryFilteredCount === 0 && !searchPinnedOrg ? (
               categoryFilter ? (
                 <div className="pb-6">
                   {renderTimeFilterBanner()}
                   <div className="px-4 pt-3 text-sm text-slate-500 dark:text-slate-400">
-                  <p className="mb-2">No organizations yet for this category.</p>
+                  <p className="mb-2">{t("sidebar.noOrgsInCategory")}</p>
                   <button
                     type="button"
                     onClick={() => handleCategoryChange(null)}
                     className="inline-flex items-center gap-1 rounded-full border border-slate-300 px-3 py-1 text-xs font-medium text-slate-600 hover:bg-slate-100 dark:border-slate-600 dark:text-slate-200 dark:hover:bg-slate-800"
                   >
-                    Clear category
+                    {t("sidebar.clearCategory")}
                   </button>
                   </div>
                 </div>
@@ -1780,7 +1929,7 @@ export const Sidebar = ({
                 <div className="pb-6">
                   {renderTimeFilterBanner()}
                   <p className="px-4 pt-3 text-sm text-slate-500 dark:text-slate-400">
-                    No organizations found. Add one to get started.
+                    {t("sidebar.noOrgs")}
                   </p>
                 </div>
               )
@@ -1792,7 +1941,7 @@ export const Sidebar = ({
               <div className="pb-6">
                 {renderTimeFilterBanner()}
                 <p className="px-4 pt-3 text-sm text-slate-500 dark:text-slate-400">
-                  No organizations are open at the selected time.
+                  {t("sidebar.noneOpen")}
                 </p>
               </div>
             ) : (
@@ -1802,7 +1951,7 @@ export const Sidebar = ({
                 {showSelectedSection && searchPinnedOrg && (
                   <>
                     <h3 className="px-8 pt-3 pb-2 text-[10px] font-semibold uppercase tracking-wide text-slate-400 dark:text-slate-500">
-                      SELECTED
+                      {t("sidebar.selected")}
                     </h3>
                     <ul className="space-y-2 px-4">
                       <OrganizationListItem
@@ -1832,7 +1981,7 @@ export const Sidebar = ({
                 {showRecentSection && (
                   <>
                     <h3 className="px-8 pt-3 pb-2 text-[10px] font-semibold uppercase tracking-wide text-slate-400 dark:text-slate-500">
-                      RECENTLY ADDED
+                      {t("sidebar.recentlyAdded")}
                     </h3>
                     <ul className="space-y-2 px-4">
                       {visibleRecent.map((org) => (
@@ -1897,7 +2046,7 @@ export const Sidebar = ({
                 {/* All Section */}
                 {showAllSectionHeading && (
                   <h3 className="px-8 pt-4 pb-2 text-[10px] font-semibold uppercase tracking-wide text-slate-400 dark:text-slate-500">
-                    ALL
+                    {t("sidebar.all")}
                   </h3>
                 )}
                 <ul className={`space-y-2 px-4 pb-6 ${showAllSectionHeading ? "" : "pt-2"}`}>
@@ -1985,26 +2134,45 @@ interface OrganizationListItemProps {
   hideCategoryTag?: boolean;
   selectionStyleVariant?: "default" | "searchResults";
   getCategoryLabel: (slug: string) => string;
+  // Miles from the "near me" center, shown when sorting by distance
+  distanceMiles?: number | null;
 }
 
-const renderHours = (hours: OrganizationHours | null | undefined) => {
-  const lines = formatHoursLines(hours);
+const renderHours = (hours: OrganizationHours | null | undefined, t: TranslateFn) => {
+  const now = new Date();
+  const lines = formatHoursLines(hours, now);
   if (lines.length === 0) return null;
   const isUnverified = hours?.isUnverified;
   const statusLabel =
     typeof hours?.status === "string" && hours.status.trim().length > 0
       ? hours.status
       : null;
+  const openStatus = getOrganizationOpenStatus(hours, now);
 
   return (
     <div className="mt-3 rounded-lg bg-slate-50 px-3 py-2 text-xs text-slate-600 dark:bg-slate-800/60 dark:text-slate-300">
       <div className="mb-1 flex items-center justify-between text-[11px] font-semibold uppercase tracking-wide text-slate-400 dark:text-slate-500">
-        <span>Hours</span>
+        <span>{t("org.hours")}</span>
         <div className="flex items-center gap-2">
+          {openStatus ? (
+            <span
+              className={
+                openStatus.isOpen
+                  ? "normal-case text-emerald-600 dark:text-emerald-400"
+                  : "normal-case text-slate-500 dark:text-slate-400"
+              }
+            >
+              {openStatus.isOpen
+                ? t("org.openNow")
+                : openStatus.closedReason
+                ? t("org.closedToday", { reason: openStatus.closedReason })
+                : t("org.closedNow")}
+            </span>
+          ) : null}
           {statusLabel ? <span className="capitalize text-slate-400">{statusLabel.toLowerCase()}</span> : null}
           {isUnverified ? (
             <span className="rounded bg-amber-100 px-2 py-[1px] text-[10px] font-medium uppercase tracking-wide text-amber-800 dark:bg-amber-400/20 dark:text-amber-200">
-              Unverified
+              {t("org.unverified")}
             </span>
           ) : null}
         </div>
@@ -2035,7 +2203,9 @@ const OrganizationListItem = ({
   hideCategoryTag = false,
   selectionStyleVariant = "default",
   getCategoryLabel,
+  distanceMiles = null,
 }: OrganizationListItemProps) => {
+  const { t } = useLocale();
   const lastClickTimeRef = useRef<number>(0);
   const categoryLabel = typeof org.category === "string" ? getCategoryLabel(org.category) : null;
   const showCategoryChip = Boolean(!hideCategoryTag && categoryLabel);
@@ -2129,10 +2299,17 @@ const OrganizationListItem = ({
             </span>
           )}
         </div>
-        {annualRevenueLabel && (
+        {typeof distanceMiles === "number" ? (
+          <span
+            className="shrink-0 pt-0.5 text-[11px] font-medium text-brand-700 dark:text-brand-300"
+            title={t("org.straightLineDistance")}
+          >
+            {formatDistanceMiles(distanceMiles)}
+          </span>
+        ) : annualRevenueLabel && (
           <span
             className="shrink-0 pt-0.5 text-[11px] font-light text-slate-400 dark:text-slate-500"
-            title="ProPublica reported annual revenue"
+            title={t("org.annualRevenue")}
           >
             {annualRevenueLabel}
           </span>
@@ -2162,7 +2339,7 @@ const OrganizationListItem = ({
       )}
       {org.phone && (
         <p className="mt-1 text-xs font-light text-slate-400 dark:text-slate-500">
-          <span className="font-medium text-slate-400 dark:text-slate-500">Phone:</span>{" "}
+          <span className="font-medium text-slate-400 dark:text-slate-500">{t("org.phone")}</span>{" "}
           <a
             href={`tel:${org.phone}`}
             className="hover:underline"
@@ -2183,7 +2360,7 @@ const OrganizationListItem = ({
               className="inline-flex items-center gap-1 text-xs font-medium text-slate-400 transition-colors hover:text-brand-900 dark:text-slate-300 dark:hover:text-slate-100"
               onClick={(event) => event.stopPropagation()}
             >
-              Website
+              {t("org.website")}
               <span aria-hidden="true" className="text-[1em] leading-none">
                 ↗
               </span>
@@ -2215,9 +2392,9 @@ const OrganizationListItem = ({
                 event.stopPropagation();
                 onZoomClick?.(org.id);
               }}
-              aria-label="Zoom to location"
+              aria-label={t("org.zoomToLocation")}
             >
-              Zoom
+              {t("org.zoom")}
             </button>
           )}
           <button
@@ -2228,7 +2405,7 @@ const OrganizationListItem = ({
               onIssueClick?.(org);
             }}
           >
-            Issue?
+            {t("org.issue")}
           </button>
           {formatHoursLines(org.hours).length > 0 ? (
             <button
@@ -2239,12 +2416,12 @@ const OrganizationListItem = ({
                 handleToggleExpandOnly();
               }}
             >
-              Hours
+              {t("org.hours")}
             </button>
           ) : null}
         </div>
       </div>
-      {isExpanded ? renderHours(org.hours) : null}
+      {isExpanded ? renderHours(org.hours, t) : null}
     </li>
   );
 };
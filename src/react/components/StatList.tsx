@@ -1,12 +1,14 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { MagnifyingGlassIcon, XMarkIcon } from "@heroicons/react/24/outline";
 import type { Stat, StatRelation, StatRelationsByParent, StatRelationsByChild } from "../../types/stat";
 import { UNDEFINED_STAT_ATTRIBUTE } from "../../types/stat";
 import { formatStatValue } from "../../lib/format";
 import type { SeriesByKind, StatBoundaryEntry } from "../hooks/useStats";
 import { computeSimilarityFromNormalized, normalizeForSearch } from "../lib/fuzzyMatch";
+import { computeStatBaseline, getAggregationWeights } from "../lib/statAggregation";
 import { CustomSelect } from "./CustomSelect";
 import { useCategories } from "../hooks/useCategories";
+import { useLocale } from "../hooks/useLocale";
 import { StatViz } from "./StatViz";
 import type { AreaId } from "../../types/areas";
 import { MAP_TOUR_TARGETS } from "../imperative/constants/mapTourTargets";
@@ -15,13 +17,14 @@ const STAT_SEARCH_MATCH_THRESHOLD = 0.4;
 const STAT_META_COLLAPSED_MAX_HEIGHT_PX = 48;
 const SOURCE_ORIGINAL_PREVIEW_MAX_WORDS = 4;
 
-// Compute average of all values in a boundary entry (used for context average display)
-const computeContextAverage = (entry: StatBoundaryEntry | undefined): number => {
+// Average of all values in a boundary entry, weighted per the stat's aggregation rule (context average display)
+const computeContextAverage = (
+  entry: StatBoundaryEntry | undefined,
+  name: string | null,
+  weights: Record<string, number> | null,
+): number => {
   if (!entry?.data) return 0;
-  const values = Object.values(entry.data);
-  const nums = values.filter((v): v is number => typeof v === "number" && Number.isFinite(v));
-  if (nums.length === 0) return 0;
-  return nums.reduce((sum, v) => sum + v, 0) / nums.length;
+  return computeStatBaseline(entry.data, { type: entry.type, name, weights })?.value ?? 0;
 };
 
 type SupportedAreaKind = "ZIP" | "COUNTY";
@@ -82,6 +85,8 @@ interface StatListProps {
   hoveredArea?: AreaId | null;
   onHoverArea?: (area: AreaId | null) => void;
   getZipParentCounty?: (zipCode: string) => { code: string; name: string } | null;
+  onAddAreas?: (kind: SupportedAreaKind, ids: string[]) => void;
+  onRemoveArea?: (area: { kind: SupportedAreaKind; id: string }) => void;
 }
 
 const SUPPORTED_KINDS: SupportedAreaKind[] = ["ZIP", "COUNTY"];
@@ -186,10 +191,21 @@ export const StatList = ({
   hoveredArea = null,
   onHoverArea,
   getZipParentCounty,
+  onAddAreas,
+  onRemoveArea,
 }: StatListProps) => {
   const { getCategoryLabel } = useCategories();
+  const { t } = useLocale();
   const showStatSearch = variant === "mobile";
   const areaEntries = useMemo(() => buildAreaEntries(selectedAreas), [selectedAreas]);
+  const handleToggleArea = useCallback(
+    (area: AreaId, selected: boolean) => {
+      if (area.kind !== "ZIP" && area.kind !== "COUNTY") return;
+      if (selected) onAddAreas?.(area.kind, [area.id]);
+      else onRemoveArea?.({ kind: area.kind, id: area.id });
+    },
+    [onAddAreas, onRemoveArea],
+  );
   const [searchQuery, setSearchQuery] = useState("");
   const normalizedQuery = useMemo(() => normalizeForSearch(searchQuery), [searchQuery]);
   const effectiveNormalizedQuery = showStatSearch ? normalizedQuery : "";
@@ -383,11 +399,10 @@ export const StatList = ({
     const preferCounty = effectiveAreaKind === "COUNTY";
 
     // Get the appropriate boundary entry
-    const entry = entryMap
-      ? (preferCounty
-          ? (entryMap.COUNTY ?? entryMap.ZIP)
-          : (entryMap.ZIP ?? entryMap.COUNTY))
-      : undefined;
+    const entryKind: SupportedAreaKind = preferCounty
+      ? (entryMap?.COUNTY ? "COUNTY" : "ZIP")
+      : (entryMap?.ZIP ? "ZIP" : "COUNTY");
+    const entry = entryMap?.[entryKind];
 
     // Get fallback from summary if no entry
     const summary = preferCounty
@@ -397,7 +412,12 @@ export const StatList = ({
     // Compute average
     let avgValue: number | null = null;
     if (entry) {
-      avgValue = computeContextAverage(entry);
+      const stat = statsById.get(targetStatId);
+      avgValue = computeContextAverage(
+        entry,
+        stat?.name ?? null,
+        getAggregationWeights(stat, entryKind, statDataById),
+      );
     } else if (summary && typeof summary.avg === "number" && Number.isFinite(summary.avg)) {
       avgValue = summary.avg;
     }
@@ -409,7 +429,7 @@ export const StatList = ({
     const type = entry?.type ?? summary?.type ?? "count";
 
     return { value: avgValue, label, type };
-  }, [selectedStatId, displayStatId, statDataById, statSummariesById, effectiveAreaKind]);
+  }, [selectedStatId, displayStatId, statDataById, statSummariesById, statsById, effectiveAreaKind]);
 
   // Get children of the displayed stat grouped by attribute, split into toggles vs dropdowns
   // Single-child attributes become toggles, multi-child attributes become dropdowns
@@ -794,7 +814,7 @@ export const StatList = ({
               data-ne-tour-target={MAP_TOUR_TARGETS.sidebarStatViz}
               className="mt-2 min-h-[180px] flex items-center justify-center"
             >
-              {areaEntries.length === 0 ? (
+              {areaEntries.length === 0 && !secondaryStatId ? (
                 <div className="flex h-[130px] w-full items-center justify-center rounded-2xl border border-dashed border-slate-300 text-[10px] text-slate-400 italic text-center dark:border-slate-600 dark:text-slate-500">
                   Shift+click an area(s) to see charts
                 </div>
@@ -817,9 +837,13 @@ export const StatList = ({
                     selectedStatLoading={selectedStatLoading}
                     onRetryStatData={onRetryStatData}
                     embedded={true}
+                    secondaryStatId={secondaryStatId}
+                    onToggleArea={onAddAreas && onRemoveArea ? handleToggleArea : undefined}
                   />
                   <p className="mt-2.5 mb-1 text-center text-[10px] font-light text-slate-300 dark:text-slate-600">
-                    Shift+click areas on map to select additional
+                    {areaEntries.length === 0
+                      ? t("scatter.clickDotHint")
+                      : "Shift+click areas on map to select additional"}
                   </p>
                 </div>
               )}
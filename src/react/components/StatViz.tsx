@@ -3,7 +3,16 @@ import type { Stat } from "../../types/stat";
 import type { AreaId } from "../../types/areas";
 import { areaIdKey } from "../../types/areas";
 import type { SeriesByKind, SeriesEntry, StatBoundaryEntry } from "../hooks/useStats";
-import { formatStatValue } from "../../lib/format";
+import { formatStatMoe, formatStatValue } from "../../lib/format";
+import {
+  aggregateStatSeries,
+  aggregateStatValues,
+  computeStatBaseline,
+  getAggregationWeightStatId,
+  getStatAggregationRule,
+} from "../lib/statAggregation";
+import { computeStatCorrelation, describeCorrelation, type StatCorrelation } from "../lib/statCorrelation";
+import { useLocale } from "../hooks/useLocale";
 
 const LINE_COLORS_ZIP = ["#3a519d", "#784578", "#1e98ac"];
 const LINE_COLORS_COUNTY = ["#3a519d", "#784578", "#1e98ac"];
@@ -14,20 +23,25 @@ const PINNED_BAR_COLOR = "#85a3ff";
 const getAvgColor = () =>
   document.documentElement.classList.contains("dark") ? "#b3b6bd" : "#64748b";
 
-const computeCityAvgSeries = (entries: SeriesEntry[]): { date: string; value: number }[] =>
-  entries.map((e) => {
-    const values = Object.values(e.data ?? {});
-    const nums = values.filter((v): v is number => typeof v === "number" && Number.isFinite(v));
-    const avg = nums.length ? nums.reduce((sum, v) => sum + v, 0) / nums.length : 0;
-    return { date: e.date, value: avg };
-  });
+interface AverageWeighting {
+  name?: string | null;
+  weights?: Record<string, number> | null;
+  weightSeries?: SeriesEntry[];
+}
 
-const computeCityAvgValue = (entry: StatBoundaryEntry | undefined): number => {
+// Averages follow the stat's aggregation rule: counts per area, rates weighted by population.
+const computeCityAvgSeries = (
+  entries: SeriesEntry[],
+  { name, weights, weightSeries }: AverageWeighting = {},
+): { date: string; value: number }[] =>
+  aggregateStatSeries(entries, null, { type: entries[0]?.type, name, weightSeries, fallbackWeights: weights });
+
+const computeCityAvgValue = (
+  entry: StatBoundaryEntry | undefined,
+  { name, weights }: AverageWeighting = {},
+): number => {
   if (!entry) return 0;
-  const values = Object.values(entry.data ?? {});
-  const nums = values.filter((v): v is number => typeof v === "number" && Number.isFinite(v));
-  if (nums.length === 0) return 0;
-  return nums.reduce((sum, v) => sum + v, 0) / nums.length;
+  return computeStatBaseline(entry.data, { type: entry.type, name, weights })?.value ?? 0;
 };
 
 const getLineColorForKind = (kind: SupportedAreaKind, index: number): string => {
@@ -81,6 +95,10 @@ interface StatVizProps {
   onCollapsedChange?: (collapsed: boolean) => void;
   /** When true, renders without container/header - for embedding in StatList selected stat section */
   embedded?: boolean;
+  /** Second stat (shift-click); when both stats have area data the chart can switch to a scatterplot */
+  secondaryStatId?: string | null;
+  /** Adds an area to (selected) or removes it from the map selection; used by scatterplot dots */
+  onToggleArea?: (area: AreaId, selected: boolean) => void;
 }
 
 interface LineChartProps {
@@ -423,6 +441,298 @@ const buildSmoothPath = (points: { x: number; y: number }[], tension = 0.2): str
   return path.join(" ");
 };
 
+interface ScatterChartProps {
+  correlation: StatCorrelation;
+  xLabel: string;
+  yLabel: string;
+  xType: string;
+  yType: string;
+  selectedCodes: Set<string>;
+  hoveredCode: string | null;
+  getLabel: (code: string) => string;
+  onHoverCode?: (code: string | null) => void;
+  onToggleCode?: (code: string, selected: boolean) => void;
+}
+
+// Pointer distance (px) within which the nearest dot counts as hovered.
+const SCATTER_HIT_RADIUS = 14;
+
+const formatCoefficient = (value: number | null) => (value === null ? "–" : value.toFixed(2));
+
+const ScatterChart = ({
+  correlation,
+  xLabel,
+  yLabel,
+  xType,
+  yType,
+  selectedCodes,
+  hoveredCode,
+  getLabel,
+  onHoverCode,
+  onToggleCode,
+}: ScatterChartProps) => {
+  const { locale, t } = useLocale();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [width, setWidth] = useState(320);
+  const height = 200;
+  const [pointerCode, setPointerCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    const container = svgRef.current?.parentElement;
+    if (!container) return;
+    const update = () => {
+      const next = container.clientWidth;
+      if (next > 0) {
+        setWidth((prev) => (Math.abs(prev - next) > 1 ? next : prev));
+      }
+    };
+    update();
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(() => update());
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const { points, fit, pearson, spearman, outlierCodes } = correlation;
+  const fmtX = (n: number) => formatStatValue(n, xType);
+  const fmtY = (n: number) => formatStatValue(n, yType);
+
+  const domain = (values: number[]): [number, number] => {
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const pad = (max - min || Math.abs(max) || 1) * 0.06;
+    return [min - pad, max + pad];
+  };
+  const [xMin, xMax] = domain(points.map((point) => point.x));
+  const [yMin, yMax] = domain(points.map((point) => point.y));
+
+  const labelWidth = Math.max(fmtY(yMin).length, fmtY(yMax).length) * 6;
+  const margin = { top: 16, right: 12, bottom: 30, left: Math.max(24, labelWidth + 8) };
+  const innerW = Math.max(16, width - margin.left - margin.right);
+  const innerH = height - margin.top - margin.bottom;
+  const x = (v: number) => ((v - xMin) / (xMax - xMin)) * innerW;
+  const y = (v: number) => innerH - ((v - yMin) / (yMax - yMin)) * innerH;
+
+  const isDark = document.documentElement.classList.contains("dark");
+  const gridStroke = isDark ? "#334155" : "#cbd5e1";
+  const dotColor = isDark ? "#94a3b8" : "#64748b";
+  const ticks = 3;
+
+  const findNearest = (event: React.MouseEvent<SVGSVGElement>): string | null => {
+    const svg = svgRef.current;
+    if (!svg) return null;
+    const rect = svg.getBoundingClientRect();
+    const px = event.clientX - rect.left - margin.left;
+    const py = event.clientY - rect.top - margin.top;
+    let best: { code: string; distance: number } | null = null;
+    for (const point of points) {
+      const distance = Math.hypot(x(point.x) - px, y(point.y) - py);
+      if (distance <= SCATTER_HIT_RADIUS && (!best || distance < best.distance)) {
+        best = { code: point.code, distance };
+      }
+    }
+    return best?.code ?? null;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const code = findNearest(event);
+    if (code === pointerCode) return;
+    setPointerCode(code);
+    onHoverCode?.(code);
+  };
+
+  const handlePointerLeave = () => {
+    if (pointerCode === null) return;
+    setPointerCode(null);
+    onHoverCode?.(null);
+  };
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const code = findNearest(event);
+    if (code) onToggleCode?.(code, !selectedCodes.has(code));
+  };
+
+  const activeCode = pointerCode ?? hoveredCode;
+  const activePoint = activeCode ? points.find((point) => point.code === activeCode) ?? null : null;
+  const labelledCodes = new Set(outlierCodes);
+  // Draw selected and hovered dots last so they sit on top.
+  const orderedPoints = [...points].sort(
+    (a, b) =>
+      Number(selectedCodes.has(a.code)) - Number(selectedCodes.has(b.code)) ||
+      Number(a.code === activeCode) - Number(b.code === activeCode),
+  );
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        width={width}
+        height={height}
+        role="img"
+        aria-label={t("scatter.ariaLabel", {
+          y: yLabel,
+          x: xLabel,
+          count: points.length,
+          description: describeCorrelation(pearson, locale),
+          pearson: formatCoefficient(pearson),
+          spearman: formatCoefficient(spearman),
+        })}
+        onPointerMove={handlePointerMove}
+        onPointerLeave={handlePointerLeave}
+        onClick={handleClick}
+        style={{ cursor: activePoint && pointerCode ? "pointer" : "crosshair" }}
+      >
+        <g transform={`translate(${margin.left},${margin.top})`}>
+          {Array.from({ length: ticks + 1 }).map((_, i) => {
+            const fraction = i / ticks;
+            const yValue = yMin + (yMax - yMin) * fraction;
+            const xValue = xMin + (xMax - xMin) * fraction;
+            return (
+              <g key={i}>
+                <line x1={0} x2={innerW} y1={y(yValue)} y2={y(yValue)} stroke={gridStroke} strokeWidth={1} opacity={0.35} />
+                <text x={-margin.left} y={y(yValue)} textAnchor="start" dominantBaseline="middle" fill="#64748b" fontSize={10}>
+                  {fmtY(yValue)}
+                </text>
+                <text
+                  x={x(xValue)}
+                  y={innerH + 12}
+                  textAnchor={i === 0 ? "start" : i === ticks ? "end" : "middle"}
+                  fill="#64748b"
+                  fontSize={10}
+                >
+                  {fmtX(xValue)}
+                </text>
+              </g>
+            );
+          })}
+          <text x={innerW / 2} y={innerH + 26} textAnchor="middle" fill="#64748b" fontSize={10} fontWeight={600}>
+            {xLabel}
+          </text>
+          <text x={-margin.left} y={-6} textAnchor="start" fill="#64748b" fontSize={10} fontWeight={600}>
+            {yLabel}
+          </text>
+
+          {fit && (
+            // Nested svg clips the regression line to the plot area.
+            <svg width={innerW} height={innerH} overflow="hidden">
+              <line
+                x1={0}
+                x2={innerW}
+                y1={y(fit.slope * xMin + fit.intercept)}
+                y2={y(fit.slope * xMax + fit.intercept)}
+                stroke={LINE_COLORS_ZIP[1]}
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+                opacity={0.8}
+              />
+            </svg>
+          )}
+
+          {orderedPoints.map((point) => {
+            const isSelected = selectedCodes.has(point.code);
+            const isActive = point.code === activeCode;
+            return (
+              <circle
+                key={point.code}
+                cx={x(point.x)}
+                cy={y(point.y)}
+                r={isActive ? 5 : isSelected ? 4 : 2.5}
+                fill={isSelected ? PINNED_BAR_COLOR : dotColor}
+                fillOpacity={isSelected || isActive ? 0.95 : 0.55}
+                stroke={isActive ? LINE_COLORS_ZIP[0] : isSelected ? (isDark ? "#e2e8f0" : "#1e293b") : "none"}
+                strokeWidth={isActive ? 1.5 : 1}
+              />
+            );
+          })}
+
+          {points
+            .filter((point) => labelledCodes.has(point.code))
+            .map((point) => {
+              const px = x(point.x);
+              const anchor = px > innerW * 0.7 ? "end" : "start";
+              return (
+                <text
+                  key={`label-${point.code}`}
+                  x={px + (anchor === "end" ? -6 : 6)}
+                  y={y(point.y)}
+                  textAnchor={anchor}
+                  dominantBaseline="middle"
+                  fill={isDark ? "#cbd5e1" : "#475569"}
+                  fontSize={9}
+                  pointerEvents="none"
+                >
+                  {getLabel(point.code)}
+                </text>
+              );
+            })}
+        </g>
+      </svg>
+      {activePoint && (
+        <div
+          className="pointer-events-none absolute z-10 rounded border border-slate-200/80 bg-white/95 px-2 py-1 text-[10px] text-slate-800 shadow-lg dark:border-slate-700/60 dark:bg-slate-900/95 dark:text-slate-100"
+          style={{
+            left: Math.min(width - 150, Math.max(0, margin.left + x(activePoint.x) + 10)),
+            top: Math.min(height - 48, Math.max(0, margin.top + y(activePoint.y) - 10)),
+            minWidth: "120px",
+          }}
+        >
+          <div className="font-semibold">{getLabel(activePoint.code)}</div>
+          <div className="flex justify-between gap-2 whitespace-nowrap">
+            <span>{xLabel}</span>
+            <span className="tabular-nums text-slate-500 dark:text-slate-300">{fmtX(activePoint.x)}</span>
+          </div>
+          <div className="flex justify-between gap-2 whitespace-nowrap">
+            <span>{yLabel}</span>
+            <span className="tabular-nums text-slate-500 dark:text-slate-300">{fmtY(activePoint.y)}</span>
+          </div>
+          <div className="mt-0.5 text-[9px] text-slate-400 dark:text-slate-500">
+            {selectedCodes.has(activePoint.code) ? t("scatter.clickToDeselect") : t("scatter.clickToSelect")}
+          </div>
+        </div>
+      )}
+      <div className="mt-1 flex flex-wrap items-center justify-between gap-x-3 text-[10px] text-slate-500 dark:text-slate-400">
+        <span className="font-medium text-slate-600 dark:text-slate-300">{describeCorrelation(pearson, locale)}</span>
+        <span className="tabular-nums">
+          {t("scatter.coefficients", {
+            pearson: formatCoefficient(pearson),
+            spearman: formatCoefficient(spearman),
+            count: points.length,
+          })}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+interface SparklineProps {
+  points: { date: string; value: number }[];
+  color?: string;
+  width?: number;
+  height?: number;
+}
+
+/** Compact axis-free trend line, used by the printable area report. */
+export const Sparkline = ({ points, color = LINE_COLORS_ZIP[0], width = 120, height = 32 }: SparklineProps) => {
+  if (points.length < 2) return null;
+  const pad = 2;
+  const values = points.map((point) => point.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const coords = points.map((point, index) => ({
+    x: pad + (index / (points.length - 1)) * (width - pad * 2),
+    y: height - pad - ((point.value - min) / range) * (height - pad * 2),
+  }));
+  const last = coords[coords.length - 1];
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img" aria-label={`Trend ${points[0].date}–${points[points.length - 1].date}`}>
+      <path d={buildSmoothPath(coords)} fill="none" stroke={color} strokeWidth={1.5} strokeLinecap="round" />
+      <circle cx={last.x} cy={last.y} r={2} fill={color} />
+    </svg>
+  );
+};
+
 interface BarChartEntry {
   label: string;
   color: string;
@@ -430,6 +740,8 @@ interface BarChartEntry {
   areaKey?: string;
   isLoading?: boolean;
   isSelectedArea?: boolean;
+  /** Margin of error for the value; drawn as an error bar with "± x" text */
+  moe?: number;
 }
 
 interface BarChartProps {
@@ -478,7 +790,7 @@ const BarChart = ({ entries, statType, hoveredAreaKey, onHoverArea }: BarChartPr
   const left = Math.max(32, Math.ceil(maxLabelWidth) + 2);
   const height = top + entries.length * (barH + gap);
   const innerW = Math.max(16, width - left - right);
-  const max = Math.max(1, ...entries.map((e) => e.value));
+  const max = Math.max(1, ...entries.map((e) => e.value + (e.moe ?? 0)));
 
   return (
     <svg viewBox={`0 0 ${width} ${height}`} width={width} height={height}>
@@ -492,6 +804,10 @@ const BarChart = ({ entries, statType, hoveredAreaKey, onHoverArea }: BarChartPr
         const fillColor = isHovered ? shade(entry.color, 0.15) : entry.color;
         const spinnerCx = left + Math.max(8, barWidth + 8);
         const spinnerCy = yPos + barH / 2;
+        const hasMoe = !isEntryLoading && typeof entry.moe === "number" && entry.moe > 0;
+        const moeLow = hasMoe ? left + Math.max(0, ((entry.value - (entry.moe as number)) / max) * innerW) : 0;
+        const moeHigh = hasMoe ? left + Math.min(innerW, ((entry.value + (entry.moe as number)) / max) * innerW) : 0;
+        const valueTextX = hasMoe ? Math.max(left + Math.max(6, w + 4), moeHigh + 4) : left + Math.max(6, w + 4);
 
         return (
           <g key={i}>
@@ -532,15 +848,25 @@ const BarChart = ({ entries, statType, hoveredAreaKey, onHoverArea }: BarChartPr
                 />
               </g>
             ) : (
-              <text
-                x={left + Math.max(6, w + 4)}
-                y={yPos + barH / 2}
-                dominantBaseline="middle"
-                fill="#94a3b8"
-                fontSize={10}
-              >
-                {formatStatValue(entry.value, statType)}
-              </text>
+              <>
+                {hasMoe && (
+                  <g stroke={isDark ? "#cbd5e1" : "#334155"} strokeWidth={1} opacity={0.7} pointerEvents="none">
+                    <line x1={moeLow} x2={moeHigh} y1={yPos + barH / 2} y2={yPos + barH / 2} />
+                    <line x1={moeLow} x2={moeLow} y1={yPos + 4} y2={yPos + barH - 4} />
+                    <line x1={moeHigh} x2={moeHigh} y1={yPos + 4} y2={yPos + barH - 4} />
+                  </g>
+                )}
+                <text
+                  x={valueTextX}
+                  y={yPos + barH / 2}
+                  dominantBaseline="middle"
+                  fill="#94a3b8"
+                  fontSize={10}
+                >
+                  {formatStatValue(entry.value, statType)}
+                  {hasMoe ? ` ${formatStatMoe(entry.moe as number, entry.value, statType)}` : ""}
+                </text>
+              </>
             )}
           </g>
         );
@@ -568,7 +894,10 @@ export const StatViz = ({
   collapsed: collapsedProp,
   onCollapsedChange,
   embedded = false,
+  secondaryStatId = null,
+  onToggleArea,
 }: StatVizProps) => {
+  const { t } = useLocale();
   const isControlled = typeof collapsedProp === "boolean";
   const [uncontrolledCollapsed, setUncontrolledCollapsed] = useState(false);
   const collapsed = isControlled ? (collapsedProp as boolean) : uncontrolledCollapsed;
@@ -583,6 +912,7 @@ export const StatViz = ({
     [isControlled, onCollapsedChange],
   );
   const [hoveredLineLabel, setHoveredLineLabel] = useState<string | null>(null);
+  const [vizMode, setVizMode] = useState<"trend" | "scatter">("trend");
 
   const areaEntries = useMemo<AreaSeriesEntry[]>(() => {
     const entries: AreaSeriesEntry[] = [];
@@ -640,40 +970,42 @@ export const StatViz = ({
   const seriesByKind = statId ? seriesByStatIdByKind.get(statId) ?? new Map() : new Map();
   const rawStatDataByKind = statId ? statDataById.get(statId) : undefined;
   const statDataByKind: Partial<Record<SupportedAreaKind, StatBoundaryEntry>> = rawStatDataByKind ?? {};
+  const weightStatId = getAggregationWeightStatId(stat);
+  const weightDataByKind = statDataById.get(weightStatId);
+  const weightSeriesByKind = seriesByStatIdByKind.get(weightStatId);
+  const statName = stat?.name ?? null;
+  // Medians can't be combined, so their averages are only population-weighted estimates.
+  const isMedianStat =
+    getStatAggregationRule(statDataByKind.ZIP?.type ?? statDataByKind.COUNTY?.type ?? stat?.type, statName) === "median";
+  const avgLabel = (label: string) => (isMedianStat ? `${label} (est.)` : label);
 
   const cityAvgByKind = useMemo(() => {
     const map = new Map<SupportedAreaKind, number>();
     for (const kind of SUPPORTED_KINDS) {
       const entry = statDataByKind[kind];
-      if (entry) map.set(kind, computeCityAvgValue(entry));
+      if (entry) map.set(kind, computeCityAvgValue(entry, { name: statName, weights: weightDataByKind?.[kind]?.data }));
     }
     return map;
-  }, [statDataByKind]);
+  }, [statDataByKind, statName, weightDataByKind]);
 
   const { latestSummaryValue, latestSummaryType } = useMemo(() => {
     const primaryKind = areaEntries[0]?.kind ?? activeAreaKind ?? "ZIP";
     const summaryType = statDataByKind[primaryKind]?.type ?? "count";
 
-    const values: number[] = [];
-    for (const entry of areaEntries) {
-      const boundary = statDataByKind[entry.kind];
-      const raw = boundary?.data?.[entry.id];
-      if (typeof raw === "number" && Number.isFinite(raw)) values.push(raw);
-    }
+    const codes = areaEntries.filter((entry) => entry.kind === primaryKind).map((entry) => entry.id);
+    const aggregate = aggregateStatValues(statDataByKind[primaryKind]?.data, codes, {
+      type: summaryType,
+      name: statName,
+      weights: weightDataByKind?.[primaryKind]?.data,
+    });
 
-    if (values.length === 0) {
+    if (!aggregate) {
       const fallback = cityAvgByKind.get("ZIP") ?? cityAvgByKind.get("COUNTY") ?? 0;
       return { latestSummaryValue: fallback, latestSummaryType: summaryType };
     }
 
-    if (summaryType === "percent") {
-      const avg = values.reduce((sum, v) => sum + v, 0) / values.length;
-      return { latestSummaryValue: avg, latestSummaryType: summaryType };
-    }
-
-    const total = values.reduce((sum, v) => sum + v, 0);
-    return { latestSummaryValue: total, latestSummaryType: summaryType };
-  }, [areaEntries, statDataByKind, cityAvgByKind, stat, activeAreaKind]);
+    return { latestSummaryValue: aggregate.value, latestSummaryType: summaryType };
+  }, [areaEntries, statDataByKind, cityAvgByKind, statName, weightDataByKind, activeAreaKind]);
 
   const hasMultiYearSeries = useMemo(() => {
     if (!statId) return false;
@@ -709,12 +1041,21 @@ export const StatViz = ({
       const entries: BarChartEntry[] = cappedAreaEntries.map((area) => {
         const boundary = statDataByKind[area.kind];
         const raw = boundary?.data?.[area.id];
+        const rawMoe = boundary?.marginOfError?.[area.id];
         const isLoading = selectedStatLoading && raw === undefined;
         const value = typeof raw === "number" && Number.isFinite(raw) ? raw : 0;
         const color = pinnedAreaKeys.has(area.key)
           ? PINNED_BAR_COLOR
           : getBarColorForKind(area.kind);
-        return { label: area.label, color, value, areaKey: area.key, isLoading, isSelectedArea: true };
+        return {
+          label: area.label,
+          color,
+          value,
+          areaKey: area.key,
+          isLoading,
+          isSelectedArea: true,
+          ...(typeof raw === "number" && typeof rawMoe === "number" && Number.isFinite(rawMoe) ? { moe: rawMoe } : {}),
+        };
       });
 
       // Add average(s) based on selected areas' parent counties
@@ -748,38 +1089,44 @@ export const StatViz = ({
           // No parent info available, show generic ZIP Avg
           const avgValue = cityAvgByKind.get("ZIP");
           if (typeof avgValue === "number") {
-            entries.push({ label: "ZIP Avg", color: getAvgColor(), value: avgValue, areaKey: "AVG-ZIP", isSelectedArea: false });
+            entries.push({ label: avgLabel("ZIP Avg"), color: getAvgColor(), value: avgValue, areaKey: "AVG-ZIP", isSelectedArea: false });
           }
         } else if (countyCount <= 2 && Object.keys(zipData).length <= MAX_ZIPS_FOR_COUNTY_AVG) {
           // 1-2 counties: show per-county averages (using ALL available ZIPs in those counties)
           // Skip if too many ZIPs to avoid heavy computation on every render
-          const countyStats = new Map<string, { sum: number; count: number; name: string }>();
+          const countyStats = new Map<string, { name: string }>();
 
           // Initialize accumulators for relevant counties
           for (const [countyKey, { name }] of zipsByCounty) {
-            countyStats.set(countyKey, { sum: 0, count: 0, name });
+            countyStats.set(countyKey, { name });
           }
 
-          // Iterate through all ZIP data to aggregate stats for these counties
+          // Collect every ZIP in these counties, then average with the stat's aggregation rule
+          const zipsInCounty = new Map<string, Record<string, number>>();
           for (const [zipCode, rawValue] of Object.entries(zipData)) {
              if (typeof rawValue !== "number" || !Number.isFinite(rawValue)) continue;
              const parent = getZipParentCounty(zipCode);
              if (parent) {
                const key = parent.code.toLowerCase();
                if (countyStats.has(key)) {
-                 const stat = countyStats.get(key)!;
-                 stat.sum += rawValue;
-                 stat.count += 1;
+                 const bucket = zipsInCounty.get(key) ?? {};
+                 bucket[zipCode] = rawValue;
+                 zipsInCounty.set(key, bucket);
                }
              }
           }
 
-          for (const [countyCode, { sum, count, name }] of countyStats) {
-            if (count === 0) continue;
-            const avg = sum / count;
+          for (const [countyCode, { name }] of countyStats) {
+            const baseline = computeStatBaseline(zipsInCounty.get(countyCode), {
+              type: statDataByKind["ZIP"]?.type,
+              name: statName,
+              weights: weightDataByKind?.ZIP?.data,
+            });
+            if (!baseline) continue;
+            const avg = baseline.value;
             const displayName = name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
             entries.push({
-              label: `${displayName} Avg`,
+              label: avgLabel(`${displayName} Avg`),
               color: getAvgColor(),
               value: avg,
               areaKey: `AVG-COUNTY-${countyCode}`,
@@ -790,19 +1137,19 @@ export const StatViz = ({
           // 3+ counties: show State Avg (use true statewide average if available)
           const avgValue = stateAvg ?? cityAvgByKind.get("ZIP");
           if (typeof avgValue === "number") {
-            entries.push({ label: "State Avg", color: getAvgColor(), value: avgValue, areaKey: "AVG-STATE", isSelectedArea: false });
+            entries.push({ label: avgLabel("State Avg"), color: getAvgColor(), value: avgValue, areaKey: "AVG-STATE", isSelectedArea: false });
           }
         }
       } else if (avgKind === "COUNTY") {
         const avgValue = cityAvgByKind.get("COUNTY");
         if (typeof avgValue === "number") {
-          entries.push({ label: "County Avg", color: getAvgColor(), value: avgValue, areaKey: "AVG-COUNTY", isSelectedArea: false });
+          entries.push({ label: avgLabel("County Avg"), color: getAvgColor(), value: avgValue, areaKey: "AVG-COUNTY", isSelectedArea: false });
         }
       } else if (avgKind === "ZIP") {
         // Fallback when no getZipParentCounty provided
         const avgValue = cityAvgByKind.get("ZIP");
         if (typeof avgValue === "number") {
-          entries.push({ label: "ZIP Avg", color: getAvgColor(), value: avgValue, areaKey: "AVG-ZIP", isSelectedArea: false });
+          entries.push({ label: avgLabel("ZIP Avg"), color: getAvgColor(), value: avgValue, areaKey: "AVG-ZIP", isSelectedArea: false });
         }
       }
 
@@ -844,6 +1191,11 @@ export const StatViz = ({
     // Add average(s) based on selected areas' parent counties (same logic as bar chart)
     const avgKind = areaEntries[0]?.kind ?? activeAreaKind ?? "ZIP";
     const avgSeriesEntries = seriesByKind.get(avgKind) ?? [];
+    const avgWeighting: AverageWeighting = {
+      name: statName,
+      weights: weightDataByKind?.[avgKind]?.data,
+      weightSeries: weightSeriesByKind?.get(avgKind),
+    };
 
     if (avgKind === "ZIP" && getZipParentCounty) {
       // Group selected ZIPs by parent county (normalize keys to lowercase for matching)
@@ -871,9 +1223,9 @@ export const StatViz = ({
 
       if (countyCount === 0) {
         // No parent info available, show generic ZIP Avg
-        const avgSeries = computeCityAvgSeries(avgSeriesEntries);
+        const avgSeries = computeCityAvgSeries(avgSeriesEntries, avgWeighting);
         if (avgSeries.length > 0) {
-          lineSeries.push({ label: "ZIP Avg", color: getAvgColor(), points: avgSeries, isAverage: true });
+          lineSeries.push({ label: avgLabel("ZIP Avg"), color: getAvgColor(), points: avgSeries, isAverage: true });
         }
       } else if (countyCount <= 2) {
         // 1-2 counties: show per-county averages (using ALL available ZIPs in those counties)
@@ -881,25 +1233,23 @@ export const StatViz = ({
         const firstEntryDataSize = Object.keys(avgSeriesEntries[0]?.data ?? {}).length;
         if (firstEntryDataSize <= MAX_ZIPS_FOR_COUNTY_AVG) {
           for (const [countyKey, { name }] of zipsByCounty) {
-            const avgSeries = avgSeriesEntries.map((e: SeriesEntry) => {
-              const values: number[] = [];
-              if (e.data) {
-                for (const [zipCode, val] of Object.entries(e.data)) {
-                  if (typeof val !== "number" || !Number.isFinite(val)) continue;
-                  const parent = getZipParentCounty(zipCode);
-                  if (parent && parent.code.toLowerCase() === countyKey) {
-                    values.push(val);
-                  }
-                }
+            const countyZips = new Set<string>();
+            for (const e of avgSeriesEntries) {
+              for (const zipCode of Object.keys(e.data ?? {})) {
+                const parent = getZipParentCounty(zipCode);
+                if (parent && parent.code.toLowerCase() === countyKey) countyZips.add(zipCode);
               }
-              const avg = values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
-              return { date: e.date, value: avg };
-            });
+            }
+            const countyEntries = avgSeriesEntries.map((e: SeriesEntry) => ({
+              ...e,
+              data: Object.fromEntries(Object.entries(e.data ?? {}).filter(([zipCode]) => countyZips.has(zipCode))),
+            }));
+            const avgSeries = computeCityAvgSeries(countyEntries, avgWeighting);
 
             if (avgSeries.length > 0) {
               const displayName = name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
               lineSeries.push({
-                label: `${displayName} Avg`,
+                label: avgLabel(`${displayName} Avg`),
                 color: getAvgColor(),
                 points: avgSeries,
                 isAverage: true,
@@ -909,39 +1259,77 @@ export const StatViz = ({
           }
         } else {
           // Too many ZIPs for per-county scan, use citywide average as fallback
-          const avgSeries = computeCityAvgSeries(avgSeriesEntries);
+          const avgSeries = computeCityAvgSeries(avgSeriesEntries, avgWeighting);
           if (avgSeries.length > 0) {
-            lineSeries.push({ label: "ZIP Avg", color: getAvgColor(), points: avgSeries, isAverage: true });
+            lineSeries.push({ label: avgLabel("ZIP Avg"), color: getAvgColor(), points: avgSeries, isAverage: true });
           }
         }
       } else {
         // 3+ counties: show State Avg
-        const avgSeries = computeCityAvgSeries(avgSeriesEntries);
+        const avgSeries = computeCityAvgSeries(avgSeriesEntries, avgWeighting);
         if (avgSeries.length > 0) {
-          lineSeries.push({ label: "State Avg", color: getAvgColor(), points: avgSeries, isAverage: true });
+          lineSeries.push({ label: avgLabel("State Avg"), color: getAvgColor(), points: avgSeries, isAverage: true });
         }
       }
     } else if (avgKind === "COUNTY") {
-      const avgSeries = computeCityAvgSeries(avgSeriesEntries);
+      const avgSeries = computeCityAvgSeries(avgSeriesEntries, avgWeighting);
       if (avgSeries.length > 0) {
-        lineSeries.push({ label: "County Avg", color: getAvgColor(), points: avgSeries, isAverage: true });
+        lineSeries.push({ label: avgLabel("County Avg"), color: getAvgColor(), points: avgSeries, isAverage: true });
       }
     } else if (avgKind === "ZIP") {
       // Fallback when no getZipParentCounty provided
-      const avgSeries = computeCityAvgSeries(avgSeriesEntries);
+      const avgSeries = computeCityAvgSeries(avgSeriesEntries, avgWeighting);
       if (avgSeries.length > 0) {
-        lineSeries.push({ label: "ZIP Avg", color: getAvgColor(), points: avgSeries, isAverage: true });
+        lineSeries.push({ label: avgLabel("ZIP Avg"), color: getAvgColor(), points: avgSeries, isAverage: true });
       }
     }
 
     return { mode: "line" as const, series: lineSeries, statType: avgSeriesEntries[0]?.type ?? "count" };
-  }, [stat, statId, chartMode, areaEntries, seriesByKind, statDataByKind, cityAvgByKind, pinnedAreaKeys, activeAreaKind, getZipParentCounty, zipScopeCountyName, stateAvg, selectedStatLoading]);
+  }, [stat, statId, chartMode, areaEntries, seriesByKind, statDataByKind, cityAvgByKind, pinnedAreaKeys, activeAreaKind, getZipParentCounty, zipScopeCountyName, stateAvg, selectedStatLoading, statName, weightDataByKind, weightSeriesByKind, isMedianStat]);
+
+  const secondaryStat =
+    secondaryStatId && secondaryStatId !== statId ? statsById.get(secondaryStatId) ?? null : null;
+  const secondaryDataByKind = secondaryStat ? statDataById.get(secondaryStat.id) : undefined;
+
+  // Every area of one kind plotted by the two stats: primary across, secondary up.
+  const scatterData = useMemo(() => {
+    if (!stat || !secondaryStat || !secondaryDataByKind) return null;
+    const preferredKind = areaEntries[0]?.kind ?? activeAreaKind ?? "ZIP";
+    const kinds = SUPPORTED_KINDS.filter((kind) => kind === preferredKind).concat(
+      SUPPORTED_KINDS.filter((kind) => kind !== preferredKind),
+    );
+    const kind = kinds.find((candidate) => statDataByKind[candidate]?.data && secondaryDataByKind[candidate]?.data);
+    if (!kind) return null;
+    const xEntry = statDataByKind[kind] as StatBoundaryEntry;
+    const yEntry = secondaryDataByKind[kind] as StatBoundaryEntry;
+    const correlation = computeStatCorrelation(xEntry.data, yEntry.data);
+    if (correlation.points.length < 3) return null;
+    return {
+      kind,
+      correlation,
+      xLabel: stat.label || stat.name,
+      yLabel: secondaryStat.label || secondaryStat.name,
+      xType: xEntry.type ?? "count",
+      yType: yEntry.type ?? "count",
+    };
+  }, [stat, secondaryStat, secondaryDataByKind, statDataByKind, areaEntries, activeAreaKind]);
+
+  // With no selected areas there is no trend to show, so go straight to the scatterplot.
+  const showScatter = Boolean(scatterData) && (vizMode === "scatter" || areaEntries.length === 0);
+
+  const scatterSelectedCodes = useMemo(
+    () => new Set(scatterData ? selectedAreas?.[scatterData.kind] ?? [] : []),
+    [scatterData, selectedAreas],
+  );
 
   const subtitle = useMemo(() => {
     if (collapsed) {
       if (latestSummaryValue == null) return "";
       return formatStatValue(latestSummaryValue, latestSummaryType ?? "count");
     }
+    if (showScatter && scatterData) {
+      return scatterData.kind === "ZIP" ? t("scatter.allZips") : t("scatter.allCounties");
+    }
     if (chartData?.mode === "bar") {
       return "";
     }
@@ -955,7 +1343,7 @@ export const StatViz = ({
       return dates[0] ?? "";
     }
     return "";
-  }, [collapsed, chartData, stat, latestSummaryValue]);
+  }, [collapsed, chartData, stat, latestSummaryValue, showScatter, scatterData, t]);
 
   const allSelectedBarsLoading = useMemo(() => {
     if (!chartData || chartData.mode !== "bar") return false;
@@ -966,7 +1354,7 @@ export const StatViz = ({
 
   // Keep donut tied to active pending state only. This prevents indefinite spinners
   // when a request has already settled but derived rows are still empty/missing.
-  const shouldShowLoadingDonut = selectedStatLoading && allSelectedBarsLoading;
+  const shouldShowLoadingDonut = selectedStatLoading && allSelectedBarsLoading && !showScatter;
 
   const selectedAreaLoadingProgress = useMemo(() => {
     if (!selectedStatLoading) return null;
@@ -1053,6 +1441,82 @@ export const StatViz = ({
     else onHoverArea?.(null);
   }, [handleHoverAreaKey, onHoverArea]);
 
+  const handleScatterHover = useCallback(
+    (code: string | null) => {
+      if (!scatterData) return;
+      onHoverArea?.(code ? { kind: scatterData.kind, id: code } : null);
+    },
+    [onHoverArea, scatterData],
+  );
+
+  const handleScatterToggle = useCallback(
+    (code: string, selected: boolean) => {
+      if (!scatterData) return;
+      onToggleArea?.({ kind: scatterData.kind, id: code }, selected);
+    },
+    [onToggleArea, scatterData],
+  );
+
+  const getScatterLabel = useCallback(
+    (code: string) => (scatterData && areaNameLookup?.(scatterData.kind, code)) || code,
+    [areaNameLookup, scatterData],
+  );
+
+  const modeToggle =
+    scatterData && areaEntries.length > 0 ? (
+      <div className="mb-2 flex justify-end">
+        <div
+          role="group"
+          aria-label={t("scatter.chartType")}
+          className="inline-flex overflow-hidden rounded-md border border-slate-200 text-[10px] font-medium dark:border-slate-700"
+        >
+          {(["trend", "scatter"] as const).map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              aria-pressed={vizMode === mode}
+              onClick={(event) => {
+                event.stopPropagation();
+                setVizMode(mode);
+              }}
+              className={`px-2 py-0.5 transition-colors ${
+                vizMode === mode
+                  ? "bg-brand-50 text-brand-700 dark:bg-slate-700 dark:text-white"
+                  : "bg-white text-slate-500 hover:text-slate-700 dark:bg-slate-900 dark:text-slate-400 dark:hover:text-slate-200"
+              }`}
+            >
+              {mode === "trend" ? t("scatter.mode.trend") : t("scatter.mode.scatter")}
+            </button>
+          ))}
+        </div>
+      </div>
+    ) : null;
+
+  const renderChart = (data: NonNullable<typeof chartData>) =>
+    showScatter && scatterData ? (
+      <ScatterChart
+        correlation={scatterData.correlation}
+        xLabel={scatterData.xLabel}
+        yLabel={scatterData.yLabel}
+        xType={scatterData.xType}
+        yType={scatterData.yType}
+        selectedCodes={scatterSelectedCodes}
+        hoveredCode={hoveredArea?.kind === scatterData.kind ? hoveredArea.id : null}
+        getLabel={getScatterLabel}
+        onHoverCode={handleScatterHover}
+        onToggleCode={onToggleArea ? handleScatterToggle : undefined}
+      />
+    ) : data.mode === "bar" ? (
+      <BarChart
+        entries={data.entries}
+        statType={data.statType}
+        hoveredAreaKey={hoveredAreaKey}
+        onHoverArea={handleHoverAreaKey}
+      />
+    ) : (
+      <LineChart series={data.series} statType={data.statType} onHoverLine={handleHoverLine} />
+    );
+
   // Embedded mode: render chart directly without container/header
   if (embedded) {
     if (!stat || !chartData) {
@@ -1086,21 +1550,9 @@ export const StatViz = ({
 
     return (
       <div className="mt-3 mb-2">
+        {modeToggle}
         <div className="relative w-full" style={{ overflow: "visible" }}>
-          {chartData.mode === "bar" ? (
-            <BarChart
-              entries={chartData.entries}
-              statType={chartData.statType}
-              hoveredAreaKey={hoveredAreaKey}
-              onHoverArea={handleHoverAreaKey}
-            />
-          ) : (
-            <LineChart
-              series={chartData.series}
-              statType={chartData.statType}
-              onHoverLine={handleHoverLine}
-            />
-          )}
+          {renderChart(chartData)}
         </div>
         {loadingStatus}
       </div>
@@ -1149,19 +1601,11 @@ export const StatViz = ({
                 </div>
               )}
             </div>
-          ) : chartData.mode === "bar" ? (
-            <BarChart
-              entries={chartData.entries}
-              statType={chartData.statType}
-              hoveredAreaKey={hoveredAreaKey}
-              onHoverArea={handleHoverAreaKey}
-            />
           ) : (
-            <LineChart
-              series={chartData.series}
-              statType={chartData.statType}
-              onHoverLine={handleHoverLine}
-            />
+            <>
+              {modeToggle}
+              {renderChart(chartData)}
+            </>
           )}
           {!shouldShowLoadingDonut ? loadingStatus : null}
 
@@ -1,5 +1,11 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import { DAY_LABELS, toTimeSelection, type TimeSelection } from "../lib/timeFilters";
+import {
+  DAY_LABELS,
+  parseCalendarDate,
+  toCalendarDateString,
+  toTimeSelection,
+  type TimeSelection,
+} from "../lib/timeFilters";
 
 interface TimeSelectorModalProps {
   isOpen: boolean;
@@ -147,6 +153,8 @@ export const TimeSelectorModal = ({
 }: TimeSelectorModalProps) => {
   const initialNormalized = toTimeSelection(initialSelection);
   const [selectedDay, setSelectedDay] = useState<number>(() => initialNormalized?.day ?? new Date().getDay());
+  // Optional calendar date; when set, holiday closures and dated exceptions apply.
+  const [selectedDate, setSelectedDate] = useState<string | null>(() => initialNormalized?.date ?? null);
   const [selectedHour12, setSelectedHour12] = useState<number>(() => {
     const hour = initialNormalized?.hour ?? new Date().getHours();
     return (hour % 12 || 12) - 1;
@@ -160,6 +168,7 @@ export const TimeSelectorModal = ({
     const normalized = toTimeSelection(initialSelection);
     if (normalized) {
       setSelectedDay(normalized.day);
+      setSelectedDate(normalized.date ?? null);
       setSelectedHour12((normalized.hour % 12 || 12) - 1);
       setSelectedAmPm(normalized.hour < 12 ? "AM" : "PM");
       return;
@@ -167,6 +176,7 @@ export const TimeSelectorModal = ({
     const now = new Date();
     const hour = now.getHours();
     setSelectedDay(now.getDay());
+    setSelectedDate(null);
     setSelectedHour12((hour % 12 || 12) - 1);
     setSelectedAmPm(hour < 12 ? "AM" : "PM");
   }, [initialSelection]);
@@ -177,6 +187,7 @@ export const TimeSelectorModal = ({
       day: now.getDay(),
       hour: now.getHours(),
       minute: now.getMinutes(),
+      date: toCalendarDateString(now),
     };
     onTimeSelect(selection);
     onClose();
@@ -195,6 +206,7 @@ export const TimeSelectorModal = ({
       day: selectedDay,
       hour: hour24,
       minute: 0, // Always use 0 for hour-only selection
+      date: selectedDate,
     };
     onTimeSelect(selection);
     onClose();
@@ -230,6 +242,17 @@ export const TimeSelectorModal = ({
 
   if (!isOpen) return null;
 
+  const handleDayChange = (day: number) => {
+    setSelectedDay(day);
+    setSelectedDate(null);
+  };
+
+  const handleDateChange = (value: string) => {
+    const parsed = parseCalendarDate(value);
+    setSelectedDate(parsed ? value : null);
+    if (parsed) setSelectedDay(parsed.weekday);
+  };
+
   const dayOptions = DAY_LABELS.map((day, index) => ({
     value: index,
     label: day,
@@ -288,12 +311,32 @@ export const TimeSelectorModal = ({
             </label>
             <CustomDropdown
               value={selectedDay}
-              onChange={setSelectedDay}
+              onChange={handleDayChange}
               options={dayOptions}
               placeholder="Select day"
             />
           </div>
 
+          {/* Optional calendar date */}
+          <div>
+            <label
+              htmlFor="time-selector-date"
+              className="mb-2 block text-sm font-medium text-slate-700 dark:text-slate-300"
+            >
+              Date <span className="font-normal text-slate-400">(optional)</span>
+            </label>
+            <input
+              id="time-selector-date"
+              type="date"
+              value={selectedDate ?? ""}
+              onChange={(event) => handleDateChange(event.target.value)}
+              className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:border-brand-400 focus:ring-1 focus:ring-brand-400 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-100"
+            />
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              Pick a date to account for holidays and monthly schedules.
+            </p>
+          </div>
+
           {/* Time selection */}
           <div>
             <label className="mb-2 block text-sm font-medium text-slate-700 dark:text-slate-300">
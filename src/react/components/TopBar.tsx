@@ -8,9 +8,12 @@ import { track } from "@vercel/analytics";
 import { db } from "../../lib/reactDb";
 import { isAdminEmail } from "../../lib/admin";
 import { themeController } from "../imperative/theme";
+import { useLocale } from "../hooks/useLocale";
+import { SUPPORTED_LOCALES, type Locale } from "../../lib/i18n";
 import { MAP_TOUR_TARGETS } from "../imperative/constants/mapTourTargets";
 import { useCensusImportQueue } from "../hooks/useCensusImportQueue";
 import { isFoodMapDomain } from "../lib/domains";
+import { SavedViewsMenu, type SavedViewsMenuProps } from "./SavedViewsMenu";
 import {
   canProbeHomepageRedirectState,
   readHomepageRedirectState,
@@ -197,6 +200,8 @@ interface TopBarProps {
   onMobileLocationSearch?: (query: string) => void;
   onAddOrganization?: () => void;
   expandMobileSearch?: boolean;
+  /** Saved map views for signed-in users; shown on the map screen only. */
+  savedViews?: SavedViewsMenuProps;
 }
 
 export const TopBar = ({
@@ -208,8 +213,10 @@ export const TopBar = ({
   onMobileLocationSearch,
   onAddOrganization,
   expandMobileSearch = false,
+  savedViews,
 }: TopBarProps) => {
   const [theme, setTheme] = useState<ThemeName>("light");
+  const { locale, setLocale, t } = useLocale();
   const { isLoading, user } = db.useAuth();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [mobileSearchValue, setMobileSearchValue] = useState("");
@@ -464,6 +471,14 @@ export const TopBar = ({
     themeController.toggle();
   };
 
+  // Two locales, so the switcher is a toggle labelled with the other language.
+  const nextLocale: Locale = locale === "es" ? "en" : "es";
+  const nextLocaleLabel = SUPPORTED_LOCALES.find((entry) => entry.value === nextLocale)?.label ?? nextLocale;
+  const handleLocaleToggle = () => {
+    track("topbar_locale_change", { locale: nextLocale, device: isMobile ? "mobile" : "desktop" });
+    setLocale(nextLocale);
+  };
+
   const handleBrandClick = (e: ReactMouseEvent<HTMLAnchorElement>) => {
     e.preventDefault();
     onBrandClick?.();
@@ -647,7 +662,7 @@ export const TopBar = ({
                     aria-expanded={isMapMenuOpen}
                     aria-haspopup="true"
                   >
-                    <span>Map</span>
+                    <span>{t("nav.map")}</span>
                     <span
                       className={`transition-transform duration-150 ${isMapMenuOpen ? "rotate-180" : ""}`}
                     >
@@ -667,7 +682,7 @@ export const TopBar = ({
                           }}
                           className="flex w-full items-center px-4 py-2 text-sm font-medium text-slate-700 transition-colors hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800"
                         >
-                          Full, Original Map
+                          {t("nav.originalMap")}
                         </a>
                         <a
                           href="#map"
@@ -683,7 +698,7 @@ export const TopBar = ({
                               : "text-slate-700 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800"
                           }`}
                         >
-                          Limited Beta Map
+                          {t("nav.betaMap")}
                         </a>
                       </div>
                     </div>
@@ -712,7 +727,7 @@ export const TopBar = ({
                         }`}
                         aria-current={active === "report" ? "page" : undefined}
                       >
-                        Report
+                        {t("nav.report")}
                       </a>
                     )}
                     {showAdminLink && (
@@ -736,7 +751,7 @@ export const TopBar = ({
                         }`}
                         aria-current={active === "admin" ? "page" : undefined}
                       >
-                        Admin
+                        {t("nav.admin")}
                       </a>
                     )}
                     <a
@@ -746,7 +761,7 @@ export const TopBar = ({
                       className="inline-flex items-center gap-2 rounded-full px-3 py-1.5 text-sm font-medium transition-colors duration-150 whitespace-nowrap text-slate-600 hover:bg-brand-50 hover:text-brand-600 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-white"
                       onClick={() => trackNavItem("All Stats", "external")}
                     >
-                      All Stats
+                      {t("nav.allStats")}
                     </a>
                     <a
                       href="https://www.neighborhoodexp.com"
@@ -755,7 +770,7 @@ export const TopBar = ({
                       className="inline-flex items-center gap-2 rounded-full px-3 py-1.5 text-sm font-medium transition-colors duration-150 text-slate-600 hover:bg-brand-50 hover:text-brand-600 dark:text-slate-300 dark:hover:bg-slate-800 dark:hover:text-white"
                       onClick={() => trackNavItem("About", "external")}
                     >
-                      About
+                      {t("nav.about")}
                     </a>
                   </nav>
                 </div>
@@ -773,7 +788,7 @@ export const TopBar = ({
                     aria-expanded={isMoreMenuOpen}
                     aria-haspopup="true"
                   >
-                    <span>More</span>
+                    <span>{t("nav.more")}</span>
                     {showQueueBadge && (
                       <span className="inline-flex h-5 min-w-[1.25rem] items-center justify-center rounded-full bg-fuchsia-500 px-1 text-xs font-semibold leading-tight text-white">
                         {queueBadgeLabel}
@@ -802,7 +817,7 @@ export const TopBar = ({
                               : "text-slate-700 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800"
                           }`}
                         >
-                          <span>Queue</span>
+                          <span>{t("nav.queue")}</span>
                           {showQueueBadge && (
                             <span className="inline-flex h-5 min-w-[1.25rem] items-center justify-center rounded-full bg-fuchsia-500 px-1 text-xs font-semibold leading-tight text-white">
                               {queueBadgeLabel}
@@ -823,7 +838,7 @@ export const TopBar = ({
                               : "text-slate-700 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800"
                           }`}
                         >
-                          Data
+                          {t("nav.data")}
                         </button>
                       )}
                       {showRoadmapLink && (
@@ -839,7 +854,7 @@ export const TopBar = ({
                               : "text-slate-700 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800"
                           }`}
                         >
-                          Roadmap
+                          {t("nav.roadmap")}
                         </button>
                       )}
                       <a
@@ -852,7 +867,7 @@ export const TopBar = ({
                           trackNavItem("Orgs", "external");
                         }}
                       >
-                        Orgs
+                        {t("nav.orgs")}
                       </a>
                       <a
                         href="https://www.neighborhoodexplorer.org/research-questions/"
@@ -864,7 +879,7 @@ export const TopBar = ({
                           trackNavItem("Research", "external");
                         }}
                       >
-                        Research
+                        {t("nav.research")}
                       </a>
                       <a
                         href="https://www.neighborhoodexplorer.org/community-goals/"
@@ -876,7 +891,7 @@ export const TopBar = ({
                           trackNavItem("Goals", "external");
                         }}
                       >
-                        Goals
+                        {t("nav.goals")}
                       </a>
                     </div>
                   )}
@@ -939,8 +954,8 @@ export const TopBar = ({
                 aria-describedby="home-toggle-tooltip"
                 aria-label={
                   neHomeRedirectDisabled
-                    ? "Make map the default homepage"
-                    : "Open original homepage in a new tab"
+                    ? t("topbar.homeMakeMapDefault")
+                    : t("topbar.homeOpenOriginal")
                 }
                 className="group/home-toggle relative inline-flex items-center gap-2 rounded-full px-3 py-1.5 text-sm font-medium transition-colors duration-150 text-slate-600 dark:text-slate-300"
               >
@@ -958,25 +973,28 @@ export const TopBar = ({
                   />
                 </span>
                 <span className="whitespace-nowrap text-slate-400 dark:text-slate-500">
-                  {neHomeRedirectDisabled ? "Home: Original" : "Home: Map"}
+                  {neHomeRedirectDisabled ? t("topbar.homeOriginal") : t("topbar.homeMap")}
                 </span>
                 <span
                   id="home-toggle-tooltip"
                   role="tooltip"
                   className="pointer-events-none invisible absolute right-0 top-full z-50 mt-2 w-max rounded-md border border-slate-200 bg-white px-3 py-2 text-left text-xs font-medium leading-4 text-slate-700 opacity-0 shadow-lg group-hover/home-toggle:visible group-hover/home-toggle:opacity-100 group-focus-visible/home-toggle:visible group-focus-visible/home-toggle:opacity-100 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200"
                 >
-                  <span className="block">What happens when you visit</span>
+                  <span className="block">{t("topbar.homeTooltip")}</span>
                   <span className="block">neighborhoodexplorer.org</span>
                 </span>
               </a>
             )}
+            {!isLoading && user && !user.isGuest && active === "map" && savedViews && (
+              <SavedViewsMenu {...savedViews} />
+            )}
             {!isLoading && (!user || user.isGuest) && (
               <button
                 type="button"
                 onClick={onOpenAuth}
                 className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 transition hover:border-brand-200 hover:text-brand-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300 dark:hover:border-slate-500 dark:hover:text-white"
               >
-                Login
+                {t("auth.login")}
               </button>
             )}
             {!isLoading && user && !user.isGuest && (
@@ -984,7 +1002,7 @@ export const TopBar = ({
                 type="button"
                 onClick={() => db.auth.signOut()}
                 className="group inline-flex items-center gap-0 rounded-full border border-slate-200 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 transition hover:border-brand-200 hover:text-brand-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300 dark:hover:border-slate-500 dark:hover:text-white"
-                title="Sign out"
+                title={t("auth.signOut")}
               >
                 <span className="max-w-[24ch] truncate">
                   <span className="group-hover:hidden">
@@ -1125,14 +1143,23 @@ export const TopBar = ({
               </div>
             )}
             {/* Location button moved onto map overlay */}
+            <button
+              type="button"
+              onClick={handleLocaleToggle}
+              lang={nextLocale}
+              className="inline-flex h-9 items-center justify-center rounded-full border border-slate-200 bg-white px-3 text-sm font-medium text-slate-600 transition hover:border-brand-200 hover:text-brand-600 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300 dark:hover:border-slate-500 dark:hover:text-white"
+              aria-label={t("topbar.switchLanguage", { language: nextLocaleLabel })}
+            >
+              {nextLocaleLabel}
+            </button>
             <button
               type="button"
               onClick={handleThemeToggle}
               className="inline-flex h-9 w-9 items-center justify-center rounded-full border border-slate-200 bg-white text-slate-600 transition hover:border-brand-200 hover:text-brand-600 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300 dark:hover:border-slate-500 dark:hover:text-white"
               aria-label={
                 theme === "dark"
-                  ? "Switch to light theme"
-                  : "Switch to dark theme"
+                  ? t("topbar.lightTheme")
+                  : t("topbar.darkTheme")
               }
               aria-pressed={theme === "dark"}
             >
@@ -1143,10 +1170,10 @@ export const TopBar = ({
                 type="button"
                 onClick={handleAddOrganization}
                 className="inline-flex h-9 items-center gap-1.5 rounded-full bg-brand-100 px-2.5 text-sm font-medium text-brand-700 transition hover:bg-brand-200 focus:outline-none focus:ring-2 focus:ring-brand-300 focus:ring-offset-2 dark:bg-brand-500/20 dark:text-brand-200 dark:hover:bg-brand-500/30 dark:focus:ring-offset-slate-900"
-                aria-label="Add organization"
+                aria-label={t("topbar.addOrganization")}
               >
                 <PlusIcon className="h-5 w-5" />
-                <span>Location</span>
+                <span>{t("topbar.location")}</span>
               </button>
             )}
           </div>
@@ -1160,7 +1187,7 @@ export const TopBar = ({
             type="button"
             onClick={() => onBrandClick?.()}
             className="inline-flex h-10 w-10 shrink-0 items-center justify-center shadow-floating overflow-visible"
-            aria-label="Return to home"
+            aria-label={t("topbar.returnHome")}
           >
             <img
               src="/icons/NE_Logos_Logomark_Prp.svg"
@@ -1174,7 +1201,7 @@ export const TopBar = ({
                 type="button"
                 onClick={handleMobileSearchExpand}
                 className="inline-flex h-11 min-w-[2.75rem] w-11 shrink-0 items-center justify-center rounded-full border border-slate-200 bg-white text-slate-600 transition hover:border-brand-200 hover:text-brand-600 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300 dark:hover:border-slate-500 dark:hover:text-white"
-                aria-label="Open search"
+                aria-label={t("topbar.openSearch")}
                 aria-expanded={false}
               >
                 <SearchIcon />
@@ -1191,7 +1218,7 @@ export const TopBar = ({
                     type="button"
                     onClick={() => mobileSearchInputRef.current?.focus()}
                     className="flex shrink-0 items-center justify-center text-slate-400 hover:text-slate-600 dark:text-slate-500 dark:hover:text-slate-300"
-                    aria-label="Focus search"
+                    aria-label={t("topbar.focusSearch")}
                   >
                     <SearchIcon />
                   </button>
@@ -1230,7 +1257,7 @@ export const TopBar = ({
                       device: "mobile",
                     })
                   }
-                  placeholder="City, Org, ZIP, Address, ..."
+                  placeholder={t("topbar.searchPlaceholder")}
                   className="search-input-brand-cancel flex-1 min-w-0 bg-transparent text-base text-slate-700 outline-none placeholder:text-slate-400 dark:text-slate-200 dark:placeholder:text-slate-500"
                   enterKeyHint="search"
                 />
@@ -1241,7 +1268,7 @@ export const TopBar = ({
                       ? "bg-brand-500 text-white hover:bg-brand-600 active:bg-brand-700 dark:bg-brand-600 dark:hover:bg-brand-500"
                       : "bg-slate-200 text-slate-600 hover:bg-slate-300 active:bg-slate-400 dark:bg-slate-700 dark:text-slate-400 dark:hover:bg-slate-600"
                   }`}
-                  aria-label="Submit search"
+                  aria-label={t("topbar.submitSearch")}
                 >
                   <ArrowRightIcon />
                 </button>
@@ -1258,8 +1285,8 @@ export const TopBar = ({
                   className="inline-flex h-11 w-11 shrink-0 items-center justify-center rounded-full border border-slate-200 bg-white text-slate-600 transition hover:border-brand-200 hover:text-brand-600 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300 dark:hover:border-slate-500 dark:hover:text-white"
                   aria-label={
                     theme === "dark"
-                      ? "Switch to light theme"
-                      : "Switch to dark theme"
+                      ? t("topbar.lightTheme")
+                      : t("topbar.darkTheme")
                   }
                   aria-pressed={theme === "dark"}
                 >
@@ -1277,13 +1304,13 @@ export const TopBar = ({
                       ? "gap-2 w-auto px-3"
                       : "w-11 px-0"
                   }`}
-                  aria-label="Add organization"
+                  aria-label={t("topbar.addOrganization")}
                 >
                   <PlusIcon />
                   {showLocationTextMobile &&
                     (!isCompactMobileSearch || !isMobileSearchExpanded) &&
                     !isMobileSearchFocused && (
-                      <span className="text-sm font-medium">Location</span>
+                      <span className="text-sm font-medium">{t("topbar.location")}</span>
                     )}
                 </button>
               )}
@@ -1294,7 +1321,7 @@ export const TopBar = ({
               type="button"
               onClick={handleMobileMenuToggle}
               className="inline-flex h-11 w-11 shrink-0 items-center justify-center rounded-full border border-slate-200 bg-white text-slate-600 transition hover:border-brand-200 hover:text-brand-600 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300 dark:hover:border-slate-500 dark:hover:text-white"
-              aria-label="Open menu"
+              aria-label={t("topbar.openMenu")}
               aria-expanded={isMobileMenuOpen}
             >
               <HamburgerIcon />
@@ -1316,7 +1343,7 @@ export const TopBar = ({
                 type="button"
                 onClick={handleMobileMenuToggle}
                 className="inline-flex h-11 w-11 items-center justify-center rounded-full border border-slate-200 bg-white text-slate-600 transition hover:border-brand-200 hover:text-brand-600 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300 dark:hover:border-slate-500 dark:hover:text-white"
-                aria-label="Close menu"
+                aria-label={t("topbar.closeMenu")}
               >
                 <CloseIcon />
               </button>
@@ -1328,7 +1355,7 @@ export const TopBar = ({
                   onClick={handleAddOrganization}
                   className="flex w-full items-center justify-between rounded-2xl border border-brand-200 bg-brand-50 px-5 py-4 text-left text-lg font-semibold text-brand-700 shadow-sm transition hover:border-brand-300 hover:bg-brand-100 dark:border-brand-500/50 dark:bg-brand-500/10 dark:text-brand-200 dark:hover:border-brand-400 dark:hover:bg-brand-500/20"
                 >
-                  <span>Add a Location</span>
+                  <span>{t("topbar.addLocation")}</span>
                   <span className="inline-flex h-8 w-8 items-center justify-center rounded-full bg-brand-500 text-white">
                     <PlusIcon />
                   </span>
@@ -1340,7 +1367,7 @@ export const TopBar = ({
                 className={`w-full rounded-2xl border border-slate-200 px-5 py-4 text-left text-lg font-semibold text-slate-800 transition hover:border-brand-200 hover:bg-brand-50 dark:border-slate-700 dark:text-slate-100 dark:hover:border-slate-500 dark:hover:bg-slate-800 whitespace-nowrap ${active === "map" ? "bg-brand-50 dark:bg-slate-800" : ""}`}
                 aria-current={active === "map" ? "page" : undefined}
               >
-                Map
+                {t("nav.map")}
               </button>
               {ENABLE_REPORT_MENU && showReportLink && (
                 <button
@@ -1349,7 +1376,7 @@ export const TopBar = ({
                   className={`w-full rounded-2xl border border-slate-200 px-5 py-4 text-left text-lg font-semibold text-slate-800 transition hover:border-brand-200 hover:bg-brand-50 dark:border-slate-700 dark:text-slate-100 dark:hover:border-slate-500 dark:hover:bg-slate-800 ${active === "report" ? "bg-brand-50 dark:bg-slate-800" : ""}`}
                   aria-current={active === "report" ? "page" : undefined}
                 >
-                  Report
+                  {t("nav.report")}
                 </button>
               )}
               {showAdminLink && (
@@ -1359,7 +1386,7 @@ export const TopBar = ({
                   className={`w-full rounded-2xl border border-slate-200 px-5 py-4 text-left text-lg font-semibold text-slate-800 transition hover:border-brand-200 hover:bg-brand-50 dark:border-slate-700 dark:text-slate-100 dark:hover:border-slate-500 dark:hover:bg-slate-800 ${active === "admin" ? "bg-brand-50 dark:bg-slate-800" : ""}`}
                   aria-current={active === "admin" ? "page" : undefined}
                 >
-                  Admin
+                  {t("nav.admin")}
                 </button>
               )}
               {showDataLink && (
@@ -1369,7 +1396,7 @@ export const TopBar = ({
                   className={`w-full rounded-2xl border border-slate-200 px-5 py-4 text-left text-lg font-semibold text-slate-800 transition hover:border-brand-200 hover:bg-brand-50 dark:border-slate-700 dark:text-slate-100 dark:hover:border-slate-500 dark:hover:bg-slate-800 ${active === "data" ? "bg-brand-50 dark:bg-slate-800" : ""}`}
                   aria-current={active === "data" ? "page" : undefined}
                 >
-                  Data
+                  {t("nav.data")}
                 </button>
               )}
               {showQueueLink && (
@@ -1379,7 +1406,7 @@ export const TopBar = ({
                   className={`flex w-full items-center justify-between rounded-2xl border border-slate-200 px-5 py-4 text-left text-lg font-semibold text-slate-800 transition hover:border-brand-200 hover:bg-brand-50 dark:border-slate-700 dark:text-slate-100 dark:hover:border-slate-500 dark:hover:bg-slate-800 ${active === "queue" ? "bg-brand-50 dark:bg-slate-800" : ""}`}
                   aria-current={active === "queue" ? "page" : undefined}
                 >
-                  <span>Queue</span>
+                  <span>{t("nav.queue")}</span>
                   {showQueueBadge ? (
                     <span className="inline-flex h-6 min-w-[1.5rem] items-center justify-center rounded-full bg-fuchsia-500 px-1.5 text-xs font-semibold leading-tight text-white">
                       {queueBadgeLabel}
@@ -1394,7 +1421,7 @@ export const TopBar = ({
                   className={`w-full rounded-2xl border border-slate-200 px-5 py-4 text-left text-lg font-semibold text-slate-800 transition hover:border-brand-200 hover:bg-brand-50 dark:border-slate-700 dark:text-slate-100 dark:hover:border-slate-500 dark:hover:bg-slate-800 whitespace-nowrap ${active === "roadmap" ? "bg-brand-50 dark:bg-slate-800" : ""}`}
                   aria-current={active === "roadmap" ? "page" : undefined}
                 >
-                  Roadmap
+                  {t("nav.roadmap")}
                 </button>
               )}
               <a
@@ -1404,7 +1431,7 @@ export const TopBar = ({
                 className="w-full rounded-2xl border border-slate-200 px-5 py-4 text-left text-lg font-semibold text-slate-800 transition hover:border-brand-200 hover:bg-brand-50 dark:border-slate-700 dark:text-slate-100 dark:hover:border-slate-500 dark:hover:bg-slate-800 whitespace-nowrap"
                 onClick={() => trackNavItem("All Stats", "external")}
               >
-                All Stats
+                {t("nav.allStats")}
               </a>
               <a
                 href="https://www.neighborhoodexplorer.org/organizations/"
@@ -1413,7 +1440,7 @@ export const TopBar = ({
                 className="w-full rounded-2xl border border-slate-200 px-5 py-4 text-left text-lg font-semibold text-slate-800 transition hover:border-brand-200 hover:bg-brand-50 dark:border-slate-700 dark:text-slate-100 dark:hover:border-slate-500 dark:hover:bg-slate-800"
                 onClick={() => trackNavItem("Orgs", "external")}
               >
-                Orgs
+                {t("nav.orgs")}
               </a>
               <a
                 href="https://www.neighborhoodexplorer.org/community-goals/"
@@ -1422,7 +1449,7 @@ export const TopBar = ({
                 className="w-full rounded-2xl border border-slate-200 px-5 py-4 text-left text-lg font-semibold text-slate-800 transition hover:border-brand-200 hover:bg-brand-50 dark:border-slate-700 dark:text-slate-100 dark:hover:border-slate-500 dark:hover:bg-slate-800"
                 onClick={() => trackNavItem("Goals", "external")}
               >
-                Goals
+                {t("nav.goals")}
               </a>
               <a
                 href="https://www.neighborhoodexplorer.org/research-questions/"
@@ -1431,7 +1458,7 @@ export const TopBar = ({
                 className="w-full rounded-2xl border border-slate-200 px-5 py-4 text-left text-lg font-semibold text-slate-800 transition hover:border-brand-200 hover:bg-brand-50 dark:border-slate-700 dark:text-slate-100 dark:hover:border-slate-500 dark:hover:bg-slate-800"
                 onClick={() => trackNavItem("Research", "external")}
               >
-                Research
+                {t("nav.research")}
               </a>
               <a
                 href="https://www.neighborhoodexp.com"
@@ -1440,17 +1467,26 @@ export const TopBar = ({
                 className="w-full rounded-2xl border border-slate-200 px-5 py-4 text-left text-lg font-semibold text-slate-800 transition hover:border-brand-200 hover:bg-brand-50 dark:border-slate-700 dark:text-slate-100 dark:hover:border-slate-500 dark:hover:bg-slate-800"
                 onClick={() => trackNavItem("About", "external")}
               >
-                About
+                {t("nav.about")}
               </a>
             </nav>
             <div className="px-6 pb-safe pt-2">
+              <button
+                type="button"
+                onClick={handleLocaleToggle}
+                lang={nextLocale}
+                className="mb-3 w-full rounded-full border border-slate-200 bg-white px-5 py-3 text-base font-semibold text-slate-700 shadow-sm transition hover:border-brand-200 hover:bg-brand-50 hover:text-brand-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:hover:border-slate-500 dark:hover:bg-slate-800 dark:hover:text-white"
+                aria-label={t("topbar.switchLanguage", { language: nextLocaleLabel })}
+              >
+                {nextLocaleLabel}
+              </button>
               {!isLoading && (!user || user.isGuest) ? (
                 <button
                   type="button"
                   onClick={handleLogin}
                   className="w-full rounded-full border border-slate-200 bg-white px-5 py-3 text-base font-semibold text-slate-700 shadow-sm transition hover:border-brand-200 hover:bg-brand-50 hover:text-brand-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:hover:border-slate-500 dark:hover:bg-slate-800 dark:hover:text-white"
                 >
-                  Login
+                  {t("auth.login")}
                 </button>
               ) : (
                 <button
@@ -1458,12 +1494,12 @@ export const TopBar = ({
                   onClick={handleSignOut}
                   className="w-full rounded-full border border-slate-200 bg-white px-5 py-3 text-base font-semibold text-slate-700 shadow-sm transition hover:border-brand-200 hover:bg-brand-50 hover:text-brand-700 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:hover:border-slate-500 dark:hover:bg-slate-800 dark:hover:text-white"
                 >
-                  Sign out
+                  {t("auth.signOut")}
                 </button>
               )}
               {!isLoading && user && !user.isGuest && (
                 <p className="mt-3 text-center text-xs text-slate-500 dark:text-slate-400">
-                  Signed in as {user.email}
+                  {t("auth.signedInAs", { email: user.email ?? "" })}
                 </p>
               )}
             </div>
@@ -1,5 +1,6 @@
 import { useEffect, useRef } from "react";
 import { XMarkIcon } from "@heroicons/react/24/outline";
+import { useLocale } from "../hooks/useLocale";
 
 interface WelcomeModalProps {
   isOpen: boolean;
@@ -14,6 +15,7 @@ export const WelcomeModal = ({
   onNeedFood,
   onShareFood,
 }: WelcomeModalProps) => {
+  const { t } = useLocale();
   const modalRef = useRef<HTMLDivElement>(null);
   const backdropRef = useRef<HTMLDivElement>(null);
 
@@ -57,7 +59,7 @@ export const WelcomeModal = ({
           type="button"
           onClick={onClose}
           className="absolute right-4 top-4 z-10 inline-flex h-8 w-8 items-center justify-center rounded-full text-slate-400 transition hover:bg-slate-100 hover:text-slate-600 dark:hover:bg-slate-800 dark:hover:text-slate-300"
-          aria-label="Close"
+          aria-label={t("common.close")}
         >
           <XMarkIcon className="h-5 w-5" />
         </button>
@@ -65,10 +67,10 @@ export const WelcomeModal = ({
         {/* Content - scrollable */}
         <div className="overflow-y-auto px-6 py-8 pr-12">
           <h2 className="mb-4 text-xl font-bold font-display text-slate-900 dark:text-slate-100">
-            Welcome to Neighborhood Explorer
+            {t("welcome.title")}
           </h2>
           <p className="mb-8 text-sm text-slate-600 dark:text-slate-400">
-            Discover food resources and community organizations in your area. Explore interactive maps and statistics to learn how we can come together to make a difference.
+            {t("welcome.body")}
           </p>
 
           {/* CTA Buttons */}
@@ -78,14 +80,14 @@ export const WelcomeModal = ({
               onClick={onNeedFood}
               className="w-full rounded-full bg-brand-500 px-6 py-3 text-base font-semibold text-white shadow-sm transition hover:bg-brand-600 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 dark:focus:ring-offset-slate-900"
             >
-              I need food
+              {t("welcome.needFood")}
             </button>
             <button
               type="button"
               onClick={onShareFood}
               className="w-full rounded-full border-2 border-brand-500 bg-white px-6 py-3 text-base font-semibold text-brand-600 shadow-sm transition hover:bg-brand-50 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2 dark:border-brand-400 dark:bg-slate-900 dark:text-brand-400 dark:hover:bg-slate-800 dark:focus:ring-offset-slate-900"
             >
-              I can help
+              {t("welcome.canHelp")}
             </button>
           </div>
         </div>
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { Stat } from "../../types/stat";
+import type { SeriesByKind, SeriesEntry, StatBoundaryEntry } from "../hooks/useStats";
+import { buildReportComparisonRows, buildReportDocumentTitle, buildSelectionTrend } from "./reportPrint";
+
+describe("reportPrint", () => {
+  it("averages selected areas per date for trends", () => {
+    const series: SeriesEntry[] = [
+      { date: "2021", type: "percent", data: { "74103": 0.2, "74104": 0.4 }, parentArea: "Tulsa" },
+      { date: "2019", type: "percent", data: { "74103": 0.3 }, parentArea: "Tulsa" },
+      { date: "2020", type: "percent", data: { "74105": 0.5 }, parentArea: "Tulsa" },
+    ];
+    expect(buildSelectionTrend(series, ["74103", "74104"])).toEqual([
+      { date: "2019", value: 0.3 },
+      { date: "2021", value: expect.closeTo(0.3) },
+    ]);
+  });
+
+  it("compares the selection against every area of the kind", () => {
+    const statsById = new Map<string, Stat>([
+      ["food", { id: "food", name: "Food Insecurity", category: "food" } as Stat],
+    ]);
+    const statDataById = new Map<string, Partial<Record<"ZIP" | "COUNTY", StatBoundaryEntry>>>([
+      ["food", { ZIP: { type: "count", data: { a: 10, b: 20, c: 30 }, min: 10, max: 30 } }],
+      ["missing", { ZIP: { type: "count", data: { a: 1 }, min: 1, max: 1 } }],
+    ]);
+    const series: SeriesByKind = new Map([
+      ["ZIP", [{ date: "2020", type: "count", data: { a: 5 }, parentArea: null }]],
+    ]);
+    const rows = buildReportComparisonRows(
+      ["food", "missing", "food"],
+      "ZIP",
+      ["a"],
+      statsById,
+      statDataById,
+      new Map([["food", series]]),
+    );
+    expect(rows).toEqual([
+      {
+        statId: "food",
+        name: "Food Insecurity",
+        type: "count",
+        selectedValue: 10,
+        comparisonValue: 20,
+        diff: -10,
+        trend: [{ date: "2020", value: 5 }],
+      },
+    ]);
+  });
+
+  it("stamps the document title with the local date", () => {
+    expect(buildReportDocumentTitle("74103", new Date(2024, 0, 5))).toBe("Area profile - 74103 - 2024-01-05");
+  });
+});
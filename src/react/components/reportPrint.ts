@@ -0,0 +1,104 @@
+import type { Stat } from "../../types/stat";
+import type { SeriesByKind, SeriesEntry, StatBoundaryEntry } from "../hooks/useStats";
+import {
+  aggregateStatValues,
+  computeStatBaseline,
+  getAggregationWeightStatId,
+  getAggregationWeights,
+  getSeriesWeightsForDate,
+  scaleBaseline,
+} from "../lib/statAggregation";
+
+type SupportedAreaKind = "ZIP" | "COUNTY";
+
+export interface ReportTrendPoint {
+  date: string;
+  value: number;
+}
+
+export interface ReportComparisonRow {
+  statId: string;
+  name: string;
+  type: string;
+  selectedValue: number;
+  comparisonValue: number;
+  diff: number;
+  trend: ReportTrendPoint[];
+}
+
+interface TrendWeighting {
+  name?: string | null;
+  weightSeries?: SeriesEntry[];
+  fallbackWeights?: Record<string, number> | null;
+}
+
+/** Per-date aggregate of the selected areas, skipping dates where none report. */
+export const buildSelectionTrend = (
+  series: SeriesEntry[] | undefined,
+  codes: string[],
+  { name = null, weightSeries, fallbackWeights = null }: TrendWeighting = {},
+): ReportTrendPoint[] => {
+  if (!series || codes.length === 0) return [];
+  const points: ReportTrendPoint[] = [];
+  for (const entry of series) {
+    const weights = getSeriesWeightsForDate(weightSeries, entry.date, fallbackWeights);
+    const aggregate = aggregateStatValues(entry.data, codes, { type: entry.type, name, weights });
+    if (!aggregate) continue;
+    points.push({ date: entry.date, value: aggregate.value });
+  }
+  return points.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Selected-area value vs the baseline of every area of the same kind, in the
+ * order of `statIds`. Both follow the stat's aggregation rule (counts summed,
+ * rates population-weighted). Stats without data for the selection are dropped.
+ */
+export const buildReportComparisonRows = (
+  statIds: string[],
+  kind: SupportedAreaKind,
+  codes: string[],
+  statsById: Map<string, Stat>,
+  statDataById: Map<string, Partial<Record<SupportedAreaKind, StatBoundaryEntry>>>,
+  seriesByStatIdByKind: Map<string, SeriesByKind>,
+): ReportComparisonRow[] => {
+  const rows: ReportComparisonRow[] = [];
+  const seen = new Set<string>();
+  for (const statId of statIds) {
+    if (seen.has(statId)) continue;
+    seen.add(statId);
+    const stat = statsById.get(statId);
+    const entry = statDataById.get(statId)?.[kind];
+    if (!stat || !entry) continue;
+    const weights = getAggregationWeights(stat, kind, statDataById);
+    const selected = aggregateStatValues(entry.data, codes, { type: entry.type, name: stat.name, weights });
+    const baseline = computeStatBaseline(entry.data, { type: entry.type, name: stat.name, weights });
+    if (!selected || !baseline) continue;
+    const selectedValue = selected.value;
+    const comparisonValue = scaleBaseline(baseline, codes.length);
+    rows.push({
+      statId,
+      name: stat.label || stat.name,
+      type: entry.type,
+      selectedValue,
+      comparisonValue,
+      diff: selectedValue - comparisonValue,
+      trend: buildSelectionTrend(seriesByStatIdByKind.get(statId)?.get(kind), codes, {
+        name: stat.name,
+        weightSeries: seriesByStatIdByKind.get(getAggregationWeightStatId(stat))?.get(kind),
+        fallbackWeights: weights,
+      }),
+    });
+  }
+  return rows;
+};
+
+/** Document title while printing; browsers use it as the default PDF filename. */
+export const buildReportDocumentTitle = (areaLabel: string, generatedAt: Date): string => {
+  const stamp = [
+    generatedAt.getFullYear(),
+    String(generatedAt.getMonth() + 1).padStart(2, "0"),
+    String(generatedAt.getDate()).padStart(2, "0"),
+  ].join("-");
+  return `Area profile - ${areaLabel} - ${stamp}`;
+};
@@ -1,4 +1,5 @@
 import type { Organization, OrganizationHours } from "../../types/organization";
+import { formatHoursRuleLines } from "../lib/organizationHours";
 
 export const DAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const;
 
@@ -101,12 +102,13 @@ export const formatAnnualRevenueLabel = (org: Organization): string | null => {
   return year ? `${amountLabel} (${year})` : amountLabel;
 };
 
-export const formatHoursLines = (hours: OrganizationHours | null | undefined): string[] => {
+export const formatHoursLines = (hours: OrganizationHours | null | undefined, today: Date = new Date()): string[] => {
   if (!hours) return [];
+  const ruleLines = formatHoursRuleLines(hours, today);
   if (Array.isArray(hours.weekdayText) && hours.weekdayText.length > 0) {
-    return hours.weekdayText;
+    return [...hours.weekdayText, ...ruleLines];
   }
-  if (!Array.isArray(hours.periods) || hours.periods.length === 0) return [];
+  if (!Array.isArray(hours.periods) || hours.periods.length === 0) return ruleLines;
 
   const map = new Map<number, string[]>();
   for (const period of hours.periods) {
@@ -135,5 +137,5 @@ export const formatHoursLines = (hours: OrganizationHours | null | undefined): s
     const label = DAY_LABELS[dayIndex] ?? `Day ${dayIndex}`;
     lines.push(`${label}: ${segments.join(", ")}`);
   }
-  return lines;
+  return [...lines, ...ruleLines];
 };
@@ -4,12 +4,16 @@
  */
 import { useMemo } from "react";
 import { db } from "../../lib/reactDb";
+import { localizeLabel, normalizeLabelTranslations, type LabelTranslations } from "../../lib/i18n";
+import { useLocale } from "./useLocale";
 import type { Category } from "../../types/organization";
 
 export interface CategoryRow {
   id: string;
   slug: Category;
   label: string;
+  /** Admin-entered label overrides per UI locale. */
+  labelTranslations?: LabelTranslations;
   sortOrder: number;
   active: boolean;
   forStats: boolean;
@@ -29,7 +33,7 @@ export interface UseCategoriesResult {
   mapCategories: CategoryRow[];
   /** Categories to show in sidebar filter (showInSidebar: true) */
   sidebarCategories: CategoryRow[];
-  /** Helper: get label for a category slug */
+  /** Helper: get label for a category slug in the current UI locale */
   getCategoryLabel: (slug: Category | string) => string;
   /** Loading state */
   isLoading: boolean;
@@ -38,6 +42,7 @@ export interface UseCategoriesResult {
 }
 
 export function useCategories(): UseCategoriesResult {
+  const { locale } = useLocale();
   const { data, isLoading, error } = db.useQuery({
     categories: {
       $: {
@@ -58,6 +63,7 @@ export function useCategories(): UseCategoriesResult {
         id: row.id,
         slug,
         label: typeof row.label === "string" && row.label.trim() ? row.label.trim() : row.slug,
+        labelTranslations: normalizeLabelTranslations(row.labelTranslations),
         sortOrder: typeof row.sortOrder === "number" ? row.sortOrder : 999,
         active: row.active !== false,
         forStats: row.forStats === true,
@@ -92,10 +98,10 @@ export function useCategories(): UseCategoriesResult {
   const getCategoryLabel = useMemo(() => {
     const labelMap = new Map<string, string>();
     for (const cat of allCategories) {
-      labelMap.set(cat.slug, cat.label);
+      labelMap.set(cat.slug, localizeLabel(cat.label, cat.labelTranslations, locale));
     }
     return (slug: Category | string): string => labelMap.get(slug) ?? slug;
-  }, [allCategories]);
+  }, [allCategories, locale]);
 
   return {
     allCategories,
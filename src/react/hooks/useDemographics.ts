@@ -143,6 +143,10 @@ interface UseDemographicsOptions {
   defaultContext?: DefaultContextOption | null;
   zipScope?: string | null;
   getZipParentCounty?: (zipCode: string) => { code: string; name: string } | null;
+  // Share of each selected ZIP that counts toward the selection (drawn areas); defaults to 1.
+  zipAreaWeights?: Record<string, number> | null;
+  // Replaces the generated label when the selection has its own name.
+  selectionLabel?: string | null;
 }
 
 export interface DemographicKindSnapshot {
@@ -348,6 +352,8 @@ export const useDemographics = ({
   defaultContext = null,
   zipScope = null,
   getZipParentCounty,
+  zipAreaWeights = null,
+  selectionLabel = null,
 }: UseDemographicsOptions): DemographicsResult => {
   const { authReady } = useAuthSession();
   const { areasByKindAndCode } = useAreas();
@@ -554,7 +560,8 @@ export const useDemographics = ({
         for (const code of targetIds) {
           const popValue = populationEntry.data?.[code];
           if (typeof popValue === "number" && Number.isFinite(popValue)) {
-            const safePop = Math.max(0, popValue);
+            const share = kind === "ZIP" && zipAreaWeights ? zipAreaWeights[code] ?? 0 : 1;
+            const safePop = Math.max(0, popValue) * share;
             totalPopulation += safePop;
             populationCount += safePop > 0 ? 1 : 0;
 
@@ -577,7 +584,10 @@ export const useDemographics = ({
 
       let stats: AggregatedStats | null = null;
       if (populationEntry && (totalPopulation > 0 || populationCount > 0)) {
-        const label = buildAreaLabel(kind, resolvedSelection, targetIds, getAreaName, primaryZipScopeLabel, getZipParentCounty);
+        const label =
+          kind === "ZIP" && selectionLabel
+            ? selectionLabel
+            : buildAreaLabel(kind, resolvedSelection, targetIds, getAreaName, primaryZipScopeLabel, getZipParentCounty);
         const fullLabel = buildFullLabel(kind, primaryZipScopeLabel);
         stats = {
           selectedCount: rawSelection.length,
@@ -702,6 +712,8 @@ export const useDemographics = ({
     breakdownSources,
     countyCodeForZipScope,
     primaryZipScopeLabel,
+    zipAreaWeights,
+    selectionLabel,
   ]);
 
   const combinedSnapshot = useMemo(() => {
@@ -740,8 +752,9 @@ export const useDemographics = ({
       for (const area of distinctAreas) {
         const populationEntry = populationRoots.get(area.kind);
         const popValue = populationEntry?.data?.[area.code];
+        const share = area.kind === "ZIP" && zipAreaWeights ? zipAreaWeights[area.code] ?? 0 : 1;
         const weight = typeof popValue === "number" && Number.isFinite(popValue)
-          ? Math.max(popValue, 0)
+          ? Math.max(popValue, 0) * share
           : 0;
 
         if (weight > 0) {
@@ -842,7 +855,9 @@ export const useDemographics = ({
 
     let label: string;
     if (selectedEntries.length > 0) {
-      if (selectedEntries.length === 1) {
+      if (selectionLabel) {
+        label = selectionLabel;
+      } else if (selectedEntries.length === 1) {
         const entry = selectedEntries[0];
         label = getAreaName(entry.kind, entry.code) ?? entry.code;
       } else {
@@ -861,6 +876,8 @@ export const useDemographics = ({
     marriedRoots,
     breakdownSources,
     getAreaName,
+    zipAreaWeights,
+    selectionLabel,
   ]);
 
   return { demographicsByKind, combinedSnapshot };
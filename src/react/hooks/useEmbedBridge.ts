@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef } from "react";
+import {
+  parseEmbedCommand,
+  toEmbedMessage,
+  type EmbedCommand,
+  type EmbedEvent,
+  type EmbedState,
+} from "../lib/embedMode";
+
+interface UseEmbedBridgeOptions {
+  enabled: boolean;
+  /** Only talk to this origin; null accepts and posts to any parent page. */
+  hostOrigin: string | null;
+  state: EmbedState;
+  onCommand: (command: EmbedCommand) => void;
+}
+
+/**
+ * postMessage link between an embedded map and the page hosting its iframe.
+ * Commands are only accepted from the parent window. Posts `ready` once,
+ * then `stateChange` whenever the stat, category or selected areas change.
+ * Returns a function for posting other events (clicks).
+ */
+export const useEmbedBridge = ({ enabled, hostOrigin, state, onCommand }: UseEmbedBridgeOptions) => {
+  const onCommandRef = useRef(onCommand);
+  const stateRef = useRef(state);
+  const lastPostedStateRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    onCommandRef.current = onCommand;
+  }, [onCommand]);
+
+  const postEvent = useCallback(
+    (event: EmbedEvent) => {
+      if (!enabled || typeof window === "undefined" || window.parent === window) return;
+      window.parent.postMessage(toEmbedMessage(event), hostOrigin ?? "*");
+    },
+    [enabled, hostOrigin],
+  );
+
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined") return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || event.source === window) return;
+      if (hostOrigin && event.origin !== hostOrigin) return;
+      const command = parseEmbedCommand(event.data);
+      if (!command) return;
+      if (command.type === "getState") {
+        postEvent({ type: "stateChange", state: stateRef.current });
+        return;
+      }
+      onCommandRef.current(command);
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [enabled, hostOrigin, postEvent]);
+
+  const stateKey = JSON.stringify(state);
+  useEffect(() => {
+    stateRef.current = state;
+    if (!enabled || stateKey === lastPostedStateRef.current) return;
+    const isFirst = lastPostedStateRef.current === null;
+    lastPostedStateRef.current = stateKey;
+    postEvent({ type: isFirst ? "ready" : "stateChange", state });
+    // stateKey stands in for `state`, which is a new object every render.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, postEvent, stateKey]);
+
+  return postEvent;
+};
@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  localeController,
+  t as translate,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+} from "../../lib/i18n";
+
+export type TranslateFn = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * Current UI locale plus a `t` bound to it. Components that call this
+ * re-render when the language switcher changes the locale.
+ */
+export const useLocale = () => {
+  const [locale, setLocaleState] = useState<Locale>(() => localeController.getLocale());
+
+  useEffect(() => localeController.subscribe(setLocaleState), []);
+
+  const setLocale = useCallback((next: Locale) => localeController.setLocale(next), []);
+  const t: TranslateFn = useCallback(
+    (key, params) => translate(key, params, locale),
+    [locale],
+  );
+
+  return { locale, setLocale, t };
+};
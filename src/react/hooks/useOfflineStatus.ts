@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react";
+import { listOutbox, subscribeToOutbox, type OutboxItem } from "../../lib/offlineStore";
+import { flushOfflineOutbox } from "../lib/offlineOutbox";
+
+/**
+ * Connectivity plus the offline outbox. Sends queued submissions and issue
+ * reports whenever the browser comes back online.
+ */
+export const useOfflineStatus = () => {
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === "undefined" || navigator.onLine !== false);
+  const [queued, setQueued] = useState<OutboxItem[]>([]);
+  const [sentCount, setSentCount] = useState(0);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      listOutbox().then((items) => {
+        if (!cancelled) setQueued(items);
+      });
+    };
+    refresh();
+    const unsubscribe = subscribeToOutbox(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isOnline) return;
+    flushOfflineOutbox()
+      .then((sent) => {
+        if (sent > 0) setSentCount((prev) => prev + sent);
+      })
+      .catch((error) => console.warn("[offline] Failed to send queued items", error));
+  }, [isOnline]);
+
+  const dismissSent = useCallback(() => setSentCount(0), []);
+
+  return {
+    isOnline,
+    queuedCount: queued.length,
+    failedCount: queued.filter((item) => item.lastError).length,
+    sentCount,
+    dismissSent,
+  };
+};
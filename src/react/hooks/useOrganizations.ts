@@ -1,5 +1,6 @@
-import { useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { db } from "../../lib/reactDb";
+import { ORGANIZATIONS_SNAPSHOT_KEY, readSnapshot, writeSnapshot } from "../../lib/offlineStore";
 import { useAuthSession } from "./useAuthSession";
 import { useCategories } from "./useCategories";
 import type {
@@ -163,5 +164,30 @@ export const useOrganizations = () => {
     return list;
   }, [data?.organizations, orgCategories]);
 
-  return { organizations, isLoading, error };
+  // Last good list, kept in IndexedDB so the map still has orgs offline.
+  const [snapshot, setSnapshot] = useState<{ rows: Organization[]; savedAt: number } | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    readSnapshot<Organization>(ORGANIZATIONS_SNAPSHOT_KEY).then((cached) => {
+      if (!cancelled && cached && cached.rows.length > 0) setSnapshot(cached);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const hasLiveData = Boolean(data?.organizations);
+  useEffect(() => {
+    if (!hasLiveData || organizations.length === 0) return;
+    // Debounced: the live query can update several times in a row.
+    const timeout = setTimeout(() => {
+      void writeSnapshot(ORGANIZATIONS_SNAPSHOT_KEY, organizations);
+    }, 2000);
+    return () => clearTimeout(timeout);
+  }, [hasLiveData, organizations]);
+
+  if (!hasLiveData && snapshot) {
+    return { organizations: snapshot.rows, isLoading: false, error, snapshotSavedAt: snapshot.savedAt };
+  }
+  return { organizations, isLoading, error, snapshotSavedAt: null };
 };
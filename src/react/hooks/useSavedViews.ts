@@ -0,0 +1,103 @@
+import { useCallback, useMemo, useRef } from "react";
+import { id as createId } from "@instantdb/react";
+import { db } from "../../lib/reactDb";
+import { useAuthSession } from "./useAuthSession";
+import {
+  addSavedView,
+  deleteSavedView,
+  getDefaultSavedViewState,
+  moveSavedView,
+  parseSavedViews,
+  renameSavedView,
+  type SavedView,
+  type SavedViewState,
+} from "../lib/savedViews";
+
+/**
+ * Named map views for the signed-in user, stored on their uiState row so they
+ * sync across devices. Guests get an empty list and no-op actions.
+ */
+export const useSavedViews = () => {
+  const { user, authReady } = useAuthSession();
+  const owner = user && !user.isGuest ? user.id : null;
+  const enabled = authReady && Boolean(owner);
+
+  const { data, isLoading } = db.useQuery(
+    enabled && owner
+      ? {
+          uiState: {
+            $: { where: { owner }, limit: 1, order: { updatedAt: "desc" as const } },
+          },
+        }
+      : null,
+  );
+
+  const entry = (data as any)?.uiState?.[0] as { id: string; savedViews?: unknown } | undefined;
+  const defaults = useMemo(() => getDefaultSavedViewState(), []);
+  const views = useMemo<SavedView[]>(
+    () => (enabled ? parseSavedViews(entry?.savedViews, defaults) : []),
+    [defaults, enabled, entry?.savedViews],
+  );
+
+  // Writes chain off the latest list so quick successive edits don't drop each other.
+  const latestViewsRef = useRef(views);
+  latestViewsRef.current = views;
+
+  const write = useCallback(
+    (update: (current: SavedView[], now: number) => SavedView[]) => {
+      if (!owner) return;
+      const now = Date.now();
+      const current = latestViewsRef.current;
+      const next = update(current, now);
+      if (next === current) return;
+      latestViewsRef.current = next;
+      // Same row as the persisted selection; create it if this user has none yet.
+      const rowId = entry?.id ?? owner;
+      const payload = entry
+        ? { savedViews: next, updatedAt: now }
+        : { owner, selection: { version: 2 }, savedViews: next, updatedAt: now };
+      db.transact(db.tx.uiState[rowId].update(payload)).catch((error) => {
+        console.warn("[savedViews] failed to save views", error);
+      });
+    },
+    [entry, owner],
+  );
+
+  const saveView = useCallback(
+    (name: string, state: SavedViewState) => {
+      write((current, now) => addSavedView(current, { id: createId(), name, state }, now));
+    },
+    [write],
+  );
+
+  const renameView = useCallback(
+    (viewId: string, name: string) => {
+      write((current, now) => renameSavedView(current, viewId, name, now));
+    },
+    [write],
+  );
+
+  const moveView = useCallback(
+    (viewId: string, offset: number) => {
+      write((current) => moveSavedView(current, viewId, offset));
+    },
+    [write],
+  );
+
+  const deleteView = useCallback(
+    (viewId: string) => {
+      write((current) => deleteSavedView(current, viewId));
+    },
+    [write],
+  );
+
+  return {
+    enabled,
+    isLoading: enabled && isLoading,
+    views,
+    saveView,
+    renameView,
+    moveView,
+    deleteView,
+  };
+};
@@ -22,6 +22,14 @@ import type { AreaKind } from "../../types/areas";
 import { DEFAULT_PARENT_AREA_BY_KIND } from "../../types/areas";
 import { normalizeScopeLabel } from "../../lib/scopeLabels";
 import { isDevEnv } from "../../lib/env";
+import { normalizeClassificationMethod, normalizeManualBreaks } from "../../lib/choropleth";
+import { normalizeLabelTranslations } from "../../lib/i18n";
+import {
+  applyPrivacyRules,
+  hasPrivacyRules,
+  normalizePrivacyRules,
+  type PrivacyRules,
+} from "../lib/smallCellSuppression";
 import {
   addIdsToContext,
   addLoadedIdsToContext,
@@ -39,7 +47,7 @@ import {
   resolveBooleanFlag,
 } from "./useStatsHelpers";
 
-type SupportedAreaKind = Extract<AreaKind, "ZIP" | "COUNTY">;
+type SupportedAreaKind = Extract<AreaKind, "ZIP" | "COUNTY" | "TRACT">;
 
 const STAT_DATA_CACHE_TTL_MS = PERSISTED_STAT_CACHE_TTL_MS;
 const STAT_DATA_DERIVE_DEBOUNCE_MS = 250;
@@ -54,6 +62,8 @@ export interface SeriesEntry {
   type: string;
   data: Record<string, number>;
   parentArea: string | null;
+  /** Per-area margins of error, when the source (ACS imports, derived stats) provides them */
+  marginOfError?: Record<string, number>;
 }
 
 export type SeriesByKind = Map<SupportedAreaKind, SeriesEntry[]>;
@@ -64,9 +74,16 @@ export type StatBoundaryEntry = {
   data: Record<string, number>;
   min: number;
   max: number;
+  marginOfError?: Record<string, number>;
 };
 
-const SUPPORTED_AREA_KINDS: SupportedAreaKind[] = ["ZIP", "COUNTY"];
+const SUPPORTED_AREA_KINDS: SupportedAreaKind[] = ["ZIP", "COUNTY", "TRACT"];
+
+// Only attach margins when the row actually carries them so entries stay lean.
+const readMarginOfError = (row: { marginOfError?: unknown }): { marginOfError?: Record<string, number> } =>
+  row.marginOfError && typeof row.marginOfError === "object" && Object.keys(row.marginOfError).length > 0
+    ? { marginOfError: row.marginOfError as Record<string, number> }
+    : {};
 const STAT_DATA_FIELDS = [
   "statId",
   "name",
@@ -75,6 +92,7 @@ const STAT_DATA_FIELDS = [
   "date",
   "type",
   "data",
+  "marginOfError",
 ] as const;
 
 type BatchRequestMeta = {
@@ -330,6 +348,7 @@ export const useStats = ({
                 "type",
                 "locationKind",
                 "sourceFile",
+                "privacy",
                 "status",
                 "updatedAt",
               ],
@@ -351,6 +370,7 @@ export const useStats = ({
                 "date",
                 "type",
                 "data",
+                "counts",
               ],
               limit: 10000,
               order: { date: "asc" as const },
@@ -449,6 +469,16 @@ export const useStats = ({
     return ids;
   }, [customStatsRows]);
 
+  const customStatPrivacyById = useMemo(() => {
+    const map = new Map<string, PrivacyRules>();
+    for (const row of customStatsRows) {
+      const rules = normalizePrivacyRules(row?.privacy);
+      // Noise was already added at import; adding it again here would drift the values.
+      if (typeof row?.id === "string" && hasPrivacyRules(rules)) map.set(row.id, { ...rules, noise: 0 });
+    }
+    return map;
+  }, [customStatsRows]);
+
   const customStatDataRows = useMemo(() => {
     const rows = Array.isArray((customDataResp as any)?.customDataStatData)
       ? ((customDataResp as any).customDataStatData as any[])
@@ -456,6 +486,11 @@ export const useStats = ({
     return rows
       .map((row) => {
         const boundaryType = row?.boundaryType;
+        const privacy = typeof row?.customStatId === "string" ? customStatPrivacyById.get(row.customStatId) : undefined;
+        const data =
+          privacy && row?.data && typeof row.data === "object"
+            ? applyPrivacyRules(row.data, row.counts, privacy, { type: row?.type }).data
+            : row?.data;
         return {
           statId: typeof row?.customStatId === "string" ? row.customStatId : "",
           name: row?.name,
@@ -466,11 +501,11 @@ export const useStats = ({
           boundaryType,
           date: row?.date,
           type: row?.type,
-          data: row?.data,
+          data,
         };
       })
       .filter((row) => customStatIds.has(row.statId));
-  }, [customDataResp, customStatIds]);
+  }, [customDataResp, customStatIds, customStatPrivacyById]);
 
   const customStatSummaryRows = useMemo(() => {
     const rows = Array.isArray((customDataResp as any)?.customDataStatSummaries)
@@ -509,6 +544,7 @@ export const useStats = ({
           id: row.id,
           name: row.name,
           label: typeof row.label === "string" && row.label.trim() ? row.label : undefined,
+          labelTranslations: normalizeLabelTranslations(row.labelTranslations),
           description:
             typeof row.description === "string" && row.description.trim() ? row.description : undefined,
           source: typeof row.source === "string" && row.source.trim() ? row.source : undefined,
@@ -526,6 +562,9 @@ export const useStats = ({
           visibilityEffective: normalizeStatVisibility(row.visibilityEffective) ?? undefined,
           createdBy: typeof row.createdBy === "string" ? row.createdBy : undefined,
           type: typeof row.type === "string" ? row.type : undefined,
+          classificationMethod: normalizeClassificationMethod(row.classificationMethod) ?? undefined,
+          classBreaks: normalizeManualBreaks(row.classBreaks) ?? undefined,
+          denominatorStatId: typeof row.denominatorStatId === "string" ? row.denominatorStatId : undefined,
         });
       }
     }
@@ -1499,7 +1538,7 @@ export const useStats = ({
     return map;
   }, [summaryRowsVersion]);
 
-  // Build time series per stat and area kind (ZIP vs COUNTY for now)
+  // Build time series per stat and area kind
   const seriesByStatIdByKind = useMemo(() => {
     const map = new Map<string, SeriesByKind>();
     if (!timeSeriesEnabled || !effectiveData?.statData) return map;
@@ -1530,6 +1569,7 @@ export const useStats = ({
         type: getEffectiveStatType(row.statId, row.type, statsById),
         data: (row.data ?? {}) as Record<string, number>,
         parentArea: typeof row.parentArea === "string" ? (row.parentArea as string) : null,
+        ...readMarginOfError(row),
       };
 
       const byKind = map.get(row.statId) ?? new Map<SupportedAreaKind, SeriesEntry[]>();
@@ -1561,7 +1601,13 @@ export const useStats = ({
         const values = Object.values(latest.data ?? {}).filter(isFiniteNumber);
         const min = values.length ? Math.min(...values) : 0;
         const max = values.length ? Math.max(...values) : 0;
-        entry[kind] = { type: latest.type, data: latest.data ?? {}, min, max };
+        entry[kind] = {
+          type: latest.type,
+          data: latest.data ?? {},
+          min,
+          max,
+          ...(latest.marginOfError ? { marginOfError: latest.marginOfError } : {}),
+        };
       }
       if (Object.keys(entry).length > 0) {
         map.set(statId, entry);
@@ -1594,6 +1640,7 @@ export const useStats = ({
         type: getEffectiveStatType(row.statId, row.type, statsById),
         data: (row.data ?? {}) as Record<string, number>,
         parentArea: row.parentArea as string | null,
+        ...readMarginOfError(row),
       };
 
       const byParent = map.get(row.statId) ?? new Map<string, SeriesByKind>();
@@ -1660,6 +1707,7 @@ export const useStats = ({
         data: (row.data ?? {}) as Record<string, number>,
         min,
         max,
+        ...readMarginOfError(row),
       };
       byParent.set(parentArea, entry);
       map.set(statId, byParent);
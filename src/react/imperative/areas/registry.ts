@@ -3,6 +3,7 @@ import { getZipBounds } from "../../../lib/zipBoundaries";
 import { getZipCentroidsMap } from "../../../lib/zipCentroids";
 import { getCountyBounds } from "../../../lib/countyBoundaries";
 import { getCountyCentroidsMap, getCountyName } from "../../../lib/countyCentroids";
+import { formatTractCode, getTractBounds, getTractCentroidsMap, getTractName } from "../../../lib/tractLoader";
 import type { AreaKind } from "../../../types/areas";
 import {
   BOUNDARY_SOURCE_ID,
@@ -26,6 +27,16 @@ import {
   COUNTY_BOUNDARY_PINNED_LINE_LAYER_ID,
   COUNTY_BOUNDARY_HOVER_FILL_LAYER_ID,
   COUNTY_BOUNDARY_HOVER_LINE_LAYER_ID,
+  TRACT_BOUNDARY_SOURCE_ID,
+  TRACT_BOUNDARY_FILL_LAYER_ID,
+  TRACT_BOUNDARY_LINE_LAYER_ID,
+  TRACT_STATDATA_FILL_LAYER_ID,
+  TRACT_BOUNDARY_HIGHLIGHT_FILL_LAYER_ID,
+  TRACT_BOUNDARY_HIGHLIGHT_LINE_LAYER_ID,
+  TRACT_BOUNDARY_PINNED_FILL_LAYER_ID,
+  TRACT_BOUNDARY_PINNED_LINE_LAYER_ID,
+  TRACT_BOUNDARY_HOVER_FILL_LAYER_ID,
+  TRACT_BOUNDARY_HOVER_LINE_LAYER_ID,
 } from "../constants/map";
 import { getBoundaryPalette, type ThemeName } from "../styles/boundaryPalettes";
 
@@ -182,43 +193,54 @@ const registry: AreaRegistry = {
   TRACT: {
     kind: "TRACT",
     featureIdProperty: "tract",
-    getBounds: () => null,
-    getName: (id) => id,
-    getLabel: (id) => id,
+    // Tract geometry is chunk-loaded by viewport, so bounds/centroids only exist once a chunk is in memory.
+    getBounds: (id) => getTractBounds("ok", id),
+    getName: (id) => getTractName("ok", id),
+    getLabel: (id) => `Tract ${formatTractCode(id)}`,
+    getCentroidsMap: () => getTractCentroidsMap("ok"),
     layers: {
-      sourceId: "",
-      baseFillLayerId: "",
-      baseLineLayerId: "",
-      statDataFillLayerId: "",
-      highlightFillLayerId: "",
-      highlightLineLayerId: "",
-      pinnedFillLayerId: "",
-      pinnedLineLayerId: "",
-      hoverFillLayerId: "",
-      hoverLineLayerId: "",
+      sourceId: TRACT_BOUNDARY_SOURCE_ID,
+      baseFillLayerId: TRACT_BOUNDARY_FILL_LAYER_ID,
+      baseLineLayerId: TRACT_BOUNDARY_LINE_LAYER_ID,
+      statDataFillLayerId: TRACT_STATDATA_FILL_LAYER_ID,
+      highlightFillLayerId: TRACT_BOUNDARY_HIGHLIGHT_FILL_LAYER_ID,
+      highlightLineLayerId: TRACT_BOUNDARY_HIGHLIGHT_LINE_LAYER_ID,
+      pinnedFillLayerId: TRACT_BOUNDARY_PINNED_FILL_LAYER_ID,
+      pinnedLineLayerId: TRACT_BOUNDARY_PINNED_LINE_LAYER_ID,
+      hoverFillLayerId: TRACT_BOUNDARY_HOVER_FILL_LAYER_ID,
+      hoverLineLayerId: TRACT_BOUNDARY_HOVER_LINE_LAYER_ID,
     },
-    getBasePaint: () => ({
-      fill: { color: "#ffffff", opacity: 0 },
-      line: { color: "#000000", opacity: 0, width: 0 },
-    }),
-    getHoverPaint: () => ({
-      fill: { color: "#ffffff", opacity: 0 },
-      line: { color: "#000000", opacity: 0, width: 0 },
-    }),
-    getHighlightPaint: () => ({
-      fill: { color: "#ffffff", opacity: 0 },
-      line: { color: "#000000", opacity: 0, width: 0 },
+    getBasePaint: (theme) => {
+      const palette = getBoundaryPalette(theme);
+      return {
+        fill: { color: palette.fillColor, opacity: palette.fillOpacity },
+        line: { color: palette.lineColor, opacity: palette.lineOpacity, width: 0.45 },
+      };
+    },
+    getHoverPaint: (theme) =>
+      theme === "dark"
+        ? {
+            fill: { color: "#94a3b8", opacity: 0.18 },
+            line: { color: "#cbd5e1", opacity: 0.9, width: 0.8 },
+          }
+        : {
+            fill: { color: "#1f2937", opacity: 0.12 },
+            line: { color: "#475569", opacity: 0.9, width: 0.8 },
+          },
+    getHighlightPaint: (theme) => ({
+      fill: { color: "#3755f0", opacity: theme === "dark" ? 0.26 : 0.2 },
+      line: { color: "#6d8afc", opacity: 0.9, width: 1 },
     }),
-    getPinnedPaint: () => ({
-      fill: { color: "#ffffff", opacity: 0 },
-      line: { color: "#000000", opacity: 0, width: 0 },
+    getPinnedPaint: (theme) => ({
+      fill: { color: "#3755f0", opacity: theme === "dark" ? 0.26 : 0.2 },
+      line: { color: "#6d8afc", opacity: 0.9, width: 1 },
     }),
-    getSelectionOverlayLine: () => ({
-      color: "#000000",
-      opacity: 0,
-      width: 0,
+    getSelectionOverlayLine: (theme) => ({
+      color: theme === "dark" ? "#e6e6e6" : "#46576f",
+      opacity: 0.9,
+      width: 1.3,
     }),
-    isEnabled: false,
+    isEnabled: true,
   },
 };
 
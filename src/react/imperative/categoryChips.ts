@@ -34,10 +34,14 @@ import {
   STAT_YEAR_CHIP_CLASSES,
   TIME_OPEN_CHIP_CLASSES,
 } from "./lib/categoryChipAssets";
-import type { Stat } from "../../types/stat";
+import { getStatDisplayName, type Stat } from "../../types/stat";
 import { statsStore } from "../../state/stats";
 import { categoriesStore, type CategoryRow } from "../../state/categories";
 import { formatTimeSelection as formatTimeSelectionLabel, type TimeSelection } from "../lib/timeFilters";
+import type { DrawMode } from "../lib/drawnArea";
+import { getIsEmbedModeFromUrl } from "../lib/embedMode";
+import { isTractModeAvailable } from "../../lib/tractLoader";
+import { createDomLocalizer, localizeLabel, t, type MessageKey } from "../../lib/i18n";
 import {
   AREA_MODE_OPTIONS,
   formatAreasModeLabel,
@@ -68,9 +72,13 @@ export interface CategoryChipsController {
   setAreasMode: (mode: AreasChipMode) => void;
   setOrgsVisible: (visible: boolean) => void;
   setExtremasVisible: (visible: boolean) => void;
+  /** Reflect bivariate mode on the toggle shown next to the secondary stat chip */
+  setBivariateEnabled: (enabled: boolean) => void;
   setTimeSelection: (selection: TimeSelection | null) => void;
   setTimeFilterAvailable: (available: boolean) => void;
   setExportCsvAreasVisible: (visible: boolean) => void;
+  /** Reflect the active draw tool and whether a drawn area exists */
+  setDrawState: (state: { mode: DrawMode | null; hasShape: boolean }) => void;
   /** Show/hide the sidebar expand button (right-chevron pill) */
   setSidebarExpandVisible: (visible: boolean) => void;
   destroy: () => void;
@@ -84,6 +92,7 @@ interface CategoryChipsOptions {
   onSearch?: (query: string) => void;
   onOrgsChipClose?: (nextVisible: boolean) => void;
   onExtremasToggle?: () => void;
+  onBivariateToggle?: () => void;
   onTimeChipClick?: () => void;
   onTimeChipClear?: () => void;
   onAreasModeChange?: (mode: AreasChipMode) => void;
@@ -92,6 +101,8 @@ interface CategoryChipsOptions {
   onExportScreenshotCopy?: () => Promise<void> | void;
   onExportScreenshotDownload?: () => Promise<void> | void;
   onExportCsvAreasDownload?: () => Promise<void> | void;
+  onDrawModeChange?: (mode: DrawMode | null) => void;
+  onDrawnAreaClear?: () => void;
   /** Called when the sidebar expand button is clicked */
   onSidebarExpand?: () => void;
 }
@@ -139,11 +150,8 @@ const toggleCloseIcon = (closeIcon: HTMLSpanElement, show: boolean) => {
 
 export const createCategoryChips = (options: CategoryChipsOptions = {}): CategoryChipsController => {
   const isMobile = options.isMobile ?? false;
-  const isEmbedMode = (() => {
-    if (typeof window === "undefined") return false;
-    const raw = (new URLSearchParams(window.location.search).get("embed") || "").trim().toLowerCase();
-    return raw === "1" || raw === "true";
-  })();
+  const isEmbedMode = getIsEmbedModeFromUrl();
+  const localizer = createDomLocalizer();
   const wrapper = document.createElement("div");
   wrapper.className =
     "pointer-events-none absolute left-4 top-4 z-10 flex flex-nowrap items-center gap-2";
@@ -192,7 +200,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   // Match org cluster color: peach accent family when on, subdued neutral when off.
   orgsChipBtn.className = `${CATEGORY_CHIP_CLASSES} ${ORGS_CHIP_ON_CLASSES}`;
   const orgsLabel = document.createElement("span");
-  orgsLabel.textContent = "Organizations";
+  localizer.text(orgsLabel, "chips.organizations");
   orgsLabel.className = "whitespace-nowrap";
   const orgsClose = document.createElement("span");
   orgsClose.innerHTML = CLOSE_ICON;
@@ -200,9 +208,8 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   const updateOrgsChipState = () => {
     const isOn = orgsChipVisible;
     orgsChipBtn.className = `${CATEGORY_CHIP_CLASSES} w-full justify-between ${isOn ? `${ORGS_CHIP_ON_CLASSES} ${SHOWING_PANEL_ACTION_SELECTED_BORDER_CLASSES}` : ORGS_CHIP_OFF_CLASSES}`;
-    orgsLabel.textContent = "Organizations";
     orgsChipBtn.setAttribute("aria-pressed", `${isOn}`);
-    orgsChipBtn.title = isOn ? "Hide organizations" : "Show organizations";
+    orgsChipBtn.title = t(isOn ? "chips.hideOrganizations" : "chips.showOrganizations");
     toggleCloseIcon(orgsClose, isOn);
   };
   orgsChipBtn.appendChild(orgsLabel);
@@ -217,7 +224,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   extremasChipBtn.setAttribute(MAP_TOUR_TARGET_ATTR, MAP_TOUR_TARGETS.showingExtremas);
   extremasChipBtn.className = `${CATEGORY_CHIP_CLASSES} ${EXTREMAS_CHIP_ON_CLASSES}`;
   const extremasLabel = document.createElement("span");
-  extremasLabel.textContent = "Stat Extremes";
+  localizer.text(extremasLabel, "chips.statExtremes");
   extremasLabel.className = "whitespace-nowrap";
   const extremasBadge = document.createElement("span");
   extremasBadge.innerHTML = EXTREMAS_BADGE_ICON;
@@ -226,7 +233,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     const isOn = extremasVisible;
     extremasChipBtn.className = `${CATEGORY_CHIP_CLASSES} w-full justify-between ${isOn ? `${EXTREMAS_CHIP_ON_CLASSES} ${SHOWING_PANEL_ACTION_SELECTED_BORDER_CLASSES}` : EXTREMAS_CHIP_OFF_CLASSES}`;
     extremasChipBtn.setAttribute("aria-pressed", `${isOn}`);
-    extremasChipBtn.title = isOn ? "Hide extrema indicators" : "Show extrema indicators";
+    extremasChipBtn.title = t(isOn ? "chips.hideExtremas" : "chips.showExtremas");
     extremasBadge.classList.toggle("opacity-50", !isOn);
   };
   extremasChipBtn.appendChild(extremasLabel);
@@ -237,6 +244,47 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   };
   extremasChipBtn.addEventListener("click", handleExtremasChipClick);
 
+  // Draw tools: trace a freehand area or drag out a radius; both become the area selection.
+  let drawMode: DrawMode | null = null;
+  let hasDrawnShape = false;
+  const drawChipRow = document.createElement("div");
+  drawChipRow.className = "flex w-full items-center gap-1.5 pointer-events-auto";
+  drawChipRow.style.display = isMobile ? "none" : "";
+  const createDrawChip = (labelKey: MessageKey, titleKey: MessageKey) => {
+    const btn = document.createElement("button");
+    btn.type = "button";
+    localizer.text(btn, labelKey);
+    localizer.attr(btn, "title", titleKey);
+    drawChipRow.appendChild(btn);
+    return btn;
+  };
+  const drawShapeChipBtn = createDrawChip("chips.drawArea", "chips.drawAreaTitle");
+  const drawRadiusChipBtn = createDrawChip("chips.drawRadius", "chips.drawRadiusTitle");
+  const clearDrawnChipBtn = createDrawChip("chips.drawClear", "chips.drawClearTitle");
+  const updateDrawChipState = () => {
+    const chipClasses = (isOn: boolean) =>
+      `${CATEGORY_CHIP_CLASSES} ${SHOWING_PANEL_ACTION_CLASSES} whitespace-nowrap ${isOn ? SHOWING_PANEL_ACTION_SELECTED_BORDER_CLASSES : ""}`;
+    drawShapeChipBtn.className = chipClasses(drawMode === "polygon");
+    drawRadiusChipBtn.className = chipClasses(drawMode === "circle");
+    clearDrawnChipBtn.className = chipClasses(false);
+    drawShapeChipBtn.setAttribute("aria-pressed", `${drawMode === "polygon"}`);
+    drawRadiusChipBtn.setAttribute("aria-pressed", `${drawMode === "circle"}`);
+    clearDrawnChipBtn.style.display = hasDrawnShape ? "" : "none";
+  };
+  updateDrawChipState();
+  const handleDrawShapeChipClick = () => {
+    options.onDrawModeChange?.(drawMode === "polygon" ? null : "polygon");
+  };
+  const handleDrawRadiusChipClick = () => {
+    options.onDrawModeChange?.(drawMode === "circle" ? null : "circle");
+  };
+  const handleClearDrawnChipClick = () => {
+    options.onDrawnAreaClear?.();
+  };
+  drawShapeChipBtn.addEventListener("click", handleDrawShapeChipClick);
+  drawRadiusChipBtn.addEventListener("click", handleDrawRadiusChipClick);
+  clearDrawnChipBtn.addEventListener("click", handleClearDrawnChipClick);
+
   // Time Open chip - only shows when provider chip is visible
   const timeOpenChipBtn = document.createElement("button");
   timeOpenChipBtn.type = "button";
@@ -266,7 +314,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   
   // Add text label (different text on mobile vs desktop)
   const labelText = document.createElement("span");
-  labelText.textContent = isMobile ? "Open Now" : "Hours Open";
+  labelText.textContent = t(isMobile ? "chips.openNow" : "chips.hoursOpen");
   labelText.className = "";
   
   // Assemble the label with icon and text
@@ -284,7 +332,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   closeIcon.type = "button";
   closeIcon.innerHTML = CLOSE_ICON;
   closeIcon.className = "flex items-center justify-center w-4 h-4 hover:bg-slate-200 dark:hover:bg-slate-700 rounded -mr-1";
-  closeIcon.setAttribute("aria-label", "Clear time filter");
+  localizer.attr(closeIcon, "aria-label", "chips.clearTimeFilter");
   
   // Assemble the close section
   closeSection.appendChild(divider);
@@ -335,7 +383,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   areasChipBtn.className = `${CATEGORY_CHIP_CLASSES} ${SHOWING_PANEL_ACTION_CLASSES} w-full justify-between pr-2`;
   areasChipBtn.setAttribute("aria-haspopup", "listbox");
   areasChipBtn.setAttribute("aria-expanded", "false");
-  areasChipBtn.setAttribute("aria-label", "Areas mode");
+  localizer.attr(areasChipBtn, "aria-label", "chips.areasMode");
   areasChipLabel.className = "whitespace-nowrap";
   areasChipChevron.className = "flex items-center text-slate-400 dark:text-slate-500";
   areasChipChevron.innerHTML = CHEVRON_DOWN_ICON;
@@ -346,9 +394,11 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     "absolute right-0 top-full z-20 mt-1 hidden min-w-[9rem] rounded-xl border border-slate-200/80 bg-white/90 p-1.5 shadow-lg backdrop-blur-md dark:border-slate-700/80 dark:bg-slate-900/90";
   areasChipMenu.setAttribute(MAP_TOUR_TARGET_ATTR, MAP_TOUR_TARGETS.showingAreasMenu);
   areasChipMenu.setAttribute("role", "listbox");
-  areasChipMenu.setAttribute("aria-label", "Areas mode");
+  localizer.attr(areasChipMenu, "aria-label", "chips.areasMode");
 
-  AREA_MODE_OPTIONS.forEach((option) => {
+  // Tracts are only offered when enabled and their geometry has been generated.
+  const availableAreaModes = AREA_MODE_OPTIONS.filter((option) => option.value !== "tracts" || isTractModeAvailable("ok"));
+  availableAreaModes.forEach((option) => {
     const optionBtn = document.createElement("button");
     optionBtn.type = "button";
     optionBtn.className =
@@ -403,12 +453,12 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     areasChipBtn.className = `${CATEGORY_CHIP_CLASSES} ${SHOWING_PANEL_ACTION_CLASSES} w-full justify-between pr-2 ${
       hasExplicitAreasMode ? SHOWING_PANEL_ACTION_SELECTED_BORDER_CLASSES : ""
     }`;
-    areasChipLabel.textContent = `Areas: ${formatAreasModeLabel(mode)}`;
+    areasChipLabel.textContent = t("chips.areasLabel", { mode: formatAreasModeLabel(mode) });
     AREA_MODE_OPTIONS.forEach((entry) => {
       const optionBtn = areasMenuOptions.get(entry.value);
       if (!optionBtn) return;
       const isActive = entry.value === mode;
-      optionBtn.innerHTML = `<span>${entry.label}</span>${isActive ? `<span class="text-brand-500 dark:text-brand-300">${CHECK_ICON}</span>` : `<span class="h-3.5 w-3.5"></span>`}`;
+      optionBtn.innerHTML = `<span>${t(entry.labelKey)}</span>${isActive ? `<span class="text-brand-500 dark:text-brand-300">${CHECK_ICON}</span>` : `<span class="h-3.5 w-3.5"></span>`}`;
       optionBtn.setAttribute("aria-selected", isActive ? "true" : "false");
       optionBtn.className = isActive
         ? "flex w-full items-center justify-between rounded-lg bg-brand-50 px-2.5 py-1.5 text-left text-xs text-brand-700 transition dark:bg-brand-400/15 dark:text-brand-300"
@@ -657,9 +707,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     exportCsvAreasDownloadBtn.style.display = hasCallback ? "" : "none";
     exportCsvAreasHelperText.style.display = hasCallback ? "" : "none";
     exportCsvAreasDownloadBtn.setAttribute("aria-disabled", `${unavailable}`);
-    exportCsvAreasDownloadBtn.title = unavailable
-      ? ""
-      : "Download CSV for selected areas (same as sidebar export csv)";
+    exportCsvAreasDownloadBtn.title = unavailable ? "" : t("chips.csvAreasTitle");
     exportCsvAreasDownloadBtn.classList.toggle("opacity-60", unavailable && exportActionBusy !== "csv");
     exportCsvAreasDownloadBtn.classList.toggle("cursor-help", unavailable && exportActionBusy !== "csv");
     exportCsvAreasDownloadBtn.classList.toggle("hover:!bg-slate-50", unavailable);
@@ -689,13 +737,17 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     exportScreenshotDownloadBtn.classList.toggle("cursor-wait", isBusy);
     exportCsvAreasDownloadBtn.classList.toggle("opacity-70", isBusy);
     exportCsvAreasDownloadBtn.classList.toggle("cursor-wait", isBusy);
-    exportLinkCopyBtnLabel.textContent = action === "link" ? "URL Link: Copying..." : "URL Link: Copy";
-    exportEmbedCopyBtnLabel.textContent = action === "embed" ? "Embed: Copying..." : "Embed: Copy";
-    exportScreenshotCopyBtnLabel.textContent = action === "copy" ? "Screenshot: Copying..." : "Screenshot: Copy";
-    exportScreenshotDownloadBtnLabel.textContent =
-      action === "download" ? "Screenshot: Downloading..." : "Screenshot: Download";
-    exportCsvAreasDownloadBtnLabel.textContent =
-      action === "csv" ? "CSV Areas: Downloading..." : "CSV Areas: Download";
+    exportLinkCopyBtnLabel.textContent = t(action === "link" ? "chips.linkCopying" : "chips.linkCopy");
+    exportEmbedCopyBtnLabel.textContent = t(action === "embed" ? "chips.embedCopying" : "chips.embedCopy");
+    exportScreenshotCopyBtnLabel.textContent = t(
+      action === "copy" ? "chips.screenshotCopying" : "chips.screenshotCopy",
+    );
+    exportScreenshotDownloadBtnLabel.textContent = t(
+      action === "download" ? "chips.screenshotDownloading" : "chips.screenshotDownload",
+    );
+    exportCsvAreasDownloadBtnLabel.textContent = t(
+      action === "csv" ? "chips.csvAreasDownloading" : "chips.csvAreasDownload",
+    );
     if (action === "csv") setExportCsvAreasHelperVisible(false);
     updateExportCsvAreasActionVisibility();
   };
@@ -793,13 +845,13 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     showingChipLabelWrap.replaceChildren();
 
     if (!state.hasSpecificSelection) {
-      showingChipLabel.textContent = "Show on Map";
+      showingChipLabel.textContent = t("chips.showOnMap");
       showingChipLabelWrap.appendChild(showingChipLabel);
       showingChipOrgsDot.classList.add("hidden");
       return;
     }
 
-    showingChipLabel.textContent = "Showing:";
+    showingChipLabel.textContent = t("chips.showing");
     showingChipLabelWrap.appendChild(showingChipLabel);
 
     const tokens: HTMLElement[] = [];
@@ -808,7 +860,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
       const orgToken = document.createElement("span");
       orgToken.className = "inline-flex items-center gap-1.5";
       const orgText = document.createElement("span");
-      orgText.textContent = "Orgs";
+      orgText.textContent = t("chips.orgs");
       showingChipOrgsDot.classList.remove("hidden");
       orgToken.appendChild(orgText);
       orgToken.appendChild(showingChipOrgsDot);
@@ -821,7 +873,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
       const extremasToken = document.createElement("span");
       extremasToken.className = "inline-flex items-center gap-1.5";
       const extremasText = document.createElement("span");
-      extremasText.textContent = "Extremes";
+      extremasText.textContent = t("chips.extremes");
       const extremasGlyph = document.createElement("span");
       extremasGlyph.className = "flex items-center";
       extremasGlyph.innerHTML = EXTREMAS_BADGE_ICON;
@@ -853,7 +905,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     if (tokens.length === 0) {
       const fallback = document.createElement("span");
       fallback.className = "ml-1 whitespace-nowrap";
-      fallback.textContent = "Show on Map";
+      fallback.textContent = t("chips.showOnMap");
       showingChipLabelWrap.appendChild(fallback);
     }
   };
@@ -878,7 +930,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   showingChipBtn.className = `${CATEGORY_CHIP_CLASSES} ${SHOWING_CHIP_CLASSES} pr-2`;
   showingChipBtn.setAttribute("aria-haspopup", "dialog");
   showingChipBtn.setAttribute("aria-expanded", "false");
-  showingChipBtn.setAttribute("aria-label", "Showing options");
+  localizer.attr(showingChipBtn, "aria-label", "chips.showingOptions");
 
   showingChipIcon.className = "flex items-center text-slate-400 dark:text-slate-500";
   showingChipIcon.innerHTML = SETTINGS_ICON;
@@ -900,12 +952,13 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     "absolute left-0 top-full z-20 mt-1 hidden min-w-[12rem] rounded-xl border border-white/60 bg-white/18 p-1.5 shadow-lg ring-1 ring-white/45 backdrop-blur-md dark:border-slate-500/35 dark:bg-slate-900/22 dark:ring-white/8";
   showingChipPanel.setAttribute(MAP_TOUR_TARGET_ATTR, MAP_TOUR_TARGETS.showingPanel);
   showingChipPanel.setAttribute("role", "dialog");
-  showingChipPanel.setAttribute("aria-label", "Showing options");
+  localizer.attr(showingChipPanel, "aria-label", "chips.showingOptions");
 
   showingChipStack.className = "flex flex-col gap-1.5";
   showingChipStack.appendChild(orgsChipBtn);
   showingChipStack.appendChild(extremasChipBtn);
   showingChipStack.appendChild(areasChipContainer);
+  showingChipStack.appendChild(drawChipRow);
   showingChipPanel.appendChild(showingChipStack);
 
   showingChipContainer.appendChild(showingChipBtn);
@@ -928,12 +981,12 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   exportChipBtn.className = `${CATEGORY_CHIP_CLASSES} ${SHOWING_CHIP_CLASSES} pr-2`;
   exportChipBtn.setAttribute("aria-haspopup", "dialog");
   exportChipBtn.setAttribute("aria-expanded", "false");
-  exportChipBtn.setAttribute("aria-label", "Share options");
+  localizer.attr(exportChipBtn, "aria-label", "chips.shareOptions");
 
   exportChipIcon.className = "flex items-center text-slate-400 dark:text-slate-500";
   exportChipIcon.innerHTML = EXPORT_ICON;
   exportChipLabel.className = "whitespace-nowrap";
-  exportChipLabel.textContent = "Share";
+  localizer.text(exportChipLabel, "chips.share");
   exportChipChevron.className = "flex items-center text-slate-400 dark:text-slate-500";
   exportChipChevron.innerHTML = CHEVRON_DOWN_ICON;
 
@@ -948,13 +1001,13 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   exportChipPanel.className =
     "absolute left-0 top-full z-20 mt-1 hidden min-w-[12rem] rounded-xl border border-white/60 bg-white/18 p-1.5 shadow-lg ring-1 ring-white/45 backdrop-blur-md dark:border-slate-500/35 dark:bg-slate-900/22 dark:ring-white/8";
   exportChipPanel.setAttribute("role", "dialog");
-  exportChipPanel.setAttribute("aria-label", "Share options");
+  localizer.attr(exportChipPanel, "aria-label", "chips.shareOptions");
 
   exportChipStack.className = "flex flex-col gap-1.5";
   exportLinkCopyBtn.type = "button";
   exportLinkCopyBtn.className =
     `${CATEGORY_CHIP_CLASSES} ${EXPORT_PANEL_ACTION_CLASSES} w-full justify-between px-2.5`;
-  exportLinkCopyBtn.title = "Copy the current page URL and parameters";
+  localizer.attr(exportLinkCopyBtn, "title", "chips.linkCopyTitle");
   const exportLinkCopyBtnLeft = document.createElement("span");
   exportLinkCopyBtnLeft.className = "flex items-center gap-1.5";
   const exportLinkCopyBtnIcon = document.createElement("span");
@@ -962,7 +1015,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   exportLinkCopyBtnIcon.innerHTML = LINK_ICON;
   exportLinkCopyBtnLeft.appendChild(exportLinkCopyBtnIcon);
   exportLinkCopyBtnLabel.className = "whitespace-nowrap";
-  exportLinkCopyBtnLabel.textContent = "URL Link: Copy";
+  exportLinkCopyBtnLabel.textContent = t("chips.linkCopy");
   exportLinkCopyBtnLeft.appendChild(exportLinkCopyBtnLabel);
   exportLinkCopyBtn.appendChild(exportLinkCopyBtnLeft);
   const exportLinkCopyBtnArrow = document.createElement("span");
@@ -975,7 +1028,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   exportEmbedCopyBtn.type = "button";
   exportEmbedCopyBtn.className =
     `${CATEGORY_CHIP_CLASSES} ${EXPORT_PANEL_ACTION_CLASSES} w-full justify-between px-2.5`;
-  exportEmbedCopyBtn.title = "Copy embeddable iframe HTML for the current map view";
+  localizer.attr(exportEmbedCopyBtn, "title", "chips.embedCopyTitle");
   const exportEmbedCopyBtnLeft = document.createElement("span");
   exportEmbedCopyBtnLeft.className = "flex items-center gap-1.5";
   const exportEmbedCopyBtnIcon = document.createElement("span");
@@ -983,7 +1036,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   exportEmbedCopyBtnIcon.innerHTML = LINK_ICON;
   exportEmbedCopyBtnLeft.appendChild(exportEmbedCopyBtnIcon);
   exportEmbedCopyBtnLabel.className = "whitespace-nowrap";
-  exportEmbedCopyBtnLabel.textContent = "Embed: Copy";
+  exportEmbedCopyBtnLabel.textContent = t("chips.embedCopy");
   exportEmbedCopyBtnLeft.appendChild(exportEmbedCopyBtnLabel);
   exportEmbedCopyBtn.appendChild(exportEmbedCopyBtnLeft);
   const exportEmbedCopyBtnArrow = document.createElement("span");
@@ -996,7 +1049,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   exportScreenshotCopyBtn.type = "button";
   exportScreenshotCopyBtn.className =
     `${CATEGORY_CHIP_CLASSES} ${EXPORT_PANEL_ACTION_CLASSES} w-full justify-between px-2.5`;
-  exportScreenshotCopyBtn.title = "Copy a map screenshot to the clipboard";
+  localizer.attr(exportScreenshotCopyBtn, "title", "chips.screenshotCopyTitle");
   const exportScreenshotCopyBtnLeft = document.createElement("span");
   exportScreenshotCopyBtnLeft.className = "flex items-center gap-1.5";
   const exportScreenshotCopyBtnIcon = document.createElement("span");
@@ -1004,7 +1057,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   exportScreenshotCopyBtnIcon.innerHTML = IMAGE_ICON;
   exportScreenshotCopyBtnLeft.appendChild(exportScreenshotCopyBtnIcon);
   exportScreenshotCopyBtnLabel.className = "whitespace-nowrap";
-  exportScreenshotCopyBtnLabel.textContent = "Screenshot: Copy";
+  exportScreenshotCopyBtnLabel.textContent = t("chips.screenshotCopy");
   exportScreenshotCopyBtnLeft.appendChild(exportScreenshotCopyBtnLabel);
   exportScreenshotCopyBtn.appendChild(exportScreenshotCopyBtnLeft);
   const exportScreenshotCopyBtnArrow = document.createElement("span");
@@ -1017,7 +1070,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   exportScreenshotDownloadBtn.type = "button";
   exportScreenshotDownloadBtn.className =
     `${CATEGORY_CHIP_CLASSES} ${EXPORT_PANEL_ACTION_CLASSES} w-full justify-between px-2.5`;
-  exportScreenshotDownloadBtn.title = "Download a PNG screenshot of the map";
+  localizer.attr(exportScreenshotDownloadBtn, "title", "chips.screenshotDownloadTitle");
   const exportScreenshotDownloadBtnLeft = document.createElement("span");
   exportScreenshotDownloadBtnLeft.className = "flex items-center gap-1.5";
   const exportScreenshotDownloadBtnIcon = document.createElement("span");
@@ -1025,7 +1078,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   exportScreenshotDownloadBtnIcon.innerHTML = IMAGE_ICON;
   exportScreenshotDownloadBtnLeft.appendChild(exportScreenshotDownloadBtnIcon);
   exportScreenshotDownloadBtnLabel.className = "whitespace-nowrap";
-  exportScreenshotDownloadBtnLabel.textContent = "Screenshot: Download";
+  exportScreenshotDownloadBtnLabel.textContent = t("chips.screenshotDownload");
   exportScreenshotDownloadBtnLeft.appendChild(exportScreenshotDownloadBtnLabel);
   exportScreenshotDownloadBtn.appendChild(exportScreenshotDownloadBtnLeft);
   const exportScreenshotDownloadBtnArrow = document.createElement("span");
@@ -1045,7 +1098,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   exportCsvAreasDownloadBtnIcon.innerHTML = SPREADSHEET_ICON;
   exportCsvAreasDownloadBtnLeft.appendChild(exportCsvAreasDownloadBtnIcon);
   exportCsvAreasDownloadBtnLabel.className = "whitespace-nowrap";
-  exportCsvAreasDownloadBtnLabel.textContent = "CSV Areas: Download";
+  exportCsvAreasDownloadBtnLabel.textContent = t("chips.csvAreasDownload");
   exportCsvAreasDownloadBtnLeft.appendChild(exportCsvAreasDownloadBtnLabel);
   exportCsvAreasDownloadBtn.appendChild(exportCsvAreasDownloadBtnLeft);
   const exportCsvAreasDownloadBtnArrow = document.createElement("span");
@@ -1062,6 +1115,9 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
   exportCsvAreasHelperText.className =
     "hidden rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-[11px] leading-tight text-slate-500 shadow-sm dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300";
   exportCsvAreasHelperText.textContent = getExportCsvAreasUnavailableHelpText();
+  localizer.onChange(() => {
+    exportCsvAreasHelperText.textContent = getExportCsvAreasUnavailableHelpText();
+  });
   exportChipStack.appendChild(exportCsvAreasHelperText);
   exportChipPanel.appendChild(exportChipStack);
 
@@ -1130,7 +1186,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
       button.setAttribute("aria-pressed", "false");
 
       const label = document.createElement("span");
-      label.textContent = category.label;
+      label.textContent = localizeLabel(category.label, category.labelTranslations);
       label.className = "whitespace-nowrap";
 
       const closeIcon = document.createElement("span");
@@ -1313,8 +1369,8 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     sidebarExpandBtn.type = "button";
     sidebarExpandBtn.className =
       "pointer-events-auto inline-flex h-8 w-9 items-center justify-center rounded-full border-2 border-slate-300 bg-brand-50 text-slate-600 transition hover:border-slate-400 hover:text-brand-600 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-slate-500 dark:hover:text-white";
-    sidebarExpandBtn.setAttribute("aria-label", "Expand sidebar");
-    sidebarExpandBtn.title = "Expand sidebar";
+    localizer.attr(sidebarExpandBtn, "aria-label", "chips.expandSidebar");
+    localizer.attr(sidebarExpandBtn, "title", "chips.expandSidebar");
     // Right-chevron icon
     sidebarExpandBtn.innerHTML = `
       <svg viewBox="0 0 20 20" fill="currentColor" aria-hidden="true" class="h-3.5 w-3.5">
@@ -1339,7 +1395,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     searchButton.type = "button";
     searchButton.className =
       "inline-flex h-8 w-9 items-center justify-center rounded-full border-2 border-slate-300 bg-brand-50 text-slate-600 transition hover:border-slate-400 hover:text-brand-600 dark:border-slate-600 dark:bg-slate-800 dark:text-slate-300 dark:hover:border-slate-500 dark:hover:text-white";
-    searchButton.setAttribute("aria-label", "Open search");
+    localizer.attr(searchButton, "aria-label", "chips.openSearch");
     searchButton.setAttribute("aria-expanded", "false");
     searchButton.innerHTML = SEARCH_ICON;
     searchContainer.appendChild(searchButton);
@@ -1361,15 +1417,15 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     searchInput.autocomplete = "off";
     searchInput.className =
       "w-full min-w-0 bg-transparent text-sm text-slate-700 outline-none placeholder:text-slate-400 dark:text-slate-200 dark:placeholder:text-slate-500";
-    searchInput.placeholder = "City, Location, ZIP, Address, ...";
-    searchInput.setAttribute("aria-label", "Search organizations");
+    localizer.attr(searchInput, "placeholder", "chips.searchPlaceholder");
+    localizer.attr(searchInput, "aria-label", "chips.searchOrganizations");
     searchForm.appendChild(searchInput);
 
     const submitButton = document.createElement("button");
     submitButton.type = "submit";
     submitButton.className =
       "flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-slate-200 text-slate-600 transition hover:bg-slate-300 active:bg-slate-400 dark:bg-slate-700 dark:text-slate-400 dark:hover:bg-slate-600 my-1 ml-[-4px] mr-[-4px]";
-    submitButton.setAttribute("aria-label", "Submit search");
+    localizer.attr(submitButton, "aria-label", "chips.submitSearch");
     submitButton.innerHTML = ARROW_ICON;
     searchForm.appendChild(submitButton);
 
@@ -1513,7 +1569,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
       : `${CATEGORY_CHIP_CLASSES} ${CATEGORY_CHIP_NEUTRAL_CLASSES}`;
     btn.setAttribute("data-stat-id", stat.id);
     btn.setAttribute("data-ne-tour-role", "stat-chip");
-    const displayName = stat.label || stat.name;
+    const displayName = getStatDisplayName(stat);
     btn.setAttribute("title", displayName);
     const label = document.createElement("span");
     label.textContent = isMobile ? displayName : formatStatChipLabel(displayName);
@@ -1561,7 +1617,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
       if (!id) continue;
       const stat = statById.get(id);
       if (stat && !isStatVisible(stat)) continue;
-      const fallbackLabel = stat ? stat.label || stat.name : id;
+      const fallbackLabel = stat ? getStatDisplayName(stat) : id;
       const label =
         typeof option.label === "string" && option.label.trim().length > 0
           ? option.label.trim()
@@ -1573,7 +1629,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
       if (selectedStat && isStatVisible(selectedStat)) {
         deduped.set(selectedStatId, {
           id: selectedStatId,
-          label: selectedStat.label || selectedStat.name,
+          label: getStatDisplayName(selectedStat),
         });
       }
     }
@@ -1624,9 +1680,9 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     btn.setAttribute("data-ne-tour-role", "stat-chip");
     btn.setAttribute("aria-haspopup", "listbox");
     btn.setAttribute("aria-expanded", "false");
-    btn.setAttribute("aria-label", "Select stat option");
+    btn.setAttribute("aria-label", t("chips.selectStatOption"));
     const selectedOptionLabel =
-      dropdownOptions.find((option) => option.id === stat.id)?.label ?? (stat.label || stat.name);
+      dropdownOptions.find((option) => option.id === stat.id)?.label ?? getStatDisplayName(stat);
     btn.setAttribute("title", selectedOptionLabel);
 
     const label = document.createElement("span");
@@ -1646,7 +1702,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     inlineClear.innerHTML = CLOSE_ICON;
     inlineClear.querySelector("svg")?.classList.add("translate-y-px");
     inlineClear.setAttribute("aria-hidden", "true");
-    inlineClear.title = "Deselect stat";
+    inlineClear.title = t("chips.deselectStat");
 
     actions.appendChild(chevron);
     actions.appendChild(inlineClear);
@@ -1659,7 +1715,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
       "absolute left-0 top-full z-20 mt-1 hidden min-w-[14rem] rounded-xl border border-slate-200/80 bg-white/95 p-1.5 shadow-lg backdrop-blur-md dark:border-slate-700/80 dark:bg-slate-900/95";
     menu.setAttribute(MAP_TOUR_TARGET_ATTR, MAP_TOUR_TARGETS.primaryStatMenu);
     menu.setAttribute("role", "listbox");
-    menu.setAttribute("aria-label", "Stat options");
+    menu.setAttribute("aria-label", t("chips.statOptions"));
 
     const optionButtons: Array<{
       id: string;
@@ -1744,7 +1800,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     deselectIcon.className = "flex h-3.5 w-3.5 items-center justify-center";
     deselectIcon.innerHTML = CLOSE_ICON;
     const deselectLabel = document.createElement("span");
-    deselectLabel.textContent = "Deselect stat";
+    deselectLabel.textContent = t("chips.deselectStat");
     deselectBtn.appendChild(deselectIcon);
     deselectBtn.appendChild(deselectLabel);
     const handleDeselectClick = () => {
@@ -1899,7 +1955,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
           if (!selectedStat) return null;
           return (
             dropdownOptions.find((option) => option.id === selectedStat.id)?.label ??
-            (selectedStat.label || selectedStat.name)
+            getStatDisplayName(selectedStat)
           );
         })()
       : null;
@@ -1915,7 +1971,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
       }
       const { btn, handleClick, labelEl, closeIcon } = buildStatButton(s);
       statWrapper.appendChild(btn);
-      return { btn, handleClick, id: s.id, displayName: s.label || s.name, labelEl, closeIcon };
+      return { btn, handleClick, id: s.id, displayName: getStatDisplayName(s), labelEl, closeIcon };
     });
 
     updateStatSelectionStyles();
@@ -1983,8 +2039,8 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     btn.type = "button";
     btn.className = `${SECONDARY_STAT_CHIP_BASE_CLASSES} ${SECONDARY_STAT_CHIP_CLASSES}`;
     btn.setAttribute("data-secondary-stat-id", stat.id);
-    const displayName = stat.label || stat.name;
-    btn.setAttribute("title", `Secondary: ${displayName}`);
+    const displayName = getStatDisplayName(stat);
+    btn.setAttribute("title", t("chips.secondaryTitle", { name: displayName }));
 
     const label = document.createElement("span");
     label.textContent = displayName;
@@ -2011,6 +2067,35 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
 
   let secondaryChipEntry: { btn: HTMLButtonElement; labelEl: HTMLElement; handleClick: () => void } | null = null;
 
+  // Bivariate toggle rides along with the secondary chip; it only makes sense
+  // while both a primary and a secondary stat are on the map.
+  let bivariateEnabled = false;
+  const bivariateChipBtn = document.createElement("button");
+  bivariateChipBtn.type = "button";
+  const bivariateLabel = document.createElement("span");
+  localizer.text(bivariateLabel, "chips.bivariate");
+  bivariateLabel.className = "whitespace-nowrap";
+  const bivariateGlyph = document.createElement("span");
+  bivariateGlyph.className = "grid grid-cols-2 gap-px";
+  for (const color of ["#be64ac", "#3b4994", "#e8e8e8", "#5ac8c8"]) {
+    const cell = document.createElement("span");
+    cell.className = "h-1.5 w-1.5";
+    cell.style.backgroundColor = color;
+    bivariateGlyph.appendChild(cell);
+  }
+  bivariateChipBtn.appendChild(bivariateGlyph);
+  bivariateChipBtn.appendChild(bivariateLabel);
+  const updateBivariateChipState = () => {
+    bivariateChipBtn.className = `${CATEGORY_CHIP_CLASSES} ${bivariateEnabled ? EXTREMAS_CHIP_ON_CLASSES : CATEGORY_CHIP_NEUTRAL_CLASSES}`;
+    bivariateChipBtn.setAttribute("aria-pressed", `${bivariateEnabled}`);
+    bivariateChipBtn.title = t(bivariateEnabled ? "chips.bivariateOnTitle" : "chips.bivariateOffTitle");
+  };
+  updateBivariateChipState();
+  const handleBivariateChipClick = () => {
+    options.onBivariateToggle?.();
+  };
+  bivariateChipBtn.addEventListener("click", handleBivariateChipClick);
+
   const renderSecondaryStatChip = () => {
     // Clean up existing
     if (secondaryChipEntry) {
@@ -2020,6 +2105,9 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
       }
       secondaryChipEntry = null;
     }
+    if (bivariateChipBtn.parentElement === list) {
+      list.removeChild(bivariateChipBtn);
+    }
 
     if (!secondaryStatId || isMobile || searchExpanded) {
       return;
@@ -2034,6 +2122,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     secondaryChipEntry = chipData;
     // Append directly to list so it appears in the same row
     list.appendChild(chipData.btn);
+    list.appendChild(bivariateChipBtn);
     positionTrailingChips();
   };
 
@@ -2068,6 +2157,10 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     exportCsvAreasDownloadBtn.removeEventListener("focus", handleExportCsvAreasFocus);
     exportCsvAreasDownloadBtn.removeEventListener("blur", handleExportCsvAreasBlur);
     extremasChipBtn.removeEventListener("click", handleExtremasChipClick);
+    drawShapeChipBtn.removeEventListener("click", handleDrawShapeChipClick);
+    drawRadiusChipBtn.removeEventListener("click", handleDrawRadiusChipClick);
+    clearDrawnChipBtn.removeEventListener("click", handleClearDrawnChipClick);
+    bivariateChipBtn.removeEventListener("click", handleBivariateChipClick);
     cleanupStatEntries();
     if (secondaryChipEntry) {
       secondaryChipEntry.btn.removeEventListener("click", secondaryChipEntry.handleClick);
@@ -2085,6 +2178,7 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     if (unsubscribeStats) unsubscribeStats();
     if (unsubscribeCategories) unsubscribeCategories();
     if (isMobile) window.removeEventListener("resize", handleResize);
+    localizer.destroy();
   };
 
   update();
@@ -2113,12 +2207,14 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     applyMobileLabelWidths();
   };
 
+  let timeSelection: TimeSelection | null = null;
   const setTimeSelection = (selection: TimeSelection | null) => {
+    timeSelection = selection;
     // Update the label text (keep the icon)
     if (selection) {
       labelText.textContent = formatTimeSelectionLabel(selection);
     } else {
-      labelText.textContent = isMobile ? "Open Now" : "Hours Open";
+      labelText.textContent = t(isMobile ? "chips.openNow" : "chips.hoursOpen");
     }
     // Show close section (divider + icon) only when a time is selected
     closeSection.classList.toggle("hidden", !selection);
@@ -2130,6 +2226,19 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
     window.addEventListener("resize", handleResize);
   }
 
+  // Text built from state (toggle titles, busy labels, chip summaries) is
+  // re-rendered rather than bound, since those elements are rebuilt often.
+  localizer.onChange(() => {
+    updateOrgsChipState();
+    updateExtremasChipState();
+    updateBivariateChipState();
+    setAreasModeInternal(currentAreasMode);
+    setExportActionBusy(exportActionBusy);
+    setTimeSelection(timeSelection);
+    rebuildCategoryChips(mapCategories);
+    renderSecondaryStatChip();
+  });
+
   const setVisibleStatIds = (ids: string[] | null) => {
     visibleStatIds = ids ? new Set(ids) : null;
     update();
@@ -2164,6 +2273,10 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
       extremasVisible = visible;
       applyAccessoryChipVisibility();
     },
+    setBivariateEnabled: (enabled: boolean) => {
+      bivariateEnabled = enabled;
+      updateBivariateChipState();
+    },
     setTimeFilterAvailable: (available: boolean) => {
       timeFilterAvailable = available;
       applyAccessoryChipVisibility();
@@ -2172,6 +2285,11 @@ export const createCategoryChips = (options: CategoryChipsOptions = {}): Categor
       exportCsvAreasVisible = visible;
       updateExportCsvAreasActionVisibility();
     },
+    setDrawState: (state: { mode: DrawMode | null; hasShape: boolean }) => {
+      drawMode = state.mode;
+      hasDrawnShape = state.hasShape;
+      updateDrawChipState();
+    },
     setTimeSelection,
     setSidebarExpandVisible: (visible: boolean) => {
       // Defensive reset: if desktop search UI has been hidden externally, ensure
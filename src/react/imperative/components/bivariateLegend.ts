@@ -0,0 +1,88 @@
+import { formatStatValueCompact } from "../../../lib/format";
+import { BIVARIATE_CLASSES, BIVARIATE_CLASS_LABELS, BIVARIATE_COLORS } from "../../../lib/bivariate";
+
+export interface BivariateLegendAxis {
+  label: string;
+  type?: string;
+  /** Tercile thresholds (two values when the data splits cleanly). */
+  breaks: number[];
+}
+
+export interface BivariateLegendController {
+  element: HTMLElement;
+  pill: HTMLElement;
+  setVisible: (visible: boolean) => void;
+  setAxes: (primary: BivariateLegendAxis, secondary: BivariateLegendAxis) => void;
+  destroy: () => void;
+}
+
+const describeAxis = (axis: BivariateLegendAxis): string => {
+  const fmt = (value: number) => formatStatValueCompact(value, (axis.type || "count").toLowerCase());
+  const [low, high] = axis.breaks;
+  if (low === undefined) return axis.label;
+  if (high === undefined) return `${axis.label}: below ${fmt(low)} / ${fmt(low)}+`;
+  return `${axis.label}: ${BIVARIATE_CLASS_LABELS[0]} < ${fmt(low)}, ${BIVARIATE_CLASS_LABELS[1]} ${fmt(low)}–${fmt(high)}, ${BIVARIATE_CLASS_LABELS[2]} ≥ ${fmt(high)}`;
+};
+
+// 2D legend for bivariate mode: primary stat on the vertical axis, secondary
+// on the horizontal, matching the [primary][secondary] palette layout.
+export const createBivariateLegend = (): BivariateLegendController => {
+  const wrapper = document.createElement("div");
+  // Wrapper is positioned by parent legend row
+  wrapper.className = "pointer-events-none";
+
+  const pill = document.createElement("div");
+  pill.className = [
+    "pointer-events-auto inline-flex items-center gap-2 rounded-lg border px-3 py-1.5 text-[10px] font-medium",
+    "bg-white/90 text-slate-600 border-slate-200 shadow-sm backdrop-blur-sm",
+    "dark:bg-slate-900/80 dark:text-slate-300 dark:border-slate-700",
+  ].join(" ");
+  pill.setAttribute("role", "img");
+
+  const primaryLabel = document.createElement("span");
+  primaryLabel.className = "max-w-[8rem] truncate [writing-mode:vertical-rl] rotate-180";
+
+  const gridColumn = document.createElement("div");
+  gridColumn.className = "flex flex-col items-start gap-1";
+
+  const grid = document.createElement("div");
+  grid.className = "grid grid-cols-3 gap-px";
+  // Render top row = high primary so "up" reads as more.
+  for (let row = BIVARIATE_CLASSES - 1; row >= 0; row -= 1) {
+    for (let col = 0; col < BIVARIATE_CLASSES; col += 1) {
+      const cell = document.createElement("span");
+      cell.className = "h-3 w-3";
+      cell.style.backgroundColor = BIVARIATE_COLORS[row][col];
+      grid.appendChild(cell);
+    }
+  }
+
+  const secondaryLabel = document.createElement("span");
+  secondaryLabel.className = "max-w-[10rem] truncate";
+
+  gridColumn.appendChild(grid);
+  gridColumn.appendChild(secondaryLabel);
+  pill.appendChild(primaryLabel);
+  pill.appendChild(gridColumn);
+  wrapper.appendChild(pill);
+
+  const setVisible = (visible: boolean) => {
+    wrapper.classList.toggle("hidden", !visible);
+  };
+
+  const setAxes = (primary: BivariateLegendAxis, secondary: BivariateLegendAxis) => {
+    primaryLabel.textContent = `${primary.label} →`;
+    secondaryLabel.textContent = `${secondary.label} →`;
+    const description = `${describeAxis(primary)}\n${describeAxis(secondary)}`;
+    pill.title = description;
+    pill.setAttribute("aria-label", `Bivariate legend. ${description.replace("\n", ". ")}`);
+  };
+
+  const destroy = () => {
+    wrapper.remove();
+  };
+
+  setVisible(false);
+
+  return { element: wrapper, pill, setVisible, setAxes, destroy };
+};
@@ -0,0 +1,223 @@
+import { createDomLocalizer, t, type MessageKey } from "../../../lib/i18n";
+import {
+  DEFAULT_EMBED_HEIGHT,
+  buildEmbedSnippet,
+  buildEmbedUrl,
+  normalizeHostOrigin,
+} from "../../lib/embedMode";
+
+export interface EmbedCodeDialogController {
+  element: HTMLElement;
+  open: () => void;
+  close: () => void;
+  destroy: () => void;
+}
+
+interface EmbedCodeDialogOptions {
+  /** Share link for the current map view; the snippet embeds this state. */
+  getShareUrl: () => string;
+  showToast: (message: string, tone: "success" | "error") => void;
+}
+
+const MIN_HEIGHT = 200;
+const MAX_HEIGHT = 2000;
+
+const canWriteTextClipboard = () =>
+  typeof window !== "undefined" &&
+  window.isSecureContext &&
+  typeof navigator !== "undefined" &&
+  typeof navigator.clipboard?.writeText === "function";
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-slate-300 bg-white px-2.5 py-1.5 text-xs text-slate-800 outline-none focus:border-brand-400 focus:ring-2 focus:ring-brand-200 aria-[invalid=true]:border-rose-400 dark:border-slate-600 dark:bg-slate-950 dark:text-slate-100";
+
+// Embed-code generator opened from the share menu: a few widget options and
+// the iframe snippet they produce, rebuilt as the options change.
+export const createEmbedCodeDialog = ({ getShareUrl, showToast }: EmbedCodeDialogOptions): EmbedCodeDialogController => {
+  const localizer = createDomLocalizer();
+
+  const backdrop = document.createElement("div");
+  backdrop.className = "absolute inset-0 z-[40] hidden flex items-center justify-center bg-slate-900/40 p-3";
+  backdrop.setAttribute("role", "dialog");
+  backdrop.setAttribute("aria-modal", "true");
+  backdrop.setAttribute("aria-labelledby", "embed-code-dialog-title");
+
+  const card = document.createElement("div");
+  card.className =
+    "w-full max-w-xl rounded-xl border border-slate-200 bg-white p-3 shadow-xl dark:border-slate-700 dark:bg-slate-900";
+
+  const title = document.createElement("h3");
+  title.id = "embed-code-dialog-title";
+  title.className = "text-sm font-semibold text-slate-800 dark:text-slate-100";
+  localizer.text(title, "embed.title");
+
+  const description = document.createElement("p");
+  description.className = "mt-1 text-xs text-slate-500 dark:text-slate-400";
+  localizer.text(description, "embed.description");
+
+  const fields = document.createElement("div");
+  fields.className = "mt-3 grid gap-3 sm:grid-cols-2";
+
+  const createField = (id: string, labelKey: MessageKey, input: HTMLInputElement) => {
+    const field = document.createElement("div");
+    const label = document.createElement("label");
+    label.htmlFor = id;
+    label.className = "mb-1 block text-xs font-medium text-slate-700 dark:text-slate-200";
+    localizer.text(label, labelKey);
+    input.id = id;
+    input.className = INPUT_CLASS;
+    field.appendChild(label);
+    field.appendChild(input);
+    return field;
+  };
+
+  const heightInput = document.createElement("input");
+  heightInput.type = "number";
+  heightInput.min = String(MIN_HEIGHT);
+  heightInput.max = String(MAX_HEIGHT);
+  heightInput.step = "50";
+  heightInput.value = String(DEFAULT_EMBED_HEIGHT);
+  fields.appendChild(createField("embed-code-height", "embed.height", heightInput));
+
+  const originInput = document.createElement("input");
+  originInput.type = "url";
+  originInput.placeholder = "https://example.org";
+  originInput.setAttribute("aria-describedby", "embed-code-origin-hint");
+  const originField = createField("embed-code-origin", "embed.hostOrigin", originInput);
+  const originHint = document.createElement("p");
+  originHint.id = "embed-code-origin-hint";
+  originHint.className = "mt-1 text-[11px] text-slate-500 dark:text-slate-400";
+  localizer.text(originHint, "embed.hostOriginHint");
+  originField.appendChild(originHint);
+  fields.appendChild(originField);
+
+  const allowChangesLabel = document.createElement("label");
+  allowChangesLabel.className = "mt-3 flex items-center gap-2 text-xs text-slate-700 dark:text-slate-200";
+  const allowChangesInput = document.createElement("input");
+  allowChangesInput.type = "checkbox";
+  allowChangesInput.className = "h-4 w-4";
+  const allowChangesText = document.createElement("span");
+  localizer.text(allowChangesText, "embed.allowChanges");
+  allowChangesLabel.appendChild(allowChangesInput);
+  allowChangesLabel.appendChild(allowChangesText);
+
+  const textarea = document.createElement("textarea");
+  textarea.className =
+    "mt-3 h-32 w-full rounded-lg border border-slate-300 bg-slate-50 px-2.5 py-2 font-mono text-xs text-slate-800 outline-none focus:border-brand-400 focus:ring-2 focus:ring-brand-200 dark:border-slate-600 dark:bg-slate-950 dark:text-slate-100";
+  textarea.readOnly = true;
+  localizer.attr(textarea, "aria-label", "embed.code");
+
+  const actions = document.createElement("div");
+  actions.className = "mt-3 flex justify-end gap-2";
+  const closeBtn = document.createElement("button");
+  closeBtn.type = "button";
+  closeBtn.className =
+    "rounded-md border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 dark:border-slate-600 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-slate-800";
+  localizer.text(closeBtn, "embed.close");
+  const copyBtn = document.createElement("button");
+  copyBtn.type = "button";
+  copyBtn.className =
+    "rounded-md border border-brand-500 bg-brand-500 px-3 py-1.5 text-xs font-medium text-white hover:bg-brand-600";
+  localizer.text(copyBtn, "embed.copy");
+  actions.appendChild(closeBtn);
+  actions.appendChild(copyBtn);
+
+  card.appendChild(title);
+  card.appendChild(description);
+  card.appendChild(fields);
+  card.appendChild(allowChangesLabel);
+  card.appendChild(textarea);
+  card.appendChild(actions);
+  backdrop.appendChild(card);
+
+  let shareUrl = "";
+  let returnFocusEl: HTMLElement | null = null;
+
+  const readHeight = (): number => {
+    const value = Number(heightInput.value);
+    if (!Number.isFinite(value) || value <= 0) return DEFAULT_EMBED_HEIGHT;
+    return Math.min(MAX_HEIGHT, Math.max(MIN_HEIGHT, value));
+  };
+
+  const render = () => {
+    if (!shareUrl) return;
+    const rawOrigin = originInput.value.trim();
+    const hostOrigin = normalizeHostOrigin(rawOrigin);
+    originInput.setAttribute("aria-invalid", String(Boolean(rawOrigin) && !hostOrigin));
+    const url = buildEmbedUrl(shareUrl, { locked: !allowChangesInput.checked, hostOrigin });
+    textarea.value = buildEmbedSnippet(url, { height: readHeight(), title: t("embed.iframeTitle") });
+  };
+  localizer.onChange(render);
+
+  const selectSnippet = () => {
+    textarea.focus();
+    textarea.select();
+  };
+
+  const close = () => {
+    if (backdrop.classList.contains("hidden")) return;
+    backdrop.classList.add("hidden");
+    if (returnFocusEl?.isConnected) returnFocusEl.focus();
+    returnFocusEl = null;
+  };
+
+  const open = () => {
+    returnFocusEl = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    shareUrl = getShareUrl();
+    render();
+    backdrop.classList.remove("hidden");
+    window.setTimeout(selectSnippet, 0);
+  };
+
+  const handleCopyClick = async () => {
+    render();
+    if (!canWriteTextClipboard()) {
+      selectSnippet();
+      showToast(t("embed.copyFailed"), "error");
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(textarea.value);
+      showToast(t("embed.copied"), "success");
+    } catch (error) {
+      console.warn("Clipboard text write failed", error);
+      selectSnippet();
+      showToast(t("embed.copyFailed"), "error");
+    }
+  };
+
+  const handleBackdropClick = (event: MouseEvent) => {
+    if (event.target !== backdrop) return;
+    close();
+  };
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key !== "Escape") return;
+    event.preventDefault();
+    close();
+  };
+
+  backdrop.addEventListener("click", handleBackdropClick);
+  backdrop.addEventListener("keydown", handleKeyDown);
+  heightInput.addEventListener("input", render);
+  originInput.addEventListener("input", render);
+  allowChangesInput.addEventListener("change", render);
+  copyBtn.addEventListener("click", handleCopyClick);
+  closeBtn.addEventListener("click", close);
+
+  return {
+    element: backdrop,
+    open,
+    close,
+    destroy: () => {
+      localizer.destroy();
+      backdrop.removeEventListener("click", handleBackdropClick);
+      backdrop.removeEventListener("keydown", handleKeyDown);
+      heightInput.removeEventListener("input", render);
+      originInput.removeEventListener("input", render);
+      allowChangesInput.removeEventListener("change", render);
+      copyBtn.removeEventListener("click", handleCopyClick);
+      closeBtn.removeEventListener("click", close);
+      backdrop.remove();
+    },
+  };
+};
@@ -25,6 +25,7 @@ import {
   MAP_TOUR_SET_STAT_EVENT,
   type MapTourApplyStateDetail,
 } from "../constants/mapTourEvents";
+import { createDomLocalizer, t } from "../../../lib/i18n";
 
 export interface MapOnboardingTourController {
   start: () => void;
@@ -114,6 +115,10 @@ const TOUR_PROGRESS_TOTAL_STEPS = TOUR_STEP_SEQUENCE.filter((step) => !TOUR_PROG
 
 const targetSelector = (target: string): string => `[${MAP_TOUR_TARGET_ATTR}="${target}"]`;
 
+// The sidebar toggle is found by its (localized) title rather than a tour target.
+const isSidebarToggleTitle = (title: string): boolean =>
+  title === t("sidebar.expand") || title === t("sidebar.collapse");
+
 const createNoopController = (): MapOnboardingTourController => ({
   start: () => {},
   showIntro: () => {},
@@ -164,6 +169,7 @@ export const createMapOnboardingTour = ({
     return createNoopController();
   }
 
+  const localizer = createDomLocalizer();
   let onboardingStep: OnboardingStep | null = null;
   let onboardingRetryTimer: number | null = null;
   let onboardingPositionRaf: number | null = null;
@@ -189,11 +195,15 @@ export const createMapOnboardingTour = ({
   welcomeToast.className =
     "pointer-events-auto absolute z-[32] hidden w-[22rem] rounded-xl border border-slate-200 bg-white/95 p-3.5 shadow-xl backdrop-blur-sm dark:border-slate-700 dark:bg-slate-900/95";
   welcomeToast.setAttribute("role", "dialog");
-  welcomeToast.setAttribute("aria-label", "Welcome tour");
-  welcomeToast.innerHTML = `
-    <p class="text-sm font-semibold text-slate-900 dark:text-slate-100">Welcome to Neighborhood Explorer</p>
-    <p class="mt-1 text-xs text-slate-600 dark:text-slate-300">Welcome, Neighbor! This map helps you learn more about what is happening in communities across Oklahoma. It includes information gathered from trusted public sources, purchased data, and contributions from local neighbors. You can explore different places in Oklahoma, see how things change over time, and focus on what matters to you. Whenever you are ready, you can take a quick tour to help you get started.</p>
-  `;
+  localizer.attr(welcomeToast, "aria-label", "tour.welcomeLabel");
+  const welcomeTitle = document.createElement("p");
+  welcomeTitle.className = "text-sm font-semibold text-slate-900 dark:text-slate-100";
+  localizer.text(welcomeTitle, "tour.welcomeTitle");
+  const welcomeBody = document.createElement("p");
+  welcomeBody.className = "mt-1 text-xs text-slate-600 dark:text-slate-300";
+  localizer.text(welcomeBody, "tour.welcomeBody");
+  welcomeToast.appendChild(welcomeTitle);
+  welcomeToast.appendChild(welcomeBody);
 
   const welcomeActions = document.createElement("div");
   welcomeActions.className = "mt-3 flex items-center justify-end gap-2";
@@ -201,11 +211,11 @@ export const createMapOnboardingTour = ({
   dismissWelcomeBtn.type = "button";
   dismissWelcomeBtn.className =
     "rounded-md border border-slate-200 px-2.5 py-1 text-xs font-medium text-slate-600 transition hover:bg-slate-100 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-800";
-  dismissWelcomeBtn.textContent = "Dismiss";
+  localizer.text(dismissWelcomeBtn, "tour.dismiss");
   const startTourBtn = document.createElement("button");
   startTourBtn.type = "button";
   startTourBtn.className = TOUR_PRIMARY_BUTTON_CLASS;
-  startTourBtn.textContent = "Start tour";
+  localizer.text(startTourBtn, "tour.startTour");
   welcomeActions.appendChild(dismissWelcomeBtn);
   welcomeActions.appendChild(startTourBtn);
   welcomeToast.appendChild(welcomeActions);
@@ -216,7 +226,7 @@ export const createMapOnboardingTour = ({
     "pointer-events-none absolute z-[33] hidden max-w-[15rem] rounded-lg border border-brand-200/80 bg-white/95 px-2.5 py-1.5 text-[11px] font-medium leading-4 text-slate-700 opacity-0 shadow-lg transition-opacity duration-150 ease-out backdrop-blur-sm dark:border-brand-500/40 dark:bg-slate-900/95 dark:text-slate-200";
   restartHintToast.setAttribute("role", "status");
   restartHintToast.setAttribute("aria-live", "polite");
-  restartHintToast.textContent = "Click here to start the tour again";
+  localizer.text(restartHintToast, "tour.restartHint");
   container.appendChild(restartHintToast);
 
   const stepOverlay = document.createElement("div");
@@ -528,7 +538,7 @@ export const createMapOnboardingTour = ({
     const shareBtn = getShareChipTarget();
     if (!shareBtn) return null;
     const panel = shareBtn.parentElement
-      ? shareBtn.parentElement.querySelector<HTMLElement>('[role="dialog"][aria-label="Share options"]')
+      ? shareBtn.parentElement.querySelector<HTMLElement>(`[role="dialog"][aria-label="${t("chips.shareOptions")}"]`)
       : null;
     return isVisibleTarget(panel) ? panel : null;
   };
@@ -537,7 +547,7 @@ export const createMapOnboardingTour = ({
     const panel = getSharePanelTarget();
     if (!panel) return false;
     const screenshotCopyBtn = panel.querySelector<HTMLButtonElement>(
-      'button[title="Copy a map screenshot to the clipboard"]',
+      `button[title="${t("chips.screenshotCopyTitle")}"]`,
     );
     if (!screenshotCopyBtn || screenshotCopyBtn.disabled) return false;
     screenshotCopyBtn.click();
@@ -554,12 +564,8 @@ export const createMapOnboardingTour = ({
     if (!doc) return null;
     return (
       Array.from(doc.querySelectorAll<HTMLButtonElement>("button[title]")).find((button) => {
-        const title = (button.getAttribute("title") ?? "").trim().toLowerCase();
-        return (
-          title.includes("sidebar") &&
-          (title.includes("expand") || title.includes("collapse")) &&
-          isVisibleTarget(button)
-        );
+        const title = (button.getAttribute("title") ?? "").trim();
+        return isSidebarToggleTitle(title) && isVisibleTarget(button);
       }) ?? null
     );
   };
@@ -567,7 +573,7 @@ export const createMapOnboardingTour = ({
   const getSearchBarTarget = (): HTMLElement | null => {
     const doc = targetRoot.ownerDocument;
     if (!doc) return null;
-    const input = doc.querySelector<HTMLInputElement>('input[placeholder="Stats, orgs, cities, zips, addresses..."]');
+    const input = doc.querySelector<HTMLInputElement>(`input[placeholder="${t("sidebar.searchPlaceholder")}"]`);
     const menuBtn = getSidebarToggleButton();
     const visibleInput = input && isVisibleTarget(input) ? input : null;
     const visibleMenuBtn = menuBtn && isVisibleTarget(menuBtn) ? menuBtn : null;
@@ -589,7 +595,7 @@ export const createMapOnboardingTour = ({
       if (!isVisibleTarget(button)) continue;
       const ariaLabel = (button.getAttribute("aria-label") ?? "").trim();
       const text = (button.textContent ?? "").trim();
-      if (ariaLabel === "Zoom to location") continue;
+      if (ariaLabel === t("org.zoomToLocation")) continue;
       if (
         ariaLabel === "My Location" ||
         ariaLabel === "Locating..." ||
@@ -682,8 +688,8 @@ export const createMapOnboardingTour = ({
   const openSidebarPanel = (): boolean => {
     const sidebarBtn = getSidebarToggleButton();
     if (!sidebarBtn) return false;
-    const title = (sidebarBtn.getAttribute("title") ?? "").trim().toLowerCase();
-    if (title.includes("expand")) {
+    const title = (sidebarBtn.getAttribute("title") ?? "").trim();
+    if (title === t("sidebar.expand")) {
       sidebarBtn.click();
     }
     return true;
@@ -692,8 +698,8 @@ export const createMapOnboardingTour = ({
   const closeSidebarPanel = (): boolean => {
     const sidebarBtn = getSidebarToggleButton();
     if (!sidebarBtn) return false;
-    const title = (sidebarBtn.getAttribute("title") ?? "").trim().toLowerCase();
-    if (title.includes("collapse")) {
+    const title = (sidebarBtn.getAttribute("title") ?? "").trim();
+    if (title === t("sidebar.collapse")) {
       sidebarBtn.click();
     }
     return true;
@@ -1266,7 +1272,7 @@ export const createMapOnboardingTour = ({
     const stepIndex = onboardingStep ? TOUR_STEP_SEQUENCE.indexOf(onboardingStep) : -1;
     const completedSteps = countProgressStepsThrough(onboardingStep);
     const showProgress = onboardingStep !== "tourFinale" && TOUR_PROGRESS_TOTAL_STEPS > 0;
-    const canGoBack = stepIndex > 0 && primary.label === "Next";
+    const canGoBack = stepIndex > 0 && primary.label === t("tour.next");
 
     const footer = document.createElement("div");
     footer.className = showProgress
@@ -1275,7 +1281,10 @@ export const createMapOnboardingTour = ({
     if (showProgress) {
       const progress = document.createElement("p");
       progress.className = "text-[11px] text-slate-400 dark:text-slate-500";
-      progress.textContent = `${Math.min(completedSteps, TOUR_PROGRESS_TOTAL_STEPS)}/${TOUR_PROGRESS_TOTAL_STEPS} Steps`;
+      progress.textContent = t("tour.progress", {
+        completed: Math.min(completedSteps, TOUR_PROGRESS_TOTAL_STEPS),
+        total: TOUR_PROGRESS_TOTAL_STEPS,
+      });
       footer.appendChild(progress);
     }
 
@@ -1287,7 +1296,7 @@ export const createMapOnboardingTour = ({
       secondaryBtn.className =
         secondary.tone === "primary"
           ? TOUR_PRIMARY_BUTTON_CLASS
-          : secondary.label === "Dismiss"
+          : secondary.label === t("tour.dismiss")
             ? TOUR_DISMISS_BUTTON_CLASS
             : TOUR_NEUTRAL_BUTTON_CLASS;
       secondaryBtn.textContent = secondary.label;
@@ -1298,7 +1307,7 @@ export const createMapOnboardingTour = ({
       const backBtn = document.createElement("button");
       backBtn.type = "button";
       backBtn.className = TOUR_NEUTRAL_BUTTON_CLASS;
-      backBtn.textContent = "Back";
+      backBtn.textContent = t("tour.back");
       backBtn.addEventListener("click", () => showPreviousStep());
       actions.appendChild(backBtn);
     }
@@ -1308,7 +1317,7 @@ export const createMapOnboardingTour = ({
       tertiaryBtn.className =
         tertiary.tone === "primary"
           ? TOUR_PRIMARY_BUTTON_CLASS
-          : tertiary.label === "Dismiss"
+          : tertiary.label === t("tour.dismiss")
             ? TOUR_DISMISS_BUTTON_CLASS
             : TOUR_NEUTRAL_BUTTON_CLASS;
       tertiaryBtn.textContent = tertiary.label;
@@ -1392,18 +1401,18 @@ export const createMapOnboardingTour = ({
     stepOverlay.classList.remove("hidden");
     renderTourCard(
       {
-        action: "Switch the version of your mapped statistic. Change-over-time data loading in now...",
-        note: "See areas of OK gaining (indigo-blue color) & losing (plum purple color) the most residents.",
+        action: t("tour.changeAction"),
+        note: t("tour.changeNote"),
       },
       {
-        label: "Next",
+        label: t("tour.next"),
         onClick: () => {
           setTourLock(null);
           closeSelectedStatDropdown();
           showShowingExtremasStep();
         },
       },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -1440,12 +1449,12 @@ export const createMapOnboardingTour = ({
     stepOverlay.classList.remove("hidden");
     renderTourCard(
       {
-        body: "See the highest and lowest location extremes for featured statistics.",
+        body: t("tour.extremasBody"),
         action:
-          "Hover your mouse over the two red triangles in Oklahoma county to see which issues are most extreme there in all of OK.",
+          t("tour.extremasAction"),
       },
-      { label: "Next", onClick: () => showShowingOrganizationsStep() },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.next"), onClick: () => showShowingOrganizationsStep() },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -1489,16 +1498,16 @@ export const createMapOnboardingTour = ({
     stepOverlay.classList.remove("hidden");
     renderTourCard(
       {
-        body: "Organizations appear as orange number clusters or single circles on the map.",
-        action: "Click the orange circles to see which non-profits are closest to these blue areas of high SNAP Food registration.",
+        body: t("tour.orgsBody"),
+        action: t("tour.orgsAction"),
       },
       {
-        label: "Next",
+        label: t("tour.next"),
         onClick: () => {
           continueAfterShowingOrganizationsExit(showShowingAreasStep);
         },
       },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -1536,19 +1545,19 @@ export const createMapOnboardingTour = ({
     stepOverlay.classList.remove("hidden");
     renderTourCard(
       {
-        body: "See map boundaries update based on your zoom level or set to just ZIP, county, etc.",
+        body: t("tour.areasBody"),
         action:
-          "Zoom into Payne county, or select \"Areas: ZIPs\", to see which ZIPs are hardest hit by Payne's exceeding rent burden.",
+          t("tour.areasAction"),
       },
       {
-        label: "Next",
+        label: t("tour.next"),
         onClick: () => {
           setTourLock(null);
           closeShowingPanel();
           showShareStep();
         },
       },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -1588,12 +1597,12 @@ export const createMapOnboardingTour = ({
     stepOverlay.classList.remove("hidden");
     renderTourCard(
       {
-        body: "Share your current map view with others! Add to a presentation, embed a live map in your website, etc.",
+        body: t("tour.shareBody"),
         action:
-          "Paste this marriage map (command/control+v) into a doc, slide, social post, etc.",
+          t("tour.shareAction"),
       },
       {
-        label: "Next",
+        label: t("tour.next"),
         onClick: () => {
           shareStepAutoCopyTriggered = false;
           setTourLock(null);
@@ -1601,7 +1610,7 @@ export const createMapOnboardingTour = ({
           showMyLocationStep();
         },
       },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     if (!shareStepAutoCopyTriggered) {
       if (triggerShareScreenshotCopy()) {
@@ -1636,17 +1645,17 @@ export const createMapOnboardingTour = ({
     stepOverlay.classList.remove("hidden");
     renderTourCard(
       {
-        body: "Search for stats, orgs, zips, or addresses. Browse data.",
-        action: "Click the three-lined hamburger menu icon now to browse our current options.",
+        body: t("tour.searchBody"),
+        action: t("tour.searchAction"),
       },
       {
-        label: "Next",
+        label: t("tour.next"),
         onClick: () => {
           if (!openSidebarPanel()) return;
           showSidebarStatDetailsStep();
         },
       },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -1675,12 +1684,12 @@ export const createMapOnboardingTour = ({
     stepOverlay.classList.remove("hidden");
     renderTourCard(
       {
-        body: "Learn more about & adjust the active stat (e.g. High School Graduation).",
+        body: t("tour.statDetailsBody"),
         action:
-          'Click "Other Degrees: Graduate..." plus "Options: Change \'21-23" on to see which areas are getting the most new graduate degrees relative to size recently.',
+          t("tour.statDetailsAction"),
       },
-      { label: "Next", onClick: () => showAdvancedStatsStep() },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.next"), onClick: () => showAdvancedStatsStep() },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -1706,11 +1715,11 @@ export const createMapOnboardingTour = ({
     stepOverlay.classList.remove("hidden");
     renderTourCard(
       {
-        body: "Advanced stats mode to see charts for your selected map area(s).",
-        action: "Hover over the graph to see how quickly population is increasing for 73108.",
+        body: t("tour.advancedBody"),
+        action: t("tour.advancedAction"),
       },
-      { label: "Next", onClick: () => showSidebarAddAreasStep() },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.next"), onClick: () => showSidebarAddAreasStep() },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -1742,18 +1751,18 @@ export const createMapOnboardingTour = ({
     }, 80);
     renderTourCard(
       {
-        body: "Add additional areas to compare.",
-        action: "Type a zip or shift+click one on the map! Like 73129 just added.",
-        note: "Why is one area growing and its neighbor dropping?",
+        body: t("tour.addAreasBody"),
+        action: t("tour.addAreasAction"),
+        note: t("tour.addAreasNote"),
       },
       {
-        label: "Next",
+        label: t("tour.next"),
         onClick: () => {
           closeSidebarAddAreasDropdown();
           showSidebarDemographicsExpandStep();
         },
       },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -1782,18 +1791,18 @@ export const createMapOnboardingTour = ({
     ensureSidebarDemographicsExpanded(true);
     renderTourCard(
       {
-        body: "See demographic breakdown of your selected area(s).",
+        body: t("tour.demographicsBody"),
         action:
-          "Hover bars with your mouse to see the largest ethnicities, income levels, etc. for this fast growing area of the city.",
+          t("tour.demographicsAction"),
       },
       {
-        label: "Next",
+        label: t("tour.next"),
         onClick: () => {
           ensureSidebarDemographicsExpanded(false);
           showSidebarOtherStatsStep();
         },
       },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -1820,26 +1829,26 @@ export const createMapOnboardingTour = ({
     applyTourSecondaryStat(TOUR_OTHER_STATS_SECONDARY_STAT_ID);
     const note = document.createElement("p");
     note.className = "mt-2 text-xs leading-5 text-slate-700 dark:text-slate-200";
-    note.append("Which areas have ");
+    note.append(t("tour.otherStatsNoteBefore"));
     const both = document.createElement("strong");
-    both.textContent = "both";
+    both.textContent = t("tour.otherStatsNoteBoth");
     note.appendChild(both);
-    note.append(" high food and disability needs?");
+    note.append(t("tour.otherStatsNoteAfter"));
     renderTourCard(
       {
-        body: "More statistics to explore (e.g. Households Receiving SNAP now showing) or layer...",
+        body: t("tour.otherStatsBody"),
         action:
-          'Shift+clicking the "Has Disability" stat to layer (green dots) over our SNAP statistic.',
+          t("tour.otherStatsAction"),
         note,
       },
       {
-        label: "Next",
+        label: t("tour.next"),
         onClick: () => {
           applyTourSecondaryStat(null);
           showSidebarOrgsTabStep();
         },
       },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -1868,12 +1877,12 @@ export const createMapOnboardingTour = ({
     ensureShowingOrganizationsVisible(true);
     renderTourCard(
       {
-        body: "Switch to the organizations tab to browse organizations involved in your current map view.",
+        body: t("tour.orgsTabBody"),
         action:
-          "Click an org card listed to see its location among these high SNAP populations.",
+          t("tour.orgsTabAction"),
       },
-      { label: "Next", onClick: () => showSidebarCategoryFilterStep() },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.next"), onClick: () => showSidebarCategoryFilterStep() },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -1913,12 +1922,12 @@ export const createMapOnboardingTour = ({
     stepOverlay.classList.remove("hidden");
     renderTourCard(
       {
-        body: "Filter orgs and stats to see org efforts related to certain types of needs.",
-        action: "Drag map to see the sidebar show just the Education orgs within your map view.",
-        note: "Which Edu organizations are concentrated around the areas of lowest high school graduation?",
+        body: t("tour.categoryBody"),
+        action: t("tour.categoryAction"),
+        note: t("tour.categoryNote"),
       },
-      { label: "Next", onClick: () => showTourFinaleStep() },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.next"), onClick: () => showTourFinaleStep() },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -1930,7 +1939,7 @@ export const createMapOnboardingTour = ({
     stepOverlay.classList.remove("hidden");
     const copy = document.createElement("p");
     copy.className = "text-xs leading-5 text-slate-700 dark:text-slate-200";
-    copy.append("Thank you for exploring with us! If you have any questions or ideas, please reach out to ");
+    copy.append(t("tour.finaleBody"));
     const emailLink = document.createElement("a");
     emailLink.href = "#";
     emailLink.className = "font-medium text-brand-600 underline underline-offset-2 hover:text-brand-700";
@@ -1943,9 +1952,9 @@ export const createMapOnboardingTour = ({
     copy.append(".");
     renderTourCard(
       copy,
-      { label: "Done", onClick: completeTourAndResetMapView },
-      { label: "Back", onClick: showPreviousStep },
-      { label: "Submit Feedback", onClick: openFeedbackFromTour },
+      { label: t("tour.done"), onClick: completeTourAndResetMapView },
+      { label: t("tour.back"), onClick: showPreviousStep },
+      { label: t("tour.submitFeedback"), onClick: openFeedbackFromTour },
     );
     positionFinalTourStep();
   };
@@ -1978,11 +1987,11 @@ export const createMapOnboardingTour = ({
     }
     renderTourCard(
       {
-        action: "Zooming to your current location.",
-        note: "What do you notice about the income level of individuals in or around your location?",
+        action: t("tour.myLocationAction"),
+        note: t("tour.myLocationNote"),
       },
-      { label: "Next", onClick: () => showLegendStep() },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.next"), onClick: () => showLegendStep() },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -2002,9 +2011,9 @@ export const createMapOnboardingTour = ({
     onboardingStep = "legend";
     stepOverlay.classList.remove("hidden");
     renderTourCard(
-      "Shows the highest and lowest values possible for your active statistic.",
-      { label: "Next", onClick: () => showBrandLogoStep() },
-      { label: "Dismiss", onClick: dismissTour },
+      t("tour.legendBody"),
+      { label: t("tour.next"), onClick: () => showBrandLogoStep() },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -2032,11 +2041,11 @@ export const createMapOnboardingTour = ({
     }
     renderTourCard(
       {
-        body: "Reset the map and UI back to defaults.",
-        action: "Clicked the NE App's logo in the top left corner",
+        body: t("tour.brandLogoBody"),
+        action: t("tour.brandLogoAction"),
       },
-      { label: "Next", onClick: () => showSearchMenuStep() },
-      { label: "Dismiss", onClick: dismissTour },
+      { label: t("tour.next"), onClick: () => showSearchMenuStep() },
+      { label: t("tour.dismiss"), onClick: dismissTour },
     );
     positionTourStep(target);
   };
@@ -2275,8 +2284,8 @@ export const createMapOnboardingTour = ({
     if (!(target instanceof Element)) return;
     const button = target.closest("button[title]");
     if (!(button instanceof HTMLButtonElement)) return;
-    const title = (button.getAttribute("title") ?? "").trim().toLowerCase();
-    if (!title.includes("sidebar") || (!title.includes("expand") && !title.includes("collapse"))) return;
+    const title = (button.getAttribute("title") ?? "").trim();
+    if (!isSidebarToggleTitle(title)) return;
     window.setTimeout(() => {
       if (onboardingStep !== "searchMenu") return;
       showSidebarStatDetailsStep();
@@ -2354,6 +2363,7 @@ export const createMapOnboardingTour = ({
     welcomeToast.remove();
     restartHintToast.remove();
     stepOverlay.remove();
+    localizer.destroy();
   };
 
   return { start, showIntro, setAutoPromptEnabled, refresh, destroy };
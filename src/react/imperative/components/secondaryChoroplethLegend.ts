@@ -6,6 +6,8 @@ export interface SecondaryChoroplethLegendController {
   setVisible: (visible: boolean) => void;
   setLoading: (loading: boolean) => void;
   setRange: (min: number, max: number, type?: string) => void;
+  /** Class thresholds and per-class colors; null shows only the min/max range. */
+  setBreaks: (breaks: number[] | null, colors?: string[]) => void;
   setColors: (lowHex: string, highHex: string) => void;
   destroy: () => void;
 }
@@ -68,9 +70,14 @@ export const createSecondaryChoroplethLegend = (isMobile?: boolean): SecondaryCh
   spinner.className = "h-3.5 w-3.5 animate-spin rounded-full border-2 border-current border-t-transparent";
   spinnerWrap.appendChild(spinner);
 
+  // Class breaks: min ▪ b1 ▪ b2 … ▪ max, with one swatch per class
+  const breaksGroup = document.createElement("div");
+  breaksGroup.className = "hidden items-center gap-1.5";
+
   pill.appendChild(minGroup);
   pill.appendChild(sep);
   pill.appendChild(maxGroup);
+  pill.appendChild(breaksGroup);
   pill.appendChild(spinnerWrap);
   wrapper.appendChild(pill);
 
@@ -83,9 +90,47 @@ export const createSecondaryChoroplethLegend = (isMobile?: boolean): SecondaryCh
     spinnerWrap.classList.toggle("inline-flex", loading);
   };
 
+  let currentBreaks: number[] | null = null;
+  let currentBreakColors: string[] = [];
+
+  const renderBreaks = (min: number, max: number, type?: string) => {
+    // Mobile keeps the compact min–max pill; break labels don't fit.
+    const showBreaks = !isMobile && Boolean(currentBreaks && currentBreaks.length > 0);
+    minGroup.classList.toggle("hidden", showBreaks);
+    sep.classList.toggle("hidden", showBreaks);
+    maxGroup.classList.toggle("hidden", showBreaks);
+    breaksGroup.classList.toggle("hidden", !showBreaks);
+    breaksGroup.classList.toggle("flex", showBreaks);
+    breaksGroup.replaceChildren();
+    if (!showBreaks || !currentBreaks) return;
+
+    const appendLabel = (value: number) => {
+      const label = document.createElement("span");
+      label.className = "tabular-nums";
+      label.textContent = formatValue(value, type, isMobile);
+      breaksGroup.appendChild(label);
+    };
+    const values = [Math.min(min, currentBreaks[0]), ...currentBreaks, Math.max(max, currentBreaks[currentBreaks.length - 1])];
+    values.forEach((value, index) => {
+      appendLabel(value);
+      const color = currentBreakColors[index];
+      if (index === values.length - 1 || !color) return;
+      const dot = document.createElement("span");
+      dot.className = "h-2.5 w-2.5 flex-shrink-0 rounded-sm ring-1 ring-black/5 dark:ring-white/10";
+      dot.style.backgroundColor = color;
+      breaksGroup.appendChild(dot);
+    });
+  };
+
   const setRange = (min: number, max: number, type?: string) => {
     minLabel.textContent = formatValue(min, type, isMobile);
     maxLabel.textContent = formatValue(max, type, isMobile);
+    renderBreaks(min, max, type);
+  };
+
+  const setBreaks = (breaks: number[] | null, colors: string[] = []) => {
+    currentBreaks = breaks;
+    currentBreakColors = colors;
   };
 
   const setColors = (lowHex: string, highHex: string) => {
@@ -99,5 +144,5 @@ export const createSecondaryChoroplethLegend = (isMobile?: boolean): SecondaryCh
 
   setVisible(false);
 
-  return { element: wrapper, pill, setVisible, setLoading, setRange, setColors, destroy };
+  return { element: wrapper, pill, setVisible, setLoading, setRange, setBreaks, setColors, destroy };
 };
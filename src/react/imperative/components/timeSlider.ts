@@ -0,0 +1,137 @@
+export interface TimeSliderController {
+  element: HTMLElement;
+  /** Available series dates (ascending) and the selected one; null selects the latest. */
+  setDates: (dates: string[], selected: string | null) => void;
+  setVisible: (visible: boolean) => void;
+  destroy: () => void;
+}
+
+interface TimeSliderOptions {
+  onDateChange: (date: string) => void;
+  /** Milliseconds each date stays on screen while playing. */
+  stepMs?: number;
+}
+
+const PLAY_ICON = "▶";
+const PAUSE_ICON = "❚❚";
+
+// Year scrubber with play/pause for stepping the choropleth through a stat's
+// series dates. Playback stops on the last date; pressing play again restarts.
+export const createTimeSlider = ({ onDateChange, stepMs = 1200 }: TimeSliderOptions): TimeSliderController => {
+  const wrapper = document.createElement("div");
+  // Wrapper is positioned by parent legend row
+  wrapper.className = "pointer-events-none";
+
+  const pill = document.createElement("div");
+  pill.className = [
+    "pointer-events-auto inline-flex items-center gap-2 rounded-lg border px-2 py-1 text-xs font-medium",
+    "bg-white/90 text-slate-600 border-slate-200 shadow-sm backdrop-blur-sm",
+    "dark:bg-slate-900/80 dark:text-slate-300 dark:border-slate-700",
+  ].join(" ");
+
+  const playButton = document.createElement("button");
+  playButton.type = "button";
+  playButton.className = [
+    "flex h-6 w-6 items-center justify-center rounded-full text-[10px] text-brand-700",
+    "hover:bg-brand-50 dark:text-brand-300 dark:hover:bg-slate-800",
+  ].join(" ");
+
+  const input = document.createElement("input");
+  input.type = "range";
+  input.min = "0";
+  input.step = "1";
+  input.className = "h-1 w-28 cursor-pointer accent-brand-500 sm:w-36";
+  input.setAttribute("aria-label", "Stat year");
+
+  const yearLabel = document.createElement("span");
+  yearLabel.className = "min-w-[2.5rem] text-right tabular-nums text-slate-700 dark:text-slate-200";
+
+  pill.appendChild(playButton);
+  pill.appendChild(input);
+  pill.appendChild(yearLabel);
+  wrapper.appendChild(pill);
+
+  let dates: string[] = [];
+  let index = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const render = () => {
+    input.max = String(Math.max(0, dates.length - 1));
+    input.value = String(index);
+    const date = dates[index] ?? "";
+    yearLabel.textContent = date;
+    input.setAttribute("aria-valuetext", date);
+    const playing = timer !== null;
+    playButton.textContent = playing ? PAUSE_ICON : PLAY_ICON;
+    playButton.setAttribute("aria-label", playing ? "Pause year animation" : "Play year animation");
+    playButton.setAttribute("aria-pressed", playing ? "true" : "false");
+  };
+
+  const stop = () => {
+    if (timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+    render();
+  };
+
+  const selectIndex = (next: number) => {
+    const clamped = Math.max(0, Math.min(dates.length - 1, next));
+    if (clamped === index) return;
+    index = clamped;
+    render();
+    const date = dates[index];
+    if (date) onDateChange(date);
+  };
+
+  const step = () => {
+    if (index >= dates.length - 1) {
+      stop();
+      return;
+    }
+    selectIndex(index + 1);
+    if (index >= dates.length - 1) stop();
+  };
+
+  const play = () => {
+    if (dates.length < 2) return;
+    if (index >= dates.length - 1) selectIndex(0);
+    timer = setInterval(step, stepMs);
+    render();
+  };
+
+  playButton.addEventListener("click", () => {
+    if (timer !== null) stop();
+    else play();
+  });
+
+  input.addEventListener("input", () => {
+    const next = Number(input.value);
+    stop();
+    selectIndex(next);
+  });
+
+  const setDates = (nextDates: string[], selected: string | null) => {
+    const changed = nextDates.length !== dates.length || nextDates.some((date, i) => date !== dates[i]);
+    dates = nextDates.slice();
+    const selectedIndex = selected ? dates.indexOf(selected) : -1;
+    index = selectedIndex >= 0 ? selectedIndex : Math.max(0, dates.length - 1);
+    if (changed || dates.length < 2) stop();
+    else render();
+  };
+
+  const setVisible = (visible: boolean) => {
+    if (!visible) stop();
+    wrapper.classList.toggle("hidden", !visible);
+  };
+
+  const destroy = () => {
+    stop();
+    wrapper.remove();
+  };
+
+  setVisible(false);
+  render();
+
+  return { element: wrapper, setDates, setVisible, destroy };
+};
@@ -1,7 +1,7 @@
 import type maplibregl from "maplibre-gl";
 import { formatStatValueCompact } from "../../../lib/format";
 import { getZipCentroidsMap } from "../../../lib/zipCentroids";
-import { CHOROPLETH_COLORS, TEAL_COLORS, getClassIndex } from "../../../lib/choropleth";
+import { CHOROPLETH_COLORS, TEAL_COLORS, getClassColors, getClassIndex, getClassIndexFromBreaks } from "../../../lib/choropleth";
 import { DEFAULT_POPULATION_STAT_ID } from "../../lib/domains";
 
 interface ZipLabelsOptions {
@@ -31,8 +31,8 @@ export interface ZipLabelsController {
   setHoveredZip: (zip: string | null) => void;
   setLinkedHoverPillsByArea: (rowsByArea: Map<string, HoverStackPill[]>) => void;
   setHoverPillsByArea: (rowsByArea: Map<string, HoverStackPill[]>) => void;
-  setStatOverlay: (statId: string | null, statData: Record<string, number> | null, statType?: string) => void;
-  setSecondaryStatOverlay: (statId: string | null, statData: Record<string, number> | null, statType?: string) => void;
+  setStatOverlay: (statId: string | null, statData: Record<string, number> | null, statType?: string, breaks?: number[] | null) => void;
+  setSecondaryStatOverlay: (statId: string | null, statData: Record<string, number> | null, statType?: string, breaks?: number[] | null) => void;
   setTheme: (theme: "light" | "dark") => void;
   setVisible?: (visible: boolean) => void;
   destroy: () => void;
@@ -47,6 +47,20 @@ const formatStatValue = (value: number, type: string = "count"): string => {
   return formatStatValueCompact(value, type);
 };
 
+// Palette index for a pill value. Uses the choropleth's class breaks when
+// provided, otherwise falls back to equal-interval binning over the data.
+const paletteIndexFor = (
+  value: number,
+  min: number,
+  max: number,
+  palette: string[],
+  breaks: number[] | null,
+): number => {
+  if (!breaks) return getClassIndex(value, min, max, palette.length);
+  const color = getClassColors(breaks, palette)[getClassIndexFromBreaks(value, breaks)];
+  return Math.max(0, palette.indexOf(color));
+};
+
 export const createZipLabels = ({
   map,
   getCentroidsMap,
@@ -66,6 +80,9 @@ export const createZipLabels = ({
   let currentStatType: string = "count";
   let currentSecondaryStatId: string | null = null;
   let currentSecondaryData: Record<string, number> | null = null;
+  // Class breaks from the map's choropleth so pill colors match the fill
+  let currentStatBreaks: number[] | null = null;
+  let currentSecondaryBreaks: number[] | null = null;
   let currentSecondaryStatType: string = "count";
   let currentHoverPillsByArea = new Map<string, HoverStackPill[]>();
   let currentLinkedHoverPillsByArea = new Map<string, HoverStackPill[]>();
@@ -332,7 +349,7 @@ export const createZipLabels = ({
       const numericValues = allValues.filter(v => typeof v === "number" && Number.isFinite(v)) as number[];
       const min = numericValues.length > 0 ? Math.min(...numericValues) : 0;
       const max = numericValues.length > 0 ? Math.max(...numericValues) : 1;
-      const colorIndex = getClassIndex(value, min, max, CHOROPLETH_COLORS.length);
+      const colorIndex = paletteIndexFor(value, min, max, CHOROPLETH_COLORS, currentStatBreaks);
       return {
         value,
         bg: CHOROPLETH_COLORS[colorIndex],
@@ -379,8 +396,7 @@ export const createZipLabels = ({
       const numericValues = allValues.filter(v => typeof v === 'number' && Number.isFinite(v)) as number[];
       const min = numericValues.length > 0 ? Math.min(...numericValues) : 0;
       const max = numericValues.length > 0 ? Math.max(...numericValues) : 1;
-      const classes = TEAL_COLORS.length;
-      const colorIndex = getClassIndex(secondaryVal, min, max, classes);
+      const colorIndex = paletteIndexFor(secondaryVal, min, max, TEAL_COLORS, currentSecondaryBreaks);
       const backgroundColor = TEAL_COLORS[colorIndex];
       const isLightColor = colorIndex <= 2;
       const textColor = isLightColor ? '#64748b' : 'white';
@@ -817,16 +833,28 @@ export const createZipLabels = ({
     if (visible) updateLabels();
   };
 
-  const setStatOverlay = (statId: string | null, statData: Record<string, number> | null, statType?: string) => {
+  const setStatOverlay = (
+    statId: string | null,
+    statData: Record<string, number> | null,
+    statType?: string,
+    breaks?: number[] | null,
+  ) => {
     currentStatId = statId;
     currentStatData = statData;
+    currentStatBreaks = breaks ?? null;
     if (statType) currentStatType = statType;
     if (visible) updateLabels({ animateContainerFade: false });
   };
 
-  const setSecondaryStatOverlay = (statId: string | null, statData: Record<string, number> | null, statType?: string) => {
+  const setSecondaryStatOverlay = (
+    statId: string | null,
+    statData: Record<string, number> | null,
+    statType?: string,
+    breaks?: number[] | null,
+  ) => {
     currentSecondaryStatId = statId;
     currentSecondaryData = statData;
+    currentSecondaryBreaks = breaks ?? null;
     if (statType) currentSecondaryStatType = statType;
     if (visible) updateLabels({ animateContainerFade: false });
   };
@@ -6,6 +6,9 @@ export const LAYER_HIGHLIGHT_ID = "organizations-highlight";
 export const LAYER_CLUSTER_HIGHLIGHT_ID = "organizations-cluster-highlight";
 export const USER_LOCATION_SOURCE_ID = "user-location";
 export const USER_LOCATION_LAYER_ID = "user-location-layer";
+export const SEARCH_RADIUS_SOURCE_ID = "search-radius";
+export const SEARCH_RADIUS_FILL_LAYER_ID = "search-radius-fill";
+export const SEARCH_RADIUS_LINE_LAYER_ID = "search-radius-line";
 
 export const BOUNDARY_SOURCE_ID = "tulsa-zip-boundaries";
 export const BOUNDARY_FILL_LAYER_ID = "tulsa-zip-boundaries-fill";
@@ -29,6 +32,17 @@ export const COUNTY_BOUNDARY_PINNED_FILL_LAYER_ID = "oklahoma-county-boundaries-
 export const COUNTY_BOUNDARY_PINNED_LINE_LAYER_ID = "oklahoma-county-boundaries-pinned-line";
 export const COUNTY_STATDATA_FILL_LAYER_ID = "oklahoma-county-statdata-fill";
 
+export const TRACT_BOUNDARY_SOURCE_ID = "oklahoma-tract-boundaries";
+export const TRACT_BOUNDARY_FILL_LAYER_ID = "oklahoma-tract-boundaries-fill";
+export const TRACT_BOUNDARY_LINE_LAYER_ID = "oklahoma-tract-boundaries-outline";
+export const TRACT_BOUNDARY_HOVER_FILL_LAYER_ID = "oklahoma-tract-boundaries-hover-fill";
+export const TRACT_BOUNDARY_HOVER_LINE_LAYER_ID = "oklahoma-tract-boundaries-hover-line";
+export const TRACT_BOUNDARY_HIGHLIGHT_FILL_LAYER_ID = "oklahoma-tract-boundaries-highlight-fill";
+export const TRACT_BOUNDARY_HIGHLIGHT_LINE_LAYER_ID = "oklahoma-tract-boundaries-highlight-line";
+export const TRACT_BOUNDARY_PINNED_FILL_LAYER_ID = "oklahoma-tract-boundaries-pinned-fill";
+export const TRACT_BOUNDARY_PINNED_LINE_LAYER_ID = "oklahoma-tract-boundaries-pinned-line";
+export const TRACT_STATDATA_FILL_LAYER_ID = "oklahoma-tract-statdata-fill";
+
 export const ZIP_CENTROIDS_SOURCE_ID = "tulsa-zip-centroids";
 export const SECONDARY_STAT_LAYER_ID = "tulsa-zip-secondary-stat-overlay";
 export const SECONDARY_STAT_HOVER_LAYER_ID = "tulsa-zip-secondary-stat-overlay-hover";
@@ -46,3 +60,7 @@ export const COUNTY_POI_EXTREME_HIGH_LAYER_ID = "oklahoma-county-poi-extreme-hig
 export const COUNTY_POI_EXTREME_LOW_LAYER_ID = "oklahoma-county-poi-extreme-low";
 export const ZIP_POI_COMBINED_LAYER_ID = "tulsa-zip-poi-combined";
 export const COUNTY_POI_COMBINED_LAYER_ID = "oklahoma-county-poi-combined";
+
+export const DRAWN_AREA_SOURCE_ID = "drawn-area";
+export const DRAWN_AREA_FILL_LAYER_ID = "drawn-area-fill";
+export const DRAWN_AREA_LINE_LAYER_ID = "drawn-area-line";
@@ -0,0 +1,197 @@
+import type maplibregl from "maplibre-gl";
+
+import {
+  distanceMeters,
+  drawnShapeToFeature,
+  isValidDrawnShape,
+  limitVertices,
+  type DrawMode,
+  type DrawnShape,
+} from "../../lib/drawnArea";
+import {
+  LAYER_CLUSTERS_ID,
+  DRAWN_AREA_SOURCE_ID,
+  DRAWN_AREA_FILL_LAYER_ID,
+  DRAWN_AREA_LINE_LAYER_ID,
+} from "../constants/map";
+
+const DRAWN_AREA_COLOR = "#8e90c4"; // Tailwind brand-500
+const DRAWN_AREA_LINE_COLOR = "#5b5e9e";
+// Skip trace points closer than this so a slow drag doesn't produce thousands of vertices.
+const MIN_TRACE_STEP_PX = 4;
+const MIN_RADIUS_PX = 6;
+
+export interface DrawnAreaLayerOptions {
+  /** Called with the finished shape; the caller decides whether it becomes the selection. */
+  onShapeDrawn: (shape: DrawnShape) => void;
+  onDrawModeChange?: (mode: DrawMode | null) => void;
+}
+
+export interface DrawnAreaLayerController {
+  ensure: () => void;
+  setShape: (shape: DrawnShape | null) => void;
+  setDrawMode: (mode: DrawMode | null) => void;
+  getDrawMode: () => DrawMode | null;
+  /** True while drawing and for the click that ends a stroke, so area clicks can be ignored. */
+  shouldSuppressClick: () => boolean;
+  destroy: () => void;
+}
+
+const toFeatureCollection = (shape: DrawnShape | null): GeoJSON.FeatureCollection =>
+  shape && isValidDrawnShape(shape)
+    ? { type: "FeatureCollection", features: [drawnShapeToFeature(shape)] }
+    : { type: "FeatureCollection", features: [] };
+
+export const createDrawnAreaLayer = (
+  map: maplibregl.Map,
+  { onShapeDrawn, onDrawModeChange }: DrawnAreaLayerOptions,
+): DrawnAreaLayerController => {
+  let shape: DrawnShape | null = null;
+  let drawMode: DrawMode | null = null;
+  let stroke: { start: maplibregl.LngLat; points: [number, number][]; lastPoint: maplibregl.Point } | null = null;
+  let previewShape: DrawnShape | null = null;
+  let suppressNextClick = false;
+
+  const render = () => {
+    const source = map.getSource(DRAWN_AREA_SOURCE_ID) as maplibregl.GeoJSONSource | undefined;
+    source?.setData(toFeatureCollection(previewShape ?? shape));
+  };
+
+  const ensure = () => {
+    if (!map.getSource(DRAWN_AREA_SOURCE_ID)) {
+      map.addSource(DRAWN_AREA_SOURCE_ID, { type: "geojson", data: toFeatureCollection(previewShape ?? shape) });
+    }
+    const before = map.getLayer(LAYER_CLUSTERS_ID) ? LAYER_CLUSTERS_ID : undefined;
+    if (!map.getLayer(DRAWN_AREA_FILL_LAYER_ID)) {
+      map.addLayer(
+        {
+          id: DRAWN_AREA_FILL_LAYER_ID,
+          type: "fill",
+          source: DRAWN_AREA_SOURCE_ID,
+          paint: { "fill-color": DRAWN_AREA_COLOR, "fill-opacity": 0.18 },
+        },
+        before,
+      );
+    }
+    if (!map.getLayer(DRAWN_AREA_LINE_LAYER_ID)) {
+      map.addLayer(
+        {
+          id: DRAWN_AREA_LINE_LAYER_ID,
+          type: "line",
+          source: DRAWN_AREA_SOURCE_ID,
+          paint: { "line-color": DRAWN_AREA_LINE_COLOR, "line-width": 2, "line-dasharray": [2, 1] },
+        },
+        before,
+      );
+    }
+  };
+
+  const setDrawMode = (mode: DrawMode | null) => {
+    if (mode === drawMode) return;
+    drawMode = mode;
+    stroke = null;
+    previewShape = null;
+    if (mode) {
+      map.dragPan.disable();
+      map.doubleClickZoom.disable();
+      map.getCanvas().style.cursor = "crosshair";
+    } else {
+      map.dragPan.enable();
+      map.doubleClickZoom.enable();
+      map.getCanvas().style.cursor = "pointer";
+    }
+    render();
+    onDrawModeChange?.(mode);
+  };
+
+  const buildShape = (current: maplibregl.LngLat): DrawnShape | null => {
+    if (!stroke || !drawMode) return null;
+    if (drawMode === "circle") {
+      const center: [number, number] = [stroke.start.lng, stroke.start.lat];
+      return { type: "circle", center, radiusMeters: distanceMeters(center, [current.lng, current.lat]) };
+    }
+    return { type: "polygon", coordinates: stroke.points };
+  };
+
+  const handleDown = (event: maplibregl.MapMouseEvent | maplibregl.MapTouchEvent) => {
+    if (!drawMode) {
+      // A drag-ending stroke may not produce a click; never swallow a later one.
+      suppressNextClick = false;
+      return;
+    }
+    event.preventDefault();
+    stroke = {
+      start: event.lngLat,
+      points: [[event.lngLat.lng, event.lngLat.lat]],
+      lastPoint: event.point,
+    };
+  };
+
+  const handleMove = (event: maplibregl.MapMouseEvent | maplibregl.MapTouchEvent) => {
+    if (!drawMode) return;
+    map.getCanvas().style.cursor = "crosshair";
+    if (!stroke) return;
+    if (drawMode === "polygon") {
+      if (event.point.dist(stroke.lastPoint) < MIN_TRACE_STEP_PX) return;
+      stroke.points.push([event.lngLat.lng, event.lngLat.lat]);
+      stroke.lastPoint = event.point;
+    }
+    previewShape = buildShape(event.lngLat);
+    render();
+  };
+
+  const handleUp = (event: maplibregl.MapMouseEvent | maplibregl.MapTouchEvent) => {
+    if (!drawMode || !stroke) return;
+    const startPoint = map.project(stroke.start);
+    const tooSmall = drawMode === "circle" && event.point.dist(startPoint) < MIN_RADIUS_PX;
+    const finished = tooSmall ? null : buildShape(event.lngLat);
+    stroke = null;
+    suppressNextClick = true;
+    setDrawMode(null);
+    if (finished && finished.type === "polygon") {
+      finished.coordinates = limitVertices(finished.coordinates);
+    }
+    if (finished && isValidDrawnShape(finished)) {
+      onShapeDrawn(finished);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === "Escape" && drawMode) {
+      setDrawMode(null);
+    }
+  };
+
+  map.on("mousedown", handleDown);
+  map.on("touchstart", handleDown);
+  map.on("mousemove", handleMove);
+  map.on("touchmove", handleMove);
+  map.on("mouseup", handleUp);
+  map.on("touchend", handleUp);
+  window.addEventListener("keydown", handleKeyDown);
+
+  return {
+    ensure,
+    setShape: (next: DrawnShape | null) => {
+      shape = next;
+      render();
+    },
+    setDrawMode,
+    getDrawMode: () => drawMode,
+    shouldSuppressClick: () => {
+      if (drawMode) return true;
+      if (!suppressNextClick) return false;
+      suppressNextClick = false;
+      return true;
+    },
+    destroy: () => {
+      map.off("mousedown", handleDown);
+      map.off("touchstart", handleDown);
+      map.off("mousemove", handleMove);
+      map.off("touchmove", handleMove);
+      map.off("mouseup", handleUp);
+      map.off("touchend", handleUp);
+      window.removeEventListener("keydown", handleKeyDown);
+    },
+  };
+};
@@ -0,0 +1,188 @@
+import type maplibregl from "maplibre-gl";
+
+import type { BoundaryMode } from "../../../types/boundaries";
+import { getAreaRegistryEntry } from "../areas/registry";
+import { LAYER_CLUSTERS_ID } from "../constants/map";
+
+// Tract layers are driven entirely by the area registry entry rather than a
+// long ids object, so new area kinds can follow the same shape.
+const tractAreaEntry = getAreaRegistryEntry("TRACT");
+const TRACT_NONE_FILTER = ["==", ["get", "tract"], "__none__"] as const;
+
+const tractLayers = tractAreaEntry.layers;
+
+const getVisibility = (boundaryMode: BoundaryMode): "visible" | "none" =>
+  boundaryMode === "tracts" ? "visible" : "none";
+
+const addLayerBelowOrganizations = (map: maplibregl.Map, layer: maplibregl.LayerSpecification) => {
+  const before = map.getLayer(LAYER_CLUSTERS_ID) ? LAYER_CLUSTERS_ID : undefined;
+  if (before) map.addLayer(layer, before);
+  else map.addLayer(layer);
+};
+
+export const ensureTractLayers = (
+  map: maplibregl.Map,
+  boundaryMode: BoundaryMode,
+  theme: "light" | "dark",
+  data: GeoJSON.FeatureCollection,
+): void => {
+  const visibility = getVisibility(boundaryMode);
+  const basePaint = tractAreaEntry.getBasePaint(theme);
+  const sourceId = tractLayers.sourceId;
+
+  if (!map.getSource(sourceId)) {
+    map.addSource(sourceId, { type: "geojson", data });
+  }
+
+  if (!map.getLayer(tractLayers.baseFillLayerId)) {
+    addLayerBelowOrganizations(map, {
+      id: tractLayers.baseFillLayerId,
+      type: "fill",
+      source: sourceId,
+      layout: { visibility },
+      paint: { "fill-color": basePaint.fill.color, "fill-opacity": basePaint.fill.opacity },
+    });
+  }
+
+  if (!map.getLayer(tractLayers.statDataFillLayerId)) {
+    addLayerBelowOrganizations(map, {
+      id: tractLayers.statDataFillLayerId,
+      type: "fill",
+      source: sourceId,
+      layout: { visibility },
+      paint: { "fill-opacity": 0 },
+    });
+  }
+
+  if (!map.getLayer(tractLayers.baseLineLayerId)) {
+    addLayerBelowOrganizations(map, {
+      id: tractLayers.baseLineLayerId,
+      type: "line",
+      source: sourceId,
+      layout: { visibility },
+      paint: {
+        "line-color": basePaint.line.color,
+        "line-opacity": basePaint.line.opacity,
+        "line-width": basePaint.line.width,
+      },
+    });
+  }
+
+  const filteredLayers: Array<{ id: string; type: "fill" | "line" }> = [
+    { id: tractLayers.hoverFillLayerId, type: "fill" },
+    { id: tractLayers.hoverLineLayerId, type: "line" },
+    { id: tractLayers.highlightFillLayerId, type: "fill" },
+    { id: tractLayers.highlightLineLayerId, type: "line" },
+    { id: tractLayers.pinnedFillLayerId, type: "fill" },
+    { id: tractLayers.pinnedLineLayerId, type: "line" },
+  ];
+  for (const { id, type } of filteredLayers) {
+    if (map.getLayer(id)) continue;
+    addLayerBelowOrganizations(map, {
+      id,
+      type,
+      source: sourceId,
+      filter: TRACT_NONE_FILTER as any,
+      layout: { visibility },
+      paint: {},
+    } as maplibregl.LayerSpecification);
+  }
+};
+
+export const setTractSourceData = (map: maplibregl.Map, data: GeoJSON.FeatureCollection): void => {
+  const source = map.getSource(tractLayers.sourceId) as maplibregl.GeoJSONSource | undefined;
+  if (source) source.setData(data);
+};
+
+export const updateTractPaint = (map: maplibregl.Map, theme: "light" | "dark"): void => {
+  const basePaint = tractAreaEntry.getBasePaint(theme);
+  const hoverPaint = tractAreaEntry.getHoverPaint(theme);
+  if (map.getLayer(tractLayers.baseFillLayerId)) {
+    map.setPaintProperty(tractLayers.baseFillLayerId, "fill-color", basePaint.fill.color);
+    map.setPaintProperty(tractLayers.baseFillLayerId, "fill-opacity", basePaint.fill.opacity);
+  }
+  if (map.getLayer(tractLayers.baseLineLayerId)) {
+    map.setPaintProperty(tractLayers.baseLineLayerId, "line-color", basePaint.line.color);
+    map.setPaintProperty(tractLayers.baseLineLayerId, "line-opacity", basePaint.line.opacity);
+    map.setPaintProperty(tractLayers.baseLineLayerId, "line-width", basePaint.line.width);
+  }
+  if (map.getLayer(tractLayers.hoverFillLayerId)) {
+    map.setPaintProperty(tractLayers.hoverFillLayerId, "fill-color", hoverPaint.fill.color);
+    map.setPaintProperty(tractLayers.hoverFillLayerId, "fill-opacity", hoverPaint.fill.opacity);
+  }
+  if (map.getLayer(tractLayers.hoverLineLayerId)) {
+    map.setPaintProperty(tractLayers.hoverLineLayerId, "line-color", hoverPaint.line.color);
+    map.setPaintProperty(tractLayers.hoverLineLayerId, "line-opacity", hoverPaint.line.opacity);
+    map.setPaintProperty(tractLayers.hoverLineLayerId, "line-width", hoverPaint.line.width);
+  }
+};
+
+export const updateTractVisibility = (map: maplibregl.Map, boundaryMode: BoundaryMode): void => {
+  const visibility = getVisibility(boundaryMode);
+  const layerIds = [
+    tractLayers.baseFillLayerId,
+    tractLayers.statDataFillLayerId,
+    tractLayers.baseLineLayerId,
+    tractLayers.hoverFillLayerId,
+    tractLayers.hoverLineLayerId,
+    tractLayers.highlightFillLayerId,
+    tractLayers.highlightLineLayerId,
+    tractLayers.pinnedFillLayerId,
+    tractLayers.pinnedLineLayerId,
+  ];
+  for (const layerId of layerIds) {
+    if (map.getLayer(layerId)) map.setLayoutProperty(layerId, "visibility", visibility);
+  }
+};
+
+export const updateTractSelectionHighlight = (
+  map: maplibregl.Map,
+  theme: "light" | "dark",
+  selectedStatId: string | null,
+  pinnedTracts: Set<string>,
+  transientTracts: Set<string>,
+): void => {
+  const pinned = Array.from(pinnedTracts);
+  const transient = Array.from(transientTracts).filter((id) => !pinnedTracts.has(id));
+  const pinnedFilter = pinned.length ? (["in", ["get", "tract"], ["literal", pinned]] as any) : (TRACT_NONE_FILTER as any);
+  const transientFilter = transient.length ? (["in", ["get", "tract"], ["literal", transient]] as any) : (TRACT_NONE_FILTER as any);
+  // With a stat choropleth active, selection is shown by outline only so fills stay readable.
+  const hasStatOverlay = Boolean(selectedStatId);
+  const overlayLine = tractAreaEntry.getSelectionOverlayLine(theme);
+
+  const applyPair = (
+    fillLayerId: string,
+    lineLayerId: string,
+    filter: any,
+    paint: { fill: { color: string; opacity: number }; line: { color: string; opacity: number; width: number } },
+  ) => {
+    if (map.getLayer(fillLayerId)) {
+      map.setFilter(fillLayerId, hasStatOverlay ? (TRACT_NONE_FILTER as any) : filter);
+      if (!hasStatOverlay) {
+        map.setPaintProperty(fillLayerId, "fill-color", paint.fill.color);
+        map.setPaintProperty(fillLayerId, "fill-opacity", paint.fill.opacity);
+      }
+    }
+    if (map.getLayer(lineLayerId)) {
+      map.setFilter(lineLayerId, filter);
+      const targetLine = hasStatOverlay ? overlayLine : paint.line;
+      map.setPaintProperty(lineLayerId, "line-width", targetLine.width);
+      map.setPaintProperty(lineLayerId, "line-color", targetLine.color);
+      map.setPaintProperty(lineLayerId, "line-opacity", targetLine.opacity);
+    }
+  };
+
+  applyPair(tractLayers.pinnedFillLayerId, tractLayers.pinnedLineLayerId, pinnedFilter, tractAreaEntry.getPinnedPaint(theme));
+  applyPair(
+    tractLayers.highlightFillLayerId,
+    tractLayers.highlightLineLayerId,
+    transientFilter,
+    tractAreaEntry.getHighlightPaint(theme),
+  );
+};
+
+export const updateTractHoverOutline = (map: maplibregl.Map, tractId: string | null): void => {
+  const filter = tractId ? (["==", ["get", "tract"], tractId] as any) : (TRACT_NONE_FILTER as any);
+  if (map.getLayer(tractLayers.hoverFillLayerId)) map.setFilter(tractLayers.hoverFillLayerId, filter);
+  if (map.getLayer(tractLayers.hoverLineLayerId)) map.setFilter(tractLayers.hoverLineLayerId, filter);
+};
@@ -11,6 +11,7 @@ describe("categoryChipText", () => {
     expect(formatAreasModeLabel("auto")).toBe("Zoom");
     expect(formatAreasModeLabel("zips")).toBe("ZIPs");
     expect(formatAreasModeLabel("counties")).toBe("Counties");
+    expect(formatAreasModeLabel("tracts")).toBe("Tracts");
     expect(formatAreasModeLabel("none")).toBe("None");
   });
 
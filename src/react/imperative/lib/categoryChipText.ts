@@ -1,10 +1,13 @@
-export type AreasChipMode = "auto" | "zips" | "counties" | "none";
+import { t, type MessageKey } from "../../../lib/i18n";
 
-export const AREA_MODE_OPTIONS: Array<{ value: AreasChipMode; label: string }> = [
-  { value: "auto", label: "Zoom" },
-  { value: "zips", label: "ZIPs" },
-  { value: "counties", label: "Counties" },
-  { value: "none", label: "None" },
+export type AreasChipMode = "auto" | "zips" | "counties" | "tracts" | "none";
+
+export const AREA_MODE_OPTIONS: Array<{ value: AreasChipMode; labelKey: MessageKey }> = [
+  { value: "auto", labelKey: "chips.areasZoom" },
+  { value: "zips", labelKey: "chips.areasZips" },
+  { value: "counties", labelKey: "chips.areasCounties" },
+  { value: "tracts", labelKey: "chips.areasTracts" },
+  { value: "none", labelKey: "chips.areasNone" },
 ];
 
 export interface ShowingSummaryState {
@@ -16,7 +19,7 @@ export interface ShowingSummaryState {
 
 export const formatAreasModeLabel = (mode: AreasChipMode): string => {
   const match = AREA_MODE_OPTIONS.find((entry) => entry.value === mode);
-  return match?.label ?? "Zoom";
+  return t(match?.labelKey ?? "chips.areasZoom");
 };
 
 export const getShowingSummaryState = ({
@@ -29,7 +32,7 @@ export const getShowingSummaryState = ({
   extremasVisible: boolean;
 }): ShowingSummaryState => {
   const trailingSegments: string[] = [];
-  if (areasMode === "zips") trailingSegments.push("Zips");
+  if (areasMode === "zips") trailingSegments.push(t("chips.showingZips"));
   else if (areasMode !== "auto") trailingSegments.push(formatAreasModeLabel(areasMode));
   return {
     hasSpecificSelection: orgsVisible || extremasVisible || trailingSegments.length > 0,
@@ -39,8 +42,7 @@ export const getShowingSummaryState = ({
   };
 };
 
-export const getExportCsvAreasUnavailableHelpText = () =>
-  "Enable Advanced Stats mode and select one or more ZIPs or Counties to export CSV.";
+export const getExportCsvAreasUnavailableHelpText = () => t("chips.csvAreasUnavailable");
 
 export const formatStatChipLabel = (name: string): string => {
   if (name.length <= 12) return name;
@@ -16,6 +16,8 @@ import { createZipFloatingTitle, type ZipFloatingTitleController } from "./compo
 import { createZipLabels, type HoverStackPill, type ZipLabelsController } from "./components/zipLabels";
 import { createChoroplethLegend, type ChoroplethLegendController } from "./components/choroplethLegend";
 import { createSecondaryChoroplethLegend, type SecondaryChoroplethLegendController } from "./components/secondaryChoroplethLegend";
+import { createBivariateLegend, type BivariateLegendController } from "./components/bivariateLegend";
+import { createTimeSlider, type TimeSliderController } from "./components/timeSlider";
 import { statsStore } from "../../state/stats";
 import {
   emptyPointsOfInterestSnapshot,
@@ -27,13 +29,15 @@ import {
 import { createOrgLegend, type OrgLegendController } from "./components/orgLegend";
 import { createMapLoadingIndicator } from "./components/mapLoadingIndicator";
 import { createMapOnboardingTour } from "./components/mapOnboardingTour";
+import { createEmbedCodeDialog } from "./components/embedCodeDialog";
 import { getCountyCentroidsMap, getCountyName } from "../../lib/countyCentroids";
 import type { AreaId, AreaKind } from "../../types/areas";
 import { DEFAULT_PARENT_AREA_BY_KIND } from "../../types/areas";
 import type { TimeSelection } from "../lib/timeFilters";
 import { DEFAULT_POPULATION_STAT_ID, getDomainDefaults } from "../lib/domains";
 // choropleth helpers are used only inside overlays/stats now
-import { updateChoroplethLegend as extUpdateLegend, updateSecondaryChoroplethLegend as extUpdateSecondaryLegend, updateSecondaryStatOverlay as extUpdateSecondaryOverlay, updateSecondaryStatHoverOnly as extUpdateSecondaryStatHover, updateStatDataChoropleth as extUpdatePrimaryChoropleth, CHOROPLETH_HIDE_ZOOM } from "./overlays/stats";
+import { updateChoroplethLegend as extUpdateLegend, updateSecondaryChoroplethLegend as extUpdateSecondaryLegend, updateSecondaryStatOverlay as extUpdateSecondaryOverlay, updateSecondaryStatHoverOnly as extUpdateSecondaryStatHover, updateStatDataChoropleth as extUpdatePrimaryChoropleth, updateBivariateChoropleth as extUpdateBivariateChoropleth, updateBivariateLegend as extUpdateBivariateLegend, getEntryClassBreaks, CHOROPLETH_HIDE_ZOOM, type StatClassification } from "./overlays/stats";
+import { CHOROPLETH_COLORS, DEFAULT_CLASSIFICATION_METHOD, TEAL_COLORS, type MapClassificationMode } from "../../lib/choropleth";
 import {
   ensureBoundaryLayers,
   updateBoundaryPaint as extUpdateBoundaryPaint,
@@ -43,7 +47,18 @@ import {
   updateCountyHoverOutline as extUpdateCountyHoverOutline,
   updateCountySelectionHighlight as extUpdateCountySelectionHighlight,
 } from "./layers/boundaries";
+import {
+  ensureTractLayers,
+  setTractSourceData,
+  updateTractHoverOutline as extUpdateTractHoverOutline,
+  updateTractPaint as extUpdateTractPaint,
+  updateTractSelectionHighlight as extUpdateTractSelectionHighlight,
+  updateTractVisibility as extUpdateTractVisibility,
+} from "./layers/tracts";
 import { ensureOrganizationLayers } from "./layers/organizations";
+import { createDrawnAreaLayer } from "./layers/drawnArea";
+import type { DrawMode, DrawnShape } from "../lib/drawnArea";
+import { buildSearchRadiusFeature, type NearbyCenter } from "../lib/nearbySearch";
 import { setClusterHighlight as extSetClusterHighlight, setClusterHighlights as extSetClusterHighlights } from "./organizationsHighlight";
 import { wireVisibleIds } from "./visibilityTracker";
 import { getAreaRegistryEntry, type AreaLayerIds } from "./areas/registry";
@@ -62,6 +77,14 @@ import {
   type ZctaStateCode,
   type ZctaChunkSummary,
 } from "../../lib/zctaLoader";
+import {
+  ensureTractsForViewport,
+  getTractFeatureCollection,
+  getLoadedTractCount,
+  hasTractGeometry,
+  pruneTractChunks,
+  type TractStateCode,
+} from "../../lib/tractLoader";
 import { getZipCentroidFeatureCollection } from "../../lib/zipCentroids";
 import { normalizeScopeLabel, formatCountyScopeLabel } from "../../lib/scopeLabels";
 import { isLowMemoryDevice } from "../../lib/device";
@@ -94,6 +117,8 @@ interface AreaSelectionChange {
 interface MapViewOptions {
   initialAreasMode?: AreasChipMode;
   initialExtremasVisible?: boolean;
+  /** Color polygons by primary × secondary stat instead of fill + circles. */
+  initialBivariateEnabled?: boolean;
   initialUserLocation?: { lng: number; lat: number } | null;
   initialMapPosition?: { lng: number; lat: number; zoom: number } | null;
   onHover: (idOrIds: string | string[] | null) => void;
@@ -104,6 +129,10 @@ interface MapViewOptions {
   onCountyHoverChange?: (county: string | null) => void;
   onAreaSelectionChange?: (change: AreaSelectionChange) => void;
   onAreaHoverChange?: (area: AreaId | null) => void;
+  /** Any click on a ZIP, county or tract, whether or not it changes the selection. */
+  onAreaClick?: (area: AreaId) => void;
+  /** Embedded widgets: hide the chips and ignore area clicks so the configured view stays put. */
+  selectionLocked?: boolean;
   onStatSelectionChange?: (statId: string | null) => void;
   onSecondaryStatChange?: (statId: string | null) => void;
   onCategorySelectionChange?: (categoryId: string | null) => void;
@@ -121,13 +150,18 @@ interface MapViewOptions {
   onLocationSearch?: (query: string) => void;
   onRequestHideOrgs?: (nextVisible: boolean) => void;
   onExtremasVisibilityChange?: (visible: boolean) => void;
+  onBivariateChange?: (enabled: boolean) => void;
+  onTimelineDateChange?: (date: string) => void;
   onTimeChipClick?: () => void;
   onTimeChipClear?: () => void;
   onExportCsvAreasDownload?: () => void;
   exportCsvAreasAvailable?: boolean;
   onLegendSettingsClick?: () => void;
   onSidebarExpand?: () => void;
+  /** Freehand polygon / radius selection finished (shape) or cleared (null). */
+  onDrawnAreaChange?: (shape: DrawnShape | null) => void;
   legendRangeMode?: "dynamic" | "scoped" | "global";
+  classificationMode?: MapClassificationMode;
   onboardingAutoPromptEnabled?: boolean;
 }
 
@@ -153,13 +187,25 @@ export interface MapViewController {
   addTransientZips: (zips: string[]) => void;
   clearCountyTransientSelection: () => void;
   addTransientCounties: (counties: string[]) => void;
+  setPinnedTracts: (tracts: string[]) => void;
+  setHoveredTract: (tract: string | null) => void;
+  clearTractTransientSelection: () => void;
+  addTransientTracts: (tracts: string[]) => void;
   fitAllOrganizations: () => void;
   setTimeSelection: (selection: TimeSelection | null) => void;
   setTimeFilterAvailable: (available: boolean) => void;
   setExportCsvAreasVisible: (visible: boolean) => void;
   setOrganizationPinsVisible: (visible: boolean) => void;
   setExtremasVisible: (visible: boolean) => void;
+  setBivariateEnabled: (enabled: boolean) => void;
+  setDrawnArea: (shape: DrawnShape | null) => void;
+  setDrawMode: (mode: DrawMode | null) => void;
+  setTimeline: (timeline: MapStatTimeline | null) => void;
+  /** PNG snapshot of the current map canvas (same capture as the screenshot export). */
+  captureMapImage: () => Promise<Blob>;
   setUserLocation: (location: { lng: number; lat: number } | null) => void;
+  /** Outline the "near me" search area; null hides it. */
+  setSearchRadius: (radius: { center: NearbyCenter; miles: number } | null) => void;
   fitBounds: (bounds: BoundsArray, options?: { padding?: number; maxZoom?: number; duration?: number }) => void;
   setCamera: (centerLng: number, centerLat: number, zoom: number, options?: { animate?: boolean }) => void;
   onCameraChange: (fn: (centerLng: number, centerLat: number, zoom: number) => void) => () => void;
@@ -168,6 +214,7 @@ export interface MapViewController {
   setLegendVisible: (visible: boolean) => void;
   setLegendRightContent: (el: HTMLElement | null) => void;
   setLegendRangeMode: (mode: "dynamic" | "scoped" | "global") => void;
+  setClassificationMode: (mode: MapClassificationMode) => void;
   startOnboardingTour: () => void;
   showOnboardingTourIntro: () => void;
   setOnboardingTourAutoPromptEnabled: (enabled: boolean) => void;
@@ -188,6 +235,9 @@ import {
   LAYER_CLUSTER_HIGHLIGHT_ID,
   USER_LOCATION_SOURCE_ID,
   USER_LOCATION_LAYER_ID,
+  SEARCH_RADIUS_SOURCE_ID,
+  SEARCH_RADIUS_FILL_LAYER_ID,
+  SEARCH_RADIUS_LINE_LAYER_ID,
   BOUNDARY_SOURCE_ID,
   BOUNDARY_FILL_LAYER_ID,
   BOUNDARY_LINE_LAYER_ID,
@@ -225,6 +275,7 @@ import {
   COUNTY_BOUNDARY_PINNED_FILL_LAYER_ID,
   COUNTY_BOUNDARY_PINNED_LINE_LAYER_ID,
   COUNTY_STATDATA_FILL_LAYER_ID,
+  TRACT_STATDATA_FILL_LAYER_ID,
 } from "./constants/map";
 
 // colors and class index provided by lib/choropleth
@@ -241,12 +292,19 @@ type FC = GeoJSON.FeatureCollection<
   }
 >;
 
-type BoundaryTypeKey = "ZIP" | "COUNTY";
+type BoundaryTypeKey = "ZIP" | "COUNTY" | "TRACT";
 type ExtremaKind = "high" | "low";
 type StatDataEntry = { type: string; data: Record<string, number>; min: number; max: number };
 type StatDataEntryByBoundary = Partial<Record<BoundaryTypeKey, StatDataEntry>>;
 type StatDataStoreMap = Map<string, StatDataByParentArea>;
 export type MapStatDataById = Map<string, StatDataEntryByBoundary>;
+/** Series dates for the selected stat and, when scrubbed to a date, that date's map entry. */
+export interface MapStatTimeline {
+  statId: string;
+  dates: string[];
+  date: string | null;
+  entry: StatDataEntryByBoundary | null;
+}
 type PoiFeature = GeoJSON.Feature<
   GeoJSON.Point,
   {
@@ -337,6 +395,9 @@ const OKC_COUNTY_ID = "109";
 const TULSA_COUNTY_ID = "143";
 const ZCTA_LOAD_MIN_ZOOM = 9;
 const ZCTA_LOAD_PADDING_DEGREES = 0.75;
+const TRACT_STATE: TractStateCode = "ok";
+const TRACT_LOAD_PADDING_DEGREES = 0.25;
+const TRACT_SELECTION_MAX_ZOOM = 13;
 const ZIP_LABEL_STACK_MIN_ZOOM = 10.8;
 const COUNTY_LABEL_STACK_MIN_ZOOM = 8.6;
 const ORG_HOVER_TOOLTIP_FADE_MS = 45;
@@ -349,6 +410,7 @@ const ORG_CLUSTER_COUNT_FORMATTER = new Intl.NumberFormat("en-US");
 
 const zipAreaEntry = getAreaRegistryEntry("ZIP");
 const countyAreaEntry = getAreaRegistryEntry("COUNTY");
+const tractAreaEntry = getAreaRegistryEntry("TRACT");
 
 const buildLayerOrder = (layers: AreaLayerIds): string[] => {
   const order: string[] = [];
@@ -369,14 +431,18 @@ const buildLayerOrder = (layers: AreaLayerIds): string[] => {
 
 const zipLayerOrder = buildLayerOrder(zipAreaEntry.layers);
 const countyLayerOrder = buildLayerOrder(countyAreaEntry.layers);
+const tractLayerOrder = buildLayerOrder(tractAreaEntry.layers);
 const zipFeatureProperty = zipAreaEntry.featureIdProperty;
 const countyFeatureProperty = countyAreaEntry.featureIdProperty;
+const tractFeatureProperty = tractAreaEntry.featureIdProperty;
 const getZipAreaBounds = zipAreaEntry.getBounds;
 const getCountyAreaBounds = countyAreaEntry.getBounds;
+const getTractAreaBounds = tractAreaEntry.getBounds;
 
 export const createMapView = ({
   initialAreasMode = "auto",
   initialExtremasVisible,
+  initialBivariateEnabled = false,
   initialUserLocation = null,
   initialMapPosition = null,
   onHover,
@@ -387,6 +453,8 @@ export const createMapView = ({
   onCountyHoverChange,
   onAreaSelectionChange,
   onAreaHoverChange,
+  onAreaClick,
+  selectionLocked = false,
   onStatSelectionChange,
   onSecondaryStatChange,
   onCategorySelectionChange,
@@ -401,13 +469,17 @@ export const createMapView = ({
   onLocationSearch,
   onRequestHideOrgs,
   onExtremasVisibilityChange,
+  onBivariateChange,
+  onTimelineDateChange,
   onTimeChipClick,
   onTimeChipClear,
   onExportCsvAreasDownload,
   exportCsvAreasAvailable = false,
   onLegendSettingsClick,
   onSidebarExpand,
+  onDrawnAreaChange,
   legendRangeMode: legendRangeModeInitial = "scoped",
+  classificationMode: classificationModeInitial = "per_stat",
   onboardingAutoPromptEnabled = true,
 }: MapViewOptions): MapViewController => {
   const container = document.createElement("section");
@@ -441,6 +513,7 @@ export const createMapView = ({
 
   let selectedCategory: string | null = null;
   let extremasVisible = initialExtremasVisible ?? getDomainDefaults().defaultExtremasVisible;
+  let bivariateEnabled = initialBivariateEnabled;
   let runMapLinkCopy: (() => Promise<void>) | null = null;
   let runMapEmbedCopy: (() => Promise<void>) | null = null;
   let runMapScreenshotCopy: (() => Promise<void>) | null = null;
@@ -492,6 +565,14 @@ export const createMapView = ({
       }
       setExtremasVisibleInternal(next);
     },
+    onBivariateToggle: () => {
+      const next = !bivariateEnabled;
+      if (typeof onBivariateChange === "function") {
+        onBivariateChange(next);
+        return;
+      }
+      setBivariateEnabledInternal(next);
+    },
     onTimeChipClick: () => { try { onTimeChipClick?.(); } catch {} },
     onTimeChipClear: () => { try { onTimeChipClear?.(); } catch {} },
     onExportLinkCopy: async () => {
@@ -524,13 +605,21 @@ export const createMapView = ({
       onAreasModeChange?.(mode);
     },
     onSidebarExpand: () => { try { onSidebarExpand?.(); } catch {} },
+    onDrawModeChange: (mode) => {
+      drawnAreaLayer.setDrawMode(mode);
+    },
+    onDrawnAreaClear: () => {
+      try { onDrawnAreaChange?.(null); } catch {}
+    },
     onSearch: (query) => {
       try { onLocationSearch?.(query); } catch {}
     },
   });
   container.appendChild(categoryChips.element);
+  categoryChips.element.classList.toggle("hidden", selectionLocked);
   categoryChips.setAreasMode(initialAreasMode);
   categoryChips.setExtremasVisible(extremasVisible);
+  categoryChips.setBivariateEnabled(bivariateEnabled);
   categoryChips.setExportCsvAreasVisible(Boolean(exportCsvAreasAvailable));
 
   // Keep extrema/POI visibility changes consistent for chip events and React-controlled updates.
@@ -546,6 +635,26 @@ export const createMapView = ({
     }
   };
 
+  const setBivariateEnabledInternal = (enabled: boolean) => {
+    if (bivariateEnabled === enabled) return;
+    bivariateEnabled = enabled;
+    try { categoryChips.setBivariateEnabled(bivariateEnabled); } catch {}
+    refreshStatVisuals();
+  };
+
+  const syncTimeSlider = () => {
+    const timeline = statTimeline && statTimeline.statId === selectedStatId ? statTimeline : null;
+    if (!timeline || timeline.dates.length < 2) {
+      timeSlider.setVisible(false);
+      return;
+    }
+    timeSlider.setDates(timeline.dates, timeline.date);
+    timeSlider.setVisible(true);
+  };
+
+  // Bivariate mode only applies while both a primary and secondary stat are shown.
+  const isBivariateActive = () => bivariateEnabled && Boolean(selectedStatId && secondaryStatId);
+
   // Temporary export feedback banner shown for clipboard copy actions.
   const exportToastEl = document.createElement("div");
   exportToastEl.className =
@@ -572,82 +681,12 @@ export const createMapView = ({
     }, 1800);
   };
 
-  // Manual-copy fallback for blocked clipboard writes in embed export.
-  const exportManualCopyBackdropEl = document.createElement("div");
-  exportManualCopyBackdropEl.className =
-    "absolute inset-0 z-[40] hidden flex items-center justify-center bg-slate-900/40 p-3";
-  exportManualCopyBackdropEl.setAttribute("role", "dialog");
-  exportManualCopyBackdropEl.setAttribute("aria-modal", "true");
-  exportManualCopyBackdropEl.setAttribute("aria-label", "Copy embed HTML manually");
-
-  const exportManualCopyCardEl = document.createElement("div");
-  exportManualCopyCardEl.className =
-    "w-full max-w-xl rounded-xl border border-slate-200 bg-white p-3 shadow-xl dark:border-slate-700 dark:bg-slate-900";
-  const exportManualCopyTitleEl = document.createElement("h3");
-  exportManualCopyTitleEl.className = "text-sm font-semibold text-slate-800 dark:text-slate-100";
-  exportManualCopyTitleEl.textContent = "Copy embed HTML manually";
-  const exportManualCopyHintEl = document.createElement("p");
-  exportManualCopyHintEl.className = "mt-1 text-xs text-slate-500 dark:text-slate-400";
-  exportManualCopyHintEl.textContent = "Clipboard is unavailable. Select and copy this snippet.";
-  const exportManualCopyTextarea = document.createElement("textarea");
-  exportManualCopyTextarea.className =
-    "mt-3 h-40 w-full rounded-lg border border-slate-300 bg-slate-50 px-2.5 py-2 text-xs text-slate-800 outline-none focus:border-brand-400 focus:ring-2 focus:ring-brand-200 dark:border-slate-600 dark:bg-slate-950 dark:text-slate-100";
-  exportManualCopyTextarea.readOnly = true;
-  exportManualCopyTextarea.setAttribute("aria-label", "Embed HTML snippet");
-  const exportManualCopyActionsEl = document.createElement("div");
-  exportManualCopyActionsEl.className = "mt-3 flex justify-end gap-2";
-  const exportManualCopySelectBtn = document.createElement("button");
-  exportManualCopySelectBtn.type = "button";
-  exportManualCopySelectBtn.className =
-    "rounded-md border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 dark:border-slate-600 dark:bg-slate-900 dark:text-slate-100 dark:hover:bg-slate-800";
-  exportManualCopySelectBtn.textContent = "Select";
-  const exportManualCopyCloseBtn = document.createElement("button");
-  exportManualCopyCloseBtn.type = "button";
-  exportManualCopyCloseBtn.className =
-    "rounded-md border border-brand-500 bg-brand-500 px-3 py-1.5 text-xs font-medium text-white hover:bg-brand-600";
-  exportManualCopyCloseBtn.textContent = "Close";
-
-  exportManualCopyActionsEl.appendChild(exportManualCopySelectBtn);
-  exportManualCopyActionsEl.appendChild(exportManualCopyCloseBtn);
-  exportManualCopyCardEl.appendChild(exportManualCopyTitleEl);
-  exportManualCopyCardEl.appendChild(exportManualCopyHintEl);
-  exportManualCopyCardEl.appendChild(exportManualCopyTextarea);
-  exportManualCopyCardEl.appendChild(exportManualCopyActionsEl);
-  exportManualCopyBackdropEl.appendChild(exportManualCopyCardEl);
-  container.appendChild(exportManualCopyBackdropEl);
-
-  const closeExportManualCopyDialog = () => {
-    exportManualCopyBackdropEl.classList.add("hidden");
-  };
-  const openExportManualCopyDialog = (text: string) => {
-    exportManualCopyTextarea.value = text;
-    exportManualCopyBackdropEl.classList.remove("hidden");
-    window.setTimeout(() => {
-      exportManualCopyTextarea.focus();
-      exportManualCopyTextarea.select();
-    }, 0);
-  };
-  const handleExportManualCopyBackdropClick = (event: MouseEvent) => {
-    if (event.target !== exportManualCopyBackdropEl) return;
-    closeExportManualCopyDialog();
-  };
-  const handleExportManualCopyKeyDown = (event: KeyboardEvent) => {
-    if (event.key !== "Escape") return;
-    event.preventDefault();
-    closeExportManualCopyDialog();
-  };
-  const handleExportManualCopySelectClick = () => {
-    exportManualCopyTextarea.focus();
-    exportManualCopyTextarea.select();
-  };
-  const handleExportManualCopyCloseClick = () => {
-    closeExportManualCopyDialog();
-  };
-
-  exportManualCopyBackdropEl.addEventListener("click", handleExportManualCopyBackdropClick);
-  exportManualCopyBackdropEl.addEventListener("keydown", handleExportManualCopyKeyDown);
-  exportManualCopySelectBtn.addEventListener("click", handleExportManualCopySelectClick);
-  exportManualCopyCloseBtn.addEventListener("click", handleExportManualCopyCloseClick);
+  // Embed-code generator behind the share menu's Embed action.
+  const embedCodeDialog = createEmbedCodeDialog({
+    getShareUrl: () => window.location.href,
+    showToast: showExportToast,
+  });
+  container.appendChild(embedCodeDialog.element);
 
   // Loading indicator: bottom-center pill on desktop, top-right spinner on mobile
   const loadingIndicator = createMapLoadingIndicator({ isMobile });
@@ -659,6 +698,8 @@ export const createMapView = ({
   let choroplethLegend: ChoroplethLegendController;
   let orgLegend: OrgLegendController;
   let secondaryChoroplethLegend: SecondaryChoroplethLegendController;
+  let bivariateLegend: BivariateLegendController;
+  let timeSlider: TimeSliderController;
   let legendRowEl: HTMLDivElement | null = null;
   let legendRightSlotEl: HTMLDivElement | null = null;
   let legendInset = 16;
@@ -692,6 +733,7 @@ export const createMapView = ({
   let currentTheme = themeController.getTheme();
   let boundaryMode: BoundaryMode = "zips";
   let legendRangeMode: "dynamic" | "scoped" | "global" = legendRangeModeInitial;
+  let classificationMode: MapClassificationMode = classificationModeInitial;
   let pinnedZips = new Set<string>();
   let transientZips = new Set<string>();
   let hoveredZipFromToolbar: string | null = null;
@@ -712,6 +754,12 @@ export const createMapView = ({
   let hoveredCountyFromPill: string | null = null;
   let hoveredCountyPillArea: string | null = null;
   let hoveredCountyPillKey: string | null = null;
+  let pinnedTracts = new Set<string>();
+  let transientTracts = new Set<string>();
+  let hoveredTractFromToolbar: string | null = null;
+  let hoveredTractFromMap: string | null = null;
+  let tractSourceRevision = 0;
+  let lastSyncedTractSourceRevision = -1;
   const HOVER_PREVIEW_TRAIL_MS = 120;
   let cancelZipBoundaryLeaveClear: (() => void) | null = null;
   let cancelCountyBoundaryLeaveClear: (() => void) | null = null;
@@ -744,6 +792,7 @@ export const createMapView = ({
   };
   let userLocation: { lng: number; lat: number } | null = initialUserLocation;
   let pendingUserLocationUpdate = Boolean(initialUserLocation);
+  let searchRadius: { center: NearbyCenter; miles: number } | null = null;
   // Track pointer press state so quick taps zoom and sustained presses select.
   let countyPressCandidate: string | null = null;
   let countyLongPressTimer: ReturnType<typeof setTimeout> | null = null;
@@ -761,6 +810,7 @@ export const createMapView = ({
   let scopedStatDataByBoundary = new Map<string, StatDataEntryByBoundary>();
   let externalStatDataByBoundary: MapStatDataById = new Map();
   let effectiveStatDataByBoundary: MapStatDataById = new Map();
+  let statTimeline: MapStatTimeline | null = null;
   let zipHoverPillsByArea = new Map<string, HoverStackPill[]>();
   let countyHoverPillsByArea = new Map<string, HoverStackPill[]>();
   let unsubscribeStatData: (() => void) | null = null;
@@ -805,6 +855,22 @@ export const createMapView = ({
     onboardingTour.destroy();
   });
 
+  // Per-stat classification from the stats entity; the map-wide mode overrides it.
+  const statClassificationById = new Map<string, StatClassification>();
+  const classificationFor = (statId: string): StatClassification => {
+    if (classificationMode !== "per_stat") return { method: classificationMode };
+    return statClassificationById.get(statId) ?? { method: DEFAULT_CLASSIFICATION_METHOD };
+  };
+
+  const getLabelClassBreaks = (
+    statId: string | null,
+    entry: StatDataEntry | undefined,
+    palette: string[],
+  ): number[] | null => {
+    if (!statId || !entry) return null;
+    return getEntryClassBreaks(entry, palette.length, classificationFor(statId));
+  };
+
   const resolveScopedStatEntry = (statId: string | null): StatDataEntryByBoundary | undefined => {
     if (!statId) return undefined;
     return effectiveStatDataByBoundary.get(statId);
@@ -841,6 +907,7 @@ export const createMapView = ({
   const getRequiredBoundariesForLoading = (): BoundaryTypeKey[] => {
     if (boundaryMode === "zips") return ["ZIP"];
     if (boundaryMode === "counties") return ["COUNTY"];
+    if (boundaryMode === "tracts") return ["TRACT"];
     return [];
   };
 
@@ -893,19 +960,41 @@ export const createMapView = ({
     try { updateChoroplethLegend(); } catch {}
     try { updateSecondaryStatOverlay(); } catch {}
     try { updateSecondaryChoroplethLegend(); } catch {}
+    try { updateTractSelectionHighlight(); } catch {}
+    try { syncTimeSlider(); } catch {}
     try {
       updateStatExtremaArrows();
       placeExtremaLayersAboveAreaGeometry();
     } catch {}
 
     const zipEntry = getStatEntryByBoundary(selectedStatId, "ZIP");
-    zipLabels?.setStatOverlay(selectedStatId, zipEntry?.data || null, zipEntry?.type || "count");
+    zipLabels?.setStatOverlay(
+      selectedStatId,
+      zipEntry?.data || null,
+      zipEntry?.type || "count",
+      getLabelClassBreaks(selectedStatId, zipEntry, CHOROPLETH_COLORS),
+    );
     const secondaryEntry = getStatEntryByBoundary(secondaryStatId, "ZIP");
-    zipLabels?.setSecondaryStatOverlay?.(secondaryStatId, secondaryEntry?.data || null, secondaryEntry?.type || "count");
+    zipLabels?.setSecondaryStatOverlay?.(
+      secondaryStatId,
+      secondaryEntry?.data || null,
+      secondaryEntry?.type || "count",
+      getLabelClassBreaks(secondaryStatId, secondaryEntry, TEAL_COLORS),
+    );
     const countyEntry = getStatEntryByBoundary(selectedStatId, "COUNTY");
-    countyLabels?.setStatOverlay(selectedStatId, countyEntry?.data || null, countyEntry?.type || "count");
+    countyLabels?.setStatOverlay(
+      selectedStatId,
+      countyEntry?.data || null,
+      countyEntry?.type || "count",
+      getLabelClassBreaks(selectedStatId, countyEntry, CHOROPLETH_COLORS),
+    );
     const countySecondary = getStatEntryByBoundary(secondaryStatId, "COUNTY");
-    countyLabels?.setSecondaryStatOverlay?.(secondaryStatId, countySecondary?.data || null, countySecondary?.type || "count");
+    countyLabels?.setSecondaryStatOverlay?.(
+      secondaryStatId,
+      countySecondary?.data || null,
+      countySecondary?.type || "count",
+      getLabelClassBreaks(secondaryStatId, countySecondary, TEAL_COLORS),
+    );
     recomputeStatDataLoading();
   };
   
@@ -1054,7 +1143,7 @@ export const createMapView = ({
     for (const [statId, incoming] of externalStatDataByBoundary.entries()) {
       const existing = merged.get(statId) ?? {};
       const next: StatDataEntryByBoundary = { ...existing };
-      for (const boundary of ["ZIP", "COUNTY"] as const) {
+      for (const boundary of ["ZIP", "COUNTY", "TRACT"] as const) {
         const entry = incoming[boundary];
         if (entry) {
           next[boundary] = mergeStatEntries(next[boundary], entry);
@@ -1062,6 +1151,11 @@ export const createMapView = ({
       }
       merged.set(statId, next);
     }
+    // A scrubbed timeline date replaces the latest values outright so its
+    // fixed cross-year range isn't widened by merging.
+    if (statTimeline?.date && statTimeline.entry) {
+      merged.set(statTimeline.statId, statTimeline.entry);
+    }
     effectiveStatDataByBoundary = merged;
   };
 
@@ -1088,7 +1182,7 @@ export const createMapView = ({
         const parentEntry = byParent.get(scopeName);
         if (!parentEntry) continue;
         scopedEntry = scopedEntry ?? {};
-        for (const boundary of ["ZIP", "COUNTY"] as const) {
+        for (const boundary of ["ZIP", "COUNTY", "TRACT"] as const) {
           const incoming = parentEntry[boundary];
           if (!incoming) continue;
           scopedEntry[boundary] = mergeStatEntries(scopedEntry[boundary], incoming);
@@ -1239,6 +1333,17 @@ export const createMapView = ({
     maxBounds: OKLAHOMA_MAX_BOUNDS,
   });
 
+  let hasDrawnArea = false;
+  const drawnAreaLayer = createDrawnAreaLayer(map, {
+    onShapeDrawn: (shape) => {
+      try { onDrawnAreaChange?.(shape); } catch {}
+    },
+    onDrawModeChange: (mode) => {
+      categoryChips.setDrawState({ mode, hasShape: hasDrawnArea });
+    },
+  });
+  destroyFns.push(() => drawnAreaLayer.destroy());
+
   const getMapElapsedMs = () =>
     Math.round((typeof performance !== "undefined" ? performance.now() : Date.now()) - mapCreatedAtMs);
 
@@ -1396,33 +1501,12 @@ export const createMapView = ({
     ]);
   };
 
-  const EMBED_SANITIZE_QUERY_KEYS = ["tour", "statsDebug", "statsDebugAnalytics"];
   const canWriteTextClipboard = () =>
     typeof window !== "undefined" &&
     window.isSecureContext &&
     typeof navigator !== "undefined" &&
     typeof navigator.clipboard?.writeText === "function";
 
-  const encodeHtmlAttribute = (value: string) =>
-    value
-      .replaceAll("&", "&amp;")
-      .replaceAll('"', "&quot;")
-      .replaceAll("<", "&lt;")
-      .replaceAll(">", "&gt;");
-
-  const buildSanitizedEmbedUrl = () => {
-    const url = new URL(window.location.href);
-    url.hash = "";
-    EMBED_SANITIZE_QUERY_KEYS.forEach((key) => {
-      url.searchParams.delete(key);
-    });
-    url.searchParams.set("embed", "1");
-    return url.toString();
-  };
-
-  const buildEmbedHtml = (url: string) =>
-    `<iframe src="${encodeHtmlAttribute(url)}" width="100%" height="600" style="border:0;" loading="lazy" title="Neighborhood Explorer map"></iframe>`;
-
   runMapLinkCopy = async () => {
     if (!canWriteTextClipboard()) {
       showExportToast("Clipboard copy is not supported in this browser", "error");
@@ -1440,21 +1524,7 @@ export const createMapView = ({
   };
 
   runMapEmbedCopy = async () => {
-    const embedUrl = buildSanitizedEmbedUrl();
-    const embedHtml = buildEmbedHtml(embedUrl);
-    if (!canWriteTextClipboard()) {
-      openExportManualCopyDialog(embedHtml);
-      showExportToast("Clipboard unavailable - manual copy opened", "error");
-      return;
-    }
-    try {
-      await navigator.clipboard.writeText(embedHtml);
-      showExportToast("Embed HTML copied", "success");
-    } catch (error) {
-      console.warn("Clipboard text write failed", error);
-      openExportManualCopyDialog(embedHtml);
-      showExportToast("Couldn't access clipboard - manual copy opened", "error");
-    }
+    embedCodeDialog.open();
   };
 
   runMapScreenshotCopy = async () => {
@@ -1480,6 +1550,11 @@ export const createMapView = ({
     downloadExportBlob(blob);
   };
 
+  const captureMapImage = async (): Promise<Blob> => {
+    try { map.triggerRepaint(); } catch {}
+    return mapCanvasToPngBlob();
+  };
+
   if (poiDebugEnabled && typeof window !== "undefined") {
     (window as any).__poiDebugSnapshot = () => ({
       zoom: Number(map.getZoom().toFixed(2)),
@@ -1699,6 +1774,42 @@ export const createMapView = ({
     });
   };
 
+  const syncTractSource = () => {
+    if (!map.getSource(tractAreaEntry.layers.sourceId)) return;
+    if (lastSyncedTractSourceRevision === tractSourceRevision) return;
+    setTractSourceData(map, getTractFeatureCollection(TRACT_STATE) as any);
+    lastSyncedTractSourceRevision = tractSourceRevision;
+  };
+
+  // Tract geometry is only loaded while the tract layer is showing; chunks are
+  // per county so a metro viewport pulls a handful rather than the whole state.
+  const ensureTractsForCurrentView = async () => {
+    if (boundaryMode !== "tracts" || !hasTractGeometry(TRACT_STATE)) return;
+    const loadedBefore = getLoadedTractCount(TRACT_STATE);
+    try {
+      const chunks = await ensureTractsForViewport({
+        state: TRACT_STATE,
+        bounds: toBoundsArray(map.getBounds()),
+        paddingDegrees: TRACT_LOAD_PADDING_DEGREES,
+      });
+      const keep = new Set(chunks.map((chunk) => chunk.id));
+      // Keep chunks that hold selected tracts so their outlines survive panning away.
+      for (const tract of [...pinnedTracts, ...transientTracts]) {
+        keep.add(`${TRACT_STATE}-tracts-${tract.slice(2, 5)}`);
+      }
+      pruneTractChunks(TRACT_STATE, keep);
+    } catch (error) {
+      console.warn("Failed to load tract boundaries", error);
+      return;
+    }
+    if (getLoadedTractCount(TRACT_STATE) !== loadedBefore || lastSyncedTractSourceRevision === -1) {
+      tractSourceRevision += 1;
+    }
+    syncTractSource();
+    tractSelection.refresh();
+    refreshStatVisuals();
+  };
+
   const ensureZctasForCurrentView = async ({ force = false }: { force?: boolean } = {}) => {
     if (!boundarySourceReady) {
       // Stash the request and retry once the boundary source is attached.
@@ -1901,8 +2012,16 @@ export const createMapView = ({
     orgLegend = createOrgLegend();
     choroplethLegend.pill.insertBefore(orgLegend.element, choroplethLegend.pill.firstChild);
   }
+  bivariateLegend = createBivariateLegend();
+  legendRowEl.appendChild(bivariateLegend.element);
   secondaryChoroplethLegend = createSecondaryChoroplethLegend(isMobile);
   legendRowEl.appendChild(secondaryChoroplethLegend.element);
+  timeSlider = createTimeSlider({
+    onDateChange: (date) => {
+      try { onTimelineDateChange?.(date); } catch {}
+    },
+  });
+  legendRowEl.appendChild(timeSlider.element);
 
   // Right-side slot for consumer-provided controls (e.g., My Location)
   legendRightSlotEl = document.createElement("div");
@@ -1916,9 +2035,13 @@ export const createMapView = ({
   const unsubscribeStats = statsStore.subscribe((stats) => {
     statNameById.clear();
     statGoodIfUpById.clear();
+    statClassificationById.clear();
     for (const s of stats) {
       statNameById.set(s.id, s.label || s.name);
       statGoodIfUpById.set(s.id, typeof s.goodIfUp === "boolean" ? s.goodIfUp : null);
+      if (s.classificationMethod) {
+        statClassificationById.set(s.id, { method: s.classificationMethod, manualBreaks: s.classBreaks ?? null });
+      }
     }
     refreshStatVisuals();
   });
@@ -2640,6 +2763,33 @@ export const createMapView = ({
     maxZoom: COUNTY_SELECTION_MAX_ZOOM,
   });
 
+  const updateTractSelectionHighlight = () =>
+    extUpdateTractSelectionHighlight(map, currentTheme, selectedStatId, pinnedTracts, transientTracts);
+
+  const updateTractHoverOutline = () => {
+    const hovered = boundaryMode === "tracts" ? hoveredTractFromToolbar || hoveredTractFromMap : null;
+    extUpdateTractHoverOutline(map, hovered);
+  };
+
+  const tractSelection = createSelectionHandlers({
+    getPinned: () => pinnedTracts,
+    setPinned: (next) => { pinnedTracts = next; },
+    getTransient: () => transientTracts,
+    setTransient: (next) => { transientTracts = next; },
+    updateHighlight: updateTractSelectionHighlight,
+    updateHover: updateTractHoverOutline,
+    onNotify: ({ union, pinned, transient }) => {
+      onAreaSelectionChange?.({
+        kind: "TRACT",
+        selected: union,
+        pinned,
+        transient,
+      });
+    },
+    getBounds: getTractAreaBounds,
+    maxZoom: TRACT_SELECTION_MAX_ZOOM,
+  });
+
   const zoomToCounty = (countyId: string) => {
     const bounds = getCountyAreaBounds(countyId);
     if (!bounds) return;
@@ -2717,6 +2867,7 @@ export const createMapView = ({
 
   const handleViewportSettledCore = () => {
     void ensureZctasForCurrentView();
+    void ensureTractsForCurrentView();
     // Check if selected orgs are still visible after viewport change
     void checkSelectedOrgsVisibility();
     // Update cluster highlights after zoom (clusters may have merged/split)
@@ -2840,6 +2991,15 @@ export const createMapView = ({
     source.setData(data);
   };
 
+  const updateSearchRadiusSource = () => {
+    const source = map.getSource(SEARCH_RADIUS_SOURCE_ID) as maplibregl.GeoJSONSource | undefined;
+    if (!source) return;
+    source.setData({
+      type: "FeatureCollection",
+      features: searchRadius ? [buildSearchRadiusFeature(searchRadius.center, searchRadius.miles)] : [],
+    });
+  };
+
   const poiIconForRow = (goodIfUp: boolean | null, extremaKind: ExtremaKind): string => {
     if (goodIfUp === true) {
       return extremaKind === "high" ? STAT_EXTREME_GOOD_ICON_ID : STAT_EXTREME_BAD_ICON_ID;
@@ -3888,6 +4048,10 @@ export const createMapView = ({
 
     syncZctaSource();
 
+    const hadTractSource = Boolean(map.getSource(tractAreaEntry.layers.sourceId));
+    ensureTractLayers(map, boundaryMode, currentTheme, getTractFeatureCollection(TRACT_STATE) as any);
+    if (!hadTractSource) lastSyncedTractSourceRevision = tractSourceRevision;
+
     ensureOrganizationLayers(map, {
       SOURCE_ID,
       LAYER_CLUSTERS_ID,
@@ -3897,6 +4061,43 @@ export const createMapView = ({
       LAYER_CLUSTER_HIGHLIGHT_ID,
     }, lastData, isMobile);
 
+    drawnAreaLayer.ensure();
+
+    // Keep the radius under the org pins so it never covers them.
+    const searchRadiusBeforeLayer = ORGANIZATION_MARKER_LAYER_IDS.find((layerId) => map.getLayer(layerId));
+    if (!map.getSource(SEARCH_RADIUS_SOURCE_ID)) {
+      map.addSource(SEARCH_RADIUS_SOURCE_ID, {
+        type: "geojson",
+        data: {
+          type: "FeatureCollection",
+          features: [],
+        },
+      });
+    }
+    if (!map.getLayer(SEARCH_RADIUS_FILL_LAYER_ID)) {
+      map.addLayer({
+        id: SEARCH_RADIUS_FILL_LAYER_ID,
+        type: "fill",
+        source: SEARCH_RADIUS_SOURCE_ID,
+        paint: {
+          "fill-color": "#bae5f2",
+          "fill-opacity": 0.12,
+        },
+      }, searchRadiusBeforeLayer);
+    }
+    if (!map.getLayer(SEARCH_RADIUS_LINE_LAYER_ID)) {
+      map.addLayer({
+        id: SEARCH_RADIUS_LINE_LAYER_ID,
+        type: "line",
+        source: SEARCH_RADIUS_SOURCE_ID,
+        paint: {
+          "line-color": "#38a3c4",
+          "line-width": 1.5,
+          "line-dasharray": [2, 2],
+        },
+      }, searchRadiusBeforeLayer);
+    }
+
     if (!map.getSource(USER_LOCATION_SOURCE_ID)) {
       map.addSource(USER_LOCATION_SOURCE_ID, {
         type: "geojson",
@@ -3926,14 +4127,18 @@ export const createMapView = ({
     // Critical path: visibility and basic paint (fast, needed for UX)
     updateHighlight();
     updateBoundaryPaint();
+    extUpdateTractPaint(map, currentTheme);
     updateBoundaryVisibility({ force: true });
+    extUpdateTractVisibility(map, boundaryMode);
     zipSelection.refresh();
     countySelection.refresh();
+    tractSelection.refresh();
     updateOrganizationPinsVisibility();
     applyLabelVisibility();
     if (pendingUserLocationUpdate || userLocation) {
       updateUserLocationSource();
     }
+    updateSearchRadiusSource();
     // Sync extrema/POI state immediately after ensure so newly-added symbol layers
     // don't remain hidden waiting for the next camera event.
     try { updateStatExtremaArrows(); } catch {}
@@ -4034,7 +4239,7 @@ export const createMapView = ({
     zipFloatingTitle = createZipFloatingTitle({ map });
 
     const applyExtremaPillStatSelection = (pillStatId?: string) => {
-      if (!pillStatId) return;
+      if (!pillStatId || selectionLocked) return;
       const isClosingActiveStat = pillStatId === selectedStatId && selectedStatId !== DEFAULT_POPULATION_STAT_ID;
       const nextStatId = pillStatId === selectedStatId ? DEFAULT_POPULATION_STAT_ID : pillStatId;
       if (!nextStatId || nextStatId === selectedStatId) return;
@@ -4565,7 +4770,34 @@ export const createMapView = ({
     })();
 
     const unwireBoundaries = (() => {
+      const clickTargets: Partial<Record<BoundaryMode, { kind: AreaKind; layers: string[]; property: string }>> = {
+        zips: { kind: "ZIP", layers: zipLayerOrder, property: zipFeatureProperty },
+        counties: { kind: "COUNTY", layers: countyLayerOrder, property: countyFeatureProperty },
+        tracts: { kind: "TRACT", layers: tractLayerOrder, property: tractFeatureProperty },
+      };
+      // Area under a click in the current boundary mode; org pins take the click instead.
+      const getClickedArea = (point: maplibregl.PointLike): AreaId | null => {
+        const target = clickTargets[boundaryMode];
+        if (!target) return null;
+        const orgFeatures = map.queryRenderedFeatures(point, { layers: [LAYER_POINTS_ID, LAYER_CLUSTERS_ID] });
+        if (orgFeatures.length > 0) return null;
+        const id = map.queryRenderedFeatures(point, { layers: target.layers })[0]?.properties?.[target.property];
+        return typeof id === "string" || typeof id === "number" ? { kind: target.kind, id: String(id) } : null;
+      };
       const handleBoundaryClick = (e: maplibregl.MapLayerMouseEvent) => {
+        // Clicks while drawing (or the one ending a stroke) belong to the drawn area tool.
+        if (drawnAreaLayer.shouldSuppressClick()) {
+          resetCountyPressState();
+          return;
+        }
+        if (onAreaClick) {
+          const area = getClickedArea(e.point);
+          if (area) onAreaClick(area);
+        }
+        if (selectionLocked) {
+          resetCountyPressState();
+          return;
+        }
         // Disable ZIP area selection on mobile when org pins are visible
         // (County clicks are handled separately to allow zooming)
         if (boundaryMode === "zips" && isMobile && orgPinsVisible) {
@@ -4638,9 +4870,21 @@ export const createMapView = ({
           return;
         }
 
+        if (boundaryMode === "tracts") {
+          const orgFeatures = map.queryRenderedFeatures(e.point, { layers: [LAYER_POINTS_ID, LAYER_CLUSTERS_ID] });
+          if (orgFeatures.length > 0 || (isMobile && orgPinsVisible)) return;
+          const features = map.queryRenderedFeatures(e.point, { layers: tractLayerOrder });
+          const tract = features[0]?.properties?.[tractFeatureProperty] as string | undefined;
+          if (!tract) return;
+          const additive = Boolean((e.originalEvent as MouseEvent | PointerEvent | undefined)?.shiftKey);
+          tractSelection.toggle(tract, additive, false);
+          return;
+        }
+
         resetCountyPressState();
       };
       const handleBoundaryDoubleClick = (e: maplibregl.MapLayerMouseEvent) => {
+        if (selectionLocked) return;
         // Disable area selection on mobile when org pins are visible
         if (isMobile && orgPinsVisible) {
           return;
@@ -4668,6 +4912,15 @@ export const createMapView = ({
           const additive = Boolean((e.originalEvent as MouseEvent | PointerEvent | undefined)?.shiftKey);
           countySelection.toggle(county, additive, false);
           resetCountyPressState();
+        } else if (boundaryMode === "tracts") {
+          e.preventDefault();
+          const orgFeatures = map.queryRenderedFeatures(e.point, { layers: [LAYER_POINTS_ID, LAYER_CLUSTERS_ID] });
+          if (orgFeatures.length > 0) return;
+          const features = map.queryRenderedFeatures(e.point, { layers: tractLayerOrder });
+          const tract = features[0]?.properties?.[tractFeatureProperty] as string | undefined;
+          if (!tract) return;
+          const additive = Boolean((e.originalEvent as MouseEvent | PointerEvent | undefined)?.shiftKey);
+          tractSelection.toggle(tract, additive, true);
         }
       };
       const countyInteractionLayers = [
@@ -4678,7 +4931,7 @@ export const createMapView = ({
         COUNTY_STATDATA_FILL_LAYER_ID,
       ];
       const handleCountyPointerDown = (e: maplibregl.MapLayerMouseEvent) => {
-        if (boundaryMode !== "counties") {
+        if (boundaryMode !== "counties" || drawnAreaLayer.getDrawMode()) {
           resetCountyPressState();
           return;
         }
@@ -5065,6 +5318,29 @@ export const createMapView = ({
       map.on("mouseleave", COUNTY_STATDATA_FILL_LAYER_ID, onCountyMouseLeave);
       map.on("mousemove", COUNTY_BOUNDARY_FILL_LAYER_ID, onCountyMouseMove);
       map.on("mousemove", COUNTY_STATDATA_FILL_LAYER_ID, onCountyMouseMove);
+
+      // Tracts are small enough that hover commits immediately, without the ZIP/county dwell.
+      const tractHoverLayers = [tractAreaEntry.layers.baseFillLayerId, tractAreaEntry.layers.statDataFillLayerId];
+      const onTractMouseMove = (e: maplibregl.MapLayerMouseEvent) => {
+        if (boundaryMode !== "tracts" || mapInMotion) return;
+        const tract = (e.features?.[0]?.properties?.[tractFeatureProperty] as string | undefined) ?? null;
+        if (tract === hoveredTractFromMap) return;
+        hoveredTractFromMap = tract;
+        map.getCanvas().style.cursor = tract ? "pointer" : "";
+        tractSelection.updateHover();
+        onAreaHoverChange?.(tract ? { kind: "TRACT", id: tract } : null);
+      };
+      const onTractMouseLeave = () => {
+        if (!hoveredTractFromMap) return;
+        hoveredTractFromMap = null;
+        map.getCanvas().style.cursor = "";
+        tractSelection.updateHover();
+        onAreaHoverChange?.(null);
+      };
+      tractHoverLayers.forEach((layerId) => {
+        map.on("mousemove", layerId, onTractMouseMove);
+        map.on("mouseleave", layerId, onTractMouseLeave);
+      });
       return () => {
         // Clean up dwell timers
         cancelZipBoundaryLeaveClearLocal();
@@ -5093,6 +5369,10 @@ export const createMapView = ({
         map.off("mouseleave", COUNTY_STATDATA_FILL_LAYER_ID, onCountyMouseLeave);
         map.off("mousemove", COUNTY_BOUNDARY_FILL_LAYER_ID, onCountyMouseMove);
         map.off("mousemove", COUNTY_STATDATA_FILL_LAYER_ID, onCountyMouseMove);
+        tractHoverLayers.forEach((layerId) => {
+          map.off("mousemove", layerId, onTractMouseMove);
+          map.off("mouseleave", layerId, onTractMouseLeave);
+        });
         countyInteractionLayers.forEach((layerId) => {
           map.off("mousedown", layerId, handleCountyPointerDown);
           map.off("mouseup", layerId, handleCountyPointerUp);
@@ -5339,24 +5619,39 @@ export const createMapView = ({
   }
 
   function updateChoroplethLegend() {
-    if (!selectedStatId) { choroplethLegend.setVisible(false); return; }
+    if (!selectedStatId) {
+      choroplethLegend.setVisible(false);
+      bivariateLegend.setVisible(false);
+      return;
+    }
     
     // Hide legend when zoomed in too close (similar to county/zip boundary switching)
     if (boundaryMode === "zips" && map.getZoom() >= CHOROPLETH_HIDE_ZOOM) {
       choroplethLegend.setVisible(false);
+      bivariateLegend.setVisible(false);
       return;
     }
+
+    if (isBivariateActive()) {
+      choroplethLegend.setVisible(false);
+      extUpdateBivariateLegend(bivariateLegend, selectedStatId, secondaryStatId, boundaryMode, effectiveStatDataByBoundary, {
+        primary: statNameById.get(selectedStatId) ?? "Primary",
+        secondary: (secondaryStatId && statNameById.get(secondaryStatId)) || "Secondary",
+      });
+      return;
+    }
+    bivariateLegend.setVisible(false);
     
-    extUpdateLegend(choroplethLegend, selectedStatId, boundaryMode, effectiveStatDataByBoundary);
+    extUpdateLegend(choroplethLegend, selectedStatId, boundaryMode, effectiveStatDataByBoundary, classificationFor);
   }
 
   function updateSecondaryChoroplethLegend() {
-    if (!secondaryStatId) {
+    if (!secondaryStatId || isBivariateActive()) {
       secondaryChoroplethLegend.setLoading(false);
       secondaryChoroplethLegend.setVisible(false);
       return;
     }
-    extUpdateSecondaryLegend(secondaryChoroplethLegend, secondaryStatId, boundaryMode, effectiveStatDataByBoundary);
+    extUpdateSecondaryLegend(secondaryChoroplethLegend, secondaryStatId, boundaryMode, effectiveStatDataByBoundary, classificationFor);
     const showLoading = isSecondaryLegendLoading();
     secondaryChoroplethLegend.setLoading(showLoading);
     if (showLoading) {
@@ -5376,7 +5671,7 @@ export const createMapView = ({
       COUNTY_SECONDARY_LAYER_ID,
       SECONDARY_STAT_HOVER_LAYER_ID,
       COUNTY_SECONDARY_HOVER_LAYER_ID,
-    }, boundaryMode, currentTheme, secondaryStatId, effectiveStatDataByBoundary,
+    }, boundaryMode, currentTheme, isBivariateActive() ? null : secondaryStatId, effectiveStatDataByBoundary,
       primaryZipScope,
       primaryCountyScope,
       pinnedZips,
@@ -5384,7 +5679,8 @@ export const createMapView = ({
       (hoveredZipFromToolbar || hoveredZipFromMap || null),
       pinnedCounties,
       transientCounties,
-      (hoveredCountyFromToolbar || hoveredCountyFromMap || null));
+      (hoveredCountyFromToolbar || hoveredCountyFromMap || null),
+      classificationFor);
   }
 
 
@@ -5423,6 +5719,10 @@ export const createMapView = ({
       countyLabels?.setHoveredZip(null);
       countyLabels?.setSelectedZips([], []);
     }
+    if (mode !== "tracts") {
+      hoveredTractFromToolbar = null;
+      hoveredTractFromMap = null;
+    }
     if (mode === "counties" && previousMode !== "counties") {
       zipFloatingTitle?.hide();
     }
@@ -5430,6 +5730,7 @@ export const createMapView = ({
     // Immediate: update layer visibility (fast, critical for UX)
     ensureSourcesAndLayers();
     updateBoundaryVisibility({ force: true });
+    extUpdateTractVisibility(map, boundaryMode);
     applyLabelVisibility();
     // Force an immediate extrema/POI layer-state sync when mode flips so
     // layers cannot remain hidden waiting on deferred refresh.
@@ -5449,6 +5750,10 @@ export const createMapView = ({
       if (previousMode === "counties" && mode !== "counties") {
         countySelection.clearTransient({ shouldZoom: false, notify: true });
       }
+      if (previousMode === "tracts" && mode !== "tracts") {
+        tractSelection.clearTransient({ shouldZoom: false, notify: true });
+        onAreaHoverChange?.(null);
+      }
     });
     
     // Heavy work: ZCTA loading and stat visuals (idle time)
@@ -5456,6 +5761,9 @@ export const createMapView = ({
       if (mode === "zips") {
         void ensureZctasForCurrentView({ force: true });
       }
+      if (mode === "tracts") {
+        void ensureTractsForCurrentView();
+      }
       updateVisibleZipSet();
       refreshStatVisuals();
     }, 100);
@@ -5504,14 +5812,27 @@ export const createMapView = ({
   };
 
   function updateStatDataChoropleth() {
+    if (isBivariateActive() && selectedStatId && secondaryStatId) {
+      extUpdateBivariateChoropleth(map, {
+        BOUNDARY_STATDATA_FILL_LAYER_ID,
+        COUNTY_STATDATA_FILL_LAYER_ID,
+        TRACT_STATDATA_FILL_LAYER_ID,
+        SECONDARY_STAT_LAYER_ID,
+        COUNTY_SECONDARY_LAYER_ID,
+        SECONDARY_STAT_HOVER_LAYER_ID,
+        COUNTY_SECONDARY_HOVER_LAYER_ID,
+      }, currentTheme, boundaryMode, selectedStatId, secondaryStatId, effectiveStatDataByBoundary, map.getZoom());
+      return;
+    }
     extUpdatePrimaryChoropleth(map, {
       BOUNDARY_STATDATA_FILL_LAYER_ID,
       COUNTY_STATDATA_FILL_LAYER_ID,
+      TRACT_STATDATA_FILL_LAYER_ID,
       SECONDARY_STAT_LAYER_ID,
       COUNTY_SECONDARY_LAYER_ID,
       SECONDARY_STAT_HOVER_LAYER_ID,
       COUNTY_SECONDARY_HOVER_LAYER_ID,
-    }, currentTheme, boundaryMode, selectedStatId, effectiveStatDataByBoundary, map.getZoom());
+    }, currentTheme, boundaryMode, selectedStatId, effectiveStatDataByBoundary, map.getZoom(), classificationFor);
     if (!selectedStatId) {
       try { map.triggerRepaint(); } catch {}
     }
@@ -5851,6 +6172,7 @@ export const createMapView = ({
     if (event.key === "Escape") {
       zipSelection.clearTransient({ shouldZoom: false, notify: true });
       countySelection.clearTransient({ shouldZoom: false, notify: true });
+      tractSelection.clearTransient({ shouldZoom: false, notify: true });
     }
   };
   window.addEventListener("keydown", handleKeyDown);
@@ -5966,6 +6288,19 @@ export const createMapView = ({
       // Called by React to reconcile transient sets; avoid feedback loops.
       countySelection.addTransient(counties, { notify: false });
     },
+    setPinnedTracts: (tracts: string[]) => {
+      tractSelection.setPinnedIds(tracts, { shouldZoom: false, notify: false });
+    },
+    setHoveredTract: (tract: string | null) => {
+      hoveredTractFromToolbar = tract;
+      tractSelection.updateHover();
+    },
+    clearTractTransientSelection: () => {
+      tractSelection.clearTransient({ shouldZoom: false, notify: false });
+    },
+    addTransientTracts: (tracts: string[]) => {
+      tractSelection.addTransient(tracts, { notify: false });
+    },
     fitAllOrganizations,
     setOrganizationPinsVisible: (visible: boolean) => {
       if (orgPinsVisible === visible) return;
@@ -5975,9 +6310,26 @@ export const createMapView = ({
       orgLegend?.setVisible(visible);
       try { categoryChips.setOrgsVisible(visible); } catch {}
     },
+    captureMapImage,
+    setTimeline: (timeline: MapStatTimeline | null) => {
+      statTimeline = timeline;
+      rebuildEffectiveStatDataByBoundary();
+      refreshStatVisuals();
+    },
+    setBivariateEnabled: (enabled: boolean) => {
+      setBivariateEnabledInternal(enabled);
+    },
     setExtremasVisible: (visible: boolean) => {
       setExtremasVisibleInternal(visible);
     },
+    setDrawnArea: (shape: DrawnShape | null) => {
+      hasDrawnArea = Boolean(shape);
+      drawnAreaLayer.setShape(shape);
+      categoryChips.setDrawState({ mode: drawnAreaLayer.getDrawMode(), hasShape: hasDrawnArea });
+    },
+    setDrawMode: (mode: DrawMode | null) => {
+      drawnAreaLayer.setDrawMode(mode);
+    },
     setUserLocation: (location: { lng: number; lat: number } | null) => {
       userLocation = location;
       pendingUserLocationUpdate = Boolean(location);
@@ -5990,6 +6342,15 @@ export const createMapView = ({
         updateUserLocationSource();
       }
     },
+    setSearchRadius: (radius: { center: NearbyCenter; miles: number } | null) => {
+      searchRadius = radius;
+      if (!map.isStyleLoaded()) return;
+      if (!map.getSource(SEARCH_RADIUS_SOURCE_ID)) {
+        ensureSourcesAndLayers();
+      } else {
+        updateSearchRadiusSource();
+      }
+    },
     setTimeSelection: (selection: TimeSelection | null) => {
       categoryChips.setTimeSelection(selection);
     },
@@ -6035,6 +6396,11 @@ export const createMapView = ({
     setLegendRangeMode: (mode: "dynamic" | "scoped" | "global") => {
       setLegendRangeModeInternal(mode);
     },
+    setClassificationMode: (mode: MapClassificationMode) => {
+      if (classificationMode === mode) return;
+      classificationMode = mode;
+      refreshStatVisuals();
+    },
     startOnboardingTour: () => {
       onboardingTour.start();
     },
@@ -6059,11 +6425,7 @@ export const createMapView = ({
         exportToastHideTimer = null;
       }
       exportToastEl.remove();
-      exportManualCopyBackdropEl.removeEventListener("click", handleExportManualCopyBackdropClick);
-      exportManualCopyBackdropEl.removeEventListener("keydown", handleExportManualCopyKeyDown);
-      exportManualCopySelectBtn.removeEventListener("click", handleExportManualCopySelectClick);
-      exportManualCopyCloseBtn.removeEventListener("click", handleExportManualCopyCloseClick);
-      exportManualCopyBackdropEl.remove();
+      embedCodeDialog.destroy();
       hideOrgHoverTooltip();
       if (orgHoverTooltipRaf !== null) {
         cancelAnimationFrame(orgHoverTooltipRaf);
@@ -6107,6 +6469,8 @@ export const createMapView = ({
       zipLabels?.destroy();
       choroplethLegend?.destroy();
       secondaryChoroplethLegend?.destroy();
+      bivariateLegend?.destroy();
+      timeSlider?.destroy();
       loadingIndicator?.destroy();
       window.removeEventListener("keydown", handleKeyDown);
       map.remove();
@@ -1,15 +1,79 @@
 import type maplibregl from "maplibre-gl";
 
-import { CHOROPLETH_COLORS, TEAL_COLORS, getClassIndex, getDivergingColor, DIVERGING_NEGATIVE_COLORS, DIVERGING_POSITIVE_COLORS } from "../../../lib/choropleth";
+import {
+  CHOROPLETH_COLORS,
+  TEAL_COLORS,
+  computeClassBreaks,
+  getClassColors,
+  getClassIndexFromBreaks,
+  getDivergingColor,
+  DIVERGING_NEGATIVE_COLORS,
+  DIVERGING_POSITIVE_COLORS,
+  type ClassificationMethod,
+} from "../../../lib/choropleth";
 import type { ChoroplethLegendController } from "../components/choroplethLegend";
 import type { SecondaryChoroplethLegendController } from "../components/secondaryChoroplethLegend";
+import type { BivariateLegendController } from "../components/bivariateLegend";
+import { BIVARIATE_CLASSES, buildBivariateColorsByArea } from "../../../lib/bivariate";
 
 type BoundaryDataEntry = { type: string; data: Record<string, number>; min: number; max: number };
-type BoundaryEntry = Partial<Record<"ZIP" | "COUNTY", BoundaryDataEntry>>;
+type BoundaryEntry = Partial<Record<"ZIP" | "COUNTY" | "TRACT", BoundaryDataEntry>>;
+
+const pickEntryForMode = (entry: BoundaryEntry | undefined, boundaryMode: string): BoundaryDataEntry | undefined => {
+  if (boundaryMode === "counties") return entry?.COUNTY;
+  if (boundaryMode === "tracts") return entry?.TRACT;
+  return entry?.ZIP;
+};
+
+export interface StatClassification {
+  method: ClassificationMethod;
+  manualBreaks?: number[] | null;
+}
+
+export type StatClassificationResolver = (statId: string) => StatClassification;
+
+// Breaks are recomputed on every visual refresh; entry data objects are
+// rebuilt whenever scope or data changes, so key the cache on them.
+const classBreaksCache = new WeakMap<Record<string, number>, Map<string, number[]>>();
+
+/**
+ * Class thresholds for a boundary entry. Only values inside the entry's legend
+ * range are classified so range scoping (viewport, county, statewide) still
+ * applies; out-of-range values clamp to the end classes.
+ */
+export const getEntryClassBreaks = (
+  entry: BoundaryDataEntry,
+  numClasses: number,
+  classification: StatClassification,
+): number[] => {
+  const data = entry.data || {};
+  const manualKey = classification.method === "manual" ? (classification.manualBreaks ?? []).join(",") : "";
+  const key = `${classification.method}|${entry.min}|${entry.max}|${numClasses}|${manualKey}`;
+  let byKey = classBreaksCache.get(data);
+  const cached = byKey?.get(key);
+  if (cached) return cached;
+
+  const values: number[] = [];
+  for (const v of Object.values(data)) {
+    if (typeof v === "number" && Number.isFinite(v) && v >= entry.min && v <= entry.max) values.push(v);
+  }
+  const breaks = computeClassBreaks(values, numClasses, classification.method, {
+    min: entry.min,
+    max: entry.max,
+    manualBreaks: classification.manualBreaks,
+  });
+  if (!byKey) {
+    byKey = new Map();
+    classBreaksCache.set(data, byKey);
+  }
+  byKey.set(key, breaks);
+  return breaks;
+};
 
 export interface StatOverlayIds {
   BOUNDARY_STATDATA_FILL_LAYER_ID: string;
   COUNTY_STATDATA_FILL_LAYER_ID: string;
+  TRACT_STATDATA_FILL_LAYER_ID?: string;
   SECONDARY_STAT_LAYER_ID: string;
   COUNTY_SECONDARY_LAYER_ID: string;
   SECONDARY_STAT_HOVER_LAYER_ID: string;
@@ -26,15 +90,16 @@ export const updateStatDataChoropleth = (
   selectedStatId: string | null,
   statDataByStatId: Map<string, BoundaryEntry>,
   currentZoom: number,
+  classificationFor: StatClassificationResolver,
 ) => {
-  const { BOUNDARY_STATDATA_FILL_LAYER_ID, COUNTY_STATDATA_FILL_LAYER_ID } = ids;
+  const { BOUNDARY_STATDATA_FILL_LAYER_ID, COUNTY_STATDATA_FILL_LAYER_ID, TRACT_STATDATA_FILL_LAYER_ID } = ids;
 
   // Hide choropleth when zoomed in too close (similar to county/zip boundary switching)
   const shouldHideChoropleth = boundaryMode === "zips" && currentZoom >= CHOROPLETH_HIDE_ZOOM;
 
   const applyEntry = (
     layerId: string,
-    featureKey: "zip" | "county",
+    featureKey: "zip" | "county" | "tract",
     entry: BoundaryDataEntry | undefined,
     active: boolean,
   ) => {
@@ -60,12 +125,12 @@ export const updateStatDataChoropleth = (
         match.push(id, color);
       }
     } else {
-      // Standard sequential colors
-      const COLORS = CHOROPLETH_COLORS;
-      const classes = COLORS.length;
+      // Standard sequential colors, binned by the stat's classification method
+      const breaks = getEntryClassBreaks(entry, CHOROPLETH_COLORS.length, classificationFor(selectedStatId!));
+      const COLORS = getClassColors(breaks, CHOROPLETH_COLORS);
       for (const id of keys) {
         const v = entry.data[id];
-        const color = COLORS[getClassIndex(v, entry.min, entry.max, classes)];
+        const color = COLORS[getClassIndexFromBreaks(v, breaks)];
         match.push(id, color);
       }
     }
@@ -88,6 +153,90 @@ export const updateStatDataChoropleth = (
 
   applyEntry(BOUNDARY_STATDATA_FILL_LAYER_ID, "zip", zipEntry, Boolean(selectedStatId) && boundaryMode === "zips");
   applyEntry(COUNTY_STATDATA_FILL_LAYER_ID, "county", countyEntry, Boolean(selectedStatId) && boundaryMode === "counties");
+  if (TRACT_STATDATA_FILL_LAYER_ID) {
+    applyEntry(TRACT_STATDATA_FILL_LAYER_ID, "tract", entry?.TRACT, Boolean(selectedStatId) && boundaryMode === "tracts");
+  }
+};
+
+// Bivariate fills always use terciles so each axis splits the areas evenly
+// regardless of the stats' own classification settings.
+const BIVARIATE_CLASSIFICATION: StatClassification = { method: "quantile" };
+
+export const updateBivariateChoropleth = (
+  map: maplibregl.Map,
+  ids: StatOverlayIds,
+  theme: "light" | "dark",
+  boundaryMode: "zips" | "counties" | string,
+  primaryStatId: string,
+  secondaryStatId: string,
+  statDataByStatId: Map<string, BoundaryEntry>,
+  currentZoom: number,
+) => {
+  const { BOUNDARY_STATDATA_FILL_LAYER_ID, COUNTY_STATDATA_FILL_LAYER_ID, TRACT_STATDATA_FILL_LAYER_ID } = ids;
+  const shouldHideChoropleth = boundaryMode === "zips" && currentZoom >= CHOROPLETH_HIDE_ZOOM;
+  const primaryEntry = statDataByStatId.get(primaryStatId);
+  const secondaryEntry = statDataByStatId.get(secondaryStatId);
+
+  const applyEntry = (
+    layerId: string,
+    featureKey: "zip" | "county" | "tract",
+    primary: BoundaryDataEntry | undefined,
+    secondary: BoundaryDataEntry | undefined,
+    active: boolean,
+  ) => {
+    if (!map.getLayer(layerId)) return;
+    if (!active || !primary || !secondary || shouldHideChoropleth) {
+      map.setPaintProperty(layerId, "fill-opacity", 0);
+      return;
+    }
+    const colorsByArea = buildBivariateColorsByArea(
+      primary.data || {},
+      secondary.data || {},
+      getEntryClassBreaks(primary, BIVARIATE_CLASSES, BIVARIATE_CLASSIFICATION),
+      getEntryClassBreaks(secondary, BIVARIATE_CLASSES, BIVARIATE_CLASSIFICATION),
+    );
+    const keys = Object.keys(colorsByArea);
+    if (keys.length === 0) {
+      map.setPaintProperty(layerId, "fill-opacity", 0);
+      return;
+    }
+    const match: any[] = ["match", ["get", featureKey]];
+    for (const id of keys) match.push(id, colorsByArea[id]);
+    match.push("#000000");
+
+    // Bivariate colors are subtler than the sequential ramp; fill a bit stronger.
+    const baseOpacity = theme === "dark" ? 0.5 : 0.6;
+    const opacityExpr: any = ["case", ["in", ["get", featureKey], ["literal", keys]], baseOpacity, 0];
+    map.setPaintProperty(layerId, "fill-color", match as any);
+    map.setPaintProperty(layerId, "fill-opacity", opacityExpr as any);
+  };
+
+  applyEntry(BOUNDARY_STATDATA_FILL_LAYER_ID, "zip", primaryEntry?.ZIP, secondaryEntry?.ZIP, boundaryMode === "zips");
+  applyEntry(COUNTY_STATDATA_FILL_LAYER_ID, "county", primaryEntry?.COUNTY, secondaryEntry?.COUNTY, boundaryMode === "counties");
+  if (TRACT_STATDATA_FILL_LAYER_ID) {
+    applyEntry(TRACT_STATDATA_FILL_LAYER_ID, "tract", primaryEntry?.TRACT, secondaryEntry?.TRACT, boundaryMode === "tracts");
+  }
+};
+
+export const updateBivariateLegend = (
+  legend: BivariateLegendController,
+  primaryStatId: string | null,
+  secondaryStatId: string | null,
+  boundaryMode: "zips" | "counties" | string,
+  statDataByStatId: Map<string, BoundaryEntry>,
+  labels: { primary: string; secondary: string },
+) => {
+  const primary = primaryStatId ? pickEntryForMode(statDataByStatId.get(primaryStatId), boundaryMode) : undefined;
+  const secondary = secondaryStatId ? pickEntryForMode(statDataByStatId.get(secondaryStatId), boundaryMode) : undefined;
+  if (!primary || !secondary || Object.keys(primary.data || {}).length === 0 || Object.keys(secondary.data || {}).length === 0) {
+    legend.setVisible(false);
+    return;
+  }
+  legend.setAxes(
+    { label: labels.primary, type: primary.type, breaks: getEntryClassBreaks(primary, BIVARIATE_CLASSES, BIVARIATE_CLASSIFICATION) },
+    { label: labels.secondary, type: secondary.type, breaks: getEntryClassBreaks(secondary, BIVARIATE_CLASSES, BIVARIATE_CLASSIFICATION) },
+  );
+  legend.setVisible(true);
 };
 
 export const updateChoroplethLegend = (
@@ -95,13 +244,14 @@ export const updateChoroplethLegend = (
   selectedStatId: string | null,
   boundaryMode: "zips" | "counties" | string,
   statDataByStatId: Map<string, BoundaryEntry>,
+  classificationFor: StatClassificationResolver,
 ) => {
   if (!selectedStatId) {
     legend.setVisible(false);
     return;
   }
   const entry = statDataByStatId.get(selectedStatId);
-  const dataEntry = boundaryMode === "counties" ? entry?.COUNTY : entry?.ZIP;
+  const dataEntry = pickEntryForMode(entry, boundaryMode);
   if (!dataEntry || Object.keys(dataEntry.data || {}).length === 0) {
     legend.setVisible(false);
     return;
@@ -113,8 +263,11 @@ export const updateChoroplethLegend = (
     const negColor = DIVERGING_NEGATIVE_COLORS[DIVERGING_NEGATIVE_COLORS.length - 1];
     const posColor = DIVERGING_POSITIVE_COLORS[DIVERGING_POSITIVE_COLORS.length - 1];
     legend.setColors(negColor, posColor);
+    legend.setBreaks(null);
   } else {
     legend.setColors(CHOROPLETH_COLORS[0], CHOROPLETH_COLORS[CHOROPLETH_COLORS.length - 1]);
+    const breaks = getEntryClassBreaks(dataEntry, CHOROPLETH_COLORS.length, classificationFor(selectedStatId));
+    legend.setBreaks(breaks, getClassColors(breaks, CHOROPLETH_COLORS));
   }
   legend.setRange(dataEntry.min, dataEntry.max, dataEntry.type);
   legend.setVisible(true);
@@ -125,18 +278,21 @@ export const updateSecondaryChoroplethLegend = (
   secondaryStatId: string | null,
   boundaryMode: "zips" | "counties" | string,
   statDataByStatId: Map<string, BoundaryEntry>,
+  classificationFor: StatClassificationResolver,
 ) => {
   if (!secondaryStatId) {
     legend.setVisible(false);
     return;
   }
   const entry = statDataByStatId.get(secondaryStatId);
-  const dataEntry = boundaryMode === "counties" ? entry?.COUNTY : entry?.ZIP;
+  const dataEntry = pickEntryForMode(entry, boundaryMode);
   if (!dataEntry || Object.keys(dataEntry.data || {}).length === 0) {
     legend.setVisible(false);
     return;
   }
   legend.setColors(TEAL_COLORS[0], TEAL_COLORS[TEAL_COLORS.length - 1]);
+  const breaks = getEntryClassBreaks(dataEntry, TEAL_COLORS.length, classificationFor(secondaryStatId));
+  legend.setBreaks(breaks, getClassColors(breaks, TEAL_COLORS));
   legend.setRange(dataEntry.min, dataEntry.max, dataEntry.type);
   legend.setVisible(true);
 };
@@ -188,6 +344,7 @@ export const updateSecondaryStatOverlay = (
   pinnedCounties: Set<string>,
   transientCounties: Set<string>,
   hoveredCounty: string | null,
+  classificationFor: StatClassificationResolver,
 ) => {
   // theme currently does not affect rendering for secondary overlay; keep param for parity
   void theme;
@@ -255,13 +412,13 @@ export const updateSecondaryStatOverlay = (
       for (const zip of transientZips) if (zipScopeSet.has(zip)) selectedOrPinned.add(zip);
       const selectedArray = Array.from(selectedOrPinned);
 
-      const { data, min, max } = zipEntry;
-      const COLORS = TEAL_COLORS;
-      const classes = COLORS.length;
+      const { data } = zipEntry;
+      const breaks = getEntryClassBreaks(zipEntry, TEAL_COLORS.length, classificationFor(secondaryStatId));
+      const COLORS = getClassColors(breaks, TEAL_COLORS);
       const match: any[] = ["match", ["get", "zip"]];
       for (const zip of zipScopeIds) {
         const v = data?.[zip];
-        const color = typeof v === "number" ? COLORS[getClassIndex(v, min, max, classes)] : COLORS[0];
+        const color = typeof v === "number" ? COLORS[getClassIndexFromBreaks(v, breaks)] : COLORS[0];
         match.push(zip, color);
       }
       match.push(COLORS[0]);
@@ -300,13 +457,13 @@ export const updateSecondaryStatOverlay = (
       for (const county of transientCounties) if (countyScopeSet.has(county)) selectedOrPinnedCounties.add(county);
       const selectedArray = Array.from(selectedOrPinnedCounties);
 
-      const { data, min, max } = countyEntry;
-      const COLORS = TEAL_COLORS;
-      const classes = COLORS.length;
+      const { data } = countyEntry;
+      const breaks = getEntryClassBreaks(countyEntry, TEAL_COLORS.length, classificationFor(secondaryStatId));
+      const COLORS = getClassColors(breaks, TEAL_COLORS);
       const match: any[] = ["match", ["get", "county"]];
       for (const county of countyScopeIds) {
         const v = data?.[county];
-        const color = typeof v === "number" ? COLORS[getClassIndex(v, min, max, classes)] : COLORS[0];
+        const color = typeof v === "number" ? COLORS[getClassIndexFromBreaks(v, breaks)] : COLORS[0];
         match.push(county, color);
       }
       match.push(COLORS[0]);
@@ -0,0 +1,17 @@
+import { id } from "@instantdb/react";
+import { db } from "../../lib/reactDb";
+import { buildAuditRecord, toAuditAttrs, type AuditRecord, type AuditRecordInput } from "../../lib/auditLog";
+
+type UiAuditInput = Omit<AuditRecordInput, "source"> & Partial<Pick<AuditRecordInput, "source">>;
+
+/** Audit log chunk for `db.transact`, built from a prepared record. */
+export const auditRecordTx = (record: AuditRecord) => db.tx.auditLog[id()].update(toAuditAttrs(record));
+
+/**
+ * Audit log chunk to transact alongside a write made from the app. Empty when
+ * the write changes nothing, so callers can always spread it in.
+ */
+export const auditTx = (input: UiAuditInput) => {
+  const record = buildAuditRecord({ source: "ui", ...input });
+  return record ? [auditRecordTx(record)] : [];
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  batchGeocodeAddresses,
+  buildAddressZipLookup,
+  createAddressGeocoder,
+  createLocalGeocodeCache,
+} from "./batchGeocoding";
+import type { geocodeAddress } from "./geocoding";
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+const locate = async (longitude: number) =>
+  longitude > -96 ? { zip: "74103", county: "40143" } : { zip: null, county: null };
+
+describe("batchGeocoding", () => {
+  it("geocodes each distinct address once and grades the match", async () => {
+    const geocoder = vi.fn(async (address: string) => {
+      if (address.startsWith("9 Nowhere")) return null;
+      if (address.startsWith("Main St")) return { latitude: 36.15, longitude: -95.99, provider: "test", confidence: 0.4 };
+      return { latitude: 36.15, longitude: -95.99, provider: "test", confidence: 1 };
+    });
+
+    const results = await batchGeocodeAddresses(
+      ["1 Main St, Tulsa", "1 MAIN ST,  Tulsa", "Main St, Tulsa", "9 Nowhere Rd, Tulsa", ""],
+      { geocoder, locate, delayMs: 0 },
+    );
+
+    expect(geocoder).toHaveBeenCalledTimes(3);
+    expect(results.map((result) => [result.address, result.status, result.zip])).toEqual([
+      ["1 Main St, Tulsa", "matched", "74103"],
+      ["Main St, Tulsa", "review", "74103"],
+      ["9 Nowhere Rd, Tulsa", "unresolved", null],
+    ]);
+    expect(results[0]?.county).toBe("40143");
+    expect(buildAddressZipLookup(results)).toEqual({ "1 main st, tulsa": "74103" });
+  });
+
+  it("reuses cached results across runs", async () => {
+    const storage = memoryStorage();
+    const geocoder = vi.fn(async () => ({ latitude: 35.5, longitude: -97.5, provider: "test", confidence: 1 }));
+
+    await batchGeocodeAddresses(["1 Capitol Pl, Oklahoma City"], {
+      geocoder,
+      cache: createLocalGeocodeCache(storage),
+      locate,
+      delayMs: 0,
+    });
+    const progress: number[] = [];
+    const rerun = await batchGeocodeAddresses(["1 Capitol Pl., Oklahoma City"], {
+      geocoder,
+      cache: createLocalGeocodeCache(storage),
+      locate,
+      delayMs: 0,
+      onProgress: ({ cached }) => progress.push(cached),
+    });
+
+    expect(geocoder).toHaveBeenCalledTimes(1);
+    expect(progress).toEqual([1]);
+    // Outside every ZIP polygon, so it still needs a manual fix.
+    expect(rerun[0]).toMatchObject({ status: "unresolved", latitude: 35.5, zip: null });
+  });
+
+  it("retries addresses whose lookup failed instead of caching a miss", async () => {
+    const storage = memoryStorage();
+    const geocode = vi
+      .fn<typeof geocodeAddress>()
+      .mockResolvedValueOnce({ error: "No coordinates found for that address.", providersTried: ["Census"], transient: true })
+      .mockResolvedValueOnce({ latitude: 36.15, longitude: -95.99, provider: "Census", confidence: 1 })
+      .mockResolvedValue({ error: "No coordinates found for that address.", providersTried: ["Census"], transient: false });
+    const options = { geocoder: createAddressGeocoder(geocode), locate, delayMs: 0 };
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const first = await batchGeocodeAddresses(["1 Main St, Tulsa"], { ...options, cache: createLocalGeocodeCache(storage) });
+    const retry = await batchGeocodeAddresses(["1 Main St, Tulsa"], { ...options, cache: createLocalGeocodeCache(storage) });
+    // A real no-match is cached, so the second lookup of it is served from the cache.
+    await batchGeocodeAddresses(["9 Nowhere Rd, Tulsa"], { ...options, cache: createLocalGeocodeCache(storage) });
+    await batchGeocodeAddresses(["9 Nowhere Rd, Tulsa"], { ...options, cache: createLocalGeocodeCache(storage) });
+    warn.mockRestore();
+
+    expect(first[0]?.status).toBe("unresolved");
+    expect(retry[0]).toMatchObject({ status: "matched", zip: "74103" });
+    expect(geocode).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,199 @@
+import { normalizeAddressKey } from "./customDataCsv";
+import { geocodeAddress } from "./geocoding";
+
+export interface AddressGeocodeMatch {
+  latitude: number;
+  longitude: number;
+  provider: string;
+  confidence: number;
+}
+
+/**
+ * Resolves one address to coordinates; null when nothing matched. Throws when
+ * the lookup itself failed (network, rate limit) so the miss isn't cached.
+ * Swap in another provider here.
+ */
+export type AddressGeocoder = (address: string) => Promise<AddressGeocodeMatch | null>;
+
+/** ZIP and county (5-digit FIPS) containing a point, via point-in-polygon. */
+export type AddressLocator = (
+  longitude: number,
+  latitude: number,
+) => Promise<{ zip: string | null; county: string | null }>;
+
+/**
+ * - `matched`: geocoded with enough confidence and inside a known ZIP.
+ * - `review`: geocoded, but the match is too coarse to trust without a look.
+ * - `unresolved`: no coordinates, or the point fell outside every ZIP.
+ * - `manual`: ZIP entered or accepted by hand.
+ */
+export type AddressResolutionStatus = "matched" | "review" | "unresolved" | "manual";
+
+export interface AddressResolution {
+  address: string;
+  status: AddressResolutionStatus;
+  latitude: number | null;
+  longitude: number | null;
+  provider: string | null;
+  confidence: number;
+  zip: string | null;
+  county: string | null;
+}
+
+export interface GeocodeCache {
+  get: (address: string) => AddressGeocodeMatch | null | undefined;
+  set: (address: string, match: AddressGeocodeMatch | null) => void;
+}
+
+export interface BatchGeocodeProgress {
+  completed: number;
+  total: number;
+  cached: number;
+}
+
+/** Adapts a `geocodeAddress`-style lookup, throwing on transient failures. */
+export const createAddressGeocoder =
+  (geocode: typeof geocodeAddress): AddressGeocoder =>
+  async (address) => {
+    const result = await geocode(address);
+    if (!("error" in result)) return result;
+    if (result.transient) throw new Error(`Geocoding unavailable (${result.providersTried.join(", ")})`);
+    return null;
+  };
+
+export const defaultAddressGeocoder = createAddressGeocoder(geocodeAddress);
+
+// v1 could hold misses that were really provider outages.
+const GEOCODE_CACHE_STORAGE_KEY = "ne.geocodeCache.v2";
+const MAX_CACHED_ADDRESSES = 5000;
+export const DEFAULT_MIN_GEOCODE_CONFIDENCE = 0.5;
+// Free geocoders ask for about one request per second.
+const DEFAULT_GEOCODE_DELAY_MS = 1000;
+
+type StoredGeocodes = Record<string, AddressGeocodeMatch | null>;
+
+/**
+ * Geocode results kept in localStorage so re-running an import (or importing
+ * the next month's file) doesn't hit the providers again. Misses are cached
+ * too; a manual correction in the wizard overrides them. Falls back to an
+ * in-memory map when storage is unavailable.
+ */
+export const createLocalGeocodeCache = (
+  storage: Pick<Storage, "getItem" | "setItem"> | null = typeof window === "undefined" ? null : window.localStorage,
+): GeocodeCache => {
+  let entries: StoredGeocodes = {};
+  try {
+    const raw = storage?.getItem(GEOCODE_CACHE_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (parsed && typeof parsed === "object") entries = parsed as StoredGeocodes;
+  } catch {
+    entries = {};
+  }
+
+  const persist = () => {
+    const keys = Object.keys(entries);
+    // Insertion order is oldest first, so drop from the front.
+    for (const key of keys.slice(0, Math.max(0, keys.length - MAX_CACHED_ADDRESSES))) {
+      delete entries[key];
+    }
+    try {
+      storage?.setItem(GEOCODE_CACHE_STORAGE_KEY, JSON.stringify(entries));
+    } catch {
+      // Quota errors just mean the next run geocodes again.
+    }
+  };
+
+  return {
+    get: (address) => entries[normalizeAddressKey(address)],
+    set: (address, match) => {
+      const key = normalizeAddressKey(address);
+      delete entries[key];
+      entries[key] = match;
+      persist();
+    },
+  };
+};
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Geocodes each distinct address (by `normalizeAddressKey`) once, then places
+ * the point in a ZIP and county. Results come back in input order, one per
+ * distinct address.
+ */
+export const batchGeocodeAddresses = async (
+  addresses: string[],
+  {
+    geocoder = defaultAddressGeocoder,
+    cache = null,
+    locate,
+    minConfidence = DEFAULT_MIN_GEOCODE_CONFIDENCE,
+    delayMs = DEFAULT_GEOCODE_DELAY_MS,
+    onProgress,
+    signal,
+  }: {
+    geocoder?: AddressGeocoder;
+    cache?: GeocodeCache | null;
+    locate: AddressLocator;
+    minConfidence?: number;
+    delayMs?: number;
+    onProgress?: (progress: BatchGeocodeProgress) => void;
+    signal?: { aborted: boolean };
+  },
+): Promise<AddressResolution[]> => {
+  const distinct = new Map<string, string>();
+  for (const address of addresses) {
+    const trimmed = address.trim();
+    const key = normalizeAddressKey(trimmed);
+    if (key && !distinct.has(key)) distinct.set(key, trimmed);
+  }
+
+  const results: AddressResolution[] = [];
+  let cached = 0;
+  let requested = 0;
+  for (const address of distinct.values()) {
+    if (signal?.aborted) break;
+    let match = cache?.get(address);
+    if (match !== undefined) {
+      cached += 1;
+    } else {
+      if (requested > 0 && delayMs > 0) await wait(delayMs);
+      requested += 1;
+      try {
+        match = await geocoder(address);
+        cache?.set(address, match);
+      } catch (error) {
+        // Leave network failures uncached so a retry can pick them up.
+        console.warn("Address geocode failed", error);
+        match = null;
+      }
+    }
+
+    const location = match ? await locate(match.longitude, match.latitude) : null;
+    const zip = location?.zip ?? null;
+    results.push({
+      address,
+      status: !match || !zip ? "unresolved" : match.confidence >= minConfidence ? "matched" : "review",
+      latitude: match?.latitude ?? null,
+      longitude: match?.longitude ?? null,
+      provider: match?.provider ?? null,
+      confidence: match?.confidence ?? 0,
+      zip,
+      county: location?.county ?? null,
+    });
+    onProgress?.({ completed: results.length, total: distinct.size, cached });
+  }
+  return results;
+};
+
+/** Address -> ZIP lookup for the CSV transform, from matched and manually fixed rows. */
+export const buildAddressZipLookup = (resolutions: AddressResolution[]): Record<string, string> => {
+  const lookup: Record<string, string> = {};
+  for (const resolution of resolutions) {
+    if (!resolution.zip) continue;
+    if (resolution.status === "matched" || resolution.status === "manual") {
+      lookup[normalizeAddressKey(resolution.address)] = resolution.zip;
+    }
+  }
+  return lookup;
+};
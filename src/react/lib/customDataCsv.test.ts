@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import {
+  collectCsvAddressesFile,
   collectCsvColumnValuesFile,
   parseCsvRecords,
   previewCsvTransformText,
@@ -256,4 +257,42 @@ describe("customDataCsv", () => {
     expect(sample.values).toEqual(["200", "650"]);
     expect(sample.sampledRows).toBe(3);
   });
+
+  it("resolves geocoded addresses to ZIPs during transforms", async () => {
+    const csv = [
+      "street,city,visits",
+      "1 Main St.,Tulsa,3",
+      "1 MAIN ST, Tulsa,2",
+      "9 Nowhere Rd,Tulsa,4",
+    ].join("\n");
+    const roles = { street: "locationAddress", city: "locationCity", visits: "measure" } as const;
+
+    const addresses = await collectCsvAddressesFile(new File([csv], "visits.csv", { type: "text/csv" }), roles);
+    expect(addresses.values).toEqual(["1 Main St., Tulsa", "9 Nowhere Rd, Tulsa"]);
+
+    const preview = previewCsvTransformText(csv, {
+      datasetName: "Visits",
+      roles,
+      aggregations: { visits: "sum" },
+      locationLookups: { addressToZip: { "1 Main St, Tulsa": "74103" } },
+    });
+    expect(preview.locationKind).toBe("ZIP");
+    expect(preview.statDataRows[0]?.data).toEqual({ "74103": 5 });
+    expect(preview.unresolvedLocationValues).toEqual(["9 Nowhere Rd, Tulsa"]);
+  });
+
+  it("suppresses small cells before emitting stat data", () => {
+    const rows = ["zip,present", ...Array.from({ length: 12 }, () => "74106,1"), "74120,1", "74120,0", "74103,1"];
+    const preview = previewCsvTransformText(rows.join("\n"), {
+      datasetName: "Attendance",
+      roles: { zip: "locationZip", present: "measure" },
+      aggregations: { present: "sum" },
+      privacy: { minCellCount: 10, complementarySuppression: false, roundTo: 0, noise: 0 },
+    });
+
+    expect(preview.statDataRows[0]?.data).toEqual({ "74106": 12 });
+    expect(preview.statDataRows[0]?.counts).toEqual({ "74106": 12 });
+    expect(preview.suppressedCells).toBe(2);
+    expect(preview.warnings.some((warning) => warning.includes("fewer than 10 records"))).toBe(true);
+  });
 });
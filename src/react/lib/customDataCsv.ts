@@ -1,3 +1,5 @@
+import { applyPrivacyRules, hasPrivacyRules, type PrivacyRules } from "./smallCellSuppression";
+
 export type CustomDataKind = "attendance" | "people" | "survey" | "generic";
 
 export type ColumnRole =
@@ -47,7 +49,11 @@ export interface CsvTransformMapping {
   valueTypes?: Record<string, CustomStatValueType>;
   locationLookups?: {
     siteIdToZip?: Record<string, string>;
+    /** Geocoded ZIP per address, keyed by `normalizeAddressKey`. */
+    addressToZip?: Record<string, string>;
   };
+  /** Small-cell rules enforced on every stat data row the transform emits. */
+  privacy?: PrivacyRules;
 }
 
 export interface TransformMeasurePreview {
@@ -72,6 +78,8 @@ export interface StatDataPreviewRow {
   date: string;
   type: CustomStatValueType;
   data: Record<string, number>;
+  /** Records behind each value in `data`, for re-checking privacy rules at render time. */
+  counts: Record<string, number>;
 }
 
 export interface CsvTransformPreview {
@@ -87,6 +95,8 @@ export interface CsvTransformPreview {
   measures: TransformMeasurePreview[];
   statDataRows: StatDataPreviewRow[];
   unresolvedLocationValues: string[];
+  /** Area values hidden by the privacy rules, across all stat data rows. */
+  suppressedCells: number;
   warnings: string[];
 }
 
@@ -121,6 +131,7 @@ const DEFAULT_SAMPLE_BYTES = 2_000_000;
 const DEFAULT_TRANSFORM_SAMPLE_ROWS = 25000;
 const DEFAULT_TRANSFORM_SAMPLE_BYTES = 6_000_000;
 const DEFAULT_LOOKUP_SAMPLE_VALUES = 200;
+const DEFAULT_ADDRESS_VALUES = 2000;
 const ZIP_PARENT_AREA = "Oklahoma";
 
 const ROLE_PRIORITY: Record<ColumnRole, number> = {
@@ -437,6 +448,56 @@ export const collectCsvColumnValuesFile = async (
   };
 };
 
+/**
+ * Distinct "street, city, state" addresses from the mapped address columns,
+ * joined the same way the transform keys address rows.
+ */
+export const collectCsvAddressesFile = async (
+  file: File,
+  roles: Record<string, ColumnRole>,
+  {
+    maxBytes = DEFAULT_TRANSFORM_SAMPLE_BYTES,
+    maxRows = DEFAULT_TRANSFORM_SAMPLE_ROWS,
+    maxValues = DEFAULT_ADDRESS_VALUES,
+  }: {
+    maxBytes?: number;
+    maxRows?: number;
+    maxValues?: number;
+  } = {},
+): Promise<ColumnValueSample> => {
+  const sample = file.slice(0, maxBytes);
+  const text = await sample.text();
+  const parsed = parseCsvRecords(text, { maxRows: maxRows + 1, includePartialRecord: file.size <= maxBytes });
+  const [headers = [], ...rows] = parsed.records;
+  const addressColumn = roleEntries(headers, roles, "locationAddress")[0] ?? null;
+  const cityColumn = roleEntries(headers, roles, "locationCity")[0] ?? null;
+  const stateColumn = roleEntries(headers, roles, "locationState")[0] ?? null;
+  const columnName = [addressColumn?.name, cityColumn?.name, stateColumn?.name].filter(Boolean).join(", ");
+  if (!addressColumn) {
+    return { columnName, values: [], truncated: file.size > maxBytes, sampledRows: 0 };
+  }
+
+  const valuesByKey = new Map<string, string>();
+  for (const row of rows) {
+    const address = joinAddressParts([
+      row[addressColumn.index],
+      cityColumn ? row[cityColumn.index] : "",
+      stateColumn ? row[stateColumn.index] : "",
+    ]);
+    if (!address) continue;
+    const key = normalizeAddressKey(address);
+    if (!valuesByKey.has(key)) valuesByKey.set(key, address);
+    if (valuesByKey.size >= maxValues) break;
+  }
+
+  return {
+    columnName,
+    values: Array.from(valuesByKey.values()).sort((a, b) => a.localeCompare(b)),
+    truncated: file.size > maxBytes || valuesByKey.size >= maxValues,
+    sampledRows: rows.length,
+  };
+};
+
 export const sortColumnsForReview = (columns: ColumnProfile[]): ColumnProfile[] => {
   return [...columns].sort((a, b) => {
     const roleDelta = ROLE_PRIORITY[a.suggestedRole] - ROLE_PRIORITY[b.suggestedRole];
@@ -462,6 +523,21 @@ const normalizeZip = (value: string) => {
 
 const normalizeLookupKey = (value: string) => value.trim().toLowerCase();
 
+/** Case- and whitespace-insensitive key for a joined "street, city, state" address. */
+export const normalizeAddressKey = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[.#]/g, "")
+    .replace(/\s*,\s*/g, ", ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const joinAddressParts = (parts: Array<string | undefined>) =>
+  parts
+    .map((part) => (part ?? "").trim())
+    .filter(Boolean)
+    .join(", ");
+
 const normalizeDateBucket = (value: string) => {
   const trimmed = value.trim();
   if (!trimmed) return "all";
@@ -522,8 +598,22 @@ const createTransformBuilder = (
     const normalizedZip = normalizeZip(zip);
     if (normalizedSiteId && normalizedZip) siteIdToZip.set(normalizedSiteId, normalizedZip);
   }
+  const addressToZip = new Map<string, string>();
+  for (const [address, zip] of Object.entries(mapping.locationLookups?.addressToZip ?? {})) {
+    const normalizedAddress = normalizeAddressKey(address);
+    const normalizedZip = normalizeZip(zip);
+    if (normalizedAddress && normalizedZip) addressToZip.set(normalizedAddress, normalizedZip);
+  }
   const resolvesSiteIdsToZip = Boolean(siteColumn && siteIdToZip.size > 0);
-  const locationKind: TransformLocationKind | null = zipColumn || resolvesSiteIdsToZip ? "ZIP" : siteColumn ? "SITE_ID" : addressColumn ? "ADDRESS" : null;
+  const resolvesAddressesToZip = Boolean(!zipColumn && !siteColumn && addressColumn && addressToZip.size > 0);
+  const locationKind: TransformLocationKind | null =
+    zipColumn || resolvesSiteIdsToZip || resolvesAddressesToZip
+      ? "ZIP"
+      : siteColumn
+        ? "SITE_ID"
+        : addressColumn
+          ? "ADDRESS"
+          : null;
   const locationColumn = zipColumn?.name ?? siteColumn?.name ?? addressColumn?.name ?? null;
 
   if (siteColumn && !resolvesSiteIdsToZip) {
@@ -535,10 +625,14 @@ const createTransformBuilder = (
   if (locationKind === "ADDRESS") {
     warnings.push("Address locations need geocoding before they can render as map areas.");
   }
+  if (resolvesAddressesToZip) {
+    warnings.push("Addresses are being resolved to ZIPs with this import's geocoding results.");
+  }
 
   const buckets = new Map<string, Bucket>();
   const measureTotals = new Map<string, MeasureTotals>();
   const unresolvedSiteIds = new Set<string>();
+  const unresolvedAddresses = new Set<string>();
   let skippedRows = 0;
   let sampledRows = 0;
 
@@ -555,10 +649,15 @@ const createTransformBuilder = (
       return rawSiteId;
     }
     if (addressColumn) {
-      return [row[addressColumn.index], cityColumn ? row[cityColumn.index] : "", stateColumn ? row[stateColumn.index] : ""]
-        .map((part) => (part ?? "").trim())
-        .filter(Boolean)
-        .join(", ");
+      const address = joinAddressParts([
+        row[addressColumn.index],
+        cityColumn ? row[cityColumn.index] : "",
+        stateColumn ? row[stateColumn.index] : "",
+      ]);
+      if (!address || !resolvesAddressesToZip) return address;
+      const zip = addressToZip.get(normalizeAddressKey(address)) ?? "";
+      if (!zip) unresolvedAddresses.add(address);
+      return zip;
     }
     return "";
   };
@@ -611,12 +710,19 @@ const createTransformBuilder = (
   };
 
   const build = (): CsvTransformPreview => {
-    const unresolvedLocationValues = Array.from(unresolvedSiteIds).sort((a, b) => a.localeCompare(b)).slice(0, DEFAULT_LOOKUP_SAMPLE_VALUES);
+    const unresolvedLocationValues = Array.from(unresolvedSiteIds.size > 0 ? unresolvedSiteIds : unresolvedAddresses)
+      .sort((a, b) => a.localeCompare(b))
+      .slice(0, DEFAULT_LOOKUP_SAMPLE_VALUES);
     if (unresolvedSiteIds.size > 0) {
       warnings.push(
         `${unresolvedSiteIds.size.toLocaleString()} site/school IDs were not in the ZIP lookup and were skipped from ZIP stats.`,
       );
     }
+    if (unresolvedAddresses.size > 0) {
+      warnings.push(
+        `${unresolvedAddresses.size.toLocaleString()} addresses were not geocoded to a ZIP and were skipped from ZIP stats.`,
+      );
+    }
     const measures: TransformMeasurePreview[] = Array.from(measureTotals.entries()).map(([measureName, totals]) => {
       const aggregation: TransformAggregation =
         mapping.aggregations?.[measureName] ??
@@ -649,6 +755,9 @@ const createTransformBuilder = (
     });
 
     const statDataRows: StatDataPreviewRow[] = [];
+    const privacy = hasPrivacyRules(mapping.privacy) ? mapping.privacy : null;
+    let primarySuppressed = 0;
+    let complementarySuppressed = 0;
     if (locationKind) {
       const measureRows = statDataMode === "sample" ? measures.slice(0, 4) : measures;
       for (const measure of measureRows) {
@@ -672,8 +781,10 @@ const createTransformBuilder = (
         const inferredStatType = measure.aggregation === "average" ? inferAverageStatType(measure.measureName, measureRange) : "count";
         const statType = mapping.valueTypes?.[measure.measureName] ?? inferredStatType;
         const dateRows = statDataMode === "sample" ? Array.from(dates).slice(0, 2) : Array.from(dates);
+        const statName = `${mapping.datasetName || "Custom import"} - ${measure.measureName}`;
         for (const date of dateRows) {
-          const data: Record<string, number> = {};
+          let data: Record<string, number> = {};
+          let counts: Record<string, number> = {};
           for (const [key, bucket] of buckets.entries()) {
             const [bucketMeasure, bucketDate, area] = key.split("\u001f");
             if (bucketMeasure !== measure.measureName || bucketDate !== date) continue;
@@ -683,21 +794,50 @@ const createTransformBuilder = (
                 : measure.aggregation === "sum"
                   ? bucket.sum
                   : bucket.count;
-            if (statDataMode === "sample" && Object.keys(data).length >= 8) break;
+            counts[area] = bucket.count;
+            // Suppression has to see every area in the slice, so only cap samples without rules.
+            if (!privacy && statDataMode === "sample" && Object.keys(data).length >= 8) break;
+          }
+          if (privacy) {
+            const suppressed = applyPrivacyRules(data, counts, privacy, {
+              type: statType,
+              noiseKey: `${statName}\u001f${date}`,
+            });
+            primarySuppressed += suppressed.primary.length;
+            complementarySuppressed += suppressed.complementary.length;
+            data = suppressed.data;
+            counts = suppressed.counts;
+            if (statDataMode === "sample") {
+              const sampleAreas = Object.keys(data).slice(0, 8);
+              data = Object.fromEntries(sampleAreas.map((area) => [area, data[area]]));
+              counts = Object.fromEntries(sampleAreas.map((area) => [area, counts[area]]));
+            }
           }
           statDataRows.push({
-            statName: `${mapping.datasetName || "Custom import"} - ${measure.measureName}`,
+            statName,
             name: "root",
             parentArea: locationKind === "ZIP" ? ZIP_PARENT_AREA : "Unresolved custom locations",
             boundaryType: locationKind,
             date,
             type: statType,
             data,
+            counts,
           });
         }
       }
     }
 
+    if (privacy && primarySuppressed > 0) {
+      warnings.push(
+        `${primarySuppressed.toLocaleString()} area values had fewer than ${privacy.minCellCount.toLocaleString()} records and were suppressed.`,
+      );
+    }
+    if (complementarySuppressed > 0) {
+      warnings.push(
+        `${complementarySuppressed.toLocaleString()} more area values were suppressed so hidden values can't be backed out of totals.`,
+      );
+    }
+
     return {
       sampledRows,
       skippedRows,
@@ -711,6 +851,7 @@ const createTransformBuilder = (
       measures,
       statDataRows,
       unresolvedLocationValues,
+      suppressedCells: primarySuppressed + complementarySuppressed,
       warnings,
     };
   };
@@ -907,6 +1048,7 @@ export const transformCsvFile = async (
       measures: [],
       statDataRows: [],
       unresolvedLocationValues: [],
+      suppressedCells: 0,
       warnings,
     };
   }
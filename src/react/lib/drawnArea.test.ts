@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import type { StatBoundaryEntry } from "../hooks/useStats";
+import {
+  DRAWN_AREA_CODE,
+  apportionValue,
+  computeAreaOverlapWeights,
+  decodeDrawnShape,
+  distanceMeters,
+  encodeDrawnShape,
+  getBaselineValues,
+  getShapeRing,
+  isPointInDrawnShape,
+  limitVertices,
+  withDrawnAreaStatData,
+  type DrawnShape,
+} from "./drawnArea";
+
+const square = (minX: number, minY: number, maxX: number, maxY: number): GeoJSON.Polygon => ({
+  type: "Polygon",
+  coordinates: [[[minX, minY], [maxX, minY], [maxX, maxY], [minX, maxY], [minX, minY]]],
+});
+
+describe("drawnArea", () => {
+  it("apportions overlap by area across the ZIPs a shape cuts through", () => {
+    const shape: DrawnShape = { type: "polygon", coordinates: [[1, 0], [3, 0], [3, 2], [1, 2]] };
+    const weights = computeAreaOverlapWeights(shape, [
+      { code: "A", geometry: square(0, 0, 2, 2) },
+      { code: "B", geometry: square(2, 0, 4, 2) },
+      { code: "C", geometry: square(10, 10, 11, 11) },
+    ]);
+    expect(Object.keys(weights).sort()).toEqual(["A", "B"]);
+    expect(weights.A).toBeCloseTo(0.5, 2);
+    expect(weights.B).toBeCloseTo(0.5, 2);
+  });
+
+  it("treats a ZIP fully inside the shape as fully covered", () => {
+    const shape: DrawnShape = { type: "circle", center: [-97.5, 35.5], radiusMeters: 50_000 };
+    const weights = computeAreaOverlapWeights(shape, [
+      { code: "73102", geometry: square(-97.52, 35.48, -97.48, 35.52) },
+    ]);
+    expect(weights["73102"]).toBeCloseTo(1, 2);
+  });
+
+  it("builds a closed circle ring at the requested radius", () => {
+    const ring = getShapeRing({ type: "circle", center: [-96, 36], radiusMeters: 1000 });
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+    for (const point of ring) {
+      expect(distanceMeters([-96, 36], point)).toBeCloseTo(1000, 0);
+    }
+  });
+
+  it("sums counts and population-weights other stat types", () => {
+    const weights = { A: 0.5, B: 1 };
+    expect(apportionValue("count", { A: 100, B: 40 }, weights)).toBe(90);
+    // A contributes 1000 * 0.5 people at 10%, B 500 * 1 people at 40%.
+    expect(apportionValue("percent", { A: 0.1, B: 0.4 }, weights, { A: 1000, B: 500 })).toBeCloseTo(0.25);
+    expect(apportionValue("percent", { A: 0.1, B: 0.4 }, weights)).toBeCloseTo(0.3);
+    expect(apportionValue("count", { C: 5 }, weights)).toBeNull();
+  });
+
+  it("adds the drawn area value to each stat's ZIP data", () => {
+    const statData = new Map<string, Partial<Record<"ZIP" | "COUNTY", StatBoundaryEntry>>>([
+      ["pop", { ZIP: { type: "count", data: { A: 100, B: 40 }, min: 40, max: 100 } }],
+      ["county-only", { COUNTY: { type: "count", data: { X: 1 }, min: 1, max: 1 } }],
+    ]);
+    const next = withDrawnAreaStatData(statData, { A: 0.5 }, "pop");
+    expect(next.get("pop")?.ZIP?.data[DRAWN_AREA_CODE]).toBe(50);
+    expect(next.get("pop")?.ZIP).toMatchObject({ min: 40, max: 100 });
+    // Spanning both ZIPs in full gives a total above either one, so the scale widens.
+    expect(withDrawnAreaStatData(statData, { A: 1, B: 1 }, "pop").get("pop")?.ZIP).toMatchObject({
+      min: 40,
+      max: 140,
+    });
+    expect(next.get("county-only")).toBe(statData.get("county-only"));
+    expect(statData.get("pop")?.ZIP?.data[DRAWN_AREA_CODE]).toBeUndefined();
+  });
+
+  it("keeps the drawn area out of baselines and tests points against the shape", () => {
+    expect(getBaselineValues({ A: 1, B: Number.NaN, [DRAWN_AREA_CODE]: 5 })).toEqual([1]);
+    const circle: DrawnShape = { type: "circle", center: [-96, 36], radiusMeters: 1000 };
+    expect(isPointInDrawnShape(circle, -96.005, 36)).toBe(true);
+    expect(isPointInDrawnShape(circle, -96.02, 36)).toBe(false);
+    const triangle: DrawnShape = { type: "polygon", coordinates: [[0, 0], [4, 0], [0, 4]] };
+    expect(isPointInDrawnShape(triangle, 1, 1)).toBe(true);
+    expect(isPointInDrawnShape(triangle, 3, 3)).toBe(false);
+  });
+
+  it("round-trips shapes through the URL encoding", () => {
+    const circle: DrawnShape = { type: "circle", center: [-95.99281, 36.15402], radiusMeters: 1523.4 };
+    expect(decodeDrawnShape(encodeDrawnShape(circle))).toEqual({
+      type: "circle",
+      center: [-95.9928, 36.154],
+      radiusMeters: 1523,
+    });
+    const polygon: DrawnShape = { type: "polygon", coordinates: [[-96, 36], [-95.9, 36], [-95.9, 36.1]] };
+    expect(decodeDrawnShape(encodeDrawnShape(polygon))).toEqual(polygon);
+    expect(decodeDrawnShape("p:-96,36;-95.9,36")).toBeNull();
+    expect(decodeDrawnShape("c:-96,36,0")).toBeNull();
+    expect(decodeDrawnShape("nope")).toBeNull();
+  });
+
+  it("thins long traces but keeps both ends", () => {
+    const trace = Array.from({ length: 500 }, (_, i) => [i, i] as [number, number]);
+    const limited = limitVertices(trace, 50);
+    expect(limited).toHaveLength(50);
+    expect(limited[0]).toEqual([0, 0]);
+    expect(limited[49]).toEqual([499, 499]);
+  });
+});
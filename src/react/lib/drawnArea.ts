@@ -0,0 +1,369 @@
+import type { Position } from "geojson";
+
+import type { SeriesByKind, SeriesEntry, StatBoundaryEntry } from "../hooks/useStats";
+
+/**
+ * A freehand polygon or radius drawn on the map. It behaves like a single ZIP
+ * selection whose values are apportioned from the ZIPs it overlaps.
+ */
+export type DrawnShape =
+  | { type: "polygon"; coordinates: [number, number][] }
+  | { type: "circle"; center: [number, number]; radiusMeters: number };
+
+export type DrawMode = DrawnShape["type"];
+
+/** Share of each overlapping ZIP's area that falls inside the drawn shape (0-1). */
+export type AreaOverlapWeights = Record<string, number>;
+
+export interface DrawnAreaSelection {
+  shape: DrawnShape;
+  weights: AreaOverlapWeights;
+}
+
+export interface OverlapCandidate {
+  code: string;
+  geometry: GeoJSON.Geometry;
+}
+
+// Pseudo ZIP code used to thread the drawn area through stat/series maps.
+export const DRAWN_AREA_CODE = "drawn";
+export const DRAWN_AREA_LABEL = "Drawn area";
+
+const EARTH_RADIUS_METERS = 6_371_008.8;
+const CIRCLE_SEGMENTS = 64;
+const OVERLAP_SAMPLES_PER_AXIS = 40;
+const MAX_POLYGON_VERTICES = 120;
+const MIN_OVERLAP_FRACTION = 0.001;
+
+type Bounds = [number, number, number, number];
+
+type StatDataByKind = Partial<Record<"ZIP" | "COUNTY", StatBoundaryEntry>>;
+
+export const isDrawnAreaCode = (code: string): boolean => code === DRAWN_AREA_CODE;
+
+/** Finite values of a stat's data, leaving out the drawn area so it never skews area baselines. */
+export const getBaselineValues = (data: Record<string, number> | null | undefined): number[] => {
+  const values: number[] = [];
+  for (const [code, value] of Object.entries(data ?? {})) {
+    if (isDrawnAreaCode(code)) continue;
+    if (typeof value === "number" && Number.isFinite(value)) values.push(value);
+  }
+  return values;
+};
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+export const distanceMeters = (a: [number, number], b: [number, number]): number => {
+  const dLat = toRadians(b[1] - a[1]);
+  const dLng = toRadians(b[0] - a[0]);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a[1])) * Math.cos(toRadians(b[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const destination = (center: [number, number], distance: number, bearing: number): [number, number] => {
+  const angular = distance / EARTH_RADIUS_METERS;
+  const lat1 = toRadians(center[1]);
+  const lng1 = toRadians(center[0]);
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing),
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2),
+    );
+  return [toDegrees(lng2), toDegrees(lat2)];
+};
+
+/** Thins a long freehand trace to at most `maxVertices` points, keeping the first and last. */
+export const limitVertices = (
+  coordinates: [number, number][],
+  maxVertices = MAX_POLYGON_VERTICES,
+): [number, number][] => {
+  if (coordinates.length <= maxVertices) return coordinates;
+  const step = (coordinates.length - 1) / (maxVertices - 1);
+  const result: [number, number][] = [];
+  for (let i = 0; i < maxVertices; i += 1) {
+    result.push(coordinates[Math.round(i * step)]);
+  }
+  return result;
+};
+
+/** Closed outer ring for the shape; circles become a 64-gon. */
+export const getShapeRing = (shape: DrawnShape): [number, number][] => {
+  if (shape.type === "circle") {
+    const ring: [number, number][] = [];
+    for (let i = 0; i < CIRCLE_SEGMENTS; i += 1) {
+      ring.push(destination(shape.center, shape.radiusMeters, (2 * Math.PI * i) / CIRCLE_SEGMENTS));
+    }
+    ring.push(ring[0]);
+    return ring;
+  }
+  const ring = [...shape.coordinates];
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first && last && (first[0] !== last[0] || first[1] !== last[1])) ring.push(first);
+  return ring;
+};
+
+export const isValidDrawnShape = (shape: DrawnShape): boolean => {
+  if (shape.type === "circle") {
+    return shape.center.every(Number.isFinite) && Number.isFinite(shape.radiusMeters) && shape.radiusMeters > 0;
+  }
+  return shape.coordinates.length >= 3 && shape.coordinates.every((point) => point.every(Number.isFinite));
+};
+
+export const drawnShapeToFeature = (shape: DrawnShape): GeoJSON.Feature<GeoJSON.Polygon> => ({
+  type: "Feature",
+  geometry: { type: "Polygon", coordinates: [getShapeRing(shape)] },
+  properties: {},
+});
+
+const pointInRing = (point: Position, ring: Position[]): boolean => {
+  let inside = false;
+  const [x, y] = point;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const xi = ring[i][0];
+    const yi = ring[i][1];
+    const xj = ring[j][0];
+    const yj = ring[j][1];
+    const intersects = yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+    if (intersects) inside = !inside;
+  }
+  return inside;
+};
+
+const pointInPolygon = (point: Position, polygon: Position[][]): boolean => {
+  if (polygon.length === 0 || !pointInRing(point, polygon[0])) return false;
+  for (let i = 1; i < polygon.length; i += 1) {
+    if (pointInRing(point, polygon[i])) return false;
+  }
+  return true;
+};
+
+export const isPointInDrawnShape = (shape: DrawnShape, longitude: number, latitude: number): boolean => {
+  if (shape.type === "circle") return distanceMeters(shape.center, [longitude, latitude]) <= shape.radiusMeters;
+  return pointInRing([longitude, latitude], getShapeRing(shape));
+};
+
+const getPolygons = (geometry: GeoJSON.Geometry): Position[][][] => {
+  if (geometry.type === "Polygon") return [geometry.coordinates];
+  if (geometry.type === "MultiPolygon") return geometry.coordinates;
+  return [];
+};
+
+const ringArea = (ring: Position[]): number => {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] + ring[i][0]) * (ring[j][1] - ring[i][1]);
+  }
+  return Math.abs(sum) / 2;
+};
+
+// Planar area in squared degrees; only ever compared against sampled areas in the same units.
+const polygonsArea = (polygons: Position[][][]): number =>
+  polygons.reduce(
+    (total, polygon) =>
+      total + (polygon.length > 0 ? ringArea(polygon[0]) - polygon.slice(1).reduce((sum, hole) => sum + ringArea(hole), 0) : 0),
+    0,
+  );
+
+const ringBounds = (rings: Position[][]): Bounds => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const ring of rings) {
+    for (const [x, y] of ring) {
+      if (x < minX) minX = x;
+      if (y < minY) minY = y;
+      if (x > maxX) maxX = x;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return [minX, minY, maxX, maxY];
+};
+
+/**
+ * Estimates, for every candidate ZIP, the fraction of its area inside the
+ * shape. The overlap is sampled on a grid over the intersection of the two
+ * bounding boxes, so results are approximate but stable for any polygon.
+ */
+export const computeAreaOverlapWeights = (
+  shape: DrawnShape,
+  candidates: OverlapCandidate[],
+): AreaOverlapWeights => {
+  const weights: AreaOverlapWeights = {};
+  if (!isValidDrawnShape(shape)) return weights;
+  const shapeRing = getShapeRing(shape);
+  const [shapeMinX, shapeMinY, shapeMaxX, shapeMaxY] = ringBounds([shapeRing]);
+
+  for (const { code, geometry } of candidates) {
+    const polygons = getPolygons(geometry);
+    if (polygons.length === 0) continue;
+    const [minX, minY, maxX, maxY] = ringBounds(polygons.map((polygon) => polygon[0] ?? []));
+    const left = Math.max(minX, shapeMinX);
+    const right = Math.min(maxX, shapeMaxX);
+    const bottom = Math.max(minY, shapeMinY);
+    const top = Math.min(maxY, shapeMaxY);
+    if (left >= right || bottom >= top) continue;
+
+    const totalArea = polygonsArea(polygons);
+    if (!(totalArea > 0)) continue;
+
+    const cellWidth = (right - left) / OVERLAP_SAMPLES_PER_AXIS;
+    const cellHeight = (top - bottom) / OVERLAP_SAMPLES_PER_AXIS;
+    let hits = 0;
+    for (let ix = 0; ix < OVERLAP_SAMPLES_PER_AXIS; ix += 1) {
+      const x = left + (ix + 0.5) * cellWidth;
+      for (let iy = 0; iy < OVERLAP_SAMPLES_PER_AXIS; iy += 1) {
+        const point: Position = [x, bottom + (iy + 0.5) * cellHeight];
+        if (!pointInRing(point, shapeRing)) continue;
+        if (polygons.some((polygon) => pointInPolygon(point, polygon))) hits += 1;
+      }
+    }
+
+    const fraction = Math.min(1, (hits * cellWidth * cellHeight) / totalArea);
+    if (fraction >= MIN_OVERLAP_FRACTION) weights[code] = fraction;
+  }
+
+  return weights;
+};
+
+/**
+ * Value for the drawn area. Counts are summed in proportion to the overlap;
+ * other types are averaged, weighting each ZIP by its overlapping population
+ * (or overlap alone when population is unknown). Null when no ZIP has data.
+ */
+export const apportionValue = (
+  type: string,
+  data: Record<string, number>,
+  weights: AreaOverlapWeights,
+  population?: Record<string, number> | null,
+): number | null => {
+  let total = 0;
+  let weightTotal = 0;
+  let matched = 0;
+  for (const [code, fraction] of Object.entries(weights)) {
+    const value = data[code];
+    if (typeof value !== "number" || !Number.isFinite(value)) continue;
+    matched += 1;
+    if (type === "count") {
+      total += value * fraction;
+      continue;
+    }
+    const pop = population?.[code];
+    const weight = typeof pop === "number" && Number.isFinite(pop) && pop > 0 ? pop * fraction : fraction;
+    total += value * weight;
+    weightTotal += weight;
+  }
+  if (matched === 0) return null;
+  if (type === "count") return total;
+  return weightTotal > 0 ? total / weightTotal : null;
+};
+
+const withDrawnValue = (
+  data: Record<string, number>,
+  value: number | null,
+): Record<string, number> => {
+  if (value === null) return data;
+  return { ...data, [DRAWN_AREA_CODE]: value };
+};
+
+/**
+ * Copies `statDataById` with an apportioned ZIP value for the drawn area added
+ * to each stat. `min`/`max` are widened to include it so the drawn area is
+ * colored on the same scale as the ZIPs instead of falling outside it.
+ */
+export const withDrawnAreaStatData = (
+  statDataById: Map<string, StatDataByKind>,
+  weights: AreaOverlapWeights,
+  populationStatId: string | null,
+): Map<string, StatDataByKind> => {
+  const population = populationStatId ? statDataById.get(populationStatId)?.ZIP?.data ?? null : null;
+  const next = new Map<string, StatDataByKind>();
+  for (const [statId, byKind] of statDataById) {
+    const zipEntry = byKind.ZIP;
+    if (!zipEntry) {
+      next.set(statId, byKind);
+      continue;
+    }
+    const value = apportionValue(zipEntry.type, zipEntry.data, weights, population);
+    if (value === null) {
+      next.set(statId, byKind);
+      continue;
+    }
+    next.set(statId, {
+      ...byKind,
+      ZIP: {
+        ...zipEntry,
+        data: withDrawnValue(zipEntry.data, value),
+        min: Math.min(zipEntry.min, value),
+        max: Math.max(zipEntry.max, value),
+      },
+    });
+  }
+  return next;
+};
+
+/** Same as `withDrawnAreaStatData` for every date of each stat's ZIP series. */
+export const withDrawnAreaSeries = (
+  seriesByStatIdByKind: Map<string, SeriesByKind>,
+  weights: AreaOverlapWeights,
+  populationStatId: string | null,
+): Map<string, SeriesByKind> => {
+  const populationSeries = populationStatId ? seriesByStatIdByKind.get(populationStatId)?.get("ZIP") ?? [] : [];
+  const populationByDate = new Map(populationSeries.map((entry) => [entry.date, entry.data]));
+  const latestPopulation = populationSeries[populationSeries.length - 1]?.data ?? null;
+  const next = new Map<string, SeriesByKind>();
+  for (const [statId, byKind] of seriesByStatIdByKind) {
+    const zipSeries = byKind.get("ZIP");
+    if (!zipSeries || zipSeries.length === 0) {
+      next.set(statId, byKind);
+      continue;
+    }
+    const copy: SeriesByKind = new Map(byKind);
+    copy.set(
+      "ZIP",
+      zipSeries.map((entry: SeriesEntry) => {
+        const population = populationByDate.get(entry.date) ?? latestPopulation;
+        const value = apportionValue(entry.type, entry.data, weights, population);
+        return { ...entry, data: withDrawnValue(entry.data, value) };
+      }),
+    );
+    next.set(statId, copy);
+  }
+  return next;
+};
+
+const formatCoordinate = (value: number): string => String(Math.round(value * 1e4) / 1e4);
+
+/** Compact URL form: `c:lng,lat,radius` or `p:lng,lat;lng,lat;…`. */
+export const encodeDrawnShape = (shape: DrawnShape): string => {
+  if (shape.type === "circle") {
+    return `c:${formatCoordinate(shape.center[0])},${formatCoordinate(shape.center[1])},${Math.round(shape.radiusMeters)}`;
+  }
+  return `p:${limitVertices(shape.coordinates)
+    .map(([lng, lat]) => `${formatCoordinate(lng)},${formatCoordinate(lat)}`)
+    .join(";")}`;
+};
+
+export const decodeDrawnShape = (raw: string | null | undefined): DrawnShape | null => {
+  if (typeof raw !== "string") return null;
+  const [prefix, body] = [raw.slice(0, 2), raw.slice(2)];
+  let shape: DrawnShape | null = null;
+  if (prefix === "c:") {
+    const [lng, lat, radius] = body.split(",").map(Number);
+    shape = { type: "circle", center: [lng, lat], radiusMeters: radius };
+  } else if (prefix === "p:") {
+    const coordinates = body.split(";").map((pair) => {
+      const [lng, lat] = pair.split(",").map(Number);
+      return [lng, lat] as [number, number];
+    });
+    shape = { type: "polygon", coordinates };
+  }
+  return shape && isValidDrawnShape(shape) ? shape : null;
+};
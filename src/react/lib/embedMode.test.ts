@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMBED_MESSAGE_SOURCE,
+  buildEmbedSnippet,
+  buildEmbedUrl,
+  getEmbedOptionsFromSearch,
+  isEmbedLocation,
+  parseEmbedCommand,
+} from "./embedMode";
+
+describe("isEmbedLocation", () => {
+  it("matches the /embed path and the legacy query flag", () => {
+    expect(isEmbedLocation({ pathname: "/embed", search: "" })).toBe(true);
+    expect(isEmbedLocation({ pathname: "/embed/", search: "?stat=x" })).toBe(true);
+    expect(isEmbedLocation({ pathname: "/", search: "?embed=1" })).toBe(true);
+    expect(isEmbedLocation({ pathname: "/", search: "?embed=0" })).toBe(false);
+    expect(isEmbedLocation({ pathname: "/embedded", search: "" })).toBe(false);
+  });
+});
+
+describe("getEmbedOptionsFromSearch", () => {
+  it("locks by default and only accepts a bare origin", () => {
+    expect(getEmbedOptionsFromSearch("")).toEqual({ locked: true, hostOrigin: null });
+    expect(getEmbedOptionsFromSearch("?lock=false&origin=https://partner.org")).toEqual({
+      locked: false,
+      hostOrigin: "https://partner.org",
+    });
+    expect(getEmbedOptionsFromSearch("?origin=https://partner.org/maps").hostOrigin).toBeNull();
+    expect(getEmbedOptionsFromSearch("?origin=partner.org").hostOrigin).toBeNull();
+  });
+});
+
+describe("parseEmbedCommand", () => {
+  it("accepts known commands from the embed source", () => {
+    expect(parseEmbedCommand({ source: EMBED_MESSAGE_SOURCE, type: "setStat", statId: "abc" })).toEqual({
+      type: "setStat",
+      statId: "abc",
+    });
+    expect(
+      parseEmbedCommand({ source: EMBED_MESSAGE_SOURCE, type: "selectAreas", kind: "ZIP", ids: [74103, " 74104 ", "", {}] }),
+    ).toEqual({ type: "selectAreas", kind: "ZIP", ids: ["74103", "74104"] });
+  });
+
+  it("ignores other messages", () => {
+    expect(parseEmbedCommand({ type: "setStat", statId: "abc" })).toBeNull();
+    expect(parseEmbedCommand({ source: EMBED_MESSAGE_SOURCE, type: "selectAreas", kind: "STATE", ids: [] })).toBeNull();
+    expect(parseEmbedCommand({ source: EMBED_MESSAGE_SOURCE, type: "setCategory", category: 3 })).toBeNull();
+    expect(parseEmbedCommand("setStat")).toBeNull();
+  });
+});
+
+describe("buildEmbedUrl", () => {
+  it("keeps map state and drops full-app params", () => {
+    const url = new URL(
+      buildEmbedUrl("https://example.org/?stat=abc&zips=74103&tab=orgs&tour=1&lock=false#top", {
+        locked: true,
+        hostOrigin: "https://partner.org",
+      }),
+    );
+    expect(url.pathname).toBe("/embed");
+    expect(url.hash).toBe("");
+    expect(url.searchParams.get("stat")).toBe("abc");
+    expect(url.searchParams.get("zips")).toBe("74103");
+    expect(url.searchParams.has("tab")).toBe(false);
+    expect(url.searchParams.has("tour")).toBe(false);
+    expect(url.searchParams.has("lock")).toBe(false);
+    expect(url.searchParams.get("origin")).toBe("https://partner.org");
+  });
+
+  it("marks unlocked widgets", () => {
+    const url = new URL(buildEmbedUrl("https://example.org/?stat=abc", { locked: false, hostOrigin: null }));
+    expect(url.searchParams.get("lock")).toBe("false");
+  });
+});
+
+describe("buildEmbedSnippet", () => {
+  it("escapes attribute values", () => {
+    const snippet = buildEmbedSnippet("https://example.org/embed?a=1&b=2", { height: 480.4, title: 'Map "A"' });
+    expect(snippet).toContain('src="https://example.org/embed?a=1&amp;b=2"');
+    expect(snippet).toContain('height="480"');
+    expect(snippet).toContain('title="Map &quot;A&quot;"');
+  });
+});
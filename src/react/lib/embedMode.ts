@@ -0,0 +1,147 @@
+// Embeddable map widget: /embed?... (or the older ?embed=1) renders just the
+// map, locked to the stat, category and areas in the URL. The host page can
+// drive it and listen for clicks through window.postMessage; every message in
+// either direction carries `source: EMBED_MESSAGE_SOURCE`.
+
+type EmbedAreaKind = "ZIP" | "COUNTY";
+
+export const EMBED_PATH = "/embed";
+export const EMBED_MESSAGE_SOURCE = "neprotomin-embed";
+export const DEFAULT_EMBED_HEIGHT = 600;
+
+/** Map state reported to the host page. */
+export interface EmbedState {
+  statId: string | null;
+  category: string | null;
+  zips: string[];
+  counties: string[];
+}
+
+/** Messages the host page may send to the embedded map. */
+export type EmbedCommand =
+  | { type: "setStat"; statId: string | null }
+  | { type: "setCategory"; category: string | null }
+  | { type: "selectAreas"; kind: EmbedAreaKind; ids: string[] }
+  | { type: "getState" };
+
+/** Messages the embedded map sends to the host page. */
+export type EmbedEvent =
+  | { type: "ready"; state: EmbedState }
+  | { type: "stateChange"; state: EmbedState }
+  | { type: "areaClick"; kind: EmbedAreaKind; id: string; name: string }
+  | { type: "organizationClick"; id: string; name: string };
+
+export interface EmbedOptions {
+  /** Keep visitors from changing the stat, category or selected areas. */
+  locked: boolean;
+  /** Only this origin may send commands and receive events (null = any host). */
+  hostOrigin: string | null;
+}
+
+// Query params that only matter to the full app.
+const FULL_APP_QUERY_KEYS = [
+  "embed",
+  "tour",
+  "statsDebug",
+  "statsDebugAnalytics",
+  "advanced",
+  "tab",
+  "sc",
+  "sv",
+  "svc",
+  "demo",
+  "demoe",
+];
+
+const isEnabledFlag = (value: string | null): boolean => {
+  const raw = (value || "").trim().toLowerCase();
+  return raw === "1" || raw === "true";
+};
+
+const normalizePath = (pathname: string): string => pathname.replace(/\/+$/, "") || "/";
+
+export const isEmbedLocation = ({ pathname, search }: { pathname: string; search: string }): boolean =>
+  normalizePath(pathname) === EMBED_PATH || isEnabledFlag(new URLSearchParams(search).get("embed"));
+
+/** Reads `origin` as a bare origin such as https://partner.org; anything else is ignored. */
+export const normalizeHostOrigin = (value: string | null): string | null => {
+  if (!value) return null;
+  try {
+    const origin = new URL(value).origin;
+    return origin !== "null" && origin === value.replace(/\/+$/, "") ? origin : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getEmbedOptionsFromSearch = (search: string): EmbedOptions => {
+  const params = new URLSearchParams(search);
+  const lock = (params.get("lock") || "").trim().toLowerCase();
+  return {
+    locked: lock !== "0" && lock !== "false",
+    hostOrigin: normalizeHostOrigin(params.get("origin")),
+  };
+};
+
+export const getIsEmbedModeFromUrl = (): boolean =>
+  typeof window !== "undefined" && isEmbedLocation(window.location);
+
+export const getEmbedOptionsFromUrl = (): EmbedOptions =>
+  getEmbedOptionsFromSearch(typeof window === "undefined" ? "" : window.location.search);
+
+const isAreaKind = (value: unknown): value is EmbedAreaKind => value === "ZIP" || value === "COUNTY";
+
+const isNullableString = (value: unknown): value is string | null => value === null || typeof value === "string";
+
+/** Validates a message from the host page; null for anything that isn't a known command. */
+export const parseEmbedCommand = (data: unknown): EmbedCommand | null => {
+  if (!data || typeof data !== "object") return null;
+  const message = data as Record<string, unknown>;
+  if (message.source !== EMBED_MESSAGE_SOURCE) return null;
+  switch (message.type) {
+    case "setStat":
+      return isNullableString(message.statId) ? { type: "setStat", statId: message.statId || null } : null;
+    case "setCategory":
+      return isNullableString(message.category) ? { type: "setCategory", category: message.category || null } : null;
+    case "selectAreas": {
+      if (!isAreaKind(message.kind) || !Array.isArray(message.ids)) return null;
+      const ids = message.ids
+        .filter((id): id is string | number => typeof id === "string" || typeof id === "number")
+        .map((id) => String(id).trim())
+        .filter((id) => id.length > 0);
+      return { type: "selectAreas", kind: message.kind, ids };
+    }
+    case "getState":
+      return { type: "getState" };
+    default:
+      return null;
+  }
+};
+
+export const toEmbedMessage = (event: EmbedEvent) => ({ source: EMBED_MESSAGE_SOURCE, ...event });
+
+/**
+ * /embed URL for the map state in `href` (usually the current share link),
+ * dropping sidebar and debug params the widget doesn't use.
+ */
+export const buildEmbedUrl = (href: string, { locked, hostOrigin }: EmbedOptions): string => {
+  const url = new URL(href);
+  url.pathname = EMBED_PATH;
+  url.hash = "";
+  for (const key of [...FULL_APP_QUERY_KEYS, "lock", "origin"]) {
+    url.searchParams.delete(key);
+  }
+  if (!locked) url.searchParams.set("lock", "false");
+  if (hostOrigin) url.searchParams.set("origin", hostOrigin);
+  return url.toString();
+};
+
+const encodeHtmlAttribute = (value: string) =>
+  value
+    .replaceAll("&", "&amp;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;");
+
+export const buildEmbedSnippet = (url: string, { height, title }: { height: number; title: string }): string =>
+  `<iframe src="${encodeHtmlAttribute(url)}" width="100%" height="${Math.round(height)}" style="border:0;" loading="lazy" title="${encodeHtmlAttribute(title)}"></iframe>`;
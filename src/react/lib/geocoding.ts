@@ -9,11 +9,15 @@ export interface GeocodeResult {
   latitude: number;
   longitude: number;
   provider: string;
+  /** 0–1 estimate of match precision (1 = rooftop/house, lower for street or city matches). */
+  confidence: number;
 }
 
 export interface GeocodeError {
   error: string;
   providersTried: string[];
+  /** A provider errored or refused the request (e.g. rate limited), so the miss may not be real. */
+  transient?: boolean;
 }
 
 const normalizeSpace = (value: string): string => value.trim().replace(/\s+/g, " ");
@@ -123,9 +127,25 @@ const formatAddress = (components: AddressComponents): string | null => {
 type GeocoderService = {
   name: string;
   buildUrl: (query: string) => string;
-  parse: (data: unknown) => { latitude: number; longitude: number } | null;
+  parse: (data: unknown) => { latitude: number; longitude: number; confidence: number } | null;
 };
 
+// Both providers label each match with an OSM feature type; house-level hits are trustworthy,
+// anything broader (street, postcode, city) may sit in the wrong ZIP.
+const MATCH_TYPE_CONFIDENCE: Record<string, number> = {
+  house: 1,
+  building: 1,
+  house_number: 1,
+  residential: 0.9,
+  street: 0.6,
+  road: 0.6,
+  postcode: 0.4,
+};
+const DEFAULT_MATCH_CONFIDENCE = 0.3;
+
+const confidenceForMatchType = (type: unknown): number =>
+  typeof type === "string" ? MATCH_TYPE_CONFIDENCE[type.toLowerCase()] ?? DEFAULT_MATCH_CONFIDENCE : DEFAULT_MATCH_CONFIDENCE;
+
 const GEOCODER_SERVICES: GeocoderService[] = [
   {
     name: "photon.komoot.io",
@@ -142,8 +162,9 @@ const GEOCODER_SERVICES: GeocoderService[] = [
       const coordinates = Array.isArray(geometry?.coordinates) ? geometry?.coordinates : null;
       if (!coordinates || coordinates.length < 2) return null;
       const [longitude, latitude] = coordinates;
+      const properties = first.properties as Record<string, unknown> | undefined;
       if (typeof latitude === "number" && typeof longitude === "number") {
-        return { latitude, longitude };
+        return { latitude, longitude, confidence: confidenceForMatchType(properties?.type) };
       }
       return null;
     },
@@ -160,7 +181,7 @@ const GEOCODER_SERVICES: GeocoderService[] = [
       const lat = typeof first.lat === "string" ? parseFloat(first.lat) : null;
       const lon = typeof first.lon === "string" ? parseFloat(first.lon) : null;
       if (typeof lat === "number" && !Number.isNaN(lat) && typeof lon === "number" && !Number.isNaN(lon)) {
-        return { latitude: lat, longitude: lon };
+        return { latitude: lat, longitude: lon, confidence: confidenceForMatchType(first.type ?? first.addresstype) };
       }
       return null;
     },
@@ -185,6 +206,7 @@ export const geocodeAddress = async (
   }
 
   const providersTried: string[] = [];
+  let transient = false;
 
   for (const service of GEOCODER_SERVICES) {
     try {
@@ -192,6 +214,7 @@ export const geocodeAddress = async (
       providersTried.push(service.name);
       if (!response.ok) {
         console.warn(`${service.name} returned status ${response.status}`);
+        transient = true;
         continue;
       }
       const data = await response.json();
@@ -201,16 +224,19 @@ export const geocodeAddress = async (
           latitude: parsed.latitude,
           longitude: parsed.longitude,
           provider: service.name,
+          confidence: parsed.confidence,
         };
       }
     } catch (error) {
       console.warn(`${service.name} geocode failed`, error);
       providersTried.push(`${service.name} (error)`);
+      transient = true;
     }
   }
 
   return {
     error: "No coordinates found for that address.",
     providersTried,
+    transient,
   };
 };
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { DRAWN_AREA_CODE } from "./drawnArea";
+import { buildMapDataTableRows, diffAreaSelection, sortMapDataTableRows } from "./mapDataTable";
+
+const getName = (code: string) => `Area ${code}`;
+
+describe("buildMapDataTableRows", () => {
+  it("ranks values with ties, compares to the baseline and keeps selected areas without data", () => {
+    const rows = buildMapDataTableRows({
+      data: { "74101": 10, "74102": 30, "74103": 30, "74104": 5, [DRAWN_AREA_CODE]: 50 },
+      selectedCodes: ["74104", "74199", DRAWN_AREA_CODE],
+      baseline: 20,
+      getName,
+    });
+    const byCode = new Map(rows.map((row) => [row.code, row]));
+
+    expect(rows).toHaveLength(5);
+    expect(byCode.has(DRAWN_AREA_CODE)).toBe(false);
+    expect(byCode.get("74102")).toMatchObject({ rank: 1, difference: 10, selected: false });
+    expect(byCode.get("74103")?.rank).toBe(1);
+    expect(byCode.get("74101")).toMatchObject({ rank: 3, difference: -10 });
+    expect(byCode.get("74104")).toMatchObject({ rank: 4, selected: true, name: "Area 74104" });
+    expect(byCode.get("74199")).toMatchObject({ value: null, rank: null, difference: null, selected: true });
+  });
+
+  it("leaves the difference empty without a baseline", () => {
+    const [row] = buildMapDataTableRows({ data: { a: 1 }, selectedCodes: [], baseline: null, getName });
+    expect(row.difference).toBeNull();
+  });
+});
+
+describe("sortMapDataTableRows", () => {
+  const rows = buildMapDataTableRows({
+    data: { "3": 5, "1": 20, "2": 10 },
+    selectedCodes: ["4"],
+    baseline: 10,
+    getName,
+  });
+
+  it("keeps areas without data last in both directions", () => {
+    expect(sortMapDataTableRows(rows, "value", "descending").map((row) => row.code)).toEqual(["1", "2", "3", "4"]);
+    expect(sortMapDataTableRows(rows, "value", "ascending").map((row) => row.code)).toEqual(["3", "2", "1", "4"]);
+  });
+
+  it("sorts names numerically", () => {
+    expect(sortMapDataTableRows(rows, "name", "descending").map((row) => row.code)).toEqual(["4", "3", "2", "1"]);
+  });
+});
+
+describe("diffAreaSelection", () => {
+  it("reports added and removed codes", () => {
+    expect(diffAreaSelection(["a", "b"], ["b", "c", "d"])).toEqual({ added: ["c", "d"], removed: ["a"] });
+  });
+});
@@ -0,0 +1,102 @@
+import { isDrawnAreaCode } from "./drawnArea";
+
+/** One ZIP or county in the table view of the choropleth. */
+export interface MapDataTableRow {
+  code: string;
+  name: string;
+  value: number | null;
+  /** 1 is the highest value; tied values share a rank. Null without a value. */
+  rank: number | null;
+  /** Value minus the state baseline, or null when either is missing. */
+  difference: number | null;
+  selected: boolean;
+}
+
+export type MapDataTableSortKey = "name" | "value" | "difference";
+
+export type MapDataTableSortDirection = "ascending" | "descending";
+
+interface BuildMapDataTableRowsOptions {
+  data: Record<string, number> | null | undefined;
+  selectedCodes: string[];
+  baseline: number | null;
+  getName: (code: string) => string;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Rows for every area with data plus any selected area without it, so the
+ * table never hides part of the selection. The drawn area is left out; it
+ * isn't a ZIP or county a reader could look up.
+ */
+export const buildMapDataTableRows = ({
+  data,
+  selectedCodes,
+  baseline,
+  getName,
+}: BuildMapDataTableRowsOptions): MapDataTableRow[] => {
+  const selected = new Set(selectedCodes.filter((code) => !isDrawnAreaCode(code)));
+  const codes = new Set<string>(selected);
+  for (const [code, value] of Object.entries(data ?? {})) {
+    if (!isDrawnAreaCode(code) && isFiniteNumber(value)) codes.add(code);
+  }
+
+  const ranked = Array.from(codes)
+    .map((code) => [code, data?.[code]] as const)
+    .filter((pair): pair is readonly [string, number] => isFiniteNumber(pair[1]))
+    .sort((a, b) => b[1] - a[1]);
+  const ranks = new Map<string, number>();
+  ranked.forEach(([code, value], index) => {
+    const previous = index > 0 ? ranked[index - 1] : null;
+    ranks.set(code, previous && previous[1] === value ? ranks.get(previous[0])! : index + 1);
+  });
+
+  return Array.from(codes).map((code) => {
+    const value = data?.[code];
+    const hasValue = isFiniteNumber(value);
+    return {
+      code,
+      name: getName(code),
+      value: hasValue ? value : null,
+      rank: ranks.get(code) ?? null,
+      difference: hasValue && baseline !== null && Number.isFinite(baseline) ? value - baseline : null,
+      selected: selected.has(code),
+    };
+  });
+};
+
+export const sortMapDataTableRows = (
+  rows: MapDataTableRow[],
+  key: MapDataTableSortKey,
+  direction: MapDataTableSortDirection,
+): MapDataTableRow[] => {
+  const sign = direction === "ascending" ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    if (key !== "name") {
+      const left = a[key];
+      const right = b[key];
+      // Areas without data stay at the bottom whichever way the column is sorted.
+      if (left === null || right === null) {
+        if (left !== right) return left === null ? 1 : -1;
+      } else if (left !== right) {
+        return (left - right) * sign;
+      }
+    }
+    const byName = a.name.localeCompare(b.name, undefined, { numeric: true }) || a.code.localeCompare(b.code);
+    return key === "name" ? byName * sign : byName;
+  });
+};
+
+/** Codes added to and removed from a selection, in selection order. */
+export const diffAreaSelection = (
+  previous: string[],
+  next: string[],
+): { added: string[]; removed: string[] } => {
+  const before = new Set(previous);
+  const after = new Set(next);
+  return {
+    added: next.filter((code) => !before.has(code)),
+    removed: previous.filter((code) => !after.has(code)),
+  };
+};
@@ -40,6 +40,24 @@ describe("mapUrl selection persistence", () => {
     expect(state.selectedCounties).toEqual(["40037", "40039"]);
   });
 
+  it("parses tracts mode and drops malformed tract GEOIDs", () => {
+    const w: WindowLike = {
+      location: { href: "http://example.test/", search: "", hostname: "example.test" },
+      history: {
+        replaceState: vi.fn((_data, _unused, url) => {
+          setWindowUrl(url);
+        }),
+      },
+    };
+    (globalThis as any).window = w;
+
+    setWindowUrl("http://example.test/?areas=tracts&tracts=40143002501,%2074103,1400000US40109107200");
+
+    const state = getMapStateFromUrl();
+    expect(state.areasMode).toBe("tracts");
+    expect(state.selectedTracts).toEqual(["40143002501", "40109107200"]);
+  });
+
   it("parses primary + secondary stats from URL", () => {
     const w: WindowLike = {
       location: { href: "http://example.test/", search: "", hostname: "example.test" },
@@ -126,6 +144,221 @@ describe("mapUrl selection persistence", () => {
     expect(search2).not.toContain("stat2=");
   });
 
+  it("round-trips bivariate mode only alongside a secondary stat", () => {
+    const w: WindowLike = {
+      location: { href: "http://example.test/", search: "", hostname: "example.test" },
+      history: {
+        replaceState: vi.fn((_data, _unused, url) => {
+          setWindowUrl(url);
+        }),
+      },
+    };
+    (globalThis as any).window = w;
+
+    setWindowUrl("http://example.test/?stat=primary&stat2=secondary&bivar=true");
+    expect(getMapStateFromUrl().bivariate).toBe(true);
+    setWindowUrl("http://example.test/?stat=primary&bivar=true");
+    expect(getMapStateFromUrl().bivariate).toBe(false);
+
+    const write = (secondaryStatId: string | null, bivariate: boolean) =>
+      updateUrlWithMapState(
+        36.0,
+        -95.9,
+        10,
+        "primary",
+        secondaryStatId,
+        null,
+        [],
+        false,
+        false,
+        "auto",
+        [],
+        [],
+        "orgs",
+        {
+          statVizVisible: true,
+          statVizCollapsed: false,
+          demographicsVisible: true,
+          demographicsExpanded: false,
+        },
+        false,
+        true,
+        undefined,
+        [],
+        bivariate,
+      );
+
+    write("secondary", true);
+    expect((globalThis as any).window.location.search).toContain("bivar=true");
+    write(null, true);
+    expect((globalThis as any).window.location.search).not.toContain("bivar=");
+  });
+
+  it("round-trips the time slider year only alongside a primary stat", () => {
+    const w: WindowLike = {
+      location: { href: "http://example.test/", search: "", hostname: "example.test" },
+      history: {
+        replaceState: vi.fn((_data, _unused, url) => {
+          setWindowUrl(url);
+        }),
+      },
+    };
+    (globalThis as any).window = w;
+
+    setWindowUrl("http://example.test/?stat=primary&year=2018");
+    expect(getMapStateFromUrl().year).toBe("2018");
+    setWindowUrl("http://example.test/?year=2018");
+    expect(getMapStateFromUrl().year).toBeNull();
+
+    const write = (statId: string | null, year: string | null) =>
+      updateUrlWithMapState(
+        36.0,
+        -95.9,
+        10,
+        statId,
+        null,
+        null,
+        [],
+        false,
+        false,
+        "auto",
+        [],
+        [],
+        "orgs",
+        {
+          statVizVisible: true,
+          statVizCollapsed: false,
+          demographicsVisible: true,
+          demographicsExpanded: false,
+        },
+        false,
+        true,
+        undefined,
+        [],
+        false,
+        year,
+      );
+
+    write("primary", "2021");
+    expect((globalThis as any).window.location.search).toContain("year=2021");
+    write("primary", null);
+    expect((globalThis as any).window.location.search).not.toContain("year=");
+    write(null, "2021");
+    expect((globalThis as any).window.location.search).not.toContain("year=");
+  });
+
+  it("round-trips a drawn selection shape and drops malformed ones", () => {
+    const w: WindowLike = {
+      location: { href: "http://example.test/", search: "", hostname: "example.test" },
+      history: {
+        replaceState: vi.fn((_data, _unused, url) => {
+          setWindowUrl(url);
+        }),
+      },
+    };
+    (globalThis as any).window = w;
+
+    setWindowUrl("http://example.test/?shape=c:-95.99,36.15,1500");
+    expect(getMapStateFromUrl().drawnShape).toEqual({
+      type: "circle",
+      center: [-95.99, 36.15],
+      radiusMeters: 1500,
+    });
+    setWindowUrl("http://example.test/?shape=p:-95.99,36.15");
+    expect(getMapStateFromUrl().drawnShape).toBeNull();
+
+    const write = (drawnShape: Parameters<typeof updateUrlWithMapState>[20]) =>
+      updateUrlWithMapState(
+        36.0,
+        -95.9,
+        10,
+        null,
+        null,
+        null,
+        [],
+        false,
+        false,
+        "auto",
+        [],
+        [],
+        "orgs",
+        {
+          statVizVisible: true,
+          statVizCollapsed: false,
+          demographicsVisible: true,
+          demographicsExpanded: false,
+        },
+        false,
+        true,
+        undefined,
+        [],
+        false,
+        null,
+        drawnShape,
+      );
+
+    write({ type: "polygon", coordinates: [[-96, 36], [-95.9, 36], [-95.9, 36.1]] });
+    expect(getMapStateFromUrl().drawnShape).toEqual({
+      type: "polygon",
+      coordinates: [[-96, 36], [-95.9, 36], [-95.9, 36.1]],
+    });
+    write(null);
+    expect((globalThis as any).window.location.search).not.toContain("shape=");
+  });
+
+  it("round-trips the UI language and drops it for the default locale", () => {
+    const w: WindowLike = {
+      location: { href: "http://example.test/", search: "", hostname: "example.test" },
+      history: {
+        replaceState: vi.fn((_data, _unused, url) => {
+          setWindowUrl(url);
+        }),
+      },
+    };
+    (globalThis as any).window = w;
+
+    setWindowUrl("http://example.test/?lang=es-MX");
+    expect(getMapStateFromUrl().lang).toBe("es");
+    setWindowUrl("http://example.test/?lang=fr");
+    expect(getMapStateFromUrl().lang).toBeNull();
+
+    const write = (lang: Parameters<typeof updateUrlWithMapState>[21]) =>
+      updateUrlWithMapState(
+        36.0,
+        -95.9,
+        10,
+        null,
+        null,
+        null,
+        [],
+        false,
+        false,
+        "auto",
+        [],
+        [],
+        "orgs",
+        {
+          statVizVisible: true,
+          statVizCollapsed: false,
+          demographicsVisible: true,
+          demographicsExpanded: false,
+        },
+        false,
+        true,
+        undefined,
+        [],
+        false,
+        null,
+        null,
+        lang,
+      );
+
+    write("es");
+    expect((globalThis as any).window.location.search).toContain("lang=es");
+    write("en");
+    expect((globalThis as any).window.location.search).not.toContain("lang=");
+  });
+
   it("writes zips + counties to URL and removes them when empty", () => {
     const w: WindowLike = {
       location: { href: "http://example.test/", search: "", hostname: "example.test" },
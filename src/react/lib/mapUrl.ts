@@ -1,6 +1,9 @@
 // URL utilities for shareable map positions and state
-// Uses query parameters: ?lat=36.1540&lng=-95.9928&z=12&stat=uuid&stat2=uuid&category=Food&orgs=id1,id2&poi=true
+// Uses query parameters: ?lat=36.1540&lng=-95.9928&z=12&stat=uuid&stat2=uuid&bivar=true&year=2020&category=Food&orgs=id1,id2&poi=true&shape=c:-95.99,36.15,1500&lang=es
 import { getDomainDefaults } from "./domains";
+import { decodeDrawnShape, encodeDrawnShape, type DrawnShape } from "./drawnArea";
+import { normalizeTractId } from "../../lib/tractLoader";
+import { DEFAULT_LOCALE, normalizeLocale, type Locale } from "../../lib/i18n";
 
 export interface MapPosition {
   lat: number;
@@ -25,13 +28,18 @@ export interface SidebarInsightsState {
 // - "auto" = automatic switching based on zoom
 // - "zips" = manual, show ZIP boundaries
 // - "counties" = manual, show county boundaries
+// - "tracts" = manual, show census tract boundaries
 // - "none" = no boundaries
-export type AreasMode = "auto" | "zips" | "counties" | "none";
+export type AreasMode = "auto" | "zips" | "counties" | "tracts" | "none";
 
 export interface MapState {
   position: MapPosition | null;
   statId: string | null;
   secondaryStatId: string | null;
+  /** Bivariate (primary × secondary) polygon coloring */
+  bivariate: boolean;
+  /** Series date shown by the time slider (null = latest) */
+  year: string | null;
   category: string | null;
   orgIds: string[];
   startTour: boolean;
@@ -41,9 +49,14 @@ export interface MapState {
   areasMode: AreasMode;
   selectedZips: string[];
   selectedCounties: string[];
+  selectedTracts: string[];
+  /** Freehand polygon or radius selection drawn on the map */
+  drawnShape: DrawnShape | null;
   sidebarTab: "orgs" | "stats";
   sidebarCollapsed: boolean;
   sidebarInsights: SidebarInsightsState;
+  /** UI language from a shared link (null = use the visitor's own preference) */
+  lang: Locale | null;
 }
 
 function replaceCurrentUrl(url: URL): void {
@@ -117,6 +130,8 @@ export function getMapStateFromUrl(): MapState {
   const position = getMapPositionFromUrl();
   const statId = getStatIdFromUrl();
   const secondaryStatId = getSecondaryStatIdFromUrl();
+  const bivariate = getBivariateFromUrl();
+  const year = getYearFromUrl();
   const category = getCategoryFromUrl();
   const orgIds = getOrgIdsFromUrl();
   const startTour = getStartTourFromUrl();
@@ -126,13 +141,18 @@ export function getMapStateFromUrl(): MapState {
   const areasMode = getAreasModeFromUrl();
   const selectedZips = getSelectedZipsFromUrl();
   const selectedCounties = getSelectedCountiesFromUrl();
+  const selectedTracts = getSelectedTractsFromUrl();
+  const drawnShape = getDrawnShapeFromUrl();
   const sidebarTab = getSidebarTabFromUrl();
   const sidebarCollapsed = getSidebarCollapsedFromUrl();
   const sidebarInsights = getSidebarInsightsFromUrl();
+  const lang = getLangFromUrl();
   return {
     position,
     statId,
     secondaryStatId,
+    bivariate,
+    year,
     category,
     orgIds,
     startTour,
@@ -142,9 +162,12 @@ export function getMapStateFromUrl(): MapState {
     areasMode,
     selectedZips,
     selectedCounties,
+    selectedTracts,
+    drawnShape,
     sidebarTab,
     sidebarCollapsed,
     sidebarInsights,
+    lang,
   };
 }
 
@@ -203,6 +226,21 @@ export function getSecondaryStatIdFromUrl(): string | null {
   return params.get("stat2");
 }
 
+// Get bivariate mode from URL (?bivar=true); only meaningful with stat2
+export function getBivariateFromUrl(): boolean {
+  if (typeof window === "undefined") return false;
+  const params = new URLSearchParams(window.location.search);
+  return params.get("bivar") === "true" && Boolean(params.get("stat2"));
+}
+
+// Get time slider date from URL (?year=2020); only meaningful with a stat
+export function getYearFromUrl(): string | null {
+  if (typeof window === "undefined") return null;
+  const params = new URLSearchParams(window.location.search);
+  const year = params.get("year")?.trim();
+  return year && params.get("stat") ? year : null;
+}
+
 // Get category from URL
 export function getCategoryFromUrl(): string | null {
   if (typeof window === "undefined") return null;
@@ -260,7 +298,7 @@ export function getAreasModeFromUrl(): AreasMode {
   if (typeof window === "undefined") return "auto";
   const params = new URLSearchParams(window.location.search);
   const value = params.get("areas");
-  if (value === "zips" || value === "counties" || value === "none") {
+  if (value === "zips" || value === "counties" || value === "tracts" || value === "none") {
     return value;
   }
   return "auto";
@@ -290,6 +328,25 @@ export function getSelectedCountiesFromUrl(): string[] {
     .filter((id) => id.length > 0);
 }
 
+// Get selected census tracts from URL (comma-separated 11-digit GEOIDs)
+export function getSelectedTractsFromUrl(): string[] {
+  if (typeof window === "undefined") return [];
+  const params = new URLSearchParams(window.location.search);
+  const tractsParam = params.get("tracts");
+  if (!tractsParam) return [];
+  return tractsParam
+    .split(",")
+    .map((id) => normalizeTractId(id))
+    .filter((id): id is string => id !== null);
+}
+
+// Get drawn selection shape from URL (?shape=c:lng,lat,radius or ?shape=p:lng,lat;lng,lat;...)
+export function getDrawnShapeFromUrl(): DrawnShape | null {
+  if (typeof window === "undefined") return null;
+  const params = new URLSearchParams(window.location.search);
+  return decodeDrawnShape(params.get("shape"));
+}
+
 // Get sidebar tab from URL (defaults based on domain)
 export function getSidebarTabFromUrl(): "orgs" | "stats" {
   const defaultTab = getDomainDefaults().defaultSidebarTab;
@@ -308,6 +365,13 @@ export function getSidebarCollapsedFromUrl(): boolean {
   return collapsed.value ?? true;
 }
 
+// Get UI language from URL (?lang=es); unsupported values are ignored
+export function getLangFromUrl(): Locale | null {
+  if (typeof window === "undefined") return null;
+  const params = new URLSearchParams(window.location.search);
+  return normalizeLocale(params.get("lang"));
+}
+
 // Update URL with stat ID
 export function updateUrlWithStatId(statId: string | null): void {
   if (typeof window === "undefined") return;
@@ -342,6 +406,11 @@ export function updateUrlWithMapState(
   persistSidebarInsights: boolean,
   sidebarCollapsed = true,
   extremasVisible = getDomainDefaults().defaultExtremasVisible,
+  selectedTracts: string[] = [],
+  bivariate = false,
+  year: string | null = null,
+  drawnShape: DrawnShape | null = null,
+  lang: Locale = DEFAULT_LOCALE,
 ): void {
   if (typeof window === "undefined") return;
 
@@ -366,6 +435,20 @@ export function updateUrlWithMapState(
     url.searchParams.delete("stat2");
   }
 
+  // Update bivariate mode (only with a secondary stat, to keep URLs clean)
+  if (bivariate && secondaryStatId) {
+    url.searchParams.set("bivar", "true");
+  } else {
+    url.searchParams.delete("bivar");
+  }
+
+  // Update time slider date (only with a primary stat)
+  if (year && statId) {
+    url.searchParams.set("year", year);
+  } else {
+    url.searchParams.delete("year");
+  }
+
   // Update category
   if (category) {
     url.searchParams.set("category", category);
@@ -424,6 +507,20 @@ export function updateUrlWithMapState(
     url.searchParams.delete("counties");
   }
 
+  // Update selected tracts (comma-separated)
+  if (selectedTracts.length > 0) {
+    url.searchParams.set("tracts", selectedTracts.join(","));
+  } else {
+    url.searchParams.delete("tracts");
+  }
+
+  // Update drawn selection shape
+  if (drawnShape) {
+    url.searchParams.set("shape", encodeDrawnShape(drawnShape));
+  } else {
+    url.searchParams.delete("shape");
+  }
+
   const defaultSidebarTab = getDomainDefaults().defaultSidebarTab;
   // Update sidebar tab (only write if not the domain default)
   if (sidebarTab !== defaultSidebarTab) {
@@ -439,6 +536,13 @@ export function updateUrlWithMapState(
     url.searchParams.delete("sc");
   }
 
+  // Update UI language (only if not the default, so shared links stay clean)
+  if (lang !== DEFAULT_LOCALE) {
+    url.searchParams.set("lang", lang);
+  } else {
+    url.searchParams.delete("lang");
+  }
+
   // Sidebar insights sections (Demographics + StatViz)
   if (persistSidebarInsights) {
     url.searchParams.set("sv", sidebarInsights.statVizVisible ? "true" : "false");
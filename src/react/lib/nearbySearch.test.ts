@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import type { Organization } from "../../types/organization";
+import { buildSearchRadiusFeature, findOrganizationsNearby, formatDistanceMiles } from "./nearbySearch";
+
+const org = (id: string, latitude: number, longitude: number): Organization => ({
+  id,
+  name: id,
+  latitude,
+  longitude,
+  category: "food",
+});
+
+// Downtown Tulsa.
+const center = { lng: -95.99, lat: 36.154 };
+
+describe("nearbySearch", () => {
+  it("keeps orgs inside the radius, closest first", () => {
+    const results = findOrganizationsNearby(
+      [org("broken-arrow", 36.05, -95.79), org("downtown", 36.155, -95.99), org("okc", 35.47, -97.52)],
+      center,
+      15,
+    );
+
+    expect(results.map((entry) => entry.org.id)).toEqual(["downtown", "broken-arrow"]);
+    expect(results[0].miles).toBeLessThan(0.1);
+    // About 13 miles southeast.
+    expect(results[1].miles).toBeGreaterThan(12);
+    expect(results[1].miles).toBeLessThan(15);
+  });
+
+  it("formats distances and draws the radius", () => {
+    expect(formatDistanceMiles(0.04)).toBe("< 0.1 mi");
+    expect(formatDistanceMiles(2.46)).toBe("2.5 mi");
+    expect(formatDistanceMiles(12.6)).toBe("13 mi");
+
+    const ring = buildSearchRadiusFeature(center, 5).geometry.coordinates[0];
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+    // The northernmost point sits about 5 miles (0.072°) above the center.
+    expect(Math.max(...ring.map(([, lat]) => lat)) - center.lat).toBeCloseTo(0.0724, 3);
+  });
+});
@@ -0,0 +1,70 @@
+import type { Organization } from "../../types/organization";
+import { distanceMeters, drawnShapeToFeature } from "./drawnArea";
+
+/** Radius choices offered in the sidebar's "Near" selector, in miles. */
+export const NEARBY_RADIUS_OPTIONS = [1, 3, 5, 10, 25] as const;
+export const DEFAULT_NEARBY_RADIUS_MILES = 5;
+
+const METERS_PER_MILE = 1609.344;
+
+export interface NearbyCenter {
+  lng: number;
+  lat: number;
+}
+
+export interface NearbyOrganization {
+  org: Organization;
+  miles: number;
+}
+
+export const milesToMeters = (miles: number): number => miles * METERS_PER_MILE;
+
+export const distanceMiles = (center: NearbyCenter, org: Pick<Organization, "longitude" | "latitude">): number =>
+  distanceMeters([center.lng, center.lat], [org.longitude, org.latitude]) / METERS_PER_MILE;
+
+/**
+ * Orgs within `radiusMiles` of `center`, closest first. Callers pass the list
+ * they've already narrowed by category and "open at" time, so this only
+ * handles distance.
+ */
+export const findOrganizationsNearby = (
+  organizations: Organization[],
+  center: NearbyCenter,
+  radiusMiles: number,
+): NearbyOrganization[] => {
+  const results: NearbyOrganization[] = [];
+  for (const org of organizations) {
+    if (!Number.isFinite(org.longitude) || !Number.isFinite(org.latitude)) continue;
+    const miles = distanceMiles(center, org);
+    if (miles <= radiusMiles) results.push({ org, miles });
+  }
+  results.sort((a, b) => a.miles - b.miles || a.org.name.localeCompare(b.org.name));
+  return results;
+};
+
+/** "0.3 mi" under 10 miles, whole miles beyond that. */
+export const formatDistanceMiles = (miles: number): string => {
+  if (miles < 0.1) return "< 0.1 mi";
+  return miles < 10 ? `${miles.toFixed(1)} mi` : `${Math.round(miles)} mi`;
+};
+
+/** Polygon outline of the search radius for the map overlay. */
+export const buildSearchRadiusFeature = (
+  center: NearbyCenter,
+  radiusMiles: number,
+): GeoJSON.Feature<GeoJSON.Polygon> =>
+  drawnShapeToFeature({ type: "circle", center: [center.lng, center.lat], radiusMeters: milesToMeters(radiusMiles) });
+
+/** [[west, south], [east, north]] around the search radius, for fitting the camera. */
+export const getSearchRadiusBounds = (
+  center: NearbyCenter,
+  radiusMiles: number,
+): [[number, number], [number, number]] => {
+  const ring = buildSearchRadiusFeature(center, radiusMiles).geometry.coordinates[0];
+  const lngs = ring.map(([lng]) => lng);
+  const lats = ring.map(([, lat]) => lat);
+  return [
+    [Math.min(...lngs), Math.min(...lats)],
+    [Math.max(...lngs), Math.max(...lats)],
+  ];
+};
@@ -0,0 +1,147 @@
+import { id } from "@instantdb/react";
+import { db } from "../../lib/reactDb";
+import {
+  flushOutboxItems,
+  isOffline,
+  listOutbox,
+  putOutboxItem,
+  removeOutboxItem,
+  type OutboxItem,
+} from "../../lib/offlineStore";
+import { geocodeAddress, type AddressComponents } from "./geocoding";
+
+/** An "Add a location" submission saved before it could be geocoded. */
+export interface QueuedOrganization {
+  organizationId: string;
+  /** Organization attributes minus the coordinates, which are filled in on send. */
+  payload: Record<string, unknown>;
+  address: AddressComponents;
+  submitterEmail: string | null;
+  notifyModerators: boolean;
+}
+
+/** Request body for /api/report-issue. */
+export type QueuedIssueReport = Record<string, unknown>;
+
+type OutboxPayloads = {
+  organization: QueuedOrganization;
+  "issue-report": QueuedIssueReport;
+};
+
+export type OfflineOutboxItem = {
+  [K in keyof OutboxPayloads]: OutboxItem<OutboxPayloads[K]> & { kind: K };
+}[keyof OutboxPayloads];
+
+export const queueOutboxItem = <K extends keyof OutboxPayloads>(kind: K, payload: OutboxPayloads[K]) =>
+  putOutboxItem({ id: id(), kind, queuedAt: Date.now(), attempts: 0, lastError: null, payload });
+
+// Notify moderators via serverless endpoint when a pending submission arrives.
+export const notifyQueueModerators = async (payload: {
+  organizationId: string;
+  organizationName: string;
+  ownerEmail: string | null;
+  submitterEmail: string | null;
+  submittedAt: number;
+}) => {
+  try {
+    const response = await fetch("/api/queue-notify", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      const message = await response.text();
+      console.error("Queue notification failed", response.status, message);
+    }
+  } catch (error) {
+    console.error("Queue notification error", error);
+  }
+};
+
+// Visitors can't write audit rows, so the creation entry is recorded server-side.
+export const logOrganizationSubmission = async (organizationId: string) => {
+  try {
+    const auth = await db.getAuth().catch(() => null);
+    const response = await fetch("/api/org-submission-audit", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ organizationId, token: auth?.refresh_token ?? null }),
+    });
+    if (!response.ok) {
+      const message = await response.text();
+      console.error("Submission audit failed", response.status, message);
+    }
+  } catch (error) {
+    console.error("Submission audit error", error);
+  }
+};
+
+export const submitIssueReport = async (body: QueuedIssueReport): Promise<void> => {
+  const response = await fetch("/api/report-issue", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  let data: any = null;
+  try {
+    data = await response.json();
+  } catch {
+    // ignored
+  }
+
+  if (!response.ok) {
+    const message = typeof data?.error === "string" ? data.error : "Failed to submit issue report.";
+    throw new Error(message);
+  }
+};
+
+const sendQueuedOrganization = async ({
+  organizationId,
+  payload,
+  address,
+  submitterEmail,
+  notifyModerators,
+}: QueuedOrganization): Promise<void> => {
+  const geocodeResult = await geocodeAddress(address);
+  if ("error" in geocodeResult) {
+    if (isOffline()) throw new TypeError("Offline");
+    throw new Error(geocodeResult.error);
+  }
+  const record = { ...payload, latitude: geocodeResult.latitude, longitude: geocodeResult.longitude };
+  await db.transact(db.tx.organizations[organizationId].update(record));
+  void logOrganizationSubmission(organizationId);
+  if (notifyModerators) {
+    void notifyQueueModerators({
+      organizationId,
+      organizationName: String(payload.name ?? ""),
+      ownerEmail: typeof payload.ownerEmail === "string" ? payload.ownerEmail : null,
+      submitterEmail,
+      submittedAt: typeof payload.submittedAt === "number" ? payload.submittedAt : Date.now(),
+    });
+  }
+};
+
+const sendOutboxItem = (item: OfflineOutboxItem): Promise<void> =>
+  item.kind === "organization" ? sendQueuedOrganization(item.payload) : submitIssueReport(item.payload);
+
+let inflightFlush: Promise<number> | null = null;
+
+/** Sends everything queued while offline; returns how many items went out. */
+export const flushOfflineOutbox = (): Promise<number> => {
+  if (isOffline()) return Promise.resolve(0);
+  if (inflightFlush) return inflightFlush;
+  inflightFlush = (async () => {
+    const items = (await listOutbox()) as OfflineOutboxItem[];
+    return flushOutboxItems(items, sendOutboxItem, {
+      onSent: (item) => removeOutboxItem(item.id),
+      onFailed: (item, message) =>
+        putOutboxItem({ ...item, attempts: item.attempts + 1, lastError: message }),
+    });
+  })().finally(() => {
+    inflightFlush = null;
+  });
+  return inflightFlush;
+};
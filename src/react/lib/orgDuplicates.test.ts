@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import type { Organization } from "../../types/organization";
+import {
+  buildMergeUpdate,
+  chooseSurvivor,
+  findDuplicateCandidates,
+  getDefaultMergeChoices,
+  pairKey,
+} from "./orgDuplicates";
+
+const base = { category: "food" as const, latitude: 36.154, longitude: -95.99 };
+
+const google: Organization = {
+  ...base,
+  id: "org-b",
+  name: "Community Food Bank of Eastern Oklahoma",
+  placeId: "place-1",
+  phone: "(918) 555-0100",
+  website: "http://foodbank.example",
+  hours: { periods: [{ day: 1, openTime: "09:00", closeTime: "17:00" }], isUnverified: true },
+  createdAt: 2,
+};
+
+const propublica: Organization = {
+  ...base,
+  id: "org-a",
+  name: "Community Food Bank of Eastern OK",
+  latitude: 36.1545,
+  phone: "+1 918-555-0100",
+  website: "https://foodbank.example",
+  ein: "73-1234567",
+  hours: {
+    periods: [
+      { day: 1, openTime: "09:00", closeTime: "17:00" },
+      { day: 3, openTime: "09:00", closeTime: "17:00" },
+    ],
+  },
+  issueCount: 2,
+  createdAt: 1,
+};
+
+describe("orgDuplicates", () => {
+  it("pairs similar names nearby and skips distinct or dismissed ones", () => {
+    const farAway: Organization = { ...base, id: "org-c", name: "Community Food Bank of Eastern OK", latitude: 35.47, longitude: -97.52 };
+    const neighbour: Organization = { ...base, id: "org-d", name: "Tulsa Dental Clinic", longitude: -95.9901 };
+
+    const candidates = findDuplicateCandidates([google, propublica, farAway, neighbour]);
+    expect(candidates.map((candidate) => candidate.key)).toEqual([pairKey("org-a", "org-b")]);
+    expect(candidates[0]).toMatchObject({ a: propublica, b: google, samePhone: true, placeIdMatch: null });
+    expect(candidates[0].score).toBeGreaterThan(0.9);
+
+    expect(findDuplicateCandidates([google, propublica], { dismissedKeys: new Set([pairKey("org-b", "org-a")]) })).toEqual([]);
+  });
+
+  it("keeps the Google record and pulls in the better hours, website and EIN", () => {
+    const [survivor, duplicate] = chooseSurvivor(propublica, google);
+    expect(survivor.id).toBe("org-b");
+
+    const choices = getDefaultMergeChoices(survivor, duplicate);
+    expect(choices).toMatchObject({ name: "survivor", hours: "duplicate", website: "duplicate", ein: "duplicate", phone: "survivor" });
+    expect(buildMergeUpdate(survivor, duplicate, choices)).toEqual({
+      hours: propublica.hours,
+      website: "https://foodbank.example",
+      ein: "73-1234567",
+      issueCount: 2,
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import type { Organization, OrganizationHours } from "../../types/organization";
+import { distanceMeters } from "./drawnArea";
+import { computeSimilarityFromNormalized, normalizeForSearch } from "./fuzzyMatch";
+
+/**
+ * Candidate pairs for the admin duplicate review queue, scored from name
+ * similarity, distance, phone and Google placeId.
+ */
+export interface DuplicateCandidate {
+  key: string;
+  a: Organization;
+  b: Organization;
+  score: number;
+  nameSimilarity: number;
+  meters: number;
+  samePhone: boolean;
+  /** "same" | "different" when both orgs have a placeId, otherwise null. */
+  placeIdMatch: "same" | "different" | null;
+}
+
+export interface DuplicateSearchOptions {
+  /** Distance stops counting toward the score past this; farther pairs need a phone match. */
+  maxMeters?: number;
+  minScore?: number;
+}
+
+export const DEFAULT_DUPLICATE_MAX_METERS = 500;
+export const DEFAULT_DUPLICATE_MIN_SCORE = 0.65;
+const MIN_NAME_SIMILARITY = 0.5;
+// Grid cell size in degrees (~1.1 km north-south) for bucketing nearby orgs.
+const GRID_DEGREES = 0.01;
+
+/** Field groups an admin picks between when merging a pair. */
+export type MergeField = "name" | "location" | "phone" | "website" | "hours" | "ein" | "placeId" | "category";
+export type MergeSide = "survivor" | "duplicate";
+export type MergeChoices = Record<MergeField, MergeSide>;
+
+export const MERGE_FIELDS: Array<{ field: MergeField; label: string }> = [
+  { field: "name", label: "Name" },
+  { field: "location", label: "Address & pin" },
+  { field: "phone", label: "Phone" },
+  { field: "website", label: "Website" },
+  { field: "hours", label: "Hours" },
+  { field: "ein", label: "EIN" },
+  { field: "placeId", label: "Google place" },
+  { field: "category", label: "Category" },
+];
+
+export const pairKey = (leftId: string, rightId: string): string =>
+  leftId < rightId ? `${leftId}::${rightId}` : `${rightId}::${leftId}`;
+
+const phoneDigits = (phone: string | null | undefined): string | null => {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  // Compare the last 10 digits so "+1 (918) 555-0100" matches "918-555-0100".
+  return digits.length >= 7 ? digits.slice(-10) : null;
+};
+
+const hasCoordinates = (org: Organization): boolean =>
+  Number.isFinite(org.latitude) && Number.isFinite(org.longitude) && !(org.latitude === 0 && org.longitude === 0);
+
+const scorePair = (
+  a: Organization,
+  b: Organization,
+  normalizedNames: Map<string, string>,
+  maxMeters: number,
+): Omit<DuplicateCandidate, "key" | "a" | "b"> => {
+  const nameSimilarity = computeSimilarityFromNormalized(
+    normalizedNames.get(a.id) ?? "",
+    normalizedNames.get(b.id) ?? "",
+  );
+  const meters =
+    hasCoordinates(a) && hasCoordinates(b)
+      ? distanceMeters([a.longitude, a.latitude], [b.longitude, b.latitude])
+      : Number.POSITIVE_INFINITY;
+  const phoneA = phoneDigits(a.phone);
+  const phoneB = phoneDigits(b.phone);
+  const samePhone = Boolean(phoneA && phoneA === phoneB);
+  const placeIdMatch = a.placeId && b.placeId ? (a.placeId === b.placeId ? "same" : "different") : null;
+
+  const distanceScore = Number.isFinite(meters) ? Math.max(0, 1 - meters / maxMeters) : 0;
+  // Missing phones neither help nor hurt; two different numbers count against.
+  const phoneScore = samePhone ? 1 : phoneA && phoneB ? 0 : 0.5;
+  let score = 0.5 * nameSimilarity + 0.3 * distanceScore + 0.2 * phoneScore;
+  if (placeIdMatch === "same") score = Math.max(score, 0.95);
+  // Google already treats them as two places.
+  if (placeIdMatch === "different") score *= 0.8;
+
+  return { score: Math.round(score * 100) / 100, nameSimilarity, meters, samePhone, placeIdMatch };
+};
+
+/**
+ * Finds likely duplicate pairs, best first. Orgs are only compared with
+ * neighbours in nearby grid cells or ones sharing a phone number, so this
+ * stays fast on the full org table. `dismissedKeys` holds `pairKey`s an admin
+ * already marked as distinct.
+ */
+export const findDuplicateCandidates = (
+  organizations: Organization[],
+  {
+    maxMeters = DEFAULT_DUPLICATE_MAX_METERS,
+    minScore = DEFAULT_DUPLICATE_MIN_SCORE,
+    dismissedKeys,
+  }: DuplicateSearchOptions & { dismissedKeys?: Set<string> } = {},
+): DuplicateCandidate[] => {
+  const normalizedNames = new Map(organizations.map((org) => [org.id, normalizeForSearch(org.name)]));
+  const byCell = new Map<string, Organization[]>();
+  const byPhone = new Map<string, Organization[]>();
+  const cellOf = (org: Organization): [number, number] => [
+    Math.floor(org.longitude / GRID_DEGREES),
+    Math.floor(org.latitude / GRID_DEGREES),
+  ];
+  for (const org of organizations) {
+    if (hasCoordinates(org)) {
+      const [x, y] = cellOf(org);
+      const key = `${x}:${y}`;
+      const bucket = byCell.get(key) ?? [];
+      bucket.push(org);
+      byCell.set(key, bucket);
+    }
+    const phone = phoneDigits(org.phone);
+    if (phone) {
+      const bucket = byPhone.get(phone) ?? [];
+      bucket.push(org);
+      byPhone.set(phone, bucket);
+    }
+  }
+
+  // A cell is ~900 m wide at Oklahoma's latitude.
+  const reach = Math.max(1, Math.ceil(maxMeters / 900));
+  const candidates = new Map<string, DuplicateCandidate>();
+  const consider = (a: Organization, b: Organization) => {
+    if (a.id === b.id) return;
+    const key = pairKey(a.id, b.id);
+    if (candidates.has(key) || dismissedKeys?.has(key)) return;
+    const scored = scorePair(a, b, normalizedNames, maxMeters);
+    if (scored.nameSimilarity < MIN_NAME_SIMILARITY && !scored.samePhone && scored.placeIdMatch !== "same") return;
+    if (scored.score < minScore) return;
+    const [first, second] = a.id < b.id ? [a, b] : [b, a];
+    candidates.set(key, { key, a: first, b: second, ...scored });
+  };
+
+  for (const org of organizations) {
+    if (hasCoordinates(org)) {
+      const [x, y] = cellOf(org);
+      for (let dx = -reach; dx <= reach; dx += 1) {
+        for (let dy = -reach; dy <= reach; dy += 1) {
+          for (const other of byCell.get(`${x + dx}:${y + dy}`) ?? []) consider(org, other);
+        }
+      }
+    }
+    const phone = phoneDigits(org.phone);
+    if (phone) {
+      for (const other of byPhone.get(phone) ?? []) consider(org, other);
+    }
+  }
+
+  return Array.from(candidates.values()).sort((left, right) => right.score - left.score || left.meters - right.meters);
+};
+
+const hoursScore = (hours: OrganizationHours | null | undefined): number => {
+  if (!hours) return 0;
+  const entries = (hours.periods?.length ?? 0) + (hours.recurrences?.length ?? 0) + (hours.weekdayText?.length ? 1 : 0);
+  return entries === 0 ? 0 : entries + (hours.isUnverified ? 0 : 0.5);
+};
+
+const isUsable = (value: string | null | undefined): boolean => typeof value === "string" && value.trim().length > 0;
+
+/**
+ * The org to keep: the one that came from Google (placeId), then the one with
+ * more filled-in details, then the older record.
+ */
+export const chooseSurvivor = (a: Organization, b: Organization): [Organization, Organization] => {
+  const filled = (org: Organization) =>
+    [org.address, org.phone, org.website, org.ein, org.placeId].filter(isUsable).length + (org.hours ? 1 : 0);
+  const rank = (org: Organization) => (isUsable(org.placeId) ? 100 : 0) + filled(org);
+  const diff = rank(a) - rank(b);
+  if (diff !== 0) return diff > 0 ? [a, b] : [b, a];
+  return (a.createdAt ?? Number.MAX_SAFE_INTEGER) <= (b.createdAt ?? Number.MAX_SAFE_INTEGER) ? [a, b] : [b, a];
+};
+
+/**
+ * Starting choices for the merge form: the survivor's values, except the
+ * richer hours, an https website and a well-formed EIN win, and empty fields
+ * fall back to the duplicate's.
+ */
+export const getDefaultMergeChoices = (survivor: Organization, duplicate: Organization): MergeChoices => {
+  const fallback = (left: string | null | undefined, right: string | null | undefined): MergeSide =>
+    !isUsable(left) && isUsable(right) ? "duplicate" : "survivor";
+  const websiteScore = (url: string | null | undefined) =>
+    !isUsable(url) ? 0 : url!.trim().toLowerCase().startsWith("https://") ? 2 : 1;
+  const einScore = (ein: string | null | undefined) =>
+    !isUsable(ein) ? 0 : ein!.replace(/\D/g, "").length === 9 ? 2 : 1;
+
+  return {
+    name: "survivor",
+    location: hasCoordinates(survivor) || !hasCoordinates(duplicate) ? fallback(survivor.address, duplicate.address) : "duplicate",
+    phone: fallback(survivor.phone, duplicate.phone),
+    website: websiteScore(duplicate.website) > websiteScore(survivor.website) ? "duplicate" : "survivor",
+    hours: hoursScore(duplicate.hours) > hoursScore(survivor.hours) ? "duplicate" : "survivor",
+    ein: einScore(duplicate.ein) > einScore(survivor.ein) ? "duplicate" : "survivor",
+    placeId: fallback(survivor.placeId, duplicate.placeId),
+    category: "survivor",
+  };
+};
+
+const FIELD_KEYS: Record<MergeField, Array<keyof Organization>> = {
+  name: ["name"],
+  location: ["address", "city", "state", "postalCode", "latitude", "longitude"],
+  phone: ["phone"],
+  website: ["website"],
+  hours: ["hours"],
+  ein: ["ein", "annualRevenue", "annualRevenueTaxPeriod"],
+  placeId: ["placeId"],
+  category: ["category"],
+};
+
+/** Survivor attributes that change when the duplicate's side is picked. */
+export const buildMergeUpdate = (
+  survivor: Organization,
+  duplicate: Organization,
+  choices: MergeChoices,
+): Partial<Organization> => {
+  const update: Record<string, unknown> = {};
+  for (const { field } of MERGE_FIELDS) {
+    if (choices[field] !== "duplicate") continue;
+    for (const key of FIELD_KEYS[field]) {
+      const value = duplicate[key] ?? null;
+      if (value !== (survivor[key] ?? null)) update[key] = value;
+    }
+  }
+  const issueCount = (survivor.issueCount ?? 0) + (duplicate.issueCount ?? 0);
+  if (issueCount > 0) update.issueCount = issueCount;
+  return update as Partial<Organization>;
+};
+
+/** Text shown for one side of a field in the merge form. */
+export const describeMergeField = (org: Organization, field: MergeField): string => {
+  switch (field) {
+    case "location":
+      return [org.address, org.city, org.postalCode].filter(isUsable).join(", ") || "—";
+    case "hours": {
+      const score = hoursScore(org.hours);
+      if (score === 0) return "—";
+      const entries = (org.hours?.periods?.length ?? 0) + (org.hours?.recurrences?.length ?? 0);
+      const summary = entries === 0 ? "Text only" : `${entries} ${entries === 1 ? "period" : "periods"}`;
+      return org.hours?.isUnverified ? `${summary} (unverified)` : summary;
+    }
+    default: {
+      const value = org[FIELD_KEYS[field][0]];
+      return typeof value === "string" && value.trim() ? value : "—";
+    }
+  }
+};
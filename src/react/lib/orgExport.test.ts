@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { Organization } from "../../types/organization";
+import {
+  filterOrganizationsForExport,
+  formatOrganizationHours,
+  organizationsToCsv,
+  organizationsToGeoJson,
+  organizationsToKml,
+} from "./orgExport";
+
+const pantry: Organization = {
+  id: "org-1",
+  name: 'Pantry "North", Inc.',
+  latitude: 36.15,
+  longitude: -95.99,
+  category: "food",
+  address: "1 Main St",
+  status: "active",
+  ein: "12-3456789",
+  source: "propublica",
+  hours: {
+    periods: [
+      { day: 1, openTime: "09:00", closeTime: "17:00" },
+      { day: 3, openTime: "13:30", closeTime: "18:00" },
+    ],
+  },
+};
+
+const clinic: Organization = {
+  id: "org-2",
+  name: "Clinic",
+  latitude: 0,
+  longitude: 0,
+  category: "health",
+  moderationStatus: "pending",
+};
+
+describe("orgExport", () => {
+  it("flattens hours periods to readable text", () => {
+    expect(formatOrganizationHours(pantry.hours)).toBe("Mon 9:00 AM-5:00 PM; Wed 1:30 PM-6:00 PM");
+    expect(formatOrganizationHours({ weekdayText: ["Monday: Closed"] })).toBe("Monday: Closed");
+    expect(formatOrganizationHours(null)).toBe("");
+  });
+
+  it("adds monthly rules, the holiday flag and upcoming exceptions to the hours", () => {
+    const hours = {
+      periods: [{ day: 2, openTime: "09:00", closeTime: "12:00" }],
+      recurrences: [{ day: 6, weeks: [1, 3], openTime: "10:00", closeTime: "14:00" }],
+      exceptions: [
+        { startDate: "2025-01-01", closed: true, label: "New Year" },
+        { startDate: "2025-11-27", closed: true, label: "Thanksgiving" },
+      ],
+      closedOnHolidays: true,
+    };
+    expect(formatOrganizationHours(hours, new Date(2025, 5, 1))).toBe(
+      "Tue 9:00 AM-12:00 PM; 1st & 3rd Saturday: 10:00 AM – 2:00 PM; Closed on federal holidays; " +
+        "Thu, Nov 27: Closed (Thanksgiving)",
+    );
+    const [, row] = organizationsToCsv([{ ...pantry, hours }]).split("\r\n");
+    expect(row).toContain("Tue 9:00 AM-12:00 PM; 1st & 3rd Saturday: 10:00 AM – 2:00 PM; Closed on federal holidays");
+  });
+
+  it("filters by category, time, areas and moderation", () => {
+    const orgs = [pantry, clinic];
+    expect(filterOrganizationsForExport(orgs, { category: "food" })).toEqual([pantry]);
+    expect(filterOrganizationsForExport(orgs, { timeSelection: { day: 1, hour: 10, minute: 0 } })).toEqual([pantry]);
+    expect(filterOrganizationsForExport(orgs, { moderationStatuses: ["approved"] })).toEqual([pantry]);
+    expect(
+      filterOrganizationsForExport(orgs, {
+        selectedZips: ["74103"],
+        orgZipById: new Map([["org-1", "74103"], ["org-2", "74104"]]),
+      }),
+    ).toEqual([pantry]);
+  });
+
+  it("writes escaped CSV with hours, status, ein and source", () => {
+    const [header, row] = organizationsToCsv([pantry]).split("\r\n");
+    expect(header).toContain("hours,ein,source");
+    expect(row).toContain('"Pantry ""North"", Inc."');
+    expect(row).toContain("Mon 9:00 AM-5:00 PM; Wed 1:30 PM-6:00 PM,12-3456789,propublica");
+  });
+
+  it("writes GeoJSON and KML points, skipping orgs without a location", () => {
+    const geojson = JSON.parse(organizationsToGeoJson([pantry, clinic]));
+    expect(geojson.features).toHaveLength(1);
+    expect(geojson.features[0].geometry.coordinates).toEqual([-95.99, 36.15]);
+    expect(geojson.features[0].properties.status).toBe("active");
+
+    const kml = organizationsToKml([pantry, clinic]);
+    expect(kml.match(/<Placemark>/g)).toHaveLength(1);
+    expect(kml).toContain("<name>Pantry &quot;North&quot;, Inc.</name>");
+    expect(kml).toContain("<coordinates>-95.99,36.15,0</coordinates>");
+  });
+});
@@ -0,0 +1,222 @@
+import type {
+  Organization,
+  OrganizationHours,
+  OrganizationModerationStatus,
+} from "../../types/organization";
+import { formatHoursRuleLines } from "./organizationHours";
+import { DAY_LABELS, isOrganizationOpenAtTime, type TimeSelection } from "./timeFilters";
+
+export type OrgExportFormat = "csv" | "geojson" | "kml";
+
+export const ORG_EXPORT_FORMATS: Array<{ value: OrgExportFormat; label: string }> = [
+  { value: "csv", label: "CSV" },
+  { value: "geojson", label: "GeoJSON" },
+  { value: "kml", label: "KML (Google My Maps)" },
+];
+
+export interface OrgExportFilter {
+  category?: string | null;
+  timeSelection?: TimeSelection | null;
+  /** When any ZIPs or counties are given, only orgs inside one of them are kept. */
+  selectedZips?: string[];
+  selectedCounties?: string[];
+  orgZipById?: Map<string, string | null>;
+  orgCountyById?: Map<string, string | null>;
+  /** Allowed moderation states; orgs without one count as approved. */
+  moderationStatuses?: OrganizationModerationStatus[] | null;
+}
+
+export const filterOrganizationsForExport = (
+  organizations: Organization[],
+  filter: OrgExportFilter,
+): Organization[] => {
+  const zips = new Set(filter.selectedZips ?? []);
+  const counties = new Set(filter.selectedCounties ?? []);
+  const hasAreaFilter = zips.size > 0 || counties.size > 0;
+  const moderation = filter.moderationStatuses ? new Set(filter.moderationStatuses) : null;
+  return organizations.filter((org) => {
+    if (filter.category && org.category !== filter.category) return false;
+    if (filter.timeSelection && !isOrganizationOpenAtTime(org, filter.timeSelection)) return false;
+    if (moderation && !moderation.has(org.moderationStatus ?? "approved")) return false;
+    if (hasAreaFilter) {
+      const zip = filter.orgZipById?.get(org.id);
+      const county = filter.orgCountyById?.get(org.id);
+      const inZip = !!zip && zips.has(zip);
+      const inCounty = !!county && counties.has(county);
+      if (!inZip && !inCounty) return false;
+    }
+    return true;
+  });
+};
+
+const formatClockTime = (time: string | null | undefined): string | null => {
+  if (!time) return null;
+  const [hoursPart, minutesPart = "00"] = time.split(":");
+  const hours = Number(hoursPart);
+  if (!Number.isFinite(hours)) return null;
+  const suffix = hours < 12 ? "AM" : "PM";
+  return `${hours % 12 || 12}:${minutesPart.padStart(2, "0").slice(0, 2)} ${suffix}`;
+};
+
+const formatWeeklyHours = (hours: OrganizationHours | null | undefined): string[] => {
+  const periods = hours?.periods ?? [];
+  if (periods.length > 0) {
+    const byDay = new Map<number, string[]>();
+    for (const period of periods) {
+      const open = formatClockTime(period.openTime);
+      if (!open) continue;
+      const close = formatClockTime(period.closeTime);
+      const range = close ? `${open}-${close}` : period.openTime === "00:00" ? "Open 24 hours" : open;
+      byDay.set(period.day, [...(byDay.get(period.day) ?? []), range]);
+    }
+    const parts = Array.from(byDay.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([day, ranges]) => `${(DAY_LABELS[day] ?? `Day ${day}`).slice(0, 3)} ${ranges.join(", ")}`);
+    if (parts.length > 0) return parts;
+  }
+  return hours?.weekdayText ?? [];
+};
+
+/**
+ * Hours as "Mon 9:00 AM-5:00 PM; Tue ...", falling back to Google's weekday
+ * text, followed by the monthly rules, the holiday flag and every exception
+ * that hasn't ended by `today`.
+ */
+export const formatOrganizationHours = (
+  hours: OrganizationHours | null | undefined,
+  today: Date = new Date(),
+): string => [...formatWeeklyHours(hours), ...formatHoursRuleLines(hours, today, Infinity)].join("; ");
+
+const EXPORT_COLUMNS: Array<{ header: string; value: (org: Organization) => string | number | null | undefined }> = [
+  { header: "id", value: (org) => org.id },
+  { header: "name", value: (org) => org.name },
+  { header: "category", value: (org) => org.category },
+  { header: "status", value: (org) => org.status ?? "active" },
+  { header: "moderation_status", value: (org) => org.moderationStatus },
+  { header: "address", value: (org) => org.address },
+  { header: "city", value: (org) => org.city },
+  { header: "state", value: (org) => org.state },
+  { header: "postal_code", value: (org) => org.postalCode },
+  { header: "latitude", value: (org) => org.latitude },
+  { header: "longitude", value: (org) => org.longitude },
+  { header: "phone", value: (org) => org.phone },
+  { header: "website", value: (org) => org.website },
+  { header: "hours", value: (org) => formatOrganizationHours(org.hours) },
+  { header: "ein", value: (org) => org.ein },
+  { header: "source", value: (org) => org.source },
+];
+
+const exportRecord = (org: Organization): Record<string, string | number | null> => {
+  const record: Record<string, string | number | null> = {};
+  for (const column of EXPORT_COLUMNS) {
+    const value = column.value(org);
+    record[column.header] = value === undefined || value === "" ? null : value;
+  }
+  return record;
+};
+
+const hasLocation = (org: Organization): boolean =>
+  Number.isFinite(org.latitude) &&
+  Number.isFinite(org.longitude) &&
+  !(org.latitude === 0 && org.longitude === 0);
+
+const escapeCsvCell = (value: string | number | null): string => {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const organizationsToCsv = (organizations: Organization[]): string => {
+  const lines = [EXPORT_COLUMNS.map((column) => column.header).join(",")];
+  for (const org of organizations) {
+    const record = exportRecord(org);
+    lines.push(EXPORT_COLUMNS.map((column) => escapeCsvCell(record[column.header])).join(","));
+  }
+  return lines.join("\r\n");
+};
+
+export const organizationsToGeoJson = (organizations: Organization[]): string => {
+  const features = organizations.filter(hasLocation).map((org) => {
+    const { latitude: _lat, longitude: _lng, ...properties } = exportRecord(org);
+    return {
+      type: "Feature" as const,
+      id: org.id,
+      geometry: { type: "Point" as const, coordinates: [org.longitude, org.latitude] },
+      properties,
+    };
+  });
+  return JSON.stringify({ type: "FeatureCollection", features }, null, 2);
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+
+export const organizationsToKml = (organizations: Organization[], documentName = "Organizations"): string => {
+  const placemarks = organizations.filter(hasLocation).map((org) => {
+    const record = exportRecord(org);
+    const description = [org.address, formatOrganizationHours(org.hours), org.phone, org.website]
+      .filter((part): part is string => Boolean(part))
+      .join("\n");
+    const data = Object.entries(record)
+      .filter(([key, value]) => value !== null && key !== "name" && key !== "latitude" && key !== "longitude")
+      .map(([key, value]) => `        <Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`)
+      .join("\n");
+    return [
+      "    <Placemark>",
+      `      <name>${escapeXml(org.name)}</name>`,
+      description ? `      <description>${escapeXml(description)}</description>` : null,
+      "      <ExtendedData>",
+      data,
+      "      </ExtendedData>",
+      `      <Point><coordinates>${org.longitude},${org.latitude},0</coordinates></Point>`,
+      "    </Placemark>",
+    ]
+      .filter((line): line is string => line !== null && line !== "")
+      .join("\n");
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${escapeXml(documentName)}</name>`,
+    ...placemarks,
+    "  </Document>",
+    "</kml>",
+  ].join("\n");
+};
+
+const FORMAT_FILE_TYPES: Record<OrgExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: "csv", mimeType: "text/csv;charset=utf-8" },
+  geojson: { extension: "geojson", mimeType: "application/geo+json" },
+  kml: { extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+};
+
+/** Builds the export in `format` and triggers a browser download. */
+export const downloadOrganizationsExport = (
+  organizations: Organization[],
+  format: OrgExportFormat,
+  baseName = "organizations",
+): void => {
+  const content =
+    format === "csv"
+      ? organizationsToCsv(organizations)
+      : format === "geojson"
+      ? organizationsToGeoJson(organizations)
+      : organizationsToKml(organizations);
+  const { extension, mimeType } = FORMAT_FILE_TYPES[format];
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  const timestamp = new Date().toISOString().replace(/[:T]/g, "-").slice(0, 19);
+  link.download = `${baseName}_${timestamp}.${extension}`;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { createEmptyHoursDraft, draftToHours, formatHoursRuleLines, hoursToDraft } from "./organizationHours";
+
+describe("organizationHours", () => {
+  it("round-trips weekly periods, split hours and rules", () => {
+    const hours = {
+      periods: [
+        { day: 1, openTime: "09:00", closeTime: "12:00" },
+        { day: 1, openTime: "13:00", closeTime: "17:00" },
+      ],
+      weekdayText: ["Monday: 9:00 AM – 12:00 PM, 1:00 PM – 5:00 PM"],
+      recurrences: [{ day: 2, weeks: [2, 4], openTime: "17:00", closeTime: "19:00" }],
+      exceptions: [
+        {
+          startDate: "2025-11-28",
+          endDate: null,
+          days: null,
+          closed: true,
+          openTime: null,
+          closeTime: null,
+          label: "Day after Thanksgiving",
+        },
+      ],
+      closedOnHolidays: true,
+    };
+    expect(draftToHours(hoursToDraft(hours))).toEqual(hours);
+  });
+
+  it("drops incomplete rules and returns null for an empty draft", () => {
+    const draft = createEmptyHoursDraft();
+    draft.recurrences.push({ day: 6, weeks: [], closed: true });
+    draft.exceptions.push({ startDate: "", closed: true });
+    expect(draftToHours(draft)).toBeNull();
+  });
+
+  it("keeps imported weekday text when no weekly periods are edited", () => {
+    const draft = createEmptyHoursDraft();
+    draft.closedOnHolidays = true;
+    expect(draftToHours(draft, { weekdayText: ["Monday: 9-5"], status: "OPERATIONAL" }, { isUnverified: false })).toEqual({
+      periods: [],
+      weekdayText: ["Monday: 9-5"],
+      closedOnHolidays: true,
+      status: "OPERATIONAL",
+      isUnverified: false,
+    });
+  });
+
+  it("formats rules and only upcoming exceptions", () => {
+    expect(
+      formatHoursRuleLines(
+        {
+          recurrences: [
+            { day: 2, weeks: [4, 2], openTime: "17:00", closeTime: "19:00" },
+            { day: 6, weeks: [3], closed: true },
+          ],
+          exceptions: [
+            { startDate: "2025-01-01", closed: true, label: "Past" },
+            { startDate: "2025-11-27", closed: true, label: "Thanksgiving" },
+          ],
+        },
+        new Date(2025, 10, 1),
+      ),
+    ).toEqual([
+      "2nd & 4th Tuesday: 5:00 PM – 7:00 PM",
+      "Closed 3rd Saturday",
+      "Thu, Nov 27: Closed (Thanksgiving)",
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+import type {
+  OrganizationHours,
+  OrganizationHoursException,
+  OrganizationHoursPeriod,
+  OrganizationHoursRecurrence,
+} from "../../types/organization";
+import { DAY_LABELS, formatCalendarDate, parseCalendarDate, toCalendarDateString } from "./timeFilters";
+
+export type HoursRangeDraft = { openTime: string; closeTime: string };
+
+export type DayHoursDraft = { enabled: boolean; ranges: HoursRangeDraft[] };
+
+/** Editable form of `OrganizationHours`; weekly days are keyed Sunday=0 … Saturday=6. */
+export type HoursDraft = {
+  weekly: Record<number, DayHoursDraft>;
+  recurrences: OrganizationHoursRecurrence[];
+  exceptions: OrganizationHoursException[];
+  closedOnHolidays: boolean;
+};
+
+export const DEFAULT_HOURS_RANGE: HoursRangeDraft = { openTime: "09:00", closeTime: "17:00" };
+
+export const WEEK_OF_MONTH_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 1, label: "1st" },
+  { value: 2, label: "2nd" },
+  { value: 3, label: "3rd" },
+  { value: 4, label: "4th" },
+  { value: 5, label: "5th" },
+  { value: -1, label: "Last" },
+];
+
+export const createEmptyHoursDraft = (): HoursDraft => ({
+  weekly: Object.fromEntries(
+    DAY_LABELS.map((_, day) => [day, { enabled: false, ranges: [{ ...DEFAULT_HOURS_RANGE }] }]),
+  ) as Record<number, DayHoursDraft>,
+  recurrences: [],
+  exceptions: [],
+  closedOnHolidays: false,
+});
+
+export const hoursToDraft = (hours: OrganizationHours | null | undefined): HoursDraft => {
+  const draft = createEmptyHoursDraft();
+  for (const period of hours?.periods ?? []) {
+    if (typeof period?.day !== "number" || !draft.weekly[period.day]) continue;
+    if (!period.openTime || !period.closeTime) continue;
+    const day = draft.weekly[period.day];
+    const range = { openTime: period.openTime, closeTime: period.closeTime };
+    draft.weekly[period.day] = day.enabled ? { enabled: true, ranges: [...day.ranges, range] } : { enabled: true, ranges: [range] };
+  }
+  draft.recurrences = (hours?.recurrences ?? []).map((recurrence) => ({ ...recurrence, weeks: [...recurrence.weeks] }));
+  draft.exceptions = (hours?.exceptions ?? []).map((exception) => ({ ...exception }));
+  draft.closedOnHolidays = Boolean(hours?.closedOnHolidays);
+  return draft;
+};
+
+// Convert 24-hour time (HH:MM) to 12-hour format (H:MM AM/PM)
+export const formatTime12Hour = (time24: string): string => {
+  const [hoursStr, minutesStr = "00"] = time24.split(":");
+  const hours = parseInt(hoursStr, 10);
+  if (!Number.isFinite(hours)) return time24;
+  const suffix = hours < 12 ? "AM" : "PM";
+  return `${hours % 12 || 12}:${minutesStr} ${suffix}`;
+};
+
+const formatRange = (openTime: string | null | undefined, closeTime: string | null | undefined): string | null =>
+  openTime && closeTime ? `${formatTime12Hour(openTime)} – ${formatTime12Hour(closeTime)}` : null;
+
+const isCompleteException = (exception: OrganizationHoursException): boolean =>
+  Boolean(parseCalendarDate(exception.startDate)) && (exception.closed || Boolean(exception.openTime && exception.closeTime));
+
+const isCompleteRecurrence = (recurrence: OrganizationHoursRecurrence): boolean =>
+  recurrence.weeks.length > 0 && (recurrence.closed || Boolean(recurrence.openTime && recurrence.closeTime));
+
+/**
+ * Builds the stored hours payload. Incomplete rules are dropped; `weekdayText`
+ * is regenerated from the weekly schedule (or kept from `base` when there is none).
+ * Returns null when nothing was entered.
+ */
+export const draftToHours = (
+  draft: HoursDraft,
+  base?: OrganizationHours | null,
+  options: { isUnverified?: boolean } = {},
+): OrganizationHours | null => {
+  const periods: OrganizationHoursPeriod[] = [];
+  const weekdayText: string[] = [];
+  DAY_LABELS.forEach((label, day) => {
+    const entry = draft.weekly[day];
+    if (!entry?.enabled) return;
+    const ranges = entry.ranges.filter((range) => range.openTime && range.closeTime);
+    if (ranges.length === 0) return;
+    for (const range of ranges) {
+      periods.push({
+        day,
+        openTime: range.openTime,
+        closeTime: range.closeTime,
+        ...(range.closeTime < range.openTime ? { isOvernight: true } : {}),
+      });
+    }
+    weekdayText.push(`${label}: ${ranges.map((range) => formatRange(range.openTime, range.closeTime)).join(", ")}`);
+  });
+
+  const recurrences = draft.recurrences.filter(isCompleteRecurrence).map((recurrence) =>
+    recurrence.closed
+      ? { day: recurrence.day, weeks: recurrence.weeks, closed: true }
+      : { day: recurrence.day, weeks: recurrence.weeks, openTime: recurrence.openTime, closeTime: recurrence.closeTime },
+  );
+  const exceptions = draft.exceptions.filter(isCompleteException).map((exception) => ({
+    startDate: exception.startDate,
+    endDate: exception.endDate && exception.endDate > exception.startDate ? exception.endDate : null,
+    days: exception.days && exception.days.length > 0 ? exception.days : null,
+    closed: Boolean(exception.closed),
+    openTime: exception.closed ? null : exception.openTime ?? null,
+    closeTime: exception.closed ? null : exception.closeTime ?? null,
+    label: exception.label?.trim() || null,
+  }));
+
+  const keptWeekdayText = periods.length > 0 ? weekdayText : base?.weekdayText ?? [];
+  if (
+    periods.length === 0 &&
+    keptWeekdayText.length === 0 &&
+    recurrences.length === 0 &&
+    exceptions.length === 0 &&
+    !draft.closedOnHolidays
+  ) {
+    return null;
+  }
+
+  const hours: OrganizationHours = { periods, weekdayText: keptWeekdayText };
+  if (recurrences.length > 0) hours.recurrences = recurrences;
+  if (exceptions.length > 0) hours.exceptions = exceptions;
+  if (draft.closedOnHolidays) hours.closedOnHolidays = true;
+  if (base?.status) hours.status = base.status;
+  const isUnverified = options.isUnverified ?? base?.isUnverified;
+  if (typeof isUnverified === "boolean") hours.isUnverified = isUnverified;
+  return hours;
+};
+
+const joinWithAnd = (parts: string[]): string =>
+  parts.length <= 1 ? parts.join("") : `${parts.slice(0, -1).join(", ")} & ${parts[parts.length - 1]}`;
+
+/** e.g. "2nd & 4th Tuesday: 9:00 AM – 12:00 PM" or "Closed 3rd Saturday". */
+export const formatRecurrence = (recurrence: OrganizationHoursRecurrence): string => {
+  const weeks = [...recurrence.weeks]
+    .sort((a, b) => (a === -1 ? 6 : a) - (b === -1 ? 6 : b))
+    .map((week) => WEEK_OF_MONTH_OPTIONS.find((option) => option.value === week)?.label ?? String(week));
+  const when = `${joinWithAnd(weeks)} ${DAY_LABELS[recurrence.day] ?? `Day ${recurrence.day}`}`;
+  if (recurrence.closed) return `Closed ${when}`;
+  return `${when}: ${formatRange(recurrence.openTime, recurrence.closeTime) ?? "Open"}`;
+};
+
+/** e.g. "Thu, Nov 27: Closed (Thanksgiving)" or "Sun, Jun 1 – Sun, Aug 31 (Sat): 9:00 AM – 12:00 PM". */
+export const formatException = (exception: OrganizationHoursException): string => {
+  let when = formatCalendarDate(exception.startDate);
+  if (exception.endDate && exception.endDate !== exception.startDate) {
+    when += ` – ${formatCalendarDate(exception.endDate)}`;
+  }
+  if (exception.days && exception.days.length > 0) {
+    when += ` (${exception.days.map((day) => (DAY_LABELS[day] ?? "").slice(0, 3)).join(", ")})`;
+  }
+  const what = exception.closed ? "Closed" : formatRange(exception.openTime, exception.closeTime) ?? "Special hours";
+  const label = exception.label?.trim();
+  return `${when}: ${what}${label ? ` (${label})` : ""}`;
+};
+
+/** Monthly rules, the holiday flag and upcoming exceptions as display lines. */
+export const formatHoursRuleLines = (
+  hours: OrganizationHours | null | undefined,
+  today: Date = new Date(),
+  maxExceptions = 3,
+): string[] => {
+  if (!hours) return [];
+  const lines = (hours.recurrences ?? []).map(formatRecurrence);
+  if (hours.closedOnHolidays) lines.push("Closed on federal holidays");
+  const todayKey = toCalendarDateString(today);
+  const upcoming = (hours.exceptions ?? [])
+    .filter((exception) => (exception.endDate || exception.startDate) >= todayKey)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .slice(0, maxExceptions);
+  lines.push(...upcoming.map(formatException));
+  return lines;
+};
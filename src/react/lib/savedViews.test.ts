@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_SAVED_VIEWS,
+  addSavedView,
+  deleteSavedView,
+  getDefaultSavedViewState,
+  moveSavedView,
+  parseSavedViews,
+  renameSavedView,
+  type SavedView,
+} from "./savedViews";
+
+const defaults = getDefaultSavedViewState();
+
+const makeView = (id: string, name = `View ${id}`): SavedView => ({
+  id,
+  name,
+  state: defaults,
+  createdAt: 1,
+  updatedAt: 1,
+});
+
+describe("parseSavedViews", () => {
+  it("keeps valid fields and fills the rest with defaults", () => {
+    const [view] = parseSavedViews(
+      [
+        {
+          id: "a",
+          name: "  Tulsa   food  ",
+          createdAt: 5,
+          state: {
+            position: { lat: 36.15, lng: -95.99, zoom: 11 },
+            statId: "stat-1",
+            secondaryStatId: null,
+            bivariate: true,
+            year: "2022",
+            areasMode: "counties",
+            selectedZips: ["74103", 42],
+            drawnShape: { type: "circle", center: [-95.99, 36.15], radiusMeters: 1500 },
+            sidebarTab: "sideways",
+            sidebarInsights: { statVizCollapsed: true },
+          },
+        },
+      ],
+      defaults,
+    );
+
+    expect(view.name).toBe("Tulsa food");
+    expect(view.updatedAt).toBe(5);
+    expect(view.state).toMatchObject({
+      position: { lat: 36.15, lng: -95.99, zoom: 11 },
+      statId: "stat-1",
+      bivariate: false,
+      year: "2022",
+      areasMode: "counties",
+      selectedZips: ["74103"],
+      drawnShape: { type: "circle", radiusMeters: 1500 },
+      sidebarTab: defaults.sidebarTab,
+      sidebarInsights: { ...defaults.sidebarInsights, statVizCollapsed: true },
+    });
+  });
+
+  it("drops entries without an id or name and repeated ids", () => {
+    const views = parseSavedViews(
+      [{ id: "a", name: "One" }, { id: "a", name: "Again" }, { name: "No id" }, { id: "b", name: " " }, null],
+      defaults,
+    );
+    expect(views.map((view) => view.name)).toEqual(["One"]);
+    expect(parseSavedViews({ id: "a" }, defaults)).toEqual([]);
+  });
+});
+
+describe("saved view edits", () => {
+  const views = [makeView("a"), makeView("b"), makeView("c")];
+
+  it("adds views until the list is full", () => {
+    const added = addSavedView(views, { id: "d", name: "New", state: defaults }, 9);
+    expect(added.at(-1)).toMatchObject({ id: "d", name: "New", createdAt: 9, updatedAt: 9 });
+    expect(addSavedView(views, { id: "d", name: "   ", state: defaults }, 9)).toBe(views);
+
+    const full = Array.from({ length: MAX_SAVED_VIEWS }, (_, index) => makeView(String(index)));
+    expect(addSavedView(full, { id: "x", name: "Extra", state: defaults }, 9)).toBe(full);
+  });
+
+  it("renames only when the name changes", () => {
+    expect(renameSavedView(views, "b", " Renamed ", 7)[1]).toMatchObject({ name: "Renamed", updatedAt: 7 });
+    expect(renameSavedView(views, "b", "View b", 7)).toBe(views);
+    expect(renameSavedView(views, "b", "", 7)).toBe(views);
+  });
+
+  it("moves views within the list bounds", () => {
+    expect(moveSavedView(views, "c", -1).map((view) => view.id)).toEqual(["a", "c", "b"]);
+    expect(moveSavedView(views, "a", -1)).toBe(views);
+    expect(moveSavedView(views, "a", 5).map((view) => view.id)).toEqual(["b", "c", "a"]);
+  });
+
+  it("deletes by id", () => {
+    expect(deleteSavedView(views, "b").map((view) => view.id)).toEqual(["a", "c"]);
+  });
+});
@@ -0,0 +1,180 @@
+// Named map views a signed-in user can reopen in one click. They live on the
+// user's uiState row (next to the persisted area selection) so they follow the
+// user across devices.
+import { getDomainDefaults } from "./domains";
+import { isValidDrawnShape, type DrawnShape } from "./drawnArea";
+import type { AreasMode, MapPosition, MapState, SidebarInsightsState } from "./mapUrl";
+
+export const MAX_SAVED_VIEWS = 20;
+export const MAX_SAVED_VIEW_NAME_LENGTH = 60;
+
+/**
+ * Everything in MapState except the one-shot tour trigger and the UI language,
+ * which belong to the visitor rather than the view.
+ */
+export type SavedViewState = Omit<MapState, "startTour" | "lang" | "sidebarInsights"> & {
+  sidebarInsights: Omit<SidebarInsightsState, "hasAnyParam">;
+};
+
+export interface SavedView {
+  id: string;
+  name: string;
+  state: SavedViewState;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const AREAS_MODES: AreasMode[] = ["auto", "zips", "counties", "tracts", "none"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const toStringOrNull = (value: unknown): string | null =>
+  typeof value === "string" && value.trim().length > 0 ? value : null;
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string" && item.length > 0) : [];
+
+const toBoolean = (value: unknown, fallback: boolean): boolean => (typeof value === "boolean" ? value : fallback);
+
+const isPoint = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && isFiniteNumber(value[0]) && isFiniteNumber(value[1]);
+
+const toPosition = (value: unknown): MapPosition | null => {
+  if (!isRecord(value)) return null;
+  const { lat, lng, zoom } = value;
+  return isFiniteNumber(lat) && isFiniteNumber(lng) && isFiniteNumber(zoom) ? { lat, lng, zoom } : null;
+};
+
+const toDrawnShape = (value: unknown): DrawnShape | null => {
+  if (!isRecord(value)) return null;
+  let shape: DrawnShape | null = null;
+  if (value.type === "circle" && isPoint(value.center) && isFiniteNumber(value.radiusMeters)) {
+    shape = { type: "circle", center: value.center, radiusMeters: value.radiusMeters };
+  } else if (value.type === "polygon" && Array.isArray(value.coordinates) && value.coordinates.every(isPoint)) {
+    shape = { type: "polygon", coordinates: value.coordinates };
+  }
+  return shape && isValidDrawnShape(shape) ? shape : null;
+};
+
+/** What a fresh map with no URL params shows on this domain. */
+export const getDefaultSavedViewState = (): SavedViewState => {
+  const domainDefaults = getDomainDefaults();
+  return {
+    position: null,
+    statId: null,
+    secondaryStatId: null,
+    bivariate: false,
+    year: null,
+    category: null,
+    orgIds: [],
+    showAdvanced: false,
+    orgPinsVisible: domainDefaults.defaultOrgPinsVisible,
+    extremasVisible: domainDefaults.defaultExtremasVisible,
+    areasMode: "auto",
+    selectedZips: [],
+    selectedCounties: [],
+    selectedTracts: [],
+    drawnShape: null,
+    sidebarTab: domainDefaults.defaultSidebarTab,
+    sidebarCollapsed: true,
+    sidebarInsights: {
+      statVizVisible: true,
+      statVizCollapsed: false,
+      demographicsVisible: true,
+      demographicsExpanded: false,
+    },
+  };
+};
+
+export const normalizeSavedViewName = (name: string): string =>
+  name.replace(/\s+/g, " ").trim().slice(0, MAX_SAVED_VIEW_NAME_LENGTH);
+
+/** Reads a stored view state, filling anything missing or malformed with the map's defaults. */
+export const parseSavedViewState = (raw: unknown, defaults: SavedViewState): SavedViewState => {
+  const value = isRecord(raw) ? raw : {};
+  const insights = isRecord(value.sidebarInsights) ? value.sidebarInsights : {};
+  const secondaryStatId = toStringOrNull(value.secondaryStatId);
+  const statId = toStringOrNull(value.statId);
+  return {
+    position: toPosition(value.position),
+    statId,
+    secondaryStatId,
+    bivariate: toBoolean(value.bivariate, false) && Boolean(secondaryStatId),
+    year: statId ? toStringOrNull(value.year) : null,
+    category: toStringOrNull(value.category),
+    orgIds: toStringList(value.orgIds),
+    showAdvanced: toBoolean(value.showAdvanced, defaults.showAdvanced),
+    orgPinsVisible: toBoolean(value.orgPinsVisible, defaults.orgPinsVisible),
+    extremasVisible: toBoolean(value.extremasVisible, defaults.extremasVisible),
+    areasMode: AREAS_MODES.includes(value.areasMode as AreasMode) ? (value.areasMode as AreasMode) : defaults.areasMode,
+    selectedZips: toStringList(value.selectedZips),
+    selectedCounties: toStringList(value.selectedCounties),
+    selectedTracts: toStringList(value.selectedTracts),
+    drawnShape: toDrawnShape(value.drawnShape),
+    sidebarTab: value.sidebarTab === "orgs" || value.sidebarTab === "stats" ? value.sidebarTab : defaults.sidebarTab,
+    sidebarCollapsed: toBoolean(value.sidebarCollapsed, defaults.sidebarCollapsed),
+    sidebarInsights: {
+      statVizVisible: toBoolean(insights.statVizVisible, defaults.sidebarInsights.statVizVisible),
+      statVizCollapsed: toBoolean(insights.statVizCollapsed, defaults.sidebarInsights.statVizCollapsed),
+      demographicsVisible: toBoolean(insights.demographicsVisible, defaults.sidebarInsights.demographicsVisible),
+      demographicsExpanded: toBoolean(insights.demographicsExpanded, defaults.sidebarInsights.demographicsExpanded),
+    },
+  };
+};
+
+/** Reads the stored list, dropping entries without an id or name and duplicate ids. */
+export const parseSavedViews = (raw: unknown, defaults: SavedViewState): SavedView[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const views: SavedView[] = [];
+  for (const entry of raw) {
+    if (!isRecord(entry)) continue;
+    const id = toStringOrNull(entry.id);
+    const name = typeof entry.name === "string" ? normalizeSavedViewName(entry.name) : "";
+    if (!id || !name || seen.has(id)) continue;
+    seen.add(id);
+    const createdAt = isFiniteNumber(entry.createdAt) ? entry.createdAt : 0;
+    views.push({
+      id,
+      name,
+      state: parseSavedViewState(entry.state, defaults),
+      createdAt,
+      updatedAt: isFiniteNumber(entry.updatedAt) ? entry.updatedAt : createdAt,
+    });
+  }
+  return views.slice(0, MAX_SAVED_VIEWS);
+};
+
+/** Appends a view, or returns the list unchanged when the name is blank or the list is full. */
+export const addSavedView = (
+  views: SavedView[],
+  view: { id: string; name: string; state: SavedViewState },
+  now: number,
+): SavedView[] => {
+  const name = normalizeSavedViewName(view.name);
+  if (!name || views.length >= MAX_SAVED_VIEWS) return views;
+  return [...views, { id: view.id, name, state: view.state, createdAt: now, updatedAt: now }];
+};
+
+export const renameSavedView = (views: SavedView[], id: string, name: string, now: number): SavedView[] => {
+  const nextName = normalizeSavedViewName(name);
+  if (!nextName || !views.some((view) => view.id === id && view.name !== nextName)) return views;
+  return views.map((view) => (view.id === id && view.name !== nextName ? { ...view, name: nextName, updatedAt: now } : view));
+};
+
+/** Moves a view up (-1) or down (+1), clamped to the ends of the list. */
+export const moveSavedView = (views: SavedView[], id: string, offset: number): SavedView[] => {
+  const from = views.findIndex((view) => view.id === id);
+  if (from === -1) return views;
+  const to = Math.min(views.length - 1, Math.max(0, from + offset));
+  if (to === from) return views;
+  const next = [...views];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export const deleteSavedView = (views: SavedView[], id: string): SavedView[] => views.filter((view) => view.id !== id);
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyPrivacyRules,
+  getDefaultPrivacyRules,
+  hasPrivacyRules,
+  normalizePrivacyRules,
+  type PrivacyRules,
+} from "./smallCellSuppression";
+
+const rules: PrivacyRules = { minCellCount: 10, complementarySuppression: true, roundTo: 0, noise: 0 };
+
+describe("smallCellSuppression", () => {
+  it("defaults person-level imports to a 10-record minimum", () => {
+    expect(getDefaultPrivacyRules("attendance")).toEqual(rules);
+    expect(hasPrivacyRules(getDefaultPrivacyRules("generic"))).toBe(false);
+    expect(normalizePrivacyRules({ minCellCount: "5", roundTo: 5.5, complementarySuppression: true })).toEqual({
+      minCellCount: 0,
+      complementarySuppression: true,
+      roundTo: 5,
+      noise: 0,
+    });
+  });
+
+  it("hides small cells and the next-smallest cells that would expose them", () => {
+    const data = { "74103": 2, "74104": 12, "74105": 40, "74106": 0.9 };
+    const counts = { "74103": 2, "74104": 12, "74105": 40 };
+    const result = applyPrivacyRules(data, counts, rules, { type: "count" });
+
+    // 74106 has no count, so it can't be shown either.
+    expect(result.primary).toEqual(["74103", "74106"]);
+    // Two hidden cells totalling 2 records could still be isolated; 74104 goes too.
+    expect(result.complementary).toEqual(["74104"]);
+    expect(result.data).toEqual({ "74105": 40 });
+    expect(result.counts).toEqual({ "74105": 40 });
+    expect(applyPrivacyRules(data, counts, { ...rules, complementarySuppression: false }).data).toEqual({
+      "74104": 12,
+      "74105": 40,
+    });
+  });
+
+  it("rounds and perturbs counts the same way every time", () => {
+    const data = { "74103": 23, "74104": 0.75 };
+    const counts = { "74103": 23, "74104": 20 };
+    const noisy = { minCellCount: 0, complementarySuppression: false, roundTo: 0, noise: 3 };
+    const first = applyPrivacyRules({ "74103": 23 }, counts, noisy, { type: "count", noiseKey: "Visits::2025" });
+    const second = applyPrivacyRules({ "74103": 23 }, counts, noisy, { type: "count", noiseKey: "Visits::2025" });
+    expect(first.data).toEqual(second.data);
+    expect(Math.abs(first.data["74103"] - 23)).toBeLessThanOrEqual(3);
+
+    const rounded = applyPrivacyRules(data, counts, { ...noisy, noise: 0, roundTo: 5 }, { type: "count" });
+    expect(rounded.data["74103"]).toBe(25);
+    // Rates are left alone.
+    expect(applyPrivacyRules(data, counts, { ...noisy, roundTo: 5 }, { type: "percent" }).data["74104"]).toBe(0.75);
+  });
+});
@@ -0,0 +1,126 @@
+import type { CustomDataKind } from "./customDataCsv";
+
+/**
+ * Disclosure rules for person-level custom data, stored on the import recipe
+ * and on each published custom stat.
+ * - `minCellCount`: areas built from fewer records are hidden (0 turns it off).
+ * - `complementarySuppression`: hide extra areas so a lone hidden value can't
+ *   be recovered by subtracting the visible areas from a total.
+ * - `roundTo`: round count values to this base (0 or 1 turns it off).
+ * - `noise`: add up to ± this many to count values, seeded per cell so the
+ *   same cell always gets the same offset (0 turns it off).
+ */
+export interface PrivacyRules {
+  minCellCount: number;
+  complementarySuppression: boolean;
+  roundTo: number;
+  noise: number;
+}
+
+export interface SuppressedCells {
+  data: Record<string, number>;
+  counts: Record<string, number>;
+  /** Areas hidden for having fewer than `minCellCount` records. */
+  primary: string[];
+  /** Areas hidden only to protect the primary ones. */
+  complementary: string[];
+}
+
+export const NO_PRIVACY_RULES: PrivacyRules = {
+  minCellCount: 0,
+  complementarySuppression: false,
+  roundTo: 0,
+  noise: 0,
+};
+
+// Matches the "fewer than 10 students" threshold common in district data-sharing agreements.
+const PERSON_LEVEL_PRIVACY_RULES: PrivacyRules = {
+  minCellCount: 10,
+  complementarySuppression: true,
+  roundTo: 0,
+  noise: 0,
+};
+
+export const getDefaultPrivacyRules = (kind: CustomDataKind): PrivacyRules =>
+  kind === "generic" ? { ...NO_PRIVACY_RULES } : { ...PERSON_LEVEL_PRIVACY_RULES };
+
+const nonNegativeInteger = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+
+/** Reads rules saved on a recipe or stat row; anything missing or malformed is off. */
+export const normalizePrivacyRules = (value: unknown): PrivacyRules | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  return {
+    minCellCount: nonNegativeInteger(raw.minCellCount),
+    complementarySuppression: raw.complementarySuppression === true,
+    roundTo: nonNegativeInteger(raw.roundTo),
+    noise: nonNegativeInteger(raw.noise),
+  };
+};
+
+export const hasPrivacyRules = (rules: PrivacyRules | null | undefined): rules is PrivacyRules =>
+  Boolean(rules && (rules.minCellCount > 0 || rules.roundTo > 1 || rules.noise > 0));
+
+// FNV-1a, scaled to [0, 1).
+const hashUnit = (key: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i += 1) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+};
+
+/**
+ * Applies `rules` to one stat/date slice of area values. `counts` holds the
+ * number of records behind each value; values without a count are treated as
+ * too small when a minimum is set. Rounding and noise only touch count-type
+ * values, since shifting a rate or average by whole units would distort it.
+ * `noiseKey` seeds the noise (e.g. stat name and date).
+ */
+export const applyPrivacyRules = (
+  data: Record<string, number>,
+  counts: Record<string, number> | null | undefined,
+  rules: PrivacyRules,
+  { type, noiseKey = "" }: { type?: string | null; noiseKey?: string } = {},
+): SuppressedCells => {
+  const out: SuppressedCells = { data: {}, counts: {}, primary: [], complementary: [] };
+  const visible: Array<[string, number]> = [];
+  for (const [area, value] of Object.entries(data)) {
+    if (!Number.isFinite(value)) continue;
+    const count = counts?.[area];
+    if (rules.minCellCount > 0 && !(typeof count === "number" && count >= rules.minCellCount)) {
+      out.primary.push(area);
+      continue;
+    }
+    visible.push([area, count ?? 0]);
+  }
+
+  if (rules.complementarySuppression && out.primary.length > 0 && visible.length > 0) {
+    // Keep hiding the smallest visible cells until the hidden group is at least
+    // two cells and large enough that no single cell's share can be isolated.
+    visible.sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]));
+    let hiddenCount = out.primary.reduce((total, area) => total + (counts?.[area] ?? 0), 0);
+    while (visible.length > 0 && (out.primary.length + out.complementary.length < 2 || hiddenCount < rules.minCellCount)) {
+      const [area, count] = visible.shift()!;
+      out.complementary.push(area);
+      hiddenCount += count;
+    }
+  }
+
+  const adjustsCounts = type === "count";
+  for (const [area, count] of visible) {
+    let value = data[area];
+    if (adjustsCounts && rules.noise > 0) {
+      const offset = Math.round((hashUnit(`${noiseKey}\u001f${area}`) * 2 - 1) * rules.noise);
+      value = Math.max(0, value + offset);
+    }
+    if (adjustsCounts && rules.roundTo > 1) {
+      value = Math.round(value / rules.roundTo) * rules.roundTo;
+    }
+    out.data[area] = value;
+    if (counts?.[area] !== undefined) out.counts[area] = count;
+  }
+  return out;
+};
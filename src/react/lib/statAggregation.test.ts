@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { SeriesEntry } from "../hooks/useStats";
+import { DEFAULT_POPULATION_STAT_ID } from "./domains";
+import { DRAWN_AREA_CODE } from "./drawnArea";
+import {
+  aggregateStatSeries,
+  aggregateStatValues,
+  computeStatBaseline,
+  getAggregationWeightStatId,
+  getStatAggregationRule,
+  scaleBaseline,
+} from "./statAggregation";
+
+const population = { rural: 200, tulsa: 40_000 };
+
+describe("statAggregation", () => {
+  it("picks the rule from the stat type and name", () => {
+    expect(getStatAggregationRule("count")).toBe("sum");
+    expect(getStatAggregationRule("percent")).toBe("weighted");
+    expect(getStatAggregationRule("rate")).toBe("weighted");
+    expect(getStatAggregationRule("currency")).toBe("median");
+    expect(getStatAggregationRule("years")).toBe("median");
+    expect(getStatAggregationRule("rate", "Median Rent Burden")).toBe("median");
+  });
+
+  it("sums counts and population-weights percents", () => {
+    const data = { rural: 0.5, tulsa: 0.1 };
+    expect(aggregateStatValues({ rural: 150, tulsa: 9000 }, ["rural", "tulsa"], { type: "count" })?.value).toBe(9150);
+    const weighted = aggregateStatValues(data, ["rural", "tulsa"], { type: "percent", weights: population });
+    expect(weighted?.value).toBeCloseTo((0.5 * 200 + 0.1 * 40_000) / 40_200);
+    expect(weighted?.aggregatable).toBe(true);
+    // With no weights at all, fall back to the plain mean.
+    expect(aggregateStatValues(data, ["rural", "tulsa"], { type: "percent", weights: {} })).toEqual({
+      value: 0.3,
+      rule: "weighted",
+      aggregatable: true,
+    });
+    expect(aggregateStatValues(data, ["missing"], { type: "percent" })).toBeNull();
+  });
+
+  it("weights the areas that have weights and counts the ones left out", () => {
+    const data = { rural: 0.5, tulsa: 0.1, newZip: 0.9 };
+    const aggregate = aggregateStatValues(data, ["rural", "tulsa", "newZip"], {
+      type: "percent",
+      weights: { ...population, newZip: 0 },
+    });
+    expect(aggregate?.value).toBeCloseTo((0.5 * 200 + 0.1 * 40_000) / 40_200);
+    expect(aggregate?.unweightedCount).toBe(1);
+    expect(computeStatBaseline(data, { type: "rate", weights: population })?.unweightedCount).toBe(1);
+  });
+
+  it("flags combined medians but not a single area's median", () => {
+    const data = { rural: 40_000, tulsa: 60_000 };
+    expect(aggregateStatValues(data, ["rural", "tulsa"], { type: "currency", weights: population })?.aggregatable).toBe(false);
+    expect(aggregateStatValues(data, ["tulsa"], { type: "currency" })).toEqual({
+      value: 60_000,
+      rule: "median",
+      aggregatable: true,
+    });
+  });
+
+  it("builds baselines that stay comparable to one area and skip the drawn area", () => {
+    const counts = computeStatBaseline({ rural: 100, tulsa: 300, [DRAWN_AREA_CODE]: 10_000 }, { type: "count" });
+    expect(counts?.value).toBe(200);
+    expect(scaleBaseline(counts!, 3)).toBe(600);
+    const rates = computeStatBaseline({ rural: 0.5, tulsa: 0.1 }, { type: "rate", weights: population });
+    expect(rates?.value).toBeCloseTo(0.102, 3);
+    expect(scaleBaseline(rates!, 3)).toBe(rates?.value);
+  });
+
+  it("weights each series date by that year's population", () => {
+    const series: SeriesEntry[] = [
+      { date: "2020", type: "percent", data: { rural: 1, tulsa: 0 }, parentArea: null },
+      { date: "2021", type: "percent", data: { rural: 1, tulsa: 0 }, parentArea: null },
+    ];
+    const weightSeries: SeriesEntry[] = [
+      { date: "2020", type: "count", data: { rural: 1, tulsa: 1 }, parentArea: null },
+      { date: "2021", type: "count", data: { rural: 1, tulsa: 3 }, parentArea: null },
+    ];
+    expect(aggregateStatSeries(series, null, { type: "percent", weightSeries })).toEqual([
+      { date: "2020", value: 0.5 },
+      { date: "2021", value: 0.25 },
+    ]);
+  });
+
+  it("uses a declared denominator stat before population", () => {
+    expect(getAggregationWeightStatId({ denominatorStatId: "households" })).toBe("households");
+    expect(getAggregationWeightStatId(null)).toBe(DEFAULT_POPULATION_STAT_ID);
+  });
+});
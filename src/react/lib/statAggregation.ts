@@ -0,0 +1,171 @@
+import type { Stat } from "../../types/stat";
+import type { SeriesEntry, StatBoundaryEntry } from "../hooks/useStats";
+import { DEFAULT_POPULATION_STAT_ID } from "./domains";
+import { isDrawnAreaCode } from "./drawnArea";
+
+type SupportedAreaKind = "ZIP" | "COUNTY";
+type SeriesPoint = Pick<SeriesEntry, "date" | "type" | "data">;
+
+/**
+ * How values of one stat combine across areas:
+ * - `sum`: counts add up.
+ * - `weighted`: percents, rates and other ratios average by population (or a
+ *   declared denominator stat).
+ * - `median`: can't be combined; a weighted average is shown as an estimate.
+ */
+export type StatAggregationRule = "sum" | "weighted" | "median";
+
+export interface StatAggregate {
+  value: number;
+  rule: StatAggregationRule;
+  /** False when the value only approximates a combined median. */
+  aggregatable: boolean;
+  /** Areas left out of a weighted average because they have no weight. */
+  unweightedCount?: number;
+}
+
+export interface StatAggregationOptions {
+  type: string | null | undefined;
+  name?: string | null;
+  /**
+   * Population (or denominator) per area code. Areas without a positive weight
+   * are left out of the average (see `unweightedCount`); the mean is unweighted
+   * only when no area has one.
+   */
+  weights?: Record<string, number> | null;
+}
+
+const MEDIAN_NAME_PATTERN = /\bmedian\b/i;
+
+export const getStatAggregationRule = (
+  type: string | null | undefined,
+  name?: string | null,
+): StatAggregationRule => {
+  if (type === "count") return "sum";
+  if (name && MEDIAN_NAME_PATTERN.test(name)) return "median";
+  // Dollar and age figures from the Census are medians (household income, age).
+  if (type === "currency" || type === "years") return "median";
+  return "weighted";
+};
+
+/** Stat whose values weight `stat` when areas are combined. */
+export const getAggregationWeightStatId = (stat: Pick<Stat, "denominatorStatId"> | null | undefined): string =>
+  stat?.denominatorStatId || DEFAULT_POPULATION_STAT_ID;
+
+export const getAggregationWeights = (
+  stat: Pick<Stat, "denominatorStatId"> | null | undefined,
+  kind: SupportedAreaKind,
+  statDataById: Map<string, Partial<Record<SupportedAreaKind, StatBoundaryEntry>>>,
+): Record<string, number> | null => statDataById.get(getAggregationWeightStatId(stat))?.[kind]?.data ?? null;
+
+/** Weights for one series date, falling back to the latest weight snapshot. */
+export const getSeriesWeightsForDate = (
+  weightSeries: SeriesPoint[] | undefined,
+  date: string,
+  fallback: Record<string, number> | null = null,
+): Record<string, number> | null => {
+  if (!weightSeries || weightSeries.length === 0) return fallback;
+  const match = weightSeries.find((entry) => entry.date === date);
+  return match?.data ?? fallback ?? weightSeries[weightSeries.length - 1]?.data ?? null;
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const combine = (
+  pairs: Array<[string, number]>,
+  rule: StatAggregationRule,
+  weights: Record<string, number> | null | undefined,
+): { value: number; unweightedCount: number } => {
+  const total = pairs.reduce((sum, [, value]) => sum + value, 0);
+  if (rule === "sum") return { value: total, unweightedCount: 0 };
+  let weightedTotal = 0;
+  let weightTotal = 0;
+  let unweightedCount = 0;
+  for (const [code, value] of pairs) {
+    const weight = weights?.[code];
+    if (!isFiniteNumber(weight) || weight <= 0) {
+      unweightedCount += 1;
+      continue;
+    }
+    weightedTotal += value * weight;
+    weightTotal += weight;
+  }
+  // Giving an unweighted area some made-up weight would skew the average, so
+  // it's left out; with no weights at all the plain mean is the best we have.
+  if (weightTotal === 0) return { value: total / pairs.length, unweightedCount: 0 };
+  return { value: weightedTotal / weightTotal, unweightedCount };
+};
+
+const toAggregate = (
+  { value, unweightedCount }: ReturnType<typeof combine>,
+  rule: StatAggregationRule,
+  aggregatable: boolean,
+): StatAggregate =>
+  unweightedCount > 0 ? { value, rule, aggregatable, unweightedCount } : { value, rule, aggregatable };
+
+/** Combined value of `codes`, or null when none of them have data. */
+export const aggregateStatValues = (
+  data: Record<string, number> | null | undefined,
+  codes: string[],
+  { type, name, weights }: StatAggregationOptions,
+): StatAggregate | null => {
+  const seen = new Set<string>();
+  const pairs: Array<[string, number]> = [];
+  for (const code of codes) {
+    if (seen.has(code)) continue;
+    seen.add(code);
+    const value = data?.[code];
+    if (isFiniteNumber(value)) pairs.push([code, value]);
+  }
+  if (pairs.length === 0) return null;
+  const rule = getStatAggregationRule(type, name);
+  return toAggregate(combine(pairs, rule, weights), rule, rule !== "median" || pairs.length === 1);
+};
+
+/**
+ * Baseline over every area in `data` (e.g. "all OK ZIPs"), leaving out the
+ * drawn area. Counts give the average area total so the baseline stays
+ * comparable to a single area; use `scaleBaseline` for multi-area selections.
+ */
+export const computeStatBaseline = (
+  data: Record<string, number> | null | undefined,
+  options: StatAggregationOptions,
+): StatAggregate | null => {
+  const pairs: Array<[string, number]> = [];
+  for (const [code, value] of Object.entries(data ?? {})) {
+    if (isDrawnAreaCode(code) || !isFiniteNumber(value)) continue;
+    pairs.push([code, value]);
+  }
+  if (pairs.length === 0) return null;
+  const rule = getStatAggregationRule(options.type, options.name);
+  if (rule === "sum") {
+    return { value: combine(pairs, rule, null).value / pairs.length, rule, aggregatable: true };
+  }
+  return toAggregate(combine(pairs, rule, options.weights), rule, rule !== "median");
+};
+
+/** Baseline comparable to a selection of `areaCount` areas (only counts scale). */
+export const scaleBaseline = (baseline: StatAggregate, areaCount: number): number =>
+  baseline.rule === "sum" ? baseline.value * Math.max(1, areaCount) : baseline.value;
+
+/** Per-date aggregate of `codes` (or the baseline of all areas when `codes` is null). */
+export const aggregateStatSeries = (
+  entries: SeriesPoint[],
+  codes: string[] | null,
+  options: Omit<StatAggregationOptions, "weights"> & {
+    weightSeries?: SeriesPoint[];
+    fallbackWeights?: Record<string, number> | null;
+  },
+): { date: string; value: number }[] => {
+  const points: { date: string; value: number }[] = [];
+  for (const entry of entries) {
+    const weights = getSeriesWeightsForDate(options.weightSeries, entry.date, options.fallbackWeights ?? null);
+    const aggregateOptions = { type: options.type ?? entry.type, name: options.name, weights };
+    const aggregate = codes
+      ? aggregateStatValues(entry.data, codes, aggregateOptions)
+      : computeStatBaseline(entry.data, aggregateOptions);
+    // Keep one point per date so the series lines up with the area series.
+    points.push({ date: entry.date, value: aggregate?.value ?? 0 });
+  }
+  return points;
+};
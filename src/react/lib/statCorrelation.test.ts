@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { DRAWN_AREA_CODE } from "./drawnArea";
+import {
+  computeStatCorrelation,
+  describeCorrelation,
+  linearFit,
+  pearsonCorrelation,
+  rankValues,
+  spearmanCorrelation,
+} from "./statCorrelation";
+
+describe("correlation helpers", () => {
+  it("computes Pearson and Spearman coefficients", () => {
+    expect(pearsonCorrelation([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1);
+    expect(pearsonCorrelation([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1);
+    // Monotonic but not linear: Spearman stays at 1 while Pearson drops.
+    const xs = [1, 2, 3, 4, 5];
+    const ys = [1, 4, 9, 16, 100];
+    expect(spearmanCorrelation(xs, ys)).toBeCloseTo(1);
+    expect(pearsonCorrelation(xs, ys)).toBeLessThan(0.9);
+  });
+
+  it("returns null without enough variation or points", () => {
+    expect(pearsonCorrelation([1, 1, 1], [1, 2, 3])).toBeNull();
+    expect(pearsonCorrelation([1, 2], [1, 2])).toBeNull();
+    expect(linearFit([2, 2], [1, 3])).toBeNull();
+  });
+
+  it("averages ranks for ties", () => {
+    expect(rankValues([10, 20, 10, 30])).toEqual([1.5, 3, 1.5, 4]);
+  });
+
+  it("fits a least-squares line", () => {
+    const fit = linearFit([0, 1, 2], [1, 3, 5]);
+    expect(fit?.slope).toBeCloseTo(2);
+    expect(fit?.intercept).toBeCloseTo(1);
+  });
+});
+
+describe("computeStatCorrelation", () => {
+  it("pairs areas with both values and flags outliers", () => {
+    const xData: Record<string, number> = { [DRAWN_AREA_CODE]: 5, missing: 3 };
+    const yData: Record<string, number> = { [DRAWN_AREA_CODE]: 500 };
+    for (let i = 0; i < 12; i++) {
+      xData[`a${i}`] = i;
+      yData[`a${i}`] = i * 2 + (i % 2 === 0 ? 0.2 : -0.2);
+    }
+    xData.far = 6;
+    yData.far = 40;
+
+    const result = computeStatCorrelation(xData, yData);
+    expect(result.points).toHaveLength(13);
+    expect(result.points.some((point) => point.code === DRAWN_AREA_CODE || point.code === "missing")).toBe(false);
+    expect(result.outlierCodes).toEqual(["far"]);
+    expect(result.pearson).toBeGreaterThan(0.5);
+  });
+});
+
+describe("describeCorrelation", () => {
+  it("labels strength and direction", () => {
+    expect(describeCorrelation(0.82)).toBe("Strong positive correlation");
+    expect(describeCorrelation(-0.45)).toBe("Moderate negative correlation");
+    expect(describeCorrelation(0.05)).toBe("Little or no correlation");
+    expect(describeCorrelation(null)).toBe("Not enough data");
+    expect(describeCorrelation(-0.3, "es")).toBe("Correlación negativa débil");
+  });
+});
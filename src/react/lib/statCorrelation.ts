@@ -0,0 +1,131 @@
+import { getLocale, t, type Locale } from "../../lib/i18n";
+import { isDrawnAreaCode } from "./drawnArea";
+
+export interface ScatterPoint {
+  code: string;
+  x: number;
+  y: number;
+}
+
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+}
+
+export interface StatCorrelation {
+  points: ScatterPoint[];
+  /** Least-squares line of y on x; null when x doesn't vary. */
+  fit: LinearFit | null;
+  pearson: number | null;
+  spearman: number | null;
+  /** Codes whose residual from the fit is unusually large, largest first. */
+  outlierCodes: string[];
+}
+
+// A point is an outlier when its residual is this many standard deviations out.
+const OUTLIER_RESIDUAL_Z = 2;
+const MAX_OUTLIER_LABELS = 5;
+const MIN_POINTS = 3;
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const pearsonCorrelation = (xs: number[], ys: number[]): number | null => {
+  if (xs.length !== ys.length || xs.length < MIN_POINTS) return null;
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+/** 1-based ranks; tied values share the average of their positions. */
+export const rankValues = (values: number[]): number[] => {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) ranks[order[i].index] = rank;
+    start = end + 1;
+  }
+  return ranks;
+};
+
+/** Spearman's rho: Pearson correlation of the ranks, so ties are handled. */
+export const spearmanCorrelation = (xs: number[], ys: number[]): number | null =>
+  xs.length !== ys.length ? null : pearsonCorrelation(rankValues(xs), rankValues(ys));
+
+export const linearFit = (xs: number[], ys: number[]): LinearFit | null => {
+  if (xs.length !== ys.length || xs.length < 2) return null;
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+  }
+  if (varianceX === 0) return null;
+  const slope = covariance / varianceX;
+  return { slope, intercept: meanY - slope * meanX };
+};
+
+const findOutliers = (points: ScatterPoint[], fit: LinearFit | null): string[] => {
+  if (!fit || points.length < MIN_POINTS) return [];
+  const residuals = points.map((point) => point.y - (fit.slope * point.x + fit.intercept));
+  const sd = Math.sqrt(residuals.reduce((sum, residual) => sum + residual * residual, 0) / (points.length - 2 || 1));
+  if (!(sd > 0)) return [];
+  return points
+    .map((point, index) => ({ code: point.code, z: Math.abs(residuals[index]) / sd }))
+    .filter((entry) => entry.z >= OUTLIER_RESIDUAL_Z)
+    .sort((a, b) => b.z - a.z)
+    .slice(0, MAX_OUTLIER_LABELS)
+    .map((entry) => entry.code);
+};
+
+/**
+ * Pairs each area's value for two stats (skipping the drawn area and areas
+ * missing either value) and summarizes how they move together.
+ */
+export const computeStatCorrelation = (
+  xData: Record<string, number> | null | undefined,
+  yData: Record<string, number> | null | undefined,
+): StatCorrelation => {
+  const points: ScatterPoint[] = [];
+  for (const [code, x] of Object.entries(xData ?? {})) {
+    if (isDrawnAreaCode(code)) continue;
+    const y = yData?.[code];
+    if (!Number.isFinite(x) || typeof y !== "number" || !Number.isFinite(y)) continue;
+    points.push({ code, x, y });
+  }
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const fit = linearFit(xs, ys);
+  return {
+    points,
+    fit,
+    pearson: pearsonCorrelation(xs, ys),
+    spearman: spearmanCorrelation(xs, ys),
+    outlierCodes: findOutliers(points, fit),
+  };
+};
+
+/** Plain-language strength for a correlation coefficient. */
+export const describeCorrelation = (r: number | null, locale: Locale = getLocale()): string => {
+  if (r === null) return t("scatter.correlation.notEnoughData", undefined, locale);
+  const strength = Math.abs(r);
+  if (strength < 0.2) return t("scatter.correlation.none", undefined, locale);
+  const level = strength >= 0.7 ? "strong" : strength >= 0.4 ? "moderate" : "weak";
+  return t(`scatter.correlation.${level}${r > 0 ? "Positive" : "Negative"}`, undefined, locale);
+};
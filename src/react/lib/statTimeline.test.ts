@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import type { SeriesByKind } from "../hooks/useStats";
+import { buildStatEntryForDate, getSeriesDates } from "./statTimeline";
+
+const series: SeriesByKind = new Map([
+  [
+    "ZIP",
+    [
+      { date: "2018", type: "percent", data: { "74103": 0.2, "74104": 0.4 }, parentArea: "Tulsa" },
+      { date: "2023", type: "percent", data: { "74103": 0.1, "74104": 0.3 }, parentArea: "Tulsa" },
+    ],
+  ],
+  [
+    "COUNTY",
+    [{ date: "2020", type: "percent", data: { "40143": 0.25 }, parentArea: "Oklahoma" }],
+  ],
+]);
+
+describe("statTimeline", () => {
+  it("collects dates across area kinds", () => {
+    expect(getSeriesDates(series)).toEqual(["2018", "2020", "2023"]);
+    expect(getSeriesDates(undefined)).toEqual([]);
+  });
+
+  it("keeps the legend range fixed across every date", () => {
+    const entry = buildStatEntryForDate(series, "2023");
+    expect(entry.ZIP).toEqual({ type: "percent", data: { "74103": 0.1, "74104": 0.3 }, min: 0.1, max: 0.4 });
+    expect(entry.COUNTY).toBeUndefined();
+  });
+});
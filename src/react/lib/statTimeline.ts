@@ -0,0 +1,52 @@
+import type { SeriesByKind, StatBoundaryEntry } from "../hooks/useStats";
+
+type TimelineKind = "ZIP" | "COUNTY";
+
+const TIMELINE_KINDS: TimelineKind[] = ["ZIP", "COUNTY"];
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/** All dates with data for a stat across ZIP and county series, ascending. */
+export const getSeriesDates = (series: SeriesByKind | undefined): string[] => {
+  if (!series) return [];
+  const dates = new Set<string>();
+  for (const kind of TIMELINE_KINDS) {
+    for (const entry of series.get(kind) ?? []) dates.add(entry.date);
+  }
+  return Array.from(dates).sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Map entry for one date of a stat. The min/max span every date in the series
+ * so the legend and fill colors stay comparable while scrubbing through years.
+ */
+export const buildStatEntryForDate = (
+  series: SeriesByKind | undefined,
+  date: string,
+): Partial<Record<TimelineKind, StatBoundaryEntry>> => {
+  const entry: Partial<Record<TimelineKind, StatBoundaryEntry>> = {};
+  if (!series) return entry;
+  for (const kind of TIMELINE_KINDS) {
+    const kindSeries = series.get(kind);
+    const current = kindSeries?.find((item) => item.date === date);
+    if (!kindSeries || !current) continue;
+    let min = Number.POSITIVE_INFINITY;
+    let max = Number.NEGATIVE_INFINITY;
+    for (const item of kindSeries) {
+      for (const value of Object.values(item.data ?? {})) {
+        if (!isFiniteNumber(value)) continue;
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+    }
+    entry[kind] = {
+      type: current.type,
+      data: current.data ?? {},
+      min: Number.isFinite(min) ? min : 0,
+      max: Number.isFinite(max) ? max : 0,
+      ...(current.marginOfError ? { marginOfError: current.marginOfError } : {}),
+    };
+  }
+  return entry;
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { Organization, OrganizationHours } from "../../types/organization";
+import {
+  getFederalHolidays,
+  getOpenPeriodsOnDate,
+  getOrganizationOpenStatus,
+  isOrganizationOpenAtTime,
+  toTimeSelection,
+} from "./timeFilters";
+
+const org = (hours: OrganizationHours): Organization =>
+  ({ id: "org-1", name: "Pantry", category: "food", latitude: 0, longitude: 0, hours }) as Organization;
+
+const pantryHours: OrganizationHours = {
+  periods: [{ day: 6, openTime: "09:00", closeTime: "12:00" }],
+  recurrences: [
+    { day: 2, weeks: [2, 4], openTime: "17:00", closeTime: "19:00" },
+    { day: 6, weeks: [3], closed: true },
+  ],
+  exceptions: [
+    { startDate: "2025-12-24", endDate: "2025-12-31", closed: true, label: "Winter break" },
+    { startDate: "2025-06-01", endDate: "2025-08-31", days: [6], openTime: "08:00", closeTime: "10:00" },
+  ],
+  closedOnHolidays: true,
+};
+
+describe("timeFilters", () => {
+  it("keeps weekday-only selections on the weekly schedule plus open monthly rules", () => {
+    const pantry = org(pantryHours);
+    expect(isOrganizationOpenAtTime(pantry, { day: 6, hour: 10, minute: 0 })).toBe(true);
+    expect(isOrganizationOpenAtTime(pantry, { day: 2, hour: 18, minute: 0 })).toBe(true);
+    expect(isOrganizationOpenAtTime(pantry, { day: 1, hour: 10, minute: 0 })).toBe(false);
+  });
+
+  it("applies monthly rules against the calendar date", () => {
+    const pantry = org(pantryHours);
+    // November 2025: Tuesdays fall on 4, 11 (Veterans Day), 18, 25; Saturdays on 1, 8, 15, 22, 29.
+    expect(isOrganizationOpenAtTime(pantry, { day: 2, hour: 18, minute: 0, date: "2025-11-25" })).toBe(true);
+    expect(isOrganizationOpenAtTime(pantry, { day: 2, hour: 18, minute: 0, date: "2025-11-18" })).toBe(false);
+    expect(isOrganizationOpenAtTime(pantry, { day: 6, hour: 10, minute: 0, date: "2025-11-08" })).toBe(true);
+    expect(isOrganizationOpenAtTime(pantry, { day: 6, hour: 10, minute: 0, date: "2025-11-15" })).toBe(false);
+  });
+
+  it("lets dated exceptions replace the day and holidays close it", () => {
+    expect(getOpenPeriodsOnDate(pantryHours, "2025-12-27")).toEqual([]);
+    expect(getOpenPeriodsOnDate(pantryHours, "2025-07-12")).toEqual([
+      { openTime: "08:00", closeTime: "10:00", isOvernight: undefined },
+    ]);
+    // Tuesday July 1 is inside the summer range but not one of its days.
+    expect(getOpenPeriodsOnDate(pantryHours, "2025-07-01")).toEqual([]);
+    // Thanksgiving 2025 is the 4th Thursday.
+    expect(getOpenPeriodsOnDate({ ...pantryHours, periods: [{ day: 4, openTime: "09:00", closeTime: "17:00" }] }, "2025-11-27")).toEqual([]);
+  });
+
+  it("computes federal holidays with floating dates", () => {
+    const holidays = new Map(getFederalHolidays(2026).map((holiday) => [holiday.label, holiday.date]));
+    expect(holidays.get("Memorial Day")).toBe("2026-05-25");
+    expect(holidays.get("Labor Day")).toBe("2026-09-07");
+    expect(holidays.get("Thanksgiving")).toBe("2026-11-26");
+  });
+
+  it("reports open status with the closure reason", () => {
+    expect(getOrganizationOpenStatus(pantryHours, new Date(2025, 11, 26, 10, 0))).toEqual({
+      isOpen: false,
+      closedReason: "Winter break",
+    });
+    expect(getOrganizationOpenStatus(pantryHours, new Date(2025, 10, 8, 10, 0))).toEqual({
+      isOpen: true,
+      closedReason: null,
+    });
+    expect(getOrganizationOpenStatus({ weekdayText: ["Monday: 9-5"] }, new Date())).toBeNull();
+  });
+
+  it("derives the weekday from a selected date and drops invalid dates", () => {
+    expect(toTimeSelection({ day: 0, hour: 9, minute: 0, date: "2025-11-27" })).toEqual({
+      day: 4,
+      hour: 9,
+      minute: 0,
+      date: "2025-11-27",
+    });
+    expect(toTimeSelection({ day: 1, hour: 9, minute: 0, date: "2025-02-30" })).toEqual({ day: 1, hour: 9, minute: 0 });
+  });
+});
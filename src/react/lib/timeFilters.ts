@@ -1,13 +1,27 @@
-import type { Organization } from "../../types/organization";
+import type {
+  Organization,
+  OrganizationHours,
+  OrganizationHoursException,
+  OrganizationHoursPeriod,
+} from "../../types/organization";
 
 export type TimeSelection = {
   day: number; // 0 (Sunday) - 6 (Saturday)
   hour: number; // 0 - 23
   minute: number; // 0 - 59
+  // Calendar date (YYYY-MM-DD). When set, `day` is its weekday and dated
+  // exceptions, holidays and monthly rules are applied.
+  date?: string | null;
 };
 
 export const DAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const;
 
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"] as const;
+
+type CalendarDate = { year: number; month: number; day: number; weekday: number };
+
+type OpenPeriod = Pick<OrganizationHoursPeriod, "openTime" | "closeTime" | "isOvernight">;
+
 const toMinutes = (time: string | null | undefined): number | null => {
   if (!time) return null;
   const [hoursPart, minutesPart] = time.split(":");
@@ -19,16 +33,143 @@ const toMinutes = (time: string | null | undefined): number | null => {
   return hours * 60 + minutes;
 };
 
-export const isOrganizationOpenAtTime = (org: Organization, selection: TimeSelection | null): boolean => {
-  if (!selection) return true;
-  const periods = org.hours?.periods;
-  if (!periods || periods.length === 0) return false;
+const pad2 = (value: number): string => String(value).padStart(2, "0");
+
+export const parseCalendarDate = (value: string | null | undefined): CalendarDate | null => {
+  if (typeof value !== "string") return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const utc = new Date(Date.UTC(year, month - 1, day));
+  if (utc.getUTCFullYear() !== year || utc.getUTCMonth() !== month - 1 || utc.getUTCDate() !== day) return null;
+  return { year, month, day, weekday: utc.getUTCDay() };
+};
+
+/** Local calendar date of `date` as YYYY-MM-DD. */
+export const toCalendarDateString = (date: Date): string =>
+  `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/** Nth occurrences (1-5) this date falls on within its month, plus -1 when it is the last one. */
+const weeksOfMonth = (date: CalendarDate): number[] => {
+  const nth = Math.ceil(date.day / 7);
+  return date.day + 7 > daysInMonth(date.year, date.month) ? [nth, -1] : [nth];
+};
+
+const nthWeekdayOfMonth = (year: number, month: number, weekday: number, nth: number): number => {
+  if (nth === -1) {
+    const last = daysInMonth(year, month);
+    const lastWeekday = new Date(Date.UTC(year, month - 1, last)).getUTCDay();
+    return last - ((lastWeekday - weekday + 7) % 7);
+  }
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7;
+};
+
+/** US federal holidays on their actual dates (not the observed weekday). */
+export const getFederalHolidays = (year: number): Array<{ date: string; label: string }> => {
+  const fixed = (month: number, day: number) => `${year}-${pad2(month)}-${pad2(day)}`;
+  const nth = (month: number, weekday: number, n: number) => fixed(month, nthWeekdayOfMonth(year, month, weekday, n));
+  return [
+    { date: fixed(1, 1), label: "New Year's Day" },
+    { date: nth(1, 1, 3), label: "Martin Luther King Jr. Day" },
+    { date: nth(2, 1, 3), label: "Presidents' Day" },
+    { date: nth(5, 1, -1), label: "Memorial Day" },
+    { date: fixed(6, 19), label: "Juneteenth" },
+    { date: fixed(7, 4), label: "Independence Day" },
+    { date: nth(9, 1, 1), label: "Labor Day" },
+    { date: nth(10, 1, 2), label: "Indigenous Peoples' Day" },
+    { date: fixed(11, 11), label: "Veterans Day" },
+    { date: nth(11, 4, 4), label: "Thanksgiving" },
+    { date: fixed(12, 25), label: "Christmas Day" },
+  ];
+};
+
+export const getFederalHolidayLabel = (date: string): string | null => {
+  const parsed = parseCalendarDate(date);
+  if (!parsed) return null;
+  return getFederalHolidays(parsed.year).find((holiday) => holiday.date === date)?.label ?? null;
+};
+
+const exceptionAppliesOn = (exception: OrganizationHoursException, date: string, weekday: number): boolean => {
+  const start = parseCalendarDate(exception.startDate) ? exception.startDate : null;
+  if (!start) return false;
+  const end = parseCalendarDate(exception.endDate) ? (exception.endDate as string) : start;
+  // YYYY-MM-DD strings sort chronologically.
+  if (date < start || date > end) return false;
+  if (exception.days && exception.days.length > 0 && !exception.days.includes(weekday)) return false;
+  return true;
+};
+
+/** Exceptions in effect on `date`, in the order they were entered. */
+export const getHoursExceptionsOnDate = (
+  hours: OrganizationHours | null | undefined,
+  date: string,
+): OrganizationHoursException[] => {
+  const parsed = parseCalendarDate(date);
+  if (!parsed) return [];
+  return (hours?.exceptions ?? []).filter((exception) => exceptionAppliesOn(exception, date, parsed.weekday));
+};
+
+const toOpenPeriod = (source: OpenPeriod): OpenPeriod | null =>
+  toMinutes(source.openTime) === null || toMinutes(source.closeTime) === null
+    ? null
+    : { openTime: source.openTime, closeTime: source.closeTime, isOvernight: source.isOvernight };
+
+const weeklyPeriodsForDay = (hours: OrganizationHours | null | undefined, day: number): OpenPeriod[] =>
+  (hours?.periods ?? []).filter((period) => period.day === day);
 
-  const selectedMinutes = selection.hour * 60 + selection.minute;
-  const day = selection.day;
+/**
+ * Periods for a weekday without a calendar date: the weekly schedule plus any
+ * monthly open rules for that weekday (e.g. "2nd and 4th Tuesday" counts as
+ * open on Tuesdays). Closures need a date to apply.
+ */
+export const getOpenPeriodsForWeekday = (hours: OrganizationHours | null | undefined, day: number): OpenPeriod[] => {
+  const periods = weeklyPeriodsForDay(hours, day);
+  for (const recurrence of hours?.recurrences ?? []) {
+    if (recurrence.closed || recurrence.day !== day) continue;
+    const period = toOpenPeriod(recurrence);
+    if (period) periods.push(period);
+  }
+  return periods;
+};
+
+/**
+ * Periods for a calendar date. Dated exceptions replace the whole day, then
+ * holiday closures and closed monthly rules shut it; otherwise open monthly
+ * rules add to the weekly schedule.
+ */
+export const getOpenPeriodsOnDate = (hours: OrganizationHours | null | undefined, date: string): OpenPeriod[] => {
+  const parsed = parseCalendarDate(date);
+  if (!parsed) return [];
+
+  const exceptions = getHoursExceptionsOnDate(hours, date);
+  if (exceptions.length > 0) {
+    if (exceptions.some((exception) => exception.closed)) return [];
+    return exceptions.map(toOpenPeriod).filter((period): period is OpenPeriod => period !== null);
+  }
+
+  if (hours?.closedOnHolidays && getFederalHolidayLabel(date)) return [];
 
+  const weeks = weeksOfMonth(parsed);
+  const recurrences = (hours?.recurrences ?? []).filter(
+    (recurrence) => recurrence.day === parsed.weekday && recurrence.weeks.some((week) => weeks.includes(week)),
+  );
+  if (recurrences.some((recurrence) => recurrence.closed)) return [];
+
+  const periods = weeklyPeriodsForDay(hours, parsed.weekday);
+  for (const recurrence of recurrences) {
+    const period = toOpenPeriod(recurrence);
+    if (period) periods.push(period);
+  }
+  return periods;
+};
+
+const isWithinPeriods = (periods: OpenPeriod[], selectedMinutes: number): boolean => {
   for (const period of periods) {
-    if (period.day !== day) continue;
     const openMinutes = toMinutes(period.openTime);
     const closeMinutes = toMinutes(period.closeTime);
     if (openMinutes === null || closeMinutes === null) continue;
@@ -42,13 +183,55 @@ export const isOrganizationOpenAtTime = (org: Organization, selection: TimeSelec
       return true;
     }
   }
-
   return false;
 };
 
+const hasAnyHours = (hours: OrganizationHours | null | undefined): boolean =>
+  (hours?.periods?.length ?? 0) > 0 || (hours?.recurrences?.length ?? 0) > 0 || (hours?.exceptions?.length ?? 0) > 0;
+
+export const isOrganizationOpenAtTime = (org: Organization, selection: TimeSelection | null): boolean => {
+  if (!selection) return true;
+  if (!hasAnyHours(org.hours)) return false;
+
+  const periods = selection.date
+    ? getOpenPeriodsOnDate(org.hours, selection.date)
+    : getOpenPeriodsForWeekday(org.hours, selection.day);
+  return isWithinPeriods(periods, selection.hour * 60 + selection.minute);
+};
+
+export type OrganizationOpenStatus = {
+  isOpen: boolean;
+  /** Why the org is closed all day (holiday or exception label), when known. */
+  closedReason: string | null;
+};
+
+/** Open/closed state at `now`, evaluated against the calendar. Null when the org has no hours. */
+export const getOrganizationOpenStatus = (
+  hours: OrganizationHours | null | undefined,
+  now: Date,
+): OrganizationOpenStatus | null => {
+  if (!hasAnyHours(hours)) return null;
+  const date = toCalendarDateString(now);
+  const periods = getOpenPeriodsOnDate(hours, date);
+  const isOpen = isWithinPeriods(periods, now.getHours() * 60 + now.getMinutes());
+  if (isOpen || periods.length > 0) return { isOpen, closedReason: null };
+
+  const exception = getHoursExceptionsOnDate(hours, date).find((entry) => entry.closed);
+  const holiday = hours?.closedOnHolidays ? getFederalHolidayLabel(date) : null;
+  return { isOpen: false, closedReason: exception?.label?.trim() || holiday };
+};
+
+export const formatCalendarDate = (date: string): string => {
+  const parsed = parseCalendarDate(date);
+  if (!parsed) return date;
+  return `${DAY_LABELS[parsed.weekday].slice(0, 3)}, ${MONTH_LABELS[parsed.month - 1]} ${parsed.day}`;
+};
+
 export const formatTimeSelection = (selection: TimeSelection | null): string => {
   if (!selection) return "Hours";
-  const dayName = DAY_LABELS[selection.day] ?? `Day ${selection.day}`;
+  const dayName = selection.date
+    ? formatCalendarDate(selection.date)
+    : DAY_LABELS[selection.day] ?? `Day ${selection.day}`;
   const hour12 = selection.hour % 12 || 12;
   const minute = selection.minute.toString().padStart(2, "0");
   const suffix = selection.hour < 12 ? "AM" : "PM";
@@ -57,11 +240,13 @@ export const formatTimeSelection = (selection: TimeSelection | null): string =>
 
 export const toTimeSelection = (value: TimeSelection | null | undefined): TimeSelection | null => {
   if (!value) return null;
-  const day = Math.min(Math.max(value.day, 0), 6);
+  const parsedDate = parseCalendarDate(value.date);
+  const date = parsedDate ? (value.date as string) : null;
+  const day = parsedDate ? parsedDate.weekday : Math.min(Math.max(value.day, 0), 6);
   const hour = Math.min(Math.max(value.hour, 0), 23);
   const minute = Math.min(Math.max(value.minute, 0), 59);
-  if (day === value.day && hour === value.hour && minute === value.minute) {
+  if (day === value.day && hour === value.hour && minute === value.minute && date === (value.date ?? null)) {
     return value;
   }
-  return { day, hour, minute };
+  return date ? { day, hour, minute, date } : { day, hour, minute };
 };
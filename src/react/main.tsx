@@ -7,6 +7,8 @@ import { ErrorBoundary } from "./components/ErrorBoundary";
 import { CensusImportQueueProvider } from "./hooks/useCensusImportQueue";
 import { initCrashLog, logCrash } from "./lib/crashLog";
 import { getDomainMetadata } from "./lib/domains";
+import { getLangFromUrl } from "./lib/mapUrl";
+import { localeController } from "../lib/i18n";
 import "maplibre-gl/dist/maplibre-gl.css";
 import "../style.css";
 
@@ -70,6 +72,12 @@ const applyDomainMetadata = () => {
 initCrashLog();
 applyDomainMetadata();
 
+// A shared link's ?lang= wins for this visit without replacing the saved choice.
+const urlLang = getLangFromUrl();
+if (urlLang) {
+  localeController.setLocale(urlLang, { persist: false });
+}
+
 // Initialize Microsoft Clarity
 if (typeof window !== "undefined") {
   Clarity.init("vyx3mkj88q");
@@ -122,6 +130,15 @@ if (typeof window !== "undefined") {
   }
 }
 
+// Offline mode: the worker precaches the built app and boundary chunks.
+if (import.meta.env.PROD && typeof navigator !== "undefined" && "serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.warn("Service worker registration failed", error);
+    });
+  });
+}
+
 if (import.meta.hot) {
   import.meta.hot.dispose(() => {
     root.unmount();
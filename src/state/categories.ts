@@ -3,6 +3,7 @@
  * Mirrors the useCategories hook but for non-React contexts.
  */
 import { db } from "../lib/db";
+import { localizeLabel, normalizeLabelTranslations, type LabelTranslations } from "../lib/i18n";
 import type { Category } from "../types/organization";
 
 const CATEGORIES_QUERY = {
@@ -18,6 +19,8 @@ export interface CategoryRow {
   id: string;
   slug: Category;
   label: string;
+  /** Admin-entered label overrides per UI locale. */
+  labelTranslations?: LabelTranslations;
   sortOrder: number;
   active: boolean;
   forStats: boolean;
@@ -68,10 +71,10 @@ class CategoriesStore {
     return this.data.filter((c) => c.showInSidebar);
   }
 
-  /** Get label for a category slug */
+  /** Get label for a category slug in the current UI locale */
   getLabel(slug: Category | string): string {
     const found = this.data.find((c) => c.slug === slug);
-    return found ? found.label : slug;
+    return found ? localizeLabel(found.label, found.labelTranslations) : slug;
   }
 
   private initialize() {
@@ -87,6 +90,7 @@ class CategoriesStore {
             id: row.id,
             slug: row.slug as Category,
             label: typeof row.label === "string" ? row.label : row.slug,
+            labelTranslations: normalizeLabelTranslations(row.labelTranslations),
             sortOrder: typeof row.sortOrder === "number" ? row.sortOrder : 999,
             active: row.active !== false,
             forStats: row.forStats === true,
@@ -26,7 +26,7 @@ type BoundaryStatEntry = {
   max: number;
 };
 
-type BoundaryTypeKey = Extract<AreaKind, "ZIP" | "COUNTY">;
+type BoundaryTypeKey = Extract<AreaKind, "ZIP" | "COUNTY" | "TRACT">;
 
 type ParentAreaKey = string;
 
@@ -46,6 +46,7 @@ export type StatDataStoreState = {
 const normalizeBoundaryType = (value: unknown): BoundaryTypeKey | null => {
   if (value === "ZIP") return "ZIP";
   if (value === "COUNTY") return "COUNTY";
+  if (value === "TRACT") return "TRACT";
   return null;
 };
 
@@ -308,7 +309,7 @@ class StatDataStore {
     const statIds = Array.from(new Set([...this.priorityStatIds, ...this.prefetchStatIds]));
     if (statIds.length === 0) return;
     const parentAreas = this.getExpandedParentAreas();
-    const boundaryTypes: BoundaryTypeKey[] = ["ZIP", "COUNTY"];
+    const boundaryTypes: BoundaryTypeKey[] = ["ZIP", "COUNTY", "TRACT"];
 
     this.focusHydratePromise = this.hydrateFromCache(
       statIds.flatMap((statId) =>
@@ -412,7 +413,7 @@ class StatDataStore {
         ),
       );
       const parentAreasForQuery = expandScopeParentAreasForQuery(requestedParentAreas);
-      const boundaryTypes: BoundaryTypeKey[] = ["ZIP", "COUNTY"];
+      const boundaryTypes: BoundaryTypeKey[] = ["ZIP", "COUNTY", "TRACT"];
 
       await this.hydrateFocusFromCache();
 
@@ -1,6 +1,8 @@
 import type { Stat } from "../types/stat";
 import { normalizeStatVisibility } from "../types/stat";
+import { normalizeClassificationMethod, normalizeManualBreaks } from "../lib/choropleth";
 import { db } from "../lib/db";
+import { normalizeLabelTranslations } from "../lib/i18n";
 
 const STATS_QUERY = {
   stats: {
@@ -46,6 +48,7 @@ class StatsStore {
             id: row.id,
             name: (row as any).name,
             label: typeof (row as any).label === "string" ? (row as any).label : undefined,
+            labelTranslations: normalizeLabelTranslations((row as any).labelTranslations),
             description:
               typeof (row as any).description === "string" && (row as any).description.trim()
                 ? (row as any).description
@@ -72,6 +75,10 @@ class StatsStore {
             visibilityEffective:
               normalizeStatVisibility((row as any).visibilityEffective) ?? undefined,
             createdBy: typeof (row as any).createdBy === "string" ? (row as any).createdBy : undefined,
+            classificationMethod: normalizeClassificationMethod((row as any).classificationMethod) ?? undefined,
+            classBreaks: normalizeManualBreaks((row as any).classBreaks) ?? undefined,
+            denominatorStatId:
+              typeof (row as any).denominatorStatId === "string" ? (row as any).denominatorStatId : undefined,
           }));
         this.data = normalized;
         this.emit();
@@ -21,13 +21,13 @@ export const AREA_KINDS: AreaKind[] = ["ZIP", "COUNTY", "TRACT"];
 export const DEFAULT_PARENT_AREA_BY_KIND: Record<AreaKind, string | null> = {
   ZIP: "Oklahoma",
   COUNTY: "Oklahoma",
-  TRACT: null,
+  TRACT: "Oklahoma",
 };
 
 export const DEFAULT_SCOPE_LABEL_BY_KIND: Record<AreaKind, string> = {
   ZIP: "Oklahoma ZIPs",
   COUNTY: "Oklahoma Counties",
-  TRACT: "Tracts",
+  TRACT: "Oklahoma Tracts",
 };
 
 export interface PersistedAreaSelection {
@@ -1 +1 @@
-export type BoundaryMode = "none" | "zips" | "counties";
+export type BoundaryMode = "none" | "zips" | "counties" | "tracts";
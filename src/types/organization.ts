@@ -19,9 +19,39 @@ export interface OrganizationHoursPeriod {
   status?: string | null;
 }
 
+/**
+ * Monthly rule such as "every 2nd and 4th Tuesday" or "closed 3rd Saturday".
+ * `weeks` are nth occurrences of `day` in the month (1-5), with -1 for the last.
+ */
+export interface OrganizationHoursRecurrence {
+  day: number;
+  weeks: number[];
+  openTime?: string | null;
+  closeTime?: string | null;
+  /** When true the matching days are closed instead of open. */
+  closed?: boolean;
+}
+
+/** Dated override (holiday closure, special hours, seasonal schedule). Dates are YYYY-MM-DD. */
+export interface OrganizationHoursException {
+  startDate: string;
+  /** Inclusive end of a date range; omitted for a single day. */
+  endDate?: string | null;
+  /** Limits a date range to these weekdays, e.g. summer Saturdays only. */
+  days?: number[] | null;
+  closed?: boolean;
+  openTime?: string | null;
+  closeTime?: string | null;
+  label?: string | null;
+}
+
 export interface OrganizationHours {
   periods?: OrganizationHoursPeriod[];
   weekdayText?: string[];
+  recurrences?: OrganizationHoursRecurrence[];
+  exceptions?: OrganizationHoursException[];
+  /** Closed on US federal holidays unless an exception says otherwise. */
+  closedOnHolidays?: boolean;
   status?: string;
   isUnverified?: boolean;
 }
@@ -1,9 +1,13 @@
+import type { ClassificationMethod } from "../lib/choropleth";
+import { localizeLabel, type LabelTranslations } from "../lib/i18n";
 import type { Category } from "./organization";
 
 export interface Stat {
   id: string;
   name: string;
   label?: string; // Human-friendly display label (use instead of name when available)
+  /** Admin-entered label overrides per UI locale. */
+  labelTranslations?: LabelTranslations;
   description?: string | null;
   source?: string | null;
   neId?: string | null;
@@ -21,6 +25,12 @@ export interface Stat {
   /** Legacy active flag (deprecated; treated as inactive when false and visibility is unset). */
   active?: boolean;
   type?: string; // Optional type override (e.g., "currency", "percent")
+  /** Choropleth classification; unset means equal interval. */
+  classificationMethod?: ClassificationMethod;
+  /** Class thresholds for the "manual" classification method. */
+  classBreaks?: number[];
+  /** Stat that weights this one when areas are combined; population when unset. */
+  denominatorStatId?: string | null;
 }
 
 export interface StatRelation {
@@ -48,7 +58,8 @@ export type StatRelationsByParent = Map<
 export type StatRelationsByChild = Map<string, Array<StatRelation>>;
 
 /** Get display name for a stat (label if available, otherwise name) */
-export const getStatDisplayName = (stat: Stat): string => stat.label || stat.name;
+export const getStatDisplayName = (stat: Stat): string =>
+  localizeLabel(stat.label || stat.name, stat.labelTranslations);
 
 export type StatVisibility = "inactive" | "private" | "public";
 
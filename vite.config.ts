@@ -1,3 +1,4 @@
+import { createHash } from 'node:crypto';
 import { defineConfig, loadEnv, type PluginOption } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -8,6 +9,24 @@ const visualizer = async (): Promise<PluginOption | null> => {
   return (mod as any).visualizer({ open: true, filename: 'stats.html', gzipSize: true, brotliSize: true });
 };
 
+// Lists every built file (app shell, lazy screens, ZCTA county chunks) for
+// public/sw.js to precache. The version changes whenever a hashed file does.
+const offlinePrecacheManifest = (): PluginOption => ({
+  name: 'offline-precache-manifest',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle)
+      .filter((fileName) => !fileName.endsWith('.map') && fileName !== 'index.html')
+      .sort();
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.json',
+      source: JSON.stringify({ version, files: files.map((fileName) => `/${fileName}`) }),
+    });
+  },
+});
+
 export default defineConfig(async ({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
   const neProxyTarget = env.VITE_NE_PROXY_TARGET || 'https://www.neighborhoodexplorer.org';
@@ -15,7 +34,7 @@ export default defineConfig(async ({ mode }) => {
   const neProxyTargetStaging = env.VITE_NE_PROXY_TARGET_STAGING || 'https://neighborhood-explorer-staging.herokuapp.com';
   const analyzePlugin = await visualizer();
   return {
-    plugins: [react(), ...(analyzePlugin ? [analyzePlugin] : [])],
+    plugins: [react(), offlinePrecacheManifest(), ...(analyzePlugin ? [analyzePlugin] : [])],
     server: {
       port: 5174,
       cors: true,